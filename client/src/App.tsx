@@ -8,6 +8,7 @@ import { OrgProvider } from "@/contexts/org-context";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { NotificationBell } from "@/components/notification-bell";
 
 import AuthPage from "@/pages/auth-page";
 import ForgotPasswordPage from "@/pages/forgot-password-page";
@@ -26,6 +27,7 @@ import ActivityDetailPage from "@/pages/activity-detail-page";
 import ImportPage from "@/pages/import-page";
 import AdminConsole from "@/pages/admin-console";
 import AuditLogPage from "@/pages/audit-log-page";
+import DuplicatesPage from "@/pages/duplicates-page";
 import HelpPage from "@/pages/help-page";
 import AnalyticsPage from "@/pages/analytics-page";
 import ResourceAllocationPage from "@/pages/resource-allocation-page";
@@ -34,6 +36,7 @@ import LeadGenIcpsPage from "@/pages/lead-gen-icps-page";
 import LeadGenIcpDetailPage from "@/pages/lead-gen-icp-detail-page";
 import LeadGenPlaybooksPage from "@/pages/lead-gen-playbooks-page";
 import LeadGenPlaybookDetailPage from "@/pages/lead-gen-playbook-detail-page";
+import LeadGenPromptsPage from "@/pages/lead-gen-prompts-page";
 import LeadGenRunsPage from "@/pages/lead-gen-runs-page";
 import LeadGenRunDetailPage from "@/pages/lead-gen-run-detail-page";
 import LeadGenReviewPage from "@/pages/lead-gen-review-page";
@@ -58,12 +61,13 @@ function AppLayout({ children }: { children: React.ReactNode }) {
       <div className="flex h-screen w-full overflow-hidden">
         <AppSidebar />
         <div className="flex flex-col flex-1 overflow-hidden">
-          {/* VR-002: Minimal top bar — just the sidebar trigger */}
-          <header className="flex items-center h-12 px-4 border-b bg-background shrink-0">
+          {/* VR-002: Minimal top bar — sidebar trigger and notification bell */}
+          <header className="flex items-center justify-between h-12 px-4 border-b bg-background shrink-0">
             <SidebarTrigger
               data-testid="button-sidebar-toggle"
               className="text-muted-foreground hover:text-foreground"
             />
+            <NotificationBell />
           </header>
           <main className="flex-1 overflow-y-auto bg-background">
             {children}
@@ -139,6 +143,7 @@ function Router() {
       <CrmGuardedRoute path="/help" component={HelpPage} />
       <CrmGuardedRoute path="/admin" component={AdminConsole} />
       <CrmGuardedRoute path="/audit-log" component={AuditLogPage} />
+      <CrmGuardedRoute path="/duplicates" component={DuplicatesPage} />
       <ProtectedRoute path="/resource-allocation" component={ResourceAllocationPage} />
 
       <CrmGuardedRoute path="/lead-gen" component={LeadGenDashboard} />
@@ -147,6 +152,7 @@ function Router() {
       <CrmGuardedRoute path="/lead-gen/icps/:id" component={LeadGenIcpDetailPage} />
       <CrmGuardedRoute path="/lead-gen/playbooks" component={LeadGenPlaybooksPage} />
       <CrmGuardedRoute path="/lead-gen/playbooks/:id" component={LeadGenPlaybookDetailPage} />
+      <CrmGuardedRoute path="/lead-gen/prompts" component={LeadGenPromptsPage} />
       <CrmGuardedRoute path="/lead-gen/runs" component={LeadGenRunsPage} />
       <CrmGuardedRoute path="/lead-gen/runs/:id" component={LeadGenRunDetailPage} />
       <CrmGuardedRoute path="/lead-gen/review" component={LeadGenReviewPage} />
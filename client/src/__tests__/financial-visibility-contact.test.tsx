@@ -35,10 +35,12 @@ function makeOpportunity(overrides: Partial<Opportunity> = {}): Opportunity {
     estRevenue: null,
     rating: null,
     externalId: null,
+    importJobId: null,
     sourceSystem: null,
     sourceRecordId: null,
     importStatus: null,
     importNotes: null,
+    customFields: {},
     includeInForecast: true,
     implementationStartDate: null,
     implementationEndDate: null,
@@ -46,6 +48,8 @@ function makeOpportunity(overrides: Partial<Opportunity> = {}): Opportunity {
     categories: null,
     operationalAreas: null,
     description: null,
+    priceBookId: null,
+    rollUpLineItems: false,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
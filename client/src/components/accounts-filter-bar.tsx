@@ -8,6 +8,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { AccountCategory } from "@shared/schema";
 import { TagFilterButton } from "@/components/tag-filter-button";
+import { CustomFieldFilterButton } from "@/components/custom-field-filter-button";
 
 interface User {
   id: string;
@@ -21,6 +22,7 @@ interface AccountFilters {
   category: string;
   ownerId: string;
   tagIds: string[];
+  customFields: Record<string, string>;
 }
 
 interface AccountsFilterBarProps {
@@ -37,6 +39,7 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
   const [category, setCategory] = useState(initialFilters?.category ?? "");
   const [ownerId, setOwnerId] = useState(initialFilters?.ownerId ?? "");
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(initialFilters?.tagIds ?? []);
+  const [customFields, setCustomFields] = useState<Record<string, string>>(initialFilters?.customFields ?? {});
 
   const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const onFilterChangeRef = useRef(onFilterChange);
@@ -50,6 +53,8 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
   ownerIdRef.current = ownerId;
   const selectedTagIdsRef = useRef(selectedTagIds);
   selectedTagIdsRef.current = selectedTagIds;
+  const customFieldsRef = useRef(customFields);
+  customFieldsRef.current = customFields;
 
   const { data: users } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -67,42 +72,48 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
       category: initialFilters?.category ?? "",
       ownerId: initialFilters?.ownerId ?? "",
       tagIds: initialFilters?.tagIds ?? [],
+      customFields: initialFilters?.customFields ?? {},
     });
   }, []);
 
-  const notify = (newSearch: string, newType: string, newCategory: string, newOwnerId: string, newTagIds: string[]) => {
-    onFilterChangeRef.current({ search: newSearch, type: newType, category: newCategory, ownerId: newOwnerId, tagIds: newTagIds });
+  const notify = (newSearch: string, newType: string, newCategory: string, newOwnerId: string, newTagIds: string[], newCustomFields: Record<string, string>) => {
+    onFilterChangeRef.current({ search: newSearch, type: newType, category: newCategory, ownerId: newOwnerId, tagIds: newTagIds, customFields: newCustomFields });
   };
 
   const handleSearchChange = (value: string) => {
     setSearch(value);
     if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
     searchTimerRef.current = setTimeout(() => {
-      notify(value, typeRef.current, categoryRef.current, ownerIdRef.current, selectedTagIdsRef.current);
+      notify(value, typeRef.current, categoryRef.current, ownerIdRef.current, selectedTagIdsRef.current, customFieldsRef.current);
     }, 300);
   };
 
   const handleTypeChange = (value: string) => {
     const newType = value === "all" ? "" : value;
     setType(newType);
-    notify(search, newType, category, ownerId, selectedTagIds);
+    notify(search, newType, category, ownerId, selectedTagIds, customFields);
   };
 
   const handleCategoryChange = (value: string) => {
     const newCategory = value === "all" ? "" : value;
     setCategory(newCategory);
-    notify(search, type, newCategory, ownerId, selectedTagIds);
+    notify(search, type, newCategory, ownerId, selectedTagIds, customFields);
   };
 
   const handleOwnerChange = (value: string) => {
     const newOwner = value === "all" ? "" : value;
     setOwnerId(newOwner);
-    notify(search, type, category, newOwner, selectedTagIds);
+    notify(search, type, category, newOwner, selectedTagIds, customFields);
   };
 
   const handleTagIdsChange = (newTagIds: string[]) => {
     setSelectedTagIds(newTagIds);
-    notify(search, type, category, ownerId, newTagIds);
+    notify(search, type, category, ownerId, newTagIds, customFields);
+  };
+
+  const handleCustomFieldsChange = (newCustomFields: Record<string, string>) => {
+    setCustomFields(newCustomFields);
+    notify(search, type, category, ownerId, selectedTagIds, newCustomFields);
   };
 
   const handleClearFilters = () => {
@@ -112,7 +123,8 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
     setCategory("");
     setOwnerId("");
     setSelectedTagIds([]);
-    notify("", "", "", "", []);
+    setCustomFields({});
+    notify("", "", "", "", [], {});
   };
 
   const handleMyAccounts = () => {
@@ -120,7 +132,7 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
     setOwnerId(newOwner);
     setType("");
     setCategory("");
-    notify(search, "", "", newOwner, selectedTagIds);
+    notify(search, "", "", newOwner, selectedTagIds, customFields);
   };
 
   const handleAllAccounts = () => {
@@ -128,10 +140,11 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
     setType("");
     setCategory("");
     setSelectedTagIds([]);
-    notify(search, "", "", "", []);
+    setCustomFields({});
+    notify(search, "", "", "", [], {});
   };
 
-  const hasActiveFilters = search || type || category || ownerId || selectedTagIds.length > 0;
+  const hasActiveFilters = search || type || category || ownerId || selectedTagIds.length > 0 || Object.keys(customFields).length > 0;
 
   return (
     <div className="space-y-4" data-testid="accounts-filter-bar">
@@ -196,6 +209,12 @@ export function AccountsFilterBar({ onFilterChange, totalCount, filteredCount, i
           onTagIdsChange={handleTagIdsChange}
         />
 
+        <CustomFieldFilterButton
+          entityType="account"
+          value={customFields}
+          onChange={handleCustomFieldsChange}
+        />
+
         {hasActiveFilters && (
           <Button
             variant="outline"
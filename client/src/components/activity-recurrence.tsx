@@ -0,0 +1,387 @@
+// Recurring activity controls — an editor that builds an RRULE string
+// (daily / weekly / monthly with an end date or count, or a custom RRULE) and
+// the "this / following / whole series" chooser shown when editing or
+// deleting an occurrence of a series.
+//
+// The server evaluates rules in UTC, so weekdays and month days are derived
+// from the start date's UTC calendar day; weekdays picked here (in local
+// time) are shifted when the start time falls on a different UTC day.
+
+import { useEffect, useState } from "react";
+import type { ActivitySeriesEditScope } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+export interface ActivitySeriesInfo {
+  id: string;
+  rrule: string;
+  description: string;
+  dtstart: string;
+  templateActivityId: string | null;
+  isFirstOccurrence: boolean;
+  occurrenceCount: number;
+  completedCount: number;
+  upcoming: Array<{ id: string; subject: string; dueAt: string | null; status: string }>;
+}
+
+type Frequency = "none" | "DAILY" | "WEEKLY" | "MONTHLY" | "CUSTOM";
+type EndMode = "never" | "until" | "count";
+
+interface RecurrenceDraft {
+  freq: Frequency;
+  interval: number;
+  weekdays: string[]; // Local weekdays, MO..SU
+  monthly: "monthday" | "weekday";
+  end: EndMode;
+  until: string; // yyyy-mm-dd
+  count: number;
+  custom: string;
+}
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const WEEKDAY_LABELS: Record<string, string> = { MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun" };
+const UNIT_LABELS: Record<string, string> = { DAILY: "day(s)", WEEKLY: "week(s)", MONTHLY: "month(s)" };
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+/** Monday-based weekday index of a JS day number (0 = Sunday). */
+function mondayIndex(day: number): number {
+  return (day + 6) % 7;
+}
+
+/** Days the UTC calendar date is ahead of the local one (-1, 0 or 1). */
+function utcDayOffset(start: Date): number {
+  const local = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const utc = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  return Math.round((utc - local) / 86_400_000);
+}
+
+function shiftWeekday(weekday: string, days: number): string {
+  return WEEKDAYS[(WEEKDAYS.indexOf(weekday) + days + 7) % 7];
+}
+
+/** Monthly "nth weekday" of the start date, e.g. "2TU" or "-1FR" for a fifth week. */
+function monthlyWeekday(start: Date): string {
+  const nth = Math.ceil(start.getUTCDate() / 7);
+  return `${nth >= 5 ? -1 : nth}${WEEKDAYS[mondayIndex(start.getUTCDay())]}`;
+}
+
+function describeMonthlyWeekday(start: Date): string {
+  const nth = Math.ceil(start.getUTCDate() / 7);
+  const weekday = WEEKDAY_LABELS[WEEKDAYS[mondayIndex(start.getUTCDay())]];
+  return `the ${nth >= 5 ? "last" : ORDINALS[nth - 1]} ${weekday}`;
+}
+
+function defaultDraft(start: Date | null): RecurrenceDraft {
+  return {
+    freq: "none",
+    interval: 1,
+    weekdays: [WEEKDAYS[mondayIndex((start ?? new Date()).getDay())]],
+    monthly: "monthday",
+    end: "never",
+    until: "",
+    count: 10,
+    custom: "",
+  };
+}
+
+/** Build the RRULE for a draft, or null for "does not repeat". */
+export function buildRecurrenceRule(draft: RecurrenceDraft, start: Date | null): string | null {
+  if (draft.freq === "none") return null;
+  if (draft.freq === "CUSTOM") return draft.custom.trim() || null;
+
+  const parts = [`FREQ=${draft.freq}`];
+  if (draft.interval > 1) parts.push(`INTERVAL=${draft.interval}`);
+  if (draft.freq === "WEEKLY" && draft.weekdays.length > 0) {
+    const offset = start ? utcDayOffset(start) : 0;
+    const days = draft.weekdays.map(d => shiftWeekday(d, offset));
+    parts.push(`BYDAY=${WEEKDAYS.filter(d => days.includes(d)).join(",")}`);
+  }
+  if (draft.freq === "MONTHLY" && draft.monthly === "weekday" && start) {
+    parts.push(`BYDAY=${monthlyWeekday(start)}`);
+  }
+  if (draft.end === "until" && draft.until) parts.push(`UNTIL=${draft.until.replace(/-/g, "")}`);
+  if (draft.end === "count" && draft.count > 0) parts.push(`COUNT=${draft.count}`);
+  return parts.join(";");
+}
+
+/** Best-effort reverse of buildRecurrenceRule; anything else opens as a custom rule. */
+function parseDraft(rrule: string | null, start: Date | null): RecurrenceDraft {
+  const draft = defaultDraft(start);
+  if (!rrule) return draft;
+
+  const parts = new Map(
+    rrule.replace(/^RRULE:/i, "").split(";").filter(Boolean).map(p => {
+      const [key, value = ""] = p.split("=");
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    }),
+  );
+  const custom = { ...draft, freq: "CUSTOM" as const, custom: rrule };
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") return custom;
+  if (Array.from(parts.keys()).some(k => !["FREQ", "INTERVAL", "BYDAY", "COUNT", "UNTIL"].includes(k))) return custom;
+
+  draft.freq = freq;
+  draft.interval = parseInt(parts.get("INTERVAL") ?? "1", 10) || 1;
+  const byDay = parts.get("BYDAY");
+  if (freq === "WEEKLY" && byDay) {
+    const offset = start ? utcDayOffset(start) : 0;
+    draft.weekdays = byDay.split(",").map(d => shiftWeekday(d, -offset));
+  } else if (freq === "MONTHLY" && byDay) {
+    if (!start || byDay !== monthlyWeekday(start)) return custom;
+    draft.monthly = "weekday";
+  } else if (byDay) {
+    return custom;
+  }
+  const until = parts.get("UNTIL");
+  const count = parts.get("COUNT");
+  if (until) {
+    draft.end = "until";
+    draft.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  } else if (count) {
+    draft.end = "count";
+    draft.count = parseInt(count, 10) || 1;
+  }
+  return draft;
+}
+
+interface RecurrenceEditorProps {
+  value: string | null;
+  onChange: (rrule: string | null) => void;
+  // ISO due date of the first occurrence; weekday and month-day defaults follow it
+  startDate: string | null;
+  // Existing series can't be switched off here — they are ended by deleting
+  // the following occurrences
+  allowNone?: boolean;
+}
+
+export function RecurrenceEditor({ value, onChange, startDate, allowNone = true }: RecurrenceEditorProps) {
+  const start = startDate ? new Date(startDate) : null;
+  const [draft, setDraft] = useState<RecurrenceDraft>(() => parseDraft(value, start));
+
+  const update = (changes: Partial<RecurrenceDraft>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(buildRecurrenceRule(next, start));
+  };
+
+  // Weekday shifts and "nth weekday" depend on the start date
+  useEffect(() => {
+    if (draft.freq !== "none" && draft.freq !== "CUSTOM") onChange(buildRecurrenceRule(draft, start));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [startDate]);
+
+  const repeating = draft.freq !== "none" && draft.freq !== "CUSTOM";
+
+  return (
+    <div className="space-y-3 rounded-md border p-3" data-testid="recurrence-editor">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="recurrence-frequency" className="w-20 shrink-0">Repeats</Label>
+        <Select value={draft.freq} onValueChange={freq => update({ freq: freq as Frequency })}>
+          <SelectTrigger id="recurrence-frequency" className="w-48" data-testid="select-recurrence-frequency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {allowNone && <SelectItem value="none">Does not repeat</SelectItem>}
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+            <SelectItem value="CUSTOM">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {draft.freq !== "none" && !start && (
+        <p className="text-xs text-amber-600" data-testid="text-recurrence-needs-due-date">
+          Set a due date — the first occurrence starts the series.
+        </p>
+      )}
+
+      {draft.freq === "CUSTOM" && (
+        <div className="space-y-1">
+          <Input
+            value={draft.custom}
+            onChange={e => update({ custom: e.target.value })}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10"
+            className="font-mono text-xs"
+            data-testid="input-recurrence-custom"
+          />
+          <p className="text-xs text-muted-foreground">
+            RRULE with FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT or UNTIL. Dates are in UTC.
+          </p>
+        </div>
+      )}
+
+      {repeating && (
+        <>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="recurrence-interval" className="w-20 shrink-0">Every</Label>
+            <Input
+              id="recurrence-interval"
+              type="number"
+              min={1}
+              max={99}
+              value={draft.interval}
+              onChange={e => update({ interval: Math.min(99, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className="w-20"
+              data-testid="input-recurrence-interval"
+            />
+            <span className="text-sm text-muted-foreground">{UNIT_LABELS[draft.freq]}</span>
+          </div>
+
+          {draft.freq === "WEEKLY" && (
+            <div className="flex items-center gap-3">
+              <Label className="w-20 shrink-0">On</Label>
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                variant="outline"
+                value={draft.weekdays}
+                onValueChange={weekdays => weekdays.length > 0 && update({ weekdays })}
+                data-testid="toggle-recurrence-weekdays"
+              >
+                {WEEKDAYS.map(day => (
+                  <ToggleGroupItem key={day} value={day} aria-label={WEEKDAY_LABELS[day]} className="px-2 text-xs">
+                    {WEEKDAY_LABELS[day]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          {draft.freq === "MONTHLY" && start && (
+            <div className="flex items-center gap-3">
+              <Label className="w-20 shrink-0">On</Label>
+              <Select value={draft.monthly} onValueChange={monthly => update({ monthly: monthly as RecurrenceDraft["monthly"] })}>
+                <SelectTrigger className="w-48" data-testid="select-recurrence-monthly">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthday">Day {start.getUTCDate()}</SelectItem>
+                  <SelectItem value="weekday">{describeMonthlyWeekday(start)}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <Label className="w-20 shrink-0">Ends</Label>
+            <Select value={draft.end} onValueChange={end => update({ end: end as EndMode })}>
+              <SelectTrigger className="w-36" data-testid="select-recurrence-end">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {draft.end === "until" && (
+              <Input
+                type="date"
+                value={draft.until}
+                onChange={e => update({ until: e.target.value })}
+                className="w-40"
+                data-testid="input-recurrence-until"
+              />
+            )}
+            {draft.end === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={730}
+                  value={draft.count}
+                  onChange={e => update({ count: Math.min(730, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                  className="w-20"
+                  data-testid="input-recurrence-count"
+                />
+                <span className="text-sm text-muted-foreground">occurrences</span>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const SCOPE_LABELS: Record<ActivitySeriesEditScope, { label: string; description: string }> = {
+  this: { label: "This occurrence", description: "Other occurrences stay as they are" },
+  following: { label: "This and following occurrences", description: "Earlier occurrences stay as they are" },
+  series: { label: "All occurrences", description: "Completed and cancelled occurrences are kept as history" },
+};
+
+interface SeriesScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: "edit" | "delete";
+  // Recurrence changes can't apply to a single occurrence
+  allowThis?: boolean;
+  pending?: boolean;
+  onConfirm: (scope: ActivitySeriesEditScope) => void;
+}
+
+export function SeriesScopeDialog({ open, onOpenChange, action, allowThis = true, pending, onConfirm }: SeriesScopeDialogProps) {
+  const scopes: ActivitySeriesEditScope[] = allowThis ? ["this", "following", "series"] : ["following", "series"];
+  const [scope, setScope] = useState<ActivitySeriesEditScope>(scopes[0]);
+
+  useEffect(() => {
+    if (open) setScope(allowThis ? "this" : "following");
+  }, [open, allowThis]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid={`dialog-series-scope-${action}`}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{action === "edit" ? "Edit recurring activity" : "Delete recurring activity"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === "edit"
+              ? "This activity is part of a series. Which occurrences should change?"
+              : "This activity is part of a series. Which occurrences should be deleted?"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup value={scope} onValueChange={value => setScope(value as ActivitySeriesEditScope)} className="space-y-2">
+          {scopes.map(option => (
+            <div key={option} className="flex items-start gap-2">
+              <RadioGroupItem value={option} id={`series-scope-${option}`} className="mt-0.5" data-testid={`radio-series-scope-${option}`} />
+              <div>
+                <Label htmlFor={`series-scope-${option}`}>{SCOPE_LABELS[option].label}</Label>
+                <p className="text-xs text-muted-foreground">{SCOPE_LABELS[option].description}</p>
+              </div>
+            </div>
+          ))}
+        </RadioGroup>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-cancel-series-scope">Cancel</AlertDialogCancel>
+          <Button
+            variant={action === "delete" ? "destructive" : "default"}
+            disabled={pending}
+            onClick={() => onConfirm(scope)}
+            data-testid="button-confirm-series-scope"
+          >
+            {action === "edit" ? (pending ? "Updating..." : "Update") : (pending ? "Deleting..." : "Delete")}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,470 @@
+// Custom Fields Tab Component
+// Defines org-specific fields for accounts, contacts, leads, opportunities and
+// activities. Key, type and lookup target are fixed once a field is created.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Edit2, ListPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateCustomFields } from "@/hooks/use-custom-fields";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  CUSTOM_FIELD_ENTITY_TYPES,
+  CUSTOM_FIELD_LOOKUP_ENTITIES,
+  CUSTOM_FIELD_TYPES,
+  type CustomFieldDefinition,
+  type CustomFieldEntityType,
+  type CustomFieldType,
+} from "@shared/schema";
+
+const ENTITY_LABELS: Record<CustomFieldEntityType, string> = {
+  account: "Accounts",
+  contact: "Contacts",
+  lead: "Leads",
+  opportunity: "Opportunities",
+  activity: "Activities",
+};
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  currency: "Currency",
+  date: "Date",
+  picklist: "Picklist",
+  multi_select: "Multi-select",
+  boolean: "Yes / No",
+  lookup: "Lookup",
+};
+
+interface FieldForm {
+  label: string;
+  key: string;
+  fieldType: CustomFieldType;
+  options: string;
+  lookupEntity: string;
+  required: boolean;
+  helpText: string;
+  sortOrder: string;
+  min: string;
+  max: string;
+  maxLength: string;
+  pattern: string;
+}
+
+const EMPTY_FORM: FieldForm = {
+  label: "",
+  key: "",
+  fieldType: "text",
+  options: "",
+  lookupEntity: "account",
+  required: false,
+  helpText: "",
+  sortOrder: "0",
+  min: "",
+  max: "",
+  maxLength: "",
+  pattern: "",
+};
+
+function keyFromLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "").slice(0, 64);
+}
+
+function toForm(field: CustomFieldDefinition): FieldForm {
+  const rules = field.validation ?? {};
+  return {
+    label: field.label,
+    key: field.key,
+    fieldType: field.fieldType,
+    options: field.options.join("\n"),
+    lookupEntity: field.lookupEntity ?? "account",
+    required: field.required,
+    helpText: field.helpText ?? "",
+    sortOrder: String(field.sortOrder),
+    min: rules.min?.toString() ?? "",
+    max: rules.max?.toString() ?? "",
+    maxLength: rules.maxLength?.toString() ?? "",
+    pattern: rules.pattern ?? "",
+  };
+}
+
+function toPayload(form: FieldForm) {
+  const numberOrUndefined = (value: string) => (value.trim() === "" ? undefined : Number(value));
+  const isPicklist = form.fieldType === "picklist" || form.fieldType === "multi_select";
+  return {
+    label: form.label.trim(),
+    options: isPicklist ? form.options.split("\n").map(o => o.trim()).filter(Boolean) : [],
+    lookupEntity: form.fieldType === "lookup" ? form.lookupEntity : null,
+    required: form.required,
+    helpText: form.helpText.trim() || null,
+    sortOrder: Number(form.sortOrder) || 0,
+    validation: {
+      min: numberOrUndefined(form.min),
+      max: numberOrUndefined(form.max),
+      maxLength: numberOrUndefined(form.maxLength),
+      pattern: form.pattern.trim() || undefined,
+    },
+  };
+}
+
+export function CustomFieldsTab() {
+  const { toast } = useToast();
+  const [entityType, setEntityType] = useState<CustomFieldEntityType>("account");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null);
+  const [form, setForm] = useState<FieldForm>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<CustomFieldDefinition | null>(null);
+
+  const { data: fields, isLoading } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ["/api/admin/custom-fields", `?entity=${entityType}`],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/custom-fields?entity=${entityType}`);
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FieldForm) => {
+      const payload = toPayload(data);
+      const res = editing
+        ? await apiRequest("PATCH", `/api/admin/custom-fields/${editing.id}`, payload)
+        : await apiRequest("POST", "/api/admin/custom-fields", { ...payload, entityType, key: data.key, fieldType: data.fieldType });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCustomFields();
+      setDialogOpen(false);
+      toast({ title: editing ? "Custom field updated" : "Custom field created" });
+    },
+    onError: onError("Failed to save custom field"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/custom-fields/${id}`, { isActive });
+      return res.json();
+    },
+    onSuccess: () => invalidateCustomFields(),
+    onError: onError("Failed to update custom field"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCustomFields();
+      setDeleteTarget(null);
+      toast({ title: "Custom field deleted" });
+    },
+    onError: onError("Failed to delete custom field"),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...EMPTY_FORM, sortOrder: String(fields?.length ?? 0) });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (field: CustomFieldDefinition) => {
+    setEditing(field);
+    setForm(toForm(field));
+    setDialogOpen(true);
+  };
+
+  const isPicklist = form.fieldType === "picklist" || form.fieldType === "multi_select";
+  const isNumeric = form.fieldType === "number" || form.fieldType === "currency";
+  const canSave = form.label.trim() !== "" && (editing || /^[a-z][a-z0-9_]{0,63}$/.test(form.key))
+    && (!isPicklist || form.options.trim() !== "");
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListPlus className="h-5 w-5" />
+                Custom Fields
+              </CardTitle>
+              <CardDescription>
+                Extra fields shown on detail pages, list filters, CSV import/export and the external API
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={entityType} onValueChange={(v) => setEntityType(v as CustomFieldEntityType)}>
+                <SelectTrigger className="w-[180px]" data-testid="select-custom-field-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_ENTITY_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={openCreate} data-testid="button-create-custom-field">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Field
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Required</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              )}
+              {!isLoading && !fields?.length && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No custom fields for {ENTITY_LABELS[entityType].toLowerCase()} yet
+                  </TableCell>
+                </TableRow>
+              )}
+              {fields?.map((field) => (
+                <TableRow key={field.id} data-testid={`row-custom-field-${field.key}`}>
+                  <TableCell className="font-medium">{field.label}</TableCell>
+                  <TableCell className="font-mono text-xs">{field.key}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {TYPE_LABELS[field.fieldType]}
+                      {field.fieldType === "lookup" && field.lookupEntity ? ` → ${field.lookupEntity}` : ""}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{field.required ? "Yes" : "No"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={field.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: field.id, isActive })}
+                      data-testid={`switch-custom-field-active-${field.key}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openEdit(field)}
+                      data-testid={`button-edit-custom-field-${field.key}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDeleteTarget(field)}
+                      data-testid={`button-delete-custom-field-${field.key}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Field Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Custom Field" : `Add ${ENTITY_LABELS[entityType]} Field`}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "The key and type cannot be changed once a field is created"
+                : "The key is used in CSV columns (cf:<key>), API payloads and list filters"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-label">Label</Label>
+              <Input
+                id="custom-field-label"
+                value={form.label}
+                onChange={(e) => setForm({
+                  ...form,
+                  label: e.target.value,
+                  key: editing || form.key !== keyFromLabel(form.label) ? form.key : keyFromLabel(e.target.value),
+                })}
+                data-testid="input-custom-field-label"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-key">Key</Label>
+                <Input
+                  id="custom-field-key"
+                  className="font-mono"
+                  value={form.key}
+                  disabled={!!editing}
+                  onChange={(e) => setForm({ ...form, key: e.target.value })}
+                  data-testid="input-custom-field-key"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={form.fieldType}
+                  disabled={!!editing}
+                  onValueChange={(v) => setForm({ ...form, fieldType: v as CustomFieldType })}
+                >
+                  <SelectTrigger data-testid="select-custom-field-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {isPicklist && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-options">Options (one per line)</Label>
+                <Textarea
+                  id="custom-field-options"
+                  rows={5}
+                  value={form.options}
+                  onChange={(e) => setForm({ ...form, options: e.target.value })}
+                  data-testid="input-custom-field-options"
+                />
+              </div>
+            )}
+            {form.fieldType === "lookup" && (
+              <div className="space-y-2">
+                <Label>Looks up</Label>
+                <Select
+                  value={form.lookupEntity}
+                  disabled={!!editing}
+                  onValueChange={(v) => setForm({ ...form, lookupEntity: v })}
+                >
+                  <SelectTrigger data-testid="select-custom-field-lookup">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_LOOKUP_ENTITIES.map(entity => (
+                      <SelectItem key={entity} value={entity}>{entity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {isNumeric && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-min">Minimum</Label>
+                  <Input id="custom-field-min" type="number" value={form.min} onChange={(e) => setForm({ ...form, min: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-max">Maximum</Label>
+                  <Input id="custom-field-max" type="number" value={form.max} onChange={(e) => setForm({ ...form, max: e.target.value })} />
+                </div>
+              </div>
+            )}
+            {form.fieldType === "text" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-max-length">Max length</Label>
+                  <Input id="custom-field-max-length" type="number" value={form.maxLength} onChange={(e) => setForm({ ...form, maxLength: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-pattern">Pattern (regex)</Label>
+                  <Input id="custom-field-pattern" className="font-mono" value={form.pattern} onChange={(e) => setForm({ ...form, pattern: e.target.value })} />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-help">Help text</Label>
+              <Input
+                id="custom-field-help"
+                value={form.helpText}
+                onChange={(e) => setForm({ ...form, helpText: e.target.value })}
+                data-testid="input-custom-field-help"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-sort">Sort order</Label>
+                <Input
+                  id="custom-field-sort"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="custom-field-required"
+                  checked={form.required}
+                  onCheckedChange={(checked) => setForm({ ...form, required: checked === true })}
+                  data-testid="checkbox-custom-field-required"
+                />
+                <Label htmlFor="custom-field-required">Required</Label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-submit-custom-field"
+            >
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The field and every stored value for it will be removed. Deactivate the field instead to hide it but keep its data.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              data-testid="button-confirm-delete-custom-field"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
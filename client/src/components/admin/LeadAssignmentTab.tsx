@@ -0,0 +1,480 @@
+// Lead Assignment Tab Component
+// Ordered rules that route new leads without an owner to a user, a
+// round-robin pool or the least loaded member of a pool, plus the routing
+// log and a re-run over leads that are still unassigned.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Plus, Trash2, Edit2, ArrowUp, ArrowDown, Shuffle, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ROUTING_TRIGGER_LABELS } from "@/components/lead-routing-card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import {
+  LEAD_ASSIGNMENT_FIELDS,
+  LEAD_ASSIGNMENT_MATCHES,
+  LEAD_ASSIGNMENT_STRATEGIES,
+  type LeadAssignmentCondition,
+  type LeadAssignmentField,
+  type LeadAssignmentMatch,
+  type LeadAssignmentRule,
+  type LeadAssignmentRuleInput,
+  type LeadAssignmentStrategy,
+  type LeadRoutingLogEntry,
+} from "@shared/schema";
+
+type RoutingLogRow = LeadRoutingLogEntry & { assignedToName: string | null; actorName: string | null };
+
+const FIELD_LABELS: Record<LeadAssignmentField, string> = {
+  source: "Source",
+  company: "Company",
+  title: "Title",
+  tag: "Tag",
+  state: "State / Region",
+  country: "Country",
+};
+
+const MATCH_LABELS: Record<LeadAssignmentMatch, string> = {
+  equals: "is",
+  contains: "contains",
+  one_of: "is one of",
+};
+
+const STRATEGY_LABELS: Record<LeadAssignmentStrategy, string> = {
+  user: "Specific user",
+  round_robin: "Round robin",
+  least_loaded: "Least loaded",
+};
+
+const EMPTY_RULE: LeadAssignmentRuleInput = { name: "", isActive: true, conditions: [], strategy: "user", userIds: [] };
+
+export function LeadAssignmentTab() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<LeadAssignmentRule | null>(null);
+  const [form, setForm] = useState<LeadAssignmentRuleInput>(EMPTY_RULE);
+  const [deleteTarget, setDeleteTarget] = useState<LeadAssignmentRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<LeadAssignmentRule[]>({ queryKey: ["/api/admin/lead-assignment/rules"] });
+  const { data: log } = useQuery<RoutingLogRow[]>({
+    queryKey: ["/api/admin/lead-assignment/log", "?limit=50"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/lead-assignment/log?limit=50");
+      return res.json();
+    },
+  });
+  const { data: users } = useQuery<Array<{ id: string; name: string }>>({ queryKey: ["/api/users"] });
+  const userName = (id: string) => users?.find(user => user.id === id)?.name ?? "Unknown user";
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/lead-assignment/rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/lead-assignment/log"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, rule }: { id: string | null; rule: LeadAssignmentRuleInput }) => {
+      const res = id
+        ? await apiRequest("PUT", `/api/admin/lead-assignment/rules/${id}`, rule)
+        : await apiRequest("POST", "/api/admin/lead-assignment/rules", rule);
+      return res.json();
+    },
+    onSuccess: (_, { id }) => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: id ? "Assignment rule updated" : "Assignment rule created" });
+    },
+    onError: onError("Failed to save assignment rule"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ruleIds: string[]) => {
+      const res = await apiRequest("PUT", "/api/admin/lead-assignment/rules/order", { ruleIds });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to reorder assignment rules"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/lead-assignment/rules/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleteTarget(null);
+      toast({ title: "Assignment rule deleted" });
+    },
+    onError: onError("Failed to delete assignment rule"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/lead-assignment/run");
+      return res.json() as Promise<{ assigned: number; unmatched: number }>;
+    },
+    onSuccess: ({ assigned, unmatched }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({
+        title: `Assigned ${assigned} lead${assigned === 1 ? "" : "s"}`,
+        description: unmatched > 0 ? `${unmatched} unassigned lead${unmatched === 1 ? "" : "s"} matched no rule` : undefined,
+      });
+    },
+    onError: onError("Failed to run assignment rules"),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_RULE);
+    setDialogOpen(true);
+  };
+
+  const ruleInput = (rule: LeadAssignmentRule): LeadAssignmentRuleInput =>
+    ({ name: rule.name, isActive: rule.isActive, conditions: rule.conditions, strategy: rule.strategy, userIds: rule.userIds });
+
+  const openEdit = (rule: LeadAssignmentRule) => {
+    setEditing(rule);
+    setForm(ruleInput(rule));
+    setDialogOpen(true);
+  };
+
+  const move = (index: number, offset: number) => {
+    if (!rules) return;
+    const ids = rules.map(rule => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const patchCondition = (index: number, patch: Partial<LeadAssignmentCondition>) => {
+    setForm({ ...form, conditions: form.conditions.map((condition, i) => (i === index ? { ...condition, ...patch } : condition)) });
+  };
+
+  const toggleUser = (userId: string, checked: boolean) => {
+    if (form.strategy === "user") {
+      setForm({ ...form, userIds: checked ? [userId] : [] });
+      return;
+    }
+    setForm({ ...form, userIds: checked ? [...form.userIds, userId] : form.userIds.filter(id => id !== userId) });
+  };
+
+  const canSave = form.name.trim().length > 0
+    && form.conditions.every(condition => condition.value.trim())
+    && (form.strategy === "user" ? form.userIds.length === 1 : form.userIds.length > 0);
+
+  const describeConditions = (conditions: LeadAssignmentCondition[]) =>
+    conditions.length === 0
+      ? "Every lead"
+      : conditions.map(c => `${FIELD_LABELS[c.field]} ${MATCH_LABELS[c.match]} "${c.value}"`).join(" and ");
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Shuffle className="h-5 w-5" />
+                Lead Assignment
+              </CardTitle>
+              <CardDescription>
+                New leads without an owner, from any source, go to the first active rule whose conditions all match.
+                Tag conditions only apply when rules are re-run, since new leads have no tags yet.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => runMutation.mutate()}
+                disabled={runMutation.isPending || !rules?.some(rule => rule.isActive)}
+                data-testid="button-run-assignment-rules"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Run on Unassigned Leads
+              </Button>
+              <Button onClick={openCreate} data-testid="button-create-assignment-rule">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Order</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Conditions</TableHead>
+                <TableHead>Assigns to</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              )}
+              {!isLoading && !rules?.length && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No assignment rules; new leads keep the owner they were created with
+                  </TableCell>
+                </TableRow>
+              )}
+              {rules?.map((rule, index) => (
+                <TableRow key={rule.id} data-testid={`row-assignment-rule-${rule.id}`}>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <Button size="sm" variant="ghost" onClick={() => move(index, -1)} disabled={index === 0 || reorderMutation.isPending}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => move(index, 1)} disabled={index === rules.length - 1 || reorderMutation.isPending}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="text-sm">{describeConditions(rule.conditions)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{STRATEGY_LABELS[rule.strategy]}</Badge>
+                    <span className="ml-2 text-sm">{rule.userIds.map(userName).join(", ")}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(isActive) => saveMutation.mutate({ id: rule.id, rule: { ...ruleInput(rule), isActive } })}
+                      data-testid={`switch-assignment-rule-active-${rule.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" onClick={() => openEdit(rule)} data-testid={`button-edit-assignment-rule-${rule.id}`}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setDeleteTarget(rule)} data-testid={`button-delete-assignment-rule-${rule.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Routing Log</CardTitle>
+          <CardDescription>The latest routing decisions and why each lead went where it did</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Lead</TableHead>
+                <TableHead>Via</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!log?.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No leads routed yet</TableCell>
+                </TableRow>
+              )}
+              {log?.map(entry => (
+                <TableRow key={entry.id} data-testid={`row-routing-log-${entry.id}`}>
+                  <TableCell className="whitespace-nowrap text-sm">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Link href={`/leads/${entry.leadId}`} className="text-primary hover:underline">{entry.leadId}</Link>
+                  </TableCell>
+                  <TableCell className="text-sm">{ROUTING_TRIGGER_LABELS[entry.trigger] ?? entry.trigger}</TableCell>
+                  <TableCell>{entry.assignedToName ?? <span className="text-muted-foreground">Unassigned</span>}</TableCell>
+                  <TableCell className="text-sm">{entry.reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Rule Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Assignment Rule" : "Add Assignment Rule"}</DialogTitle>
+            <DialogDescription>
+              All conditions must match. A rule without conditions matches every lead, so keep it last.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto] items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignment-rule-name">Name</Label>
+                <Input
+                  id="assignment-rule-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. West coast referrals"
+                  data-testid="input-assignment-rule-name"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="assignment-rule-active"
+                  checked={form.isActive}
+                  onCheckedChange={(isActive) => setForm({ ...form, isActive })}
+                />
+                <Label htmlFor="assignment-rule-active">Active</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Conditions</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, conditions: [...form.conditions, { field: "source", match: "equals", value: "" }] })}
+                  disabled={form.conditions.length >= 20}
+                  data-testid="button-add-assignment-condition"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Condition
+                </Button>
+              </div>
+              {form.conditions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No conditions; this rule matches every lead</p>
+              )}
+              {form.conditions.map((condition, index) => (
+                <div key={index} className="grid grid-cols-[9rem_8rem_1fr_auto] gap-2" data-testid={`row-assignment-condition-${index}`}>
+                  <Select value={condition.field} onValueChange={(field) => patchCondition(index, { field: field as LeadAssignmentField })}>
+                    <SelectTrigger data-testid={`select-assignment-field-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LEAD_ASSIGNMENT_FIELDS.map(field => (
+                        <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={condition.match} onValueChange={(match) => patchCondition(index, { match: match as LeadAssignmentMatch })}>
+                    <SelectTrigger data-testid={`select-assignment-match-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LEAD_ASSIGNMENT_MATCHES.map(match => (
+                        <SelectItem key={match} value={match}>{MATCH_LABELS[match]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={condition.value}
+                    onChange={(e) => patchCondition(index, { value: e.target.value })}
+                    placeholder={condition.match === "one_of" ? "Comma-separated, e.g. CA, OR, WA" : undefined}
+                    data-testid={`input-assignment-value-${index}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, conditions: form.conditions.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assign to</Label>
+              <Select
+                value={form.strategy}
+                onValueChange={(strategy) => setForm({
+                  ...form,
+                  strategy: strategy as LeadAssignmentStrategy,
+                  userIds: strategy === "user" ? form.userIds.slice(0, 1) : form.userIds,
+                })}
+              >
+                <SelectTrigger data-testid="select-assignment-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAD_ASSIGNMENT_STRATEGIES.map(strategy => (
+                    <SelectItem key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {form.strategy === "user" && "Every matching lead goes to one user."}
+                {form.strategy === "round_robin" && "Matching leads go to each selected user in turn."}
+                {form.strategy === "least_loaded" && "Matching leads go to the selected user with the fewest open leads."}
+                {" "}Inactive users are skipped.
+              </p>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-md border p-3">
+                {users?.map(user => (
+                  <div key={user.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`assignment-user-${user.id}`}
+                      checked={form.userIds.includes(user.id)}
+                      onCheckedChange={(checked) => toggleUser(user.id, checked === true)}
+                      data-testid={`checkbox-assignment-user-${user.id}`}
+                    />
+                    <Label htmlFor={`assignment-user-${user.id}`} className="font-normal">{user.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate({ id: editing?.id ?? null, rule: form })}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-submit-assignment-rule"
+            >
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rule "{deleteTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Leads it already routed keep their owners, and the routing log keeps its entries.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              data-testid="button-confirm-delete-assignment-rule"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+// Lead Scoring Tab Component
+// Edits the organization's lead scoring model: fit rules on title, company,
+// source and tags plus engagement weights. Saving rescores every lead.
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Gauge, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import {
+  LEAD_FIT_FIELDS,
+  LEAD_FIT_MATCHES,
+  type LeadEngagementWeights,
+  type LeadFitField,
+  type LeadFitMatch,
+  type LeadFitRule,
+  type LeadScoringModelInput,
+} from "@shared/schema";
+
+interface LeadScoringModelView {
+  model: LeadScoringModelInput;
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+const FIELD_LABELS: Record<LeadFitField, string> = {
+  title: "Title",
+  company: "Company",
+  source: "Source",
+  tag: "Tag",
+};
+
+const MATCH_LABELS: Record<LeadFitMatch, string> = {
+  contains: "contains",
+  equals: "is",
+  present: "is set",
+};
+
+const ENGAGEMENT_FIELDS: Array<{ key: keyof LeadEngagementWeights; label: string }> = [
+  { key: "pointsPerActivity", label: "Points per completed activity" },
+  { key: "maxActivityPoints", label: "Max activity points" },
+  { key: "pointsPerComment", label: "Points per comment" },
+  { key: "maxCommentPoints", label: "Max comment points" },
+  { key: "recencyPoints", label: "Points for engagement today" },
+  { key: "recencyDays", label: "Recency points run out after (days)" },
+];
+
+export function LeadScoringTab() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<LeadScoringModelInput | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  const { data, isLoading } = useQuery<LeadScoringModelView>({ queryKey: ["/api/admin/lead-scoring"] });
+
+  useEffect(() => {
+    if (data && !dirty) setDraft(data.model);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data]);
+
+  const update = (model: LeadScoringModelInput) => {
+    setDraft(model);
+    setDirty(true);
+  };
+
+  const patchRule = (index: number, patch: Partial<LeadFitRule>) => {
+    if (!draft) return;
+    update({ ...draft, fitRules: draft.fitRules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (model: LeadScoringModelInput) => {
+      const res = await apiRequest("PUT", "/api/admin/lead-scoring", model);
+      return res.json();
+    },
+    onSuccess: () => {
+      setDirty(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lead-scoring"] });
+      toast({ title: "Lead scoring model saved", description: "Leads are being rescored in the background" });
+    },
+    onError: onError("Failed to save lead scoring model"),
+  });
+
+  const rescoreMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/lead-scoring/rescore");
+      return res.json() as Promise<{ rescored: number }>;
+    },
+    onSuccess: ({ rescored }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: `Rescored ${rescored} lead${rescored === 1 ? "" : "s"}` });
+    },
+    onError: onError("Failed to rescore leads"),
+  });
+
+  const canSave = dirty && !!draft && draft.fitRules.every(rule => rule.match === "present" || rule.value.trim());
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Lead Scoring
+              </CardTitle>
+              <CardDescription>
+                Scores from 0 to 100 combine how well a lead fits with how engaged it is. Scores update when a lead,
+                its activities, comments or tags change, and every night.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {data?.isDefault && !dirty && <Badge variant="secondary">Default model</Badge>}
+              <Button
+                variant="outline"
+                onClick={() => rescoreMutation.mutate()}
+                disabled={rescoreMutation.isPending}
+                data-testid="button-rescore-leads"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${rescoreMutation.isPending ? "animate-spin" : ""}`} />
+                Rescore Now
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Fit rules</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => draft && update({
+                  ...draft,
+                  fitRules: [...draft.fitRules, { field: "title", match: "contains", value: "", points: 10 }],
+                })}
+                disabled={!draft || draft.fitRules.length >= 50}
+                data-testid="button-add-fit-rule"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead className="w-28">Points</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                )}
+                {draft && draft.fitRules.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No fit rules; leads are scored on engagement only
+                    </TableCell>
+                  </TableRow>
+                )}
+                {draft?.fitRules.map((rule, index) => (
+                  <TableRow key={index} data-testid={`row-fit-rule-${index}`}>
+                    <TableCell>
+                      <Select value={rule.field} onValueChange={(field) => patchRule(index, { field: field as LeadFitField })}>
+                        <SelectTrigger data-testid={`select-fit-field-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LEAD_FIT_FIELDS.map(field => (
+                            <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select value={rule.match} onValueChange={(match) => patchRule(index, { match: match as LeadFitMatch })}>
+                        <SelectTrigger data-testid={`select-fit-match-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LEAD_FIT_MATCHES.map(match => (
+                            <SelectItem key={match} value={match}>{MATCH_LABELS[match]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={rule.value}
+                        onChange={(e) => patchRule(index, { value: e.target.value })}
+                        disabled={rule.match === "present"}
+                        placeholder={rule.field === "source" ? "e.g. referral" : undefined}
+                        data-testid={`input-fit-value-${index}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="-50"
+                        max="50"
+                        value={rule.points}
+                        onChange={(e) => patchRule(index, { points: Math.min(50, Math.max(-50, parseInt(e.target.value) || 0)) })}
+                        data-testid={`input-fit-points-${index}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => update({ ...draft, fitRules: draft.fitRules.filter((_, i) => i !== index) })}
+                        data-testid={`button-remove-fit-rule-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {draft && (
+            <div className="space-y-2">
+              <Label>Engagement</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {ENGAGEMENT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`engagement-${key}`} className="text-sm font-normal text-muted-foreground">{label}</Label>
+                    <Input
+                      id={`engagement-${key}`}
+                      type="number"
+                      min={key === "recencyDays" ? "1" : "0"}
+                      value={draft.engagement[key]}
+                      onChange={(e) => update({
+                        ...draft,
+                        engagement: { ...draft.engagement, [key]: Math.max(0, parseInt(e.target.value) || 0) },
+                      })}
+                      data-testid={`input-engagement-${key}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              if (data) setDraft(data.model);
+              setDirty(false);
+            }}
+            disabled={!dirty}
+          >
+            Discard changes
+          </Button>
+          <Button
+            onClick={() => draft && saveMutation.mutate(draft)}
+            disabled={!canSave || saveMutation.isPending}
+            data-testid="button-save-lead-scoring"
+          >
+            Save
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
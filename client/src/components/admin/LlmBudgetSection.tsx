@@ -0,0 +1,154 @@
+// LLM Budget Section Component
+// Sets the organization's monthly AI token and cost limits and shows this
+// month's usage against them. Admins are notified at the warning threshold;
+// at the limit, lead generation runs and contact research stop.
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Gauge, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import type { LlmBudget, LlmBudgetInput } from "@shared/schema";
+
+type LlmBudgetState = "unlimited" | "ok" | "warning" | "exceeded";
+
+interface LlmBudgetStatusView {
+  budget: LlmBudget | null;
+  month: { start: string; end: string; label: string };
+  usage: { tokens: number; costUsd: number };
+  state: LlmBudgetState;
+  percentUsed: number | null;
+}
+
+const STATE_BADGES: Record<LlmBudgetState, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  unlimited: { label: "No limit", variant: "outline" },
+  ok: { label: "Within budget", variant: "secondary" },
+  warning: { label: "Nearing limit", variant: "default" },
+  exceeded: { label: "Budget used up", variant: "destructive" },
+};
+
+export function LlmBudgetSection() {
+  const { toast } = useToast();
+  const [tokenLimit, setTokenLimit] = useState("");
+  const [costLimit, setCostLimit] = useState("");
+  const [warnAtPercent, setWarnAtPercent] = useState("80");
+
+  const { data, isLoading } = useQuery<LlmBudgetStatusView>({ queryKey: ["/api/admin/llm-budget"] });
+
+  useEffect(() => {
+    if (!data) return;
+    setTokenLimit(data.budget?.monthlyTokenLimit ? String(data.budget.monthlyTokenLimit) : "");
+    setCostLimit(data.budget?.monthlyCostLimitUsd ?? "");
+    setWarnAtPercent(String(data.budget?.warnAtPercent ?? 80));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: LlmBudgetInput) => {
+      const res = await apiRequest("PUT", "/api/admin/llm-budget", input);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/llm-budget"] });
+      toast({ title: "AI budget saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save AI budget", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      monthlyTokenLimit: tokenLimit.trim() ? parseInt(tokenLimit, 10) : null,
+      monthlyCostLimitUsd: costLimit.trim() ? parseFloat(costLimit) : null,
+      warnAtPercent: parseInt(warnAtPercent, 10) || 80,
+    });
+  };
+
+  const badge = data ? STATE_BADGES[data.state] : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Monthly AI Budget
+            </CardTitle>
+            <CardDescription>
+              Caps this organization's AI usage per calendar month (UTC). Leave a limit empty to leave it off.
+            </CardDescription>
+          </div>
+          {badge && <Badge variant={badge.variant} data-testid="badge-llm-budget-state">{badge.label}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading AI budget...</p>}
+        {data && (
+          <div className="space-y-2" data-testid="text-llm-budget-usage">
+            <p className="text-sm">
+              {data.month.label}: <span className="font-medium">{data.usage.tokens.toLocaleString()}</span> tokens,
+              {" "}<span className="font-medium">${data.usage.costUsd.toFixed(2)}</span> estimated cost
+              {data.percentUsed !== null && <> — {Math.floor(data.percentUsed)}% of the budget</>}
+            </p>
+            {data.percentUsed !== null && <Progress value={Math.min(data.percentUsed, 100)} />}
+            {data.state === "exceeded" && (
+              <p className="text-xs text-destructive">
+                Lead generation runs and contact research are paused until next month or until the budget is raised.
+              </p>
+            )}
+          </div>
+        )}
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="llm-budget-tokens">Monthly token limit</Label>
+            <Input
+              id="llm-budget-tokens"
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={tokenLimit}
+              onChange={(e) => setTokenLimit(e.target.value)}
+              data-testid="input-llm-budget-tokens"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-budget-cost">Monthly cost limit (USD)</Label>
+            <Input
+              id="llm-budget-cost"
+              type="number"
+              min={0.01}
+              step={0.01}
+              placeholder="No limit"
+              value={costLimit}
+              onChange={(e) => setCostLimit(e.target.value)}
+              data-testid="input-llm-budget-cost"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-budget-warn">Warn admins at (%)</Label>
+            <Input
+              id="llm-budget-warn"
+              type="number"
+              min={1}
+              max={99}
+              value={warnAtPercent}
+              onChange={(e) => setWarnAtPercent(e.target.value)}
+              data-testid="input-llm-budget-warn"
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-llm-budget">
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Budget"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
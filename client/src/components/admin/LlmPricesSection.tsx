@@ -0,0 +1,185 @@
+// LLM Prices Section Component
+// The per-model price table every AI call is costed with, in USD per million
+// tokens. Built-in list prices can be overridden, and prices added for models
+// or Azure deployment names the list doesn't know; a model matches the
+// longest listed prefix of its name. Prices apply to calls made after saving.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Edit2, Save, Tags, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import type { LlmModelPriceInput } from "@shared/schema";
+
+interface LlmModelPriceView {
+  model: string;
+  inputPerMillionUsd: number;
+  outputPerMillionUsd: number;
+  id: string | null;
+  isDefault: boolean;
+}
+
+export function LlmPricesSection() {
+  const { toast } = useToast();
+  const [model, setModel] = useState("");
+  const [inputPrice, setInputPrice] = useState("");
+  const [outputPrice, setOutputPrice] = useState("");
+
+  const { data: prices = [], isLoading } = useQuery<LlmModelPriceView[]>({ queryKey: ["/api/admin/llm-prices"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: LlmModelPriceInput) => {
+      const res = await apiRequest("PUT", "/api/admin/llm-prices", input);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/llm-prices"] });
+      setModel("");
+      setInputPrice("");
+      setOutputPrice("");
+      toast({ title: "Model price saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save model price", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/llm-prices/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/llm-prices"] });
+      toast({ title: "Custom price removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove model price", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (price: LlmModelPriceView) => {
+    setModel(price.model);
+    setInputPrice(String(price.inputPerMillionUsd));
+    setOutputPrice(String(price.outputPerMillionUsd));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      model: model.trim().toLowerCase(),
+      inputPerMillionUsd: parseFloat(inputPrice),
+      outputPerMillionUsd: parseFloat(outputPrice),
+    });
+  };
+
+  const canSave = model.trim() !== "" && inputPrice.trim() !== "" && outputPrice.trim() !== "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Model Prices
+        </CardTitle>
+        <CardDescription>
+          USD per million tokens, used to estimate the cost of every AI call in all organizations. A model matches
+          the longest listed prefix of its name; unlisted models are recorded at no cost. Reasoning tokens are billed as output.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4 md:items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="llm-price-model">Model or deployment prefix</Label>
+            <Input
+              id="llm-price-model"
+              placeholder="e.g. gpt-4o or my-azure-deployment"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              data-testid="input-llm-price-model"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-price-input">Input ($/M tokens)</Label>
+            <Input
+              id="llm-price-input"
+              type="number"
+              min={0}
+              step={0.01}
+              value={inputPrice}
+              onChange={(e) => setInputPrice(e.target.value)}
+              data-testid="input-llm-price-input"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-price-output">Output ($/M tokens)</Label>
+            <Input
+              id="llm-price-output"
+              type="number"
+              min={0}
+              step={0.01}
+              value={outputPrice}
+              onChange={(e) => setOutputPrice(e.target.value)}
+              data-testid="input-llm-price-output"
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={!canSave || saveMutation.isPending} data-testid="button-save-llm-price">
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Price"}
+        </Button>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading model prices...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Input</TableHead>
+                <TableHead className="text-right">Output</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prices.map(price => (
+                <TableRow key={price.model} data-testid={`row-llm-price-${price.model}`}>
+                  <TableCell className="font-mono text-sm">{price.model}</TableCell>
+                  <TableCell className="text-right tabular-nums">${price.inputPerMillionUsd}</TableCell>
+                  <TableCell className="text-right tabular-nums">${price.outputPerMillionUsd}</TableCell>
+                  <TableCell>
+                    <Badge variant={price.isDefault ? "outline" : "secondary"}>{price.isDefault ? "Built-in" : "Custom"}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(price)} data-testid={`button-edit-llm-price-${price.model}`}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      {price.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(price.id!)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-llm-price-${price.model}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
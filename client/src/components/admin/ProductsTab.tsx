@@ -0,0 +1,570 @@
+// Products Tab Component
+// Maintains the product catalog and price books used to price opportunity
+// line items. Recurring products are priced per month.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Edit2, Package, BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PRODUCT_BILLING_TYPES, type PriceBook, type PriceBookEntry, type Product, type ProductBillingType } from "@shared/schema";
+
+type PriceBookRow = PriceBook & { entryCount: number };
+type EntryRow = PriceBookEntry & { productName: string; productSku: string | null; billingType: ProductBillingType };
+
+const BILLING_TYPE_LABELS: Record<ProductBillingType, string> = {
+  one_time: "One-time",
+  recurring: "Recurring (monthly)",
+};
+
+interface ProductForm {
+  name: string;
+  sku: string;
+  family: string;
+  description: string;
+  billingType: ProductBillingType;
+  defaultTermMonths: string;
+  isActive: boolean;
+}
+
+interface PriceBookForm {
+  name: string;
+  description: string;
+  currency: string;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_PRODUCT: ProductForm = { name: "", sku: "", family: "", description: "", billingType: "one_time", defaultTermMonths: "", isActive: true };
+const EMPTY_PRICE_BOOK: PriceBookForm = { name: "", description: "", currency: "USD", isDefault: false, isActive: true };
+
+const formatPrice = (amount: string | number) => `$${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function ProductsTab() {
+  const { toast } = useToast();
+  const [productDialogOpen, setProductDialogOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [productForm, setProductForm] = useState<ProductForm>(EMPTY_PRODUCT);
+  const [deleteProductTarget, setDeleteProductTarget] = useState<Product | null>(null);
+
+  const [bookDialogOpen, setBookDialogOpen] = useState(false);
+  const [editingBook, setEditingBook] = useState<PriceBookRow | null>(null);
+  const [bookForm, setBookForm] = useState<PriceBookForm>(EMPTY_PRICE_BOOK);
+  const [deleteBookTarget, setDeleteBookTarget] = useState<PriceBookRow | null>(null);
+  const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
+  const [entryForm, setEntryForm] = useState({ productId: "", unitPrice: "" });
+
+  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({ queryKey: ["/api/admin/products"] });
+  const { data: priceBooks } = useQuery<PriceBookRow[]>({ queryKey: ["/api/admin/price-books"] });
+  const selectedBook = priceBooks?.find(book => book.id === selectedBookId) ?? null;
+  const { data: entries } = useQuery<EntryRow[]>({
+    queryKey: ["/api/admin/price-books", selectedBookId, "entries"],
+    enabled: !!selectedBookId,
+  });
+
+  const invalidateCatalog = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/price-books"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/price-books"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveProductMutation = useMutation({
+    mutationFn: async (data: ProductForm) => {
+      const body = {
+        name: data.name,
+        sku: data.sku,
+        family: data.family,
+        description: data.description || null,
+        billingType: data.billingType,
+        defaultTermMonths: data.billingType === "recurring" && data.defaultTermMonths ? Number(data.defaultTermMonths) : null,
+        isActive: data.isActive,
+      };
+      const res = editingProduct
+        ? await apiRequest("PATCH", `/api/admin/products/${editingProduct.id}`, body)
+        : await apiRequest("POST", "/api/admin/products", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCatalog();
+      setProductDialogOpen(false);
+      toast({ title: editingProduct ? "Product updated" : "Product created" });
+    },
+    onError: onError("Failed to save product"),
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/products/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCatalog();
+      setDeleteProductTarget(null);
+      toast({ title: "Product deleted" });
+    },
+    onError: onError("Failed to delete product"),
+  });
+
+  const saveBookMutation = useMutation({
+    mutationFn: async (data: PriceBookForm) => {
+      const body = { ...data, description: data.description || null, currency: data.currency.toUpperCase() };
+      const res = editingBook
+        ? await apiRequest("PATCH", `/api/admin/price-books/${editingBook.id}`, body)
+        : await apiRequest("POST", "/api/admin/price-books", body);
+      return res.json();
+    },
+    onSuccess: (book: PriceBook) => {
+      invalidateCatalog();
+      setBookDialogOpen(false);
+      setSelectedBookId(book.id);
+      toast({ title: editingBook ? "Price book updated" : "Price book created" });
+    },
+    onError: onError("Failed to save price book"),
+  });
+
+  const deleteBookMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/price-books/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCatalog();
+      if (deleteBookTarget?.id === selectedBookId) setSelectedBookId(null);
+      setDeleteBookTarget(null);
+      toast({ title: "Price book deleted" });
+    },
+    onError: onError("Failed to delete price book"),
+  });
+
+  const saveEntryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/price-books/${selectedBookId}/entries`, {
+        productId: entryForm.productId,
+        unitPrice: Number(entryForm.unitPrice),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateCatalog();
+      setEntryForm({ productId: "", unitPrice: "" });
+      toast({ title: "Price saved" });
+    },
+    onError: onError("Failed to save price"),
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      await apiRequest("DELETE", `/api/admin/price-books/${selectedBookId}/entries/${entryId}`);
+    },
+    onSuccess: () => invalidateCatalog(),
+    onError: onError("Failed to remove price"),
+  });
+
+  const openCreateProduct = () => {
+    setEditingProduct(null);
+    setProductForm(EMPTY_PRODUCT);
+    setProductDialogOpen(true);
+  };
+
+  const openEditProduct = (product: Product) => {
+    setEditingProduct(product);
+    setProductForm({
+      name: product.name,
+      sku: product.sku ?? "",
+      family: product.family ?? "",
+      description: product.description ?? "",
+      billingType: product.billingType,
+      defaultTermMonths: product.defaultTermMonths ? String(product.defaultTermMonths) : "",
+      isActive: product.isActive,
+    });
+    setProductDialogOpen(true);
+  };
+
+  const openCreateBook = () => {
+    setEditingBook(null);
+    setBookForm(EMPTY_PRICE_BOOK);
+    setBookDialogOpen(true);
+  };
+
+  const openEditBook = (book: PriceBookRow) => {
+    setEditingBook(book);
+    setBookForm({ name: book.name, description: book.description ?? "", currency: book.currency, isDefault: book.isDefault, isActive: book.isActive });
+    setBookDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Products
+              </CardTitle>
+              <CardDescription>
+                Products and services that can be added to opportunities as line items
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateProduct} data-testid="button-create-product">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Product
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Family</TableHead>
+                <TableHead>Billing</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {productsLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              )}
+              {!productsLoading && !products?.length && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No products yet</TableCell>
+                </TableRow>
+              )}
+              {products?.map((product) => (
+                <TableRow key={product.id} data-testid={`row-product-${product.id}`}>
+                  <TableCell className="font-medium">{product.name}</TableCell>
+                  <TableCell className="font-mono text-sm">{product.sku ?? "—"}</TableCell>
+                  <TableCell>{product.family ?? "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{BILLING_TYPE_LABELS[product.billingType]}</Badge>
+                    {product.billingType === "recurring" && product.defaultTermMonths && (
+                      <span className="ml-2 text-xs text-muted-foreground">{product.defaultTermMonths} mo</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={product.isActive ? "default" : "secondary"}>{product.isActive ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" onClick={() => openEditProduct(product)} data-testid={`button-edit-product-${product.id}`}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setDeleteProductTarget(product)} data-testid={`button-delete-product-${product.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5" />
+                Price Books
+              </CardTitle>
+              <CardDescription>
+                Unit prices per product. Opportunities without a price book use the default book
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateBook} data-testid="button-create-price-book">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Price Book
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead>Prices</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!priceBooks?.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No price books yet</TableCell>
+                </TableRow>
+              )}
+              {priceBooks?.map((book) => (
+                <TableRow
+                  key={book.id}
+                  className={book.id === selectedBookId ? "bg-muted/50 cursor-pointer" : "cursor-pointer"}
+                  onClick={() => setSelectedBookId(book.id)}
+                  data-testid={`row-price-book-${book.id}`}
+                >
+                  <TableCell className="font-medium">
+                    {book.name}
+                    {book.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                  </TableCell>
+                  <TableCell>{book.currency}</TableCell>
+                  <TableCell>{book.entryCount}</TableCell>
+                  <TableCell>
+                    <Badge variant={book.isActive ? "default" : "secondary"}>{book.isActive ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                    <Button size="sm" variant="ghost" onClick={() => openEditBook(book)} data-testid={`button-edit-price-book-${book.id}`}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setDeleteBookTarget(book)} data-testid={`button-delete-price-book-${book.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {selectedBook && (
+            <div className="space-y-3 border-t pt-4" data-testid="section-price-book-entries">
+              <h4 className="font-medium">{selectedBook.name} prices</h4>
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label>Product</Label>
+                  <Select value={entryForm.productId} onValueChange={(productId) => setEntryForm({ ...entryForm, productId })}>
+                    <SelectTrigger data-testid="select-entry-product">
+                      <SelectValue placeholder="Select a product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products?.map(product => (
+                        <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="w-40 space-y-2">
+                  <Label htmlFor="entry-unit-price">Unit price ({selectedBook.currency})</Label>
+                  <Input
+                    id="entry-unit-price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={entryForm.unitPrice}
+                    onChange={(e) => setEntryForm({ ...entryForm, unitPrice: e.target.value })}
+                    data-testid="input-entry-unit-price"
+                  />
+                </div>
+                <Button
+                  onClick={() => saveEntryMutation.mutate()}
+                  disabled={!entryForm.productId || entryForm.unitPrice === "" || saveEntryMutation.isPending}
+                  data-testid="button-save-entry"
+                >
+                  Set Price
+                </Button>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Billing</TableHead>
+                    <TableHead className="text-right">Unit price</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!entries?.length && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">No prices in this book yet</TableCell>
+                    </TableRow>
+                  )}
+                  {entries?.map(entry => (
+                    <TableRow key={entry.id} data-testid={`row-price-entry-${entry.id}`}>
+                      <TableCell className="font-medium">
+                        {entry.productName}
+                        {entry.productSku && <span className="ml-2 font-mono text-xs text-muted-foreground">{entry.productSku}</span>}
+                      </TableCell>
+                      <TableCell>{BILLING_TYPE_LABELS[entry.billingType]}</TableCell>
+                      <TableCell className="text-right">{formatPrice(entry.unitPrice)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => deleteEntryMutation.mutate(entry.id)} data-testid={`button-delete-price-entry-${entry.id}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Product Dialog */}
+      <Dialog open={productDialogOpen} onOpenChange={setProductDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? "Edit Product" : "Add Product"}</DialogTitle>
+            <DialogDescription>Existing line items keep the name and price they were added with</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="product-name">Name</Label>
+                <Input id="product-name" value={productForm.name} onChange={(e) => setProductForm({ ...productForm, name: e.target.value })} data-testid="input-product-name" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-sku">SKU</Label>
+                <Input id="product-sku" value={productForm.sku} onChange={(e) => setProductForm({ ...productForm, sku: e.target.value })} data-testid="input-product-sku" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-family">Family</Label>
+              <Input id="product-family" value={productForm.family} onChange={(e) => setProductForm({ ...productForm, family: e.target.value })} placeholder="e.g., Subscription, Services" data-testid="input-product-family" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-description">Description</Label>
+              <Textarea id="product-description" value={productForm.description} onChange={(e) => setProductForm({ ...productForm, description: e.target.value })} data-testid="input-product-description" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Billing</Label>
+                <Select value={productForm.billingType} onValueChange={(v) => setProductForm({ ...productForm, billingType: v as ProductBillingType })}>
+                  <SelectTrigger data-testid="select-product-billing-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRODUCT_BILLING_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{BILLING_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-term">Default term (months)</Label>
+                <Input
+                  id="product-term"
+                  type="number"
+                  min="1"
+                  value={productForm.defaultTermMonths}
+                  onChange={(e) => setProductForm({ ...productForm, defaultTermMonths: e.target.value })}
+                  disabled={productForm.billingType !== "recurring"}
+                  placeholder="12"
+                  data-testid="input-product-term"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="product-active" checked={productForm.isActive} onCheckedChange={(isActive) => setProductForm({ ...productForm, isActive })} />
+              <Label htmlFor="product-active">Active (available for new line items)</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProductDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveProductMutation.mutate(productForm)}
+              disabled={!productForm.name.trim() || saveProductMutation.isPending}
+              data-testid="button-submit-product"
+            >
+              {editingProduct ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / Edit Price Book Dialog */}
+      <Dialog open={bookDialogOpen} onOpenChange={setBookDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingBook ? "Edit Price Book" : "Add Price Book"}</DialogTitle>
+            <DialogDescription>Making a book the default replaces the current default</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="price-book-name">Name</Label>
+                <Input id="price-book-name" value={bookForm.name} onChange={(e) => setBookForm({ ...bookForm, name: e.target.value })} data-testid="input-price-book-name" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-book-currency">Currency</Label>
+                <Input id="price-book-currency" maxLength={3} value={bookForm.currency} onChange={(e) => setBookForm({ ...bookForm, currency: e.target.value })} data-testid="input-price-book-currency" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-book-description">Description</Label>
+              <Textarea id="price-book-description" value={bookForm.description} onChange={(e) => setBookForm({ ...bookForm, description: e.target.value })} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="price-book-default" checked={bookForm.isDefault} onCheckedChange={(isDefault) => setBookForm({ ...bookForm, isDefault })} />
+              <Label htmlFor="price-book-default">Default price book</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="price-book-active" checked={bookForm.isActive} onCheckedChange={(isActive) => setBookForm({ ...bookForm, isActive })} />
+              <Label htmlFor="price-book-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBookDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveBookMutation.mutate(bookForm)}
+              disabled={!bookForm.name.trim() || bookForm.currency.length !== 3 || saveBookMutation.isPending}
+              data-testid="button-submit-price-book"
+            >
+              {editingBook ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteProductTarget} onOpenChange={(open) => !open && setDeleteProductTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteProductTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its prices are removed from every price book. Existing opportunity line items keep their name and price. Mark the product inactive instead to hide it from new line items.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteProductTarget && deleteProductMutation.mutate(deleteProductTarget.id)} data-testid="button-confirm-delete-product">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!deleteBookTarget} onOpenChange={(open) => !open && setDeleteBookTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteBookTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Opportunities using this price book fall back to the default book for new line items.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteBookTarget && deleteBookMutation.mutate(deleteBookTarget.id)} data-testid="button-confirm-delete-price-book">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
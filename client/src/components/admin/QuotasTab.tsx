@@ -0,0 +1,346 @@
+// Sales Quotas Tab Component
+// Sets monthly, quarterly or yearly revenue targets per rep or for the whole
+// team. Owner and period are fixed once a quota is created.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Edit2, Goal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { QUOTA_PERIOD_TYPES, type QuotaPeriodType, type SalesQuota } from "@shared/schema";
+
+type QuotaRow = SalesQuota & { userName: string | null; periodLabel: string };
+
+const PERIOD_TYPE_LABELS: Record<QuotaPeriodType, string> = {
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Yearly",
+};
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+const TEAM = "__team__";
+const NO_CATEGORY = "__none__";
+
+function periodOptions(periodType: QuotaPeriodType): Array<{ value: number; label: string }> {
+  if (periodType === "month") return MONTHS.map((label, i) => ({ value: i + 1, label }));
+  if (periodType === "quarter") return [1, 2, 3, 4].map(q => ({ value: q, label: `Q${q}` }));
+  return [{ value: 1, label: "Full year" }];
+}
+
+interface QuotaForm {
+  userId: string;
+  periodType: QuotaPeriodType;
+  period: number;
+  amount: string;
+  category: string;
+}
+
+const currentYear = new Date().getFullYear();
+
+export function QuotasTab() {
+  const { toast } = useToast();
+  const [year, setYear] = useState(currentYear);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<QuotaRow | null>(null);
+  const [form, setForm] = useState<QuotaForm>({ userId: TEAM, periodType: "quarter", period: 1, amount: "", category: NO_CATEGORY });
+  const [deleteTarget, setDeleteTarget] = useState<QuotaRow | null>(null);
+
+  const { data: quotas, isLoading } = useQuery<QuotaRow[]>({
+    queryKey: ["/api/admin/quotas", `?year=${year}`],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/quotas?year=${year}`);
+      return res.json();
+    },
+  });
+  const { data: users } = useQuery<Array<{ id: string; name: string }>>({ queryKey: ["/api/users"] });
+  const { data: categories = [] } = useQuery<Array<{ id: string; name: string }>>({ queryKey: ["/api/categories"] });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/quotas"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/quota-attainment"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: QuotaForm) => {
+      const category = data.category === NO_CATEGORY ? null : data.category;
+      const res = editing
+        ? await apiRequest("PATCH", `/api/admin/quotas/${editing.id}`, { amount: Number(data.amount), category })
+        : await apiRequest("POST", "/api/admin/quotas", {
+          userId: data.userId === TEAM ? null : data.userId,
+          periodType: data.periodType,
+          year,
+          period: data.period,
+          amount: Number(data.amount),
+          category,
+        });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: editing ? "Quota updated" : "Quota created" });
+    },
+    onError: onError("Failed to save quota"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/quotas/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleteTarget(null);
+      toast({ title: "Quota deleted" });
+    },
+    onError: onError("Failed to delete quota"),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ userId: TEAM, periodType: "quarter", period: 1, amount: "", category: NO_CATEGORY });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (quota: QuotaRow) => {
+    setEditing(quota);
+    setForm({
+      userId: quota.userId ?? TEAM,
+      periodType: quota.periodType,
+      period: quota.period,
+      amount: String(Number(quota.amount)),
+      category: quota.category ?? NO_CATEGORY,
+    });
+    setDialogOpen(true);
+  };
+
+  const canSave = Number(form.amount) > 0;
+  const formatAmount = (amount: string) => `$${Number(amount).toLocaleString()}`;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Goal className="h-5 w-5" />
+                Sales Quotas
+              </CardTitle>
+              <CardDescription>
+                Revenue targets per rep or for the whole team, tracked on the dashboard and the Rep Performance analytics tab
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                value={year}
+                onChange={(e) => setYear(parseInt(e.target.value) || currentYear)}
+                className="w-24"
+                data-testid="input-quota-year"
+              />
+              <Button onClick={openCreate} data-testid="button-create-quota">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Quota
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Owner</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Quota</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              )}
+              {!isLoading && !quotas?.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No quotas set for {year} yet
+                  </TableCell>
+                </TableRow>
+              )}
+              {quotas?.map((quota) => (
+                <TableRow key={quota.id} data-testid={`row-quota-${quota.id}`}>
+                  <TableCell className="font-medium">
+                    {quota.userId ? quota.userName ?? "Unknown user" : <Badge variant="secondary">Team</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{PERIOD_TYPE_LABELS[quota.periodType]}</Badge>
+                    <span className="ml-2">{quota.periodLabel}</span>
+                  </TableCell>
+                  <TableCell>{quota.category ?? <span className="text-muted-foreground">All opportunities</span>}</TableCell>
+                  <TableCell className="text-right font-medium">{formatAmount(quota.amount)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openEdit(quota)}
+                      data-testid={`button-edit-quota-${quota.id}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDeleteTarget(quota)}
+                      data-testid={`button-delete-quota-${quota.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Quota Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Quota" : `Add Quota for ${year}`}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "The owner and period cannot be changed once a quota is created"
+                : "Closed-won opportunities count toward the period of their actual close date"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Owner</Label>
+              <Select value={form.userId} onValueChange={(userId) => setForm({ ...form, userId })} disabled={!!editing}>
+                <SelectTrigger data-testid="select-quota-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TEAM}>Team (whole organization)</SelectItem>
+                  {users?.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Period type</Label>
+                <Select
+                  value={form.periodType}
+                  onValueChange={(v) => setForm({ ...form, periodType: v as QuotaPeriodType, period: 1 })}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger data-testid="select-quota-period-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUOTA_PERIOD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{PERIOD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Period</Label>
+                <Select
+                  value={String(form.period)}
+                  onValueChange={(v) => setForm({ ...form, period: Number(v) })}
+                  disabled={!!editing || form.periodType === "year"}
+                >
+                  <SelectTrigger data-testid="select-quota-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {periodOptions(form.periodType).map(option => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quota-amount">Amount ($)</Label>
+                <Input
+                  id="quota-amount"
+                  type="number"
+                  min="0"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  data-testid="input-quota-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Opportunity category</Label>
+                <Select value={form.category} onValueChange={(category) => setForm({ ...form, category })}>
+                  <SelectTrigger data-testid="select-quota-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>All opportunities</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-submit-quota"
+            >
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.periodLabel} quota?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Attainment for {deleteTarget?.userId ? deleteTarget?.userName ?? "this rep" : "the team"} will no longer be tracked for this period.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              data-testid="button-confirm-delete-quota"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+// Sales Process Tab Component
+// Orders the organization's opportunity stages and sets each stage's default
+// probability and exit criteria. Closed Won and Closed Lost always come last.
+
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, ArrowUp, ArrowDown, ListChecks, Workflow } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { CLOSED_STAGES, invalidateSalesProcess, useSalesProcess, type SalesProcessStage } from "@/hooks/use-sales-process";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { STAGE_CRITERIA_FIELDS, opportunityContactRoleEnum, type OpportunityContactRole } from "@shared/schema";
+
+const FIELD_LABELS: Record<typeof STAGE_CRITERIA_FIELDS[number], string> = {
+  amount: "Amount",
+  closeDate: "Close date",
+  ownerId: "Owner",
+  description: "Description",
+  estRevenue: "Estimated revenue",
+  estCloseDate: "Estimated close date",
+  implementationStartDate: "Implementation start date",
+  implementationEndDate: "Implementation end date",
+  billingEndDate: "Billing end date",
+};
+
+const roleLabel = (role: string) =>
+  role.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+/** "Needs Analysis" → "needs_analysis" */
+const keyFromLabel = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "").slice(0, 50);
+
+const isClosed = (stage: SalesProcessStage) => CLOSED_STAGES.includes(stage.key);
+
+interface DraftStage extends SalesProcessStage {
+  /** Not saved yet, so the key still follows the label. */
+  isNew?: boolean;
+}
+
+export function SalesProcessTab() {
+  const { toast } = useToast();
+  const { stages, isDefault, isLoading } = useSalesProcess();
+  const { fields: customFields } = useCustomFields("opportunity");
+  const [draft, setDraft] = useState<DraftStage[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [criteriaIndex, setCriteriaIndex] = useState<number | null>(null);
+
+  const reset = () => {
+    setDraft(stages.map(({ key, label, probability, exitCriteria }) => ({ key, label, probability, exitCriteria })));
+    setDirty(false);
+  };
+
+  useEffect(() => {
+    if (!dirty) reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stages.map(stage => stage.key).join(","), isDefault]);
+
+  const update = (next: DraftStage[]) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const patchStage = (index: number, patch: Partial<DraftStage>) => {
+    update(draft.map((stage, i) => (i === index ? { ...stage, ...patch } : stage)));
+  };
+
+  const openCount = draft.filter(stage => !isClosed(stage)).length;
+
+  const move = (index: number, offset: number) => {
+    const next = [...draft];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    update(next);
+  };
+
+  const addStage = () => {
+    const next = [...draft];
+    next.splice(openCount, 0, {
+      key: "",
+      label: "",
+      probability: 50,
+      exitCriteria: { requiredFields: [], requiredContactRoles: [] },
+      isNew: true,
+    });
+    update(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/admin/sales-process", {
+        stages: draft.map(({ key, label, probability, exitCriteria }) => ({ key, label, probability, exitCriteria })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDirty(false);
+      invalidateSalesProcess();
+      toast({ title: "Sales process saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save sales process", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canSave = dirty && draft.every(stage => stage.key && stage.label.trim());
+  const editing = criteriaIndex !== null ? draft[criteriaIndex] : null;
+  const requiredFields = editing?.exitCriteria.requiredFields ?? [];
+  const requiredRoles = editing?.exitCriteria.requiredContactRoles ?? [];
+
+  const toggleField = (field: string, checked: boolean) => {
+    if (criteriaIndex === null || !editing) return;
+    patchStage(criteriaIndex, {
+      exitCriteria: {
+        ...editing.exitCriteria,
+        requiredFields: checked ? [...requiredFields, field] : requiredFields.filter(f => f !== field),
+      },
+    });
+  };
+
+  const toggleRole = (role: OpportunityContactRole, checked: boolean) => {
+    if (criteriaIndex === null || !editing) return;
+    patchStage(criteriaIndex, {
+      exitCriteria: {
+        ...editing.exitCriteria,
+        requiredContactRoles: checked ? [...requiredRoles, role] : requiredRoles.filter(r => r !== role),
+      },
+    });
+  };
+
+  const criteriaSummary = (stage: DraftStage) => {
+    const count = (stage.exitCriteria.requiredFields?.length ?? 0) + (stage.exitCriteria.requiredContactRoles?.length ?? 0);
+    return count === 0 ? "None" : `${count} required`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Workflow className="h-5 w-5" />
+                Sales Process
+              </CardTitle>
+              <CardDescription>
+                Opportunity stages in pipeline order. Exit criteria must be met before a deal moves past a stage;
+                moving a deal back or closing it as lost is never blocked.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {isDefault && !dirty && <Badge variant="secondary">Default stages</Badge>}
+              <Button variant="outline" onClick={addStage} disabled={draft.length >= 20} data-testid="button-add-stage">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Stage
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Order</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead className="w-32">Probability (%)</TableHead>
+                <TableHead>Exit criteria</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              )}
+              {draft.map((stage, index) => {
+                const closed = isClosed(stage);
+                return (
+                  <TableRow key={index} data-testid={`row-stage-${index}`}>
+                    <TableCell>
+                      {closed ? (
+                        <span className="text-muted-foreground text-sm">Last</span>
+                      ) : (
+                        <div className="flex gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => move(index, -1)} disabled={index === 0}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => move(index, 1)} disabled={index === openCount - 1}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={stage.label}
+                        maxLength={100}
+                        onChange={(e) => patchStage(index, stage.isNew
+                          ? { label: e.target.value, key: keyFromLabel(e.target.value) }
+                          : { label: e.target.value })}
+                        data-testid={`input-stage-label-${index}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-xs text-muted-foreground">{stage.key || "—"}</code>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={stage.probability}
+                        onChange={(e) => patchStage(index, { probability: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                        data-testid={`input-stage-probability-${index}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {closed ? (
+                        <span className="text-muted-foreground text-sm">—</span>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setCriteriaIndex(index)}
+                          data-testid={`button-stage-criteria-${index}`}
+                        >
+                          <ListChecks className="h-4 w-4 mr-2" />
+                          {criteriaSummary(stage)}
+                        </Button>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!closed && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => update(draft.filter((_, i) => i !== index))}
+                          disabled={openCount <= 1}
+                          data-testid={`button-remove-stage-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+        <CardFooter className="justify-end gap-2">
+          <Button variant="outline" onClick={reset} disabled={!dirty}>Discard changes</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+            data-testid="button-save-sales-process"
+          >
+            Save
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Exit Criteria Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setCriteriaIndex(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Exit criteria for {editing?.label || "new stage"}</DialogTitle>
+            <DialogDescription>
+              An opportunity needs all of these before it can move past this stage
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Required fields</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {STAGE_CRITERIA_FIELDS.map(field => (
+                  <label key={field} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={requiredFields.includes(field)}
+                      onCheckedChange={(checked) => toggleField(field, checked === true)}
+                      data-testid={`checkbox-criteria-field-${field}`}
+                    />
+                    {FIELD_LABELS[field]}
+                  </label>
+                ))}
+                {customFields.map(field => {
+                  const path = `customFields.${field.key}`;
+                  return (
+                    <label key={path} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={requiredFields.includes(path)}
+                        onCheckedChange={(checked) => toggleField(path, checked === true)}
+                        data-testid={`checkbox-criteria-field-${field.key}`}
+                      />
+                      {field.label}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Required contact roles</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {opportunityContactRoleEnum.enumValues.map(role => (
+                  <label key={role} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={requiredRoles.includes(role)}
+                      onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                      data-testid={`checkbox-criteria-role-${role}`}
+                    />
+                    {roleLabel(role)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCriteriaIndex(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
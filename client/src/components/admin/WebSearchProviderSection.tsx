@@ -0,0 +1,265 @@
+// Web Search Provider Section Component
+// Chooses the web search provider behind lead generation and contact research,
+// for this organization or as the default for organizations without a choice.
+// "Automatic" keeps the environment-driven order; Brave and Serper take a key
+// here or from their env var; recorded fixtures replay searches offline.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, Save, Search, X, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import type { WebSearchConfigInput, WebSearchProviderChoice } from "@shared/schema";
+
+interface ResearchStatus {
+  config: { provider: WebSearchProviderChoice; baseUrl: string | null; apiKeyHint: string | null; hasApiKey: boolean } | null;
+  choice: WebSearchProviderChoice;
+  activeProvider: string;
+  source: "settings" | "env" | "ai_config" | "llm_config" | null;
+  error: string | null;
+  azure: { configured: boolean; source: "env" | "db_llm_config" | null };
+  brave: { configured: boolean };
+  serper: { configured: boolean };
+  fixture: { configured: boolean; dir: string };
+}
+
+const CHOICE_LABELS: Record<WebSearchProviderChoice, string> = {
+  auto: "Automatic (from environment)",
+  azure_web_search: "Azure OpenAI Web Search",
+  brave: "Brave Search",
+  serper: "Serper (Google results)",
+  fixture: "Recorded fixtures (offline)",
+  none: "None — disable web search",
+};
+
+const PROVIDER_LABELS: Record<string, string> = {
+  azure_web_search: "Azure OpenAI Web Search",
+  brave: "Brave Search",
+  serper: "Serper",
+  fixture: "Recorded fixtures",
+  none: "None (company discovery will fail if run)",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  settings: "saved here",
+  env: "environment variables",
+  ai_config: "lead gen search AI config",
+  llm_config: "Azure LLM configuration",
+};
+
+export function WebSearchProviderSection() {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<"organization" | "global">("organization");
+  const [choice, setChoice] = useState<WebSearchProviderChoice>("auto");
+  const [apiKeyInput, setApiKeyInput] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [initialized, setInitialized] = useState(false);
+  const [testResult, setTestResult] = useState<{ success: boolean; provider?: string; resultCount?: number; error?: string } | null>(null);
+  const statusUrl = scope === "global" ? "/api/admin/research/status?scope=global" : "/api/admin/research/status";
+  const scopeQuery = scope === "global" ? "?scope=global" : "";
+
+  const { data: status } = useQuery<ResearchStatus>({ queryKey: [statusUrl] });
+
+  if (status && !initialized) {
+    setChoice(status.config?.provider ?? "auto");
+    setBaseUrl(status.config?.baseUrl ?? "");
+    setInitialized(true);
+  }
+
+  const handleScopeChange = (newScope: string) => {
+    setScope(newScope as "organization" | "global");
+    setApiKeyInput("");
+    setTestResult(null);
+    setInitialized(false);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body: WebSearchConfigInput = { provider: choice, baseUrl: baseUrl.trim() || null };
+      if (apiKeyInput.trim()) body.apiKey = apiKeyInput.trim();
+      const res = await apiRequest("PUT", `/api/admin/research/config${scopeQuery}`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/research/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/research/status?scope=global"] });
+      setApiKeyInput("");
+      setTestResult(null);
+      setInitialized(false);
+      toast({ title: "Web search provider saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save web search provider", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/research/test${scopeQuery}`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setTestResult(data);
+      if (data.success) {
+        toast({ title: `Web search working — ${data.resultCount} result(s)` });
+      } else {
+        toast({ title: "Web search test failed", description: data.error, variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Test failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const needsKey = choice === "brave" || choice === "serper";
+  const envKeySet = choice === "brave" ? status?.brave.configured : choice === "serper" ? status?.serper.configured : false;
+  const storedHint = status?.config?.provider === choice && status.config.hasApiKey ? status.config.apiKeyHint : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Web Search Provider
+        </CardTitle>
+        <CardDescription>
+          Controls which search engine powers lead generation and contact research. Azure OpenAI Web Search provides
+          citation provenance per discovered company; Brave and Serper return ranked web results.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status && (
+          <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-active-search-provider">
+            <span className="text-muted-foreground">Searches use:</span>
+            <Badge
+              variant={status.activeProvider === "none" ? "destructive" : "secondary"}
+              data-testid="badge-active-provider"
+            >
+              {PROVIDER_LABELS[status.activeProvider] ?? status.activeProvider}
+            </Badge>
+            {status.source && status.activeProvider !== "none" && (
+              <span className="text-xs text-muted-foreground">via {SOURCE_LABELS[status.source] ?? status.source}</span>
+            )}
+          </div>
+        )}
+        {status?.error && (
+          <p className="text-xs text-destructive" data-testid="text-search-provider-error">{status.error}</p>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="web-search-scope">Applies to</Label>
+            <Select value={scope} onValueChange={handleScopeChange}>
+              <SelectTrigger id="web-search-scope" data-testid="select-web-search-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="organization">This organization</SelectItem>
+                <SelectItem value="global">Default for all organizations</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="web-search-provider">Provider</Label>
+            <Select value={choice} onValueChange={(value) => setChoice(value as WebSearchProviderChoice)}>
+              <SelectTrigger id="web-search-provider" data-testid="select-web-search-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CHOICE_LABELS) as WebSearchProviderChoice[]).map(key => (
+                  <SelectItem key={key} value={key}>{CHOICE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {needsKey && (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="web-search-api-key">API key</Label>
+              <Input
+                id="web-search-api-key"
+                type="password"
+                autoComplete="off"
+                placeholder={storedHint ? `Saved key ending in ${storedHint}` : envKeySet ? "Using the key from the environment" : "Enter API key"}
+                value={apiKeyInput}
+                onChange={(e) => setApiKeyInput(e.target.value)}
+                data-testid="input-web-search-api-key"
+              />
+              <p className="text-xs text-muted-foreground">
+                Stored encrypted. Without one, <code className="font-mono">{choice === "brave" ? "BRAVE_SEARCH_API_KEY" : "SERPER_API_KEY"}</code> is used.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="web-search-base-url">Endpoint override (optional)</Label>
+              <Input
+                id="web-search-base-url"
+                placeholder={choice === "brave" ? "https://api.search.brave.com/res/v1/web" : "https://google.serper.dev/search"}
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                data-testid="input-web-search-base-url"
+              />
+            </div>
+          </div>
+        )}
+
+        {choice === "azure_web_search" && (
+          <p className="text-xs text-muted-foreground">
+            Uses <code className="font-mono">AZURE_OPENAI_API_KEY</code>, <code className="font-mono">AZURE_OPENAI_BASE_URL</code> and{" "}
+            <code className="font-mono">AZURE_OPENAI_MODEL</code> when set, otherwise the Azure LLM configuration above.
+            {status && !status.azure.configured && <span className="text-destructive"> Neither is configured.</span>}
+          </p>
+        )}
+        {choice === "fixture" && (
+          <p className="text-xs text-muted-foreground">
+            Replays recorded results from <code className="font-mono">{status?.fixture.dir ?? "RESEARCH_FIXTURES_DIR"}</code> without
+            calling any search API. Record fixtures by running with <code className="font-mono">RESEARCH_FIXTURES_RECORD_DIR</code> set.
+            {status && !status.fixture.configured && <span className="text-destructive"> The directory does not exist.</span>}
+          </p>
+        )}
+        {choice === "auto" && (
+          <p className="text-xs text-muted-foreground">
+            Uses recorded fixtures when <code className="font-mono">RESEARCH_FIXTURES_DIR</code> is set, then Azure OpenAI web search,
+            Brave or Serper from environment variables, then an Azure LLM configuration.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-web-search">
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Provider"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending}
+            data-testid="button-test-web-search"
+          >
+            <Zap className="h-4 w-4 mr-2" />
+            {testMutation.isPending ? "Testing..." : "Test Search"}
+          </Button>
+          {testResult && (
+            <div
+              className={`flex items-start gap-2 text-sm rounded-md px-3 py-2 ${testResult.success ? "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400" : "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400"}`}
+              data-testid="text-web-search-test-result"
+            >
+              {testResult.success ? (
+                <><Check className="h-4 w-4 mt-0.5 shrink-0" /> {PROVIDER_LABELS[testResult.provider ?? ""] ?? testResult.provider} returned {testResult.resultCount} result(s)</>
+              ) : (
+                <><X className="h-4 w-4 mt-0.5 shrink-0" /><pre className="whitespace-pre-wrap font-sans text-sm">{testResult.error}</pre></>
+              )}
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Saved changes apply to lead generation runs started afterwards.</p>
+      </CardContent>
+    </Card>
+  );
+}
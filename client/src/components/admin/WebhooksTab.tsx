@@ -0,0 +1,437 @@
+// Webhooks Tab Component
+// Manages outbound webhook subscriptions for the active organization and
+// shows the delivery log with manual redelivery.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Copy, RefreshCw, Send, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { WebhookDelivery, WebhookSubscription } from "@shared/schema";
+
+type WebhookSubscriptionSummary = Omit<WebhookSubscription, "encryptedSecret">;
+
+const STATUS_VARIANTS: Record<WebhookDelivery["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  succeeded: "default",
+  pending: "outline",
+  failed: "secondary",
+  dead_letter: "destructive",
+};
+
+const EMPTY_FORM = { name: "", url: "", description: "", allEvents: true, events: [] as string[] };
+
+export function WebhooksTab() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [deliveryStatus, setDeliveryStatus] = useState<string>("all");
+
+  const { data: subscriptions } = useQuery<WebhookSubscriptionSummary[]>({
+    queryKey: ["/api/admin/webhooks"],
+  });
+  const { data: events } = useQuery<string[]>({
+    queryKey: ["/api/admin/webhooks/events"],
+  });
+  const deliveriesUrl = deliveryStatus === "all"
+    ? "/api/admin/webhook-deliveries"
+    : `/api/admin/webhook-deliveries?status=${deliveryStatus}`;
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesUrl],
+  });
+
+  const subscriptionName = (id: string) => subscriptions?.find(s => s.id === id)?.name ?? id;
+
+  const invalidateWebhooks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+    queryClient.invalidateQueries({
+      predicate: (q) => typeof q.queryKey[0] === "string" && q.queryKey[0].startsWith("/api/admin/webhook-deliveries"),
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof EMPTY_FORM) => {
+      const res = await apiRequest("POST", "/api/admin/webhooks", {
+        name: data.name,
+        url: data.url,
+        description: data.description || null,
+        events: data.allEvents ? ["*"] : data.events,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { secret: string }) => {
+      invalidateWebhooks();
+      setCreateOpen(false);
+      setForm(EMPTY_FORM);
+      setRevealedSecret(data.secret);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create webhook", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/webhooks/${id}`, { isActive });
+      return res.json();
+    },
+    onSuccess: () => invalidateWebhooks(),
+    onError: (error: Error) => {
+      toast({ title: "Failed to update webhook", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/webhooks/${id}/rotate-secret`);
+      return res.json();
+    },
+    onSuccess: (data: { secret: string }) => setRevealedSecret(data.secret),
+    onError: (error: Error) => {
+      toast({ title: "Failed to rotate secret", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      invalidateWebhooks();
+      setDeleteId(null);
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete webhook", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/webhook-deliveries/${id}/redeliver`);
+      return res.json();
+    },
+    onSuccess: (delivery: WebhookDelivery) => {
+      invalidateWebhooks();
+      toast({
+        title: delivery.status === "succeeded" ? "Delivered" : "Redelivery attempted",
+        description: delivery.lastError ?? undefined,
+        variant: delivery.status === "succeeded" ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to redeliver", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event),
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Webhook Subscriptions
+              </CardTitle>
+              <CardDescription>
+                Send signed HTTP callbacks when accounts, contacts, leads, opportunities or activities change
+              </CardDescription>
+            </div>
+            <Button onClick={() => setCreateOpen(true)} data-testid="button-create-webhook">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Webhook
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!subscriptions?.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No webhooks yet. Add one to start receiving events.
+                  </TableCell>
+                </TableRow>
+              )}
+              {subscriptions?.map((sub) => (
+                <TableRow key={sub.id}>
+                  <TableCell className="font-medium">{sub.name}</TableCell>
+                  <TableCell className="font-mono text-xs break-all">{sub.url}</TableCell>
+                  <TableCell data-testid={`text-webhook-events-${sub.id}`}>
+                    {sub.events.includes("*") ? (
+                      <Badge variant="outline">All events</Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{sub.events.length} events</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={sub.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: sub.id, isActive })}
+                      data-testid={`switch-webhook-active-${sub.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => rotateMutation.mutate(sub.id)}
+                      title="Rotate signing secret"
+                      data-testid={`button-rotate-webhook-${sub.id}`}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDeleteId(sub.id)}
+                      data-testid={`button-delete-webhook-${sub.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Delivery Log</CardTitle>
+              <CardDescription>
+                Failed deliveries retry with exponential backoff and move to dead letter after repeated failures
+              </CardDescription>
+            </div>
+            <Select value={deliveryStatus} onValueChange={setDeliveryStatus}>
+              <SelectTrigger className="w-[180px]" data-testid="select-delivery-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="succeeded">Succeeded</SelectItem>
+                <SelectItem value="failed">Failed (retrying)</SelectItem>
+                <SelectItem value="dead_letter">Dead letter</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Created</TableHead>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last Result</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveriesLoading && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              )}
+              {!deliveriesLoading && !deliveries?.length && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">No deliveries</TableCell>
+                </TableRow>
+              )}
+              {deliveries?.map((delivery) => (
+                <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{subscriptionName(delivery.subscriptionId)}</TableCell>
+                  <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                  <TableCell className="font-mono text-xs">{delivery.entityId ?? "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status.replace("_", " ")}</Badge>
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate" title={delivery.lastError ?? undefined}>
+                    {delivery.lastError ?? (delivery.lastStatusCode ? `HTTP ${delivery.lastStatusCode}` : "—")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => redeliverMutation.mutate(delivery.id)}
+                      disabled={redeliverMutation.isPending}
+                      title="Redeliver"
+                      data-testid={`button-redeliver-${delivery.id}`}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create Webhook Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+            <DialogDescription>
+              Events are POSTed as JSON and signed with HMAC-SHA256 in the X-HTCRM-Signature header
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-webhook-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/hooks/crm"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                data-testid="input-webhook-description"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="webhook-all-events"
+                checked={form.allEvents}
+                onCheckedChange={(checked) => setForm({ ...form, allEvents: checked === true })}
+                data-testid="checkbox-webhook-all-events"
+              />
+              <Label htmlFor="webhook-all-events">Send all events</Label>
+            </div>
+            {!form.allEvents && (
+              <div className="grid grid-cols-3 gap-2 max-h-60 overflow-y-auto border rounded-md p-3">
+                {events?.map((event) => (
+                  <div key={event} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`webhook-event-${event}`}
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-webhook-event-${event}`}
+                    />
+                    <Label htmlFor={`webhook-event-${event}`} className="font-mono text-xs">{event}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate(form)}
+              disabled={!form.name || !form.url || (!form.allEvents && form.events.length === 0) || createMutation.isPending}
+              data-testid="button-submit-webhook"
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Signing Secret Dialog (shown once after create/rotate) */}
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              This is the only time the signing secret will be shown. Store it securely to verify webhook signatures.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret ?? ""} className="font-mono text-xs" data-testid="input-webhook-secret" />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(revealedSecret ?? "");
+                toast({ title: "Copied to clipboard" });
+              }}
+              data-testid="button-copy-webhook-secret"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The subscription and its delivery log will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId && deleteMutation.mutate(deleteId)}
+              data-testid="button-confirm-delete-webhook"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
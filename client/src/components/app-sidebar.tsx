@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { Home, Building2, Users, UserPlus, Target, Calendar, History, Settings, LogOut, HelpCircle, Upload, BarChart3, Plus, GanttChart, Zap, BookOpen, Play, ClipboardList, BarChart2, UserCheck } from "lucide-react";
+import { Home, Building2, Users, UserPlus, Target, Calendar, History, Settings, LogOut, HelpCircle, Upload, BarChart3, Plus, GanttChart, Zap, BookOpen, Play, ClipboardList, BarChart2, UserCheck, Copy, FileText } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
@@ -37,6 +37,7 @@ const adminItems = [
   { title: "CSV Import",       url: "/import",    icon: Upload },
   { title: "Admin Console",    url: "/admin",     icon: Settings },
   { title: "Audit Log",        url: "/audit-log", icon: History },
+  { title: "Duplicates",       url: "/duplicates", icon: Copy },
   { title: "Help & Migration", url: "/help",      icon: HelpCircle },
 ];
 
@@ -44,6 +45,7 @@ const leadGenItems = [
   { title: "Dashboard",      url: "/lead-gen",           icon: Zap },
   { title: "ICPs",           url: "/lead-gen/icps",      icon: UserCheck },
   { title: "Task Playbooks", url: "/lead-gen/playbooks", icon: BookOpen },
+  { title: "Prompts",        url: "/lead-gen/prompts",   icon: FileText },
   { title: "Runs",           url: "/lead-gen/runs",      icon: Play },
   { title: "Review Queue",   url: "/lead-gen/review",    icon: ClipboardList },
   { title: "Reports",        url: "/lead-gen/reports",   icon: BarChart2 },
@@ -75,6 +77,7 @@ export function AppSidebar() {
     { title: "CSV Import",       url: "/import",    icon: Upload,      show: can("*", "*") },
     { title: "Admin Console",    url: "/admin",     icon: Settings,    show: can("*", "*") },
     { title: "Audit Log",        url: "/audit-log", icon: History,     show: can("AuditLog", "read") },
+    { title: "Duplicates",       url: "/duplicates", icon: Copy,       show: can("Account", "update") || can("Contact", "update") },
     { title: "Help & Migration", url: "/help",      icon: HelpCircle,  show: can("*", "*") },
   ].filter(item => item.show);
 
@@ -0,0 +1,368 @@
+// Stored backups on the admin Backup & Restore tab: the configured schedules,
+// retention and storage target, full and incremental Back Up Now buttons, and
+// the run history with per-archive verification, download and restore. Also
+// verifies an uploaded archive without restoring it.
+
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, Download, FileCheck, Play, RotateCcw, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, fetchCsrfToken, getOrgHeaders, queryClient } from "@/lib/queryClient";
+import type { BackupJob, BackupType } from "@shared/schema";
+
+interface BackupSchedule {
+  enabled: boolean;
+  schedule: string | null;
+  nextRunAt: string | null;
+  incrementalSchedule: string | null;
+  nextIncrementalRunAt: string | null;
+  retention: { daily: number; weekly: number; monthly: number };
+  target: { kind: "local" | "s3"; location: string } | null;
+  errors: string[];
+}
+
+interface BackupVerification {
+  valid: boolean;
+  version: string | null;
+  kind: BackupType | null;
+  timestamp: string | null;
+  tables: Record<string, number>;
+  documentFiles: number;
+  errors: string[];
+  warnings: string[];
+}
+
+interface RestoreResult {
+  recordsRestored: number;
+  warnings: string[];
+}
+
+const BACKUPS_KEY = ["/api/admin/backups"];
+
+function formatSize(bytes: number | null): string {
+  if (bytes == null) return "—";
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatTime(value: Date | string | null): string {
+  return value ? format(new Date(value), "MMM d, yyyy HH:mm") : "—";
+}
+
+function describeVerification(result: BackupVerification): string {
+  if (!result.valid) return result.errors.join("; ");
+  const records = Object.values(result.tables).reduce((sum, count) => sum + count, 0);
+  const summary = `${records.toLocaleString()} records, ${result.documentFiles} document file(s)`;
+  return result.warnings.length > 0 ? `${summary}. ${result.warnings.join("; ")}` : summary;
+}
+
+function BackupStatusBadge({ job }: { job: BackupJob }) {
+  if (job.status === "failed") return <Badge variant="destructive">Failed</Badge>;
+  if (job.status !== "completed") return <Badge variant="outline">In progress</Badge>;
+  if (job.prunedAt) return <Badge variant="secondary">Pruned</Badge>;
+  if (job.verificationError) return <Badge variant="destructive">Verification failed</Badge>;
+  if (job.verifiedAt) return <Badge variant="default">Verified</Badge>;
+  return <Badge variant="outline">Completed</Badge>;
+}
+
+async function downloadStoredBackup(job: BackupJob) {
+  const url = `/api/admin/backups/${job.id}/download`;
+  const response = await fetch(url, { credentials: "include", headers: getOrgHeaders(url) });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || "Failed to download backup");
+  }
+  const blob = await response.blob();
+  const objectUrl = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = job.path ?? "backup.zip";
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(objectUrl);
+  document.body.removeChild(a);
+}
+
+export function BackupHistory() {
+  const { toast } = useToast();
+  const verifyInputRef = useRef<HTMLInputElement>(null);
+  const [restoreJob, setRestoreJob] = useState<BackupJob | null>(null);
+
+  const { data, isLoading } = useQuery<{ schedule: BackupSchedule; jobs: BackupJob[] }>({
+    queryKey: BACKUPS_KEY,
+  });
+
+  const showVerification = (result: BackupVerification) => {
+    toast({
+      title: result.valid ? "Backup verified" : "Backup failed verification",
+      description: describeVerification(result),
+      variant: result.valid ? "default" : "destructive",
+    });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (type: BackupType) => {
+      const res = await apiRequest("POST", "/api/admin/backups/run", { type });
+      return res.json() as Promise<BackupJob>;
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: BACKUPS_KEY });
+      toast({ title: job.backupType === "incremental" ? "Incremental backup stored" : "Backup stored", description: job.path ?? undefined });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: BACKUPS_KEY });
+      toast({ title: "Backup failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verifyStoredMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await apiRequest("POST", `/api/admin/backups/${jobId}/verify`);
+      return res.json() as Promise<BackupVerification>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: BACKUPS_KEY });
+      showVerification(result);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await apiRequest("POST", `/api/admin/backups/${jobId}/restore`);
+      return res.json() as Promise<RestoreResult>;
+    },
+    onSuccess: (result) => {
+      // Everything cached describes the database that was just replaced
+      queryClient.invalidateQueries();
+      toast({
+        title: "Backup restored",
+        description: `${result.recordsRestored.toLocaleString()} records restored. Please refresh the page.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verifyUploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const url = "/api/admin/backups/verify";
+      const res = await fetch(url, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "X-CSRF-Token": await fetchCsrfToken(),
+          ...getOrgHeaders(url),
+        },
+        body: new Uint8Array(await file.arrayBuffer()),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Verification failed");
+      return body as BackupVerification;
+    },
+    onSuccess: showVerification,
+    onError: (error: Error) => {
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const schedule = data?.schedule;
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <Card data-testid="card-backup-history">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Stored Backups
+            </CardTitle>
+            <CardDescription>
+              {schedule?.enabled ? (
+                <>
+                  {schedule.schedule && <>Scheduled <code>{schedule.schedule}</code> (UTC) · next run {formatTime(schedule.nextRunAt)}</>}
+                  {schedule.schedule && schedule.incrementalSchedule && <br />}
+                  {schedule.incrementalSchedule && (
+                    <>Incremental <code>{schedule.incrementalSchedule}</code> (UTC) · next run {formatTime(schedule.nextIncrementalRunAt)}</>
+                  )}
+                </>
+              ) : "No backup schedule configured. Set BACKUP_SCHEDULE to take backups automatically."}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={verifyInputRef}
+              type="file"
+              accept=".htb,.zip"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) verifyUploadMutation.mutate(file);
+                e.target.value = "";
+              }}
+              style={{ display: "none" }}
+              data-testid="input-verify-backup-file"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => verifyInputRef.current?.click()}
+              disabled={verifyUploadMutation.isPending}
+              data-testid="button-verify-backup-file"
+            >
+              <FileCheck className="h-4 w-4 mr-2" />
+              {verifyUploadMutation.isPending ? "Verifying..." : "Verify File"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runMutation.mutate("incremental")}
+              disabled={runMutation.isPending || !schedule?.target}
+              data-testid="button-run-incremental-backup"
+            >
+              Incremental
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => runMutation.mutate("full")}
+              disabled={runMutation.isPending || !schedule?.target}
+              data-testid="button-run-backup"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {runMutation.isPending ? "Backing up..." : "Back Up Now"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {schedule && (
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>
+              Target: {schedule.target ? <>{schedule.target.kind === "s3" ? "S3" : "Local directory"} <code>{schedule.target.location}</code></> : "not configured"}
+            </p>
+            <p>
+              Retention: newest backup of the last {schedule.retention.daily} day(s), {schedule.retention.weekly} week(s) and {schedule.retention.monthly} month(s).
+              Incremental backups are kept as long as their full backup.
+            </p>
+            {schedule.errors.map((error) => (
+              <p key={error} className="text-destructive" data-testid="text-backup-config-error">{error}</p>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading backups...</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No backups yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Verified</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => {
+                const stored = job.status === "completed" && !!job.target && !job.prunedAt;
+                return (
+                  <TableRow key={job.id} data-testid={`row-backup-${job.id}`}>
+                    <TableCell>{formatTime(job.createdAt)}</TableCell>
+                    <TableCell className="capitalize">{job.trigger}</TableCell>
+                    <TableCell className="capitalize">{job.backupType}</TableCell>
+                    <TableCell>
+                      <BackupStatusBadge job={job} />
+                      {(job.errorMessage || job.verificationError) && (
+                        <p className="text-xs text-muted-foreground mt-1">{job.errorMessage || job.verificationError}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatSize(job.sizeBytes)}</TableCell>
+                    <TableCell>{formatTime(job.verifiedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {stored && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => verifyStoredMutation.mutate(job.id)}
+                            disabled={verifyStoredMutation.isPending}
+                            data-testid={`button-verify-backup-${job.id}`}
+                          >
+                            <ShieldCheck className="h-4 w-4 mr-2" />
+                            Verify
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => downloadStoredBackup(job).catch((error: Error) => {
+                              toast({ title: "Download failed", description: error.message, variant: "destructive" });
+                            })}
+                            data-testid={`button-download-backup-${job.id}`}
+                          >
+                            <Download className="h-4 w-4 mr-2" />
+                            Download
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRestoreJob(job)}
+                            disabled={restoreMutation.isPending}
+                            data-testid={`button-restore-backup-${job.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Restore
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!restoreJob} onOpenChange={(open) => !open && setRestoreJob(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All current data will be replaced with the backup from {formatTime(restoreJob?.createdAt ?? null)}.
+              {restoreJob?.backupType === "incremental" && " This incremental backup is applied on top of the full backup it was taken from."}
+              {" "}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-restore-backup">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (restoreJob) restoreMutation.mutate(restoreJob.id);
+                setRestoreJob(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-restore-backup"
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
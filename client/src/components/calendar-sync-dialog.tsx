@@ -0,0 +1,227 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, Copy, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, fetchCsrfToken, getOrgHeaders } from "@/lib/queryClient";
+
+interface FeedTokenInfo {
+  exists: boolean;
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+interface IcsImportResult {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  linkedContacts: number;
+  errors: Array<{ event: number; error: string }>;
+  warnings: string[];
+}
+
+interface CalendarSyncDialogProps {
+  canImport: boolean;
+}
+
+/** Subscribe to the user's activities from a calendar app, or import an .ics file as meetings. */
+export function CalendarSyncDialog({ canImport }: CalendarSyncDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<IcsImportResult | null>(null);
+
+  const { data: feed } = useQuery<FeedTokenInfo>({
+    queryKey: ["/api/calendar/feed-token"],
+    enabled: open,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar/feed-token");
+      return await res.json() as { url: string };
+    },
+    onSuccess: (data) => {
+      setFeedUrl(data.url);
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/feed-token"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create calendar link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/calendar/feed-token");
+    },
+    onSuccess: () => {
+      setFeedUrl(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/feed-token"] });
+      toast({ title: "Calendar link revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke calendar link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const csrfToken = await fetchCsrfToken();
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch("/api/import/ics", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+        headers: { "X-CSRF-Token": csrfToken, ...getOrgHeaders("/api/import/ics") },
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Import failed" }));
+        throw new Error(err.error || "Import failed");
+      }
+      return await res.json() as IcsImportResult;
+    },
+    onSuccess: (result) => {
+      setImportResult(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({ title: `Imported ${result.created} meeting${result.created !== 1 ? "s" : ""}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setFeedUrl(null);
+      setImportResult(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-calendar-sync">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar Sync</DialogTitle>
+          <DialogDescription>
+            Subscribe to your pending calls, meetings and tasks from Outlook, Google Calendar or any app that reads ICS feeds.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Label>Subscription link</Label>
+          {feedUrl ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={feedUrl} className="font-mono text-xs" data-testid="input-calendar-feed-url" />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(feedUrl);
+                    toast({ title: "Copied to clipboard" });
+                  }}
+                  data-testid="button-copy-calendar-feed-url"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                This link is only shown once. Anyone with it can see your activities, so keep it private.
+              </p>
+            </>
+          ) : feed?.exists ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-calendar-feed-status">
+              Link created {feed.createdAt ? format(new Date(feed.createdAt), "MMM d, yyyy") : ""}
+              {feed.lastAccessedAt ? ` · last synced ${format(new Date(feed.lastAccessedAt), "MMM d, yyyy h:mm a")}` : " · not synced yet"}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">You don't have a subscription link yet.</p>
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              data-testid="button-rotate-calendar-feed"
+            >
+              {rotateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {feed?.exists ? "Regenerate link" : "Create link"}
+            </Button>
+            {feed?.exists && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revokeMutation.mutate()}
+                disabled={revokeMutation.isPending}
+                data-testid="button-revoke-calendar-feed"
+              >
+                Revoke
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {canImport && (
+          <div className="space-y-3 border-t pt-4">
+            <Label>Import meetings</Label>
+            <p className="text-sm text-muted-foreground">
+              Upload an .ics file (a meeting invite or calendar export). Attendees are matched to contacts by email.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importMutation.mutate(file);
+                e.target.value = "";
+              }}
+              data-testid="input-ics-file"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-ics"
+            >
+              {importMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Upload className="h-4 w-4 mr-2" />}
+              Upload .ics
+            </Button>
+            {importResult && (
+              <div className="rounded-md border p-3 text-sm space-y-1" data-testid="text-ics-import-result">
+                <p>
+                  {importResult.created} created, {importResult.skipped} skipped, {importResult.failed} failed
+                  {" "}({importResult.linkedContacts} contact link{importResult.linkedContacts !== 1 ? "s" : ""})
+                </p>
+                {importResult.warnings.map((warning) => (
+                  <p key={warning} className="text-muted-foreground">{warning}</p>
+                ))}
+                {importResult.errors.slice(0, 5).map((e) => (
+                  <p key={e.event} className="text-destructive">Event {e.event}: {e.error}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
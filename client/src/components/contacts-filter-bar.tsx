@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { TagFilterButton } from "@/components/tag-filter-button";
+import { CustomFieldFilterButton } from "@/components/custom-field-filter-button";
 
 interface User {
   id: string;
@@ -25,6 +26,7 @@ interface ContactFilters {
   ownerId: string;
   hasEmail: string;
   tagIds: string[];
+  customFields: Record<string, string>;
 }
 
 interface ContactsFilterBarProps {
@@ -41,6 +43,7 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
   const [ownerId, setOwnerId] = useState(initialFilters?.ownerId ?? "");
   const [hasEmail, setHasEmail] = useState(initialFilters?.hasEmail ?? "");
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(initialFilters?.tagIds ?? []);
+  const [customFields, setCustomFields] = useState<Record<string, string>>(initialFilters?.customFields ?? {});
 
   const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const onFilterChangeRef = useRef(onFilterChange);
@@ -54,6 +57,8 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
   hasEmailRef.current = hasEmail;
   const selectedTagIdsRef = useRef(selectedTagIds);
   selectedTagIdsRef.current = selectedTagIds;
+  const customFieldsRef = useRef(customFields);
+  customFieldsRef.current = customFields;
 
   const { data: users } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -71,42 +76,48 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
       ownerId: initialFilters?.ownerId ?? "",
       hasEmail: initialFilters?.hasEmail ?? "",
       tagIds: initialFilters?.tagIds ?? [],
+      customFields: initialFilters?.customFields ?? {},
     });
   }, []);
 
-  const notify = (newSearch: string, newAccountId: string, newOwnerId: string, newHasEmail: string, newTagIds: string[]) => {
-    onFilterChangeRef.current({ search: newSearch, accountId: newAccountId, ownerId: newOwnerId, hasEmail: newHasEmail, tagIds: newTagIds });
+  const notify = (newSearch: string, newAccountId: string, newOwnerId: string, newHasEmail: string, newTagIds: string[], newCustomFields: Record<string, string>) => {
+    onFilterChangeRef.current({ search: newSearch, accountId: newAccountId, ownerId: newOwnerId, hasEmail: newHasEmail, tagIds: newTagIds, customFields: newCustomFields });
   };
 
   const handleSearchChange = (value: string) => {
     setSearch(value);
     if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
     searchTimerRef.current = setTimeout(() => {
-      notify(value, accountIdRef.current, ownerIdRef.current, hasEmailRef.current, selectedTagIdsRef.current);
+      notify(value, accountIdRef.current, ownerIdRef.current, hasEmailRef.current, selectedTagIdsRef.current, customFieldsRef.current);
     }, 300);
   };
 
   const handleAccountChange = (value: string) => {
     const newAccountId = value === "all" ? "" : value;
     setAccountId(newAccountId);
-    notify(search, newAccountId, ownerId, hasEmail, selectedTagIds);
+    notify(search, newAccountId, ownerId, hasEmail, selectedTagIds, customFields);
   };
 
   const handleOwnerChange = (value: string) => {
     const newOwner = value === "all" ? "" : value;
     setOwnerId(newOwner);
-    notify(search, accountId, newOwner, hasEmail, selectedTagIds);
+    notify(search, accountId, newOwner, hasEmail, selectedTagIds, customFields);
   };
 
   const handleHasEmailChange = (value: string) => {
     const newHasEmail = value === "all" ? "" : value;
     setHasEmail(newHasEmail);
-    notify(search, accountId, ownerId, newHasEmail, selectedTagIds);
+    notify(search, accountId, ownerId, newHasEmail, selectedTagIds, customFields);
   };
 
   const handleTagIdsChange = (newTagIds: string[]) => {
     setSelectedTagIds(newTagIds);
-    notify(search, accountId, ownerId, hasEmail, newTagIds);
+    notify(search, accountId, ownerId, hasEmail, newTagIds, customFields);
+  };
+
+  const handleCustomFieldsChange = (newCustomFields: Record<string, string>) => {
+    setCustomFields(newCustomFields);
+    notify(search, accountId, ownerId, hasEmail, selectedTagIds, newCustomFields);
   };
 
   const handleClearFilters = () => {
@@ -116,7 +127,8 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
     setOwnerId("");
     setHasEmail("");
     setSelectedTagIds([]);
-    notify("", "", "", "", []);
+    setCustomFields({});
+    notify("", "", "", "", [], {});
   };
 
   const handleMyContacts = () => {
@@ -124,14 +136,14 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
     setOwnerId(newOwner);
     setAccountId("");
     setHasEmail("");
-    notify(search, "", newOwner, "", selectedTagIds);
+    notify(search, "", newOwner, "", selectedTagIds, customFields);
   };
 
   const handleWithEmail = () => {
     setHasEmail("true");
     setOwnerId("");
     setAccountId("");
-    notify(search, "", "", "true", selectedTagIds);
+    notify(search, "", "", "true", selectedTagIds, customFields);
   };
 
   const handleAllContacts = () => {
@@ -139,10 +151,11 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
     setAccountId("");
     setHasEmail("");
     setSelectedTagIds([]);
-    notify(search, "", "", "", []);
+    setCustomFields({});
+    notify(search, "", "", "", [], {});
   };
 
-  const hasActiveFilters = search || accountId || ownerId || hasEmail || selectedTagIds.length > 0;
+  const hasActiveFilters = search || accountId || ownerId || hasEmail || selectedTagIds.length > 0 || Object.keys(customFields).length > 0;
 
   return (
     <div className="space-y-4" data-testid="contacts-filter-bar">
@@ -204,6 +217,12 @@ export function ContactsFilterBar({ onFilterChange, totalCount, filteredCount, i
           onTagIdsChange={handleTagIdsChange}
         />
 
+        <CustomFieldFilterButton
+          entityType="contact"
+          value={customFields}
+          onChange={handleCustomFieldsChange}
+        />
+
         {hasActiveFilters && (
           <Button
             variant="outline"
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import type { CustomFieldDefinition, CustomFieldEntityType } from "@shared/schema";
+
+interface CustomFieldFilterButtonProps {
+  entityType: CustomFieldEntityType;
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+}
+
+const RANGE_TYPES = new Set(["number", "currency", "date"]);
+
+/**
+ * Filter values use the server's `cf[key]` syntax: ranges are "from..to",
+ * everything else is a single value.
+ */
+export function CustomFieldFilterButton({ entityType, value, onChange }: CustomFieldFilterButtonProps) {
+  const { fields } = useCustomFields(entityType);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>(value);
+
+  if (fields.length === 0) return null;
+
+  const activeCount = Object.keys(value).length;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(value);
+    setOpen(next);
+  };
+
+  const setDraftValue = (key: string, next: string) => {
+    setDraft(prev => {
+      const updated = { ...prev };
+      if (next.trim() === "" || next === "..") delete updated[key];
+      else updated[key] = next;
+      return updated;
+    });
+  };
+
+  const handleApply = () => {
+    onChange(draft);
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    onChange({});
+    setOpen(false);
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const current = draft[field.key] ?? "";
+    const testId = `filter-custom-field-${field.key}`;
+
+    if (RANGE_TYPES.has(field.fieldType)) {
+      const [from = "", to = ""] = current.includes("..") ? current.split("..", 2) : [current, current];
+      const type = field.fieldType === "date" ? "date" : "number";
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type={type}
+            placeholder="From"
+            value={from}
+            onChange={(e) => setDraftValue(field.key, `${e.target.value}..${to}`)}
+            data-testid={`${testId}-from`}
+          />
+          <Input
+            type={type}
+            placeholder="To"
+            value={to}
+            onChange={(e) => setDraftValue(field.key, `${from}..${e.target.value}`)}
+            data-testid={`${testId}-to`}
+          />
+        </div>
+      );
+    }
+
+    if (field.fieldType === "picklist" || field.fieldType === "multi_select" || field.fieldType === "boolean") {
+      const options = field.fieldType === "boolean"
+        ? [{ value: "true", label: "Yes" }, { value: "false", label: "No" }]
+        : field.options.map(o => ({ value: o, label: o }));
+      return (
+        <Select value={current || "all"} onValueChange={(v) => setDraftValue(field.key, v === "all" ? "" : v)}>
+          <SelectTrigger data-testid={testId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any</SelectItem>
+            {options.map(o => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        placeholder={field.fieldType === "lookup" ? `${field.lookupEntity} ID` : "Contains..."}
+        value={current}
+        onChange={(e) => setDraftValue(field.key, e.target.value)}
+        data-testid={testId}
+      />
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-[160px] justify-start"
+          data-testid="button-filter-custom-fields"
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          {activeCount > 0 ? `${activeCount} custom filter(s)` : "Custom Fields"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] space-y-4" align="start">
+        <div className="max-h-[360px] overflow-y-auto space-y-3 pr-1">
+          {fields.map(field => (
+            <div key={field.id} className="space-y-1">
+              <Label className="text-xs">{field.label}</Label>
+              {renderInput(field)}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={handleClear} data-testid="button-clear-custom-filters">
+            Clear
+          </Button>
+          <Button size="sm" onClick={handleApply} data-testid="button-apply-custom-filters">
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, Pencil } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { formatCustomFieldValue, useCustomFields } from "@/hooks/use-custom-fields";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CustomFieldDefinition, CustomFieldEntityType, CustomFieldValues } from "@shared/schema";
+
+const ENTITY_CONFIG: Record<CustomFieldEntityType, { resource: string; permission: string }> = {
+  account: { resource: "accounts", permission: "Account" },
+  contact: { resource: "contacts", permission: "Contact" },
+  lead: { resource: "leads", permission: "Lead" },
+  opportunity: { resource: "opportunities", permission: "Opportunity" },
+  activity: { resource: "activities", permission: "Activity" },
+};
+
+const LOOKUP_PATHS: Record<string, string | undefined> = {
+  account: "/accounts",
+  contact: "/contacts",
+  lead: "/leads",
+  opportunity: "/opportunities",
+};
+
+// Form state keeps text inputs as strings and multi-selects as arrays; blanks
+// are sent as null, which clears the stored value.
+type DraftValue = string | string[];
+
+function toDraft(fields: CustomFieldDefinition[], values: CustomFieldValues): Record<string, DraftValue> {
+  const draft: Record<string, DraftValue> = {};
+  for (const field of fields) {
+    const value = values[field.key];
+    if (field.fieldType === "multi_select") {
+      draft[field.key] = Array.isArray(value) ? value : [];
+    } else {
+      draft[field.key] = value === null || value === undefined ? "" : String(value);
+    }
+  }
+  return draft;
+}
+
+interface CustomFieldsSectionProps {
+  entityType: CustomFieldEntityType;
+  entityId: string;
+  values: CustomFieldValues | null | undefined;
+}
+
+export function CustomFieldsSection({ entityType, entityId, values }: CustomFieldsSectionProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { fields } = useCustomFields(entityType);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, DraftValue>>({});
+  const { resource, permission } = ENTITY_CONFIG[entityType];
+  const current = values ?? {};
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Record<string, DraftValue>) => {
+      const customFields = Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [key, Array.isArray(value) || value.trim() !== "" ? value : null]),
+      );
+      const res = await apiRequest("PATCH", `/api/${resource}/${entityId}`, { customFields });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/${resource}`, entityId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/${resource}`] });
+      setEditing(false);
+      toast({ title: "Custom fields updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update custom fields", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (fields.length === 0) return null;
+
+  const startEditing = () => {
+    setDraft(toDraft(fields, current));
+    setEditing(true);
+  };
+
+  const setValue = (key: string, value: DraftValue) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const renderValue = (field: CustomFieldDefinition) => {
+    const value = current[field.key];
+    const lookupPath = field.lookupEntity ? LOOKUP_PATHS[field.lookupEntity] : undefined;
+    if (field.fieldType === "lookup" && lookupPath && typeof value === "string" && value) {
+      return (
+        <Link href={`${lookupPath}/${value}`} className="text-primary hover:underline">
+          {value}
+        </Link>
+      );
+    }
+    return formatCustomFieldValue(field, value);
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const id = `custom-field-${field.key}`;
+    const value = draft[field.key];
+    switch (field.fieldType) {
+      case "picklist":
+      case "boolean": {
+        const options = field.fieldType === "boolean"
+          ? [{ value: "true", label: "Yes" }, { value: "false", label: "No" }]
+          : field.options.map(o => ({ value: o, label: o }));
+        return (
+          <Select value={(value as string) || "none"} onValueChange={(v) => setValue(field.key, v === "none" ? "" : v)}>
+            <SelectTrigger id={id} data-testid={`select-custom-field-${field.key}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">—</SelectItem>
+              {options.map(o => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case "multi_select": {
+        const selected = value as string[];
+        return (
+          <div className="flex flex-wrap gap-3" data-testid={`checkboxes-custom-field-${field.key}`}>
+            {field.options.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => setValue(
+                    field.key,
+                    checked ? [...selected, option] : selected.filter(o => o !== option),
+                  )}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.fieldType === "date" ? "date" : field.fieldType === "number" || field.fieldType === "currency" ? "number" : "text"}
+            step={field.fieldType === "currency" ? "0.01" : undefined}
+            placeholder={field.fieldType === "lookup" ? `${field.lookupEntity} ID` : undefined}
+            value={value as string}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            data-testid={`input-custom-field-${field.key}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <Card data-testid="section-custom-fields">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Custom Fields</CardTitle>
+        {!editing && can(permission, "update") && (
+          <Button variant="ghost" size="sm" onClick={startEditing} data-testid="button-edit-custom-fields">
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {editing ? (
+          <div className="space-y-4">
+            {fields.map(field => (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`custom-field-${field.key}`}>
+                  {field.label}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                {renderInput(field)}
+                {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+              </div>
+            ))}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditing(false)} disabled={saveMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-custom-fields"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {fields.map(field => (
+              <div key={field.id} className="space-y-1" data-testid={`field-custom-${field.key}`}>
+                <p className="text-sm text-muted-foreground">{field.label}</p>
+                <p className="text-sm font-medium">{renderValue(field)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
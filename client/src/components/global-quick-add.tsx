@@ -11,6 +11,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useSalesProcess } from "@/hooks/use-sales-process";
 import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
 
 const entityTabs = [
@@ -354,7 +355,9 @@ function QuickAddOpportunity({ onSuccess, onCancel, context }: { onSuccess: (id:
   const [name, setName] = useState("");
   const [accountId, setAccountId] = useState(context?.accountId || "");
   const [amount, setAmount] = useState("");
-  const [stage, setStage] = useState("prospecting");
+  const { stages } = useSalesProcess();
+  const [selectedStage, setStage] = useState("");
+  const stage = selectedStage || stages[0]?.key || "";
   const [closeDate, setCloseDate] = useState("");
   const { toast } = useToast();
 
@@ -417,12 +420,9 @@ function QuickAddOpportunity({ onSuccess, onCancel, context }: { onSuccess: (id:
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="prospecting">Prospecting</SelectItem>
-              <SelectItem value="qualification">Qualification</SelectItem>
-              <SelectItem value="proposal">Proposal</SelectItem>
-              <SelectItem value="negotiation">Negotiation</SelectItem>
-              <SelectItem value="closed_won">Closed Won</SelectItem>
-              <SelectItem value="closed_lost">Closed Lost</SelectItem>
+              {stages.map((s) => (
+                <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
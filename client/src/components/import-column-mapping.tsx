@@ -0,0 +1,251 @@
+// Column mapping step of the CSV import page: maps each CSV header to an
+// import field (or ignores it), and loads/saves per-entity mapping templates.
+// Mappings use field names from server/csv-schemas.ts; "cf:<key>" headers
+// pass through to custom fields.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CsvImportEntity, CsvImportMatchField, ImportMappingTemplate } from "@shared/schema";
+
+// Select items can't have an empty value
+export const IGNORE_COLUMN = "__ignore__";
+
+export interface ImportFieldInfo {
+  fields: string[];
+  requiredFields: string[];
+  matchFields: CsvImportMatchField[];
+}
+
+/** header -> field name or IGNORE_COLUMN */
+export type ColumnMapping = Record<string, string>;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Map headers that already name a field (ignoring case and punctuation); ignore the rest. */
+export function autoMapColumns(headers: string[], fields: string[]): ColumnMapping {
+  const byNormalized = new Map(fields.map(field => [normalizeHeader(field), field]));
+  const mapping: ColumnMapping = {};
+  for (const header of headers) {
+    if (header.startsWith("cf:")) {
+      mapping[header] = header;
+    } else {
+      mapping[header] = byNormalized.get(normalizeHeader(header)) ?? IGNORE_COLUMN;
+    }
+  }
+  return mapping;
+}
+
+/** Request form of a mapping: only headers that need renaming, "" to ignore. */
+export function toRequestMapping(mapping: ColumnMapping): Record<string, string> {
+  const request: Record<string, string> = {};
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field === header) continue;
+    request[header] = field === IGNORE_COLUMN ? "" : field;
+  }
+  return request;
+}
+
+/** Parse the header line of a CSV file (quoted headers may contain commas). */
+export function parseCsvHeaders(text: string): string[] {
+  const headers: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      headers.push(current.trim());
+      current = "";
+    } else if (char === "\n" || char === "\r") {
+      break;
+    } else {
+      current += char;
+    }
+  }
+  headers.push(current.trim());
+  return headers.map(header => header.replace(/^\uFEFF/, "")).filter(header => header !== "");
+}
+
+interface ImportColumnMappingProps {
+  entity: CsvImportEntity;
+  headers: string[];
+  fieldInfo: ImportFieldInfo | undefined;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+export function ImportColumnMapping({ entity, headers, fieldInfo, mapping, onChange }: ImportColumnMappingProps) {
+  const { toast } = useToast();
+  const [templateName, setTemplateName] = useState("");
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+
+  const templatesKey = ["/api/import/mapping-templates", `?entity=${entity}`];
+  const { data: templates } = useQuery<ImportMappingTemplate[]>({
+    queryKey: templatesKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/import/mapping-templates?entity=${entity}`);
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const existing = templates?.find(template => template.name === templateName.trim());
+      const body = { name: templateName.trim(), mapping: toRequestMapping(mapping) };
+      const res = existing
+        ? await apiRequest("PATCH", `/api/import/mapping-templates/${existing.id}`, body)
+        : await apiRequest("POST", "/api/import/mapping-templates", { ...body, entity });
+      return res.json() as Promise<ImportMappingTemplate>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      setSelectedTemplateId(template.id);
+      toast({ title: `Saved mapping template "${template.name}"` });
+    },
+    onError: onError("Failed to save template"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/import/mapping-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      setSelectedTemplateId("");
+      toast({ title: "Mapping template deleted" });
+    },
+    onError: onError("Failed to delete template"),
+  });
+
+  const applyTemplate = (id: string) => {
+    const template = templates?.find(t => t.id === id);
+    if (!template) return;
+    setSelectedTemplateId(id);
+    setTemplateName(template.name);
+    const next = { ...mapping };
+    for (const header of headers) {
+      if (Object.prototype.hasOwnProperty.call(template.mapping, header)) {
+        next[header] = template.mapping[header] || IGNORE_COLUMN;
+      }
+    }
+    onChange(next);
+  };
+
+  const fields = fieldInfo?.fields ?? [];
+  const mappedFields = new Set(Object.values(mapping));
+  const missingRequired = (fieldInfo?.requiredFields ?? []).filter(field => !mappedFields.has(field));
+
+  return (
+    <div className="space-y-3" data-testid="import-column-mapping">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-64">
+          <label className="text-sm font-medium mb-2 block">Mapping Template</label>
+          <Select value={selectedTemplateId} onValueChange={applyTemplate}>
+            <SelectTrigger data-testid="select-mapping-template">
+              <SelectValue placeholder={templates?.length ? "Apply a saved mapping" : "No saved mappings"} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates?.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {selectedTemplateId && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => deleteMutation.mutate(selectedTemplateId)}
+            disabled={deleteMutation.isPending}
+            data-testid="button-delete-mapping-template"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <Input
+          className="w-56"
+          placeholder="Template name"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          data-testid="input-mapping-template-name"
+        />
+        <Button
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={!templateName.trim() || saveMutation.isPending}
+          data-testid="button-save-mapping-template"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Mapping
+        </Button>
+      </div>
+
+      {missingRequired.length > 0 && (
+        <p className="text-sm text-muted-foreground" data-testid="text-missing-required">
+          Not mapped: {missingRequired.map(field => <Badge key={field} variant="outline" className="mr-1">{field}</Badge>)}
+          — required when creating records.
+        </p>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>CSV Column</TableHead>
+            <TableHead>Import As</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {headers.map(header => (
+            <TableRow key={header}>
+              <TableCell className="font-mono text-sm">{header}</TableCell>
+              <TableCell>
+                {header.startsWith("cf:") ? (
+                  <span className="text-sm text-muted-foreground">Custom field</span>
+                ) : (
+                  <Select
+                    value={mapping[header] ?? IGNORE_COLUMN}
+                    onValueChange={(field) => onChange({ ...mapping, [header]: field })}
+                  >
+                    <SelectTrigger className="w-64" data-testid={`select-mapping-${header}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE_COLUMN}>Ignore column</SelectItem>
+                      {fields.map(field => (
+                        <SelectItem key={field} value={field}>
+                          {field}{fieldInfo?.requiredFields.includes(field) ? " *" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+// Background import jobs on the CSV import page: live progress for the
+// selected job with pause/resume/cancel, the failed-rows file and rollback,
+// plus a list of recent jobs for the entity.
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Pause, Play, Square, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getOrgHeaders, queryClient } from "@/lib/queryClient";
+import type { CsvImportEntity, ImportJob, ImportJobStatus } from "@shared/schema";
+
+// The API never returns the stored file
+export type ImportJobSummary = Omit<ImportJob, "fileContent">;
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_BADGES: Record<ImportJobStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  queued: { label: "Queued", variant: "outline" },
+  running: { label: "Running", variant: "default" },
+  paused: { label: "Paused", variant: "secondary" },
+  completed: { label: "Completed", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  cancelled: { label: "Cancelled", variant: "secondary" },
+  rolled_back: { label: "Rolled back", variant: "outline" },
+};
+
+const isActive = (status: ImportJobStatus) => status === "queued" || status === "running";
+const canRollBack = (status: ImportJobStatus) => status === "completed" || status === "failed" || status === "cancelled";
+
+export function ImportJobStatusBadge({ status }: { status: ImportJobStatus }) {
+  const badge = STATUS_BADGES[status];
+  return <Badge variant={badge.variant} data-testid={`badge-import-job-${status}`}>{badge.label}</Badge>;
+}
+
+async function downloadErrorFile(job: ImportJobSummary) {
+  const url = `/api/import/jobs/${job.id}/errors.csv`;
+  const response = await fetch(url, { credentials: "include", headers: getOrgHeaders(url) });
+  if (!response.ok) {
+    throw new Error("Failed to download error file");
+  }
+  const blob = await response.blob();
+  const objectUrl = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = `${job.entity}-import-errors.csv`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(objectUrl);
+  document.body.removeChild(a);
+}
+
+export function ImportJobProgress({ jobId }: { jobId: string }) {
+  const { toast } = useToast();
+  const [confirmRollback, setConfirmRollback] = useState(false);
+
+  const { data: job } = useQuery<ImportJobSummary>({
+    queryKey: ["/api/import/jobs", jobId],
+    refetchInterval: (query) => (query.state.data && !isActive(query.state.data.status) ? false : POLL_INTERVAL_MS),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume" | "cancel" | "rollback") => {
+      const res = await apiRequest("POST", `/api/import/jobs/${jobId}/${action}`);
+      return res.json() as Promise<ImportJobSummary>;
+    },
+    onSuccess: (updated, action) => {
+      queryClient.setQueryData(["/api/import/jobs", jobId], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/import/jobs"] });
+      if (action === "rollback") {
+        toast({ title: "Import rolled back", description: `${updated.rolledBackCount ?? 0} record(s) deleted` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import job action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!job) return null;
+
+  const percent = job.totalRows > 0 ? Math.min(100, Math.floor((job.processedRows / job.totalRows) * 100)) : 100;
+
+  return (
+    <Card data-testid="card-import-job">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              Import Job <ImportJobStatusBadge status={job.status} />
+            </CardTitle>
+            <CardDescription>
+              {job.fileName ?? "CSV file"} · {job.entity}{job.source === "dynamics" ? " · from Dynamics 365" : ""}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {isActive(job.status) && (
+              <Button variant="outline" size="sm" onClick={() => actionMutation.mutate("pause")} disabled={actionMutation.isPending} data-testid="button-pause-import">
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+            )}
+            {job.status === "paused" && (
+              <Button variant="outline" size="sm" onClick={() => actionMutation.mutate("resume")} disabled={actionMutation.isPending} data-testid="button-resume-import">
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            )}
+            {(isActive(job.status) || job.status === "paused") && (
+              <Button variant="outline" size="sm" onClick={() => actionMutation.mutate("cancel")} disabled={actionMutation.isPending} data-testid="button-cancel-import">
+                <Square className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+            {job.failedCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadErrorFile(job).catch((error: Error) => {
+                  toast({ title: "Download failed", description: error.message, variant: "destructive" });
+                })}
+                data-testid="button-download-import-errors"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Failed Rows
+              </Button>
+            )}
+            {canRollBack(job.status) && job.createdCount > 0 && (
+              <Button variant="destructive" size="sm" onClick={() => setConfirmRollback(true)} disabled={actionMutation.isPending} data-testid="button-rollback-import">
+                <Undo2 className="h-4 w-4 mr-2" />
+                Roll Back
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={percent} data-testid="progress-import-job" />
+        <p className="text-sm text-muted-foreground" data-testid="text-import-job-progress">
+          {job.processedRows} of {job.totalRows} rows processed ({percent}%)
+        </p>
+        <div className="flex flex-wrap gap-4 text-sm">
+          <span><strong>{job.createdCount}</strong> created</span>
+          <span><strong>{job.updatedCount}</strong> updated</span>
+          <span><strong>{job.unchangedCount}</strong> unchanged</span>
+          <span><strong>{job.skippedCount}</strong> skipped</span>
+          <span className={job.failedCount > 0 ? "text-destructive" : undefined}><strong>{job.failedCount}</strong> failed</span>
+        </div>
+        {job.errorMessage && (
+          <p className="text-sm text-destructive" data-testid="text-import-job-error">{job.errorMessage}</p>
+        )}
+        {job.status === "rolled_back" && (
+          <p className="text-sm text-muted-foreground">
+            {job.rolledBackCount ?? 0} created record(s) were deleted. Updates made by this import were kept.
+          </p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRollback} onOpenChange={setConfirmRollback}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the {job.createdCount} {job.entity} created by this import. Records it updated keep their new values.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => actionMutation.mutate("rollback")} data-testid="button-confirm-rollback-import">
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface RecentImportJobsProps {
+  entity: CsvImportEntity;
+  selectedJobId: string | null;
+  onSelect: (jobId: string) => void;
+}
+
+export function RecentImportJobs({ entity, selectedJobId, onSelect }: RecentImportJobsProps) {
+  const { data: jobs } = useQuery<ImportJobSummary[]>({
+    queryKey: ["/api/import/jobs", `?entity=${entity}`],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/import/jobs?entity=${entity}`);
+      return res.json();
+    },
+    refetchInterval: (query) => (query.state.data?.some(job => isActive(job.status)) ? POLL_INTERVAL_MS : false),
+  });
+
+  if (!jobs || jobs.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent Imports</CardTitle>
+        <CardDescription>Select an import to see its progress, download failed rows or roll it back</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table data-testid="table-import-jobs">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Rows</TableHead>
+              <TableHead>Created / Updated / Failed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map(job => (
+              <TableRow
+                key={job.id}
+                className={`cursor-pointer ${job.id === selectedJobId ? "bg-muted" : ""}`}
+                onClick={() => onSelect(job.id)}
+                data-testid={`row-import-job-${job.id}`}
+              >
+                <TableCell className="text-sm">{new Date(job.createdAt).toLocaleString()}</TableCell>
+                <TableCell className="text-sm">{job.fileName ?? "—"}</TableCell>
+                <TableCell><ImportJobStatusBadge status={job.status} /></TableCell>
+                <TableCell className="text-sm">{job.processedRows} / {job.totalRows}</TableCell>
+                <TableCell className="text-sm">{job.createdCount} / {job.updatedCount} / {job.failedCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
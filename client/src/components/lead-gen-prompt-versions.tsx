@@ -0,0 +1,45 @@
+import { Link } from "wouter";
+import { FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LEAD_GEN_PROMPT_KEYS, type LeadGenPromptKey, type LeadGenRunPromptTemplates } from "@shared/schema";
+
+export const PROMPT_TEMPLATE_LABELS: Record<LeadGenPromptKey, string> = {
+  market_research: "Market Research",
+  company_discovery: "Company Discovery",
+  contact_discovery: "Contact Discovery",
+  strategy: "Strategy",
+  communication_drafting: "Communication Drafting — single plan",
+  communication_drafting_playbook: "Communication Drafting — playbook steps",
+};
+
+export function promptVersionLabel(version: number | null | undefined): string {
+  return version == null ? "Built-in" : `v${version}`;
+}
+
+/** Which prompt template version each of a run's prompts was rendered from; hidden before any phase ran. */
+export function RunPromptTemplatesCard({ versions }: { versions: LeadGenRunPromptTemplates | null | undefined }) {
+  const keys = LEAD_GEN_PROMPT_KEYS.filter(key => versions && key in versions);
+  if (!versions || keys.length === 0) return null;
+
+  return (
+    <Card data-testid="run-prompt-templates">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          Prompt templates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+        {keys.map(key => (
+          <Link key={key} href={`/lead-gen/prompts?prompt=${key}`}>
+            <span className="inline-flex items-center gap-2 hover:underline cursor-pointer" data-testid={`run-prompt-template-${key}`}>
+              {PROMPT_TEMPLATE_LABELS[key]}
+              <Badge variant={versions[key] == null ? "outline" : "secondary"}>{promptVersionLabel(versions[key])}</Badge>
+            </span>
+          </Link>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
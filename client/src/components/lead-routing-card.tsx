@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { Route } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { LeadRoutingLogEntry, LeadRoutingTrigger } from "@shared/schema";
+
+type LeadRoutingEntry = LeadRoutingLogEntry & { assignedToName: string | null; actorName: string | null };
+
+export const ROUTING_TRIGGER_LABELS: Record<LeadRoutingTrigger, string> = {
+  ui: "Created in the CRM",
+  import: "CSV import",
+  external_api: "External API",
+  lead_gen: "Lead generation approval",
+  rerun: "Rules re-run",
+};
+
+/** Why the assignment rules routed a lead where they did; hidden for leads never routed. */
+export function LeadRoutingCard({ leadId }: { leadId: string }) {
+  const { data: entries } = useQuery<LeadRoutingEntry[]>({
+    queryKey: ["/api/leads", leadId, "routing"],
+  });
+  if (!entries || entries.length === 0) return null;
+
+  return (
+    <Card data-testid="card-lead-routing">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Routing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map(entry => (
+          <div key={entry.id} className="space-y-1" data-testid={`routing-entry-${entry.id}`}>
+            <p className="text-sm">{entry.reason}</p>
+            <p className="text-xs text-muted-foreground">
+              {ROUTING_TRIGGER_LABELS[entry.trigger] ?? entry.trigger}
+              {entry.actorName ? ` by ${entry.actorName}` : ""} · {new Date(entry.createdAt).toLocaleString()}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
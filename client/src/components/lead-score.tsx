@@ -0,0 +1,89 @@
+import { Gauge } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { LeadScoreBreakdown, LeadScoreFactor } from "@shared/schema";
+
+function scoreColor(score: number): string {
+  if (score >= 70) return "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-800";
+  if (score >= 40) return "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800";
+  return "bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700";
+}
+
+function FactorList({ title, factors }: { title: string; factors: LeadScoreFactor[] }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium uppercase text-muted-foreground">{title}</p>
+      {factors.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        factors.map((factor, i) => (
+          <div key={i} className="flex justify-between gap-4 text-sm">
+            <span>{factor.label}</span>
+            <span className="font-medium tabular-nums">{factor.points > 0 ? `+${factor.points}` : factor.points}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+function Breakdown({ breakdown }: { breakdown: LeadScoreBreakdown }) {
+  return (
+    <div className="space-y-3">
+      <FactorList title="Fit" factors={breakdown.fit} />
+      <FactorList title="Engagement" factors={breakdown.engagement} />
+    </div>
+  );
+}
+
+/** Score badge for lead lists; hovering shows how the score was reached. */
+export function LeadScoreBadge({ score, breakdown }: { score: number | null | undefined; breakdown?: LeadScoreBreakdown | null }) {
+  if (score === null || score === undefined) return <span className="text-muted-foreground">-</span>;
+  const badge = <Badge className={`border tabular-nums ${scoreColor(score)}`}>{score}</Badge>;
+  if (!breakdown) return badge;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span>{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="w-64">
+        <Breakdown breakdown={breakdown} />
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/** Lead score with its full breakdown, for the lead detail page. */
+export function LeadScoreCard({ score, breakdown, scoredAt }: {
+  score: number | null | undefined;
+  breakdown: LeadScoreBreakdown | null | undefined;
+  scoredAt: string | Date | null | undefined;
+}) {
+  return (
+    <Card data-testid="card-lead-score">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Lead Score
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {score === null || score === undefined ? (
+          <p className="text-sm text-muted-foreground">Not scored yet</p>
+        ) : (
+          <>
+            <div className="flex items-baseline gap-2">
+              <span className="text-3xl font-semibold tabular-nums" data-testid="text-lead-score">{score}</span>
+              <span className="text-sm text-muted-foreground">/ 100</span>
+            </div>
+            {breakdown && <Breakdown breakdown={breakdown} />}
+            {scoredAt && (
+              <p className="text-xs text-muted-foreground">Scored {new Date(scoredAt).toLocaleString()}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { TagFilterButton } from "@/components/tag-filter-button";
+import { CustomFieldFilterButton } from "@/components/custom-field-filter-button";
 
 interface User {
   id: string;
@@ -21,6 +22,7 @@ interface LeadFilters {
   rating: string;
   ownerId: string;
   tagIds: string[];
+  customFields: Record<string, string>;
 }
 
 interface LeadsFilterBarProps {
@@ -38,6 +40,7 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
   const [rating, setRating] = useState(initialFilters?.rating ?? "");
   const [ownerId, setOwnerId] = useState(initialFilters?.ownerId ?? "");
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(initialFilters?.tagIds ?? []);
+  const [customFields, setCustomFields] = useState<Record<string, string>>(initialFilters?.customFields ?? {});
 
   const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const onFilterChangeRef = useRef(onFilterChange);
@@ -53,6 +56,8 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
   ownerIdRef.current = ownerId;
   const selectedTagIdsRef = useRef(selectedTagIds);
   selectedTagIdsRef.current = selectedTagIds;
+  const customFieldsRef = useRef(customFields);
+  customFieldsRef.current = customFields;
 
   const { data: users } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -67,48 +72,54 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
       rating: initialFilters?.rating ?? "",
       ownerId: initialFilters?.ownerId ?? "",
       tagIds: initialFilters?.tagIds ?? [],
+      customFields: initialFilters?.customFields ?? {},
     });
   }, []);
 
-  const notify = (newSearch: string, newStatus: string, newSource: string, newRating: string, newOwnerId: string, newTagIds: string[]) => {
-    onFilterChangeRef.current({ search: newSearch, status: newStatus, source: newSource, rating: newRating, ownerId: newOwnerId, tagIds: newTagIds });
+  const notify = (newSearch: string, newStatus: string, newSource: string, newRating: string, newOwnerId: string, newTagIds: string[], newCustomFields: Record<string, string>) => {
+    onFilterChangeRef.current({ search: newSearch, status: newStatus, source: newSource, rating: newRating, ownerId: newOwnerId, tagIds: newTagIds, customFields: newCustomFields });
   };
 
   const handleSearchChange = (value: string) => {
     setSearch(value);
     if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
     searchTimerRef.current = setTimeout(() => {
-      notify(value, statusRef.current, sourceRef.current, ratingRef.current, ownerIdRef.current, selectedTagIdsRef.current);
+      notify(value, statusRef.current, sourceRef.current, ratingRef.current, ownerIdRef.current, selectedTagIdsRef.current, customFieldsRef.current);
     }, 300);
   };
 
   const handleStatusChange = (value: string) => {
     const newStatus = value === "all" ? "" : value;
     setStatus(newStatus);
-    notify(search, newStatus, source, rating, ownerId, selectedTagIds);
+    notify(search, newStatus, source, rating, ownerId, selectedTagIds, customFields);
   };
 
   const handleSourceChange = (value: string) => {
     const newSource = value === "all" ? "" : value;
     setSource(newSource);
-    notify(search, status, newSource, rating, ownerId, selectedTagIds);
+    notify(search, status, newSource, rating, ownerId, selectedTagIds, customFields);
   };
 
   const handleRatingChange = (value: string) => {
     const newRating = value === "all" ? "" : value;
     setRating(newRating);
-    notify(search, status, source, newRating, ownerId, selectedTagIds);
+    notify(search, status, source, newRating, ownerId, selectedTagIds, customFields);
   };
 
   const handleOwnerChange = (value: string) => {
     const newOwner = value === "all" ? "" : value;
     setOwnerId(newOwner);
-    notify(search, status, source, rating, newOwner, selectedTagIds);
+    notify(search, status, source, rating, newOwner, selectedTagIds, customFields);
   };
 
   const handleTagIdsChange = (newTagIds: string[]) => {
     setSelectedTagIds(newTagIds);
-    notify(search, status, source, rating, ownerId, newTagIds);
+    notify(search, status, source, rating, ownerId, newTagIds, customFields);
+  };
+
+  const handleCustomFieldsChange = (newCustomFields: Record<string, string>) => {
+    setCustomFields(newCustomFields);
+    notify(search, status, source, rating, ownerId, selectedTagIds, newCustomFields);
   };
 
   const handleClearFilters = () => {
@@ -119,7 +130,8 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
     setRating("");
     setOwnerId("");
     setSelectedTagIds([]);
-    notify("", "", "", "", "", []);
+    setCustomFields({});
+    notify("", "", "", "", "", [], {});
   };
 
   const handleMyLeads = () => {
@@ -128,7 +140,7 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
     setStatus("");
     setSource("");
     setRating("");
-    notify(search, "", "", "", newOwner, selectedTagIds);
+    notify(search, "", "", "", newOwner, selectedTagIds, customFields);
   };
 
   const handleHotLeads = () => {
@@ -136,7 +148,7 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
     setOwnerId("");
     setStatus("");
     setSource("");
-    notify(search, "", "", "hot", "", selectedTagIds);
+    notify(search, "", "", "hot", "", selectedTagIds, customFields);
   };
 
   const handleQualified = () => {
@@ -144,7 +156,7 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
     setOwnerId("");
     setSource("");
     setRating("");
-    notify(search, "qualified", "", "", "", selectedTagIds);
+    notify(search, "qualified", "", "", "", selectedTagIds, customFields);
   };
 
   const handleAllLeads = () => {
@@ -153,10 +165,11 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
     setSource("");
     setRating("");
     setSelectedTagIds([]);
-    notify(search, "", "", "", "", []);
+    setCustomFields({});
+    notify(search, "", "", "", "", [], {});
   };
 
-  const hasActiveFilters = search || status || source || rating || ownerId || selectedTagIds.length > 0;
+  const hasActiveFilters = search || status || source || rating || ownerId || selectedTagIds.length > 0 || Object.keys(customFields).length > 0;
 
   return (
     <div className="space-y-4" data-testid="leads-filter-bar">
@@ -235,6 +248,12 @@ export function LeadsFilterBar({ onFilterChange, totalCount, filteredCount, init
           onTagIdsChange={handleTagIdsChange}
         />
 
+        <CustomFieldFilterButton
+          entityType="lead"
+          value={customFields}
+          onChange={handleCustomFieldsChange}
+        />
+
         {hasActiveFilters && (
           <Button
             variant="outline"
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Coins, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getOrgHeaders } from "@/lib/queryClient";
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+interface OrganizationLlmUsage {
+  from: string;
+  to: string;
+  totals: LlmUsageTotals;
+  bySource: Array<{ source: string } & LlmUsageTotals>;
+  byPhase: Array<{ phase: string | null } & LlmUsageTotals>;
+  byUser: Array<{ userId: string | null; userName: string | null } & LlmUsageTotals>;
+  byRun: Array<{ runId: string; runName: string | null } & LlmUsageTotals>;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  lead_gen: "Lead generation",
+  contact_research: "Contact research",
+};
+
+const PHASE_LABELS: Record<string, string> = {
+  market_research: "Market Research",
+  company_discovery: "Company Discovery",
+  contact_discovery: "Contact Discovery",
+  strategy: "Strategy",
+  communication_drafting: "Communication Drafting",
+};
+
+/** Sub-cent amounts keep four decimals so a handful of cheap calls doesn't read as $0.00. */
+export function formatCostUsd(value: number): string {
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function UsageTable({ title, label, rows, testid, onRowClick }: {
+  title: string;
+  label: string;
+  rows: Array<{ key: string; name: string } & LlmUsageTotals>;
+  testid: string;
+  onRowClick?: (key: string) => void;
+}) {
+  return (
+    <Card data-testid={testid}>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No AI usage in this range.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-4 font-medium text-muted-foreground">{label}</th>
+                  <th className="text-right py-2 px-4 font-medium text-muted-foreground">Calls</th>
+                  <th className="text-right py-2 px-4 font-medium text-muted-foreground">Prompt</th>
+                  <th className="text-right py-2 px-4 font-medium text-muted-foreground">Completion</th>
+                  <th className="text-right py-2 px-4 font-medium text-muted-foreground">Reasoning</th>
+                  <th className="text-right py-2 px-4 font-medium text-muted-foreground">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.key}
+                    className={`border-b ${onRowClick ? "hover-elevate cursor-pointer" : ""}`}
+                    onClick={onRowClick ? () => onRowClick(row.key) : undefined}
+                    data-testid={`${testid}-row-${row.key}`}
+                  >
+                    <td className="py-2 px-4 font-medium">{row.name}</td>
+                    <td className="py-2 px-4 text-right tabular-nums">{row.calls}</td>
+                    <td className="py-2 px-4 text-right tabular-nums">{row.promptTokens.toLocaleString()}</td>
+                    <td className="py-2 px-4 text-right tabular-nums">{row.completionTokens.toLocaleString()}</td>
+                    <td className="py-2 px-4 text-right tabular-nums text-muted-foreground">{row.reasoningTokens.toLocaleString()}</td>
+                    <td className="py-2 px-4 text-right tabular-nums font-medium">{formatCostUsd(row.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function LlmUsageReport({ onOpenRun }: { onOpenRun?: (runId: string) => void }) {
+  const now = new Date();
+  const [from, setFrom] = useState(isoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))));
+  const [to, setTo] = useState(isoDate(now));
+
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data, isLoading, error } = useQuery<OrganizationLlmUsage>({
+    queryKey: ["/api/lead-gen/reports/llm-usage", params.toString()],
+    queryFn: async () => {
+      const usageUrl = `/api/lead-gen/reports/llm-usage?${params.toString()}`;
+      const res = await fetch(usageUrl, { credentials: "include", headers: getOrgHeaders(usageUrl) });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to load AI usage");
+      }
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-4 flex-wrap">
+        <div className="space-y-1">
+          <Label htmlFor="llm-usage-from">From</Label>
+          <Input id="llm-usage-from" type="date" className="w-40" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-llm-usage-from" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="llm-usage-to">To</Label>
+          <Input id="llm-usage-to" type="date" className="w-40" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-llm-usage-to" />
+        </div>
+        <p className="text-xs text-muted-foreground pb-2">Costs are estimates from the model price table in Admin Console → AI Configuration.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center text-destructive">{(error as Error).message}</CardContent>
+        </Card>
+      ) : data && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {[
+              { label: "AI Calls", value: data.totals.calls.toLocaleString(), testid: "stat-llm-calls" },
+              { label: "Tokens", value: data.totals.totalTokens.toLocaleString(), testid: "stat-llm-tokens" },
+              { label: "Reasoning Tokens", value: data.totals.reasoningTokens.toLocaleString(), testid: "stat-llm-reasoning" },
+              { label: "Estimated Cost", value: formatCostUsd(data.totals.costUsd), testid: "stat-llm-cost" },
+            ].map(stat => (
+              <Card key={stat.label} data-testid={stat.testid}>
+                <CardContent className="pt-4 pb-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Coins className="h-4 w-4 text-muted-foreground" />
+                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  </div>
+                  <p className="text-2xl font-bold tabular-nums">{stat.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <UsageTable
+              title="By Feature"
+              label="Feature"
+              testid="table-llm-usage-source"
+              rows={data.bySource.map(row => ({ ...row, key: row.source, name: SOURCE_LABELS[row.source] ?? row.source }))}
+            />
+            <UsageTable
+              title="By Lead Gen Phase"
+              label="Phase"
+              testid="table-llm-usage-phase"
+              rows={data.byPhase.map(row => ({ ...row, key: row.phase ?? "none", name: row.phase ? PHASE_LABELS[row.phase] ?? row.phase : "—" }))}
+            />
+          </div>
+          <UsageTable
+            title="By User"
+            label="User"
+            testid="table-llm-usage-user"
+            rows={data.byUser.map(row => ({ ...row, key: row.userId ?? "none", name: row.userName ?? (row.userId ? "Unknown user" : "System") }))}
+          />
+          <UsageTable
+            title="By Run"
+            label="Run"
+            testid="table-llm-usage-run"
+            rows={data.byRun.map(row => ({ ...row, key: row.runId, name: row.runName ?? "Deleted run" }))}
+            onRowClick={onOpenRun}
+          />
+        </>
+      )}
+    </div>
+  );
+}
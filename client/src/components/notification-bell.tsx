@@ -0,0 +1,292 @@
+// In-app notification center — bell in the app header with an unread badge,
+// an inbox popover and a preferences dialog for choosing which notification
+// types to receive and the email digest frequency. The unread count is polled;
+// the list loads when opened.
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EMAIL_DIGEST_FREQUENCIES, type EmailDigestFrequency, type Notification, type NotificationType } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 60_000;
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  mention: { label: "Mentions", description: "Someone @mentions you in a comment" },
+  comment_reply: { label: "Thread replies", description: "New replies on comment threads you follow" },
+  record_assigned: { label: "Assignments", description: "A record is assigned to you" },
+  activity_overdue: { label: "Overdue activities", description: "One of your activities passes its due date" },
+  lead_gen_run_completed: { label: "Lead generation finished", description: "A lead generation run you own completes" },
+  lead_gen_run_failed: { label: "Lead generation failed", description: "A lead generation run you own stops with an error" },
+  llm_budget_warning: { label: "AI budget warnings", description: "Your organization's AI usage nears its monthly budget" },
+};
+
+type NotificationPreferences = {
+  disabledTypes: NotificationType[];
+  emailDigest: EmailDigestFrequency;
+  types: NotificationType[];
+  emailConfigured: boolean;
+};
+
+const DIGEST_LABELS: Record<EmailDigestFrequency, string> = {
+  off: "Off",
+  daily: "Daily",
+  weekly: "Weekly (Mondays)",
+};
+
+function invalidateNotifications() {
+  queryClient.invalidateQueries({
+    predicate: q => typeof q.queryKey[0] === "string" && q.queryKey[0].startsWith("/api/notifications"),
+  });
+}
+
+function NotificationPreferencesDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notifications/preferences"],
+    enabled: open,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: Partial<Pick<NotificationPreferences, "disabledTypes" | "emailDigest">>) => {
+      const res = await apiRequest("PUT", "/api/notifications/preferences", changes);
+      return res.json();
+    },
+    onSuccess: (data: NotificationPreferences) => {
+      queryClient.setQueryData(["/api/notifications/preferences"], data);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save preferences", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disabled = preferences?.disabledTypes ?? [];
+  const toggle = (type: NotificationType, enabled: boolean) => {
+    const next = enabled ? disabled.filter(t => t !== type) : [...disabled, type];
+    updateMutation.mutate({ disabledTypes: next });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-notification-preferences">
+        <DialogHeader>
+          <DialogTitle>Notification preferences</DialogTitle>
+          <DialogDescription>Choose which events show up in your notification inbox and whether to get an email summary.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {(preferences?.types ?? (Object.keys(TYPE_LABELS) as NotificationType[])).map(type => (
+            <div key={type} className="flex items-start justify-between gap-4">
+              <div>
+                <Label htmlFor={`notification-pref-${type}`}>{TYPE_LABELS[type]?.label ?? type}</Label>
+                <p className="text-xs text-muted-foreground">{TYPE_LABELS[type]?.description}</p>
+              </div>
+              <Switch
+                id={`notification-pref-${type}`}
+                checked={!disabled.includes(type)}
+                disabled={!preferences || updateMutation.isPending}
+                onCheckedChange={checked => toggle(type, checked)}
+                data-testid={`switch-notification-pref-${type}`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex items-start justify-between gap-4 border-t pt-4">
+          <div>
+            <Label htmlFor="notification-pref-email-digest">Email digest</Label>
+            <p className="text-xs text-muted-foreground">
+              Overdue and upcoming activities, past-due opportunities, new external leads and mentions
+            </p>
+            {preferences && !preferences.emailConfigured && (
+              <p className="text-xs text-amber-600 mt-1" data-testid="text-email-not-configured">
+                Email delivery isn't configured on this server yet.
+              </p>
+            )}
+          </div>
+          <Select
+            value={preferences?.emailDigest ?? "off"}
+            disabled={!preferences || updateMutation.isPending}
+            onValueChange={value => updateMutation.mutate({ emailDigest: value as EmailDigestFrequency })}
+          >
+            <SelectTrigger id="notification-pref-email-digest" className="w-40" data-testid="select-email-digest">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EMAIL_DIGEST_FREQUENCIES.map(frequency => (
+                <SelectItem key={frequency} value={frequency}>{DIGEST_LABELS[frequency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [, setLocation] = useLocation();
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+  const { data: notifications = [], isLoading } = useQuery<Notification[]>({
+    queryKey: [unreadOnly ? "/api/notifications?unread=true" : "/api/notifications"],
+    enabled: open,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async ({ id, read }: { id: string; read: boolean }) => {
+      await apiRequest("PATCH", `/api/notifications/${id}`, { read });
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const markAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/mark-all-read");
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const unreadCount = unread?.count ?? 0;
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) markReadMutation.mutate({ id: notification.id, read: true });
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative text-muted-foreground hover:text-foreground"
+            aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+            data-testid="button-notifications"
+          >
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span
+                className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-[1.125rem] text-center"
+                data-testid="badge-notifications-unread"
+              >
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0" data-testid="popover-notifications">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="font-semibold text-sm">Notifications</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setUnreadOnly(v => !v)}
+                data-testid="button-notifications-filter"
+              >
+                {unreadOnly ? "Show all" : "Unread only"}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={unreadCount === 0 || markAllMutation.isPending}
+                onClick={() => markAllMutation.mutate()}
+                data-testid="button-notifications-mark-all-read"
+              >
+                <CheckCheck className="h-3.5 w-3.5 mr-1" />
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Notification preferences"
+                onClick={() => {
+                  setOpen(false);
+                  setPreferencesOpen(true);
+                }}
+                data-testid="button-notification-preferences"
+              >
+                <Settings className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+          <ScrollArea className="max-h-96">
+            {isLoading ? (
+              <p className="p-4 text-sm text-muted-foreground">Loading…</p>
+            ) : notifications.length === 0 ? (
+              <p className="p-6 text-sm text-center text-muted-foreground" data-testid="text-notifications-empty">
+                {unreadOnly ? "No unread notifications" : "You're all caught up"}
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {notifications.map(notification => (
+                  <li
+                    key={notification.id}
+                    className={cn("flex gap-2 px-4 py-3 hover:bg-muted/50", !notification.readAt && "bg-primary/5")}
+                    data-testid={`notification-${notification.id}`}
+                  >
+                    <button type="button" className="flex-1 text-left min-w-0" onClick={() => openNotification(notification)}>
+                      <p className={cn("text-sm", !notification.readAt && "font-medium")}>{notification.title}</p>
+                      {notification.body && (
+                        <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </button>
+                    <button
+                      type="button"
+                      className="self-start mt-1.5"
+                      title={notification.readAt ? "Mark as unread" : "Mark as read"}
+                      aria-label={notification.readAt ? "Mark as unread" : "Mark as read"}
+                      onClick={() => markReadMutation.mutate({ id: notification.id, read: !notification.readAt })}
+                      data-testid={`button-notification-toggle-read-${notification.id}`}
+                    >
+                      <span className={cn("block h-2 w-2 rounded-full", notification.readAt ? "border border-muted-foreground/40" : "bg-primary")} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+      <NotificationPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+}
@@ -0,0 +1,381 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Edit2, Package, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PRODUCT_BILLING_TYPES, type OpportunityLineItem, type PriceBook, type Product, type ProductBillingType } from "@shared/schema";
+
+interface LineItemSummary {
+  itemCount: number;
+  oneTimeTotal: number;
+  recurringMonthly: number;
+  annualRecurring: number;
+  recurringTotal: number;
+  total: number;
+}
+
+interface LineItemsResponse {
+  lineItems: OpportunityLineItem[];
+  summary: LineItemSummary;
+  rollUpLineItems: boolean;
+  amount: string | null;
+}
+
+interface OpportunityLineItemsProps {
+  opportunityId: string;
+  priceBookId: string | null;
+  canEdit: boolean;
+}
+
+interface LineItemForm {
+  productId: string;
+  name: string;
+  quantity: string;
+  unitPrice: string;
+  discountPercent: string;
+  billingType: ProductBillingType;
+  termMonths: string;
+}
+
+const CUSTOM_ITEM = "__custom__";
+const DEFAULT_BOOK = "__default__";
+
+const EMPTY_FORM: LineItemForm = { productId: CUSTOM_ITEM, name: "", quantity: "1", unitPrice: "", discountPercent: "0", billingType: "one_time", termMonths: "" };
+
+const BILLING_LABELS: Record<ProductBillingType, string> = {
+  one_time: "One-time",
+  recurring: "Recurring",
+};
+
+const formatCurrency = (value: string | number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Number(value));
+
+/** Product line items with one-time/recurring totals and the amount roll-up toggle. */
+export function OpportunityLineItems({ opportunityId, priceBookId, canEdit }: OpportunityLineItemsProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<OpportunityLineItem | null>(null);
+  const [form, setForm] = useState<LineItemForm>(EMPTY_FORM);
+
+  const { data } = useQuery<LineItemsResponse>({
+    queryKey: ["/api/opportunities", opportunityId, "line-items"],
+  });
+  const { data: products = [] } = useQuery<Product[]>({ queryKey: ["/api/products"], enabled: canEdit });
+  const { data: priceBooks = [] } = useQuery<Array<PriceBook & { entries: Array<{ productId: string; unitPrice: string }> }>>({
+    queryKey: ["/api/price-books"],
+    enabled: canEdit,
+  });
+
+  const activeBook = priceBooks.find(book => book.id === priceBookId) ?? priceBooks.find(book => book.isDefault);
+
+  const onChanged = (result: LineItemsResponse) => {
+    queryClient.setQueryData(["/api/opportunities", opportunityId, "line-items"], result);
+    // The roll-up may have changed the amount and stage history
+    queryClient.invalidateQueries({ queryKey: ["/api/opportunities", opportunityId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LineItemForm) => {
+      const body: Record<string, unknown> = {
+        name: values.name.trim() || undefined,
+        quantity: Number(values.quantity),
+        discountPercent: Number(values.discountPercent || 0),
+        billingType: values.billingType,
+        termMonths: values.billingType === "recurring" && values.termMonths ? Number(values.termMonths) : null,
+      };
+      if (values.unitPrice !== "") body.unitPrice = Number(values.unitPrice);
+      const res = editing
+        ? await apiRequest("PATCH", `/api/opportunities/${opportunityId}/line-items/${editing.id}`, body)
+        : await apiRequest("POST", `/api/opportunities/${opportunityId}/line-items`, {
+          ...body,
+          productId: values.productId === CUSTOM_ITEM ? null : values.productId,
+        });
+      return res.json();
+    },
+    onSuccess: (result: LineItemsResponse) => {
+      onChanged(result);
+      setDialogOpen(false);
+      toast({ title: editing ? "Line item updated" : "Line item added" });
+    },
+    onError: onError("Failed to save line item"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const res = await apiRequest("DELETE", `/api/opportunities/${opportunityId}/line-items/${itemId}`);
+      return res.json();
+    },
+    onSuccess: onChanged,
+    onError: onError("Failed to delete line item"),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (patch: { rollUpLineItems?: boolean; priceBookId?: string | null }) => {
+      await apiRequest("PATCH", `/api/opportunities/${opportunityId}`, patch);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities", opportunityId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
+    },
+    onError: onError("Failed to update opportunity"),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (item: OpportunityLineItem) => {
+    setEditing(item);
+    setForm({
+      productId: item.productId ?? CUSTOM_ITEM,
+      name: item.name,
+      quantity: String(Number(item.quantity)),
+      unitPrice: String(Number(item.unitPrice)),
+      discountPercent: String(Number(item.discountPercent)),
+      billingType: item.billingType,
+      termMonths: item.termMonths ? String(item.termMonths) : "",
+    });
+    setDialogOpen(true);
+  };
+
+  const selectProduct = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) {
+      setForm({ ...form, productId: CUSTOM_ITEM });
+      return;
+    }
+    const entry = activeBook?.entries.find(e => e.productId === productId);
+    setForm({
+      ...form,
+      productId,
+      name: product.name,
+      unitPrice: entry ? String(Number(entry.unitPrice)) : "",
+      billingType: product.billingType,
+      termMonths: product.defaultTermMonths ? String(product.defaultTermMonths) : "",
+    });
+  };
+
+  const lineItems = data?.lineItems ?? [];
+  const summary = data?.summary;
+  const isCustom = form.productId === CUSTOM_ITEM;
+  const canSave = Number(form.quantity) > 0 && (isCustom ? !!form.name.trim() && form.unitPrice !== "" : true);
+
+  return (
+    <Card data-testid="section-line-items">
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-4 w-4" />
+            Products
+          </CardTitle>
+          <CardDescription>Recurring items are priced per month over their term</CardDescription>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={openCreate} data-testid="button-add-line-item">
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lineItems.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-line-items">No products on this opportunity yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Unit price</TableHead>
+                <TableHead className="text-right">Discount</TableHead>
+                <TableHead>Billing</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lineItems.map(item => (
+                <TableRow key={item.id} data-testid={`row-line-item-${item.id}`}>
+                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell className="text-right">{Number(item.quantity)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.unitPrice)}{item.billingType === "recurring" && "/mo"}</TableCell>
+                  <TableCell className="text-right">{Number(item.discountPercent) ? `${Number(item.discountPercent)}%` : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{BILLING_LABELS[item.billingType]}</Badge>
+                    {item.billingType === "recurring" && (
+                      <span className="ml-1 text-xs text-muted-foreground">{item.termMonths ?? 12} mo</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium" data-testid={`text-line-item-total-${item.id}`}>{formatCurrency(item.totalPrice)}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={() => openEdit(item)} data-testid={`button-edit-line-item-${item.id}`}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(item.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-line-item-${item.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+            {summary && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={5}>Total</TableCell>
+                  <TableCell className="text-right" data-testid="text-line-items-total">{formatCurrency(summary.total)}</TableCell>
+                  {canEdit && <TableCell />}
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        )}
+
+        {summary && summary.itemCount > 0 && (
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground" data-testid="text-line-items-summary">
+            <span>One-time {formatCurrency(summary.oneTimeTotal)}</span>
+            <span>MRR {formatCurrency(summary.recurringMonthly)}</span>
+            <span>ARR {formatCurrency(summary.annualRecurring)}</span>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="grid gap-4 border-t pt-3 sm:grid-cols-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="roll-up-line-items"
+                checked={data?.rollUpLineItems ?? false}
+                onCheckedChange={(rollUpLineItems) => settingsMutation.mutate({ rollUpLineItems })}
+                disabled={settingsMutation.isPending}
+                data-testid="switch-roll-up-line-items"
+              />
+              <Label htmlFor="roll-up-line-items">Set amount from line item total</Label>
+            </div>
+            <div className="space-y-1">
+              <Select
+                value={priceBookId ?? DEFAULT_BOOK}
+                onValueChange={(value) => settingsMutation.mutate({ priceBookId: value === DEFAULT_BOOK ? null : value })}
+              >
+                <SelectTrigger data-testid="select-opportunity-price-book">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_BOOK}>Default price book</SelectItem>
+                  {priceBooks.map(book => (
+                    <SelectItem key={book.id} value={book.id}>{book.name} ({book.currency})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Line Item" : "Add Line Item"}</DialogTitle>
+            <DialogDescription>
+              {activeBook ? `Prices default from ${activeBook.name}` : "No price book is set up; enter the unit price"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!editing && (
+              <div className="space-y-2">
+                <Label>Product</Label>
+                <Select value={form.productId} onValueChange={selectProduct}>
+                  <SelectTrigger data-testid="select-line-item-product">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CUSTOM_ITEM}>Custom item</SelectItem>
+                    {products.map(product => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name}{product.sku ? ` (${product.sku})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="line-item-name">Name</Label>
+              <Input id="line-item-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} data-testid="input-line-item-name" />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="line-item-quantity">Quantity</Label>
+                <Input id="line-item-quantity" type="number" min="0" step="any" value={form.quantity} onChange={(e) => setForm({ ...form, quantity: e.target.value })} data-testid="input-line-item-quantity" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="line-item-unit-price">Unit price{form.billingType === "recurring" ? " /mo" : ""}</Label>
+                <Input id="line-item-unit-price" type="number" min="0" step="0.01" value={form.unitPrice} onChange={(e) => setForm({ ...form, unitPrice: e.target.value })} data-testid="input-line-item-unit-price" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="line-item-discount">Discount %</Label>
+                <Input id="line-item-discount" type="number" min="0" max="100" value={form.discountPercent} onChange={(e) => setForm({ ...form, discountPercent: e.target.value })} data-testid="input-line-item-discount" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Billing</Label>
+                <Select value={form.billingType} onValueChange={(v) => setForm({ ...form, billingType: v as ProductBillingType })}>
+                  <SelectTrigger data-testid="select-line-item-billing-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRODUCT_BILLING_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{BILLING_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="line-item-term">Term (months)</Label>
+                <Input
+                  id="line-item-term"
+                  type="number"
+                  min="1"
+                  value={form.termMonths}
+                  onChange={(e) => setForm({ ...form, termMonths: e.target.value })}
+                  disabled={form.billingType !== "recurring"}
+                  placeholder="12"
+                  data-testid="input-line-item-term"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate(form)} disabled={!canSave || saveMutation.isPending} data-testid="button-submit-line-item">
+              {editing ? "Save" : "Add"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
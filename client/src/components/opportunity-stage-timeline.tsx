@@ -0,0 +1,124 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowRight, History } from "lucide-react";
+import { format } from "date-fns";
+import type { OpportunityStageHistory } from "@shared/schema";
+
+type StageHistoryEntry = Omit<OpportunityStageHistory, "changedAt" | "fromCloseDate" | "toCloseDate"> & {
+  changedAt: string;
+  fromCloseDate: string | null;
+  toCloseDate: string | null;
+  actorName: string | null;
+  apiKeyName: string | null;
+};
+
+interface OpportunityStageTimelineProps {
+  opportunityId: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  ui: "UI",
+  bulk: "Bulk update",
+  external_api: "External API",
+  import: "Import",
+  restore: "Restore",
+};
+
+function formatStage(stage: string | null): string {
+  if (!stage) return "—";
+  return stage
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+function formatAmount(amount: string | null): string {
+  if (amount === null) return "—";
+  return `$${Number(amount).toLocaleString()}`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? format(new Date(value), "MMM d, yyyy") : "—";
+}
+
+function describeChanges(entry: StageHistoryEntry): string[] {
+  const lines: string[] = [];
+  if (entry.changedFields.includes("amount")) {
+    lines.push(`Amount: ${formatAmount(entry.fromAmount)} → ${formatAmount(entry.toAmount)}`);
+  }
+  if (entry.changedFields.includes("probability")) {
+    const from = entry.fromProbability === null ? "—" : `${entry.fromProbability}%`;
+    const to = entry.toProbability === null ? "—" : `${entry.toProbability}%`;
+    lines.push(`Probability: ${from} → ${to}`);
+  }
+  if (entry.changedFields.includes("closeDate")) {
+    lines.push(`Close date: ${formatDate(entry.fromCloseDate)} → ${formatDate(entry.toCloseDate)}`);
+  }
+  return lines;
+}
+
+export function OpportunityStageTimeline({ opportunityId }: OpportunityStageTimelineProps) {
+  const { data: history = [], isLoading } = useQuery<StageHistoryEntry[]>({
+    queryKey: ["/api/opportunities", opportunityId, "stage-history"],
+    enabled: !!opportunityId,
+  });
+
+  // Newest first
+  const entries = [...history].reverse();
+
+  return (
+    <Card data-testid="section-stage-timeline">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Stage Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-stage-history">No stage changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l pl-4 space-y-4">
+            {entries.map((entry) => {
+              const stageChanged = entry.changedFields.includes("stage");
+              const actor = entry.actorName ?? (entry.apiKeyName ? `API key: ${entry.apiKeyName}` : null);
+              return (
+                <li key={entry.id} className="relative" data-testid={`stage-history-item-${entry.id}`}>
+                  <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {stageChanged ? (
+                      <span className="flex items-center gap-1 text-sm font-medium" data-testid={`text-stage-change-${entry.id}`}>
+                        {entry.fromStage ? formatStage(entry.fromStage) : "Created"}
+                        <ArrowRight className="h-3 w-3" />
+                        {formatStage(entry.toStage)}
+                      </span>
+                    ) : (
+                      <span className="text-sm font-medium">{formatStage(entry.toStage)}</span>
+                    )}
+                    <Badge variant="outline" className="text-xs" data-testid={`badge-stage-source-${entry.id}`}>
+                      {SOURCE_LABELS[entry.source] ?? entry.source}
+                    </Badge>
+                  </div>
+                  {describeChanges(entry).map((line) => (
+                    <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                  ))}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(entry.changedAt), "MMM d, yyyy h:mm a")}
+                    {actor && ` · ${actor}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
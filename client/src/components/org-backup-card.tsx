@@ -0,0 +1,227 @@
+// Per-organization backup on the admin Backup & Restore tab: download one
+// organization's data, or restore such a file into a new organization (a
+// clone) or an existing empty one. Other organizations are left untouched.
+
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Building2, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, fetchCsrfToken, getOrgHeaders, queryClient } from "@/lib/queryClient";
+import type { Organization } from "@shared/schema";
+
+interface OrgRestoreResult {
+  organizationId: string;
+  created: boolean;
+  source: { organizationId: string; name: string; timestamp: string };
+  recordsRestored: number;
+  tables: Record<string, number>;
+  skipped: Record<string, number>;
+  unmatchedUsers: string[];
+}
+
+const NEW_ORG = "__new__";
+
+function describeRestore(result: OrgRestoreResult): string {
+  const parts = [`${result.recordsRestored.toLocaleString()} records restored from ${result.source.name}`];
+  const skipped = Object.values(result.skipped).reduce((sum, count) => sum + count, 0);
+  if (skipped > 0) parts.push(`${skipped} skipped (missing related records)`);
+  if (result.unmatchedUsers.length > 0) {
+    parts.push(`${result.unmatchedUsers.length} user(s) not found here; their records were reassigned to you or left unassigned`);
+  }
+  return parts.join(". ");
+}
+
+async function downloadOrgBackup(orgId: string) {
+  const url = `/api/admin/organizations/${orgId}/backup`;
+  const response = await fetch(url, {
+    method: "POST",
+    credentials: "include",
+    headers: { "X-CSRF-Token": await fetchCsrfToken(), ...getOrgHeaders(url) },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || "Failed to back up organization");
+  }
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "organization-backup.zip";
+  const blob = await response.blob();
+  const objectUrl = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(objectUrl);
+  document.body.removeChild(a);
+}
+
+export function OrgBackupCard() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sourceOrgId, setSourceOrgId] = useState("");
+  const [targetOrgId, setTargetOrgId] = useState(NEW_ORG);
+  const [newName, setNewName] = useState("");
+  const [newSlug, setNewSlug] = useState("");
+  const [encryptionKey, setEncryptionKey] = useState("");
+
+  const { data: orgs = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations/all"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/organizations/all");
+      return res.json();
+    },
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: () => downloadOrgBackup(sourceOrgId),
+    onSuccess: () => {
+      toast({ title: "Organization backup downloaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Backup failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams(
+        targetOrgId === NEW_ORG ? { name: newName.trim(), slug: newSlug.trim() } : { organizationId: targetOrgId },
+      );
+      const url = `/api/admin/organizations/restore?${params}`;
+      const res = await fetch(url, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "X-CSRF-Token": await fetchCsrfToken(),
+          ...(encryptionKey.trim() ? { "X-Backup-Encryption-Key": encryptionKey.trim() } : {}),
+          ...getOrgHeaders(url),
+        },
+        body: new Uint8Array(await file.arrayBuffer()),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Restore failed");
+      return body as OrgRestoreResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      setNewName("");
+      setNewSlug("");
+      toast({
+        title: result.created ? "Organization created from backup" : "Organization restored",
+        description: describeRestore(result),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canRestore = targetOrgId === NEW_ORG
+    ? newName.trim() !== "" && /^[a-z0-9-]+$/.test(newSlug.trim())
+    : targetOrgId !== "";
+
+  return (
+    <Card data-testid="card-org-backup">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Organization Backup
+        </CardTitle>
+        <CardDescription>
+          Back up or restore a single organization's CRM and lead generation data without touching other organizations.
+          Users are matched by email address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-3">
+          <Label>Back up</Label>
+          <Select value={sourceOrgId} onValueChange={setSourceOrgId}>
+            <SelectTrigger data-testid="select-org-backup-source">
+              <SelectValue placeholder="Select organization" />
+            </SelectTrigger>
+            <SelectContent>
+              {orgs.map((org) => (
+                <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => downloadMutation.mutate()}
+            disabled={!sourceOrgId || downloadMutation.isPending}
+            data-testid="button-org-backup-download"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {downloadMutation.isPending ? "Creating Backup..." : "Download Organization Backup"}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Restore into</Label>
+          <Select value={targetOrgId} onValueChange={setTargetOrgId}>
+            <SelectTrigger data-testid="select-org-restore-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_ORG}>New organization</SelectItem>
+              {orgs.map((org) => (
+                <SelectItem key={org.id} value={org.id}>{org.name} (must be empty)</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {targetOrgId === NEW_ORG && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="Name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                data-testid="input-org-restore-name"
+              />
+              <Input
+                placeholder="slug"
+                value={newSlug}
+                onChange={(e) => setNewSlug(e.target.value.toLowerCase())}
+                data-testid="input-org-restore-slug"
+              />
+            </div>
+          )}
+          <Input
+            type="password"
+            placeholder="Encryption key of the source deployment (optional)"
+            value={encryptionKey}
+            onChange={(e) => setEncryptionKey(e.target.value)}
+            autoComplete="off"
+            data-testid="input-org-restore-key"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) restoreMutation.mutate(file);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+            data-testid="input-org-restore-file"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!canRestore || restoreMutation.isPending}
+            data-testid="button-org-restore"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {restoreMutation.isPending ? "Restoring..." : "Restore Organization Backup"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
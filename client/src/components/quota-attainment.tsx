@@ -0,0 +1,128 @@
+import { useQuery } from "@tanstack/react-query";
+import { Goal } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest } from "@/lib/queryClient";
+import type { QuotaPeriodType } from "@shared/schema";
+
+export type QuotaPacingStatus = "achieved" | "ahead" | "on_track" | "behind" | "not_started";
+
+export interface QuotaAttainmentEntry {
+  quotaId: string;
+  userId: string | null;
+  userName: string | null;
+  category: string | null;
+  quota: number;
+  closedWon: number;
+  dealsWon: number;
+  openPipeline: number;
+  openDeals: number;
+  weightedPipeline: number;
+  attainment: number;
+  remaining: number;
+  coverage: number | null;
+  elapsed: number;
+  expectedToDate: number;
+  pacing: number | null;
+  projected: number | null;
+  status: QuotaPacingStatus;
+}
+
+export interface QuotaAttainmentResponse {
+  periodType: QuotaPeriodType;
+  year: number;
+  period: number;
+  periodLabel: string;
+  start: string;
+  end: string;
+  team: QuotaAttainmentEntry[];
+  reps: QuotaAttainmentEntry[];
+}
+
+const STATUS_LABELS: Record<QuotaPacingStatus, string> = {
+  achieved: "Achieved",
+  ahead: "Ahead of pace",
+  on_track: "On track",
+  behind: "Behind pace",
+  not_started: "Not started",
+};
+
+const STATUS_VARIANTS: Record<QuotaPacingStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  achieved: "default",
+  ahead: "default",
+  on_track: "secondary",
+  behind: "destructive",
+  not_started: "outline",
+};
+
+export function useQuotaAttainment(periodType: QuotaPeriodType, enabled = true) {
+  return useQuery<QuotaAttainmentResponse>({
+    queryKey: ["/api/analytics/quota-attainment", periodType],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/analytics/quota-attainment?period=${periodType}`);
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+
+/** One quota: closed-won progress, weighted pipeline coverage and pacing. */
+export function QuotaAttainmentRow({ entry, label }: { entry: QuotaAttainmentEntry; label: string }) {
+  return (
+    <div className="space-y-2" data-testid={`quota-attainment-${entry.quotaId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium truncate">
+          {label}
+          {entry.category && <span className="ml-2 text-xs text-muted-foreground">({entry.category})</span>}
+        </div>
+        <Badge variant={STATUS_VARIANTS[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>
+      </div>
+      <Progress value={Math.min(100, entry.attainment * 100)} className="h-2" />
+      <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+        <span data-testid={`text-quota-attainment-${entry.quotaId}`}>
+          {formatCurrency(entry.closedWon)} of {formatCurrency(entry.quota)} ({Math.round(entry.attainment * 100)}%)
+        </span>
+        <span>
+          Coverage {entry.coverage === null ? "—" : `${entry.coverage.toFixed(1)}x`}
+          {" • "}
+          Pace {entry.pacing === null ? "—" : `${Math.round(entry.pacing * 100)}%`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/** Dashboard card: the team's quotas and the signed-in user's own quotas for the current period. */
+export function QuotaAttainmentCard({ userId, periodType = "quarter" }: { userId?: string; periodType?: QuotaPeriodType }) {
+  const { data } = useQuotaAttainment(periodType);
+  const mine = data?.reps.filter(r => r.userId === userId) ?? [];
+  const entries = [
+    ...(data?.team ?? []).map(entry => ({ entry, label: "Team" })),
+    ...mine.map(entry => ({ entry, label: "My quota" })),
+  ];
+
+  return (
+    <Card data-testid="card-quota-attainment">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Goal className="h-5 w-5" />
+          Quota Attainment{data ? ` - ${data.periodLabel}` : ""}
+        </CardTitle>
+        <CardDescription>Closed-won revenue against quota, weighted pipeline coverage and pace</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-quota">
+            No quota set for this period. Admins can set quotas in the Admin Console.
+          </p>
+        ) : (
+          entries.map(({ entry, label }) => <QuotaAttainmentRow key={entry.quotaId} entry={entry} label={label} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
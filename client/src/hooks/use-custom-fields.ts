@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { CustomFieldDefinition, CustomFieldEntityType } from "@shared/schema";
+
+/**
+ * Active custom field definitions for one record type in the active
+ * organization, in display order.
+ */
+export function useCustomFields(entityType: CustomFieldEntityType) {
+  const { data, isLoading } = useQuery<CustomFieldDefinition[]>({
+    queryKey: [`/api/custom-fields?entity=${entityType}`],
+  });
+  return { fields: data ?? [], isLoading };
+}
+
+/** Refetch every cached definition list after an admin edits the fields. */
+export function invalidateCustomFields() {
+  queryClient.invalidateQueries({
+    predicate: (q) => typeof q.queryKey[0] === "string" && q.queryKey[0].startsWith("/api/custom-fields"),
+  });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/custom-fields"] });
+}
+
+/** Display text for a stored value; multi-selects are joined, booleans shown as Yes/No. */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "—";
+  if (field.fieldType === "boolean") return value ? "Yes" : "No";
+  if (field.fieldType === "currency" && typeof value === "number") {
+    return value.toLocaleString(undefined, { style: "currency", currency: "USD" });
+  }
+  return String(value);
+}
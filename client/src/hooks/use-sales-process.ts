@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { SalesProcessStageInput } from "@shared/schema";
+
+export type SalesProcessStage = SalesProcessStageInput;
+
+export interface SalesProcess {
+  stages: SalesProcessStage[];
+  isDefault: boolean;
+}
+
+export const CLOSED_STAGES = ["closed_won", "closed_lost"];
+
+// Badge colors for open stages, by position; closed stages keep theirs
+const OPEN_STAGE_COLORS = [
+  "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+  "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300",
+  "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300",
+  "bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-300",
+];
+const CLOSED_STAGE_COLORS: Record<string, string> = {
+  closed_won: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
+  closed_lost: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+/**
+ * The active organization's opportunity stages in order, with a badge color
+ * for each. Falls back to no stages while loading.
+ */
+export function useSalesProcess() {
+  const { data, isLoading } = useQuery<SalesProcess>({
+    queryKey: ["/api/sales-process"],
+  });
+  const stages = data?.stages ?? [];
+  const openStages = stages.filter((stage) => !CLOSED_STAGES.includes(stage.key));
+  const withColors = stages.map((stage) => ({
+    ...stage,
+    color: CLOSED_STAGE_COLORS[stage.key]
+      ?? OPEN_STAGE_COLORS[openStages.indexOf(stage) % OPEN_STAGE_COLORS.length],
+  }));
+  const stageLabel = (key: string | null | undefined) =>
+    key ? stages.find((stage) => stage.key === key)?.label ?? key : "";
+  return { stages: withColors, openStages, isDefault: data?.isDefault ?? true, stageLabel, isLoading };
+}
+
+/** Refetch the process after an admin edits it. */
+export function invalidateSalesProcess() {
+  queryClient.invalidateQueries({ queryKey: ["/api/sales-process"] });
+}
@@ -8,6 +8,7 @@ import { DetailPageLayout, DetailSection, DetailField } from "@/components/detai
 import { RelatedEntitiesSection } from "@/components/related-entities-section";
 import { CommentSystem } from "@/components/comment-system";
 import { DocumentsSection } from "@/components/documents-section";
+import { CustomFieldsSection } from "@/components/custom-fields-section";
 import { ResearchDocumentsPanel } from "@/components/research-documents-panel";
 import { QuickLogActivity } from "@/components/quick-log-activity";
 import { GlobalQuickAdd, type QuickAddContext } from "@/components/global-quick-add";
@@ -189,6 +190,8 @@ export default function AccountDetailPage() {
             <DetailField label="Shipping Address" value={account.shippingAddress} />
           </DetailSection>
 
+          <CustomFieldsSection entityType="account" entityId={account.id} values={account.customFields} />
+
           <Card data-testid="section-tags">
             <CardHeader>
               <CardTitle>Tags</CardTitle>
@@ -72,10 +72,11 @@ export default function AccountsPage() {
     category: "",
     ownerId: "",
     tagIds: [] as string[],
+    customFields: {} as Record<string, string>,
   });
   const [filterKey, setFilterKey] = useState(0);
   const [savedFilterInitial, setSavedFilterInitial] = useState<typeof filters | undefined>(undefined);
-  const hasActiveFilters = !!(filters.search || filters.type || filters.category || filters.ownerId || filters.tagIds.length > 0);
+  const hasActiveFilters = !!(filters.search || filters.type || filters.category || filters.ownerId || filters.tagIds.length > 0 || Object.keys(filters.customFields).length > 0);
 
   const handleApplySavedFilter = (saved: Record<string, any>) => {
     const newFilters = {
@@ -84,6 +85,7 @@ export default function AccountsPage() {
       category: saved.category ?? "",
       ownerId: saved.ownerId ?? "",
       tagIds: Array.isArray(saved.tagIds) ? saved.tagIds : [],
+      customFields: saved.customFields && typeof saved.customFields === "object" ? saved.customFields : {},
     };
     setSavedFilterInitial(newFilters);
     setFilters(newFilters);
@@ -105,6 +107,9 @@ export default function AccountsPage() {
     if (filters.type) params.append("type", filters.type);
     if (filters.category) params.append("category", filters.category);
     if (filters.ownerId) params.append("ownerId", filters.ownerId);
+    for (const [key, value] of Object.entries(filters.customFields)) {
+      params.append(`cf[${key}]`, value);
+    }
     params.append("sortBy", sortBy);
     params.append("sortOrder", sortOrder);
     return params.toString();
@@ -319,7 +324,7 @@ export default function AccountsPage() {
       setFilters(prev => ({ ...prev, search: "" }));
     } else {
       // Reset all filters for "Total" card
-      setFilters({ search: "", type: "", category: "", ownerId: "", tagIds: [] });
+      setFilters({ search: "", type: "", category: "", ownerId: "", tagIds: [], customFields: {} });
     }
   }, []);
 
@@ -30,6 +30,8 @@ import { TagFilterButton } from "@/components/tag-filter-button";
 import { BulkTagDialog } from "@/components/bulk-tag-dialog";
 import { SavedFiltersBar } from "@/components/saved-filters-bar";
 import { EmptyState } from "@/components/empty-state";
+import { RecurrenceEditor } from "@/components/activity-recurrence";
+import { CalendarSyncDialog } from "@/components/calendar-sync-dialog";
 
 const activityIcons = {
   call: Phone,
@@ -83,6 +85,7 @@ export default function ActivitiesPage() {
   const [, setLocation] = useLocation();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [associations, setAssociations] = useState<Association[]>([]);
+  const [recurrence, setRecurrence] = useState<string | null>(null);
   
   // Bulk operations state
   const [selectedActivityIds, setSelectedActivityIds] = useState<Set<string>>(new Set());
@@ -186,15 +189,17 @@ export default function ActivitiesPage() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: InsertActivity) => {
+    mutationFn: async (data: InsertActivity & { recurrence?: string }) => {
       const res = await apiRequest("POST", "/api/activities", data);
       return await res.json();
     },
-    onSuccess: async (createdActivity) => {
-      // Create associations after activity is created
+    onSuccess: async (createdActivity: Activity) => {
+      // Create associations after activity is created; for a recurring
+      // activity they also apply to the series' other occurrences
+      const scope = createdActivity.seriesId ? "?scope=series" : "";
       for (const association of associations) {
         try {
-          await apiRequest("POST", `/api/activities/${createdActivity.id}/associations`, {
+          await apiRequest("POST", `/api/activities/${createdActivity.id}/associations${scope}`, {
             entityType: association.entityType,
             entityId: association.entityId,
           });
@@ -209,6 +214,7 @@ export default function ActivitiesPage() {
       toast({ title: "Activity created successfully" });
       setIsCreateDialogOpen(false);
       setAssociations([]);
+      setRecurrence(null);
       form.reset();
     },
     onError: (error: Error) => {
@@ -302,7 +308,7 @@ export default function ActivitiesPage() {
   const onSubmit = (data: ActivityFormValues) => {
     // Strip the client-only id field (previously removed by the zod resolver)
     const { id: _id, ...rest } = data;
-    createMutation.mutate(rest);
+    createMutation.mutate(recurrence ? { ...rest, recurrence } : rest);
   };
 
   // Filter and sort activities
@@ -450,6 +456,7 @@ export default function ActivitiesPage() {
             Export to CSV
           </Button>
           )}
+          {can("Activity", "read") && <CalendarSyncDialog canImport={can("Activity", "create")} />}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             {can("Activity", "create") && (
             <DialogTrigger asChild>
@@ -605,6 +612,11 @@ export default function ActivitiesPage() {
                     )}
                   />
                 </div>
+                <RecurrenceEditor
+                  value={recurrence}
+                  onChange={setRecurrence}
+                  startDate={form.watch("dueAt") ?? null}
+                />
                 <FormField
                   control={form.control}
                   name="notes"
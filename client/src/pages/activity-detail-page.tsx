@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute, useLocation } from "wouter";
-import { Loader2, X } from "lucide-react";
+import { Loader2, Repeat, X } from "lucide-react";
 import { DetailPageLayout, DetailSection, DetailField } from "@/components/detail-page-layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,12 +16,14 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Activity, Account, Contact, Opportunity, Lead, InsertActivity } from "@shared/schema";
+import type { Activity, Account, Contact, Opportunity, Lead, InsertActivity, ActivitySeriesEditScope } from "@shared/schema";
 import { insertActivitySchema } from "@shared/schema";
 import { AssociationManager, Association } from "@/components/association-manager";
 import { Badge } from "@/components/ui/badge";
 import { TagSelector } from "@/components/tag-selector";
 import { CommentSystem } from "@/components/comment-system";
+import { CustomFieldsSection } from "@/components/custom-fields-section";
+import { RecurrenceEditor, SeriesScopeDialog, type ActivitySeriesInfo } from "@/components/activity-recurrence";
 
 function toLocalDateString(date: Date): string {
   const year = date.getFullYear();
@@ -30,6 +32,17 @@ function toLocalDateString(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+// Apply a date picked in the form to an existing due date, keeping its time of
+// day so editing a recurring occurrence doesn't move the whole series.
+function withLocalDate(original: string | Date | null | undefined, date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = original ? new Date(original) : new Date(`${date}T00:00:00`);
+  result.setFullYear(year, month - 1, day);
+  return result.toISOString();
+}
+
+type ActivityUpdate = Partial<InsertActivity> & { recurrence?: string };
+
 interface ActivityAssociation {
   id: string;
   activityId: string;
@@ -47,6 +60,9 @@ export default function ActivityDetailPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [editAssociations, setEditAssociations] = useState<Association[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<string | null>(null);
+  // Series edits wait for the user to choose a scope
+  const [pendingUpdate, setPendingUpdate] = useState<ActivityUpdate | null>(null);
 
   const { data: activity, isLoading: activityLoading } = useQuery<Activity>({
     queryKey: ["/api/activities", activityId],
@@ -77,6 +93,11 @@ export default function ActivityDetailPage() {
     enabled: !!activityId,
   });
 
+  const { data: series } = useQuery<ActivitySeriesInfo>({
+    queryKey: ["/api/activities", activityId, "series"],
+    enabled: !!activity?.seriesId,
+  });
+
   const deleteAssociationMutation = useMutation({
     mutationFn: async (associationId: string) => {
       await apiRequest("DELETE", `/api/activity-associations/${associationId}`);
@@ -91,11 +112,11 @@ export default function ActivityDetailPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: Partial<InsertActivity>) => {
-      const res = await apiRequest("PATCH", `/api/activities/${activityId}`, data);
+    mutationFn: async ({ data, scope }: { data: ActivityUpdate; scope: ActivitySeriesEditScope }) => {
+      const res = await apiRequest("PATCH", `/api/activities/${activityId}?scope=${scope}`, data);
       return await res.json();
     },
-    onSuccess: async () => {
+    onSuccess: async (_updated, { scope }) => {
       // Sync associations
       const currentAssociationIds = new Set(
         associations.map((a) => `${a.entityType}-${a.entityId}`)
@@ -109,7 +130,7 @@ export default function ActivityDetailPage() {
         const key = `${assoc.entityType}-${assoc.entityId}`;
         if (!newAssociationIds.has(key)) {
           try {
-            await apiRequest("DELETE", `/api/activity-associations/${assoc.id}`);
+            await apiRequest("DELETE", `/api/activity-associations/${assoc.id}?scope=${scope}`);
           } catch (error) {
             console.error("Failed to delete association:", error);
           }
@@ -121,7 +142,7 @@ export default function ActivityDetailPage() {
         const key = `${newAssoc.entityType}-${newAssoc.entityId}`;
         if (!currentAssociationIds.has(key)) {
           try {
-            await apiRequest("POST", `/api/activities/${activityId}/associations`, {
+            await apiRequest("POST", `/api/activities/${activityId}/associations?scope=${scope}`, {
               entityType: newAssoc.entityType,
               entityId: newAssoc.entityId,
             });
@@ -135,8 +156,10 @@ export default function ActivityDetailPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activities/summary"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activities", activityId, "associations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities", activityId, "series"] });
       toast({ title: "Activity updated successfully" });
       setIsEditDialogOpen(false);
+      setPendingUpdate(null);
     },
     onError: (error: Error) => {
       toast({ title: "Failed to update activity", description: error.message, variant: "destructive" });
@@ -144,8 +167,8 @@ export default function ActivityDetailPage() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("DELETE", `/api/activities/${activityId}`);
+    mutationFn: async (scope: ActivitySeriesEditScope = "this") => {
+      const res = await apiRequest("DELETE", `/api/activities/${activityId}?scope=${scope}`);
       return await res.json();
     },
     onSuccess: () => {
@@ -182,12 +205,19 @@ export default function ActivityDetailPage() {
   const onSubmit = (data: ActivityFormValues) => {
     // Strip the client-only id field (previously removed by the zod resolver)
     const { id: _id, ...rest } = data;
-    const submitData = {
+    const submitData: ActivityUpdate = {
       ...rest,
-      dueAt: data.dueAt ? new Date(data.dueAt + 'T00:00:00').toISOString() : null,
+      dueAt: data.dueAt ? withLocalDate(activity?.dueAt, data.dueAt) : null,
       completedAt: data.completedAt ? new Date(data.completedAt + 'T00:00:00').toISOString() : null,
     };
-    updateMutation.mutate(submitData as any);
+    if (editRecurrence && editRecurrence !== (series?.rrule ?? null)) {
+      submitData.recurrence = editRecurrence;
+    }
+    if (activity?.seriesId) {
+      setPendingUpdate(submitData);
+    } else {
+      updateMutation.mutate({ data: submitData, scope: "this" });
+    }
   };
 
   if (activityLoading || relatedLoading) {
@@ -278,6 +308,7 @@ export default function ActivityDetailPage() {
             displayName: a.entityName,
           }))
         );
+        setEditRecurrence(series?.rrule ?? null);
         setIsEditDialogOpen(true);
       }}
       onDelete={() => {
@@ -294,6 +325,7 @@ export default function ActivityDetailPage() {
             <DetailField label="Status" value={activity.status} />
             <DetailField label="Priority" value={activity.priority} />
             <DetailField label="Due Date" value={activity.dueAt ? new Date(activity.dueAt).toISOString() : null} type="date" />
+            {series && <DetailField label="Repeats" value={series.description} />}
             <DetailField 
               label="Owner" 
               value={activity.ownerId ? (() => {
@@ -311,6 +343,8 @@ export default function ActivityDetailPage() {
             </DetailSection>
           )}
 
+          <CustomFieldsSection entityType="activity" entityId={activity.id} values={activity.customFields} />
+
           <CommentSystem entity="activities" entityId={activity.id} />
         </div>
 
@@ -370,6 +404,44 @@ export default function ActivityDetailPage() {
             </Card>
           )}
 
+          {series && (
+            <Card data-testid="card-activity-series">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                  <Repeat className="h-4 w-4" />
+                  Recurring Series
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm">{series.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {series.completedCount} of {series.occurrenceCount} scheduled occurrences completed
+                </p>
+                {series.upcoming.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Upcoming</p>
+                    {series.upcoming.map((occurrence) => (
+                      <Button
+                        key={occurrence.id}
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-between h-auto py-1 px-2 text-sm"
+                        disabled={occurrence.id === activity.id}
+                        onClick={() => setLocation(`/activities/${occurrence.id}`)}
+                        data-testid={`link-series-occurrence-${occurrence.id}`}
+                      >
+                        <span className="truncate">{occurrence.subject}</span>
+                        <span className="text-xs text-muted-foreground shrink-0 ml-2">
+                          {occurrence.dueAt ? new Date(occurrence.dueAt).toLocaleDateString() : ""}
+                        </span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg font-semibold">Tags</CardTitle>
@@ -536,6 +608,12 @@ export default function ActivityDetailPage() {
                   </FormItem>
                 )}
               />
+              <RecurrenceEditor
+                value={editRecurrence}
+                onChange={setEditRecurrence}
+                startDate={form.watch("dueAt") ? withLocalDate(activity.dueAt, form.watch("dueAt")!) : null}
+                allowNone={!activity.seriesId}
+              />
               <AssociationManager
                 associations={editAssociations}
                 onChange={setEditAssociations}
@@ -554,8 +632,25 @@ export default function ActivityDetailPage() {
         </DialogContent>
       </Dialog>
 
+      <SeriesScopeDialog
+        open={pendingUpdate !== null}
+        onOpenChange={(open) => !open && setPendingUpdate(null)}
+        action="edit"
+        allowThis={!pendingUpdate?.recurrence}
+        pending={updateMutation.isPending}
+        onConfirm={(scope) => pendingUpdate && updateMutation.mutate({ data: pendingUpdate, scope })}
+      />
+
+      <SeriesScopeDialog
+        open={isDeleteDialogOpen && !!activity.seriesId}
+        onOpenChange={setIsDeleteDialogOpen}
+        action="delete"
+        pending={deleteMutation.isPending}
+        onConfirm={(scope) => deleteMutation.mutate(scope)}
+      />
+
       {/* Delete Confirmation Dialog */}
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+      <AlertDialog open={isDeleteDialogOpen && !activity.seriesId} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Activity</AlertDialogTitle>
@@ -566,7 +661,7 @@ export default function ActivityDetailPage() {
           <AlertDialogFooter>
             <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => deleteMutation.mutate()}
+              onClick={() => deleteMutation.mutate("this")}
               disabled={deleteMutation.isPending}
               data-testid="button-confirm-delete"
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
@@ -6,12 +6,22 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { usePermissions } from "@/hooks/use-permissions";
 import { useOrg } from "@/contexts/org-context";
-import { Plus, Trash2, Save, Database, Download, Upload, AlertTriangle, Edit2, X, Check, Key, Copy, Calendar, Bot, Zap, Eye, EyeOff, Search, GitMerge } from "lucide-react";
+import { Plus, Trash2, Save, Database, Download, Upload, AlertTriangle, Edit2, X, Check, Key, Copy, Calendar, Bot, Zap, Eye, EyeOff, GitMerge } from "lucide-react";
 import { User, Role, IdPattern, AccountCategory, InsertAccountCategory, ApiKey } from "@shared/schema";
 import { Slider } from "@/components/ui/slider";
 import { ApiAccessLogsTab } from "@/components/ApiAccessLogsTab";
 import { OrganizationsTab } from "@/components/admin/organizations-tab";
 import { AuditLogsTab } from "@/components/admin/AuditLogsTab";
+import { WebhooksTab } from "@/components/admin/WebhooksTab";
+import { CustomFieldsTab } from "@/components/admin/CustomFieldsTab";
+import { QuotasTab } from "@/components/admin/QuotasTab";
+import { SalesProcessTab } from "@/components/admin/SalesProcessTab";
+import { LeadScoringTab } from "@/components/admin/LeadScoringTab";
+import { LeadAssignmentTab } from "@/components/admin/LeadAssignmentTab";
+import { ProductsTab } from "@/components/admin/ProductsTab";
+import { LlmBudgetSection } from "@/components/admin/LlmBudgetSection";
+import { LlmPricesSection } from "@/components/admin/LlmPricesSection";
+import { WebSearchProviderSection } from "@/components/admin/WebSearchProviderSection";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -25,6 +35,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Switch } from "@/components/ui/switch";
+import { BackupHistory } from "@/components/backup-history";
+import { OrgBackupCard } from "@/components/org-backup-card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, fetchCsrfToken, getOrgHeaders } from "@/lib/queryClient";
 
@@ -103,25 +115,35 @@ function AiConfigTab() {
   const [agentModelOverrides, setAgentModelOverrides] = useState<Record<string, string>>({});
   const [initialized, setInitialized] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; latencyMs: number; model?: string; error?: string } | null>(null);
+  // "global" edits the default configuration used by organizations without their own
+  const [scope, setScope] = useState<"organization" | "global">("organization");
+  const configUrl = scope === "global" ? "/api/admin/llm-config?scope=global" : "/api/admin/llm-config";
 
   const { data: config, isLoading } = useQuery<LlmConfigData | null>({
-    queryKey: ["/api/admin/llm-config"],
+    queryKey: [configUrl],
   });
 
-  // Initialize form from loaded config
-  if (config && !initialized) {
-    setProvider(config.provider || "openai");
-    setBaseUrl(config.baseUrl || "");
-    setModelName(config.modelName || "gpt-4o");
-    setApiVersion(config.apiVersion || "");
-    setTemperature(parseFloat(config.temperature) || 0.7);
-    setMaxTokens(config.maxTokens || 4096);
-    setRequestTimeout(config.requestTimeout || 60);
-    setEnabledAgents(Array.isArray(config.enabledAgents) ? config.enabledAgents : AGENT_KEYS);
-    setAgentModelOverrides((config.agentModelOverrides as Record<string, string>) || {});
+  // Initialize form from loaded config (or the defaults when this scope has none)
+  if (config !== undefined && !initialized) {
+    setProvider(config?.provider || "openai");
+    setBaseUrl(config?.baseUrl || "");
+    setModelName(config?.modelName || "gpt-4o");
+    setApiVersion(config?.apiVersion || "");
+    setTemperature(parseFloat(config?.temperature ?? "") || 0.7);
+    setMaxTokens(config?.maxTokens || 4096);
+    setRequestTimeout(config?.requestTimeout || 60);
+    setEnabledAgents(Array.isArray(config?.enabledAgents) ? config.enabledAgents : AGENT_KEYS);
+    setAgentModelOverrides((config?.agentModelOverrides as Record<string, string>) || {});
     setInitialized(true);
   }
 
+  const handleScopeChange = (newScope: string) => {
+    setScope(newScope as "organization" | "global");
+    setApiKeyInput("");
+    setTestResult(null);
+    setInitialized(false);
+  };
+
   const saveMutation = useMutation({
     mutationFn: async () => {
       const body: LlmConfigSaveBody = {
@@ -138,11 +160,12 @@ function AiConfigTab() {
       if (apiKeyInput.trim()) {
         body.apiKey = apiKeyInput.trim();
       }
-      const res = await apiRequest("PUT", "/api/admin/llm-config", body);
+      const res = await apiRequest("PUT", configUrl, body);
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/llm-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/llm-config?scope=global"] });
       setApiKeyInput("");
       setInitialized(false);
       toast({ title: "AI configuration saved successfully" });
@@ -154,7 +177,7 @@ function AiConfigTab() {
 
   const testMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/admin/llm-config/test", {});
+      const res = await apiRequest("POST", scope === "global" ? "/api/admin/llm-config/test?scope=global" : "/api/admin/llm-config/test", {});
       return await res.json();
     },
     onSuccess: (data) => {
@@ -217,6 +240,25 @@ function AiConfigTab() {
           <CardDescription>Configure which LLM provider and credentials to use for the lead generation agent engine</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="llm-config-scope">Applies to</Label>
+            <Select value={scope} onValueChange={handleScopeChange}>
+              <SelectTrigger id="llm-config-scope" className="md:w-1/2" data-testid="select-llm-config-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="organization">This organization</SelectItem>
+                <SelectItem value="global">Default for all organizations</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground" data-testid="text-llm-config-scope">
+              {scope === "global"
+                ? "Used by every organization that has no configuration of its own."
+                : config
+                ? "This organization's own configuration. Other organizations never use it."
+                : "This organization has no configuration of its own and uses the default. Saving here creates one."}
+            </p>
+          </div>
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="llm-provider">LLM Provider</Label>
@@ -475,122 +517,6 @@ function AiConfigTab() {
   );
 }
 
-interface ResearchStatus {
-  activeProvider: string;
-  azure: { configured: boolean };
-  brave: { configured: boolean };
-  serper: { configured: boolean };
-}
-
-const PROVIDER_LABELS: Record<string, string> = {
-  azure_web_search: "Azure OpenAI Web Search",
-  brave: "Brave Search",
-  serper: "Serper",
-  none: "None (pipeline will fail if run)",
-};
-
-function AzureWebSearchConfigSection() {
-  const { toast } = useToast();
-  const [testResult, setTestResult] = useState<{ success: boolean; error?: string } | null>(null);
-
-  const { data: status } = useQuery<ResearchStatus>({
-    queryKey: ["/api/admin/research/status"],
-  });
-
-  const testMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/admin/research/test", {});
-      return await res.json();
-    },
-    onSuccess: (data) => {
-      setTestResult(data);
-      if (data.success) {
-        toast({ title: "Azure web search connection successful" });
-      } else {
-        toast({ title: "Azure web search test failed", description: data.error, variant: "destructive" });
-      }
-    },
-    onError: (error: Error) => {
-      toast({ title: "Test failed", description: error.message, variant: "destructive" });
-    },
-  });
-
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Search className="h-5 w-5" />
-          Web Search Provider
-        </CardTitle>
-        <CardDescription>
-          Controls which search engine powers the lead generation pipeline. Azure OpenAI Web Search takes priority
-          when configured, providing structured citation provenance per discovered company.
-          Falls back to Brave or Serper if only those env vars are set.
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        {status && (
-          <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-active-search-provider">
-            <span className="text-muted-foreground">Active provider:</span>
-            <Badge
-              variant={status.activeProvider === "none" ? "destructive" : "secondary"}
-              data-testid="badge-active-provider"
-            >
-              {PROVIDER_LABELS[status.activeProvider] ?? status.activeProvider}
-            </Badge>
-          </div>
-        )}
-
-        <div className="rounded-md bg-muted/50 border px-4 py-3 space-y-3 text-sm">
-          <p className="font-medium">Azure OpenAI Web Search (recommended)</p>
-          <div className="space-y-2">
-            <div className="flex flex-col gap-0.5">
-              <code className="font-mono text-xs bg-background rounded px-1 py-0.5 w-fit">AZURE_OPENAI_API_KEY</code>
-              <span className="text-muted-foreground text-xs">Azure OpenAI API key with access to the Responses API</span>
-            </div>
-            <div className="flex flex-col gap-0.5">
-              <code className="font-mono text-xs bg-background rounded px-1 py-0.5 w-fit">AZURE_OPENAI_BASE_URL</code>
-              <span className="text-muted-foreground text-xs">Azure OpenAI endpoint, e.g. <span className="font-mono">https://your-resource.openai.azure.com</span></span>
-            </div>
-            <div className="flex flex-col gap-0.5">
-              <code className="font-mono text-xs bg-background rounded px-1 py-0.5 w-fit">AZURE_OPENAI_MODEL</code>
-              <span className="text-muted-foreground text-xs">Deployment name that supports the web_search tool, e.g. <span className="font-mono">gpt-4o</span></span>
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            Alternative: set <code className="font-mono">BRAVE_SEARCH_API_KEY</code> or <code className="font-mono">SERPER_API_KEY</code> as a fallback.
-            Azure takes priority when all three AZURE_OPENAI_* vars are present.
-          </p>
-        </div>
-
-        <div className="flex flex-wrap items-center gap-3">
-          <Button
-            variant="outline"
-            onClick={() => testMutation.mutate()}
-            disabled={testMutation.isPending}
-            data-testid="button-test-azure-search"
-          >
-            <Zap className="h-4 w-4 mr-2" />
-            {testMutation.isPending ? "Testing..." : "Test Azure Connection"}
-          </Button>
-          {testResult && (
-            <div
-              className={`flex items-start gap-2 text-sm rounded-md px-3 py-2 ${testResult.success ? "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400" : "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400"}`}
-              data-testid="text-azure-search-test-result"
-            >
-              {testResult.success ? (
-                <><Check className="h-4 w-4 mt-0.5 shrink-0" /> Azure web search is configured and reachable</>
-              ) : (
-                <><X className="h-4 w-4 mt-0.5 shrink-0" /><pre className="whitespace-pre-wrap font-sans text-sm">{testResult.error}</pre></>
-              )}
-            </div>
-          )}
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
-
 type ApiKeyRow = ApiKey & { organizationName: string | null };
 
 type OrgOption = { id: string; name: string };
@@ -620,6 +546,7 @@ export default function AdminConsole() {
   const [dynamicsExcelFile, setDynamicsExcelFile] = useState<File | null>(null);
   const [dynamicsMapping, setDynamicsMapping] = useState<File | null>(null);
   const [dynamicsTemplate, setDynamicsTemplate] = useState<File | null>(null);
+  const [dynamicsQueueImport, setDynamicsQueueImport] = useState(false);
   const [transforming, setTransforming] = useState(false);
   const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
   const [editCategoryData, setEditCategoryData] = useState<{name: string; description: string; isActive: boolean}>({name: "", description: "", isActive: true});
@@ -856,9 +783,19 @@ export default function AdminConsole() {
       return await res.json();
     },
     onSuccess: (data) => {
+      const consistency = data.consistency;
+      const problems = consistency
+        ? [
+            consistency.orphanedMetadata && `${consistency.orphanedMetadata} orphaned metadata row(s)`,
+            consistency.missingFiles && `${consistency.missingFiles} missing document file(s)`,
+            consistency.danglingReferences && `${consistency.danglingReferences} dangling reference(s)`,
+          ].filter(Boolean)
+        : [];
       toast({ 
         title: "Restore completed successfully",
-        description: `Restored ${data.recordsRestored} records`,
+        description: problems.length > 0
+          ? `Restored ${data.recordsRestored} records. Consistency check found ${problems.join(", ")}; see the audit log for details.`
+          : `Restored ${data.recordsRestored} records`,
       });
       queryClient.clear();
     },
@@ -1138,6 +1075,9 @@ export default function AdminConsole() {
       formData.append('excelFile', dynamicsExcelFile);
       formData.append('mappingConfig', dynamicsMapping);
       formData.append('templateCsv', dynamicsTemplate);
+      if (dynamicsQueueImport) {
+        formData.append('queueImport', 'true');
+      }
 
       const endpoint = dynamicsEntityType === "contacts" 
         ? '/api/admin/dynamics/transform-contacts'
@@ -1152,6 +1092,7 @@ export default function AdminConsole() {
       const response = await fetch(endpoint, {
         method: 'POST',
         credentials: 'include',
+        headers: getOrgHeaders(endpoint),
         body: formData,
       });
 
@@ -1160,21 +1101,30 @@ export default function AdminConsole() {
         throw new Error(error.details || error.error || 'Transform failed');
       }
 
-      // Download the resulting CSV
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${dynamicsEntityType}_aligned.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-
-      toast({
-        title: "Transform successful",
-        description: "Aligned CSV file downloaded successfully"
-      });
+      if (response.status === 202) {
+        const { job } = await response.json();
+        queryClient.invalidateQueries({ queryKey: ["/api/import/jobs"] });
+        toast({
+          title: "Import started",
+          description: `${job.totalRows} ${dynamicsEntityType} queued for import. Track progress on the CSV Import page.`,
+        });
+      } else {
+        // Download the resulting CSV
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${dynamicsEntityType}_aligned.csv`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+
+        toast({
+          title: "Transform successful",
+          description: "Aligned CSV file downloaded successfully"
+        });
+      }
 
       // Reset files
       setDynamicsExcelFile(null);
@@ -1204,8 +1154,15 @@ export default function AdminConsole() {
           <TabsTrigger value="roles" data-testid="tab-roles">Roles</TabsTrigger>
           <TabsTrigger value="id-patterns" data-testid="tab-id-patterns">ID Patterns</TabsTrigger>
           <TabsTrigger value="categories" data-testid="tab-categories">Categories</TabsTrigger>
+          <TabsTrigger value="custom-fields" data-testid="tab-custom-fields">Custom Fields</TabsTrigger>
+          <TabsTrigger value="sales-process" data-testid="tab-sales-process">Sales Process</TabsTrigger>
+          <TabsTrigger value="quotas" data-testid="tab-quotas">Sales Quotas</TabsTrigger>
+          <TabsTrigger value="lead-scoring" data-testid="tab-lead-scoring">Lead Scoring</TabsTrigger>
+          <TabsTrigger value="lead-assignment" data-testid="tab-lead-assignment">Lead Assignment</TabsTrigger>
+          <TabsTrigger value="products" data-testid="tab-products">Products</TabsTrigger>
           <TabsTrigger value="api-keys" data-testid="tab-api-keys">API Keys</TabsTrigger>
           <TabsTrigger value="api-logs" data-testid="tab-api-logs">API Access Logs</TabsTrigger>
+          <TabsTrigger value="webhooks" data-testid="tab-webhooks">Webhooks</TabsTrigger>
           <TabsTrigger value="audit-logs" data-testid="tab-audit-logs">Audit Logs</TabsTrigger>
           <TabsTrigger value="backup" data-testid="tab-backup">Backup & Restore</TabsTrigger>
           <TabsTrigger value="dynamics" data-testid="tab-dynamics">Dynamics Import</TabsTrigger>
@@ -1668,7 +1625,16 @@ export default function AdminConsole() {
                   )}
                   {apiKeys?.map((key) => (
                     <TableRow key={key.id}>
-                      <TableCell className="font-medium">{key.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {key.name}
+                        <div className="text-xs font-normal text-muted-foreground" data-testid={`text-key-id-${key.id}`}>
+                          {key.keyId ? (
+                            <span className="font-mono">htcrm_{key.keyId}_…</span>
+                          ) : (
+                            <span title="Issued before key ids; authenticates more slowly. Generate a replacement and revoke this key.">Legacy format — rotate</span>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell className="text-muted-foreground">
                         {key.description || "—"}
                       </TableCell>
@@ -1724,6 +1690,41 @@ export default function AdminConsole() {
           <ApiAccessLogsTab apiKeys={apiKeys} />
         </TabsContent>
 
+        {/* Custom Fields Tab */}
+        <TabsContent value="custom-fields">
+          <CustomFieldsTab />
+        </TabsContent>
+
+        {/* Sales Process Tab */}
+        <TabsContent value="sales-process">
+          <SalesProcessTab />
+        </TabsContent>
+
+        {/* Sales Quotas Tab */}
+        <TabsContent value="quotas">
+          <QuotasTab />
+        </TabsContent>
+
+        {/* Lead Scoring Tab */}
+        <TabsContent value="lead-scoring">
+          <LeadScoringTab />
+        </TabsContent>
+
+        {/* Lead Assignment Tab */}
+        <TabsContent value="lead-assignment">
+          <LeadAssignmentTab />
+        </TabsContent>
+
+        {/* Products & Price Books Tab */}
+        <TabsContent value="products">
+          <ProductsTab />
+        </TabsContent>
+
+        {/* Webhooks Tab */}
+        <TabsContent value="webhooks">
+          <WebhooksTab />
+        </TabsContent>
+
         {/* Audit Logs Tab */}
         <TabsContent value="audit-logs">
           <AuditLogsTab />
@@ -1799,6 +1800,10 @@ export default function AdminConsole() {
               </CardContent>
             </Card>
           </div>
+
+          <BackupHistory />
+
+          <OrgBackupCard />
         </TabsContent>
 
         {/* Dynamics Import Tab */}
@@ -1998,6 +2003,21 @@ export default function AdminConsole() {
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div>
+                    <Label htmlFor="dynamics-queue-import" className="text-sm">Import into the active organization</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Queue the aligned CSV as a background import (new records only) instead of downloading it
+                    </p>
+                  </div>
+                  <Switch
+                    id="dynamics-queue-import"
+                    checked={dynamicsQueueImport}
+                    onCheckedChange={setDynamicsQueueImport}
+                    data-testid="switch-dynamics-queue-import"
+                  />
+                </div>
+
                 <div className="pt-4">
                   <Button
                     onClick={handleDynamicsTransform}
@@ -2006,7 +2026,7 @@ export default function AdminConsole() {
                     data-testid="button-transform-accounts"
                   >
                     <Download className="h-4 w-4 mr-2" />
-                    {transforming ? "Transforming..." : "Transform & Download Aligned CSV"}
+                    {transforming ? "Transforming..." : dynamicsQueueImport ? "Transform & Import" : "Transform & Download Aligned CSV"}
                   </Button>
                 </div>
 
@@ -2103,7 +2123,9 @@ export default function AdminConsole() {
         {isAdmin && (
           <TabsContent value="ai-config" className="space-y-4">
             <AiConfigTab />
-            <AzureWebSearchConfigSection />
+            <LlmBudgetSection />
+            <LlmPricesSection />
+            <WebSearchProviderSection />
           </TabsContent>
         )}
 
@@ -8,6 +8,9 @@ import { Button } from "@/components/ui/button";
 import { TrendingUp, TrendingDown, DollarSign, Target, Zap, Users, AlertTriangle, Filter, Lock } from "lucide-react";
 import { useFinancialAccess } from "@/hooks/use-financial-access";
 import { getOrgHeaders } from "@/lib/queryClient";
+import { useSalesProcess } from "@/hooks/use-sales-process";
+import { QuotaAttainmentRow, useQuotaAttainment } from "@/components/quota-attainment";
+import { QUOTA_PERIOD_TYPES, type QuotaPeriodType } from "@shared/schema";
 import {
   AreaChart,
   Area,
@@ -29,9 +32,13 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } f
 
 const DEFAULT_SELECTED_ROLES = ["Admin", "SalesRep"];
 
+// Open pipeline stages, colored by position in the sales process
+const PIPELINE_STAGE_COLORS = ["hsl(220, 70%, 50%)", "hsl(160, 70%, 45%)", "hsl(40, 85%, 50%)", "hsl(340, 70%, 50%)", "hsl(270, 60%, 55%)", "hsl(190, 70%, 45%)"];
+
 export default function AnalyticsPage() {
   const canViewFinancials = useFinancialAccess();
   const [selectedRoles, setSelectedRoles] = useState<string[]>(DEFAULT_SELECTED_ROLES);
+  const [quotaPeriod, setQuotaPeriod] = useState<QuotaPeriodType>("quarter");
 
   const { data: availableRoles } = useQuery<string[]>({ queryKey: ["/api/analytics/role-names"] });
 
@@ -57,7 +64,16 @@ export default function AnalyticsPage() {
   });
   const { data: repTimeseries } = useQuery<any>({ queryKey: ["/api/analytics/rep-performance/timeseries"] });
   const { data: repPipelineStages } = useQuery<any>({ queryKey: ["/api/analytics/rep-performance/pipeline-stages"] });
+  const { stageLabel } = useSalesProcess();
+  const pipelineStageKeys: string[] = repPipelineStages?.stages ?? [];
+  const pipelineStageColor = (i: number) => PIPELINE_STAGE_COLORS[i % PIPELINE_STAGE_COLORS.length];
   const { data: pipelineHealth } = useQuery<any>({ queryKey: ["/api/analytics/pipeline-health"] });
+  const { data: quotaAttainment } = useQuotaAttainment(quotaPeriod, canViewFinancials);
+
+  // A rep's overall quota (no category filter) for the ranking rows
+  const repQuota = (repId: string) =>
+    quotaAttainment?.reps.find((q) => q.userId === repId && !q.category) ??
+    quotaAttainment?.reps.find((q) => q.userId === repId);
 
   const toggleRole = (role: string) => {
     setSelectedRoles(prev =>
@@ -517,6 +533,50 @@ export default function AnalyticsPage() {
             </Card>
           )}
 
+          {canViewFinancials && quotaAttainment && (
+            <Card data-testid="card-rep-quota-attainment">
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <CardTitle>Quota Attainment - {quotaAttainment.periodLabel}</CardTitle>
+                    <CardDescription>
+                      Closed-won vs. quota, weighted pipeline coverage of the remaining quota, and pace through the period
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-1">
+                    {QUOTA_PERIOD_TYPES.map((period) => (
+                      <Button
+                        key={period}
+                        size="sm"
+                        variant={quotaPeriod === period ? "default" : "outline"}
+                        onClick={() => setQuotaPeriod(period)}
+                        data-testid={`quota-period-${period}`}
+                      >
+                        {period.charAt(0).toUpperCase() + period.slice(1)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {quotaAttainment.team.length === 0 && quotaAttainment.reps.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-4" data-testid="quota-empty">
+                    No quotas set for {quotaAttainment.periodLabel}.
+                  </div>
+                ) : (
+                  <>
+                    {quotaAttainment.team.map((entry) => (
+                      <QuotaAttainmentRow key={entry.quotaId} entry={entry} label="Team" />
+                    ))}
+                    {quotaAttainment.reps.map((entry) => (
+                      <QuotaAttainmentRow key={entry.quotaId} entry={entry} label={entry.userName ?? "Unknown"} />
+                    ))}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {canViewFinancials && repTimeseries && repTimeseries.repNames.length > 0 && (
             <Card>
               <CardHeader>
@@ -581,12 +641,10 @@ export default function AnalyticsPage() {
               </CardHeader>
               <CardContent>
                 <ChartContainer
-                  config={{
-                    prospecting: { label: "Prospecting", color: "hsl(220, 70%, 50%)" },
-                    qualification: { label: "Qualification", color: "hsl(160, 70%, 45%)" },
-                    proposal: { label: "Proposal", color: "hsl(40, 85%, 50%)" },
-                    negotiation: { label: "Negotiation", color: "hsl(340, 70%, 50%)" },
-                  }}
+                  config={Object.fromEntries(pipelineStageKeys.map((key, i) => [
+                    key,
+                    { label: stageLabel(key), color: pipelineStageColor(i) },
+                  ]))}
                   className="aspect-[2/1] w-full"
                   data-testid="chart-rep-pipeline-stages"
                 >
@@ -598,22 +656,28 @@ export default function AnalyticsPage() {
                       content={
                         <ChartTooltipContent
                           formatter={(value: any, name: any, item: any) => {
-                            const stage = name as string;
+                            const stage = (item?.dataKey ?? name) as string;
                             const countKey = `${stage}_count`;
                             const count = item?.payload?.[countKey] ?? 0;
                             return [
                               `${formatCurrency(value as number)} (${count} deal${count !== 1 ? "s" : ""})`,
-                              stage.charAt(0).toUpperCase() + stage.slice(1),
+                              stageLabel(stage),
                             ];
                           }}
                         />
                       }
                     />
                     <Legend />
-                    <Bar dataKey="prospecting" stackId="a" fill="hsl(220, 70%, 50%)" radius={[0, 0, 0, 0]} />
-                    <Bar dataKey="qualification" stackId="a" fill="hsl(160, 70%, 45%)" radius={[0, 0, 0, 0]} />
-                    <Bar dataKey="proposal" stackId="a" fill="hsl(40, 85%, 50%)" radius={[0, 0, 0, 0]} />
-                    <Bar dataKey="negotiation" stackId="a" fill="hsl(340, 70%, 50%)" radius={[4, 4, 0, 0]} />
+                    {pipelineStageKeys.map((key, i) => (
+                      <Bar
+                        key={key}
+                        dataKey={key}
+                        name={stageLabel(key)}
+                        stackId="a"
+                        fill={pipelineStageColor(i)}
+                        radius={i === pipelineStageKeys.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0]}
+                      />
+                    ))}
                   </BarChart>
                 </ChartContainer>
               </CardContent>
@@ -697,6 +761,12 @@ export default function AnalyticsPage() {
                             {formatCurrency(rep.pipelineValue)}
                           </div>
                         </div>
+                        <div className="text-right w-28">
+                          <div className="text-sm font-medium">{quotaAttainment?.periodLabel ?? "Quota"}</div>
+                          <div className="text-sm text-muted-foreground" data-testid={`text-rep-quota-${rep.rep.id}`}>
+                            {repQuota(rep.rep.id) ? `${formatPercent(repQuota(rep.rep.id)!.attainment)} of quota` : "No quota"}
+                          </div>
+                        </div>
                       </div>
                     ))}
                   </div>
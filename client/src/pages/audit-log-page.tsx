@@ -15,6 +15,7 @@ const actionColors: Record<string, string> = {
   update: "bg-blue-500",
   delete: "bg-red-500",
   convert: "bg-purple-500",
+  merge: "bg-orange-500",
 };
 
 export default function AuditLogPage() {
@@ -69,10 +69,11 @@ export default function ContactsPage() {
     ownerId: "",
     hasEmail: "",
     tagIds: [] as string[],
+    customFields: {} as Record<string, string>,
   });
   const [filterKey, setFilterKey] = useState(0);
   const [savedFilterInitial, setSavedFilterInitial] = useState<typeof filters | undefined>(undefined);
-  const hasActiveFilters = !!(filters.search || filters.accountId || filters.ownerId || filters.hasEmail || filters.tagIds.length > 0);
+  const hasActiveFilters = !!(filters.search || filters.accountId || filters.ownerId || filters.hasEmail || filters.tagIds.length > 0 || Object.keys(filters.customFields).length > 0);
 
   const handleApplySavedFilter = (saved: Record<string, any>) => {
     const newFilters = {
@@ -81,6 +82,7 @@ export default function ContactsPage() {
       ownerId: saved.ownerId ?? "",
       hasEmail: saved.hasEmail ?? "",
       tagIds: Array.isArray(saved.tagIds) ? saved.tagIds : [],
+      customFields: saved.customFields && typeof saved.customFields === "object" ? saved.customFields : {},
     };
     setSavedFilterInitial(newFilters);
     setFilters(newFilters);
@@ -102,6 +104,9 @@ export default function ContactsPage() {
     if (filters.accountId) params.append("accountId", filters.accountId);
     if (filters.ownerId) params.append("ownerId", filters.ownerId);
     if (filters.hasEmail) params.append("hasEmail", filters.hasEmail);
+    for (const [key, value] of Object.entries(filters.customFields)) {
+      params.append(`cf[${key}]`, value);
+    }
     params.append("sortBy", sortBy);
     params.append("sortOrder", sortOrder);
     return params.toString();
@@ -261,7 +266,7 @@ export default function ContactsPage() {
       }
     } else {
       // Reset all filters for "Total" card
-      setFilters({ search: "", accountId: "", ownerId: "", hasEmail: "", tagIds: [] });
+      setFilters({ search: "", accountId: "", ownerId: "", hasEmail: "", tagIds: [], customFields: {} });
     }
   }, []);
 
@@ -14,6 +14,9 @@ import { useFinancialAccess } from "@/hooks/use-financial-access";
 import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend, ReferenceLine } from "recharts";
 import { UpcomingActivitiesCard } from "@/components/upcoming-activities-card";
 import { NewExternalLeadsCard } from "@/components/new-external-leads-alert";
+import { QuotaAttainmentCard } from "@/components/quota-attainment";
+import { useAuth } from "@/hooks/use-auth";
+import { useSalesProcess } from "@/hooks/use-sales-process";
 import { useToast } from "@/hooks/use-toast";
 import { useOrg, type OrgSettings } from "@/contexts/org-context";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -52,16 +55,6 @@ type WaterfallDataPoint = {
   stageIndex?: number;
 };
 
-// Sales pipeline stages in order
-const PIPELINE_STAGES = [
-  { key: "prospecting", label: "Prospecting" },
-  { key: "qualification", label: "Qualification" },
-  { key: "proposal", label: "Proposal" },
-  { key: "negotiation", label: "Negotiation" },
-  { key: "closed_won", label: "Closed Won" },
-  { key: "closed_lost", label: "Closed Lost" },
-];
-
 const STAGE_COLORS = [
   "hsl(var(--chart-1))",
   "hsl(var(--chart-2))",
@@ -72,6 +65,8 @@ const STAGE_COLORS = [
 ];
 
 export default function Dashboard() {
+  // Sales pipeline stages in order
+  const { stages: pipelineStages, stageLabel } = useSalesProcess();
   const currentYear = new Date().getFullYear();
   const [selectedYear, setSelectedYear] = useState(currentYear);
   const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
@@ -84,6 +79,7 @@ export default function Dashboard() {
   const { toast } = useToast();
   const canViewFinancials = useFinancialAccess();
   const { activeOrg, activeOrgId, activeOrgRole } = useOrg();
+  const { user } = useAuth();
 
   // Annual sales target from org settings
   const orgSettings = activeOrg?.settings as OrgSettings | undefined;
@@ -228,7 +224,7 @@ export default function Dashboard() {
     }
     
     // Add progressive stages (excluding closed_lost)
-    PIPELINE_STAGES.filter(stage => stage.key !== "closed_lost").forEach((stage, index) => {
+    pipelineStages.filter(stage => stage.key !== "closed_lost").forEach((stage, index) => {
       const value = stageValues.get(stage.key) || 0;
       waterfallData.push({
         name: stage.label,
@@ -243,7 +239,7 @@ export default function Dashboard() {
     const closedLostValue = stageValues.get("closed_lost") || 0;
     if (closedLostValue > 0) {
       closedLostData.push({
-        name: "Closed Lost",
+        name: stageLabel("closed_lost"),
         value: closedLostValue,
         cumulative: closedLostValue,
         stageIndex: 99, // Special index for styling
@@ -576,6 +572,9 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Team and personal quota attainment for the current quarter */}
+      {canViewFinancials && <QuotaAttainmentCard userId={user?.id} />}
+
       {/* New Inbound Leads from website/email */}
       <NewExternalLeadsCard />
 
@@ -0,0 +1,319 @@
+// Duplicate review queue for Accounts and Contacts.
+// Scan for likely duplicates, compare pairs side by side, then merge or dismiss.
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, Copy, ScanSearch, GitMerge, X } from "lucide-react";
+import type { Account, Contact, DuplicateCandidate } from "@shared/schema";
+import { ACCOUNT_MERGE_FIELDS, CONTACT_MERGE_FIELDS } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type EntityPath = "accounts" | "contacts";
+type MergeRecord = (Account | Contact) & Record<string, unknown>;
+type CandidateWithRecords = DuplicateCandidate & { recordA: MergeRecord | null; recordB: MergeRecord | null };
+
+const REASON_LABELS: Record<string, string> = {
+  name: "Same name",
+  similar_name: "Similar name",
+  domain: "Same website",
+  phone: "Same phone",
+  email: "Same email",
+  same_account: "Same account",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  accountNumber: "Account Number",
+  billingAddress: "Billing Address",
+  shippingAddress: "Shipping Address",
+  externalId: "External ID",
+  sourceSystem: "Source System",
+  sourceRecordId: "Source Record ID",
+  ownerId: "Owner",
+  accountId: "Account",
+  firstName: "First Name",
+  lastName: "Last Name",
+  mailingStreet: "Mailing Street",
+  mailingCity: "Mailing City",
+  mailingState: "Mailing State",
+  mailingPostalCode: "Mailing Postal Code",
+  mailingCountry: "Mailing Country",
+};
+
+function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1);
+}
+
+function recordName(record: MergeRecord | null): string {
+  if (!record) return "(deleted)";
+  if ("name" in record && typeof record.name === "string") return record.name;
+  return `${record.firstName ?? ""} ${record.lastName ?? ""}`.trim();
+}
+
+function displayValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
+
+function DuplicateQueue({ entity }: { entity: EntityPath }) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const resource = entity === "accounts" ? "Account" : "Contact";
+  const [selected, setSelected] = useState<CandidateWithRecords | null>(null);
+  const [survivorSide, setSurvivorSide] = useState<"A" | "B">("A");
+  const [choices, setChoices] = useState<Record<string, "A" | "B">>({});
+
+  const { data: candidates = [], isLoading } = useQuery<CandidateWithRecords[]>({
+    queryKey: ["/api/duplicates", entity],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/duplicates", entity] });
+    queryClient.invalidateQueries({ queryKey: [`/api/${entity}`] });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/duplicates/${entity}/scan`);
+      return (await res.json()) as { found: number };
+    },
+    onSuccess: (data) => {
+      invalidate();
+      toast({ title: "Scan complete", description: `${data.found} candidate pair(s) found` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Scan failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/duplicates/${entity}/${id}/dismiss`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Marked as not a duplicate" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      if (!selected?.recordA || !selected.recordB) throw new Error("Both records are required to merge");
+      const survivor = survivorSide === "A" ? selected.recordA : selected.recordB;
+      const absorbed = survivorSide === "A" ? selected.recordB : selected.recordA;
+      const fieldChoices: Record<string, "survivor" | "absorbed"> = {};
+      for (const [field, side] of Object.entries(choices)) {
+        fieldChoices[field] = side === survivorSide ? "survivor" : "absorbed";
+      }
+      const res = await apiRequest("POST", `/api/duplicates/${entity}/merge`, {
+        survivorId: survivor.id,
+        absorbedId: absorbed.id,
+        fieldChoices,
+        candidateId: selected.id,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setSelected(null);
+      toast({ title: "Records merged" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Merge failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCompare = (candidate: CandidateWithRecords) => {
+    setSelected(candidate);
+    setSurvivorSide("A");
+    setChoices({});
+  };
+
+  const fields: readonly string[] = entity === "accounts" ? ACCOUNT_MERGE_FIELDS : CONTACT_MERGE_FIELDS;
+  const canMerge = can(resource, "delete");
+
+  // Default pick per field mirrors the server: the survivor's value unless it is empty
+  const sideFor = (field: string): "A" | "B" => {
+    if (choices[field]) return choices[field];
+    if (!selected?.recordA || !selected.recordB) return survivorSide;
+    const survivor = survivorSide === "A" ? selected.recordA : selected.recordB;
+    const other = survivorSide === "A" ? selected.recordB : selected.recordA;
+    const empty = (v: unknown) => v === null || v === undefined || v === "";
+    return empty(survivor[field]) && !empty(other[field]) ? (survivorSide === "A" ? "B" : "A") : survivorSide;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Pending pairs ({candidates.length})
+        </CardTitle>
+        {can(resource, "update") && (
+          <Button onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending} data-testid={`button-scan-${entity}`}>
+            {scanMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanSearch className="h-4 w-4 mr-2" />}
+            Scan for duplicates
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : candidates.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground" data-testid={`text-no-duplicates-${entity}`}>
+            <Copy className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No pending duplicates. Run a scan to check for new ones.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Record A</TableHead>
+                <TableHead>Record B</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Matched on</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {candidates.map((c) => (
+                <TableRow key={c.id} data-testid={`row-duplicate-${c.id}`}>
+                  <TableCell>
+                    <Link href={`/${entity}/${c.recordIdA}`} className="font-medium hover:underline">{recordName(c.recordA)}</Link>
+                    <p className="font-mono text-xs text-muted-foreground">{c.recordIdA}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Link href={`/${entity}/${c.recordIdB}`} className="font-medium hover:underline">{recordName(c.recordB)}</Link>
+                    <p className="font-mono text-xs text-muted-foreground">{c.recordIdB}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={c.score >= 80 ? "destructive" : "secondary"} data-testid={`badge-score-${c.id}`}>{c.score}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {c.reasons.map((r) => (
+                        <Badge key={r} variant="outline" className="text-xs">{REASON_LABELS[r] ?? r}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    {canMerge && c.recordA && c.recordB && (
+                      <Button size="sm" onClick={() => openCompare(c)} data-testid={`button-review-${c.id}`}>
+                        <GitMerge className="h-4 w-4 mr-1" />
+                        Review
+                      </Button>
+                    )}
+                    {can(resource, "update") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => dismissMutation.mutate(c.id)}
+                        disabled={dismissMutation.isPending}
+                        data-testid={`button-dismiss-${c.id}`}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Not a duplicate
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge {entity}</DialogTitle>
+            <DialogDescription>
+              Choose the surviving record and which value to keep for each field. Related records move to the survivor and
+              the other record's ID keeps resolving to it.
+            </DialogDescription>
+          </DialogHeader>
+          {selected?.recordA && selected.recordB && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-[10rem_1fr_1fr] gap-2 items-center text-sm">
+                <span className="font-medium text-muted-foreground">Survivor</span>
+                {(["A", "B"] as const).map((side) => (
+                  <Button
+                    key={side}
+                    size="sm"
+                    variant={survivorSide === side ? "default" : "outline"}
+                    onClick={() => { setSurvivorSide(side); setChoices({}); }}
+                    data-testid={`button-survivor-${side}`}
+                  >
+                    Keep {side === "A" ? selected.recordIdA : selected.recordIdB}
+                  </Button>
+                ))}
+              </div>
+              {fields.map((field) => {
+                const a = selected.recordA![field];
+                const b = selected.recordB![field];
+                return (
+                  <RadioGroup
+                    key={field}
+                    value={sideFor(field)}
+                    onValueChange={(v) => setChoices((prev) => ({ ...prev, [field]: v as "A" | "B" }))}
+                    className="grid grid-cols-[10rem_1fr_1fr] gap-2 items-center text-sm"
+                    data-testid={`merge-field-${field}`}
+                  >
+                    <span className="font-medium text-muted-foreground">{fieldLabel(field)}</span>
+                    {(["A", "B"] as const).map((side) => (
+                      <label key={side} className="flex items-center gap-2 min-w-0">
+                        <RadioGroupItem value={side} disabled={a === b} />
+                        <span className="truncate">{displayValue(side === "A" ? a : b)}</span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                );
+              })}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button onClick={() => mergeMutation.mutate()} disabled={mergeMutation.isPending} data-testid="button-confirm-merge">
+              {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge records
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default function DuplicatesPage() {
+  const { can } = usePermissions();
+  const defaultTab = can("Account", "read") ? "accounts" : "contacts";
+
+  return (
+    <div className="space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Duplicates</h1>
+        <p className="text-muted-foreground">Review likely duplicate accounts and contacts and merge them</p>
+      </div>
+
+      <Tabs defaultValue={defaultTab} className="space-y-4">
+        <TabsList>
+          {can("Account", "read") && <TabsTrigger value="accounts" data-testid="tab-duplicate-accounts">Accounts</TabsTrigger>}
+          {can("Contact", "read") && <TabsTrigger value="contacts" data-testid="tab-duplicate-contacts">Contacts</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="accounts"><DuplicateQueue entity="accounts" /></TabsContent>
+        <TabsContent value="contacts"><DuplicateQueue entity="contacts" /></TabsContent>
+      </Tabs>
+    </div>
+  );
+}
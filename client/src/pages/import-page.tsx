@@ -1,9 +1,9 @@
 // CSV Import page for bulk data migration
 // Based on design_guidelines.md enterprise SaaS patterns
 
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { Upload, FileText, AlertCircle, CheckCircle, XCircle, Download } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Upload, FileText, AlertCircle, CheckCircle, XCircle, Download, RefreshCw, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -11,19 +11,78 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { getOrgHeaders } from "@/lib/queryClient";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { getOrgHeaders, queryClient } from "@/lib/queryClient";
+import {
+  ImportColumnMapping,
+  autoMapColumns,
+  parseCsvHeaders,
+  toRequestMapping,
+  type ColumnMapping,
+  type ImportFieldInfo,
+} from "@/components/import-column-mapping";
+import { ImportJobProgress, RecentImportJobs, type ImportJobSummary } from "@/components/import-jobs";
+import type { CsvImportEntity, CsvImportMatchField, CsvImportMode, CustomFieldEntityType } from "@shared/schema";
 
-type EntityType = "accounts" | "contacts" | "leads" | "opportunities" | "activities";
+type EntityType = CsvImportEntity;
+
+const CUSTOM_FIELD_ENTITY: Record<EntityType, CustomFieldEntityType> = {
+  accounts: "account",
+  contacts: "contact",
+  leads: "lead",
+  opportunities: "opportunity",
+  activities: "activity",
+};
+
+const MODE_LABELS: Record<CsvImportMode, string> = {
+  insert: "Insert only (skip existing)",
+  update: "Update existing (skip new)",
+  upsert: "Upsert (update existing, insert new)",
+};
+
+const MATCH_LABELS: Record<CsvImportMatchField, string> = {
+  id: "ID",
+  externalId: "External ID",
+  email: "Email",
+  name: "Name",
+};
+
+// Default matching: external ID, then ID
+const DEFAULT_MATCH = "default";
+
+type RowAction = "create" | "update" | "unchanged" | "skip" | "error";
+
+const ACTION_BADGES: Record<RowAction, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  create: { label: "Create", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+  skip: { label: "Skip", variant: "outline" },
+  error: { label: "Error", variant: "destructive" },
+};
 
 interface ImportResult {
+  mode: CsvImportMode;
+  dryRun: boolean;
   total: number;
   success: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
   failed: number;
   errors: Array<{
     row: number;
     error: string;
     data: any;
   }>;
+  rows?: Array<{
+    row: number;
+    action: RowAction;
+    id: string | null;
+    matchedBy?: CsvImportMatchField;
+    changes?: Array<{ field: string; before: string | null; after: string | null }>;
+    error?: string;
+  }>;
 }
 
 export default function ImportPage() {
@@ -33,9 +92,24 @@ export default function ImportPage() {
   const [preview, setPreview] = useState<string | null>(null);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [mode, setMode] = useState<CsvImportMode>("insert");
+  const [matchOn, setMatchOn] = useState<string>(DEFAULT_MATCH);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { fields: customFields } = useCustomFields(CUSTOM_FIELD_ENTITY[entityType]);
+
+  const { data: fieldInfo } = useQuery<ImportFieldInfo>({
+    queryKey: ["/api/import", entityType, "fields"],
+  });
+
+  // Re-map whenever the file or target entity changes
+  useEffect(() => {
+    setColumnMapping(fieldInfo ? autoMapColumns(headers, fieldInfo.fields) : {});
+  }, [headers, fieldInfo]);
 
   const importMutation = useMutation({
-    mutationFn: async ({ file, entity }: { file: File; entity: EntityType }) => {
+    mutationFn: async ({ file, entity, dryRun }: { file: File; entity: EntityType; dryRun: boolean }) => {
       // Fetch CSRF token before making the import request
       const csrfRes = await fetch("/api/csrf-token", {
         credentials: "include",
@@ -50,6 +124,15 @@ export default function ImportPage() {
       // Prepare FormData with file
       const formData = new FormData();
       formData.append("file", file);
+      formData.append("mode", mode);
+      formData.append("dryRun", String(dryRun));
+      if (matchOn !== DEFAULT_MATCH) {
+        formData.append("matchOn", matchOn);
+      }
+      const mapping = toRequestMapping(columnMapping);
+      if (Object.keys(mapping).length > 0) {
+        formData.append("mapping", JSON.stringify(mapping));
+      }
       
       // Make import request with CSRF token in header
       const importUrl = `/api/import/${entity}`;
@@ -70,17 +153,17 @@ export default function ImportPage() {
       
       return await res.json();
     },
-    onSuccess: (data: ImportResult) => {
-      setResult(data);
-      if (data.failed === 0) {
-        toast({ title: `Successfully imported ${data.success} records` });
-      } else {
-        toast({
-          title: `Import completed with errors`,
-          description: `${data.success} succeeded, ${data.failed} failed`,
-          variant: "destructive",
-        });
+    // Dry runs return the preview; real imports are queued as a background job
+    onSuccess: (data: ImportResult | { job: ImportJobSummary }) => {
+      if ("job" in data) {
+        setResult(null);
+        setJobId(data.job.id);
+        queryClient.invalidateQueries({ queryKey: ["/api/import/jobs"] });
+        toast({ title: "Import started", description: `${data.job.totalRows} rows queued. You can leave this page; the import keeps running.` });
+        return;
       }
+      setResult(data);
+      toast({ title: "Preview ready", description: `${data.created} to create, ${data.updated} to update, ${data.failed} with errors` });
     },
     onError: (error: Error) => {
       toast({ title: "Import failed", description: error.message, variant: "destructive" });
@@ -98,10 +181,12 @@ export default function ImportPage() {
         // Show first 5 lines as preview
         const lines = text.split("\n").slice(0, 6).join("\n");
         setPreview(lines);
+        setHeaders(parseCsvHeaders(text));
       };
       reader.readAsText(selectedFile);
     } else {
       setPreview(null);
+      setHeaders([]);
     }
   };
 
@@ -126,13 +211,20 @@ export default function ImportPage() {
     setIsDragOver(false);
   };
 
-  const handleImport = () => {
+  const handleImport = (dryRun: boolean) => {
     if (!file) {
       toast({ title: "No file selected", variant: "destructive" });
       return;
     }
     
-    importMutation.mutate({ file, entity: entityType });
+    importMutation.mutate({ file, entity: entityType, dryRun });
+  };
+
+  const handleEntityChange = (entity: EntityType) => {
+    setEntityType(entity);
+    setMatchOn(DEFAULT_MATCH);
+    setResult(null);
+    setJobId(null);
   };
 
   const downloadTemplate = () => {
@@ -146,7 +238,7 @@ export default function ImportPage() {
         headers = "id,firstName,lastName,email,phone,title,accountId";
         break;
       case "leads":
-        headers = "id,firstName,lastName,company,email,phone,topic,status,source,externalId,sourceSystem,sourceRecordId,importStatus,importNotes";
+        headers = "id,firstName,lastName,company,email,phone,topic,status,source,state,country,externalId,sourceSystem,sourceRecordId,importStatus,importNotes";
         break;
       case "opportunities":
         headers = "id,name,accountId,amount,stage,probability,closeDate";
@@ -155,6 +247,10 @@ export default function ImportPage() {
         headers = "id,type,subject,dueAt,completedAt,relatedType,relatedId,notes";
         break;
     }
+    // Custom fields import from "cf:<key>" columns
+    for (const field of customFields) {
+      headers += `,cf:${field.key}`;
+    }
     
     const blob = new Blob([headers + "\n"], { type: "text/csv" });
     const url = window.URL.createObjectURL(blob);
@@ -187,7 +283,7 @@ export default function ImportPage() {
           <div className="flex gap-4">
             <div className="flex-1">
               <label className="text-sm font-medium mb-2 block">Entity Type</label>
-              <Select value={entityType} onValueChange={(v) => setEntityType(v as EntityType)}>
+              <Select value={entityType} onValueChange={(v) => handleEntityChange(v as EntityType)}>
                 <SelectTrigger data-testid="select-entity-type">
                   <SelectValue />
                 </SelectTrigger>
@@ -200,6 +296,33 @@ export default function ImportPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Import Mode</label>
+              <Select value={mode} onValueChange={(v) => { setMode(v as CsvImportMode); setResult(null); }}>
+                <SelectTrigger data-testid="select-import-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODE_LABELS) as CsvImportMode[]).map(value => (
+                    <SelectItem key={value} value={value}>{MODE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Match Existing Records On</label>
+              <Select value={matchOn} onValueChange={(v) => { setMatchOn(v); setResult(null); }}>
+                <SelectTrigger data-testid="select-match-on">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_MATCH}>External ID, then ID</SelectItem>
+                  {fieldInfo?.matchFields.map(field => (
+                    <SelectItem key={field} value={field}>{MATCH_LABELS[field]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex items-end">
               <Button variant="outline" onClick={downloadTemplate} data-testid="button-download-template">
                 <Download className="h-4 w-4 mr-2" />
@@ -262,13 +385,35 @@ export default function ImportPage() {
             </div>
           )}
 
+          {headers.length > 0 && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Column Mapping</label>
+              <ImportColumnMapping
+                entity={entityType}
+                headers={headers}
+                fieldInfo={fieldInfo}
+                mapping={columnMapping}
+                onChange={(mapping) => { setColumnMapping(mapping); setResult(null); }}
+              />
+            </div>
+          )}
+
           <div className="flex gap-2">
             <Button
-              onClick={handleImport}
+              variant="outline"
+              onClick={() => handleImport(true)}
+              disabled={!file || importMutation.isPending}
+              data-testid="button-preview-import"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview Changes
+            </Button>
+            <Button
+              onClick={() => handleImport(false)}
               disabled={!file || importMutation.isPending}
               data-testid="button-import"
             >
-              {importMutation.isPending ? "Importing..." : "Import Data"}
+              {importMutation.isPending ? "Uploading..." : "Import Data"}
             </Button>
             {file && !importMutation.isPending && (
               <Button
@@ -276,6 +421,7 @@ export default function ImportPage() {
                 onClick={() => {
                   setFile(null);
                   setPreview(null);
+                  setHeaders([]);
                   setResult(null);
                 }}
                 data-testid="button-reset"
@@ -287,11 +433,15 @@ export default function ImportPage() {
         </CardContent>
       </Card>
 
+      {jobId && <ImportJobProgress jobId={jobId} />}
+
       {result && (
         <Card>
           <CardHeader>
-            <CardTitle>Import Results</CardTitle>
-            <CardDescription>Summary of the import operation</CardDescription>
+            <CardTitle>Import Preview</CardTitle>
+            <CardDescription>
+              Nothing has been saved yet. Review the changes below, then import.
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-3 gap-4">
@@ -306,7 +456,9 @@ export default function ImportPage() {
                 <CheckCircle className="h-5 w-5 text-green-500" />
                 <div>
                   <p className="text-2xl font-semibold text-green-500">{result.success}</p>
-                  <p className="text-sm text-muted-foreground">Successful</p>
+                  <p className="text-sm text-muted-foreground">
+                    Would Succeed ({result.created} new, {result.updated} updated)
+                  </p>
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -318,12 +470,70 @@ export default function ImportPage() {
               </div>
             </div>
 
+            {(result.skipped > 0 || result.unchanged > 0) && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-import-skipped">
+                <RefreshCw className="h-4 w-4" />
+                {result.skipped} skipped, {result.unchanged} already up to date
+              </div>
+            )}
+
+            {result.rows && result.rows.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">Row Changes</h3>
+                <Table data-testid="table-import-preview">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_BADGES[row.action].variant}>{ACTION_BADGES[row.action].label}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {row.id ?? (row.action === "create" ? "New ID" : "—")}
+                          {row.matchedBy && (
+                            <span className="block text-xs text-muted-foreground">matched on {MATCH_LABELS[row.matchedBy]}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.error ? (
+                            <span className="text-destructive">{row.error}</span>
+                          ) : row.changes && row.changes.length > 0 ? (
+                            <ul className="space-y-0.5">
+                              {row.changes.map((change) => (
+                                <li key={change.field}>
+                                  <span className="font-medium">{change.field}</span>:{" "}
+                                  {row.action === "update" && (
+                                    <><span className="text-muted-foreground line-through">{change.before ?? "empty"}</span> → </>
+                                  )}
+                                  {change.after ?? "empty"}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
             {result.failed > 0 && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
                 <AlertTitle>Import Errors</AlertTitle>
                 <AlertDescription>
-                  {result.failed} record(s) failed to import. See details below.
+                  {result.failed} record(s) would fail to import. See details below.
                 </AlertDescription>
               </Alert>
             )}
@@ -361,18 +571,22 @@ export default function ImportPage() {
         </Card>
       )}
 
+      <RecentImportJobs entity={entityType} selectedJobId={jobId} onSelect={setJobId} />
+
       <Card>
         <CardHeader>
           <CardTitle>Import Guidelines</CardTitle>
         </CardHeader>
         <CardContent className="space-y-2 text-sm text-muted-foreground">
           <ul className="list-disc list-inside space-y-1">
-            <li>CSV file must have a header row with column names</li>
+            <li>CSV file must have a header row with column names. Map headers that don't match field names in the Column Mapping step, and save the mapping as a template to reuse it.</li>
+            <li><strong className="text-foreground">Import modes:</strong> Insert only skips records that already exist. Update existing and Upsert change matched records; empty cells never clear existing values. Use Preview Changes to see what would change before importing.</li>
             <li><strong className="text-foreground">Custom IDs are preserved:</strong> If migrating from Dynamics 365 or other systems, include your existing IDs in the CSV to maintain references in downstream systems. Leave empty for auto-generation.</li>
             <li>Required fields must be filled (firstName, lastName for contacts/leads)</li>
             <li>Dates should be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss)</li>
             <li>For relationships, use the ID of the related record (e.g., accountId for contacts)</li>
-            <li>All imported records will be assigned to you as the owner</li>
+            <li>New records will be assigned to you as the owner; updates keep the existing owner</li>
+            <li><strong className="text-foreground">Imports run in the background:</strong> pause or cancel a running import, download its failed rows (with the reason in an extra column) to fix and re-import, or roll it back to delete the records it created.</li>
           </ul>
         </CardContent>
       </Card>
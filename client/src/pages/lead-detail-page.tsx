@@ -4,8 +4,11 @@ import { useRoute, useLocation } from "wouter";
 import { Loader2, ArrowRight } from "lucide-react";
 import { DetailPageLayout, DetailSection, DetailField } from "@/components/detail-page-layout";
 import { RelatedEntitiesSection } from "@/components/related-entities-section";
+import { LeadScoreCard } from "@/components/lead-score";
+import { LeadRoutingCard } from "@/components/lead-routing-card";
 import { CommentSystem } from "@/components/comment-system";
 import { DocumentsSection } from "@/components/documents-section";
+import { CustomFieldsSection } from "@/components/custom-fields-section";
 import { ResearchDocumentsPanel } from "@/components/research-documents-panel";
 import { LeadConversionWizard } from "@/components/lead-conversion-wizard";
 import { QuickLogActivity } from "@/components/quick-log-activity";
@@ -142,6 +145,8 @@ export default function LeadDetailPage() {
       email: "",
       phone: "",
       topic: "",
+      state: "",
+      country: "",
       status: "new",
       source: undefined,
       rating: undefined,
@@ -160,6 +165,8 @@ export default function LeadDetailPage() {
         email: lead.email || "",
         phone: lead.phone || "",
         topic: lead.topic || "",
+        state: lead.state || "",
+        country: lead.country || "",
         status: lead.status,
         source: lead.source || undefined,
         rating: lead.rating || undefined,
@@ -234,6 +241,8 @@ export default function LeadDetailPage() {
               <DetailField label="Phone" value={lead.phone} type="phone" />
               <DetailField label="Topic" value={lead.topic} />
               <DetailField label="Source" value={lead.source} />
+              <DetailField label="State / Region" value={lead.state} />
+              <DetailField label="Country" value={lead.country} />
               <DetailField
                 label="Assigned Sales Rep"
                 value={lead.ownerId ? (users?.find(u => u.id === lead.ownerId)?.name ?? "Unknown") : "Unassigned"}
@@ -259,6 +268,8 @@ export default function LeadDetailPage() {
               </div>
             </DetailSection>
 
+            <CustomFieldsSection entityType="lead" entityId={lead.id} values={lead.customFields} />
+
             <Card data-testid="section-tags">
               <CardHeader>
                 <CardTitle>Tags</CardTitle>
@@ -288,6 +299,10 @@ export default function LeadDetailPage() {
           </div>
 
           <div className="space-y-6">
+            <LeadScoreCard score={lead.score} breakdown={lead.scoreBreakdown} scoredAt={lead.scoredAt} />
+
+            <LeadRoutingCard leadId={lead.id} />
+
             {!isConverted && (
               <Card>
                 <CardHeader>
@@ -478,6 +493,34 @@ export default function LeadDetailPage() {
                 )}
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>State / Region</FormLabel>
+                    <FormControl>
+                      <Input placeholder="CA" {...field} value={field.value || ""} data-testid="input-edit-state" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="country"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Country</FormLabel>
+                    <FormControl>
+                      <Input placeholder="United States" {...field} value={field.value || ""} data-testid="input-edit-country" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             <FormField
               control={form.control}
               name="topic"
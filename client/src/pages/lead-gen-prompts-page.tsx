@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Save, Eye, RotateCcw, History, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { promptVersionLabel } from "@/components/lead-gen-prompt-versions";
+import type { LeadGenPromptKey, LeadGenPromptTemplate } from "@shared/schema";
+
+interface PromptTemplateSummary {
+  key: LeadGenPromptKey;
+  phase: string;
+  label: string;
+  description: string;
+  variables: Array<{ name: string; description: string }>;
+  systemPrompt: string;
+  userPrompt: string;
+  active: LeadGenPromptTemplate | null;
+  versionCount: number;
+}
+
+interface PromptPreviewRun {
+  runId: string;
+  runName: string;
+  createdAt: string;
+  version: number | null;
+}
+
+interface PromptPreview {
+  runId: string;
+  stepName: string;
+  systemPrompt: string;
+  userPrompt: string;
+  variables: Record<string, string>;
+  unknownVariables: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+function placeholderNames(...templates: string[]): string[] {
+  const names = new Set<string>();
+  for (const template of templates) {
+    for (const match of template.matchAll(PLACEHOLDER)) names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+export default function LeadGenPromptsPage() {
+  const { toast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<LeadGenPromptKey>(
+    () => (new URLSearchParams(window.location.search).get("prompt") as LeadGenPromptKey | null) ?? "market_research",
+  );
+  const [loadedKey, setLoadedKey] = useState<LeadGenPromptKey | null>(null);
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [userPrompt, setUserPrompt] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+  const [previewRunId, setPreviewRunId] = useState("");
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+
+  const { data: templates, isLoading } = useQuery<PromptTemplateSummary[]>({
+    queryKey: ["/api/lead-gen/prompt-templates"],
+  });
+  const { data: versions = [] } = useQuery<LeadGenPromptTemplate[]>({
+    queryKey: ["/api/lead-gen/prompt-templates", selectedKey, "versions"],
+  });
+  const { data: previewRuns = [] } = useQuery<PromptPreviewRun[]>({
+    queryKey: ["/api/lead-gen/prompt-templates", selectedKey, "preview-runs"],
+  });
+
+  const selected = templates?.find(t => t.key === selectedKey) ?? templates?.[0];
+  const current = selected ? (selected.active ?? { systemPrompt: selected.systemPrompt, userPrompt: selected.userPrompt }) : null;
+
+  if (selected && current && loadedKey !== selected.key) {
+    setSystemPrompt(current.systemPrompt);
+    setUserPrompt(current.userPrompt);
+    setChangeNote("");
+    setPreview(null);
+    setLoadedKey(selected.key);
+  }
+
+  const selectPrompt = (key: LeadGenPromptKey) => {
+    setSelectedKey(key);
+    setPreviewRunId("");
+    setLoadedKey(null);
+  };
+
+  const reload = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lead-gen/prompt-templates"] });
+    setLoadedKey(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/lead-gen/prompt-templates/${selectedKey}/versions`, {
+        systemPrompt,
+        userPrompt,
+        changeNote: changeNote.trim() || null,
+      });
+      return res.json() as Promise<LeadGenPromptTemplate>;
+    },
+    onSuccess: (saved) => {
+      reload();
+      toast({ title: `Saved version ${saved.version}`, description: "New runs and retried phases use it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save prompt", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (version: number | null) => {
+      const res = await apiRequest("POST", `/api/lead-gen/prompt-templates/${selectedKey}/activate`, { version });
+      return res.json();
+    },
+    onSuccess: (_data, version) => {
+      reload();
+      toast({ title: version === null ? "Switched to the built-in prompt" : `Version ${version} is active` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to activate version", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/lead-gen/prompt-templates/${selectedKey}/preview`, {
+        systemPrompt,
+        userPrompt,
+        runId: previewRunId,
+      });
+      return res.json() as Promise<PromptPreview>;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !templates) {
+    return (
+      <div className="flex items-center justify-center h-full p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const knownVariables = new Set(selected?.variables.map(variable => variable.name) ?? []);
+  const unknownVariables = placeholderNames(systemPrompt, userPrompt).filter(name => !knownVariables.has(name));
+  const isDirty = !!current && (systemPrompt !== current.systemPrompt || userPrompt !== current.userPrompt);
+  const canSave = isDirty && systemPrompt.trim() !== "" && userPrompt.trim() !== "" && unknownVariables.length === 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Prompt Templates</h1>
+        <p className="text-muted-foreground">
+          Tune the prompts each lead generation phase sends to the AI. Saving adds a version; runs record which version they used.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+        <Card className="h-fit">
+          <CardContent className="p-2 space-y-1">
+            {templates.map(template => (
+              <button
+                key={template.key}
+                className={`w-full text-left rounded-md px-3 py-2 hover-elevate ${template.key === selected?.key ? "bg-accent" : ""}`}
+                onClick={() => selectPrompt(template.key)}
+                data-testid={`button-prompt-${template.key}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{template.label}</span>
+                  <Badge variant={template.active ? "secondary" : "outline"} className="shrink-0">
+                    {promptVersionLabel(template.active?.version)}
+                  </Badge>
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <div className="space-y-6 min-w-0">
+            <Card>
+              <CardHeader>
+                <CardTitle>{selected.label}</CardTitle>
+                <CardDescription>{selected.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-system">System prompt</Label>
+                  <Textarea
+                    id="prompt-system"
+                    className="font-mono text-xs min-h-[140px]"
+                    value={systemPrompt}
+                    onChange={(e) => setSystemPrompt(e.target.value)}
+                    data-testid="input-prompt-system"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-user">User prompt</Label>
+                  <Textarea
+                    id="prompt-user"
+                    className="font-mono text-xs min-h-[320px]"
+                    value={userPrompt}
+                    onChange={(e) => setUserPrompt(e.target.value)}
+                    data-testid="input-prompt-user"
+                  />
+                </div>
+
+                {unknownVariables.length > 0 && (
+                  <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-prompt-unknown-variables">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    Unknown variables: {unknownVariables.map(name => `{{${name}}}`).join(", ")}
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Variables</Label>
+                  <div className="grid gap-x-6 gap-y-1 md:grid-cols-2">
+                    {selected.variables.map(variable => (
+                      <div key={variable.name} className="text-xs" data-testid={`prompt-variable-${variable.name}`}>
+                        <code className="font-mono text-foreground">{`{{${variable.name}}}`}</code>
+                        <span className="text-muted-foreground"> — {variable.description}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-2 flex-1 min-w-[220px]">
+                    <Label htmlFor="prompt-change-note">Change note (optional)</Label>
+                    <Input
+                      id="prompt-change-note"
+                      placeholder="e.g. Warmer tone for first-touch emails"
+                      value={changeNote}
+                      onChange={(e) => setChangeNote(e.target.value)}
+                      data-testid="input-prompt-change-note"
+                    />
+                  </div>
+                  <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-prompt">
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : "Save as New Version"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => { setSystemPrompt(selected.systemPrompt); setUserPrompt(selected.userPrompt); }}
+                    data-testid="button-load-built-in-prompt"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Load Built-in Text
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Eye className="h-5 w-5" />
+                  Preview
+                </CardTitle>
+                <CardDescription>Render the prompt above with the inputs a past run used for it, without calling the AI.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {previewRuns.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No runs have recorded inputs for this prompt yet. Runs record them as they reach this phase.</p>
+                ) : (
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div className="space-y-2 flex-1 min-w-[220px]">
+                      <Label htmlFor="prompt-preview-run">Run</Label>
+                      <Select value={previewRunId} onValueChange={setPreviewRunId}>
+                        <SelectTrigger id="prompt-preview-run" data-testid="select-prompt-preview-run">
+                          <SelectValue placeholder="Choose a run" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {previewRuns.map(run => (
+                            <SelectItem key={run.runId} value={run.runId}>
+                              {run.runName} · {new Date(run.createdAt).toLocaleDateString()} · {promptVersionLabel(run.version)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => previewMutation.mutate()}
+                      disabled={!previewRunId || previewMutation.isPending}
+                      data-testid="button-preview-prompt"
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      {previewMutation.isPending ? "Rendering..." : "Preview"}
+                    </Button>
+                  </div>
+                )}
+
+                {preview && (
+                  <div className="space-y-3" data-testid="prompt-preview">
+                    <p className="text-xs text-muted-foreground">Inputs from step {preview.stepName}</p>
+                    <div className="space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">System</p>
+                      <pre className="whitespace-pre-wrap text-xs bg-muted rounded-md p-3 max-h-64 overflow-auto">{preview.systemPrompt}</pre>
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">User</p>
+                      <pre className="whitespace-pre-wrap text-xs bg-muted rounded-md p-3 max-h-96 overflow-auto">{preview.userPrompt}</pre>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Version History
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <table className="w-full text-sm">
+                  <tbody>
+                    {versions.map(version => (
+                      <tr key={version.id} className="border-b" data-testid={`row-prompt-version-${version.version}`}>
+                        <td className="py-2 px-4 font-medium w-16">v{version.version}</td>
+                        <td className="py-2 px-4 text-muted-foreground">
+                          {version.changeNote || <span className="italic">No change note</span>}
+                          <div className="text-xs">{new Date(version.createdAt).toLocaleString()}</div>
+                        </td>
+                        <td className="py-2 px-4 text-right whitespace-nowrap">
+                          {version.isActive ? (
+                            <Badge variant="secondary">Active</Badge>
+                          ) : (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => { setSystemPrompt(version.systemPrompt); setUserPrompt(version.userPrompt); }}
+                                data-testid={`button-load-prompt-version-${version.version}`}
+                              >
+                                Load
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => activateMutation.mutate(version.version)}
+                                disabled={activateMutation.isPending}
+                                data-testid={`button-activate-prompt-version-${version.version}`}
+                              >
+                                Activate
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    <tr data-testid="row-prompt-version-built-in">
+                      <td className="py-2 px-4 font-medium w-16">Built-in</td>
+                      <td className="py-2 px-4 text-muted-foreground">The prompt lead generation ships with</td>
+                      <td className="py-2 px-4 text-right">
+                        {selected.active ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => activateMutation.mutate(null)}
+                            disabled={activateMutation.isPending}
+                            data-testid="button-activate-prompt-built-in"
+                          >
+                            Activate
+                          </Button>
+                        ) : (
+                          <Badge variant="secondary">Active</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
   Cell,
 } from "recharts";
 import type { LeadGenerationRun } from "@shared/schema";
+import { LlmUsageReport } from "@/components/llm-usage-report";
 
 interface ReportRow {
   runId: string;
@@ -191,6 +192,7 @@ export default function LeadGenReportsPage() {
           <TabsList>
             <TabsTrigger value="run-cards" data-testid="tab-run-cards">Run Summary Cards</TabsTrigger>
             <TabsTrigger value="analytics" data-testid="tab-analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="ai-usage" data-testid="tab-ai-usage">AI Usage &amp; Cost</TabsTrigger>
           </TabsList>
 
           {/* Run Cards Tab */}
@@ -532,6 +534,11 @@ export default function LeadGenReportsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* AI Usage Tab — organization-wide, not narrowed by the run filter */}
+          <TabsContent value="ai-usage" className="space-y-4">
+            <LlmUsageReport onOpenRun={(runId) => setLocation(`/lead-gen/runs/${runId}`)} />
+          </TabsContent>
         </Tabs>
       )}
     </div>
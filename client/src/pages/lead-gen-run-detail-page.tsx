@@ -4,7 +4,7 @@ import { useParams, useLocation } from "wouter";
 import {
   Loader2, Plus, ArrowLeft, Play, ArrowRight, CheckCircle2,
   Download, ClipboardList, Users, Search, Lightbulb, MessageSquare, Building2,
-  RefreshCw, AlertCircle, CheckCircle, Square, ChevronDown, ChevronRight, Terminal, XCircle
+  RefreshCw, AlertCircle, CheckCircle, Square, ChevronDown, ChevronRight, Terminal, XCircle, Coins
 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/hooks/use-auth";
@@ -19,7 +19,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, getOrgHeaders } from "@/lib/queryClient";
-import type { LeadGenerationRun, CandidateLead, TaskPlaybook } from "@shared/schema";
+import type { AgentStepPromptTemplate, LeadGenerationRun, LeadGenJob, CandidateLead, TaskPlaybook } from "@shared/schema";
+import { formatCostUsd, type LlmUsageTotals } from "@/components/llm-usage-report";
+import { RunPromptTemplatesCard, promptVersionLabel } from "@/components/lead-gen-prompt-versions";
 
 type PlaybookWithCount = TaskPlaybook & { stepCount: number };
 
@@ -44,6 +46,7 @@ interface RunDetail extends Omit<LeadGenerationRun, "phaseLog" | "playbookId"> {
   candidates: EnrichedCandidate[];
   phaseLog?: PhaseLogEntry[] | null;
   playbookId?: string | null;
+  job?: Pick<LeadGenJob, "status" | "attempts" | "lastCompletedPhase"> | null;
 }
 
 interface AuditEvent {
@@ -70,9 +73,19 @@ interface AgentStepLog {
   success: boolean;
   durationMs: number | null;
   errorMessage: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  reasoningTokens: number | null;
+  costUsd: string | null;
+  promptTemplate: AgentStepPromptTemplate | null;
   createdAt: string;
 }
 
+interface RunLlmUsage {
+  totals: LlmUsageTotals;
+  byPhase: Array<{ phase: string | null } & LlmUsageTotals>;
+}
+
 const statusColors: Record<string, string> = {
   draft: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
   active: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
@@ -290,6 +303,18 @@ export default function LeadGenRunDetailPage() {
     refetchInterval: run?.status === "active" ? 4000 : false,
   });
 
+  const { data: llmUsage } = useQuery<RunLlmUsage>({
+    queryKey: ["/api/lead-gen/runs", id, "usage"],
+    queryFn: async () => {
+      const usageUrl = `/api/lead-gen/runs/${id}/usage`;
+      const res = await fetch(usageUrl, { credentials: "include", headers: getOrgHeaders(usageUrl) });
+      if (!res.ok) throw new Error("Failed to load AI usage");
+      return res.json();
+    },
+    enabled: !!id,
+    refetchInterval: run?.status === "active" ? 4000 : false,
+  });
+
   const startRunMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", `/api/lead-gen/runs/${id}/start`, {});
@@ -512,6 +537,24 @@ export default function LeadGenRunDetailPage() {
         <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-xs font-medium ${statusColors[run.status] || ""}`} data-testid="badge-run-status">
           {run.status}
         </span>
+        {run.status === "active" && run.job?.status === "queued" && (
+          <span
+            className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-medium bg-muted text-muted-foreground"
+            title="Waiting for other runs in this organization to finish"
+            data-testid="badge-run-queued"
+          >
+            queued
+          </span>
+        )}
+        {run.status === "active" && run.job?.status === "running" && run.job.attempts > 1 && (
+          <span
+            className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-medium bg-muted text-muted-foreground"
+            title="The server restarted during this run; it picked up after the last completed phase"
+            data-testid="badge-run-resumed"
+          >
+            resumed
+          </span>
+        )}
         {run.errorPhase && (
           <Button
             variant="outline"
@@ -836,6 +879,56 @@ export default function LeadGenRunDetailPage() {
             <p className="text-xs text-muted-foreground">Full prompt and response for each agent step</p>
           </div>
 
+          {llmUsage && llmUsage.totals.calls > 0 && (
+            <Card data-testid="run-llm-usage">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <Coins className="h-4 w-4" />
+                  AI usage
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                  <span><span className="font-semibold tabular-nums">{llmUsage.totals.calls}</span> calls</span>
+                  <span><span className="font-semibold tabular-nums">{llmUsage.totals.totalTokens.toLocaleString()}</span> tokens</span>
+                  <span className="text-muted-foreground tabular-nums">
+                    {llmUsage.totals.promptTokens.toLocaleString()} prompt · {llmUsage.totals.completionTokens.toLocaleString()} completion
+                    {llmUsage.totals.reasoningTokens > 0 && <> ({llmUsage.totals.reasoningTokens.toLocaleString()} reasoning)</>}
+                  </span>
+                  <span><span className="font-semibold tabular-nums" data-testid="text-run-llm-cost">{formatCostUsd(llmUsage.totals.costUsd)}</span> estimated</span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-muted-foreground text-left border-b">
+                        <th className="py-1.5 pr-3 font-medium">Phase</th>
+                        <th className="py-1.5 pr-3 font-medium text-right">Calls</th>
+                        <th className="py-1.5 pr-3 font-medium text-right">Prompt</th>
+                        <th className="py-1.5 pr-3 font-medium text-right">Completion</th>
+                        <th className="py-1.5 pr-3 font-medium text-right">Reasoning</th>
+                        <th className="py-1.5 font-medium text-right">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {llmUsage.byPhase.map(row => (
+                        <tr key={row.phase ?? "none"} className="border-b last:border-0" data-testid={`row-run-llm-usage-${row.phase ?? "none"}`}>
+                          <td className="py-1.5 pr-3">{AGENT_PHASES.find(p => p.id === row.phase)?.label ?? row.phase ?? "—"}</td>
+                          <td className="py-1.5 pr-3 text-right tabular-nums">{row.calls}</td>
+                          <td className="py-1.5 pr-3 text-right tabular-nums">{row.promptTokens.toLocaleString()}</td>
+                          <td className="py-1.5 pr-3 text-right tabular-nums">{row.completionTokens.toLocaleString()}</td>
+                          <td className="py-1.5 pr-3 text-right tabular-nums">{row.reasoningTokens.toLocaleString()}</td>
+                          <td className="py-1.5 text-right tabular-nums">{formatCostUsd(row.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <RunPromptTemplatesCard versions={run.promptTemplateVersions} />
+
           {stepLogsLoading ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
@@ -882,6 +975,21 @@ export default function LeadGenRunDetailPage() {
                             {log.durationMs != null && (
                               <span className="text-xs text-muted-foreground tabular-nums">{(log.durationMs / 1000).toFixed(1)}s</span>
                             )}
+                            {log.promptTokens != null && log.completionTokens != null && (
+                              <span
+                                className="text-xs text-muted-foreground tabular-nums"
+                                title={`${log.promptTokens.toLocaleString()} prompt · ${log.completionTokens.toLocaleString()} completion${log.reasoningTokens ? ` (${log.reasoningTokens.toLocaleString()} reasoning)` : ""}`}
+                                data-testid={`text-step-tokens-${log.id}`}
+                              >
+                                {(log.promptTokens + log.completionTokens).toLocaleString()} tok
+                                {log.costUsd != null && <> · {formatCostUsd(parseFloat(log.costUsd))}</>}
+                              </span>
+                            )}
+                            {log.promptTemplate && (
+                              <span className="text-xs text-muted-foreground hidden sm:inline" data-testid={`text-step-prompt-version-${log.id}`}>
+                                prompt {promptVersionLabel(log.promptTemplate.version)}
+                              </span>
+                            )}
                             {log.modelUsed && (
                               <span className="text-xs text-muted-foreground hidden sm:inline">{log.modelUsed}</span>
                             )}
@@ -30,6 +30,7 @@ import { ColumnVisibility, type Column } from "@/components/column-visibility";
 import { SavedFiltersBar } from "@/components/saved-filters-bar";
 import { EmptyState } from "@/components/empty-state";
 import { NewExternalLeadsBanner } from "@/components/new-external-leads-alert";
+import { LeadScoreBadge } from "@/components/lead-score";
 
 const statusColors: Record<string, string> = {
   new:         "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
@@ -57,6 +58,7 @@ const AVAILABLE_COLUMNS: Column[] = [
   { id: "status", label: "Status" },
   { id: "source", label: "Source" },
   { id: "rating", label: "Rating" },
+  { id: "score", label: "Score" },
   { id: "ownerId", label: "Sales Rep" },
   { id: "topic", label: "Topic" },
   { id: "tags", label: "Tags" },
@@ -90,10 +92,11 @@ export default function LeadsPage() {
     rating: "",
     ownerId: "",
     tagIds: [] as string[],
+    customFields: {} as Record<string, string>,
   });
   const [filterKey, setFilterKey] = useState(0);
   const [savedFilterInitial, setSavedFilterInitial] = useState<typeof filters | undefined>(undefined);
-  const hasActiveFilters = !!(filters.search || filters.status || filters.source || filters.rating || filters.ownerId || filters.tagIds.length > 0);
+  const hasActiveFilters = !!(filters.search || filters.status || filters.source || filters.rating || filters.ownerId || filters.tagIds.length > 0 || Object.keys(filters.customFields).length > 0);
 
   const handleApplySavedFilter = (saved: Record<string, any>) => {
     const newFilters = {
@@ -103,6 +106,7 @@ export default function LeadsPage() {
       rating: saved.rating ?? "",
       ownerId: saved.ownerId ?? "",
       tagIds: Array.isArray(saved.tagIds) ? saved.tagIds : [],
+      customFields: saved.customFields && typeof saved.customFields === "object" ? saved.customFields : {},
     };
     setSavedFilterInitial(newFilters);
     setFilters(newFilters);
@@ -124,6 +128,9 @@ export default function LeadsPage() {
     if (filters.source) params.append("source", filters.source);
     if (filters.rating) params.append("rating", filters.rating);
     if (filters.ownerId) params.append("ownerId", filters.ownerId);
+    for (const [key, value] of Object.entries(filters.customFields)) {
+      params.append(`cf[${key}]`, value);
+    }
     params.append("sortBy", sortBy);
     params.append("sortOrder", sortOrder);
     return params.toString();
@@ -481,6 +488,34 @@ export default function LeadsPage() {
                     )}
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>State / Region</FormLabel>
+                        <FormControl>
+                          <Input placeholder="CA" {...field} value={field.value || ""} data-testid="input-lead-state" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="country"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Country</FormLabel>
+                        <FormControl>
+                          <Input placeholder="United States" {...field} value={field.value || ""} data-testid="input-lead-country" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
                 <FormField
                   control={form.control}
                   name="topic"
@@ -580,7 +615,7 @@ export default function LeadsPage() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="unassigned">Unassigned</SelectItem>
+                          <SelectItem value="unassigned">Unassigned (apply assignment rules)</SelectItem>
                           {users?.map(u => (
                             <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
                           ))}
@@ -869,6 +904,15 @@ export default function LeadsPage() {
                     onSort={handleSort}
                   />
                 )}
+                {isColumnVisible("score") && (
+                  <SortableTableHeader
+                    label="Score"
+                    field="score"
+                    currentSortBy={sortBy}
+                    currentSortOrder={sortOrder}
+                    onSort={handleSort}
+                  />
+                )}
                 {isColumnVisible("ownerId") && (
                   <SortableTableHeader
                     label="Sales Rep"
@@ -988,6 +1032,11 @@ export default function LeadsPage() {
                         ) : "-"}
                       </TableCell>
                     )}
+                    {isColumnVisible("score") && (
+                      <TableCell data-testid={`cell-score-${lead.id}`}>
+                        <LeadScoreBadge score={lead.score} breakdown={lead.scoreBreakdown} />
+                      </TableCell>
+                    )}
                     {isColumnVisible("ownerId") && (
                       <TableCell data-testid={`cell-owner-${lead.id}`}>
                         {getOwnerName(lead.ownerId ?? (lead as any).owner_id)}
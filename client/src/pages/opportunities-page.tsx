@@ -11,6 +11,7 @@ type OpportunityWithAccount = Opportunity & { accountName: string | null };
 import { useAuth } from "@/hooks/use-auth";
 import { useFinancialAccess } from "@/hooks/use-financial-access";
 import { usePermissions } from "@/hooks/use-permissions";
+import { useSalesProcess, CLOSED_STAGES } from "@/hooks/use-sales-process";
 import { FinancialValue } from "@/components/financial-value";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -51,17 +52,11 @@ const OPERATIONAL_AREA_OPTIONS = [
   "Patient Experience",
 ];
 
-const stages = [
-  { id: "prospecting",   label: "Prospecting",   color: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300" },
-  { id: "qualification", label: "Qualification", color: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300" },
-  { id: "proposal",      label: "Proposal",      color: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300" },
-  { id: "negotiation",   label: "Negotiation",   color: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300" },
-  { id: "closed_won",    label: "Closed Won",    color: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300" },
-  { id: "closed_lost",   label: "Closed Lost",   color: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" },
-];
-
 export default function OpportunitiesPage() {
   const { user } = useAuth();
+  // Kanban columns and stage pickers follow the organization's sales process
+  const salesProcess = useSalesProcess();
+  const stages = salesProcess.stages.map((stage) => ({ id: stage.key, label: stage.label, color: stage.color }));
   const canViewFinancials = useFinancialAccess();
   const { can } = usePermissions();
   const { toast } = useToast();
@@ -239,7 +234,8 @@ export default function OpportunitiesPage() {
       toast({ title: "Stage updated successfully" });
     },
     onError: (error: Error) => {
-      toast({ title: "Failed to update stage", description: error.message, variant: "destructive" });
+      // Unmet exit criteria come back as one readable sentence
+      toast({ title: "Failed to update stage", description: getErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -261,7 +257,7 @@ export default function OpportunitiesPage() {
       setBulkProbability("");
     },
     onError: (error: Error) => {
-      toast({ title: "Failed to bulk update opportunities", description: error.message, variant: "destructive" });
+      toast({ title: "Failed to bulk update opportunities", description: getErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -291,15 +287,22 @@ export default function OpportunitiesPage() {
     },
   });
 
+  // New opportunities start in the first stage of the organization's process
+  const firstStageKey = stages[0]?.id;
+  useEffect(() => {
+    if (firstStageKey && !form.formState.dirtyFields.stage) form.setValue("stage", firstStageKey);
+  }, [firstStageKey]);
+
   const onSubmit = (data: InsertOpportunity) => {
     createMutation.mutate(data);
   };
 
-  const handleExport = async () => {
+  const handleExport = async (resource: "opportunities" | "opportunity-line-items" = "opportunities") => {
+    const label = resource === "opportunities" ? "Opportunities" : "Opportunity line items";
     try {
-      const response = await fetch("/api/export/opportunities", {
+      const response = await fetch(`/api/export/${resource}`, {
         credentials: "include",
-        headers: getOrgHeaders("/api/export/opportunities"),
+        headers: getOrgHeaders(`/api/export/${resource}`),
       });
       
       if (!response.ok) {
@@ -310,15 +313,15 @@ export default function OpportunitiesPage() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `opportunities-${Date.now()}.csv`;
+      a.download = `${resource}-${Date.now()}.csv`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
       
-      toast({ title: "Opportunities exported successfully" });
+      toast({ title: `${label} exported successfully` });
     } catch (error) {
-      toast({ title: "Failed to export Opportunities", variant: "destructive" });
+      toast({ title: `Failed to export ${label}`, variant: "destructive" });
     }
   };
 
@@ -671,11 +674,17 @@ export default function OpportunitiesPage() {
             {showFilters ? "Hide Filters" : "Show Filters"}
           </Button>
           {canViewFinancials && can("Opportunity", "read") && (
-            <Button variant="outline" onClick={handleExport} data-testid="button-export-opportunities">
+            <Button variant="outline" onClick={() => handleExport()} data-testid="button-export-opportunities">
               <Download className="h-4 w-4 mr-2" />
               Export to CSV
             </Button>
           )}
+          {canViewFinancials && can("Opportunity", "read") && (
+            <Button variant="outline" onClick={() => handleExport("opportunity-line-items")} data-testid="button-export-line-items">
+              <Download className="h-4 w-4 mr-2" />
+              Export Line Items
+            </Button>
+          )}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             {can("Opportunity", "create") && (
             <DialogTrigger asChild>
@@ -1884,7 +1893,7 @@ export default function OpportunitiesPage() {
                               updateStageMutation.mutate({ id: opp.id, stage: stages[currentIndex - 1].id });
                             }
                           }}
-                          disabled={stage.id === "prospecting"}
+                          disabled={stages[0]?.id === stage.id}
                         >
                           ←
                         </Button>
@@ -1918,7 +1927,7 @@ export default function OpportunitiesPage() {
                               updateStageMutation.mutate({ id: opp.id, stage: stages[currentIndex + 1].id });
                             }
                           }}
-                          disabled={stage.id === "closed_won" || stage.id === "closed_lost"}
+                          disabled={CLOSED_STAGES.includes(stage.id)}
                         >
                           →
                         </Button>
@@ -19,6 +19,9 @@ import { DetailPageLayout, DetailSection, DetailField } from "@/components/detai
 import { RelatedEntitiesSection } from "@/components/related-entities-section";
 import { CommentSystem } from "@/components/comment-system";
 import { DocumentsSection } from "@/components/documents-section";
+import { CustomFieldsSection } from "@/components/custom-fields-section";
+import { OpportunityStageTimeline } from "@/components/opportunity-stage-timeline";
+import { OpportunityLineItems } from "@/components/opportunity-line-items";
 import { ResearchDocumentsPanel } from "@/components/research-documents-panel";
 import { QuickLogActivity } from "@/components/quick-log-activity";
 import { GlobalQuickAdd } from "@/components/global-quick-add";
@@ -41,11 +44,13 @@ import { cn } from "@/lib/utils";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient, getOrgHeaders } from "@/lib/queryClient";
+import { apiRequest, queryClient, getOrgHeaders, getErrorMessage } from "@/lib/queryClient";
 import type { Opportunity, Account, Contact, Activity, InsertOpportunity, InsertActivity } from "@shared/schema";
 import { insertOpportunitySchema, insertActivitySchema } from "@shared/schema";
 import { z } from "zod";
 import { useFinancialAccess } from "@/hooks/use-financial-access";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useSalesProcess } from "@/hooks/use-sales-process";
 
 export default function OpportunityDetailPage() {
   const [, params] = useRoute("/opportunities/:id");
@@ -53,6 +58,8 @@ export default function OpportunityDetailPage() {
   const opportunityId = params?.id;
   const { toast } = useToast();
   const canViewFinancials = useFinancialAccess();
+  const { can } = usePermissions();
+  const salesProcess = useSalesProcess();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedTags, setSelectedTags] = useState<Tag[]>([]);
@@ -161,7 +168,7 @@ export default function OpportunityDetailPage() {
       setIsEditDialogOpen(false);
     },
     onError: (error: Error) => {
-      toast({ title: "Failed to update opportunity", description: error.message, variant: "destructive" });
+      toast({ title: "Failed to update opportunity", description: getErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -408,9 +415,8 @@ export default function OpportunityDetailPage() {
   }
 
   const getStageVariant = (stage: string) => {
-    const lowerStage = stage.toLowerCase();
-    if (lowerStage.includes("closed won")) return "default";
-    if (lowerStage.includes("closed lost")) return "destructive";
+    if (stage === "closed_won") return "default";
+    if (stage === "closed_lost") return "destructive";
     return "secondary";
   };
 
@@ -422,7 +428,7 @@ export default function OpportunityDetailPage() {
       subtitle={opportunity.id}
       backLink="/opportunities"
       backLabel="Opportunities"
-      status={opportunity.stage}
+      status={salesProcess.stageLabel(opportunity.stage)}
       statusVariant={getStageVariant(opportunity.stage)}
       onEdit={handleEdit}
       onDelete={() => setIsDeleteDialogOpen(true)}
@@ -436,7 +442,7 @@ export default function OpportunityDetailPage() {
             <DetailField label="Opportunity Name" value={opportunity.name} />
             <DetailField label="Opportunity ID" value={opportunity.id} />
             <DetailField label="Legacy ID" value={(opportunity as { legacyId?: string | null }).legacyId} type="copy" />
-            <DetailField label="Stage" value={opportunity.stage} />
+            <DetailField label="Stage" value={salesProcess.stageLabel(opportunity.stage)} />
             <DetailField label="Status" value={opportunity.status} />
             <DetailField label="Rating" value={opportunity.rating} />
             <DetailField label="Amount" value={opportunity.amount} type="currency" />
@@ -538,6 +544,18 @@ export default function OpportunityDetailPage() {
             </DetailSection>
           )}
 
+          {canViewFinancials && (
+            <OpportunityLineItems
+              opportunityId={opportunity.id}
+              priceBookId={opportunity.priceBookId}
+              canEdit={can("Opportunity", "update")}
+            />
+          )}
+
+          <OpportunityStageTimeline opportunityId={opportunity.id} />
+
+          <CustomFieldsSection entityType="opportunity" entityId={opportunity.id} values={opportunity.customFields} />
+
           <Card data-testid="section-tags">
             <CardHeader>
               <CardTitle>Tags</CardTitle>
@@ -838,12 +856,9 @@ export default function OpportunityDetailPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="prospecting">Prospecting</SelectItem>
-                        <SelectItem value="qualification">Qualification</SelectItem>
-                        <SelectItem value="proposal">Proposal</SelectItem>
-                        <SelectItem value="negotiation">Negotiation</SelectItem>
-                        <SelectItem value="closed_won">Closed Won</SelectItem>
-                        <SelectItem value="closed_lost">Closed Lost</SelectItem>
+                        {salesProcess.stages.map((stage) => (
+                          <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
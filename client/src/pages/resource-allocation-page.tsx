@@ -10,6 +10,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useSalesProcess } from "@/hooks/use-sales-process";
 
 type ResourceAllocationData = {
   opportunities: Array<{
@@ -48,24 +49,13 @@ type ResourceAllocationData = {
   }>;
 };
 
-const stageColors: Record<string, string> = {
-  prospecting: "bg-slate-400",
-  qualification: "bg-blue-400",
-  proposal: "bg-amber-400",
-  negotiation: "bg-orange-400",
+// Open stages are colored by position in the sales process
+const OPEN_STAGE_BAR_COLORS = ["bg-slate-400", "bg-blue-400", "bg-amber-400", "bg-orange-400", "bg-violet-400", "bg-cyan-400"];
+const CLOSED_STAGE_BAR_COLORS: Record<string, string> = {
   closed_won: "bg-emerald-400",
   closed_lost: "bg-red-400",
 };
 
-const stageLabels: Record<string, string> = {
-  prospecting: "Prospecting",
-  qualification: "Qualification",
-  proposal: "Proposal",
-  negotiation: "Negotiation",
-  closed_won: "Closed Won",
-  closed_lost: "Closed Lost",
-};
-
 function getMonthsBetween(start: Date, end: Date): Date[] {
   const months: Date[] = [];
   const current = new Date(start.getFullYear(), start.getMonth(), 1);
@@ -137,6 +127,12 @@ function getBarPosition(
 export default function ResourceAllocationPage() {
   const [, setLocation] = useLocation();
   const { user } = useAuth();
+  const { stages, openStages } = useSalesProcess();
+  const stageLabels: Record<string, string> = Object.fromEntries(stages.map((stage) => [stage.key, stage.label]));
+  const stageColors: Record<string, string> = Object.fromEntries(stages.map((stage) => [
+    stage.key,
+    CLOSED_STAGE_BAR_COLORS[stage.key] ?? OPEN_STAGE_BAR_COLORS[openStages.indexOf(stage) % OPEN_STAGE_BAR_COLORS.length],
+  ]));
   const [showFilters, setShowFilters] = useState(false);
   const [filterUser, setFilterUser] = useState<string>("all");
   const [filterStage, setFilterStage] = useState<string>("all");
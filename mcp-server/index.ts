@@ -90,6 +90,24 @@ async function crmFetch(
 
 // ─── Tool definitions ─────────────────────────────────────────────────────────
 
+// Custom fields are defined per organization — call list_custom_fields to see
+// the keys, types and picklist options before reading or writing values.
+const CUSTOM_FIELDS_PROPERTY = {
+  type: "object",
+  description:
+    "Custom field values keyed by field key (see list_custom_fields). Multi-select values are arrays; " +
+    "null or an empty string clears a value. Only the keys provided are changed.",
+  additionalProperties: true,
+};
+
+const CUSTOM_FIELD_FILTERS_PROPERTY = {
+  type: "object",
+  description:
+    'Filter by custom field values, keyed by field key. Text matches a substring, picklist/multi-select ' +
+    'match any of a comma-separated list, booleans take "true"/"false", and number/currency/date take "from..to".',
+  additionalProperties: { type: "string" },
+};
+
 const TOOLS: Tool[] = [
   // ── ACCOUNTS ──────────────────────────────────────────────────────────────
   {
@@ -115,6 +133,7 @@ const TOOLS: Tool[] = [
           enum: ["asc", "desc"],
           description: 'Sort direction (default: "asc").',
         },
+        customFields: CUSTOM_FIELD_FILTERS_PROPERTY,
       },
     },
   },
@@ -153,6 +172,7 @@ const TOOLS: Tool[] = [
         description: { type: "string" },
         ownerId: { type: "string", description: "User ID of the account owner." },
         externalId: { type: "string", description: "ID from an external system (e.g. Salesforce)." },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["name"],
     },
@@ -179,6 +199,7 @@ const TOOLS: Tool[] = [
         description: { type: "string" },
         ownerId: { type: "string" },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["id"],
     },
@@ -198,6 +219,7 @@ const TOOLS: Tool[] = [
         accountId: { type: "string", description: "Filter by parent account ID." },
         sortBy: { type: "string" },
         sortOrder: { type: "string", enum: ["asc", "desc"] },
+        customFields: CUSTOM_FIELD_FILTERS_PROPERTY,
       },
     },
   },
@@ -229,6 +251,7 @@ const TOOLS: Tool[] = [
         ownerId: { type: "string" },
         description: { type: "string" },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["firstName", "lastName"],
     },
@@ -251,6 +274,7 @@ const TOOLS: Tool[] = [
         ownerId: { type: "string" },
         description: { type: "string" },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["id"],
     },
@@ -271,6 +295,7 @@ const TOOLS: Tool[] = [
         ownerId: { type: "string" },
         sortBy: { type: "string" },
         sortOrder: { type: "string", enum: ["asc", "desc"] },
+        customFields: CUSTOM_FIELD_FILTERS_PROPERTY,
       },
     },
   },
@@ -302,6 +327,7 @@ const TOOLS: Tool[] = [
         ownerId: { type: "string" },
         description: { type: "string" },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["firstName", "lastName"],
     },
@@ -324,6 +350,7 @@ const TOOLS: Tool[] = [
         ownerId: { type: "string" },
         description: { type: "string" },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["id"],
     },
@@ -378,12 +405,13 @@ const TOOLS: Tool[] = [
         ownerId: { type: "string" },
         sortBy: { type: "string" },
         sortOrder: { type: "string", enum: ["asc", "desc"] },
+        customFields: CUSTOM_FIELD_FILTERS_PROPERTY,
       },
     },
   },
   {
     name: "get_opportunity",
-    description: "Retrieve a single CRM opportunity by ID.",
+    description: "Retrieve a single CRM opportunity by ID, including its product line items (quantity, unit price, discount, term, one-time vs recurring) and their totals.",
     inputSchema: {
       type: "object",
       properties: {
@@ -410,6 +438,7 @@ const TOOLS: Tool[] = [
         includeInForecast: { type: "boolean" },
         rating: { type: "string", description: '"Hot", "Warm", or "Cold".' },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["name", "accountId", "stage"],
     },
@@ -434,6 +463,7 @@ const TOOLS: Tool[] = [
         rating: { type: "string" },
         status: { type: "string" },
         externalId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["id"],
     },
@@ -491,6 +521,7 @@ const TOOLS: Tool[] = [
         },
         relatedId: { type: "string", description: "ID of the related entity." },
         notes: { type: "string", description: "Activity notes or body text." },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["type", "subject"],
     },
@@ -510,11 +541,29 @@ const TOOLS: Tool[] = [
         dueAt: { type: "string", description: "Due date/time (ISO 8601 datetime)." },
         completedAt: { type: "string" },
         ownerId: { type: "string" },
+        customFields: CUSTOM_FIELDS_PROPERTY,
       },
       required: ["id"],
     },
   },
 
+  // ── CUSTOM FIELDS ─────────────────────────────────────────────────────────
+  {
+    name: "list_custom_fields",
+    description:
+      "List the organization's active custom field definitions (key, label, type, options, required flag) for a record type.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        entity: {
+          type: "string",
+          enum: ["account", "contact", "lead", "opportunity", "activity"],
+          description: "Record type. Omit to list fields for every type.",
+        },
+      },
+    },
+  },
+
   // ── LEAD GENERATION ───────────────────────────────────────────────────────
   {
     name: "list_icps",
@@ -723,6 +772,12 @@ function qs(params: Record<string, unknown>): string {
   return "?" + entries.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`).join("&");
 }
 
+/** Expand a customFields filter object into the CRM's cf[<key>]=<value> query params. */
+function customFieldParams(filters: unknown): Record<string, unknown> {
+  if (!filters || typeof filters !== "object") return {};
+  return Object.fromEntries(Object.entries(filters).map(([key, value]) => [`cf[${key}]`, value]));
+}
+
 /** Map a tag tool's entityType argument to its External API URL segment. */
 const TAG_ENTITY_SEGMENTS: Record<string, string> = {
   account: "accounts",
@@ -750,8 +805,8 @@ async function handleTool(name: string, args: Record<string, unknown>): Promise<
   switch (name) {
     // ACCOUNTS
     case "list_accounts": {
-      const { search, type, category, ownerId, sortBy, sortOrder } = args;
-      return crmFetch(`/api/accounts${qs({ search, type, category, ownerId, sortBy, sortOrder })}`);
+      const { search, type, category, ownerId, sortBy, sortOrder, customFields } = args;
+      return crmFetch(`/api/accounts${qs({ search, type, category, ownerId, sortBy, sortOrder, ...customFieldParams(customFields) })}`);
     }
     case "get_account":
       return crmFetch(`/api/accounts/${args.id}`);
@@ -766,8 +821,8 @@ async function handleTool(name: string, args: Record<string, unknown>): Promise<
 
     // CONTACTS
     case "list_contacts": {
-      const { search, accountId, sortBy, sortOrder } = args;
-      return crmFetch(`/api/contacts${qs({ search, accountId, sortBy, sortOrder })}`);
+      const { search, accountId, sortBy, sortOrder, customFields } = args;
+      return crmFetch(`/api/contacts${qs({ search, accountId, sortBy, sortOrder, ...customFieldParams(customFields) })}`);
     }
     case "get_contact":
       return crmFetch(`/api/contacts/${args.id}`);
@@ -782,8 +837,8 @@ async function handleTool(name: string, args: Record<string, unknown>): Promise<
 
     // LEADS
     case "list_leads": {
-      const { search, status, ownerId, sortBy, sortOrder } = args;
-      return crmFetch(`/api/leads${qs({ search, status, ownerId, sortBy, sortOrder })}`);
+      const { search, status, ownerId, sortBy, sortOrder, customFields } = args;
+      return crmFetch(`/api/leads${qs({ search, status, ownerId, sortBy, sortOrder, ...customFieldParams(customFields) })}`);
     }
     case "get_lead":
       return crmFetch(`/api/leads/${args.id}`);
@@ -802,11 +857,25 @@ async function handleTool(name: string, args: Record<string, unknown>): Promise<
 
     // OPPORTUNITIES
     case "list_opportunities": {
-      const { search, stage, accountId, ownerId, sortBy, sortOrder } = args;
-      return crmFetch(`/api/opportunities${qs({ search, stage, accountId, ownerId, sortBy, sortOrder })}`);
+      const { search, stage, accountId, ownerId, sortBy, sortOrder, customFields } = args;
+      return crmFetch(`/api/opportunities${qs({ search, stage, accountId, ownerId, sortBy, sortOrder, ...customFieldParams(customFields) })}`);
+    }
+    case "get_opportunity": {
+      const result = await crmFetch(`/api/opportunities/${args.id}`);
+      if (result.isError) return result;
+      const lineItems = await crmFetch(`/api/opportunities/${args.id}/line-items`);
+      // Line items are best-effort: the opportunity alone is still a useful answer
+      if (lineItems.isError) return result;
+      try {
+        const opportunity = JSON.parse((result.content[0] as { type: string; text: string }).text);
+        const { lineItems: items, summary } = JSON.parse((lineItems.content[0] as { type: string; text: string }).text);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ ...opportunity, lineItems: items, lineItemSummary: summary }, null, 2) }],
+        };
+      } catch {
+        return result;
+      }
     }
-    case "get_opportunity":
-      return crmFetch(`/api/opportunities/${args.id}`);
     case "create_opportunity": {
       const { id: _id, ...body } = args;
       return crmFetch("/api/opportunities", { method: "POST", body });
@@ -836,6 +905,10 @@ async function handleTool(name: string, args: Record<string, unknown>): Promise<
       return crmFetch(`/api/activities/${id}`, { method: "PATCH", body });
     }
 
+    // CUSTOM FIELDS
+    case "list_custom_fields":
+      return crmFetch(`/api/custom-fields${qs({ entity: args.entity })}`);
+
     // LEAD GENERATION
     case "list_icps":
       return crmFetch("/api/lead-gen/icps");
@@ -0,0 +1,45 @@
+-- 0021: Outbound webhook subscriptions and their persisted delivery log.
+DO $$ BEGIN
+  CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed', 'dead_letter');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id               varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id  varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name             text        NOT NULL,
+  description      text,
+  url              text        NOT NULL,
+  encrypted_secret text        NOT NULL,
+  events           text[]      NOT NULL DEFAULT ARRAY['*']::text[],
+  is_active        boolean     NOT NULL DEFAULT true,
+  created_by       varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at       timestamp   NOT NULL DEFAULT now(),
+  updated_at       timestamp   NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_subscriptions_org_idx ON webhook_subscriptions(organization_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id  varchar(50)  NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  organization_id  varchar(50)  NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event_id         varchar(50)  NOT NULL,
+  event            text         NOT NULL,
+  entity_type      text         NOT NULL,
+  entity_id        varchar(100),
+  payload          jsonb        NOT NULL,
+  status           webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts         integer      NOT NULL DEFAULT 0,
+  next_attempt_at  timestamp,
+  last_attempt_at  timestamp,
+  last_status_code integer,
+  last_error       text,
+  delivered_at     timestamp,
+  created_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_subscription_idx ON webhook_deliveries(subscription_id, created_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_org_idx ON webhook_deliveries(organization_id);
@@ -0,0 +1,111 @@
+-- 0022: First-class opportunity stage history.
+-- Records every stage/amount/probability/close-date change with actor and
+-- source, replacing audit-log JSON parsing in the analytics service.
+-- Backfilled from existing audit logs; re-running is a no-op (audit_log_id is unique).
+DO $$ BEGIN
+  CREATE TYPE opportunity_change_source AS ENUM ('ui', 'bulk', 'external_api', 'import', 'restore');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS opportunity_stage_history (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  opportunity_id   varchar(100) NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  organization_id  varchar(50)  REFERENCES organizations(id) ON DELETE CASCADE,
+  from_stage       opportunity_stage,
+  to_stage         opportunity_stage,
+  from_amount      numeric(15, 2),
+  to_amount        numeric(15, 2),
+  from_probability integer,
+  to_probability   integer,
+  from_close_date  timestamp,
+  to_close_date    timestamp,
+  changed_fields   text[]       NOT NULL,
+  source           opportunity_change_source NOT NULL,
+  actor_id         varchar(50)  REFERENCES users(id) ON DELETE SET NULL,
+  api_key_id       varchar(50)  REFERENCES api_keys(id) ON DELETE SET NULL,
+  audit_log_id     varchar(50),
+  changed_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS opportunity_stage_history_opportunity_idx ON opportunity_stage_history(opportunity_id, changed_at);
+CREATE INDEX IF NOT EXISTS opportunity_stage_history_org_changed_at_idx ON opportunity_stage_history(organization_id, changed_at);
+CREATE UNIQUE INDEX IF NOT EXISTS opportunity_stage_history_audit_log_idx ON opportunity_stage_history(audit_log_id);
+
+-- Backfill from audit logs. Audit entries are JSON snapshots of varying
+-- completeness (full rows for UI/bulk/import, changed keys only for external
+-- PATCH), so every value is parsed defensively and a field counts as changed
+-- only when the "after" snapshot contains it and it differs from "before".
+WITH parsed AS (
+  SELECT
+    l.id AS audit_log_id,
+    l.resource_id AS opportunity_id,
+    l.actor_id,
+    l.created_at,
+    CASE l.action
+      WHEN 'bulk_update' THEN 'bulk'
+      WHEN 'import' THEN 'import'
+      WHEN 'external_api_patch' THEN 'external_api'
+      ELSE 'ui'
+    END::opportunity_change_source AS source,
+    (l.before IS NULL OR jsonb_typeof(l.before) <> 'object') AS is_create,
+    l.after -> 'stage' IS NOT NULL AS has_stage,
+    l.after -> 'amount' IS NOT NULL AS has_amount,
+    l.after -> 'probability' IS NOT NULL AS has_probability,
+    l.after -> 'closeDate' IS NOT NULL AS has_close_date,
+    l.after ->> 'apiKeyId' AS api_key_id,
+    CASE WHEN lower(l.before ->> 'stage') IN ('prospecting','qualification','proposal','negotiation','closed_won','closed_lost')
+      THEN lower(l.before ->> 'stage')::opportunity_stage END AS b_stage,
+    CASE WHEN lower(l.after ->> 'stage') IN ('prospecting','qualification','proposal','negotiation','closed_won','closed_lost')
+      THEN lower(l.after ->> 'stage')::opportunity_stage END AS a_stage,
+    CASE WHEN l.before ->> 'amount' ~ '^-?[0-9]+(\.[0-9]+)?$' THEN (l.before ->> 'amount')::numeric(15, 2) END AS b_amount,
+    CASE WHEN l.after ->> 'amount' ~ '^-?[0-9]+(\.[0-9]+)?$' THEN (l.after ->> 'amount')::numeric(15, 2) END AS a_amount,
+    CASE WHEN l.before ->> 'probability' ~ '^-?[0-9]+(\.[0-9]+)?$' THEN round((l.before ->> 'probability')::numeric)::integer END AS b_probability,
+    CASE WHEN l.after ->> 'probability' ~ '^-?[0-9]+(\.[0-9]+)?$' THEN round((l.after ->> 'probability')::numeric)::integer END AS a_probability,
+    CASE WHEN l.before ->> 'closeDate' ~ '^\d{4}-\d{2}-\d{2}' THEN (l.before ->> 'closeDate')::timestamptz AT TIME ZONE 'UTC' END AS b_close_date,
+    CASE WHEN l.after ->> 'closeDate' ~ '^\d{4}-\d{2}-\d{2}' THEN (l.after ->> 'closeDate')::timestamptz AT TIME ZONE 'UTC' END AS a_close_date
+  FROM audit_logs l
+  WHERE l.resource = 'Opportunity'
+    AND l.action IN ('create', 'update', 'bulk_update', 'import', 'external_api_patch')
+    AND l.resource_id IS NOT NULL
+    AND jsonb_typeof(l.after) = 'object'
+),
+diffed AS (
+  SELECT
+    p.*,
+    array_remove(ARRAY[
+      CASE WHEN p.has_stage AND p.a_stage IS NOT NULL AND (p.is_create OR p.a_stage IS DISTINCT FROM p.b_stage) THEN 'stage' END,
+      CASE WHEN p.has_amount AND (p.is_create AND p.a_amount IS NOT NULL OR NOT p.is_create AND p.a_amount IS DISTINCT FROM p.b_amount) THEN 'amount' END,
+      CASE WHEN p.has_probability AND (p.is_create AND p.a_probability IS NOT NULL OR NOT p.is_create AND p.a_probability IS DISTINCT FROM p.b_probability) THEN 'probability' END,
+      CASE WHEN p.has_close_date AND (p.is_create AND p.a_close_date IS NOT NULL OR NOT p.is_create AND p.a_close_date IS DISTINCT FROM p.b_close_date) THEN 'closeDate' END
+    ], NULL) AS changed_fields
+  FROM parsed p
+)
+INSERT INTO opportunity_stage_history (
+  opportunity_id, organization_id,
+  from_stage, to_stage, from_amount, to_amount,
+  from_probability, to_probability, from_close_date, to_close_date,
+  changed_fields, source, actor_id, api_key_id, audit_log_id, changed_at
+)
+SELECT
+  d.opportunity_id,
+  o.organization_id,
+  CASE WHEN d.is_create THEN NULL ELSE d.b_stage END,
+  CASE WHEN d.has_stage THEN d.a_stage ELSE d.b_stage END,
+  CASE WHEN d.is_create THEN NULL ELSE d.b_amount END,
+  CASE WHEN d.has_amount THEN d.a_amount ELSE d.b_amount END,
+  CASE WHEN d.is_create THEN NULL ELSE d.b_probability END,
+  CASE WHEN d.has_probability THEN d.a_probability ELSE d.b_probability END,
+  CASE WHEN d.is_create THEN NULL ELSE d.b_close_date END,
+  CASE WHEN d.has_close_date THEN d.a_close_date ELSE d.b_close_date END,
+  d.changed_fields,
+  d.source,
+  d.actor_id,
+  k.id,
+  d.audit_log_id,
+  d.created_at
+FROM diffed d
+JOIN opportunities o ON o.id = d.opportunity_id
+LEFT JOIN api_keys k ON k.id = d.api_key_id
+WHERE cardinality(d.changed_fields) > 0
+ON CONFLICT (audit_log_id) DO NOTHING;
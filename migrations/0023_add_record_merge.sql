@@ -0,0 +1,40 @@
+-- 0023: Duplicate detection review queue and record merge support.
+--
+-- legacy_id_map now also records merged-away IDs (reason = 'merge'), so a
+-- survivor can have several legacy IDs. The (entity, canonical_id) UNIQUE
+-- constraint becomes a plain index; existing rows are tagged as
+-- 'canonical_migration' via the column default.
+ALTER TABLE legacy_id_map ADD COLUMN IF NOT EXISTS reason text NOT NULL DEFAULT 'canonical_migration';
+ALTER TABLE legacy_id_map DROP CONSTRAINT IF EXISTS legacy_id_map_entity_canonical_id_key;
+CREATE INDEX IF NOT EXISTS legacy_id_map_entity_canonical_id_idx ON legacy_id_map(entity, canonical_id);
+
+DO $$ BEGIN
+  CREATE TYPE duplicate_entity_type AS ENUM ('account', 'contact');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE duplicate_candidate_status AS ENUM ('pending', 'merged', 'dismissed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS duplicate_candidates (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id  varchar(50)  NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entity_type      duplicate_entity_type NOT NULL,
+  record_id_a      varchar(100) NOT NULL,
+  record_id_b      varchar(100) NOT NULL,
+  score            integer      NOT NULL,
+  reasons          text[]       NOT NULL DEFAULT ARRAY[]::text[],
+  status           duplicate_candidate_status NOT NULL DEFAULT 'pending',
+  survivor_id      varchar(100),
+  resolved_by      varchar(50)  REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at      timestamp,
+  created_at       timestamp    NOT NULL DEFAULT now(),
+  updated_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS duplicate_candidates_org_status_idx ON duplicate_candidates(organization_id, entity_type, status);
+CREATE UNIQUE INDEX IF NOT EXISTS duplicate_candidates_pair_unique_idx ON duplicate_candidates(organization_id, entity_type, record_id_a, record_id_b);
@@ -0,0 +1,46 @@
+-- 0024: Org-scoped custom fields for accounts, contacts, leads, opportunities
+-- and activities.
+--
+-- Definitions live in custom_field_definitions; values are stored on each
+-- record in a custom_fields jsonb column keyed by definition key.
+ALTER TABLE accounts      ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE contacts      ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE leads         ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE activities    ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+DO $$ BEGIN
+  CREATE TYPE custom_field_entity_type AS ENUM ('account', 'contact', 'lead', 'opportunity', 'activity');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE custom_field_type AS ENUM ('text', 'number', 'currency', 'date', 'picklist', 'multi_select', 'boolean', 'lookup');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id  varchar(50)  NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entity_type      custom_field_entity_type NOT NULL,
+  key              varchar(64)  NOT NULL,
+  label            text         NOT NULL,
+  field_type       custom_field_type NOT NULL,
+  options          text[]       NOT NULL DEFAULT ARRAY[]::text[],
+  lookup_entity    varchar(20),
+  required         boolean      NOT NULL DEFAULT false,
+  validation       jsonb        NOT NULL DEFAULT '{}'::jsonb,
+  help_text        text,
+  sort_order       integer      NOT NULL DEFAULT 0,
+  is_active        boolean      NOT NULL DEFAULT true,
+  created_by       varchar(50)  REFERENCES users(id) ON DELETE SET NULL,
+  created_at       timestamp    NOT NULL DEFAULT now(),
+  updated_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS custom_field_definitions_org_entity_idx
+  ON custom_field_definitions(organization_id, entity_type, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS custom_field_definitions_org_entity_key_idx
+  ON custom_field_definitions(organization_id, entity_type, key);
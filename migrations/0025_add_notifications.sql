@@ -0,0 +1,37 @@
+-- 0025: In-app notifications (mentions, thread replies, reassignment, overdue
+-- activities, lead-gen run results) and per-user notification preferences.
+
+DO $$ BEGIN
+  CREATE TYPE notification_type AS ENUM (
+    'mention', 'comment_reply', 'record_assigned', 'activity_overdue',
+    'lead_gen_run_completed', 'lead_gen_run_failed'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id          varchar(50)  NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id  varchar(50)  REFERENCES organizations(id) ON DELETE CASCADE,
+  type             notification_type NOT NULL,
+  title            text         NOT NULL,
+  body             text,
+  entity           text,
+  entity_id        varchar(100),
+  link             text,
+  actor_id         varchar(50)  REFERENCES users(id) ON DELETE SET NULL,
+  dedupe_key       varchar(200),
+  read_at          timestamp,
+  created_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON notifications(user_id, created_at);
+CREATE INDEX IF NOT EXISTS notifications_user_unread_idx ON notifications(user_id, read_at);
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_user_dedupe_idx ON notifications(user_id, dedupe_key);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id          varchar(50)  PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  disabled_types   text[]       NOT NULL DEFAULT ARRAY[]::text[],
+  updated_at       timestamp    NOT NULL DEFAULT now()
+);
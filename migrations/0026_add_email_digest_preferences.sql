@@ -0,0 +1,11 @@
+-- 0026: Opt-in email digest frequency and last-sent marker on notification preferences.
+
+DO $$ BEGIN
+  CREATE TYPE email_digest_frequency AS ENUM ('off', 'daily', 'weekly');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS email_digest        email_digest_frequency NOT NULL DEFAULT 'off',
+  ADD COLUMN IF NOT EXISTS digest_last_sent_at timestamp;
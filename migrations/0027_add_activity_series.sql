@@ -0,0 +1,26 @@
+-- 0027: Recurring activities. A series holds the recurrence rule and the
+-- template copied onto each occurrence; occurrences are ordinary activities
+-- linked back through activities.series_id.
+
+CREATE TABLE IF NOT EXISTS activity_series (
+  id                    varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id       varchar(50)  NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rrule                 text         NOT NULL,
+  dtstart               timestamp    NOT NULL,
+  template              jsonb        NOT NULL,
+  associations          jsonb        NOT NULL DEFAULT '[]'::jsonb,
+  template_activity_id  varchar(100) REFERENCES activities(id) ON DELETE SET NULL,
+  materialized_through  timestamp    NOT NULL,
+  created_by            varchar(50)  REFERENCES users(id) ON DELETE SET NULL,
+  created_at            timestamp    NOT NULL DEFAULT now(),
+  updated_at            timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS activity_series_org_idx ON activity_series (organization_id);
+CREATE INDEX IF NOT EXISTS activity_series_materialized_idx ON activity_series (materialized_through);
+
+ALTER TABLE activities
+  ADD COLUMN IF NOT EXISTS series_id     varchar(50) REFERENCES activity_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_at timestamp;
+
+CREATE INDEX IF NOT EXISTS activities_series_idx ON activities (series_id, occurrence_at);
@@ -0,0 +1,13 @@
+-- 0028: Per-user ICS calendar feed tokens (one per user and organization).
+-- Only a SHA-256 hash of each token is stored.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id                varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           varchar(50) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id   varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  token_hash        text        NOT NULL UNIQUE,
+  last_accessed_at  timestamp,
+  created_at        timestamp   NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feed_tokens_user_org_idx ON calendar_feed_tokens (user_id, organization_id);
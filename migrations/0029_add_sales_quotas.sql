@@ -0,0 +1,27 @@
+-- 0029: Sales quotas per rep or team (user_id NULL = whole organization) and
+-- calendar period, with an optional opportunity category filter.
+
+DO $$ BEGIN
+  CREATE TYPE quota_period_type AS ENUM ('month', 'quarter', 'year');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS sales_quotas (
+  id               varchar(50)       PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id  varchar(50)       NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id          varchar(50)       REFERENCES users(id) ON DELETE CASCADE,
+  period_type      quota_period_type NOT NULL,
+  year             integer           NOT NULL,
+  period           integer           NOT NULL DEFAULT 1,
+  amount           numeric(15, 2)    NOT NULL,
+  category         text,
+  created_by       varchar(50)       REFERENCES users(id) ON DELETE SET NULL,
+  created_at       timestamp         NOT NULL DEFAULT now(),
+  updated_at       timestamp         NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sales_quotas_org_period_idx ON sales_quotas (organization_id, period_type, year, period);
+CREATE INDEX IF NOT EXISTS sales_quotas_user_idx ON sales_quotas (user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS sales_quotas_unique_idx
+  ON sales_quotas (organization_id, coalesce(user_id, ''), period_type, year, period, coalesce(category, ''));
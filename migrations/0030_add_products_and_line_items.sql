@@ -0,0 +1,76 @@
+-- 0030: Product catalog, per-org price books and opportunity line items.
+-- Opportunities gain an optional price book and a flag that keeps the
+-- amount equal to the line item total.
+
+DO $$ BEGIN
+  CREATE TYPE product_billing_type AS ENUM ('one_time', 'recurring');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS products (
+  id                   varchar(50)          PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id      varchar(50)          NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name                 text                 NOT NULL,
+  sku                  varchar(100),
+  description          text,
+  family               text,
+  billing_type         product_billing_type NOT NULL DEFAULT 'one_time',
+  default_term_months  integer,
+  is_active            boolean              NOT NULL DEFAULT true,
+  created_by           varchar(50)          REFERENCES users(id) ON DELETE SET NULL,
+  created_at           timestamp            NOT NULL DEFAULT now(),
+  updated_at           timestamp            NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS products_org_idx ON products (organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS products_org_sku_idx ON products (organization_id, sku);
+
+CREATE TABLE IF NOT EXISTS price_books (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id  varchar(50)  NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name             text         NOT NULL,
+  description      text,
+  currency         varchar(3)   NOT NULL DEFAULT 'USD',
+  is_default       boolean      NOT NULL DEFAULT false,
+  is_active        boolean      NOT NULL DEFAULT true,
+  created_at       timestamp    NOT NULL DEFAULT now(),
+  updated_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS price_books_org_name_idx ON price_books (organization_id, name);
+
+CREATE TABLE IF NOT EXISTS price_book_entries (
+  id             varchar(50)     PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_book_id  varchar(50)     NOT NULL REFERENCES price_books(id) ON DELETE CASCADE,
+  product_id     varchar(50)     NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  unit_price     numeric(15, 2)  NOT NULL,
+  created_at     timestamp       NOT NULL DEFAULT now(),
+  updated_at     timestamp       NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS price_book_entries_book_product_idx ON price_book_entries (price_book_id, product_id);
+CREATE INDEX IF NOT EXISTS price_book_entries_product_idx ON price_book_entries (product_id);
+
+CREATE TABLE IF NOT EXISTS opportunity_line_items (
+  id                varchar(50)          PRIMARY KEY DEFAULT gen_random_uuid(),
+  opportunity_id    varchar(100)         NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  product_id        varchar(50)          REFERENCES products(id) ON DELETE SET NULL,
+  name              text                 NOT NULL,
+  description       text,
+  quantity          numeric(12, 2)       NOT NULL DEFAULT 1,
+  unit_price        numeric(15, 2)       NOT NULL,
+  discount_percent  numeric(5, 2)        NOT NULL DEFAULT 0,
+  term_months       integer,
+  billing_type      product_billing_type NOT NULL DEFAULT 'one_time',
+  total_price       numeric(15, 2)       NOT NULL,
+  sort_order        integer              NOT NULL DEFAULT 0,
+  created_at        timestamp            NOT NULL DEFAULT now(),
+  updated_at        timestamp            NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS opportunity_line_items_opportunity_idx ON opportunity_line_items (opportunity_id, sort_order);
+CREATE INDEX IF NOT EXISTS opportunity_line_items_product_idx ON opportunity_line_items (product_id);
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS price_book_id varchar(50) REFERENCES price_books(id) ON DELETE SET NULL;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS roll_up_line_items boolean NOT NULL DEFAULT false;
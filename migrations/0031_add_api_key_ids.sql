@@ -0,0 +1,7 @@
+-- 0031: Public key id embedded in API keys (htcrm_<key_id>_<secret>) so
+-- authentication looks up one row and verifies one hash. Existing keys keep
+-- key_id NULL and are matched by the legacy hash scan until rotated.
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_id varchar(24);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_keys_key_id_idx ON api_keys (key_id);
@@ -0,0 +1,15 @@
+-- 0032: Saved CSV column mapping templates for the import page.
+
+CREATE TABLE IF NOT EXISTS import_mapping_templates (
+  id               varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id  varchar(50)  NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entity           text         NOT NULL,
+  name             text         NOT NULL,
+  mapping          jsonb        NOT NULL,
+  created_by       varchar(50)  REFERENCES users(id) ON DELETE SET NULL,
+  created_at       timestamp    NOT NULL DEFAULT now(),
+  updated_at       timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS import_mapping_templates_org_entity_name_idx
+  ON import_mapping_templates (organization_id, entity, name);
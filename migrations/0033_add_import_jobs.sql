@@ -0,0 +1,60 @@
+-- 0033: Background import jobs. CRM records remember the job that created
+-- them so an import can be rolled back.
+
+DO $$ BEGIN
+  CREATE TYPE import_job_status AS ENUM ('queued', 'running', 'paused', 'completed', 'failed', 'cancelled', 'rolled_back');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id                 varchar(50)        PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id    varchar(50)        NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entity             text               NOT NULL,
+  source             text               NOT NULL DEFAULT 'csv',
+  file_name          text,
+  status             import_job_status  NOT NULL DEFAULT 'queued',
+  options            jsonb              NOT NULL,
+  file_content       text,
+  total_rows         integer            NOT NULL DEFAULT 0,
+  processed_rows     integer            NOT NULL DEFAULT 0,
+  created_count      integer            NOT NULL DEFAULT 0,
+  updated_count      integer            NOT NULL DEFAULT 0,
+  unchanged_count    integer            NOT NULL DEFAULT 0,
+  skipped_count      integer            NOT NULL DEFAULT 0,
+  failed_count       integer            NOT NULL DEFAULT 0,
+  rolled_back_count  integer,
+  error_message      text,
+  created_by         varchar(50)        REFERENCES users(id) ON DELETE SET NULL,
+  created_at         timestamp          NOT NULL DEFAULT now(),
+  started_at         timestamp,
+  heartbeat_at       timestamp,
+  completed_at       timestamp,
+  rolled_back_at     timestamp
+);
+
+CREATE INDEX IF NOT EXISTS import_jobs_org_created_idx ON import_jobs (organization_id, created_at);
+CREATE INDEX IF NOT EXISTS import_jobs_status_idx ON import_jobs (status);
+
+CREATE TABLE IF NOT EXISTS import_job_errors (
+  id          varchar(50)  PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id      varchar(50)  NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+  row_number  integer      NOT NULL,
+  error       text         NOT NULL,
+  data        jsonb        NOT NULL,
+  created_at  timestamp    NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS import_job_errors_job_row_idx ON import_job_errors (job_id, row_number);
+
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS import_job_id varchar(50);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS import_job_id varchar(50);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS import_job_id varchar(50);
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS import_job_id varchar(50);
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS import_job_id varchar(50);
+
+CREATE INDEX IF NOT EXISTS accounts_import_job_id_idx ON accounts (import_job_id);
+CREATE INDEX IF NOT EXISTS contacts_import_job_id_idx ON contacts (import_job_id);
+CREATE INDEX IF NOT EXISTS leads_import_job_id_idx ON leads (import_job_id);
+CREATE INDEX IF NOT EXISTS opportunities_import_job_id_idx ON opportunities (import_job_id);
+CREATE INDEX IF NOT EXISTS activities_import_job_id_idx ON activities (import_job_id);
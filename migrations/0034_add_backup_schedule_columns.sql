@@ -0,0 +1,11 @@
+-- 0034: Scheduled backups. backup_jobs records where each archive was stored,
+-- its checksum, verification results and retention pruning.
+
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS trigger            text NOT NULL DEFAULT 'manual';
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS target             text;
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS archive_checksum   text;
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS verified_at        timestamp;
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS verification_error text;
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS pruned_at          timestamp;
+
+CREATE INDEX IF NOT EXISTS backup_jobs_trigger_created_idx ON backup_jobs (trigger, created_at);
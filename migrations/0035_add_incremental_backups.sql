@@ -0,0 +1,7 @@
+-- 0035: Incremental backups. An incremental archive holds the rows changed
+-- since a full backup and names that backup in base_job_id.
+
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS backup_type text NOT NULL DEFAULT 'full';
+ALTER TABLE backup_jobs ADD COLUMN IF NOT EXISTS base_job_id varchar(50);
+
+CREATE INDEX IF NOT EXISTS backup_jobs_base_job_idx ON backup_jobs (base_job_id);
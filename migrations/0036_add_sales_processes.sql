@@ -0,0 +1,27 @@
+-- 0036: Per-organization sales processes. Opportunity stages become keys of
+-- the organization's process instead of a fixed enum; organizations without
+-- sales_process_stages rows keep the original six stages.
+
+ALTER TABLE opportunities ALTER COLUMN stage DROP DEFAULT;
+ALTER TABLE opportunities ALTER COLUMN stage TYPE varchar(50) USING stage::text;
+ALTER TABLE opportunities ALTER COLUMN stage SET DEFAULT 'prospecting';
+
+ALTER TABLE opportunity_stage_history ALTER COLUMN from_stage TYPE varchar(50) USING from_stage::text;
+ALTER TABLE opportunity_stage_history ALTER COLUMN to_stage TYPE varchar(50) USING to_stage::text;
+
+DROP TYPE IF EXISTS opportunity_stage;
+
+CREATE TABLE IF NOT EXISTS sales_process_stages (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  key varchar(50) NOT NULL,
+  label text NOT NULL,
+  position integer NOT NULL,
+  probability integer NOT NULL,
+  exit_criteria jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sales_process_stages_org_position_idx ON sales_process_stages (organization_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS sales_process_stages_org_key_idx ON sales_process_stages (organization_id, key);
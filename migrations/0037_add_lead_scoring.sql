@@ -0,0 +1,20 @@
+-- 0037: Lead scoring. Each organization may save a scoring model (fit rules
+-- plus engagement weights); leads store their latest score and breakdown.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS score integer;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS score_breakdown jsonb;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS scored_at timestamp;
+
+CREATE INDEX IF NOT EXISTS leads_org_score_idx ON leads (organization_id, score);
+
+CREATE TABLE IF NOT EXISTS lead_scoring_models (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  fit_rules jsonb NOT NULL DEFAULT '[]'::jsonb,
+  engagement jsonb NOT NULL,
+  updated_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS lead_scoring_models_org_idx ON lead_scoring_models (organization_id);
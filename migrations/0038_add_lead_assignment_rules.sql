@@ -0,0 +1,40 @@
+-- 0038: Lead assignment rules. Organizations route new unowned leads to a
+-- user, a round-robin pool or the least loaded member of a pool; every
+-- routing decision is logged. Leads gain state and country for geography
+-- conditions.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS state text;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS country text;
+
+CREATE TABLE IF NOT EXISTS lead_assignment_rules (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  strategy text NOT NULL,
+  user_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  round_robin_counter integer NOT NULL DEFAULT 0,
+  created_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lead_assignment_rules_org_position_idx ON lead_assignment_rules (organization_id, position);
+
+CREATE TABLE IF NOT EXISTS lead_routing_log (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  lead_id varchar(100) NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  rule_id varchar(50) REFERENCES lead_assignment_rules(id) ON DELETE SET NULL,
+  rule_name text,
+  assigned_to varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  reason text NOT NULL,
+  trigger text NOT NULL,
+  actor_id varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lead_routing_log_lead_idx ON lead_routing_log (lead_id, created_at);
+CREATE INDEX IF NOT EXISTS lead_routing_log_org_created_idx ON lead_routing_log (organization_id, created_at);
@@ -0,0 +1,26 @@
+-- 0039: Durable lead generation jobs. Pipelines run from a database queue
+-- under worker leases, with the last completed phase checkpointed so a run
+-- interrupted by a deploy or crash resumes in any app process.
+
+CREATE TABLE IF NOT EXISTS lead_gen_jobs (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  run_id varchar(50) NOT NULL REFERENCES lead_generation_runs(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued',
+  start_phase text,
+  last_completed_phase text,
+  checkpoint jsonb,
+  attempts integer NOT NULL DEFAULT 0,
+  lease_owner text,
+  lease_expires_at timestamp,
+  heartbeat_at timestamp,
+  stop_requested_at timestamp,
+  error_message text,
+  created_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  started_at timestamp,
+  completed_at timestamp
+);
+
+CREATE INDEX IF NOT EXISTS lead_gen_jobs_status_created_idx ON lead_gen_jobs (status, created_at);
+CREATE INDEX IF NOT EXISTS lead_gen_jobs_run_created_idx ON lead_gen_jobs (run_id, created_at);
@@ -0,0 +1,37 @@
+-- 0040: Per-organization LLM usage and monthly budgets. Every LLM call is
+-- recorded against the organization it ran for; a budget warns admins and
+-- then refuses further calls for the rest of the month.
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'llm_budget_warning';
+
+CREATE TABLE IF NOT EXISTS llm_budgets (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  monthly_token_limit integer,
+  monthly_cost_limit_usd numeric(12, 2),
+  warn_at_percent integer NOT NULL DEFAULT 80,
+  updated_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS llm_budgets_org_idx ON llm_budgets (organization_id);
+
+CREATE TABLE IF NOT EXISTS llm_usage_events (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  source text NOT NULL,
+  run_id varchar(50) REFERENCES lead_generation_runs(id) ON DELETE SET NULL,
+  phase text,
+  user_id varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12, 6) NOT NULL DEFAULT 0,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_events_org_created_idx ON llm_usage_events (organization_id, created_at);
+CREATE INDEX IF NOT EXISTS llm_usage_events_run_idx ON llm_usage_events (run_id);
@@ -0,0 +1,22 @@
+-- 0041: Token and cost accounting. Step logs carry the token usage and
+-- estimated cost of their LLM call, usage events count reasoning tokens, and
+-- admins can set per-model prices that override the built-in list prices.
+
+ALTER TABLE agent_step_logs ADD COLUMN IF NOT EXISTS prompt_tokens integer;
+ALTER TABLE agent_step_logs ADD COLUMN IF NOT EXISTS completion_tokens integer;
+ALTER TABLE agent_step_logs ADD COLUMN IF NOT EXISTS reasoning_tokens integer;
+ALTER TABLE agent_step_logs ADD COLUMN IF NOT EXISTS cost_usd numeric(12, 6);
+
+ALTER TABLE llm_usage_events ADD COLUMN IF NOT EXISTS reasoning_tokens integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS llm_model_prices (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  model text NOT NULL,
+  input_per_million_usd numeric(12, 4) NOT NULL,
+  output_per_million_usd numeric(12, 4) NOT NULL,
+  updated_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS llm_model_prices_model_idx ON llm_model_prices (model);
@@ -0,0 +1,16 @@
+-- 0042: Admin-selectable web search provider per organization (or the
+-- default row without one). Brave and Serper keys are stored encrypted.
+
+CREATE TABLE IF NOT EXISTS web_search_configurations (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) REFERENCES organizations(id) ON DELETE CASCADE,
+  provider text NOT NULL DEFAULT 'auto',
+  encrypted_api_key text,
+  api_key_hint text,
+  base_url text,
+  updated_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS web_search_configurations_org_idx ON web_search_configurations (organization_id);
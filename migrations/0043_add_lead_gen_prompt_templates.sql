@@ -0,0 +1,21 @@
+-- 0043: Editable, versioned prompt templates for the lead-gen agent, and a
+-- record of which template version each run and agent step rendered.
+
+CREATE TABLE IF NOT EXISTS lead_gen_prompt_templates (
+  id varchar(50) PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id varchar(50) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  prompt_key text NOT NULL,
+  version integer NOT NULL,
+  system_prompt text NOT NULL,
+  user_prompt text NOT NULL,
+  change_note text,
+  is_active boolean NOT NULL DEFAULT false,
+  created_by varchar(50) REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS lead_gen_prompt_templates_org_key_version_idx
+  ON lead_gen_prompt_templates (organization_id, prompt_key, version);
+
+ALTER TABLE lead_generation_runs ADD COLUMN IF NOT EXISTS prompt_template_versions jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE agent_step_logs ADD COLUMN IF NOT EXISTS prompt_template jsonb;
@@ -0,0 +1,32 @@
+-- 0044: At most one activity per slot of a recurring series. Materialization
+-- inserts with ON CONFLICT DO NOTHING against this index, so overlapping runs
+-- can't create the same occurrence twice.
+--
+-- Duplicates that already exist are resolved first: a completed or cancelled
+-- copy wins over a pending one, then the oldest. Extra pending copies are
+-- deleted; extra non-pending copies are history, so they are only detached
+-- from the series.
+
+WITH ranked AS (
+  SELECT id, status,
+         row_number() OVER (PARTITION BY series_id, occurrence_at ORDER BY (status = 'pending'), created_at, id) AS rn
+  FROM activities
+  WHERE series_id IS NOT NULL AND occurrence_at IS NOT NULL
+)
+DELETE FROM activities a
+USING ranked r
+WHERE a.id = r.id AND r.rn > 1 AND r.status = 'pending';
+
+WITH ranked AS (
+  SELECT id,
+         row_number() OVER (PARTITION BY series_id, occurrence_at ORDER BY (status = 'pending'), created_at, id) AS rn
+  FROM activities
+  WHERE series_id IS NOT NULL AND occurrence_at IS NOT NULL
+)
+UPDATE activities a
+SET series_id = NULL
+FROM ranked r
+WHERE a.id = r.id AND r.rn > 1;
+
+DROP INDEX IF EXISTS activities_series_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS activities_series_occurrence_idx ON activities (series_id, occurrence_at);
@@ -0,0 +1,23 @@
+-- 0045: One LLM configuration per organization plus one default (organization_id
+-- NULL) that organizations without their own fall back to.
+--
+-- Existing rows stay with the organization they belong to; no default is
+-- created from them, since that would hand one tenant's key and model to every
+-- other organization.
+
+-- Older installs got this column from scripts/migrate-org-scoping.ts
+ALTER TABLE llm_configurations ADD COLUMN IF NOT EXISTS organization_id varchar(50) REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- Keep the most recently updated row per scope (PARTITION BY groups the NULLs together)
+DELETE FROM llm_configurations
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY organization_id ORDER BY updated_at DESC, id) AS rn
+    FROM llm_configurations
+  ) ranked
+  WHERE rn > 1
+);
+
+DROP INDEX IF EXISTS llm_configurations_org_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS llm_configurations_org_idx ON llm_configurations (organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS llm_configurations_global_idx ON llm_configurations ((organization_id IS NULL)) WHERE organization_id IS NULL;
@@ -0,0 +1,16 @@
+-- 0046: One web search configuration per organization plus one default
+-- (organization_id NULL), so which one applies is never ambiguous.
+
+-- Keep the most recently updated row per scope (PARTITION BY groups the NULLs together)
+DELETE FROM web_search_configurations
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY organization_id ORDER BY updated_at DESC, id) AS rn
+    FROM web_search_configurations
+  ) ranked
+  WHERE rn > 1
+);
+
+DROP INDEX IF EXISTS web_search_configurations_org_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS web_search_configurations_org_idx ON web_search_configurations (organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS web_search_configurations_global_idx ON web_search_configurations ((organization_id IS NULL)) WHERE organization_id IS NULL;
@@ -0,0 +1,523 @@
+// Recurring activity series
+// A series stores an RRULE, a start date and a template; its occurrences are
+// ordinary activities (seriesId set) materialized up to a rolling horizon by a
+// background worker. Edits and deletes on an occurrence apply to "this"
+// occurrence, "following" occurrences (splitting the series in two) or the
+// whole "series". Only pending occurrences are rewritten — completed and
+// cancelled ones are history and keep their values.
+
+import { db, storage, eq, and, asc, gte, inArray, ne, sql } from "./db";
+import { lt, type SQL } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type {
+  Activity,
+  ActivitySeries,
+  ActivitySeriesAssociation,
+  ActivitySeriesEditScope,
+  ActivitySeriesTemplate,
+} from "@shared/schema";
+import {
+  RecurrenceRuleError,
+  calendarDayDelta,
+  countOccurrencesBefore,
+  describeRecurrenceRule,
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  shiftRecurrenceRule,
+  truncateRecurrenceRule,
+  type RecurrenceRule,
+} from "./lib/recurrence";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UPCOMING_LIMIT = 10;
+
+// Fields copied from the series template onto every occurrence. Anything else
+// (status, completedAt) only ever applies to the occurrence being edited.
+const TEMPLATE_FIELDS = ["type", "subject", "priority", "ownerId", "notes", "customFields", "relatedType", "relatedId"] as const;
+
+/** How far ahead occurrences are created (ACTIVITY_SERIES_HORIZON_DAYS, default 60). */
+function horizonDays(): number {
+  const days = parseInt(process.env.ACTIVITY_SERIES_HORIZON_DAYS ?? "", 10);
+  return days >= 1 && days <= 366 ? days : 60;
+}
+
+function horizonEnd(now: Date): Date {
+  return new Date(now.getTime() + horizonDays() * DAY_MS);
+}
+
+function templateFromActivity(activity: Activity): ActivitySeriesTemplate {
+  return {
+    type: activity.type,
+    subject: activity.subject,
+    priority: activity.priority,
+    ownerId: activity.ownerId,
+    notes: activity.notes,
+    customFields: activity.customFields,
+    relatedType: activity.relatedType,
+    relatedId: activity.relatedId,
+  };
+}
+
+/** Template fields whose value actually changed between `before` and `updates`. */
+function changedTemplateFields(before: Activity, updates: Record<string, any>): Partial<ActivitySeriesTemplate> {
+  const changes: Record<string, unknown> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (!(field in updates)) continue;
+    if (JSON.stringify(updates[field] ?? null) !== JSON.stringify(before[field] ?? null)) {
+      changes[field] = updates[field] ?? null;
+    }
+  }
+  return changes as Partial<ActivitySeriesTemplate>;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const date = value instanceof Date ? value : new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Shift a rule so it keeps matching occurrences moved by `deltaMs`. */
+function shiftRule(rule: RecurrenceRule, from: Date, deltaMs: number): RecurrenceRule {
+  if (deltaMs === 0) return rule;
+  const shifted = shiftRecurrenceRule(rule, calendarDayDelta(from, new Date(from.getTime() + deltaMs)));
+  if (!shifted) {
+    throw new RecurrenceRuleError("This series can't be moved by that many days; change its recurrence instead");
+  }
+  return shifted.until ? { ...shifted, until: new Date(shifted.until.getTime() + deltaMs) } : shifted;
+}
+
+async function getSeries(seriesId: string): Promise<ActivitySeries | undefined> {
+  const [series] = await db.select().from(schema.activitySeries).where(eq(schema.activitySeries.id, seriesId));
+  return series;
+}
+
+async function getAssociationSnapshot(activityId: string): Promise<ActivitySeriesAssociation[]> {
+  return db.select({ entityType: schema.activityAssociations.entityType, entityId: schema.activityAssociations.entityId })
+    .from(schema.activityAssociations)
+    .where(eq(schema.activityAssociations.activityId, activityId));
+}
+
+async function copyAssociations(activityIds: string[], associations: ActivitySeriesAssociation[]): Promise<void> {
+  if (activityIds.length === 0 || associations.length === 0) return;
+  await db.insert(schema.activityAssociations)
+    .values(activityIds.flatMap(activityId => associations.map(a => ({ activityId, ...a }))))
+    .onConflictDoNothing();
+}
+
+/** Pending occurrences of a series, optionally only those at or after `from`. */
+function pendingOccurrencesWhere(seriesId: string, from: Date | null, excludeId?: string): SQL {
+  const a = schema.activities;
+  return and(
+    eq(a.seriesId, seriesId),
+    eq(a.status, "pending"),
+    from ? gte(a.occurrenceAt, from) : undefined,
+    excludeId ? ne(a.id, excludeId) : undefined,
+  )!;
+}
+
+const isUniqueViolation = (error: any) => error?.code === "23505" || error?.cause?.code === "23505";
+
+function rethrowOccupiedSlot(error: unknown): never {
+  if (isUniqueViolation(error)) {
+    throw new RecurrenceRuleError("That would move an occurrence onto a slot the series already has a completed or cancelled occurrence in");
+  }
+  throw error;
+}
+
+/**
+ * Apply template changes to pending occurrences and move them by `deltaMs`.
+ * Slots are unique per series and Postgres checks that row by row, so a
+ * single UPDATE could briefly land one occurrence on a neighbour that hasn't
+ * moved yet. The moved slots, and the edited occurrence's own (which the
+ * caller sets afterwards), are parked far in the future first.
+ */
+async function updatePendingOccurrences(
+  tx: typeof db,
+  where: SQL,
+  editedId: string,
+  changes: Partial<ActivitySeriesTemplate>,
+  deltaMs: number,
+): Promise<void> {
+  const a = schema.activities;
+  const parking = sql`interval '1000 years'`;
+  const ids = (await tx.select({ id: a.id }).from(a).where(where)).map(row => row.id);
+  if (deltaMs !== 0) {
+    await tx.update(a).set({ occurrenceAt: sql`${a.occurrenceAt} + ${parking}` }).where(inArray(a.id, [...ids, editedId]));
+  }
+  if (ids.length === 0) return;
+  const shift = deltaMs !== 0
+    ? {
+        dueAt: sql`${a.dueAt} + ${deltaMs} * interval '1 millisecond'`,
+        occurrenceAt: sql`${a.occurrenceAt} - ${parking} + ${deltaMs} * interval '1 millisecond'`,
+      }
+    : {};
+  await tx.update(a)
+    .set({ ...changes, ...shift, updatedAt: new Date() } as any)
+    .where(inArray(a.id, ids));
+}
+
+/**
+ * Create occurrences of a series up to the horizon. Only dates after
+ * materializedThrough are generated, so occurrences a user deleted are not
+ * recreated. The series row is locked for the duration, so the sweep and a
+ * request extending the same series (on this or another instance) take turns,
+ * and a run that dies partway leaves nothing behind. Returns the number of
+ * activities created.
+ */
+export async function materializeSeries(series: ActivitySeries, now = new Date()): Promise<number> {
+  const until = horizonEnd(now);
+  if (series.materializedThrough >= until) return 0;
+
+  return db.transaction(async (tx) => {
+    // Re-read under the lock: whoever held it before us may have moved the horizon
+    const [locked] = await tx.select().from(schema.activitySeries)
+      .where(eq(schema.activitySeries.id, series.id))
+      .for("update");
+    if (!locked || locked.materializedThrough >= until) return 0;
+
+    const rule = parseRecurrenceRule(locked.rrule);
+    const dates = expandRecurrence(rule, locked.dtstart, { after: locked.materializedThrough, until });
+    const created: string[] = [];
+    for (const occurrenceAt of dates) {
+      const [activity] = await tx.insert(schema.activities).values({
+        ...locked.template,
+        id: await storage.generateId("Activity", locked.organizationId, tx),
+        organizationId: locked.organizationId,
+        status: "pending",
+        dueAt: occurrenceAt,
+        completedAt: null,
+        seriesId: locked.id,
+        occurrenceAt,
+      })
+        .onConflictDoNothing({ target: [schema.activities.seriesId, schema.activities.occurrenceAt] })
+        .returning({ id: schema.activities.id });
+      if (activity) created.push(activity.id);
+    }
+    if (created.length > 0 && locked.associations.length > 0) {
+      await tx.insert(schema.activityAssociations)
+        .values(created.flatMap(activityId => locked.associations.map(a => ({ activityId, ...a }))))
+        .onConflictDoNothing();
+    }
+    await tx.update(schema.activitySeries)
+      .set({ materializedThrough: until })
+      .where(eq(schema.activitySeries.id, locked.id));
+    return created.length;
+  });
+}
+
+/** Extend every series whose occurrences don't yet reach the horizon. */
+export async function materializeAllSeries(now = new Date()): Promise<number> {
+  const due = await db.select().from(schema.activitySeries)
+    .where(lt(schema.activitySeries.materializedThrough, horizonEnd(now)));
+  let created = 0;
+  for (const series of due) {
+    try {
+      created += await materializeSeries(series, now);
+    } catch (err) {
+      console.error(`[ActivitySeries] Failed to materialize series ${series.id}:`, err);
+    }
+  }
+  return created;
+}
+
+/**
+ * Turn an existing activity into the first occurrence of a new series and
+ * materialize the occurrences that follow it. Throws RecurrenceRuleError for
+ * invalid rules or an activity without a due date.
+ */
+export async function createActivitySeries(
+  activity: Activity,
+  rrule: string,
+  createdBy: string | null,
+): Promise<{ series: ActivitySeries; activity: Activity }> {
+  if (!activity.dueAt) throw new RecurrenceRuleError("Recurring activities need a due date");
+  if (!activity.organizationId) throw new RecurrenceRuleError("Recurring activities must belong to an organization");
+  const rule = parseRecurrenceRule(rrule);
+
+  const [series] = await db.insert(schema.activitySeries).values({
+    organizationId: activity.organizationId,
+    rrule: formatRecurrenceRule(rule),
+    dtstart: activity.dueAt,
+    template: templateFromActivity(activity),
+    associations: await getAssociationSnapshot(activity.id),
+    templateActivityId: activity.id,
+    materializedThrough: activity.dueAt,
+    createdBy,
+  }).returning();
+
+  const [updated] = await db.update(schema.activities)
+    .set({ seriesId: series.id, occurrenceAt: activity.dueAt })
+    .where(eq(schema.activities.id, activity.id))
+    .returning();
+
+  await materializeSeries(series);
+  return { series, activity: updated };
+}
+
+export interface SeriesEditResult {
+  activity: Activity;
+  // Series rows before/after the edit, for auditing. `before` is null for a
+  // newly created series (split or new recurrence).
+  seriesChanges: { before: ActivitySeries | null; after: ActivitySeries }[];
+}
+
+/**
+ * Apply an edit to an activity. `updates` are activity columns with dates
+ * already converted; `recurrence` (an RRULE string) re-plans the series from
+ * this occurrence on, or makes a one-off activity recurring.
+ */
+export async function updateActivityWithScope(
+  before: Activity,
+  updates: Record<string, any>,
+  scope: ActivitySeriesEditScope,
+  recurrence: string | undefined,
+  actorId: string | null,
+): Promise<SeriesEditResult> {
+  const series = before.seriesId ? await getSeries(before.seriesId) : undefined;
+
+  if (!series) {
+    const activity = await storage.updateActivity(before.id, updates);
+    if (!recurrence) return { activity, seriesChanges: [] };
+    const created = await createActivitySeries(activity, recurrence, actorId);
+    return { activity: created.activity, seriesChanges: [{ before: null, after: created.series }] };
+  }
+
+  if (scope === "this") {
+    if (recurrence) {
+      throw new RecurrenceRuleError("Changing the recurrence applies to following occurrences or the whole series");
+    }
+    return { activity: await storage.updateActivity(before.id, updates), seriesChanges: [] };
+  }
+
+  const newRule = recurrence ? parseRecurrenceRule(recurrence) : null;
+  const changes = changedTemplateFields(before, updates);
+  const newDueAt = "dueAt" in updates ? toDate(updates.dueAt) : before.dueAt;
+  if (!newDueAt) throw new RecurrenceRuleError("Occurrences of a recurring series need a due date");
+  const deltaMs = before.dueAt ? newDueAt.getTime() - before.dueAt.getTime() : 0;
+
+  // The occurrence, the series and the occurrences in scope change together or
+  // not at all; the series lock keeps the sweep out until they have.
+  const { activity, target, seriesChanges } = await db.transaction(async (tx) => {
+    const [locked] = await tx.select().from(schema.activitySeries)
+      .where(eq(schema.activitySeries.id, series.id))
+      .for("update");
+    const current = locked ?? series;
+    const rule = parseRecurrenceRule(current.rrule);
+    const occurrenceAt = before.occurrenceAt ?? before.dueAt ?? current.dtstart;
+    const isFirst = occurrenceAt <= current.dtstart;
+
+    await storage.updateActivity(before.id, updates, tx);
+    const template = { ...current.template, ...changes };
+
+    // The edited occurrence starts the (possibly new) series when the rule
+    // changes; otherwise every occurrence in scope moves by the same amount.
+    const dtstart = newRule ? newDueAt : new Date((isFirst ? current.dtstart : occurrenceAt).getTime() + deltaMs);
+    let targetRule: RecurrenceRule;
+    if (newRule) {
+      targetRule = newRule;
+    } else if (scope === "following" && !isFirst) {
+      const remaining = rule.count !== undefined ? rule.count - countOccurrencesBefore(rule, current.dtstart, occurrenceAt) : undefined;
+      targetRule = shiftRule(remaining !== undefined ? { ...rule, count: Math.max(1, remaining) } : rule, occurrenceAt, deltaMs);
+    } else {
+      targetRule = shiftRule(rule, current.dtstart, deltaMs);
+    }
+
+    const seriesChanges: SeriesEditResult["seriesChanges"] = [];
+    let target: ActivitySeries;
+    // A whole-series edit reaches earlier pending occurrences too; for a rule
+    // change that means dropping them, since they no longer match the new rule
+    const scopeFrom = scope === "following" ? occurrenceAt : null;
+
+    if (scope === "following" && !isFirst) {
+      // Split: the old series ends just before this occurrence and a new series
+      // takes over from here, keeping the template's associations.
+      const [truncated] = await tx.update(schema.activitySeries)
+        .set({ rrule: formatRecurrenceRule(truncateRecurrenceRule(rule, occurrenceAt)), updatedAt: new Date() })
+        .where(eq(schema.activitySeries.id, current.id))
+        .returning();
+      seriesChanges.push({ before: current, after: truncated });
+
+      const [created] = await tx.insert(schema.activitySeries).values({
+        organizationId: current.organizationId,
+        rrule: formatRecurrenceRule(targetRule),
+        dtstart,
+        template,
+        associations: current.associations,
+        templateActivityId: before.id,
+        materializedThrough: newRule ? dtstart : new Date(current.materializedThrough.getTime() + deltaMs),
+        createdBy: actorId,
+      }).returning();
+      seriesChanges.push({ before: null, after: created });
+      target = created;
+
+      // Occurrences from here on (completed ones included) move to the new series
+      await tx.update(schema.activities)
+        .set({ seriesId: created.id })
+        .where(and(eq(schema.activities.seriesId, current.id), gte(schema.activities.occurrenceAt, occurrenceAt)));
+    } else {
+      const [updatedSeries] = await tx.update(schema.activitySeries)
+        .set({
+          rrule: formatRecurrenceRule(targetRule),
+          dtstart,
+          template,
+          materializedThrough: newRule ? dtstart : new Date(current.materializedThrough.getTime() + deltaMs),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.activitySeries.id, current.id))
+        .returning();
+      seriesChanges.push({ before: current, after: updatedSeries });
+      target = updatedSeries;
+    }
+
+    if (newRule) {
+      // Re-plan: the edited occurrence anchors the new rule and the other
+      // pending occurrences in scope are regenerated from it.
+      await tx.delete(schema.activities).where(pendingOccurrencesWhere(target.id, scopeFrom, before.id));
+    } else if (Object.keys(changes).length > 0 || deltaMs !== 0) {
+      await updatePendingOccurrences(tx, pendingOccurrencesWhere(target.id, scopeFrom, before.id), before.id, changes, deltaMs);
+    }
+
+    const [activity] = await tx.update(schema.activities)
+      .set({ occurrenceAt: newRule ? dtstart : new Date(occurrenceAt.getTime() + deltaMs) })
+      .where(eq(schema.activities.id, before.id))
+      .returning();
+    return { activity, target, seriesChanges };
+  }).catch(rethrowOccupiedSlot);
+
+  await materializeSeries(target);
+  return { activity, seriesChanges };
+}
+
+export interface SeriesDeleteResult {
+  deletedIds: string[];
+  seriesChanges: { before: ActivitySeries; after: ActivitySeries | null }[];
+}
+
+/**
+ * Delete an activity. For series occurrences, "following" ends the series
+ * before this occurrence and "series" removes the series; either way only
+ * pending occurrences are deleted (besides the one the user picked).
+ */
+export async function deleteActivityWithScope(activity: Activity, scope: ActivitySeriesEditScope): Promise<SeriesDeleteResult> {
+  const series = activity.seriesId ? await getSeries(activity.seriesId) : undefined;
+  if (!series || scope === "this") {
+    await storage.deleteActivity(activity.id);
+    return { deletedIds: [activity.id], seriesChanges: [] };
+  }
+
+  const occurrenceAt = activity.occurrenceAt ?? activity.dueAt ?? series.dtstart;
+  const wholeSeries = scope === "series" || occurrenceAt <= series.dtstart;
+  const pending = await db.select({ id: schema.activities.id }).from(schema.activities)
+    .where(pendingOccurrencesWhere(series.id, wholeSeries ? null : occurrenceAt));
+  const deletedIds = Array.from(new Set([activity.id, ...pending.map(p => p.id)]));
+  await db.delete(schema.activities).where(inArray(schema.activities.id, deletedIds));
+
+  if (wholeSeries) {
+    // Completed occurrences stay as history; the FK detaches them
+    await db.delete(schema.activitySeries).where(eq(schema.activitySeries.id, series.id));
+    return { deletedIds, seriesChanges: [{ before: series, after: null }] };
+  }
+
+  const [truncated] = await db.update(schema.activitySeries)
+    .set({
+      rrule: formatRecurrenceRule(truncateRecurrenceRule(parseRecurrenceRule(series.rrule), occurrenceAt)),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.activitySeries.id, series.id))
+    .returning();
+  return { deletedIds, seriesChanges: [{ before: series, after: truncated }] };
+}
+
+/**
+ * Mirror an association change on a series occurrence onto the series
+ * template (so future occurrences get it) and onto the other pending
+ * occurrences in scope. No-op for "this" or one-off activities.
+ */
+export async function syncSeriesAssociation(
+  activity: Activity,
+  association: ActivitySeriesAssociation,
+  change: "add" | "remove",
+  scope: ActivitySeriesEditScope,
+): Promise<void> {
+  if (scope === "this" || !activity.seriesId) return;
+  const series = await getSeries(activity.seriesId);
+  if (!series) return;
+
+  const same = (a: ActivitySeriesAssociation) => a.entityType === association.entityType && a.entityId === association.entityId;
+  const associations = change === "add"
+    ? (series.associations.some(same) ? series.associations : [...series.associations, association])
+    : series.associations.filter(a => !same(a));
+  await db.update(schema.activitySeries)
+    .set({ associations, updatedAt: new Date() })
+    .where(eq(schema.activitySeries.id, series.id));
+
+  const from = scope === "following" ? (activity.occurrenceAt ?? activity.dueAt) : null;
+  const targets = await db.select({ id: schema.activities.id }).from(schema.activities)
+    .where(pendingOccurrencesWhere(series.id, from, activity.id));
+  const targetIds = targets.map(t => t.id);
+  if (targetIds.length === 0) return;
+
+  if (change === "add") {
+    await copyAssociations(targetIds, [association]);
+  } else {
+    await db.delete(schema.activityAssociations).where(and(
+      inArray(schema.activityAssociations.activityId, targetIds),
+      eq(schema.activityAssociations.entityType, association.entityType),
+      eq(schema.activityAssociations.entityId, association.entityId),
+    ));
+  }
+}
+
+/** Series details for an occurrence: the rule, a summary and the next pending occurrences. */
+export async function getActivitySeriesInfo(activity: Activity, now = new Date()) {
+  if (!activity.seriesId) return null;
+  const series = await getSeries(activity.seriesId);
+  if (!series) return null;
+
+  const a = schema.activities;
+  const upcoming = await db.select({ id: a.id, subject: a.subject, dueAt: a.dueAt, status: a.status })
+    .from(a)
+    .where(and(eq(a.seriesId, series.id), eq(a.status, "pending"), gte(a.dueAt, now)))
+    .orderBy(asc(a.dueAt))
+    .limit(UPCOMING_LIMIT);
+  const [{ total, completed }] = await db.select({
+    total: sql<number>`count(*)::int`,
+    completed: sql<number>`count(*) filter (where ${a.status} = 'completed')::int`,
+  }).from(a).where(eq(a.seriesId, series.id));
+
+  return {
+    id: series.id,
+    rrule: series.rrule,
+    description: describeRecurrenceRule(parseRecurrenceRule(series.rrule)),
+    dtstart: series.dtstart,
+    templateActivityId: series.templateActivityId,
+    materializedThrough: series.materializedThrough,
+    isFirstOccurrence: (activity.occurrenceAt ?? activity.dueAt ?? series.dtstart) <= series.dtstart,
+    occurrenceCount: total,
+    completedCount: completed,
+    upcoming,
+  };
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/** Start the periodic series materialization sweep (idempotent). */
+export function startActivitySeriesWorker(intervalMs = 60 * 60_000): void {
+  if (workerTimer) return;
+  const sweep = () => {
+    if (sweeping) return;
+    sweeping = true;
+    materializeAllSeries()
+      .then(created => {
+        if (created > 0) console.log(`[ActivitySeries] Created ${created} upcoming occurrence(s)`);
+      })
+      .catch(err => console.error("[ActivitySeries] Sweep error:", err))
+      .finally(() => {
+        sweeping = false;
+      });
+  };
+  workerTimer = setInterval(sweep, intervalMs);
+  workerTimer.unref();
+}
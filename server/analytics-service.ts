@@ -3,17 +3,15 @@
 
 import { db } from "./db";
 import * as schema from "@shared/schema";
-import { eq, and, gte, lte, sql, desc, asc, isNull, isNotNull, or, inArray } from "drizzle-orm";
-
-// Stage probability mapping (industry standard for healthcare/B2B)
-const STAGE_PROBABILITIES: Record<string, number> = {
-  prospecting: 0.10,
-  qualification: 0.25,
-  proposal: 0.60,
-  negotiation: 0.80,
-  closed_won: 1.00,
-  closed_lost: 0.00,
-};
+import { eq, and, gte, lte, lt, sql, desc, asc, isNull, isNotNull, or, inArray, notInArray } from "drizzle-orm";
+import { computeQuotaMetrics, formatQuotaPeriod, quotaPeriodFor, quotaPeriodRange } from "./lib/quotas";
+import { CLOSED_STAGES, lateOpenStages, openStages, stagePhases } from "./lib/sales-process";
+import { latestOpportunityCloses } from "./lib/opportunity-stage-diff";
+import { getSalesProcess, getStageProbabilityLookup } from "./sales-process-service";
+
+// Open opportunities are those in any stage but the two closed ones; stage
+// probabilities and order come from each organization's sales process
+const isOpenStage = notInArray(schema.opportunities.stage, CLOSED_STAGES);
 
 // Time decay multipliers for older opportunities
 const TIME_DECAY_FACTORS = [
@@ -98,129 +96,77 @@ export async function getHistoricalMetrics(dateRange: DateRange, orgId?: string)
 
 // ========== STAGE CONVERSION RATES ==========
 
-export async function getStageConversionRates(dateRange: DateRange, orgId?: string) {
+// Stage changes recorded in opportunity_stage_history within the range, for
+// opportunities included in forecast. Covers every write path (UI, bulk,
+// external API, import, restore) rather than just UI updates. Creation rows
+// (fromStage null) are included; callers counting moves between stages skip them.
+async function getStageTransitions(dateRange: DateRange, orgId?: string) {
   const { start, end } = dateRange;
   const orgFilter = orgId ? [eq(schema.opportunities.organizationId, orgId)] : [];
 
-  // First, get all opportunity IDs that are included in forecast
-  const includedOpps = await db
-    .select({ id: schema.opportunities.id })
-    .from(schema.opportunities)
-    .where(and(eq(schema.opportunities.includeInForecast, true), ...orgFilter));
-  
-  const includedOppIds = new Set(includedOpps.map(o => o.id));
-
-  // Get audit logs for opportunity stage changes in the date range
-  const stageChanges = await db
-    .select()
-    .from(schema.auditLogs)
+  return db
+    .select({
+      opportunityId: schema.opportunityStageHistory.opportunityId,
+      fromStage: schema.opportunityStageHistory.fromStage,
+      toStage: schema.opportunityStageHistory.toStage,
+      toAmount: schema.opportunityStageHistory.toAmount,
+      changedAt: schema.opportunityStageHistory.changedAt,
+    })
+    .from(schema.opportunityStageHistory)
+    .innerJoin(schema.opportunities, eq(schema.opportunities.id, schema.opportunityStageHistory.opportunityId))
     .where(
       and(
-        eq(schema.auditLogs.resource, "Opportunity"),
-        eq(schema.auditLogs.action, "update"),
-        gte(schema.auditLogs.createdAt, start),
-        lte(schema.auditLogs.createdAt, end)
+        eq(schema.opportunities.includeInForecast, true),
+        sql`'stage' = ANY(${schema.opportunityStageHistory.changedFields})`,
+        isNotNull(schema.opportunityStageHistory.toStage),
+        gte(schema.opportunityStageHistory.changedAt, start),
+        lte(schema.opportunityStageHistory.changedAt, end),
+        ...orgFilter
       )
-    );
+    )
+    .orderBy(asc(schema.opportunityStageHistory.changedAt));
+}
 
-  // Track stage transitions by parsing audit log diffs
-  const transitions: Record<string, { from: string; to: string; count: number }[]> = {};
-  const stageTransitionCounts: Record<string, number> = {
-    prospecting: 0,
-    qualification: 0,
-    proposal: 0,
-    negotiation: 0,
-    closed_won: 0,
-    closed_lost: 0,
-  };
+export async function getStageConversionRates(dateRange: DateRange, orgId?: string) {
+  const { start, end } = dateRange;
+  const orgFilter = orgId ? [eq(schema.opportunities.organizationId, orgId)] : [];
 
-  stageChanges.forEach((log) => {
-    try {
-      // Only process audit logs for opportunities that are included in forecast
-      if (!log.resourceId || !includedOppIds.has(log.resourceId)) {
-        return; // Skip this log entry
-      }
+  const [stageChanges, process] = await Promise.all([getStageTransitions(dateRange, orgId), getSalesProcess(orgId)]);
+  const zeroPerStage = () => Object.fromEntries(process.map((stage) => [stage.key, 0])) as Record<string, number>;
 
-      const before = typeof log.before === 'string' ? JSON.parse(log.before) : log.before;
-      const after = typeof log.after === 'string' ? JSON.parse(log.after) : log.after;
-
-      // Check if stage changed
-      if (before?.stage && after?.stage && before.stage !== after.stage) {
-        const fromStage = before.stage;
-        const toStage = after.stage;
-        
-        // Track transitions from the "from" stage
-        stageTransitionCounts[fromStage] = (stageTransitionCounts[fromStage] || 0) + 1;
-        
-        const transitionKey = `${fromStage}_to_${toStage}`;
-        if (!transitions[transitionKey]) {
-          transitions[transitionKey] = [];
-        }
-        
-        // Find or create transition record
-        const existing = transitions[transitionKey].find(
-          (t) => t.from === fromStage && t.to === toStage
-        );
-        
-        if (existing) {
-          existing.count++;
-        } else {
-          transitions[transitionKey].push({ from: fromStage, to: toStage, count: 1 });
-        }
-      }
-    } catch (error) {
-      // Skip malformed audit logs
-    }
-  });
+  // Count transitions out of each stage and per from→to pair
+  const transitions: Record<string, number> = {};
+  const stageTransitionCounts = zeroPerStage();
 
-  // Calculate conversion rates based on actual transitions
-  // Conversion rate = (deals moved to next stage) / (deals that were in previous stage)
-  const getTransitionCount = (from: string, to: string): number => {
-    const key = `${from}_to_${to}`;
-    return transitions[key]?.[0]?.count || 0;
-  };
+  for (const change of stageChanges) {
+    if (!change.fromStage) continue;
+    const fromStage = change.fromStage;
+    const toStage = change.toStage!;
+    stageTransitionCounts[fromStage] = (stageTransitionCounts[fromStage] || 0) + 1;
+    const transitionKey = `${fromStage}_to_${toStage}`;
+    transitions[transitionKey] = (transitions[transitionKey] || 0) + 1;
+  }
 
-  const getTotalFromStage = (stage: string): number => {
-    return stageTransitionCounts[stage] || 0;
+  // Conversion rate = (deals moved to next stage) / (deals that left the previous stage)
+  const getTransitionCount = (from: string, to: string): number => transitions[`${from}_to_${to}`] || 0;
+  const getTotalFromStage = (stage: string): number => stageTransitionCounts[stage] || 0;
+  const rate = (from: string, to: string): number => {
+    const total = getTotalFromStage(from);
+    return total > 0 ? getTransitionCount(from, to) / total : 0;
   };
 
-  // Calculate stage-to-stage conversion rates
+  // Each open stage to the next, and the last one to won
+  // (prospecting_to_qualification … negotiation_to_won for the default process)
+  const open = openStages(process).map((stage) => stage.key);
   const conversions: Record<string, number> = {};
-  
-  // Prospecting → Qualification
-  const prospectingTotal = getTotalFromStage("prospecting");
-  conversions.prospecting_to_qualification = prospectingTotal > 0 
-    ? getTransitionCount("prospecting", "qualification") / prospectingTotal 
-    : 0;
-
-  // Qualification → Proposal
-  const qualificationTotal = getTotalFromStage("qualification");
-  conversions.qualification_to_proposal = qualificationTotal > 0 
-    ? getTransitionCount("qualification", "proposal") / qualificationTotal 
-    : 0;
-
-  // Proposal → Negotiation
-  const proposalTotal = getTotalFromStage("proposal");
-  conversions.proposal_to_negotiation = proposalTotal > 0 
-    ? getTransitionCount("proposal", "negotiation") / proposalTotal 
-    : 0;
-
-  // Negotiation → Closed Won
-  const negotiationTotal = getTotalFromStage("negotiation");
-  conversions.negotiation_to_won = negotiationTotal > 0 
-    ? getTransitionCount("negotiation", "closed_won") / negotiationTotal 
-    : 0;
+  open.forEach((from, i) => {
+    const to = open[i + 1];
+    conversions[to ? `${from}_to_${to}` : `${from}_to_won`] = rate(from, to ?? "closed_won");
+  });
 
   // Current snapshot for reference (not used in conversion calculations, only those included in forecast)
   const currentOpps = await db.select().from(schema.opportunities).where(and(eq(schema.opportunities.includeInForecast, true), ...orgFilter));
-  const stageCount: Record<string, number> = {
-    prospecting: 0,
-    qualification: 0,
-    proposal: 0,
-    negotiation: 0,
-    closed_won: 0,
-    closed_lost: 0,
-  };
+  const stageCount = zeroPerStage();
 
   currentOpps.forEach((opp) => {
     stageCount[opp.stage] = (stageCount[opp.stage] || 0) + 1;
@@ -240,37 +186,52 @@ export async function getStageConversionRates(dateRange: DateRange, orgId?: stri
 export async function getPipelineVelocity(dateRange: DateRange, orgId?: string) {
   const { start, end } = dateRange;
   const days = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
-  const orgFilter = orgId ? [eq(schema.opportunities.organizationId, orgId)] : [];
-
-  // Get opportunities that moved in this period (only those included in forecast)
-  const movedOpps = await db
-    .select()
-    .from(schema.opportunities)
-    .where(
-      and(
-        eq(schema.opportunities.includeInForecast, true),
-        gte(schema.opportunities.updatedAt, start),
-        lte(schema.opportunities.updatedAt, end),
-        or(
-          eq(schema.opportunities.stage, "closed_won"),
-          eq(schema.opportunities.stage, "closed_lost")
-        ),
-        ...orgFilter
-      )
-    );
 
-  const totalValue = movedOpps.reduce(
-    (sum, opp) => sum + parseFloat(opp.amount || "0"),
-    0
-  );
+  // Opportunities that moved into (or were created in) a closed stage during
+  // the period. If a deal was reopened and closed again, only its latest close
+  // in the range counts.
+  const closes = latestOpportunityCloses(await getStageTransitions(dateRange, orgId));
 
+  const totalValue = Array.from(closes.values()).reduce((sum, c) => sum + c.amount, 0);
   const velocityPerDay = days > 0 ? totalValue / days : 0;
 
+  // Average time in each stage, from consecutive stage changes per opportunity
+  // (the first entry per opportunity marks when it entered its first stage).
+  const closedIds = Array.from(closes.keys());
+  const stageDurations: Record<string, number[]> = {};
+  if (closedIds.length > 0) {
+    const history = await db
+      .select()
+      .from(schema.opportunityStageHistory)
+      .where(
+        and(
+          inArray(schema.opportunityStageHistory.opportunityId, closedIds),
+          sql`'stage' = ANY(${schema.opportunityStageHistory.changedFields})`,
+        )
+      )
+      .orderBy(asc(schema.opportunityStageHistory.changedAt));
+
+    const entered = new Map<string, { stage: string; at: Date }>();
+    for (const row of history) {
+      const prev = entered.get(row.opportunityId);
+      if (prev && row.fromStage === prev.stage) {
+        const daysInStage = (row.changedAt.getTime() - prev.at.getTime()) / (1000 * 60 * 60 * 24);
+        (stageDurations[prev.stage] ||= []).push(daysInStage);
+      }
+      if (row.toStage) entered.set(row.opportunityId, { stage: row.toStage, at: row.changedAt });
+    }
+  }
+  const avgDaysInStage: Record<string, number> = {};
+  for (const [stage, durations] of Object.entries(stageDurations)) {
+    avgDaysInStage[stage] = durations.reduce((a, b) => a + b, 0) / durations.length;
+  }
+
   return {
     totalValue,
     days,
     velocityPerDay,
-    opportunitiesMoved: movedOpps.length,
+    opportunitiesMoved: closes.size,
+    avgDaysInStage,
   };
 }
 
@@ -290,16 +251,13 @@ export async function calculateForecasts(targetDate?: Date, orgId?: string) {
         eq(schema.opportunities.includeInForecast, true),
         isNotNull(schema.opportunities.closeDate),
         lte(schema.opportunities.closeDate, target),
-        or(
-          eq(schema.opportunities.stage, "prospecting"),
-          eq(schema.opportunities.stage, "qualification"),
-          eq(schema.opportunities.stage, "proposal"),
-          eq(schema.opportunities.stage, "negotiation")
-        ),
+        isOpenStage,
         ...orgFilter
       )
     );
 
+  const stageProbabilityOf = await getStageProbabilityLookup(orgId);
+
   // Model 1: Stage-Weighted Forecast
   let stageWeightedTotal = 0;
   let commitTotal = 0; // 80%+ probability
@@ -307,7 +265,7 @@ export async function calculateForecasts(targetDate?: Date, orgId?: string) {
 
   openOpps.forEach((opp) => {
     const amount = parseFloat(opp.amount || "0");
-    const stageProbability = STAGE_PROBABILITIES[opp.stage] || 0;
+    const stageProbability = stageProbabilityOf(opp);
     
     // Use custom probability if set, otherwise use stage default
     const probability = opp.probability !== null ? opp.probability / 100 : stageProbability;
@@ -350,7 +308,7 @@ export async function calculateForecasts(targetDate?: Date, orgId?: string) {
   
   openOpps.forEach((opp) => {
     const amount = parseFloat(opp.amount || "0");
-    const stageProbability = STAGE_PROBABILITIES[opp.stage] || 0;
+    const stageProbability = stageProbabilityOf(opp);
     const probability = opp.probability !== null ? opp.probability / 100 : stageProbability;
     
     // Calculate age
@@ -409,6 +367,7 @@ export async function predictDealClosing(daysAhead: number = 30, orgId?: string)
   const targetDate = new Date(now);
   targetDate.setDate(targetDate.getDate() + daysAhead);
   const orgFilter = orgId ? [eq(schema.opportunities.organizationId, orgId)] : [];
+  const [process, stageProbabilityOf] = await Promise.all([getSalesProcess(orgId), getStageProbabilityLookup(orgId)]);
 
   // Get opportunities closing in the next X days
   const upcomingOpps = await db
@@ -430,10 +389,7 @@ export async function predictDealClosing(daysAhead: number = 30, orgId?: string)
         isNotNull(schema.opportunities.closeDate),
         gte(schema.opportunities.closeDate, now),
         lte(schema.opportunities.closeDate, targetDate),
-        or(
-          eq(schema.opportunities.stage, "proposal"),
-          eq(schema.opportunities.stage, "negotiation")
-        ),
+        inArray(schema.opportunities.stage, lateOpenStages(process)),
         ...orgFilter
       )
     )
@@ -442,7 +398,7 @@ export async function predictDealClosing(daysAhead: number = 30, orgId?: string)
   // Calculate probability for each deal
   const predictions = upcomingOpps.map((item) => {
     const opp = item.opportunity;
-    const stageProbability = STAGE_PROBABILITIES[opp.stage] || 0;
+    const stageProbability = stageProbabilityOf(opp);
     const customProbability = opp.probability !== null ? opp.probability / 100 : null;
     
     const created = new Date(opp.createdAt);
@@ -585,12 +541,7 @@ export async function getRepPerformance(dateRange: DateRange, roleNames?: string
           and(
             eq(schema.opportunities.includeInForecast, true),
             eq(schema.opportunities.ownerId, rep.id),
-            or(
-              eq(schema.opportunities.stage, "prospecting"),
-              eq(schema.opportunities.stage, "qualification"),
-              eq(schema.opportunities.stage, "proposal"),
-              eq(schema.opportunities.stage, "negotiation")
-            ),
+            isOpenStage,
             ...orgFilter
           )
         );
@@ -710,18 +661,13 @@ export async function getRepPipelineStages(orgId?: string) {
     .where(
       and(
         eq(schema.opportunities.includeInForecast, true),
-        or(
-          eq(schema.opportunities.stage, "prospecting"),
-          eq(schema.opportunities.stage, "qualification"),
-          eq(schema.opportunities.stage, "proposal"),
-          eq(schema.opportunities.stage, "negotiation")
-        ),
+        isOpenStage,
         ...orgFilter
       )
     );
 
   const repMap = new Map(reps.map((r) => [r.id, r.name]));
-  const stages = ["prospecting", "qualification", "proposal", "negotiation"];
+  const stages = openStages(await getSalesProcess(orgId)).map((stage) => stage.key);
 
   const dataByRep: Record<string, Record<string, { amount: number; count: number }>> = {};
 
@@ -735,8 +681,11 @@ export async function getRepPipelineStages(orgId?: string) {
       for (const s of stages) dataByRep[repName][s] = { amount: 0, count: 0 };
     }
 
-    dataByRep[repName][opp.stage].amount += parseFloat(opp.amount || "0");
-    dataByRep[repName][opp.stage].count += 1;
+    // Deals in a stage the process no longer has are left out of the breakdown
+    const bucket = dataByRep[repName][opp.stage];
+    if (!bucket) continue;
+    bucket.amount += parseFloat(opp.amount || "0");
+    bucket.count += 1;
   }
 
   const result = Object.entries(dataByRep).map(([repName, stageData]) => ({
@@ -752,6 +701,107 @@ export async function getRepPipelineStages(orgId?: string) {
   return { pipelineStages: result, stages };
 }
 
+// ========== QUOTA ATTAINMENT ==========
+
+// Closed-won revenue and probability-weighted open pipeline against each sales
+// quota for the period containing `at`. Won deals count toward the period of
+// their actual close date (falling back to the close date); open deals count
+// as coverage when their close date falls inside the period. Team quotas
+// (no userId) cover every owner in the organization.
+export async function getQuotaAttainment(orgId: string, periodType: schema.QuotaPeriodType, at: Date = new Date()) {
+  const now = new Date();
+  const periodRef = quotaPeriodFor(periodType, at);
+  const { start, end } = quotaPeriodRange(periodRef);
+  const period = {
+    ...periodRef,
+    periodLabel: formatQuotaPeriod(periodRef),
+    start,
+    end,
+  };
+
+  const quotas = await db
+    .select({ quota: schema.salesQuotas, userName: schema.users.name })
+    .from(schema.salesQuotas)
+    .leftJoin(schema.users, eq(schema.users.id, schema.salesQuotas.userId))
+    .where(
+      and(
+        eq(schema.salesQuotas.organizationId, orgId),
+        eq(schema.salesQuotas.periodType, periodRef.periodType),
+        eq(schema.salesQuotas.year, periodRef.year),
+        eq(schema.salesQuotas.period, periodRef.period)
+      )
+    );
+
+  if (quotas.length === 0) {
+    return { ...period, team: [], reps: [] };
+  }
+
+  const wonDate = sql`coalesce(${schema.opportunities.actualCloseDate}, ${schema.opportunities.closeDate})`;
+  const wonOpps = await db
+    .select()
+    .from(schema.opportunities)
+    .where(
+      and(
+        eq(schema.opportunities.organizationId, orgId),
+        eq(schema.opportunities.includeInForecast, true),
+        eq(schema.opportunities.stage, "closed_won"),
+        sql`${wonDate} >= ${start}`,
+        sql`${wonDate} < ${end}`
+      )
+    );
+
+  const openOpps = await db
+    .select()
+    .from(schema.opportunities)
+    .where(
+      and(
+        eq(schema.opportunities.organizationId, orgId),
+        eq(schema.opportunities.includeInForecast, true),
+        isOpenStage,
+        gte(schema.opportunities.closeDate, start),
+        lt(schema.opportunities.closeDate, end)
+      )
+    );
+
+  const stageProbabilityOf = await getStageProbabilityLookup(orgId);
+  const results = quotas.map(({ quota, userName }) => {
+    const matches = (opp: schema.Opportunity) =>
+      (!quota.userId || opp.ownerId === quota.userId) &&
+      (!quota.category || (opp.categories || []).includes(quota.category));
+
+    const won = wonOpps.filter(matches);
+    const open = openOpps.filter(matches);
+    const closedWon = won.reduce((sum, opp) => sum + parseFloat(opp.amount || "0"), 0);
+    const openPipeline = open.reduce((sum, opp) => sum + parseFloat(opp.amount || "0"), 0);
+    const weightedPipeline = open.reduce((sum, opp) => {
+      // Same weighting as the stage-weighted forecast
+      const probability = opp.probability !== null ? opp.probability / 100 : stageProbabilityOf(opp);
+      return sum + parseFloat(opp.amount || "0") * probability;
+    }, 0);
+    const amount = parseFloat(quota.amount);
+
+    return {
+      quotaId: quota.id,
+      userId: quota.userId,
+      userName: quota.userId ? userName : null,
+      category: quota.category,
+      quota: amount,
+      closedWon,
+      dealsWon: won.length,
+      openPipeline,
+      openDeals: open.length,
+      weightedPipeline,
+      ...computeQuotaMetrics({ quota: amount, closedWon, weightedPipeline, start, end, now }),
+    };
+  });
+
+  return {
+    ...period,
+    team: results.filter((r) => !r.userId),
+    reps: results.filter((r) => r.userId).sort((a, b) => b.attainment - a.attainment),
+  };
+}
+
 // ========== PIPELINE HEALTH SCORE ==========
 
 export async function calculatePipelineHealth(orgId?: string) {
@@ -765,12 +815,7 @@ export async function calculatePipelineHealth(orgId?: string) {
     .where(
       and(
         eq(schema.opportunities.includeInForecast, true),
-        or(
-          eq(schema.opportunities.stage, "prospecting"),
-          eq(schema.opportunities.stage, "qualification"),
-          eq(schema.opportunities.stage, "proposal"),
-          eq(schema.opportunities.stage, "negotiation")
-        ),
+        isOpenStage,
         ...orgFilter
       )
     );
@@ -805,9 +850,13 @@ export async function calculatePipelineHealth(orgId?: string) {
   });
   
   // Ideal distribution: 40% early, 30% mid, 30% late
-  const earlyStage = (stageCount.prospecting || 0) + (stageCount.qualification || 0);
-  const midStage = stageCount.proposal || 0;
-  const lateStage = stageCount.negotiation || 0;
+  const phases = stagePhases(await getSalesProcess(orgId));
+  const inPhase = (phase: string) => Object.keys(phases)
+    .filter((key) => phases[key] === phase)
+    .reduce((sum, key) => sum + (stageCount[key] || 0), 0);
+  const earlyStage = inPhase("early");
+  const midStage = inPhase("mid");
+  const lateStage = inPhase("late");
   const total = openOpps.length;
   
   const earlyPct = earlyStage / total;
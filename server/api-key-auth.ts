@@ -4,8 +4,9 @@
 import { Request, Response, NextFunction } from "express";
 import rateLimit from "express-rate-limit";
 import { storage } from "./db";
-import { verifyApiKey, validateApiKeyFormat } from "./api-key-utils";
-import { API_KEY_PERMISSIONS, type ApiKeyPermission } from "@shared/schema";
+import { parseApiKeyId, verifyApiKey, validateApiKeyFormat } from "./api-key-utils";
+import { VerifiedKeyCache, resolveApiKey } from "./lib/api-key-lookup";
+import { API_KEY_PERMISSIONS, type ApiKey, type ApiKeyPermission } from "@shared/schema";
 
 // All capability tokens — granted to legacy keys without an explicit permissions field
 export const ALL_API_KEY_PERMISSIONS: ApiKeyPermission[] = [...API_KEY_PERMISSIONS];
@@ -22,6 +23,29 @@ export interface ApiKeyRequest extends Request {
   };
 }
 
+const verifiedKeyCache = new VerifiedKeyCache<ApiKey>();
+
+/**
+ * Find the stored API key matching a presented key (indexed by key id, with
+ * a legacy hash scan for keys issued before key ids). Does not check
+ * revocation or expiry. Shared by the external API and x-api-key auth on
+ * internal routes.
+ */
+export function findApiKey(providedKey: string): Promise<ApiKey | undefined> {
+  return resolveApiKey(providedKey, {
+    parseKeyId: parseApiKeyId,
+    findByKeyId: (keyId) => storage.getApiKeyByKeyId(keyId),
+    listLegacyKeys: () => storage.getLegacyApiKeys(),
+    verify: verifyApiKey,
+    cache: verifiedKeyCache,
+  });
+}
+
+/** Drop a key from the verified-key cache so a revocation takes effect immediately. */
+export function invalidateApiKeyCache(apiKeyId?: string) {
+  verifiedKeyCache.invalidate(apiKeyId);
+}
+
 /**
  * Helper to log authentication failures (fire-and-forget for performance)
  */
@@ -96,22 +120,9 @@ export async function authenticateApiKey(
       return res.status(401).json(errorData);
     }
     
-    // Get all active API keys and check against each hashed key
-    // This is necessary because bcrypt requires comparison against the hash
-    const apiKeys = await storage.getAllApiKeys();
-    const activeKeys = apiKeys.filter(k => k.isActive && !k.revokedAt);
-    
-    let matchedKey = null;
-    
-    for (const key of activeKeys) {
-      const isValid = await verifyApiKey(providedKey, key.hashedKey);
-      if (isValid) {
-        matchedKey = key;
-        break;
-      }
-    }
+    const matchedKey = await findApiKey(providedKey);
     
-    if (!matchedKey) {
+    if (!matchedKey || !matchedKey.isActive || matchedKey.revokedAt) {
       const errorData = {
         error: "Invalid API key",
         message: "The provided API key is invalid or has been revoked"
@@ -6,16 +6,22 @@ import bcrypt from "bcryptjs";
 
 const API_KEY_PREFIX = "htcrm_"; // Health Trixss CRM API key prefix
 const API_KEY_LENGTH = 32; // 32 bytes = 256 bits
+const KEY_ID_LENGTH = 6; // 6 bytes = 12 hex chars; public, used only for lookup
 const SALT_ROUNDS = 12;
 
+// Current format: htcrm_<12 hex key id>_<43 char secret>. Legacy keys are
+// htcrm_<43 char secret> with no id and are matched by scanning their hashes.
+const KEYED_FORMAT = /^htcrm_([0-9a-f]{12})_[A-Za-z0-9_-]{43}$/;
+
 export interface GeneratedApiKey {
   publicKey: string; // The key to return to the user (only shown once)
   hashedKey: string; // The bcrypt hash to store in database
+  keyId: string; // Non-secret identifier embedded in the key, stored for indexed lookup
 }
 
 /**
  * Generate a new API key with a random value
- * Returns both the public key (to show user) and hashed key (to store)
+ * Returns the public key (to show user), its hash and its lookup id (to store)
  */
 export function generateApiKey(): GeneratedApiKey {
   // Generate random bytes
@@ -28,8 +34,10 @@ export function generateApiKey(): GeneratedApiKey {
     .replace(/\//g, "_")
     .replace(/=/g, "");
   
-  // Add prefix to make it recognizable
-  const publicKey = `${API_KEY_PREFIX}${keyValue}`;
+  const keyId = crypto.randomBytes(KEY_ID_LENGTH).toString("hex");
+  
+  // Prefix makes it recognizable; the key id lets auth find the one hash to check
+  const publicKey = `${API_KEY_PREFIX}${keyId}_${keyValue}`;
   
   // Hash the key for storage (synchronous for simplicity in generation)
   const hashedKey = bcrypt.hashSync(publicKey, SALT_ROUNDS);
@@ -37,9 +45,19 @@ export function generateApiKey(): GeneratedApiKey {
   return {
     publicKey,
     hashedKey,
+    keyId,
   };
 }
 
+/**
+ * Extract the key id from a current-format key.
+ * Returns null for legacy keys, which carry no id.
+ */
+export function parseApiKeyId(key: string): string | null {
+  const match = KEYED_FORMAT.exec(key);
+  return match ? match[1] : null;
+}
+
 /**
  * Verify an API key against a stored hash
  */
@@ -63,8 +81,8 @@ export function validateApiKeyFormat(key: string): boolean {
   // Check prefix
   if (!key.startsWith(API_KEY_PREFIX)) return false;
   
-  // Check length (prefix + base64 encoded 32 bytes ≈ 49 chars total)
-  if (key.length < 40 || key.length > 60) return false;
+  // Check length (prefix + base64 encoded 32 bytes ≈ 49 chars total, 62 with a key id)
+  if (key.length < 40 || key.length > 70) return false;
   
   // Check characters (base64 URL-safe)
   const keyValue = key.slice(API_KEY_PREFIX.length);
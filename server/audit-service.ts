@@ -0,0 +1,89 @@
+// Audit logging shared by request handlers and background jobs. Besides the
+// audit row, CRM writes fan out to opportunity stage history, outbound
+// webhooks, reassignment notifications and lead rescoring, so every write
+// path should record its audit here rather than calling
+// storage.createAuditLog directly.
+
+import { storage } from "./db";
+import type { AuthRequest } from "./auth";
+import { emitWebhookEvent, webhookEventForAudit, type WebhookSource } from "./webhook-service";
+import { recordOpportunityChange } from "./opportunity-stage-history";
+import { opportunityChangeSourceForAudit } from "./lib/opportunity-stage-diff";
+import { notifyRecordReassigned } from "./notification-service";
+import { rescoreLeadsForAudit } from "./lead-scoring-service";
+
+export interface AuditActor {
+  userId: string | null;
+  organizationId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  webhookSource?: WebhookSource;
+}
+
+export function auditActorFromRequest(req: AuthRequest): AuditActor {
+  return {
+    userId: req.user?.id || null,
+    organizationId: req.activeOrgId,
+    ipAddress: req.ip || req.connection.remoteAddress || null,
+    userAgent: req.headers["user-agent"] || null,
+    webhookSource: "ui",
+  };
+}
+
+export async function recordAudit(actor: AuditActor, action: string, resource: string, resourceId: string | null, before: any, after: any) {
+  let auditLogId: string | null = null;
+  try {
+    const log = await storage.createAuditLog({
+      actorId: actor.userId,
+      action,
+      resource,
+      resourceId,
+      before,
+      after,
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+    });
+    auditLogId = log.id;
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+
+  // Opportunity stage/amount/probability/closeDate changes feed the stage history
+  const historySource = resource === "Opportunity" && after ? opportunityChangeSourceForAudit(action) : null;
+  if (historySource) {
+    await recordOpportunityChange({
+      before,
+      after: { organizationId: actor.organizationId, ...after, id: after.id ?? resourceId },
+      source: historySource,
+      actorId: actor.userId,
+      auditLogId,
+    });
+  }
+
+  // CRM entity lifecycle changes also fan out to outbound webhook subscriptions
+  const webhookEvent = webhookEventForAudit(resource, action);
+  if (webhookEvent) {
+    emitWebhookEvent({
+      ...webhookEvent,
+      organizationId: after?.organizationId ?? before?.organizationId ?? actor.organizationId,
+      entityId: resourceId,
+      data: webhookEvent.action === "deleted" ? before : after,
+      previous: webhookEvent.action === "deleted" ? null : before,
+      source: actor.webhookSource ?? "system",
+      actorId: actor.userId,
+    });
+  }
+
+  // Ownership changes notify the new owner in-app
+  notifyRecordReassigned({
+    resource,
+    action,
+    before,
+    after,
+    actorId: actor.userId,
+    organizationId: after?.organizationId ?? before?.organizationId ?? actor.organizationId,
+  });
+
+  // Lead, activity and comment changes move lead scores
+  rescoreLeadsForAudit(resource, resourceId, before, after);
+}
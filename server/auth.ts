@@ -40,40 +40,36 @@ export async function authenticate(req: AuthRequest, res: Response, next: NextFu
     // Check for API key authentication first (for MCP server and external integrations)
     const apiKeyHeader = req.headers["x-api-key"] as string | undefined;
     if (apiKeyHeader) {
-      const { validateApiKeyFormat, verifyApiKey } = await import("./api-key-utils");
+      const { validateApiKeyFormat } = await import("./api-key-utils");
+      const { findApiKey } = await import("./api-key-auth");
       if (validateApiKeyFormat(apiKeyHeader)) {
-        const apiKeys = await storage.getAllApiKeys();
-        const activeKeys = apiKeys.filter(k => k.isActive && !k.revokedAt);
-        for (const key of activeKeys) {
-          if (key.expiresAt && new Date(key.expiresAt) < new Date()) continue;
-          const isValid = await verifyApiKey(apiKeyHeader, key.hashedKey);
-          if (isValid) {
-            const user = await storage.getUserById(key.createdBy);
-            if (user) {
-              req.user = user;
-              req.isApiKeyAuth = true;
-              storage.updateApiKeyLastUsed(key.id).catch(() => {});
+        const key = await findApiKey(apiKeyHeader);
+        if (key && key.isActive && !key.revokedAt && !(key.expiresAt && new Date(key.expiresAt) < new Date())) {
+          const user = await storage.getUserById(key.createdBy);
+          if (user) {
+            req.user = user;
+            req.isApiKeyAuth = true;
+            storage.updateApiKeyLastUsed(key.id).catch(() => {});
 
-              // Enforce API key org scope:
-              // If the key is org-scoped (key.organizationId is set), the request must
-              // target that exact org — cross-org access is rejected.
-              if (key.organizationId) {
-                if (req.activeOrgId && req.activeOrgId !== key.organizationId) {
-                  return res.status(403).json({ error: "API key does not belong to the specified organization" });
-                }
-                // Pin the request to the key's org (even if no X-Organization-Id header was sent)
-                req.activeOrgId = key.organizationId;
-              } else {
-                // System-level key (no org): fall back to request header or user's default org
-                if (!req.activeOrgId) {
-                  const userOrgs = await storage.getUserOrganizations(user.id);
-                  const defaultOrg = userOrgs.find(o => o.isDefault === true) || userOrgs[0];
-                  if (defaultOrg) req.activeOrgId = defaultOrg.organizationId;
-                }
+            // Enforce API key org scope:
+            // If the key is org-scoped (key.organizationId is set), the request must
+            // target that exact org — cross-org access is rejected.
+            if (key.organizationId) {
+              if (req.activeOrgId && req.activeOrgId !== key.organizationId) {
+                return res.status(403).json({ error: "API key does not belong to the specified organization" });
+              }
+              // Pin the request to the key's org (even if no X-Organization-Id header was sent)
+              req.activeOrgId = key.organizationId;
+            } else {
+              // System-level key (no org): fall back to request header or user's default org
+              if (!req.activeOrgId) {
+                const userOrgs = await storage.getUserOrganizations(user.id);
+                const defaultOrg = userOrgs.find(o => o.isDefault === true) || userOrgs[0];
+                if (defaultOrg) req.activeOrgId = defaultOrg.organizationId;
               }
-
-              return next();
             }
+
+            return next();
           }
         }
       }
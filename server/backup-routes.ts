@@ -0,0 +1,217 @@
+// Scheduled backup administration: run history with the schedule and storage
+// target, on-demand stored backups (full or incremental), verification of
+// stored or uploaded archives, downloads of stored archives, restoring a
+// stored backup, and per-organization backup and restore. Global Admin only.
+// The one-off download backup and restore routes remain in routes.ts.
+
+import type { Express, Response } from "express";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireGlobalRole } from "./rbac";
+import { auditActorFromRequest, recordAudit } from "./audit-service";
+import { readRateLimiter, sensitiveRateLimiter } from "./rate-limiters";
+import { backupService } from "./backup-service";
+import { invalidateApiKeyCache } from "./api-key-auth";
+import { BACKUP_TYPES, type BackupType } from "@shared/schema";
+import { BackupTargetError } from "./lib/backup-targets";
+import {
+  BackupScheduleError,
+  describeBackupSchedule,
+  getBackupJob,
+  listBackupJobs,
+  readStoredBackup,
+  restoreStoredBackup,
+  runStoredBackup,
+  verifyStoredBackup,
+} from "./backup-schedule-service";
+import { OrgBackupError, exportOrganizationBackup, restoreOrganizationBackup, type OrgRestoreTarget } from "./org-backup-service";
+
+function handleBackupError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof BackupScheduleError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof OrgBackupError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof BackupTargetError) {
+    return res.status(502).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback, detail: error instanceof Error ? error.message : undefined });
+}
+
+async function loadBackupJob(req: AuthRequest) {
+  const job = await getBackupJob(req.params.id);
+  if (!job) throw new BackupScheduleError("Backup not found", 404);
+  return job;
+}
+
+/** A key sent with an upload (e.g. from another deployment) overrides the server's own. */
+function encryptionKeyFor(req: AuthRequest): string | undefined {
+  const headerKey = req.headers["x-backup-encryption-key"];
+  return (typeof headerKey === "string" && headerKey.trim())
+    ? headerKey.trim()
+    : process.env.BACKUP_ENCRYPTION_KEY;
+}
+
+function hasUploadedFile(req: AuthRequest): boolean {
+  return !!req.body && req.body instanceof Uint8Array && req.body.length > 0;
+}
+
+export function registerBackupRoutes(app: Express) {
+  app.get("/api/admin/backups", authenticate, requireGlobalRole("Admin"), readRateLimiter, async (_req: AuthRequest, res) => {
+    try {
+      return res.json({ schedule: describeBackupSchedule(), jobs: await listBackupJobs() });
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to fetch backups");
+    }
+  });
+
+  // POST /api/admin/backups/run { type?: "full" | "incremental" } — back up now to the storage target, outside the schedule
+  app.post("/api/admin/backups/run", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const type = req.body?.type ?? "full";
+      if (!BACKUP_TYPES.includes(type)) {
+        return res.status(400).json({ error: `Backup type must be one of: ${BACKUP_TYPES.join(", ")}` });
+      }
+      const job = await runStoredBackup({ trigger: "manual", initiatedBy: req.user?.id || null, type: type as BackupType });
+      await recordAudit(auditActorFromRequest(req), "create", "BackupJob", job.id, null, job);
+      return res.status(201).json(job);
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to create backup");
+    }
+  });
+
+  // POST /api/admin/backups/verify — check an uploaded archive without restoring it
+  app.post("/api/admin/backups/verify", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!hasUploadedFile(req)) {
+        return res.status(400).json({ error: "Expected the backup file as binary data" });
+      }
+      const encryptionKey = encryptionKeyFor(req);
+      if (!encryptionKey) {
+        return res.status(500).json({ error: "Server configuration error: encryption key not configured" });
+      }
+      return res.json(await backupService.verifyBackup(Buffer.from(req.body), encryptionKey));
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to verify backup");
+    }
+  });
+
+  app.post("/api/admin/backups/:id/verify", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const verification = await verifyStoredBackup(await loadBackupJob(req));
+      await recordAudit(auditActorFromRequest(req), "verify", "BackupJob", req.params.id, null, {
+        valid: verification.valid,
+        errors: verification.errors,
+      });
+      return res.json(verification);
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to verify backup");
+    }
+  });
+
+  app.get("/api/admin/backups/:id/download", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const job = await loadBackupJob(req);
+      const archive = await readStoredBackup(job);
+      await recordAudit(auditActorFromRequest(req), "download", "BackupJob", job.id, null, null);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${job.path}"`);
+      if (job.checksum) res.setHeader("X-Backup-Checksum", job.checksum);
+      return res.send(archive);
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to download backup");
+    }
+  });
+
+  // POST /api/admin/backups/:id/restore — replace the database with a stored
+  // backup; an incremental one is applied on top of its full backup
+  app.post("/api/admin/backups/:id/restore", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const job = await loadBackupJob(req);
+      const result = await restoreStoredBackup(job);
+      if (!result.success) {
+        console.error("Restore failed with errors:", result.errors);
+        return res.status(400).json({ error: `Restore failed: ${result.errors[0] || "Unknown error"}`, details: result.errors });
+      }
+
+      // The restored api_keys table may differ from what was verified and cached
+      invalidateApiKeyCache();
+      const { ensureProductDeveloperRole, ensureResourceRole } = await import("./seed");
+      await ensureProductDeveloperRole();
+      await ensureResourceRole();
+
+      await recordAudit(auditActorFromRequest(req), "restore", "BackupJob", job.id, null, {
+        backupType: job.backupType,
+        baseJobId: job.baseJobId,
+        recordsRestored: result.recordsRestored,
+        warnings: result.errors,
+        consistency: result.consistency,
+      });
+      return res.json({
+        success: true,
+        recordsRestored: result.recordsRestored,
+        warnings: result.errors,
+        consistency: result.consistency,
+      });
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to restore backup");
+    }
+  });
+
+  // POST /api/admin/organizations/:id/backup — download one organization's data
+  app.post("/api/admin/organizations/:id/backup", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const encryptionKey = process.env.BACKUP_ENCRYPTION_KEY;
+      if (!encryptionKey) {
+        return res.status(500).json({ error: "Server configuration error: encryption key not configured" });
+      }
+      const backup = await exportOrganizationBackup(req.params.id, encryptionKey);
+      await recordAudit(auditActorFromRequest(req), "backup", "Organization", req.params.id, null, {
+        checksum: backup.checksum,
+        size: backup.size,
+        tables: backup.tables,
+        warnings: backup.warnings,
+      });
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${backup.fileName}"`);
+      res.setHeader("X-Backup-Checksum", backup.checksum);
+      return res.send(backup.data);
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to back up organization");
+    }
+  });
+
+  // POST /api/admin/organizations/restore?organizationId=… | ?name=…&slug=…
+  // Restore an organization backup into an existing empty organization, or
+  // clone it into a new one. Other organizations are not touched.
+  app.post("/api/admin/organizations/restore", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!hasUploadedFile(req)) {
+        return res.status(400).json({ error: "Expected the backup file as binary data" });
+      }
+      const encryptionKey = encryptionKeyFor(req);
+      if (!encryptionKey) {
+        return res.status(500).json({ error: "Server configuration error: encryption key not configured" });
+      }
+
+      const organizationId = typeof req.query.organizationId === "string" ? req.query.organizationId.trim() : "";
+      const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+      const slug = typeof req.query.slug === "string" ? req.query.slug.trim().toLowerCase() : "";
+      let target: OrgRestoreTarget;
+      if (organizationId) {
+        target = { organizationId };
+      } else if (name && /^[a-z0-9-]+$/.test(slug)) {
+        target = { name, slug };
+      } else {
+        return res.status(400).json({ error: "Specify organizationId, or a name and a slug (lowercase letters, digits and dashes) for a new organization" });
+      }
+
+      const result = await restoreOrganizationBackup(Buffer.from(req.body), encryptionKey, target, req.user!.id);
+      await recordAudit(auditActorFromRequest(req), "restore", "Organization", result.organizationId, null, result);
+      return res.json(result);
+    } catch (error) {
+      return handleBackupError(res, error, "Failed to restore organization");
+    }
+  });
+}
@@ -0,0 +1,381 @@
+// Scheduled backups
+// Runs BackupService.createBackup on the deployment's BACKUP_SCHEDULE, stores
+// each archive on the configured target (local directory or S3-compatible
+// bucket), records the run in backup_jobs and prunes old scheduled archives
+// by the retention policy. Manual downloads from the admin console are
+// recorded too but never pruned. An optional BACKUP_INCREMENTAL_SCHEDULE adds
+// incremental backups of the changes since the latest stored full backup;
+// they are restored on top of it and pruned with it. See
+// lib/backup-schedule.ts for settings.
+
+import crypto from "crypto";
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import type { BackupJob, BackupTargetKind, BackupTrigger, BackupType } from "@shared/schema";
+import { backupService, type BackupVerification, type IncrementalBackupOptions } from "./backup-service";
+import { incrementalSince } from "./lib/backup-format";
+import {
+  backupArchiveName,
+  nextCronRun,
+  parseBackupScheduleConfig,
+  selectBackupsToPrune,
+  type BackupScheduleConfig,
+} from "./lib/backup-schedule";
+import { createBackupTarget, type BackupStorageTarget } from "./lib/backup-targets";
+
+export class BackupScheduleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "BackupScheduleError";
+  }
+}
+
+const HISTORY_LIMIT = 100;
+
+let cachedConfig: BackupScheduleConfig | null = null;
+
+export function getBackupScheduleConfig(): BackupScheduleConfig {
+  cachedConfig ??= parseBackupScheduleConfig(process.env);
+  return cachedConfig;
+}
+
+function requireEncryptionKey(): string {
+  const key = process.env.BACKUP_ENCRYPTION_KEY;
+  if (!key) {
+    throw new BackupScheduleError("Server configuration error: encryption key not configured", 500);
+  }
+  return key;
+}
+
+function requireTarget(config = getBackupScheduleConfig()): BackupStorageTarget {
+  if (!config.target) {
+    throw new BackupScheduleError(`Backup storage target is not configured: ${config.errors.join("; ")}`, 500);
+  }
+  return createBackupTarget(config.target);
+}
+
+/** Schedule, retention and target for the admin console, without credentials. */
+export function describeBackupSchedule(now = new Date()) {
+  const config = getBackupScheduleConfig();
+  return {
+    enabled: !!(config.schedule || config.incrementalSchedule) && config.errors.length === 0,
+    schedule: config.schedule?.expression ?? null,
+    nextRunAt: config.schedule ? nextCronRun(config.schedule, now) : null,
+    incrementalSchedule: config.incrementalSchedule?.expression ?? null,
+    nextIncrementalRunAt: config.incrementalSchedule ? nextCronRun(config.incrementalSchedule, now) : null,
+    retention: config.retention,
+    target: config.target ? { kind: config.target.kind, location: createBackupTarget(config.target).describe() } : null,
+    errors: config.errors,
+  };
+}
+
+export async function listBackupJobs(): Promise<BackupJob[]> {
+  return db.select().from(schema.backupJobs).orderBy(desc(schema.backupJobs.createdAt)).limit(HISTORY_LIMIT);
+}
+
+export async function getBackupJob(id: string): Promise<BackupJob | undefined> {
+  const [job] = await db.select().from(schema.backupJobs).where(eq(schema.backupJobs.id, id));
+  return job;
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/** The newest full backup on the target that an incremental backup can build on. */
+async function latestFullBackup(targetKind: BackupTargetKind): Promise<BackupJob | undefined> {
+  const [job] = await db.select().from(schema.backupJobs)
+    .where(and(
+      eq(schema.backupJobs.backupType, "full"),
+      eq(schema.backupJobs.status, "completed"),
+      eq(schema.backupJobs.target, targetKind),
+      isNotNull(schema.backupJobs.path),
+      isNotNull(schema.backupJobs.checksum),
+      isNull(schema.backupJobs.prunedAt),
+    ))
+    .orderBy(desc(schema.backupJobs.createdAt))
+    .limit(1);
+  return job;
+}
+
+/**
+ * Create a backup and store it on the configured target. The job row is
+ * created up front (or passed in, when the scheduler already claimed it) so a
+ * failure is recorded with its error. An incremental backup with no stored
+ * full backup to build on is taken as a full one instead.
+ */
+export async function runStoredBackup(options: {
+  trigger: BackupTrigger;
+  initiatedBy: string | null;
+  type?: BackupType;
+  job?: BackupJob;
+}): Promise<BackupJob> {
+  const config = getBackupScheduleConfig();
+  const target = requireTarget(config);
+  const encryptionKey = requireEncryptionKey();
+
+  const job = options.job ?? (await db.insert(schema.backupJobs).values({
+    status: "in_progress",
+    trigger: options.trigger,
+    backupType: options.type ?? "full",
+    initiatedBy: options.initiatedBy,
+    startedAt: new Date(),
+  }).returning())[0];
+
+  try {
+    let incremental: IncrementalBackupOptions | undefined;
+    if (job.backupType === "incremental") {
+      const base = await latestFullBackup(target.kind);
+      if (base) {
+        incremental = {
+          since: incrementalSince(base.startedAt ?? base.createdAt),
+          base: { jobId: base.id, checksum: base.checksum! },
+        };
+      } else {
+        console.warn("[Backup] No stored full backup to build on — taking a full backup instead of an incremental one");
+      }
+    }
+
+    const { data, checksum, size, kind } = await backupService.createBackup(encryptionKey, { incremental });
+    const name = backupArchiveName(job.createdAt);
+    await target.put(name, data);
+
+    const [completed] = await db.update(schema.backupJobs)
+      .set({
+        status: "completed",
+        backupType: kind,
+        baseJobId: incremental?.base.jobId ?? null,
+        target: target.kind,
+        path: name,
+        sizeBytes: size,
+        checksum,
+        archiveChecksum: sha256(data),
+        completedAt: new Date(),
+      })
+      .where(eq(schema.backupJobs.id, job.id))
+      .returning();
+    console.log(`[Backup] Stored ${options.trigger} ${kind} backup ${name} (${size} bytes) in ${target.describe()}`);
+
+    await applyBackupRetention().catch(err => console.error("[Backup] Retention error:", err));
+    return completed;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await db.update(schema.backupJobs)
+      .set({ status: "failed", errorMessage, completedAt: new Date() })
+      .where(eq(schema.backupJobs.id, job.id));
+    throw error;
+  }
+}
+
+/**
+ * Delete scheduled full archives the retention policy no longer keeps, and
+ * every incremental archive built on a pruned full one. Only archives on the
+ * currently configured target are considered. Returns the pruned jobs.
+ */
+export async function applyBackupRetention(): Promise<BackupJob[]> {
+  const config = getBackupScheduleConfig();
+  if (!config.target) return [];
+  const target = createBackupTarget(config.target);
+  const storedOnTarget = and(
+    eq(schema.backupJobs.status, "completed"),
+    eq(schema.backupJobs.target, target.kind),
+    isNotNull(schema.backupJobs.path),
+    isNull(schema.backupJobs.prunedAt),
+  );
+
+  const pruned: BackupJob[] = [];
+  const prune = async (job: BackupJob) => {
+    try {
+      await target.delete(job.path!);
+      const [updated] = await db.update(schema.backupJobs)
+        .set({ prunedAt: new Date() })
+        .where(eq(schema.backupJobs.id, job.id))
+        .returning();
+      pruned.push(updated);
+    } catch (error) {
+      // Leave it for the next run rather than losing track of the archive
+      console.error(`[Backup] Could not prune ${job.path}:`, error);
+    }
+  };
+
+  const stored = await db.select().from(schema.backupJobs)
+    .where(and(
+      eq(schema.backupJobs.trigger, "scheduled"),
+      eq(schema.backupJobs.backupType, "full"),
+      storedOnTarget,
+    ));
+  for (const job of selectBackupsToPrune(stored, config.retention)) {
+    await prune(job);
+  }
+
+  // An incremental archive cannot be restored without its base
+  const prunedBases = db.select({ id: schema.backupJobs.id }).from(schema.backupJobs).where(isNotNull(schema.backupJobs.prunedAt));
+  const orphaned = await db.select().from(schema.backupJobs)
+    .where(and(
+      eq(schema.backupJobs.backupType, "incremental"),
+      storedOnTarget,
+      inArray(schema.backupJobs.baseJobId, prunedBases),
+    ));
+  for (const job of orphaned) {
+    await prune(job);
+  }
+  if (pruned.length > 0) {
+    console.log(`[Backup] Retention pruned ${pruned.length} archive(s)`);
+  }
+  return pruned;
+}
+
+/** Read a stored archive back from its target (404 once pruned or for download-only runs). */
+export async function readStoredBackup(job: BackupJob): Promise<Buffer> {
+  if (job.status !== "completed" || !job.path || !job.target) {
+    throw new BackupScheduleError("This backup was not stored on a backup target", 404);
+  }
+  if (job.prunedAt) {
+    throw new BackupScheduleError("This backup was deleted by the retention policy", 404);
+  }
+  const config = getBackupScheduleConfig();
+  if (config.target?.kind !== job.target) {
+    throw new BackupScheduleError(`This backup is on the ${job.target} target, which is no longer configured`, 409);
+  }
+  return createBackupTarget(config.target).get(job.path);
+}
+
+/**
+ * Verify a stored backup: the archive checksum recorded at creation, then a
+ * full decrypt and validation. The outcome is saved on the job.
+ */
+export async function verifyStoredBackup(job: BackupJob): Promise<BackupVerification> {
+  const encryptionKey = requireEncryptionKey();
+  const archive = await readStoredBackup(job);
+
+  let verification: BackupVerification;
+  if (job.archiveChecksum && sha256(archive) !== job.archiveChecksum) {
+    verification = {
+      valid: false,
+      version: null,
+      kind: null,
+      timestamp: null,
+      checksum: null,
+      tables: {},
+      documentFiles: 0,
+      errors: ["Stored archive does not match the checksum recorded when it was created"],
+      warnings: [],
+    };
+  } else {
+    verification = await backupService.verifyBackup(archive, encryptionKey);
+    if (verification.valid && job.checksum && verification.checksum !== job.checksum) {
+      verification.valid = false;
+      verification.errors.push("Snapshot checksum does not match the backup job record");
+    }
+  }
+
+  await db.update(schema.backupJobs)
+    .set({ verifiedAt: new Date(), verificationError: verification.valid ? null : verification.errors.join("; ") })
+    .where(eq(schema.backupJobs.id, job.id));
+  return verification;
+}
+
+/**
+ * Restore the whole database from a stored backup. An incremental backup is
+ * restored on top of its base full backup, which must still be stored.
+ */
+export async function restoreStoredBackup(job: BackupJob) {
+  const encryptionKey = requireEncryptionKey();
+  if (job.backupType !== "incremental") {
+    return backupService.restoreBackup(await readStoredBackup(job), encryptionKey);
+  }
+
+  const base = job.baseJobId ? await getBackupJob(job.baseJobId) : undefined;
+  if (!base) {
+    throw new BackupScheduleError("The full backup this incremental backup builds on no longer exists", 409);
+  }
+  const baseArchive = await readStoredBackup(base);
+  return backupService.restoreBackup(baseArchive, encryptionKey, { incremental: await readStoredBackup(job) });
+}
+
+// ---------- Scheduler ----------
+
+/**
+ * Record the scheduled run of this type for `slot` unless another instance
+ * already has. The advisory lock serializes the check across app instances
+ * sharing the database.
+ */
+async function claimScheduledRun(slot: Date, type: BackupType): Promise<BackupJob | undefined> {
+  return db.transaction(async (tx) => {
+    const lock = await tx.execute(sql`SELECT pg_try_advisory_xact_lock(hashtext('scheduled-backup')) AS locked`);
+    if (!(lock.rows[0] as { locked: boolean } | undefined)?.locked) return undefined;
+
+    const [existing] = await tx.select({ id: schema.backupJobs.id }).from(schema.backupJobs)
+      .where(and(
+        eq(schema.backupJobs.trigger, "scheduled"),
+        eq(schema.backupJobs.backupType, type),
+        sql`${schema.backupJobs.createdAt} >= ${slot.toISOString()}`,
+      ))
+      .limit(1);
+    if (existing) return undefined;
+
+    const [job] = await tx.insert(schema.backupJobs).values({
+      status: "in_progress",
+      trigger: "scheduled",
+      backupType: type,
+      startedAt: new Date(),
+    }).returning();
+    return job;
+  });
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Check the schedules every minute and run a backup when a slot comes due.
+ * When a full and an incremental backup are due together, only the full one
+ * runs. Slots missed while the server was down are skipped, not caught up.
+ */
+export function startBackupScheduler(intervalMs = 60_000): void {
+  if (schedulerTimer) return;
+  const config = getBackupScheduleConfig();
+  if (config.errors.length > 0) {
+    console.error(`[Backup] Scheduled backups disabled: ${config.errors.join("; ")}`);
+    return;
+  }
+  const { schedule, incrementalSchedule } = config;
+  if (!schedule && !incrementalSchedule) return;
+
+  const now = new Date();
+  let nextFull = schedule ? nextCronRun(schedule, now) : null;
+  let nextIncremental = incrementalSchedule ? nextCronRun(incrementalSchedule, now) : null;
+  if (schedule) {
+    console.log(`[Backup] Scheduled backups "${schedule.expression}" (UTC), next at ${nextFull?.toISOString() ?? "never"}`);
+  }
+  if (incrementalSchedule) {
+    console.log(`[Backup] Incremental backups "${incrementalSchedule.expression}" (UTC), next at ${nextIncremental?.toISOString() ?? "never"}`);
+  }
+
+  const tick = () => {
+    const now = new Date();
+    if (running) return;
+    let due: { slot: Date; type: BackupType } | null = null;
+    if (schedule && nextFull && nextFull <= now) {
+      due = { slot: nextFull, type: "full" };
+      nextFull = nextCronRun(schedule, now);
+    }
+    if (incrementalSchedule && nextIncremental && nextIncremental <= now) {
+      due ??= { slot: nextIncremental, type: "incremental" };
+      nextIncremental = nextCronRun(incrementalSchedule, now);
+    }
+    if (!due) return;
+
+    const { slot, type } = due;
+    running = true;
+    claimScheduledRun(slot, type)
+      .then(job => job ? runStoredBackup({ trigger: "scheduled", initiatedBy: null, job }) : undefined)
+      .catch(err => console.error(`[Backup] Scheduled ${type} backup failed:`, err))
+      .finally(() => {
+        running = false;
+      });
+  };
+  schedulerTimer = setInterval(tick, intervalMs);
+  schedulerTimer.unref();
+}
@@ -1,4 +1,5 @@
-import { db } from "./db";
+import { db, eq } from "./db";
+import { recordRestoredOpportunityBaselines } from "./opportunity-stage-history";
 import * as schema from "@shared/schema";
 import crypto from "crypto";
 import zlib from "zlib";
@@ -6,15 +7,95 @@ import { promisify } from "util";
 import fs from "fs";
 import path from "path";
 import JSZip from "jszip";
+import { and, asc, getTableColumns, getTableName, gt, gte, sql, type SQL } from "drizzle-orm";
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import { BACKUP_TABLES, EXCLUDED_FROM_BACKUP, REQUIRED_BACKUP_TABLES, type BackupTableSpec } from "./lib/backup-tables";
+import { checkBackupConsistency, projectForConsistency, type ConsistencyReport } from "./lib/backup-consistency";
+import {
+  BACKUP_FORMAT_VERSION,
+  CHUNK_MAX_ROWS,
+  LEGACY_SNAPSHOT_NAME,
+  MANIFEST_NAME,
+  keyChunkEntry,
+  mergeBaseRows,
+  parseNdjson,
+  planIncrementalTable,
+  tableChunkEntry,
+  toNdjsonChunks,
+  validateManifest,
+  type BackupFileEntry,
+  type BackupKind,
+  type BackupManifest,
+  type IncrementalPlan,
+  type ManifestChunk,
+  type ManifestTable,
+} from "./lib/backup-format";
+
+export type { BackupFileEntry, BackupKind } from "./lib/backup-format";
 
 const gzip = promisify(zlib.gzip);
 const gunzip = promisify(zlib.gunzip);
 
 const DOCUMENT_UPLOAD_DIR = "uploads/documents";
+// ZIP folder for encrypted document files (v2.2.0+); older backups used documents/
+const ENCRYPTED_FILES_DIR = "files/";
+
+// Columns restored as null and set once the rows they reference exist: a
+// series' template is one of its own occurrences, and replies reference
+// comments that may come later in the backup.
+const DEFERRED_COLUMNS: { key: string; column: string; after: string }[] = [
+  { key: "activitySeries", column: "templateActivityId", after: "activities" },
+  { key: "comments", column: "parentId", after: "comments" },
+];
+
+function tableFor(key: string): PgTable {
+  return (schema as unknown as Record<string, PgTable>)[key];
+}
+
+/** Property names of the primary key columns; empty for tables without one. */
+function primaryKeyOf(table: PgTable): string[] {
+  const columns = Object.entries(getTableColumns(table));
+  const single = columns.filter(([, column]) => column.primary).map(([name]) => name);
+  if (single.length > 0) return single;
+  const composite = getTableConfig(table).primaryKeys[0]?.columns ?? [];
+  return composite.map(pk => columns.find(([, column]) => column.name === pk.name)![0]);
+}
+
+function sha256Hex(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+export interface BackupArchive {
+  /** Sealed snapshot: the manifest of a chunked backup, or the whole database before v3.0.0. */
+  htbBuffer: Buffer;
+  /** Chunked format (v3.0.0+); table data is in separate entries. */
+  chunked: boolean;
+  /** Unencrypted document files from backups before v2.2.0. */
+  documents: { filename: string; data: Buffer }[];
+  /** Reads another entry (table chunk or encrypted file) from the ZIP. */
+  readEntry(name: string): Promise<Buffer | undefined>;
+}
 
+/** A decoded backup: its manifest (v3.0.0+) or its whole snapshot (earlier). */
+interface OpenedBackup {
+  archive: BackupArchive;
+  checksum: string;
+  manifest: BackupManifest | null;
+  snapshot: BackupData | null;
+}
+
+export interface IncrementalBackupOptions {
+  /** Copy rows written at or after this time. */
+  since: Date;
+  /** The full backup the incremental applies to. */
+  base: { jobId: string | null; checksum: string };
+}
+
+/** Contents of backup.htb in backups before v3.0.0. */
 export interface BackupData {
   version: string;
   timestamp: string;
+  files?: BackupFileEntry[];
   data: {
     users: any[];
     roles: any[];
@@ -63,15 +144,57 @@ export interface BackupData {
     researchDocuments?: any[];
     llmConfigurations?: any[];
     aiConfigs?: any[];
-    // CRM Document Attachments metadata
-    // Note: Binary files stored in uploads/documents/ must be backed up separately
+    // CRM Document Attachments metadata (legacy files on disk are in the archive)
     crmDocuments?: any[];
+    // Opportunity stage/amount/probability/close date history
+    opportunityStageHistory?: any[];
+    // Org-defined custom field definitions (values live on each entity row)
+    customFieldDefinitions?: any[];
+    // Per-user notification preferences
+    notificationPreferences?: any[];
+    // Recurring activity series (occurrences are in activities)
+    activitySeries?: any[];
+    // Per-rep and team sales quotas
+    salesQuotas?: any[];
+    // Product catalog, price books and opportunity line items
+    products?: any[];
+    priceBooks?: any[];
+    priceBookEntries?: any[];
+    opportunityLineItems?: any[];
+    // Saved CSV import column mappings
+    importMappingTemplates?: any[];
+    // Background import jobs and their failed rows
+    importJobs?: any[];
+    importJobErrors?: any[];
+    // Added in v2.2.0, when backups came to cover every table (see lib/backup-tables.ts)
+    opportunityContacts?: any[];
+    documents?: any[];
+    documentLinks?: any[];
+    legacyIdMap?: any[];
+    duplicateCandidates?: any[];
+    notifications?: any[];
+    webhookSubscriptions?: any[];
+    webhookDeliveries?: any[];
   };
 }
 
+export interface BackupVerification {
+  valid: boolean;
+  version: string | null;
+  kind: BackupKind | null;
+  timestamp: string | null;
+  /** Checksum embedded in manifest.htb or backup.htb (matches backup_jobs.checksum). */
+  checksum: string | null;
+  /** Row count per table in the snapshot. */
+  tables: Record<string, number>;
+  documentFiles: number;
+  errors: string[];
+  warnings: string[];
+}
+
 export class BackupService {
   private readonly ENCRYPTION_ALGORITHM = "aes-256-gcm";
-  private readonly BACKUP_VERSION = "2.1.0";
+  private readonly BACKUP_VERSION = BACKUP_FORMAT_VERSION;
   private readonly BATCH_SIZE = 50; // Insert records in batches to avoid PostgreSQL parameter limits
 
   /**
@@ -123,6 +246,8 @@ export class BackupService {
       'implementationStartDate', 'implementationEndDate',
       'billingEndDate',
       'startDate', 'endDate',
+      'fromCloseDate', 'toCloseDate',
+      'dtstart', 'materializedThrough',
     ];
     
     const enumFields = [
@@ -166,185 +291,16 @@ export class BackupService {
   }
 
   /**
-   * Builds the encrypted, compressed, checksum-prepended .htb buffer.
-   * Internal helper shared by createBackup().
+   * JSON -> gzip -> AES-256-GCM, with the SHA-256 of the ciphertext prepended
+   * (64 hex chars + newline). Holds the manifest of a chunked backup, the
+   * whole database in backups before v3.0.0, and organization backups.
    */
-  private async createHtbBuffer(encryptionKey: string): Promise<{
+  async sealSnapshot(payload: unknown, encryptionKey: string): Promise<{
     htbBuffer: Buffer;
     checksum: string;
   }> {
-    
-    // Export all data from database in batches to avoid overwhelming Neon serverless
-    // Batch 0: Organization tables (must be first - referenced by all CRM entities)
-    const [organizations, userOrganizations] = await Promise.all([
-      db.select().from(schema.organizations),
-      db.select().from(schema.userOrganizations),
-    ]);
-
-    // Batch 1: Auth & RBAC (smaller tables)
-    const [users, roles, permissions, userRoles, rolePermissions, idPatterns, apiKeys, accountCategories] = await Promise.all([
-      db.select().from(schema.users),
-      db.select().from(schema.roles),
-      db.select().from(schema.permissions),
-      db.select().from(schema.userRoles),
-      db.select().from(schema.rolePermissions),
-      db.select().from(schema.idPatterns),
-      db.select().from(schema.apiKeys),
-      db.select().from(schema.accountCategories),
-    ]);
-    
-    // Batch 2: CRM entities (potentially larger tables)
-    const [accounts, contacts, leads, opportunities] = await Promise.all([
-      db.select().from(schema.accounts),
-      db.select().from(schema.contacts),
-      db.select().from(schema.leads),
-      db.select().from(schema.opportunities),
-    ]);
-    
-    // Batch 3: Activities, tags, and audit logs (potentially largest tables)
-    const [activities, tags, entityTags, auditLogs] = await Promise.all([
-      db.select().from(schema.activities),
-      db.select().from(schema.tags),
-      db.select().from(schema.entityTags),
-      db.select().from(schema.auditLogs),
-    ]);
-
-    // Batch 4: Resource allocations, associations, saved filters, and comments
-    const [opportunityResources, activityAssociations, savedFilters, comments] = await Promise.all([
-      db.select().from(schema.opportunityResources),
-      db.select().from(schema.activityAssociations),
-      db.select().from(schema.savedFilters),
-      db.select().from(schema.comments),
-    ]);
-
-    // Batch 5: Comment child tables
-    const [commentReactions, commentAttachments, commentSubscriptions] = await Promise.all([
-      db.select().from(schema.commentReactions),
-      db.select().from(schema.commentAttachments),
-      db.select().from(schema.commentSubscriptions),
-    ]);
-
-    // Batch 6: Lead Generation config tables (ICP profiles, offers, playbooks)
-    const [icpProfiles, icpProfileVersions, offers, taskPlaybooks, taskPlaybookSteps] = await Promise.all([
-      db.select().from(schema.icpProfiles),
-      db.select().from(schema.icpProfileVersions),
-      db.select().from(schema.offers),
-      db.select().from(schema.taskPlaybooks),
-      db.select().from(schema.taskPlaybookSteps),
-    ]);
-
-    // Batch 7: Lead Generation run tables
-    const [leadGenerationRuns, agentStepLogs] = await Promise.all([
-      db.select().from(schema.leadGenerationRuns),
-      db.select().from(schema.agentStepLogs),
-    ]);
-
-    // Batch 8: Candidate tables
-    const [candidateAccounts, candidateContacts, candidateLeads] = await Promise.all([
-      db.select().from(schema.candidateAccounts),
-      db.select().from(schema.candidateContacts),
-      db.select().from(schema.candidateLeads),
-    ]);
-
-    // Batch 9: Candidate scoring, evidence, decisions, and linking tables
-    const [candidateScores, evidenceSources, reviewDecisions, lgCrmLeads, lgCrmTasks, lgAuditEvents] = await Promise.all([
-      db.select().from(schema.candidateScores),
-      db.select().from(schema.evidenceSources),
-      db.select().from(schema.reviewDecisions),
-      db.select().from(schema.lgCrmLeads),
-      db.select().from(schema.lgCrmTasks),
-      db.select().from(schema.lgAuditEvents),
-    ]);
-
-    // Batch 10: Research documents and AI/LLM configuration
-    // aiConfigs and crmDocuments are newer tables — guard against them not existing yet
-    // in production databases that haven't had drizzle-kit push run against them.
-    const [researchDocuments, llmConfigurations] = await Promise.all([
-      db.select().from(schema.researchDocuments),
-      db.select().from(schema.llmConfigurations),
-    ]);
-
-    let aiConfigs: any[] = [];
-    try {
-      aiConfigs = await db.select().from(schema.aiConfigs);
-    } catch (e: any) {
-      // 42P01 = undefined_table — table hasn't been created in this DB yet; safe to skip.
-      // Any other error (permissions, syntax, connection) should propagate and fail the backup.
-      if (e?.code === "42P01") {
-        console.warn("[Backup] ai_configs table does not exist yet — skipping (will be empty in backup)");
-      } else {
-        throw e;
-      }
-    }
-
-    // Batch 11: CRM Document Attachment metadata
-    let crmDocuments: any[] = [];
-    try {
-      crmDocuments = await db.select().from(schema.crmDocuments);
-    } catch (e: any) {
-      // 42P01 = undefined_table — table hasn't been created in this DB yet; safe to skip.
-      if (e?.code === "42P01") {
-        console.warn("[Backup] crm_documents table does not exist yet — skipping (will be empty in backup)");
-      } else {
-        throw e;
-      }
-    }
-
-    const backupData: BackupData = {
-      version: this.BACKUP_VERSION,
-      timestamp: new Date().toISOString(),
-      data: {
-        // Multi-tenant organization tables (v2.1.0+)
-        organizations,
-        userOrganizations,
-        users,
-        roles,
-        permissions,
-        userRoles,
-        rolePermissions,
-        accounts,
-        contacts,
-        leads,
-        opportunities,
-        activities,
-        auditLogs,
-        idPatterns,
-        apiKeys,
-        tags,
-        entityTags,
-        accountCategories,
-        opportunityResources,
-        activityAssociations,
-        savedFilters,
-        comments,
-        commentReactions,
-        commentAttachments,
-        commentSubscriptions,
-        icpProfiles,
-        icpProfileVersions,
-        offers,
-        taskPlaybooks,
-        taskPlaybookSteps,
-        leadGenerationRuns,
-        agentStepLogs,
-        candidateAccounts,
-        candidateContacts,
-        candidateLeads,
-        candidateScores,
-        evidenceSources,
-        reviewDecisions,
-        lgCrmLeads,
-        lgCrmTasks,
-        lgAuditEvents,
-        researchDocuments,
-        llmConfigurations,
-        aiConfigs,
-        crmDocuments,
-      },
-    };
-
     // Convert to JSON
-    let jsonData = JSON.stringify(backupData, null, 2);
+    let jsonData = JSON.stringify(payload, null, 2);
     let buffer = Buffer.from(jsonData, "utf-8");
 
     // Compress
@@ -354,7 +310,7 @@ export class BackupService {
     buffer = this.encrypt(buffer, encryptionKey);
 
     // Calculate checksum of the data
-    const checksum = crypto.createHash("sha256").update(buffer).digest("hex");
+    const checksum = sha256Hex(buffer);
 
     // Prepend checksum to the buffer (64 bytes for hex checksum + newline)
     const checksumBuffer = Buffer.from(checksum + "\n", "utf-8");
@@ -364,700 +320,711 @@ export class BackupService {
   }
 
   /**
-   * Creates a full backup as a ZIP archive.
-   * The ZIP contains:
-   *   backup.htb  — encrypted/compressed/checksummed database JSON (legacy format inside)
-   *   documents/  — all uploaded CRM document files from uploads/documents/
+   * Creates a full or incremental backup as a ZIP archive in the chunked
+   * format described in lib/backup-format.ts. Tables are read a page at a
+   * time from a single read-only snapshot and written as encrypted NDJSON
+   * chunks, so the archive is never held as one JSON document.
+   *
+   * An incremental backup copies rows written since `incremental.since`, the
+   * primary keys of every live row (so deletions are restored too), and only
+   * the document files modified since then.
    *
    * @throws Error if encryptionKey is not provided
    */
-  async createBackup(encryptionKey: string): Promise<{
+  async createBackup(encryptionKey: string, options: { incremental?: IncrementalBackupOptions } = {}): Promise<{
     data: Buffer;
     checksum: string;
     size: number;
+    kind: BackupKind;
   }> {
     if (!encryptionKey) {
       throw new Error("BACKUP_ENCRYPTION_KEY is required for secure backups");
     }
 
-    // Build the encrypted DB snapshot (.htb)
-    const { htbBuffer, checksum } = await this.createHtbBuffer(encryptionKey);
-
-    // Pack into a ZIP
+    const cipherKey = this.deriveKey(encryptionKey);
+    const incremental = options.incremental;
     const zip = new JSZip();
-    zip.file("backup.htb", htbBuffer);
-
-    // Include all uploaded document files
-    if (fs.existsSync(DOCUMENT_UPLOAD_DIR)) {
-      const files = fs.readdirSync(DOCUMENT_UPLOAD_DIR);
-      let docCount = 0;
-      for (const filename of files) {
-        const fullPath = path.join(DOCUMENT_UPLOAD_DIR, filename);
-        if (fs.statSync(fullPath).isFile()) {
-          const fileData = fs.readFileSync(fullPath);
-          zip.file(`documents/${filename}`, fileData);
-          docCount++;
-        }
-      }
-      console.log(`[Backup] Added ${docCount} document file(s) to ZIP`);
-    }
+    const files = this.addDocumentFiles(zip, cipherKey, incremental?.since);
+
+    const timestamp = new Date();
+    const tables = await this.exportTables(zip, cipherKey, incremental?.since);
+
+    const manifest: BackupManifest = {
+      version: this.BACKUP_VERSION,
+      kind: incremental ? "incremental" : "full",
+      timestamp: timestamp.toISOString(),
+      ...(incremental && { since: incremental.since.toISOString(), base: incremental.base }),
+      files,
+      tables,
+    };
+    const { htbBuffer, checksum } = await this.sealSnapshot(manifest, encryptionKey);
+    zip.file(MANIFEST_NAME, htbBuffer);
 
     const zipBuffer = await zip.generateAsync({
       type: "nodebuffer",
-      compression: "STORE", // htb is already compressed; docs benefit little
+      compression: "STORE", // everything is encrypted, so nothing compresses
     });
+    const rows = Object.values(tables).reduce((sum, table) => sum + table.rows, 0);
+    console.log(`[Backup] Created ${manifest.kind} backup: ${rows} row(s) in ${Object.keys(tables).length} table(s), ${zipBuffer.length} bytes`);
 
     return {
       data: zipBuffer,
       checksum,
       size: zipBuffer.length,
+      kind: manifest.kind,
     };
   }
 
   /**
-   * Detects whether a buffer is a ZIP archive by checking for the PK magic bytes.
+   * Document files are encrypted one by one under opaque entry names; the
+   * list mapping them back to file names travels in the manifest. Files an
+   * incremental backup finds unmodified are listed as in its base.
    */
-  private isZipBuffer(buf: Buffer): boolean {
-    return buf.length >= 4 &&
-      buf[0] === 0x50 && buf[1] === 0x4B &&
-      (buf[2] === 0x03 || buf[2] === 0x05 || buf[2] === 0x07) &&
-      (buf[3] === 0x04 || buf[3] === 0x06 || buf[3] === 0x08);
+  private addDocumentFiles(zip: JSZip, cipherKey: Buffer, since?: Date): BackupFileEntry[] {
+    const files: BackupFileEntry[] = [];
+    if (!fs.existsSync(DOCUMENT_UPLOAD_DIR)) return files;
+
+    let stored = 0;
+    for (const filename of fs.readdirSync(DOCUMENT_UPLOAD_DIR)) {
+      const fullPath = path.join(DOCUMENT_UPLOAD_DIR, filename);
+      const stat = fs.statSync(fullPath);
+      if (!stat.isFile()) continue;
+      if (since && stat.mtime < since) {
+        files.push({ name: filename, entry: "", size: stat.size, sha256: "", inBase: true });
+        continue;
+      }
+      const fileData = fs.readFileSync(fullPath);
+      const entry = `${ENCRYPTED_FILES_DIR}${String(++stored).padStart(6, "0")}.enc`;
+      files.push({ name: filename, entry, size: fileData.length, sha256: sha256Hex(fileData) });
+      zip.file(entry, this.encryptWithKey(fileData, cipherKey));
+    }
+    console.log(`[Backup] Added ${stored} encrypted document file(s) to ZIP`);
+    return files;
+  }
+
+  /** Every backed-up table, read in one repeatable-read transaction so all of them come from the same snapshot. */
+  private async exportTables(zip: JSZip, cipherKey: Buffer, since?: Date): Promise<Record<string, ManifestTable>> {
+    const tables: Record<string, ManifestTable> = {};
+    await db.transaction(async (tx: typeof db) => {
+      for (const spec of BACKUP_TABLES) {
+        if (!(await this.tableExists(tx, spec))) continue;
+        tables[spec.key] = await this.exportTable(tx, zip, cipherKey, spec, since);
+      }
+    }, { isolationLevel: "repeatable read", accessMode: "read only" });
+    return tables;
   }
 
   /**
-   * Restores data from a backup.
-   * Accepts:
-   *   - New format: ZIP containing backup.htb + documents/ (created by createBackup())
-   *   - Legacy format: raw .htb file (checksum + encrypted + gzipped JSON)
-   * Missing tables in older backups default to empty.
-   * @throws Error if encryptionKey is not provided
+   * A newer table this database has not been migrated to yet is left out of
+   * the backup (and restores empty); a missing core table fails it.
    */
-  async restoreBackup(
-    backupBuffer: Buffer,
-    encryptionKey: string
-  ): Promise<{
-    success: boolean;
-    recordsRestored: number;
-    errors: string[];
-  }> {
-    if (!encryptionKey) {
-      throw new Error("BACKUP_ENCRYPTION_KEY is required to restore backups");
+  private async tableExists(tx: typeof db, spec: BackupTableSpec): Promise<boolean> {
+    const result = await tx.execute(sql`SELECT to_regclass(${getTableName(tableFor(spec.key))}) IS NOT NULL AS present`);
+    if ((result.rows[0] as { present: boolean } | undefined)?.present) return true;
+    if (spec.required) {
+      throw new Error(`Required table for ${spec.label} does not exist`);
     }
+    console.warn(`[Backup] ${spec.label} table does not exist yet — skipping (will be empty in backup)`);
+    return false;
+  }
 
-    const errors: string[] = [];
-
-    // --- Format detection: ZIP (new) vs .htb (legacy) ---
-    let htbBuffer = backupBuffer;
-    let documentsFromZip: { filename: string; data: Buffer }[] = [];
-
-    if (this.isZipBuffer(backupBuffer)) {
-      console.log("[Backup] Detected ZIP format — extracting backup.htb and documents...");
-      try {
-        const zip = await JSZip.loadAsync(backupBuffer);
-
-        // Extract backup.htb
-        const htbFile = zip.file("backup.htb");
-        if (!htbFile) {
-          throw new Error("ZIP does not contain backup.htb");
-        }
-        htbBuffer = await htbFile.async("nodebuffer");
-        console.log("[Backup] Extracted backup.htb from ZIP");
-
-        // Extract document files
-        zip.forEach((relativePath, zipEntry) => {
-          if (!zipEntry.dir && relativePath.startsWith("documents/")) {
-            documentsFromZip.push({ filename: path.basename(relativePath), data: null as any });
-          }
-        });
-        // Load the actual file data
-        for (const entry of documentsFromZip) {
-          const zipEntry = zip.file(`documents/${entry.filename}`);
-          if (zipEntry) {
-            entry.data = await zipEntry.async("nodebuffer");
-          }
-        }
-        console.log(`[Backup] Found ${documentsFromZip.length} document file(s) in ZIP`);
-      } catch (zipError) {
-        const msg = zipError instanceof Error ? zipError.message : String(zipError);
-        throw new Error(`Failed to read ZIP backup: ${msg}`);
+  private async exportTable(
+    tx: typeof db,
+    zip: JSZip,
+    cipherKey: Buffer,
+    spec: BackupTableSpec,
+    since?: Date,
+  ): Promise<ManifestTable> {
+    const table = tableFor(spec.key);
+    const columns = getTableColumns(table);
+    const primaryKey = primaryKeyOf(table);
+    const plan: IncrementalPlan = since ? planIncrementalTable(spec, Object.keys(columns), primaryKey) : { mode: "full" };
+    const pageRows = spec.pageRows ?? CHUNK_MAX_ROWS;
+
+    const result: ManifestTable = { mode: plan.mode, rows: 0, chunks: [] };
+    const where = plan.mode === "changed" ? gte(columns[plan.changedColumn], since!) : undefined;
+    for await (const page of this.readPages(tx, table, primaryKey, { where, pageRows })) {
+      for (const chunk of toNdjsonChunks(page)) {
+        result.chunks.push(await this.writeChunk(zip, tableChunkEntry(spec.key, result.chunks.length + 1), chunk, cipherKey));
+        result.rows += chunk.rows;
       }
-    } else {
-      console.log("[Backup] Detected legacy .htb format — restoring database only");
     }
 
-    try {
-      // Extract embedded checksum (first 65 bytes: 64 hex chars + newline)
-      const checksumLine = htbBuffer.subarray(0, 65).toString("utf-8");
-      const embeddedChecksum = checksumLine.trim();
-      const dataBuffer = htbBuffer.subarray(65);
-
-      // Verify checksum
-      const actualChecksum = crypto
-        .createHash("sha256")
-        .update(dataBuffer)
-        .digest("hex");
-
-      if (actualChecksum !== embeddedChecksum) {
-        throw new Error("Checksum verification failed - backup may be corrupted");
+    if (plan.mode === "changed") {
+      result.keyColumn = plan.keyColumn;
+      result.keyCount = 0;
+      result.keyChunks = [];
+      for await (const page of this.readPages(tx, table, primaryKey, { keysOnly: true, pageRows: CHUNK_MAX_ROWS })) {
+        for (const chunk of toNdjsonChunks(page.map(row => row[plan.keyColumn]))) {
+          result.keyChunks.push(await this.writeChunk(zip, keyChunkEntry(spec.key, result.keyChunks.length + 1), chunk, cipherKey));
+          result.keyCount += chunk.rows;
+        }
       }
+    }
+    return result;
+  }
 
-      // Decrypt with provided key
-      let buffer = this.decrypt(dataBuffer, encryptionKey);
-
-      // Decompress
-      buffer = await gunzip(buffer);
-
-      // Parse JSON
-      const jsonData = buffer.toString("utf-8");
-      const backupData: BackupData = JSON.parse(jsonData);
-
-      // Validate version - accept v1.x and v2.x (including v2.0.0 and v2.1.0)
-      const backupVersion = backupData.version || "1.0.0";
-      const backupMajor = parseInt(backupVersion.split(".")[0], 10);
-      const currentMajor = parseInt(this.BACKUP_VERSION.split(".")[0], 10);
-      const SUPPORTED_MAJORS = [1, 2];
-      if (!SUPPORTED_MAJORS.includes(backupMajor)) {
-        throw new Error(
-          `Unsupported backup version v${backupData.version}. Only v1.x and v2.x backups are supported.`
-        );
-      }
-      if (backupMajor !== currentMajor) {
-        const msg = `Cross-version restore: backup is v${backupData.version}, current is v${this.BACKUP_VERSION}. Missing tables will be skipped.`;
-        console.warn(`[Backup] WARNING: ${msg}`);
-        errors.push(msg);
-      } else if (backupData.version !== this.BACKUP_VERSION) {
-        // Minor/patch version mismatch within same major — backwards compatible
-        console.log(`[Backup] Restoring from v${backupData.version} backup (current: v${this.BACKUP_VERSION}). Any missing tables will be skipped.`);
+  /**
+   * Pages of rows in primary key order: keyset pagination on a single-column
+   * key, otherwise offsets over the key (or every column, for tables without one).
+   */
+  private async *readPages(
+    tx: typeof db,
+    table: PgTable,
+    primaryKey: string[],
+    options: { where?: SQL; keysOnly?: boolean; pageRows: number },
+  ): AsyncGenerator<any[]> {
+    const columns = getTableColumns(table);
+    const { where, pageRows } = options;
+    const select = (): any => options.keysOnly
+      ? tx.select({ [primaryKey[0]]: columns[primaryKey[0]] }).from(table)
+      : tx.select().from(table);
+
+    if (primaryKey.length === 1) {
+      const keyName = primaryKey[0];
+      let after: unknown;
+      for (;;) {
+        const page: any[] = await select()
+          .where(and(where, after === undefined ? undefined : gt(columns[keyName], after)))
+          .orderBy(asc(columns[keyName]))
+          .limit(pageRows);
+        if (page.length > 0) yield page;
+        if (page.length < pageRows) return;
+        after = page[page.length - 1][keyName];
       }
+    }
 
-      // Use transaction for atomic restore
-      let recordsRestored = 0;
-      
-      await db.transaction(async (tx: typeof db) => {
-        // Clear ALL existing data (in reverse dependency order - child tables before parent tables)
-        try {
-          console.log("[Backup] Deleting existing data...");
+    const order = (primaryKey.length > 0 ? primaryKey : Object.keys(columns)).map(name => asc(columns[name]));
+    for (let offset = 0; ; offset += pageRows) {
+      const page: any[] = await select().where(where).orderBy(...order).limit(pageRows).offset(offset);
+      if (page.length > 0) yield page;
+      if (page.length < pageRows) return;
+    }
+  }
 
-          // Lead Generation linking tables (most dependent)
-          await tx.delete(schema.lgCrmTasks);
-          await tx.delete(schema.lgCrmLeads);
-          await tx.delete(schema.lgAuditEvents);
-
-          // Lead Generation review/scoring/evidence (depend on candidateLeads)
-          await tx.delete(schema.reviewDecisions);
-          await tx.delete(schema.candidateScores);
-          await tx.delete(schema.evidenceSources);
-
-          // Candidate tables (depend on runs and accounts)
-          await tx.delete(schema.candidateLeads);
-          await tx.delete(schema.candidateContacts);
-          await tx.delete(schema.candidateAccounts);
-
-          // Agent step logs (depend on runs)
-          await tx.delete(schema.agentStepLogs);
-
-          // Lead generation runs (depend on ICP profiles)
-          await tx.delete(schema.leadGenerationRuns);
-
-          // CRM document attachments (reference users and CRM entities)
-          await tx.delete(schema.crmDocuments);
-
-          // Research documents (independent, but reference users/runs)
-          await tx.delete(schema.researchDocuments);
-
-          // Task playbook steps (depend on playbooks)
-          await tx.delete(schema.taskPlaybookSteps);
-
-          // Task playbooks (depend on ICP profiles)
-          await tx.delete(schema.taskPlaybooks);
-
-          // Offers (depend on ICP profiles)
-          await tx.delete(schema.offers);
-
-          // ICP profile versions (depend on ICP profiles)
-          await tx.delete(schema.icpProfileVersions);
-
-          // ICP profiles (independent)
-          await tx.delete(schema.icpProfiles);
-
-          // AI/LLM config (independent)
-          await tx.delete(schema.aiConfigs);
-          await tx.delete(schema.llmConfigurations);
-
-          // Comments reference users, accounts, contacts, leads, opportunities
-          await tx.delete(schema.commentReactions);
-          await tx.delete(schema.commentAttachments);
-          await tx.delete(schema.commentSubscriptions);
-          await tx.delete(schema.comments);
-          // Audit logs reference various entities
-          await tx.delete(schema.auditLogs);
-          // Entity tags reference tags and users
-          await tx.delete(schema.entityTags);
-          // Opportunity resources reference opportunities and users
-          await tx.delete(schema.opportunityResources);
-          // Activity associations reference activities
-          await tx.delete(schema.activityAssociations);
-          // Saved filters reference users
-          await tx.delete(schema.savedFilters);
-          // Activities reference accounts, contacts, leads, opportunities
-          await tx.delete(schema.activities);
-          // Backup jobs are independent
-          await tx.delete(schema.backupJobs);
-          // Leads are independent
-          await tx.delete(schema.leads);
-          // Opportunities reference accounts
-          await tx.delete(schema.opportunities);
-          // Contacts reference accounts
-          await tx.delete(schema.contacts);
-          // Accounts reference accountCategories, so delete accounts BEFORE categories
-          await tx.delete(schema.accounts);
-          // Now safe to delete accountCategories
-          await tx.delete(schema.accountCategories);
-          // Role permissions reference roles and permissions
-          await tx.delete(schema.rolePermissions);
-          // User roles reference users and roles
-          await tx.delete(schema.userRoles);
-          // API keys reference users (created_by foreign key)
-          await tx.delete(schema.apiKeys);
-          // Tags reference users (created_by foreign key)
-          await tx.delete(schema.tags);
-          // Permissions are independent
-          await tx.delete(schema.permissions);
-          // Roles are independent  
-          await tx.delete(schema.roles);
-          // userOrganizations references both users and organizations — delete before both
-          await tx.delete(schema.userOrganizations);
-          // Users are independent (but must be deleted AFTER api_keys, tags, and userOrganizations)
-          await tx.delete(schema.users);
-          // ID patterns reference organizations — must be deleted before organizations
-          await tx.delete(schema.idPatterns);
-          // Organizations — deleted last, after all tables that reference it
-          await tx.delete(schema.organizations);
-          console.log("[Backup] All existing data deleted successfully");
-        } catch (deleteError) {
-          console.error("[Backup] Error during deletion:", deleteError);
-          throw new Error(`Failed to clear existing data: ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`);
-        }
+  private async writeChunk(zip: JSZip, entry: string, chunk: { text: string; rows: number }, cipherKey: Buffer): Promise<ManifestChunk> {
+    const plain = Buffer.from(chunk.text, "utf-8");
+    zip.file(entry, this.encryptWithKey(await gzip(plain), cipherKey));
+    return { entry, rows: chunk.rows, sha256: sha256Hex(plain) };
+  }
 
-        // Restore data (in dependency order) using batched inserts
-        console.log("[Backup] Starting data restoration...");
+  /**
+   * Detects whether a buffer is a ZIP archive by checking for the PK magic bytes.
+   */
+  private isZipBuffer(buf: Buffer): boolean {
+    return buf.length >= 4 &&
+      buf[0] === 0x50 && buf[1] === 0x4B &&
+      (buf[2] === 0x03 || buf[2] === 0x05 || buf[2] === 0x07) &&
+      (buf[3] === 0x04 || buf[3] === 0x06 || buf[3] === 0x08);
+  }
 
-        // Detect whether this backup includes org data (v2.1.0+).
-        // Old backups (v1.x, v2.0.0) don't have organizations — for backwards compat
-        // we strip organizationId from CRM records so FK constraints don't fail.
-        // Server startup will re-create the default org and backfill all records.
-        const hasOrgData = (backupData.data.organizations || []).length > 0;
-        const stripOrgId = (records: any[]): any[] => {
-          if (hasOrgData) return records; // New backup — keep organizationId intact
-          return records.map((r: any) => {
-            const copy = { ...r };
-            delete copy.organizationId;
-            return copy;
-          });
-        };
-
-        // Restore auth/RBAC tables
-        try {
-          await this.batchInsert(tx, schema.roles, backupData.data.roles, "roles");
-          recordsRestored += backupData.data.roles.length;
-        } catch (error) {
-          throw new Error(`Failed to restore roles: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /**
+   * Opens a backup archive: the chunked format's manifest.htb, the backup.htb
+   * snapshot of v2.x ZIPs, or a legacy raw .htb file (returned as-is with no
+   * documents). Other entries are read on demand through readEntry().
+   */
+  async extractArchive(backupBuffer: Buffer, snapshotName?: string): Promise<BackupArchive> {
+    if (!this.isZipBuffer(backupBuffer)) {
+      console.log("[Backup] Detected legacy .htb format — restoring database only");
+      return { htbBuffer: backupBuffer, chunked: false, documents: [], readEntry: async () => undefined };
+    }
 
-        try {
-          await this.batchInsert(tx, schema.permissions, backupData.data.permissions, "permissions");
-          recordsRestored += backupData.data.permissions.length;
-        } catch (error) {
-          throw new Error(`Failed to restore permissions: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    try {
+      const zip = await JSZip.loadAsync(backupBuffer);
 
-        try {
-          await this.batchInsert(tx, schema.users, backupData.data.users, "users");
-          recordsRestored += backupData.data.users.length;
-        } catch (error) {
-          throw new Error(`Failed to restore users: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      const name = snapshotName ?? (zip.file(MANIFEST_NAME) ? MANIFEST_NAME : LEGACY_SNAPSHOT_NAME);
+      const htbFile = zip.file(name);
+      if (!htbFile) {
+        throw new Error(`ZIP does not contain ${name}`);
+      }
+      const htbBuffer = await htbFile.async("nodebuffer");
 
-        // Restore API keys (depends on users)
-        try {
-          await this.batchInsert(tx, schema.apiKeys, backupData.data.apiKeys || [], "API keys");
-          recordsRestored += (backupData.data.apiKeys || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore API keys: ${error instanceof Error ? error.message : String(error)}`);
+      // Backups before v2.2.0 stored document files unencrypted under documents/
+      const documents: { filename: string; data: Buffer }[] = [];
+      for (const entry of Object.values(zip.files)) {
+        if (!entry.dir && entry.name.startsWith("documents/")) {
+          documents.push({ filename: path.basename(entry.name), data: await entry.async("nodebuffer") });
         }
+      }
 
-        try {
-          await this.batchInsert(tx, schema.userRoles, backupData.data.userRoles, "user roles");
-          recordsRestored += backupData.data.userRoles.length;
-        } catch (error) {
-          throw new Error(`Failed to restore user roles: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      return {
+        htbBuffer,
+        chunked: name === MANIFEST_NAME,
+        documents,
+        readEntry: async (entry) => zip.file(entry)?.async("nodebuffer"),
+      };
+    } catch (zipError) {
+      const msg = zipError instanceof Error ? zipError.message : String(zipError);
+      throw new Error(`Failed to read ZIP backup: ${msg}`);
+    }
+  }
 
-        try {
-          await this.batchInsert(tx, schema.rolePermissions, backupData.data.rolePermissions, "role permissions");
-          recordsRestored += backupData.data.rolePermissions.length;
-        } catch (error) {
-          throw new Error(`Failed to restore role permissions: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /** Checks the embedded checksum, then decrypts and parses the snapshot. */
+  async decodeHtb<T = BackupData>(htbBuffer: Buffer, encryptionKey: string): Promise<{ backupData: T; checksum: string }> {
+    // Extract embedded checksum (first 65 bytes: 64 hex chars + newline)
+    const embeddedChecksum = htbBuffer.subarray(0, 65).toString("utf-8").trim();
+    const dataBuffer = htbBuffer.subarray(65);
 
-        // Restore organizations (v2.1.0+) — must come before accounts/contacts/leads/etc.
-        // Old backups will have no org data here; server startup will re-create the default org.
-        try {
-          const orgs = backupData.data.organizations || [];
-          await this.batchInsert(tx, schema.organizations, orgs, "organizations");
-          recordsRestored += orgs.length;
-          if (!hasOrgData) {
-            console.log("[Backup] No org data in backup (pre-v2.1.0 format) — server startup will recreate default org");
-          }
-        } catch (error) {
-          throw new Error(`Failed to restore organizations: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    const actualChecksum = sha256Hex(dataBuffer);
+    if (actualChecksum !== embeddedChecksum) {
+      throw new Error("Checksum verification failed - backup may be corrupted");
+    }
 
-        // Restore userOrganizations (v2.1.0+) — after users and organizations
-        try {
-          const userOrgs = backupData.data.userOrganizations || [];
-          await this.batchInsert(tx, schema.userOrganizations, userOrgs, "user-organization memberships");
-          recordsRestored += userOrgs.length;
-        } catch (error) {
-          throw new Error(`Failed to restore user-organization memberships: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    let buffer: Buffer;
+    try {
+      buffer = this.decrypt(dataBuffer, encryptionKey);
+    } catch {
+      throw new Error("Decryption failed - wrong encryption key or corrupted backup");
+    }
+    buffer = await gunzip(buffer);
 
-        // Restore account categories (before accounts that reference them)
-        try {
-          await this.batchInsert(tx, schema.accountCategories, stripOrgId(backupData.data.accountCategories || []), "account categories");
-          recordsRestored += (backupData.data.accountCategories || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore account categories: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    return { backupData: JSON.parse(buffer.toString("utf-8")), checksum: embeddedChecksum };
+  }
 
-        // Restore tags (after users, before entity_tags)
-        try {
-          await this.batchInsert(tx, schema.tags, backupData.data.tags || [], "tags");
-          recordsRestored += (backupData.data.tags || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore tags: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  private async openBackup(backupBuffer: Buffer, encryptionKey: string): Promise<OpenedBackup> {
+    const archive = await this.extractArchive(backupBuffer);
+    if (archive.chunked) {
+      const { backupData, checksum } = await this.decodeHtb<BackupManifest>(archive.htbBuffer, encryptionKey);
+      return { archive, checksum, manifest: backupData, snapshot: null };
+    }
+    const { backupData, checksum } = await this.decodeHtb(archive.htbBuffer, encryptionKey);
+    return { archive, checksum, manifest: null, snapshot: backupData };
+  }
 
-        // Restore CRM entities using batched inserts
-        // stripOrgId() handles backwards compat: strips organizationId from old backups
-        // so FK constraints don't fail when no org data is present.
-        try {
-          await this.batchInsert(tx, schema.accounts, stripOrgId(backupData.data.accounts), "accounts");
-          recordsRestored += backupData.data.accounts.length;
-        } catch (error) {
-          throw new Error(`Failed to restore accounts: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /** Decrypts one table chunk and checks it against the manifest. */
+  private async readChunk(archive: BackupArchive, chunk: ManifestChunk, cipherKey: Buffer): Promise<any[]> {
+    const stored = await archive.readEntry(chunk.entry);
+    if (!stored) {
+      throw new Error(`Backup chunk ${chunk.entry} is missing from the archive`);
+    }
+    let plain: Buffer;
+    try {
+      plain = await gunzip(this.decryptWithKey(stored, cipherKey));
+    } catch {
+      throw new Error(`Backup chunk ${chunk.entry} could not be decrypted`);
+    }
+    if (sha256Hex(plain) !== chunk.sha256) {
+      throw new Error(`Backup chunk ${chunk.entry} failed its checksum`);
+    }
+    const rows = parseNdjson(plain.toString("utf-8"));
+    if (rows.length !== chunk.rows) {
+      throw new Error(`Backup chunk ${chunk.entry} holds ${rows.length} rows, expected ${chunk.rows}`);
+    }
+    return rows;
+  }
 
-        try {
-          await this.batchInsert(tx, schema.contacts, stripOrgId(backupData.data.contacts), "contacts");
-          recordsRestored += backupData.data.contacts.length;
-        } catch (error) {
-          throw new Error(`Failed to restore contacts: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /** Rows of one table, a chunk at a time (all at once from a pre-v3.0.0 snapshot). */
+  private async *tableRows(backup: OpenedBackup, key: string, cipherKey: Buffer): AsyncGenerator<any[]> {
+    if (backup.snapshot) {
+      const rows = (backup.snapshot.data as Record<string, any[] | undefined>)[key] ?? [];
+      if (rows.length > 0) yield rows;
+      return;
+    }
+    for (const chunk of backup.manifest!.tables[key]?.chunks ?? []) {
+      yield await this.readChunk(backup.archive, chunk, cipherKey);
+    }
+  }
 
-        try {
-          await this.batchInsert(tx, schema.leads, stripOrgId(backupData.data.leads), "leads");
-          recordsRestored += backupData.data.leads.length;
-        } catch (error) {
-          throw new Error(`Failed to restore leads: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /**
+   * Rows of one table as of an incremental backup: the base backup's rows
+   * that are still live and unchanged, then the incremental's own copies.
+   */
+  private async *mergedTableRows(base: OpenedBackup, incremental: OpenedBackup, key: string, cipherKey: Buffer): AsyncGenerator<any[]> {
+    const table = incremental.manifest!.tables[key];
+    if (!table) {
+      yield* this.tableRows(base, key, cipherKey);
+      return;
+    }
+    if (table.mode === "full") {
+      yield* this.tableRows(incremental, key, cipherKey);
+      return;
+    }
 
-        try {
-          await this.batchInsert(tx, schema.opportunities, stripOrgId(backupData.data.opportunities), "opportunities");
-          recordsRestored += backupData.data.opportunities.length;
-        } catch (error) {
-          throw new Error(`Failed to restore opportunities: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    const keyColumn = table.keyColumn!;
+    const liveKeys = new Set<string>();
+    for (const chunk of table.keyChunks ?? []) {
+      for (const value of await this.readChunk(incremental.archive, chunk, cipherKey)) liveKeys.add(String(value));
+    }
+    const changedKeys = new Set<string>();
+    for await (const rows of this.tableRows(incremental, key, cipherKey)) {
+      for (const row of rows) changedKeys.add(String(row[keyColumn]));
+    }
 
-        // Activities need special handling for default values
-        try {
-          if (backupData.data.activities.length > 0) {
-            console.log(`[Backup] Restoring ${backupData.data.activities.length} activities...`);
-            const activitiesWithDefaults = stripOrgId(backupData.data.activities).map((activity: any) => {
-              const withDates = this.convertDates(activity);
-              return {
-                ...withDates,
-                status: activity.status || "pending",
-                priority: activity.priority || "medium",
-              };
-            });
-            // Batch insert activities
-            for (let i = 0; i < activitiesWithDefaults.length; i += this.BATCH_SIZE) {
-              const batch = activitiesWithDefaults.slice(i, i + this.BATCH_SIZE);
-              await tx.insert(schema.activities).values(batch);
-            }
-            recordsRestored += backupData.data.activities.length;
-          }
-        } catch (error) {
-          throw new Error(`Failed to restore activities: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    for await (const rows of this.tableRows(base, key, cipherKey)) {
+      const kept = mergeBaseRows(rows, keyColumn, { liveKeys, changedKeys });
+      if (kept.length > 0) yield kept;
+    }
+    yield* this.tableRows(incremental, key, cipherKey);
+  }
 
-        // Restore ID patterns (stripOrgId for backwards compat — org FK on idPatterns)
-        try {
-          await this.batchInsert(tx, schema.idPatterns, stripOrgId(backupData.data.idPatterns), "ID patterns");
-          recordsRestored += backupData.data.idPatterns.length;
-        } catch (error) {
-          throw new Error(`Failed to restore ID patterns: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /**
+   * Decrypts each document file of a backup, checks it against its recorded
+   * SHA-256 and passes it to `visit`. Files an incremental backup lists as
+   * unchanged are read from `base`, and skipped without one. Backups before
+   * v2.2.0 have no file list and carry their files unencrypted. Returns the
+   * problems found; damaged files are not visited.
+   */
+  private async forEachDocumentFile(
+    backup: OpenedBackup,
+    cipherKey: Buffer,
+    visit: (filename: string, data: Buffer) => void,
+    base?: OpenedBackup,
+  ): Promise<string[]> {
+    const files = backup.manifest?.files ?? backup.snapshot?.files;
+    if (!files) {
+      for (const doc of backup.archive.documents) visit(doc.filename, doc.data);
+      return [];
+    }
 
-        // Restore audit logs
-        try {
-          await this.batchInsert(tx, schema.auditLogs, backupData.data.auditLogs, "audit logs");
-          recordsRestored += backupData.data.auditLogs.length;
-        } catch (error) {
-          throw new Error(`Failed to restore audit logs: ${error instanceof Error ? error.message : String(error)}`);
+    const baseFiles = new Map((base?.manifest?.files ?? base?.snapshot?.files ?? []).map(file => [file.name, file]));
+    const errors: string[] = [];
+    for (const listed of files) {
+      let file = listed;
+      let archive = backup.archive;
+      if (listed.inBase) {
+        if (!base) continue;
+        const inBase = baseFiles.get(listed.name);
+        if (!inBase) {
+          errors.push(`Document file ${listed.name} is missing from the base backup`);
+          continue;
         }
+        file = inBase;
+        archive = base.archive;
+      }
 
-        // Restore activity associations (after activities)
-        try {
-          await this.batchInsert(tx, schema.activityAssociations, backupData.data.activityAssociations || [], "activity associations");
-          recordsRestored += (backupData.data.activityAssociations || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore activity associations: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      const stored = await archive.readEntry(file.entry);
+      if (!stored) {
+        errors.push(`Document file ${file.name} is missing from the archive`);
+        continue;
+      }
+      let data: Buffer;
+      try {
+        data = this.decryptWithKey(stored, cipherKey);
+      } catch {
+        errors.push(`Document file ${file.name} could not be decrypted`);
+        continue;
+      }
+      if (sha256Hex(data) !== file.sha256) {
+        errors.push(`Document file ${file.name} failed its checksum`);
+        continue;
+      }
+      visit(path.basename(file.name), data);
+    }
+    return errors;
+  }
 
-        // Restore opportunity resources (after opportunities and users)
-        try {
-          await this.batchInsert(tx, schema.opportunityResources, backupData.data.opportunityResources || [], "opportunity resources");
-          recordsRestored += (backupData.data.opportunityResources || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore opportunity resources: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /**
+   * Decrypts and validates a backup without restoring it: checksum, key,
+   * version, table shapes, every table chunk of a chunked backup, and that
+   * every document file is present and intact. An incremental backup is
+   * checked on its own; the files it shares with its base are not.
+   * Never throws for a bad backup — problems come back in `errors`.
+   */
+  async verifyBackup(backupBuffer: Buffer, encryptionKey: string): Promise<BackupVerification> {
+    if (!encryptionKey) {
+      throw new Error("BACKUP_ENCRYPTION_KEY is required to verify backups");
+    }
 
-        // Restore saved filters (after users)
-        try {
-          await this.batchInsert(tx, schema.savedFilters, backupData.data.savedFilters || [], "saved filters");
-          recordsRestored += (backupData.data.savedFilters || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore saved filters: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    const result: BackupVerification = {
+      valid: false,
+      version: null,
+      kind: null,
+      timestamp: null,
+      checksum: null,
+      tables: {},
+      documentFiles: 0,
+      errors: [],
+      warnings: [],
+    };
 
-        // Restore entity tags (after all entities and tags are restored)
-        try {
-          await this.batchInsert(tx, schema.entityTags, backupData.data.entityTags || [], "entity tags");
-          recordsRestored += (backupData.data.entityTags || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore entity tags: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    try {
+      const cipherKey = this.deriveKey(encryptionKey);
+      const backup = await this.openBackup(backupBuffer, encryptionKey);
+      result.checksum = backup.checksum;
+      result.errors.push(...await this.forEachDocumentFile(backup, cipherKey, () => { result.documentFiles++; }));
 
-        // Restore comments (after users and all entity tables)
-        // Sort by depth ASC to ensure parent comments are inserted before children (self-referential FK)
-        try {
-          const sortedComments = [...(backupData.data.comments || [])].sort(
-            (a: any, b: any) => (a.depth ?? 0) - (b.depth ?? 0)
-          );
-          await this.batchInsert(tx, schema.comments, sortedComments, "comments");
-          recordsRestored += sortedComments.length;
-        } catch (error) {
-          throw new Error(`Failed to restore comments: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      if (backup.manifest) {
+        await this.verifyManifest(backup, cipherKey, result);
+      } else {
+        this.verifySnapshot(backup, result);
+      }
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+    }
 
-        // Restore comment reactions (after comments and users)
-        try {
-          await this.batchInsert(tx, schema.commentReactions, backupData.data.commentReactions || [], "comment reactions");
-          recordsRestored += (backupData.data.commentReactions || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore comment reactions: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    result.valid = result.errors.length === 0;
+    return result;
+  }
 
-        // Restore comment attachments (after comments and users)
-        try {
-          await this.batchInsert(tx, schema.commentAttachments, backupData.data.commentAttachments || [], "comment attachments");
-          recordsRestored += (backupData.data.commentAttachments || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore comment attachments: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  private async verifyManifest(backup: OpenedBackup, cipherKey: Buffer, result: BackupVerification): Promise<void> {
+    const manifest = backup.manifest!;
+    result.version = manifest.version;
+    result.kind = manifest.kind;
+    result.timestamp = manifest.timestamp ?? null;
+    result.errors.push(...validateManifest(manifest, REQUIRED_BACKUP_TABLES));
+    if (manifest.kind === "incremental") {
+      result.warnings.push(`Incremental backup of changes since ${manifest.since}; it is restored on top of its full backup`);
+    }
 
-        // Restore comment subscriptions (after comments and users)
+    const archived = new Set((manifest.files ?? []).map(file => file.name));
+    let missingFiles = 0;
+    for (const [key, table] of Object.entries(manifest.tables ?? {})) {
+      result.tables[key] = table.rows;
+      for (const chunk of [...(table.chunks ?? []), ...(table.keyChunks ?? [])]) {
         try {
-          await this.batchInsert(tx, schema.commentSubscriptions, backupData.data.commentSubscriptions || [], "comment subscriptions");
-          recordsRestored += (backupData.data.commentSubscriptions || []).length;
+          const rows = await this.readChunk(backup.archive, chunk, cipherKey);
+          if (key === "crmDocuments" && table.chunks.includes(chunk)) {
+            missingFiles += rows.filter(doc => doc.filePath && !doc.fileData && !archived.has(path.basename(doc.filePath))).length;
+          }
         } catch (error) {
-          throw new Error(`Failed to restore comment subscriptions: ${error instanceof Error ? error.message : String(error)}`);
+          result.errors.push(error instanceof Error ? error.message : String(error));
         }
+      }
+    }
+    if (missingFiles > 0) {
+      result.warnings.push(`${missingFiles} document file(s) referenced by crm_documents are not in the archive`);
+    }
+  }
 
-        // ====== LEAD GENERATION MODULE RESTORE (v2.0.0+) ======
-        // All new fields use || [] to be backwards-compatible with v1.x backups
+  private verifySnapshot(backup: OpenedBackup, result: BackupVerification): void {
+    const backupData = backup.snapshot!;
+    if (!backupData.files && result.documentFiles > 0) {
+      result.warnings.push(`${result.documentFiles} document file(s) are stored unencrypted (backup predates v2.2.0)`);
+    }
+    result.version = backupData.version || "1.0.0";
+    result.kind = "full";
+    result.timestamp = backupData.timestamp ?? null;
 
-        // Restore LLM configurations and AI configs (independent)
-        try {
-          await this.batchInsert(tx, schema.llmConfigurations, backupData.data.llmConfigurations || [], "LLM configurations");
-          recordsRestored += (backupData.data.llmConfigurations || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore LLM configurations: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    const major = parseInt(result.version.split(".")[0], 10);
+    if (![1, 2].includes(major)) {
+      result.errors.push(`Unsupported backup version v${result.version}`);
+    }
 
-        try {
-          await this.batchInsert(tx, schema.aiConfigs, backupData.data.aiConfigs || [], "AI configs");
-          recordsRestored += (backupData.data.aiConfigs || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore AI configs: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    if (!backupData.data || typeof backupData.data !== "object") {
+      result.errors.push("Backup has no data section");
+      return;
+    }
+    for (const [table, rows] of Object.entries(backupData.data)) {
+      if (rows === undefined) continue;
+      if (!Array.isArray(rows)) {
+        result.errors.push(`Table ${table} is not a list of rows`);
+        continue;
+      }
+      result.tables[table] = rows.length;
+    }
+    for (const table of REQUIRED_BACKUP_TABLES) {
+      if (!Array.isArray((backupData.data as Record<string, unknown>)[table])) {
+        result.errors.push(`Required table ${table} is missing`);
+      }
+    }
 
-        // Restore ICP profiles (independent - no other tables depend on them at this point)
-        try {
-          await this.batchInsert(tx, schema.icpProfiles, backupData.data.icpProfiles || [], "ICP profiles");
-          recordsRestored += (backupData.data.icpProfiles || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore ICP profiles: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    // Documents stored on disk must have their file in the archive
+    const archived = new Set([
+      ...(backupData.files ?? []).map(file => file.name),
+      ...backup.archive.documents.map(doc => doc.filename),
+    ]);
+    const missing = (backupData.data.crmDocuments ?? [])
+      .filter((doc: any) => doc.filePath && !doc.fileData && !archived.has(path.basename(doc.filePath)));
+    if (missing.length > 0) {
+      result.warnings.push(`${missing.length} document file(s) referenced by crm_documents are not in the archive`);
+    }
+  }
 
-        // Restore ICP profile versions (depend on ICP profiles)
-        try {
-          await this.batchInsert(tx, schema.icpProfileVersions, backupData.data.icpProfileVersions || [], "ICP profile versions");
-          recordsRestored += (backupData.data.icpProfileVersions || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore ICP profile versions: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /**
+   * Checks that a backup can be restored, returning warnings for the restore
+   * result. Throws for an unsupported version or a damaged manifest.
+   */
+  private checkRestorable(backup: OpenedBackup): string[] {
+    if (backup.manifest) {
+      const problems = validateManifest(backup.manifest, REQUIRED_BACKUP_TABLES);
+      if (problems.length > 0) {
+        throw new Error(problems.join("; "));
+      }
+      return [];
+    }
 
-        // Restore offers (depend on ICP profiles)
-        try {
-          await this.batchInsert(tx, schema.offers, backupData.data.offers || [], "offers");
-          recordsRestored += (backupData.data.offers || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore offers: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    // Snapshot backups: v1.x and v2.x
+    const backupVersion = backup.snapshot!.version || "1.0.0";
+    const backupMajor = parseInt(backupVersion.split(".")[0], 10);
+    if (![1, 2].includes(backupMajor)) {
+      throw new Error(
+        `Unsupported backup version v${backupVersion}. Only v1.x, v2.x and v3.x backups are supported.`
+      );
+    }
+    if (backupMajor === 1) {
+      const msg = `Cross-version restore: backup is v${backupVersion}, current is v${this.BACKUP_VERSION}. Missing tables will be skipped.`;
+      console.warn(`[Backup] WARNING: ${msg}`);
+      return [msg];
+    }
+    // Tables added since the backup was taken restore empty
+    console.log(`[Backup] Restoring from v${backupVersion} backup (current: v${this.BACKUP_VERSION}). Any missing tables will be skipped.`);
+    return [];
+  }
 
-        // Restore task playbooks (may reference ICP profiles)
-        try {
-          await this.batchInsert(tx, schema.taskPlaybooks, backupData.data.taskPlaybooks || [], "task playbooks");
-          recordsRestored += (backupData.data.taskPlaybooks || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore task playbooks: ${error instanceof Error ? error.message : String(error)}`);
-        }
+  /**
+   * Restores data from a backup, replacing the whole database.
+   * Accepts:
+   *   - Chunked ZIP (v3.0.0+): manifest.htb + table chunks + document files
+   *   - Snapshot ZIP (v2.x): backup.htb + document files
+   *   - Legacy format: raw .htb file (checksum + encrypted + gzipped JSON)
+   * An incremental backup is restored by passing its full backup as
+   * `backupBuffer` and itself as `options.incremental`. Missing tables in
+   * older backups default to empty. On success, returns a consistency report
+   * on the restored data.
+   * @throws Error if encryptionKey is not provided
+   */
+  async restoreBackup(
+    backupBuffer: Buffer,
+    encryptionKey: string,
+    options: { incremental?: Buffer } = {}
+  ): Promise<{
+    success: boolean;
+    recordsRestored: number;
+    errors: string[];
+    consistency?: ConsistencyReport;
+  }> {
+    if (!encryptionKey) {
+      throw new Error("BACKUP_ENCRYPTION_KEY is required to restore backups");
+    }
 
-        // Restore task playbook steps (depend on playbooks)
-        try {
-          await this.batchInsert(tx, schema.taskPlaybookSteps, backupData.data.taskPlaybookSteps || [], "task playbook steps");
-          recordsRestored += (backupData.data.taskPlaybookSteps || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore task playbook steps: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    const errors: string[] = [];
 
-        // Restore lead generation runs (depend on ICP profiles/versions, users, and organizations)
-        try {
-          await this.batchInsert(tx, schema.leadGenerationRuns, stripOrgId(backupData.data.leadGenerationRuns || []), "lead generation runs");
-          recordsRestored += (backupData.data.leadGenerationRuns || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore lead generation runs: ${error instanceof Error ? error.message : String(error)}`);
-        }
+    try {
+      const cipherKey = this.deriveKey(encryptionKey);
+      const base = await this.openBackup(backupBuffer, encryptionKey);
+      errors.push(...this.checkRestorable(base));
+      if (base.manifest?.kind === "incremental") {
+        throw new Error("This is an incremental backup. Restore it from the stored backup history, which applies it on top of its full backup.");
+      }
 
-        // Restore agent step logs (depend on runs)
-        try {
-          await this.batchInsert(tx, schema.agentStepLogs, backupData.data.agentStepLogs || [], "agent step logs");
-          recordsRestored += (backupData.data.agentStepLogs || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore agent step logs: ${error instanceof Error ? error.message : String(error)}`);
+      let incremental: OpenedBackup | undefined;
+      if (options.incremental) {
+        incremental = await this.openBackup(options.incremental, encryptionKey);
+        errors.push(...this.checkRestorable(incremental));
+        if (incremental.manifest?.kind !== "incremental") {
+          throw new Error("The backup to apply is not an incremental backup");
         }
-
-        // Restore candidate accounts (depend on runs and CRM accounts)
-        try {
-          await this.batchInsert(tx, schema.candidateAccounts, backupData.data.candidateAccounts || [], "candidate accounts");
-          recordsRestored += (backupData.data.candidateAccounts || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore candidate accounts: ${error instanceof Error ? error.message : String(error)}`);
+        if (incremental.manifest.base?.checksum !== base.checksum) {
+          throw new Error("The incremental backup was not taken on top of this full backup");
         }
+      }
 
-        // Restore candidate contacts (depend on candidate accounts and runs)
-        try {
-          await this.batchInsert(tx, schema.candidateContacts, backupData.data.candidateContacts || [], "candidate contacts");
-          recordsRestored += (backupData.data.candidateContacts || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore candidate contacts: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      // Check document files before touching the database, so a damaged
+      // archive fails the restore instead of leaving attachments behind
+      const latest = incremental ?? base;
+      const chainBase = incremental ? base : undefined;
+      const fileErrors = await this.forEachDocumentFile(latest, cipherKey, () => {}, chainBase);
+      if (fileErrors.length > 0) {
+        throw new Error(fileErrors.join("; "));
+      }
 
-        // Restore candidate leads (depend on runs, candidate accounts, candidate contacts, playbooks)
-        try {
-          await this.batchInsert(tx, schema.candidateLeads, backupData.data.candidateLeads || [], "candidate leads");
-          recordsRestored += (backupData.data.candidateLeads || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore candidate leads: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      const rowsOf = (key: string) => incremental
+        ? this.mergedTableRows(base, incremental, key, cipherKey)
+        : this.tableRows(base, key, cipherKey);
 
-        // Restore candidate scores (depend on candidate leads)
-        try {
-          await this.batchInsert(tx, schema.candidateScores, backupData.data.candidateScores || [], "candidate scores");
-          recordsRestored += (backupData.data.candidateScores || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore candidate scores: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      // Only the columns the consistency report reads are kept
+      const restored: Record<string, any[]> = {};
 
-        // Restore evidence sources (depend on candidate leads and candidate accounts)
-        try {
-          await this.batchInsert(tx, schema.evidenceSources, backupData.data.evidenceSources || [], "evidence sources");
-          recordsRestored += (backupData.data.evidenceSources || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore evidence sources: ${error instanceof Error ? error.message : String(error)}`);
-        }
+      // Use transaction for atomic restore
+      let recordsRestored = 0;
 
-        // Restore review decisions (depend on candidate leads and users)
+      await db.transaction(async (tx: typeof db) => {
+        // Clear ALL existing data: excluded tables first, then backed-up tables
+        // children before parents (reverse restore order)
         try {
-          await this.batchInsert(tx, schema.reviewDecisions, backupData.data.reviewDecisions || [], "review decisions");
-          recordsRestored += (backupData.data.reviewDecisions || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore review decisions: ${error instanceof Error ? error.message : String(error)}`);
+          console.log("[Backup] Deleting existing data...");
+          for (const key of Object.keys(EXCLUDED_FROM_BACKUP)) {
+            await tx.delete(tableFor(key));
+          }
+          for (const spec of [...BACKUP_TABLES].reverse()) {
+            await tx.delete(tableFor(spec.key));
+          }
+          console.log("[Backup] All existing data deleted successfully");
+        } catch (deleteError) {
+          console.error("[Backup] Error during deletion:", deleteError);
+          throw new Error(`Failed to clear existing data: ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`);
         }
 
-        // Restore LG CRM leads (depend on candidate leads and CRM leads)
-        try {
-          await this.batchInsert(tx, schema.lgCrmLeads, backupData.data.lgCrmLeads || [], "LG CRM leads");
-          recordsRestored += (backupData.data.lgCrmLeads || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore LG CRM leads: ${error instanceof Error ? error.message : String(error)}`);
-        }
+        // Restore data (in dependency order) using batched inserts
+        console.log("[Backup] Starting data restoration...");
 
-        // Restore LG CRM tasks (depend on candidate leads, activities, playbook steps, runs)
-        try {
-          await this.batchInsert(tx, schema.lgCrmTasks, backupData.data.lgCrmTasks || [], "LG CRM tasks");
-          recordsRestored += (backupData.data.lgCrmTasks || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore LG CRM tasks: ${error instanceof Error ? error.message : String(error)}`);
+        // Detect whether this backup includes org data (v2.1.0+).
+        // Old backups (v1.x, v2.0.0) don't have organizations — for backwards compat
+        // we strip organizationId from CRM records so FK constraints don't fail.
+        // Server startup will re-create the default org and backfill all records.
+        const hasOrgData = base.manifest ? true : (base.snapshot!.data.organizations || []).length > 0;
+        if (!hasOrgData) {
+          console.log("[Backup] No org data in backup (pre-v2.1.0 format) — server startup will recreate default org");
         }
 
-        // Restore LG audit events (depend on users and runs)
-        try {
-          await this.batchInsert(tx, schema.lgAuditEvents, backupData.data.lgAuditEvents || [], "LG audit events");
-          recordsRestored += (backupData.data.lgAuditEvents || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore LG audit events: ${error instanceof Error ? error.message : String(error)}`);
-        }
+        const deferred: { key: string; column: string; id: string; value: unknown }[] = [];
+        for (const spec of BACKUP_TABLES) {
+          try {
+            const deferredColumns = DEFERRED_COLUMNS.filter(d => d.key === spec.key);
+            for await (const rows of rowsOf(spec.key)) {
+              const records = this.prepareForRestore(spec, rows, hasOrgData).map(record => {
+                if (deferredColumns.length === 0) return record;
+                const copy = { ...record };
+                for (const { column } of deferredColumns) {
+                  if (copy[column] == null) continue;
+                  deferred.push({ key: spec.key, column, id: copy.id, value: copy[column] });
+                  copy[column] = null;
+                }
+                return copy;
+              });
+              await this.batchInsert(tx, tableFor(spec.key), records, spec.label);
+              recordsRestored += records.length;
+
+              for (const row of rows) {
+                const projected = projectForConsistency(spec.key, row);
+                if (projected) (restored[spec.key] ??= []).push(projected);
+              }
+            }
 
-        // Restore research documents (depend on users; may reference runs)
-        try {
-          await this.batchInsert(tx, schema.researchDocuments, backupData.data.researchDocuments || [], "research documents");
-          recordsRestored += (backupData.data.researchDocuments || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore research documents: ${error instanceof Error ? error.message : String(error)}`);
-        }
+            // Links held back until the rows they point at exist
+            for (const { key, column } of DEFERRED_COLUMNS.filter(d => d.after === spec.key)) {
+              const table = tableFor(key) as any;
+              for (const update of deferred.filter(d => d.key === key && d.column === column)) {
+                await tx.update(table).set({ [column]: update.value }).where(eq(table.id, update.id));
+              }
+            }
 
-        // Restore CRM document attachment metadata (depend on users and CRM entities)
-        // Binary files are restored from the ZIP after this transaction completes.
-        try {
-          await this.batchInsert(tx, schema.crmDocuments, backupData.data.crmDocuments || [], "CRM document metadata");
-          recordsRestored += (backupData.data.crmDocuments || []).length;
-        } catch (error) {
-          throw new Error(`Failed to restore CRM document metadata: ${error instanceof Error ? error.message : String(error)}`);
+            if (spec.key === "opportunityStageHistory") {
+              // Record a "restore" entry wherever the restored opportunity differs from its
+              // latest history row — including backups taken before stage history existed.
+              const baselines = await recordRestoredOpportunityBaselines(tx);
+              if (baselines > 0) {
+                console.log(`[Backup] Recorded ${baselines} restore baseline(s) in opportunity stage history`);
+              }
+            }
+          } catch (error) {
+            throw new Error(`Failed to restore ${spec.label}: ${error instanceof Error ? error.message : String(error)}`);
+          }
         }
       });
 
-      // Restore document files from ZIP (after DB transaction so it's only run on success)
-      if (documentsFromZip.length > 0) {
-        fs.mkdirSync(DOCUMENT_UPLOAD_DIR, { recursive: true });
-        let filesWritten = 0;
-        for (const { filename, data } of documentsFromZip) {
-          if (data) {
-            const destPath = path.join(DOCUMENT_UPLOAD_DIR, filename);
-            fs.writeFileSync(destPath, data);
-            filesWritten++;
-          }
-        }
+      // Restore document files (after DB transaction so it's only run on success)
+      let filesWritten = 0;
+      await this.forEachDocumentFile(latest, cipherKey, (filename, data) => {
+        if (filesWritten === 0) fs.mkdirSync(DOCUMENT_UPLOAD_DIR, { recursive: true });
+        fs.writeFileSync(path.join(DOCUMENT_UPLOAD_DIR, filename), data);
+        filesWritten++;
+      }, chainBase);
+      if (filesWritten > 0) {
         console.log(`[Backup] Restored ${filesWritten} document file(s) to ${DOCUMENT_UPLOAD_DIR}`);
       }
 
+      const filesOnDisk = fs.existsSync(DOCUMENT_UPLOAD_DIR) ? fs.readdirSync(DOCUMENT_UPLOAD_DIR) : [];
+      const consistency = checkBackupConsistency(restored, new Set(filesOnDisk));
+      if (consistency.issues.length > 0) {
+        console.warn(`[Backup] Consistency check after restore: ${consistency.orphanedMetadata} orphaned metadata row(s), ${consistency.missingFiles} missing file(s), ${consistency.danglingReferences} dangling reference(s)`);
+      }
+
       return {
         success: true,
         recordsRestored,
         errors,
+        consistency,
       };
     } catch (error) {
       errors.push(error instanceof Error ? error.message : "Unknown error");
@@ -1069,12 +1036,39 @@ export class BackupService {
     }
   }
 
+  /** Per-table fix-ups applied to backup rows before they are inserted. */
+  private prepareForRestore(spec: BackupTableSpec, records: any[], hasOrgData: boolean): any[] {
+    let prepared = records;
+    if (spec.legacyOrgId && !hasOrgData) {
+      prepared = prepared.map((r: any) => {
+        const copy = { ...r };
+        delete copy.organizationId;
+        return copy;
+      });
+    }
+    if (spec.key === "activities") {
+      return prepared.map((activity: any) => ({
+        ...activity,
+        status: activity.status || "pending",
+        priority: activity.priority || "medium",
+      }));
+    }
+    return prepared;
+  }
+
+  /** Derives the 32-byte AES key from the passphrase (once per backup; scrypt is slow). */
+  private deriveKey(key: string): Buffer {
+    return crypto.scryptSync(key, "salt", 32);
+  }
+
   /**
    * Encrypts data using AES-256-GCM
    */
   private encrypt(buffer: Buffer, key: string): Buffer {
-    // Derive 32-byte key from passphrase
-    const cryptoKey = crypto.scryptSync(key, "salt", 32);
+    return this.encryptWithKey(buffer, this.deriveKey(key));
+  }
+
+  private encryptWithKey(buffer: Buffer, cryptoKey: Buffer): Buffer {
     const iv = crypto.randomBytes(16);
     const cipher = crypto.createCipheriv(this.ENCRYPTION_ALGORITHM, cryptoKey, iv);
 
@@ -1089,9 +1083,10 @@ export class BackupService {
    * Decrypts data using AES-256-GCM
    */
   private decrypt(buffer: Buffer, key: string): Buffer {
-    // Derive 32-byte key from passphrase
-    const cryptoKey = crypto.scryptSync(key, "salt", 32);
+    return this.decryptWithKey(buffer, this.deriveKey(key));
+  }
 
+  private decryptWithKey(buffer: Buffer, cryptoKey: Buffer): Buffer {
     // Extract iv, authTag, and encrypted data
     const iv = buffer.subarray(0, 16);
     const authTag = buffer.subarray(16, 32);
@@ -0,0 +1,119 @@
+// Calendar routes: the signed-in user's ICS feed token, the public
+// token-protected feed itself and .ics uploads that become meeting activities.
+// Feed tokens are per organization (X-Organization-Id at creation time).
+
+import type { Express, Request } from "express";
+import multer from "multer";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requirePermission } from "./rbac";
+import { crudRateLimiter, readRateLimiter, sensitiveRateLimiter } from "./rate-limiters";
+import { getAppBaseUrl } from "./email-service";
+import {
+  buildCalendarFeed,
+  getCalendarFeedTokenInfo,
+  importIcsActivities,
+  revokeCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from "./calendar-service";
+import { IcsParseError } from "./lib/ical";
+
+const icsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5 MB
+});
+
+function baseUrl(req: Request): string {
+  return getAppBaseUrl() || `${req.protocol}://${req.get("host")}`;
+}
+
+function feedUrl(req: Request, token: string): string {
+  return `${baseUrl(req)}/api/calendar/feed/${token}.ics`;
+}
+
+export function registerCalendarRoutes(app: Express) {
+  // GET /api/calendar/feed-token — whether the user has a feed for the active organization
+  app.get("/api/calendar/feed-token", authenticate, requirePermission("Activity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const info = await getCalendarFeedTokenInfo(req.user!.id, req.activeOrgId!);
+      return res.json({ exists: !!info, createdAt: info?.createdAt ?? null, lastAccessedAt: info?.lastAccessedAt ?? null });
+    } catch (error) {
+      console.error("Error fetching calendar feed token:", error);
+      return res.status(500).json({ error: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // POST /api/calendar/feed-token — create or rotate; the URL is only returned here
+  app.post("/api/calendar/feed-token", authenticate, requirePermission("Activity", "read"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const token = await rotateCalendarFeedToken(req.user!.id, req.activeOrgId!);
+      return res.json({ url: feedUrl(req, token) });
+    } catch (error) {
+      console.error("Error creating calendar feed token:", error);
+      return res.status(500).json({ error: "Failed to create calendar feed" });
+    }
+  });
+
+  // DELETE /api/calendar/feed-token — stop publishing the feed
+  app.delete("/api/calendar/feed-token", authenticate, requirePermission("Activity", "read"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await revokeCalendarFeedToken(req.user!.id, req.activeOrgId!);
+      return res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking calendar feed token:", error);
+      return res.status(500).json({ error: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // GET /api/calendar/feed/:token.ics — public; calendar clients can't send
+  // credentials, so the unguessable token is the only authentication
+  app.get("/api/calendar/feed/:token.ics", readRateLimiter, async (req, res) => {
+    try {
+      const ics = await buildCalendarFeed(req.params.token, baseUrl(req));
+      if (!ics) {
+        return res.status(404).json({ error: "Calendar feed not found" });
+      }
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="crm-activities.ics"');
+      res.setHeader("Cache-Control", "private, max-age=300");
+      return res.send(ics);
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      return res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  // POST /api/import/ics — multipart "file"; events become meeting activities
+  // owned by the uploader and linked to contacts matched by attendee email
+  app.post("/api/import/ics", authenticate, requirePermission("Activity", "create"), crudRateLimiter, icsUpload.single("file"), async (req: AuthRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+      const result = await importIcsActivities(req.file.buffer.toString("utf-8"), req.activeOrgId!, req.user!.id);
+
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: "ics_import",
+          resource: "Activity",
+          resourceId: null,
+          before: null,
+          after: { file: req.file.originalname, created: result.created, skipped: result.skipped, failed: result.failed, activityIds: result.activities.map(a => a.id) },
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof IcsParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error importing calendar file:", error);
+      return res.status(500).json({ error: "Failed to import calendar file" });
+    }
+  });
+}
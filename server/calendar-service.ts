@@ -0,0 +1,267 @@
+// Calendar integration for activities
+// Each user can create a secret ICS subscription URL (per organization) that
+// lists their pending calls, meetings and tasks, so they show up in Outlook or
+// any other calendar client. Uploaded .ics files (meeting invites, calendar
+// exports) are imported as meeting activities linked to the contacts whose
+// email addresses appear as attendees.
+
+import crypto from "crypto";
+import { db, storage, eq, and, asc, gte, inArray, sql } from "./db";
+import { isNotNull } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { Activity } from "@shared/schema";
+import { buildIcsCalendar, parseIcsEvents, type IcsEvent } from "./lib/ical";
+
+const FEED_ACTIVITY_TYPES: Activity["type"][] = ["call", "meeting", "task"];
+const FEED_LIMIT = 1000;
+// Overdue activities stay in the feed for a while so they remain visible
+const FEED_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const EVENT_MINUTES: Partial<Record<Activity["type"], number>> = { call: 30, meeting: 60, task: 30 };
+const TYPE_LABELS: Record<Activity["type"], string> = { call: "Call", email: "Email", meeting: "Meeting", task: "Task", note: "Note" };
+const DEFAULT_IMPORT_MINUTES = 60;
+export const MAX_IMPORT_EVENTS = 500;
+
+function hashFeedToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/** Create (or replace) the user's feed token for an organization. Returns the raw token. */
+export async function rotateCalendarFeedToken(userId: string, organizationId: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await db.transaction(async (tx) => {
+    await tx.delete(schema.calendarFeedTokens).where(and(
+      eq(schema.calendarFeedTokens.userId, userId),
+      eq(schema.calendarFeedTokens.organizationId, organizationId),
+    ));
+    await tx.insert(schema.calendarFeedTokens).values({ userId, organizationId, tokenHash: hashFeedToken(token) });
+  });
+  return token;
+}
+
+export async function getCalendarFeedTokenInfo(userId: string, organizationId: string) {
+  const [row] = await db.select({
+    createdAt: schema.calendarFeedTokens.createdAt,
+    lastAccessedAt: schema.calendarFeedTokens.lastAccessedAt,
+  })
+    .from(schema.calendarFeedTokens)
+    .where(and(eq(schema.calendarFeedTokens.userId, userId), eq(schema.calendarFeedTokens.organizationId, organizationId)));
+  return row ?? null;
+}
+
+export async function revokeCalendarFeedToken(userId: string, organizationId: string): Promise<boolean> {
+  const deleted = await db.delete(schema.calendarFeedTokens)
+    .where(and(eq(schema.calendarFeedTokens.userId, userId), eq(schema.calendarFeedTokens.organizationId, organizationId)))
+    .returning({ id: schema.calendarFeedTokens.id });
+  return deleted.length > 0;
+}
+
+/** Account and opportunity names linked to each activity (associations and the legacy related record). */
+async function linkedRecordNames(activities: Activity[]): Promise<Map<string, string[]>> {
+  const links = new Map<string, Array<{ entityType: string; entityId: string }>>();
+  for (const activity of activities) {
+    links.set(activity.id, activity.relatedType && activity.relatedId
+      ? [{ entityType: activity.relatedType, entityId: activity.relatedId }]
+      : []);
+  }
+  if (activities.length > 0) {
+    const associations = await db.select({
+      activityId: schema.activityAssociations.activityId,
+      entityType: schema.activityAssociations.entityType,
+      entityId: schema.activityAssociations.entityId,
+    })
+      .from(schema.activityAssociations)
+      .where(inArray(schema.activityAssociations.activityId, activities.map(a => a.id)));
+    for (const association of associations) links.get(association.activityId)?.push(association);
+  }
+
+  const all = Array.from(links.values()).flat();
+  const accountIds = Array.from(new Set(all.filter(l => l.entityType === "Account").map(l => l.entityId)));
+  const opportunityIds = Array.from(new Set(all.filter(l => l.entityType === "Opportunity").map(l => l.entityId)));
+  const [accounts, opportunities] = await Promise.all([
+    accountIds.length
+      ? db.select({ id: schema.accounts.id, name: schema.accounts.name }).from(schema.accounts).where(inArray(schema.accounts.id, accountIds))
+      : Promise.resolve([]),
+    opportunityIds.length
+      ? db.select({ id: schema.opportunities.id, name: schema.opportunities.name }).from(schema.opportunities).where(inArray(schema.opportunities.id, opportunityIds))
+      : Promise.resolve([]),
+  ]);
+  const names = new Map<string, string>();
+  for (const a of accounts) names.set(`Account:${a.id}`, `Account: ${a.name}`);
+  for (const o of opportunities) names.set(`Opportunity:${o.id}`, `Opportunity: ${o.name}`);
+
+  const result = new Map<string, string[]>();
+  links.forEach((activityLinks, activityId) => {
+    const labels = activityLinks
+      .map(l => names.get(`${l.entityType}:${l.entityId}`))
+      .filter((label): label is string => !!label);
+    result.set(activityId, Array.from(new Set(labels)));
+  });
+  return result;
+}
+
+/**
+ * Render the ICS feed for a token, or null if the token is unknown or its
+ * user is no longer an active member of the organization.
+ */
+export async function buildCalendarFeed(token: string, appUrl: string, now = new Date()): Promise<string | null> {
+  const [owner] = await db.select({
+    tokenId: schema.calendarFeedTokens.id,
+    userId: schema.calendarFeedTokens.userId,
+    organizationId: schema.calendarFeedTokens.organizationId,
+    userName: schema.users.name,
+  })
+    .from(schema.calendarFeedTokens)
+    .innerJoin(schema.users, eq(schema.users.id, schema.calendarFeedTokens.userId))
+    .innerJoin(schema.userOrganizations, and(
+      eq(schema.userOrganizations.userId, schema.calendarFeedTokens.userId),
+      eq(schema.userOrganizations.organizationId, schema.calendarFeedTokens.organizationId),
+    ))
+    .where(and(eq(schema.calendarFeedTokens.tokenHash, hashFeedToken(token)), eq(schema.users.status, "active")));
+  if (!owner) return null;
+
+  const a = schema.activities;
+  const activities = await db.select().from(a)
+    .where(and(
+      eq(a.ownerId, owner.userId),
+      eq(a.organizationId, owner.organizationId),
+      eq(a.status, "pending"),
+      inArray(a.type, FEED_ACTIVITY_TYPES),
+      isNotNull(a.dueAt),
+      gte(a.dueAt, new Date(now.getTime() - FEED_LOOKBACK_MS)),
+    ))
+    .orderBy(asc(a.dueAt))
+    .limit(FEED_LIMIT);
+  const linked = await linkedRecordNames(activities);
+
+  const events: IcsEvent[] = activities.map(activity => {
+    const start = activity.dueAt!;
+    const related = linked.get(activity.id) ?? [];
+    return {
+      uid: `${activity.id}@healthtrixss-crm`,
+      start,
+      end: new Date(start.getTime() + (EVENT_MINUTES[activity.type] ?? 30) * 60_000),
+      summary: `${TYPE_LABELS[activity.type]}: ${activity.subject}`,
+      description: [related.join("\n"), activity.notes].filter(Boolean).join("\n\n") || null,
+      url: appUrl ? `${appUrl}/activities/${activity.id}` : null,
+      categories: [TYPE_LABELS[activity.type]],
+      lastModified: activity.updatedAt,
+    };
+  });
+
+  await db.update(schema.calendarFeedTokens).set({ lastAccessedAt: now }).where(eq(schema.calendarFeedTokens.id, owner.tokenId));
+  return buildIcsCalendar(`${owner.userName} — CRM activities`, events, now);
+}
+
+export interface IcsImportResult {
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  linkedContacts: number;
+  activities: Array<{ id: string; subject: string; contacts: number }>;
+  errors: Array<{ event: number; error: string }>;
+  warnings: string[];
+}
+
+/**
+ * Import the events of an .ics file as meeting activities owned by `ownerId`.
+ * Events are keyed by UID (externalId "ics:<uid>"), so importing the same file
+ * twice doesn't duplicate them. Past events are recorded as completed.
+ */
+export async function importIcsActivities(
+  text: string,
+  organizationId: string,
+  ownerId: string,
+  now = new Date(),
+): Promise<IcsImportResult> {
+  const events = parseIcsEvents(text);
+  const result: IcsImportResult = {
+    total: events.length,
+    created: 0,
+    skipped: 0,
+    failed: 0,
+    linkedContacts: 0,
+    activities: [],
+    errors: [],
+    warnings: [],
+  };
+  if (events.length > MAX_IMPORT_EVENTS) {
+    result.warnings.push(`Only the first ${MAX_IMPORT_EVENTS} of ${events.length} events were imported`);
+  }
+  const unknownZones = new Set(events.flatMap(e => e.unknownTimeZones));
+  if (unknownZones.size > 0) {
+    result.warnings.push(`Unrecognized time zone(s) read as UTC: ${Array.from(unknownZones).join(", ")}`);
+  }
+
+  // Resolve every attendee address to contacts in one query
+  const emails = Array.from(new Set(events.flatMap(e => [...e.attendees, ...(e.organizer ? [e.organizer] : [])].map(p => p.email))));
+  const contactsByEmail = new Map<string, string[]>();
+  if (emails.length > 0) {
+    const c = schema.contacts;
+    const rows = await db.select({ id: c.id, email: sql<string>`lower(btrim(${c.email}))` }).from(c)
+      .where(and(eq(c.organizationId, organizationId), inArray(sql`lower(btrim(${c.email}))`, emails)));
+    for (const row of rows) contactsByEmail.set(row.email, [...(contactsByEmail.get(row.email) ?? []), row.id]);
+  }
+
+  for (const [index, event] of events.slice(0, MAX_IMPORT_EVENTS).entries()) {
+    if (event.status === "CANCELLED") {
+      result.skipped++;
+      continue;
+    }
+    if (!event.start) {
+      result.failed++;
+      result.errors.push({ event: index + 1, error: "Event has no valid start time" });
+      continue;
+    }
+    try {
+      const participants = [...event.attendees, ...(event.organizer ? [event.organizer] : [])];
+      const contactIds = Array.from(new Set(participants.flatMap(p => contactsByEmail.get(p.email) ?? [])));
+      const end = event.end && event.end > event.start ? event.end : new Date(event.start.getTime() + DEFAULT_IMPORT_MINUTES * 60_000);
+      const past = end < now;
+      const notes = [
+        event.description,
+        event.location ? `Location: ${event.location}` : null,
+        participants.length ? `Attendees: ${participants.map(p => (p.name ? `${p.name} <${p.email}>` : p.email)).join(", ")}` : null,
+      ].filter(Boolean).join("\n\n") || null;
+
+      const activityData = {
+        organizationId,
+        type: "meeting" as const,
+        subject: (event.summary ?? "Meeting").slice(0, 500),
+        status: past ? "completed" as const : "pending" as const,
+        priority: "medium" as const,
+        dueAt: event.start.toISOString(),
+        completedAt: past ? end.toISOString() : null,
+        ownerId,
+        notes,
+        relatedType: contactIds.length ? "Contact" : null,
+        relatedId: contactIds[0] ?? null,
+      };
+
+      let activity: Activity;
+      if (event.uid) {
+        const outcome = await storage.findOrCreateActivityByExternalId(`ics:${event.uid}`, organizationId, activityData);
+        if (!outcome.created) {
+          result.skipped++;
+          continue;
+        }
+        activity = outcome.activity;
+      } else {
+        activity = await storage.createActivity(activityData);
+      }
+
+      if (contactIds.length > 0) {
+        await db.insert(schema.activityAssociations)
+          .values(contactIds.map(entityId => ({ activityId: activity.id, entityType: "Contact", entityId })))
+          .onConflictDoNothing();
+      }
+      result.created++;
+      result.linkedContacts += contactIds.length;
+      result.activities.push({ id: activity.id, subject: activity.subject, contacts: contactIds.length });
+    } catch (error) {
+      result.failed++;
+      result.errors.push({ event: index + 1, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
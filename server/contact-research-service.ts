@@ -1,7 +1,12 @@
-import { db, eq, and, desc } from "./db";
-import * as schema from "@shared/schema";
-import { decryptApiKey, isEncryptedKey } from "./llm-key-utils";
-import { isAzureWebSearchConfigured, AzureWebSearchProvider } from "./lib/research/providers/AzureWebSearchProvider";
+import { extractLlmTokenUsage } from "./lib/llm-budget";
+import {
+  assertLlmBudgetAvailable,
+  recordLlmUsage,
+  resolveLlmApiKey,
+  resolveLlmConfiguration,
+  type LlmUsageContext,
+} from "./llm-config-service";
+import { resolveResearchProvider } from "./web-search-config-service";
 
 interface ResolvedLlmConfig {
   provider: string;
@@ -11,34 +16,15 @@ interface ResolvedLlmConfig {
   temperature: number;
   maxTokens: number;
   apiKey: string;
+  usage: LlmUsageContext;
 }
 
-export async function getLlmConfigForResearch(): Promise<ResolvedLlmConfig | null> {
-  const rows = await db.select().from(schema.llmConfigurations)
-    .orderBy(desc(schema.llmConfigurations.updatedAt))
-    .limit(1);
-
-  const cfg = rows[0];
+/** The organization's LLM configuration (or the default one); calls are charged to the requesting user. */
+export async function getLlmConfigForResearch(organizationId: string, userId: string): Promise<ResolvedLlmConfig | null> {
+  const cfg = await resolveLlmConfiguration(organizationId);
   if (!cfg) return null;
 
-  let apiKey: string | null = null;
-  if (cfg.encryptedApiKey) {
-    try {
-      apiKey = isEncryptedKey(cfg.encryptedApiKey)
-        ? decryptApiKey(cfg.encryptedApiKey)
-        : cfg.encryptedApiKey;
-    } catch {
-      // fall through to env vars
-    }
-  }
-
-  if (!apiKey) {
-    if (cfg.provider === "openai") apiKey = process.env.OPENAI_API_KEY || null;
-    else if (cfg.provider === "anthropic") apiKey = process.env.ANTHROPIC_API_KEY || null;
-    else if (cfg.provider === "google") apiKey = process.env.GOOGLE_API_KEY || null;
-    else if (cfg.provider === "azure") apiKey = process.env.AZURE_OPENAI_API_KEY || null;
-  }
-
+  const apiKey = resolveLlmApiKey(cfg);
   if (!apiKey) return null;
 
   return {
@@ -49,6 +35,7 @@ export async function getLlmConfigForResearch(): Promise<ResolvedLlmConfig | nul
     temperature: parseFloat(String(cfg.temperature ?? "0.3")),
     maxTokens: Math.min(cfg.maxTokens ?? 2048, 2048),
     apiKey,
+    usage: { organizationId, source: "contact_research", userId },
   };
 }
 
@@ -58,6 +45,7 @@ export async function callLlmForResearch(
   userPrompt: string,
 ): Promise<string> {
   const { apiKey, temperature, maxTokens } = config;
+  await assertLlmBudgetAvailable(config.usage.organizationId);
 
   if (config.provider === "azure") {
     const rawBase = (config.baseUrl || "").replace(/\/+$/, "");
@@ -84,6 +72,7 @@ export async function callLlmForResearch(
       throw new Error(`Azure OpenAI error: ${response.status} - ${errorText.slice(0, 200)}`);
     }
     const data = await response.json() as { choices: Array<{ message: { content: string | null } }> };
+    await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
     return data.choices[0]?.message?.content || "";
   }
 
@@ -107,6 +96,7 @@ export async function callLlmForResearch(
       throw new Error(`OpenAI error: ${response.status} - ${errorText.slice(0, 200)}`);
     }
     const data = await response.json() as { choices: Array<{ message: { content: string } }> };
+    await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
     return data.choices[0]?.message?.content || "";
   }
 
@@ -127,6 +117,7 @@ export async function callLlmForResearch(
       throw new Error(`Anthropic error: ${response.status} - ${errorText.slice(0, 200)}`);
     }
     const data = await response.json() as { content: Array<{ type: string; text: string }> };
+    await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
     return data.content.find(c => c.type === "text")?.text || "";
   }
 
@@ -149,92 +140,28 @@ export async function callLlmForResearch(
       throw new Error(`Google AI error: ${response.status} - ${errorText.slice(0, 200)}`);
     }
     const data = await response.json() as { candidates: Array<{ content: { parts: Array<{ text: string }> } }> };
+    await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
     return data.candidates[0]?.content?.parts?.map(p => p.text).join("") || "";
   }
 
   throw new Error(`Unsupported LLM provider: ${config.provider}`);
 }
 
-export async function isWebSearchConfiguredForResearch(): Promise<boolean> {
-  if (isAzureWebSearchConfigured()) return true;
-  if (process.env.BRAVE_SEARCH_API_KEY) return true;
-  if (process.env.SERPER_API_KEY) return true;
-  if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_BASE_URL) return true;
-
-  // Also check if the DB-configured LLM is Azure (can be used as web search provider)
-  const llmConfig = await getLlmConfigForResearch();
-  if (llmConfig && llmConfig.provider === "azure" && llmConfig.baseUrl && llmConfig.apiKey) {
-    return true;
-  }
-
-  return false;
+export async function isWebSearchConfiguredForResearch(organizationId: string): Promise<boolean> {
+  return (await resolveResearchProvider(organizationId)).provider !== null;
 }
 
 export async function performWebSearchForResearch(
+  organizationId: string,
   query: string
 ): Promise<{ title: string; url: string; snippet: string }[]> {
-  if (isAzureWebSearchConfigured()) {
-    try {
-      const provider = new AzureWebSearchProvider();
-      const results = await provider.search(query);
-      return results.map(r => ({ title: r.title, url: r.url, snippet: r.snippet }));
-    } catch (err) {
-      console.warn("[ContactResearch] Azure web search failed:", err instanceof Error ? err.message : err);
-      return [];
-    }
+  const { provider } = await resolveResearchProvider(organizationId);
+  if (!provider) return [];
+  try {
+    const results = await provider.search(query);
+    return results.map(r => ({ title: r.title, url: r.url, snippet: r.snippet }));
+  } catch (err) {
+    console.warn(`[ContactResearch] ${provider.mode} web search failed:`, err instanceof Error ? err.message : err);
+    return [];
   }
-
-  if (process.env.BRAVE_SEARCH_API_KEY) {
-    try {
-      const response = await fetch(
-        `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=5`,
-        { headers: { "Accept": "application/json", "X-Subscription-Token": process.env.BRAVE_SEARCH_API_KEY } }
-      );
-      if (response.ok) {
-        const data = await response.json() as { web?: { results?: Array<{ title: string; url: string; description: string }> } };
-        return (data.web?.results || []).map(r => ({ title: r.title, url: r.url, snippet: r.description }));
-      }
-    } catch (err) {
-      console.warn("[ContactResearch] Brave search failed:", err);
-    }
-  }
-
-  if (process.env.SERPER_API_KEY) {
-    try {
-      const response = await fetch("https://google.serper.dev/search", {
-        method: "POST",
-        headers: { "Content-Type": "application/json", "X-API-KEY": process.env.SERPER_API_KEY },
-        body: JSON.stringify({ q: query, num: 5 }),
-      });
-      if (response.ok) {
-        const data = await response.json() as { organic?: Array<{ title: string; link: string; snippet: string }> };
-        return (data.organic || []).map(r => ({ title: r.title, url: r.link, snippet: r.snippet }));
-      }
-    } catch (err) {
-      console.warn("[ContactResearch] Serper search failed:", err);
-    }
-  }
-
-  const llmRows = await db.select().from(schema.llmConfigurations).orderBy(desc(schema.llmConfigurations.updatedAt)).limit(1);
-  const llmCfg = llmRows[0];
-  if (llmCfg?.provider === "azure" && llmCfg.baseUrl) {
-    let apiKey: string | null = null;
-    if (llmCfg.encryptedApiKey) {
-      try {
-        apiKey = isEncryptedKey(llmCfg.encryptedApiKey) ? decryptApiKey(llmCfg.encryptedApiKey) : llmCfg.encryptedApiKey;
-      } catch { /* ignore */ }
-    }
-    if (!apiKey) apiKey = process.env.AZURE_OPENAI_API_KEY || null;
-    if (apiKey) {
-      try {
-        const provider = new AzureWebSearchProvider({ apiKey, baseUrl: llmCfg.baseUrl, model: llmCfg.modelName });
-        const results = await provider.search(query);
-        return results.map(r => ({ title: r.title, url: r.url, snippet: r.snippet }));
-      } catch (err) {
-        console.warn("[ContactResearch] Fallback Azure search failed:", err instanceof Error ? err.message : err);
-      }
-    }
-  }
-
-  return [];
 }
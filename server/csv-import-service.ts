@@ -0,0 +1,656 @@
+// CSV import runner behind the /api/import/<entity> routes: column mapping,
+// insert/update/upsert modes, record matching and dry-run previews, plus the
+// saved mapping templates used by the import page.
+// Routes stay in routes.ts (they share its createAudit); each entity's row
+// shape and defaults live in IMPORT_HANDLERS below.
+
+import { and, asc, eq, sql } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+import { parse } from "csv-parse/sync";
+import { z } from "zod";
+import { db, storage } from "./db";
+import { hasPermission } from "./rbac";
+import { resolveCustomFieldsForWrite } from "./custom-field-service";
+import { createRoutedLead } from "./lead-assignment-service";
+import { getSalesProcess, resolveNewOpportunityStage } from "./sales-process-service";
+import {
+  CSV_IMPORT_ENTITY_MATCH_FIELDS,
+  accounts,
+  activities,
+  contacts,
+  importMappingTemplates,
+  insertAccountSchema,
+  insertContactSchema,
+  insertOpportunitySchema,
+  leads,
+  opportunities,
+  type CsvImportEntity,
+  type CsvImportMatchField,
+  type CustomFieldEntityType,
+  type CustomFieldValues,
+  type ImportMappingTemplate,
+  type InsertImportMappingTemplate,
+  type UpdateImportMappingTemplate,
+} from "@shared/schema";
+import {
+  accountCsvRowSchema,
+  activityCsvRowSchema,
+  contactCsvRowSchema,
+  customFieldCsvCellsSchema,
+  leadCsvRowSchema,
+  opportunityCsvRowSchema,
+} from "./csv-schemas";
+import {
+  applyColumnMapping,
+  compactImportPatch,
+  csvImportOptionsSchema,
+  diffImportRecord,
+  importedOpportunityStage,
+  resolveImportAction,
+  type CsvImportOptions,
+  type ImportFieldChange,
+} from "./lib/csv-import";
+
+export class CsvImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "CsvImportError";
+  }
+}
+
+export type CsvImportRowAction = "create" | "update" | "unchanged" | "skip" | "error";
+
+export interface CsvImportRowResult {
+  row: number;
+  action: CsvImportRowAction;
+  id: string | null;
+  matchedBy?: CsvImportMatchField;
+  changes?: ImportFieldChange[];
+  error?: string;
+}
+
+export interface CsvImportResult {
+  mode: CsvImportOptions["mode"];
+  dryRun: boolean;
+  total: number;
+  success: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{ row: number; error: string; data: any }>;
+  // Per-row outcome and diff; dry runs only
+  rows?: CsvImportRowResult[];
+}
+
+export interface CsvImportContext {
+  orgId: string;
+  userId: string;
+  // Stamped on created records so the job can be rolled back
+  importJobId?: string;
+  audit: (action: "import" | "import_update", resource: string, resourceId: string, before: unknown, after: unknown) => Promise<void>;
+}
+
+type ImportRecord = Record<string, unknown> & { id: string; organizationId?: string | null; customFields?: unknown };
+
+interface ImportHandler {
+  resource: "Account" | "Contact" | "Lead" | "Opportunity" | "Activity";
+  customFieldEntity: CustomFieldEntityType;
+  rowSchema: z.AnyZodObject;
+  table: PgTable;
+  columns: { id: AnyPgColumn; organizationId: AnyPgColumn } & Partial<Record<CsvImportMatchField, AnyPgColumn>>;
+  /** Full record for a new row (the row passed the complete row schema). */
+  buildCreate(row: any, id: string): Record<string, unknown>;
+  /** Only what the row provides, for updates; blank cells are dropped afterwards. */
+  buildPatch(row: any): Record<string, unknown>;
+  /** Fields that depend on the organization's settings; throws for values it doesn't allow. */
+  resolveOrgFields?(row: any, orgId: string, creating: boolean): Promise<Record<string, unknown>>;
+  /** Validate a create payload; returns what is stored. */
+  validate?(data: Record<string, unknown>): Record<string, unknown>;
+  /** Referential checks shared by creates and updates. */
+  checkReferences?(data: Record<string, unknown>): Promise<void>;
+  create(data: any): Promise<ImportRecord>;
+  update(id: string, patch: any): Promise<ImportRecord>;
+}
+
+// ---------- Row conversions ----------
+
+const VALID_LEAD_STATUSES = ["new", "contacted", "qualified", "unqualified", "converted"];
+const VALID_LEAD_SOURCES = ["website", "referral", "phone", "email", "event", "partner", "lead_generation", "other"];
+
+function leadEnumValue(value: string | null | undefined, valid: string[], label: string): string | undefined {
+  if (!value) return undefined;
+  if (!valid.includes(value.toLowerCase())) {
+    throw new Error(`Invalid ${label}: "${value}". Expected one of: ${valid.join(", ")}. Note: values must be lowercase.`);
+  }
+  return value.toLowerCase();
+}
+
+function parseDate(dateStr: string | null | undefined): Date | null {
+  if (!dateStr || dateStr.trim() === "") return null;
+  const parsed = new Date(dateStr);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Dynamics activity exports use "M/D/YY H:MM" (e.g. "8/12/24 11:33")
+function parseDynamicsDate(dateStr: string | null | undefined): Date | null {
+  if (!dateStr || dateStr.trim() === "") return null;
+
+  const parts = dateStr.trim().split(" ");
+  if (parts.length !== 2) return null;
+
+  const [datePart, timePart] = parts;
+  const [month, day, year] = datePart.split("/").map(Number);
+  const [hour, minute] = timePart.split(":").map(Number);
+
+  // Convert 2-digit year to 4-digit (assuming 20xx)
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day, hour, minute, 0);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function importMetadata(row: any) {
+  return {
+    externalId: row.externalId,
+    sourceSystem: row.sourceSystem,
+    sourceRecordId: row.sourceRecordId,
+    importStatus: row.importStatus,
+    importNotes: row.importNotes,
+  };
+}
+
+const IMPORT_HANDLERS: Record<CsvImportEntity, ImportHandler> = {
+  accounts: {
+    resource: "Account",
+    customFieldEntity: "account",
+    rowSchema: accountCsvRowSchema,
+    table: accounts,
+    columns: { id: accounts.id, organizationId: accounts.organizationId, externalId: accounts.externalId, name: accounts.name },
+    buildCreate: (row, id) => ({
+      id,
+      name: row.name,
+      accountNumber: row.accountNumber || "",
+      type: row.type || null,
+      category: row.category || "",
+      industry: row.industry || "",
+      website: row.website || "",
+      phone: row.phone || "",
+      billingAddress: row.billingAddress || "",
+      shippingAddress: row.shippingAddress || "",
+      externalId: row.externalId || "",
+      sourceSystem: row.sourceSystem || "",
+      sourceRecordId: row.sourceRecordId || "",
+      importStatus: row.importStatus || "",
+      importNotes: row.importNotes || "",
+    }),
+    buildPatch: row => ({
+      name: row.name,
+      accountNumber: row.accountNumber,
+      type: row.type,
+      category: row.category,
+      industry: row.industry,
+      website: row.website,
+      phone: row.phone,
+      billingAddress: row.billingAddress,
+      shippingAddress: row.shippingAddress,
+      ...importMetadata(row),
+    }),
+    validate: data => insertAccountSchema.parse(data),
+    create: data => storage.createAccount(data),
+    update: (id, patch) => storage.updateAccount(id, patch),
+  },
+
+  contacts: {
+    resource: "Contact",
+    customFieldEntity: "contact",
+    rowSchema: contactCsvRowSchema,
+    table: contacts,
+    columns: { id: contacts.id, organizationId: contacts.organizationId, externalId: contacts.externalId, email: contacts.email },
+    buildCreate: (row, id) => ({
+      id,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      email: row.email,
+      phone: row.phone,
+      title: row.title,
+      accountId: row.accountId,
+      ...importMetadata(row),
+    }),
+    buildPatch: row => ({
+      firstName: row.firstName,
+      lastName: row.lastName,
+      email: row.email,
+      phone: row.phone,
+      title: row.title,
+      accountId: row.accountId,
+      ...importMetadata(row),
+    }),
+    validate: data => insertContactSchema.parse(data),
+    checkReferences: async data => {
+      if (data.accountId && !await storage.getAccountById(String(data.accountId))) {
+        throw new Error(`Account ID '${data.accountId}' does not exist. Please import accounts first or use a valid Account ID.`);
+      }
+    },
+    create: data => storage.createContact(data),
+    update: (id, patch) => storage.updateContact(id, patch),
+  },
+
+  leads: {
+    resource: "Lead",
+    customFieldEntity: "lead",
+    rowSchema: leadCsvRowSchema,
+    table: leads,
+    columns: { id: leads.id, organizationId: leads.organizationId, externalId: leads.externalId, email: leads.email },
+    buildCreate: (row, id) => ({
+      id,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      company: row.company,
+      email: row.email,
+      phone: row.phone,
+      topic: row.topic,
+      state: row.state,
+      country: row.country,
+      status: leadEnumValue(row.status, VALID_LEAD_STATUSES, "status") || "new",
+      source: leadEnumValue(row.source, VALID_LEAD_SOURCES, "source") || "other",
+      ...importMetadata(row),
+    }),
+    buildPatch: row => ({
+      firstName: row.firstName,
+      lastName: row.lastName,
+      company: row.company,
+      email: row.email,
+      phone: row.phone,
+      topic: row.topic,
+      state: row.state,
+      country: row.country,
+      status: leadEnumValue(row.status, VALID_LEAD_STATUSES, "status"),
+      source: leadEnumValue(row.source, VALID_LEAD_SOURCES, "source"),
+      ...importMetadata(row),
+    }),
+    // Assignment rules pick the owner; the importing user keeps leads no rule matches
+    create: data => createRoutedLead({ ...data, ownerId: null }, "import", data.ownerId, data.ownerId),
+    update: (id, patch) => storage.updateLead(id, patch),
+  },
+
+  opportunities: {
+    resource: "Opportunity",
+    customFieldEntity: "opportunity",
+    rowSchema: opportunityCsvRowSchema,
+    table: opportunities,
+    columns: { id: opportunities.id, organizationId: opportunities.organizationId, externalId: opportunities.externalId, name: opportunities.name },
+    buildCreate: (row, id) => ({
+      id,
+      name: row.name,
+      accountId: row.accountId,
+      amount: row.amount ? String(row.amount) : "0",
+      probability: row.probability ? Number(row.probability) : 0,
+      closeDate: parseDate(row.closeDate),
+      status: row.status,
+      actualCloseDate: parseDate(row.actualCloseDate),
+      actualRevenue: row.actualRevenue ? String(row.actualRevenue) : null,
+      estCloseDate: parseDate(row.estCloseDate),
+      estRevenue: row.estRevenue ? String(row.estRevenue) : null,
+      rating: row.rating,
+      ...importMetadata(row),
+    }),
+    buildPatch: row => ({
+      name: row.name,
+      accountId: row.accountId,
+      amount: row.amount,
+      probability: row.probability ? Number(row.probability) : undefined,
+      closeDate: parseDate(row.closeDate),
+      status: row.status,
+      actualCloseDate: parseDate(row.actualCloseDate),
+      actualRevenue: row.actualRevenue,
+      estCloseDate: parseDate(row.estCloseDate),
+      estRevenue: row.estRevenue,
+      rating: row.rating,
+      ...importMetadata(row),
+    }),
+    // Stages come from the organization's sales process; new rows without one start in its first stage
+    resolveOrgFields: async (row, orgId, creating) => {
+      const stage = importedOpportunityStage(await getSalesProcess(orgId), row);
+      return { stage: stage ?? (creating ? await resolveNewOpportunityStage(orgId) : undefined) };
+    },
+    validate: data => insertOpportunitySchema.parse(data),
+    create: data => storage.createOpportunity(data),
+    update: (id, patch) => storage.updateOpportunity(id, patch),
+  },
+
+  activities: {
+    resource: "Activity",
+    customFieldEntity: "activity",
+    rowSchema: activityCsvRowSchema,
+    table: activities,
+    columns: { id: activities.id, organizationId: activities.organizationId, externalId: activities.externalId },
+    buildCreate: (row, id) => {
+      const completedAt = parseDynamicsDate(row.completedAt);
+      return {
+        id,
+        type: row.type || "task",
+        subject: row.subject,
+        status: "completed", // Imported activities are history
+        priority: "medium",
+        dueAt: completedAt,
+        completedAt,
+        relatedType: row.relatedType,
+        relatedId: row.relatedId,
+        notes: row.notes,
+        ...importMetadata(row),
+      };
+    },
+    buildPatch: row => {
+      const completedAt = parseDynamicsDate(row.completedAt);
+      return {
+        type: row.type,
+        subject: row.subject,
+        dueAt: completedAt,
+        completedAt,
+        relatedType: row.relatedType,
+        relatedId: row.relatedId,
+        notes: row.notes,
+        ...importMetadata(row),
+      };
+    },
+    // Activities skip the insert schema: it expects ISO strings, storage takes Dates
+    create: data => storage.createActivity(data),
+    update: (id, patch) => storage.updateActivity(id, patch),
+  },
+};
+
+// ---------- Matching ----------
+
+interface ImportMatch {
+  record: ImportRecord;
+  matchedBy: CsvImportMatchField;
+  // IDs are global: a matching id can belong to another organization
+  foreign: boolean;
+}
+
+async function findImportMatch(
+  entity: CsvImportEntity,
+  row: Record<string, unknown>,
+  matchOn: CsvImportMatchField | undefined,
+  orgId: string,
+): Promise<ImportMatch | undefined> {
+  const handler = IMPORT_HANDLERS[entity];
+  // Default matching is the original duplicate check: externalId, then id
+  const fields: CsvImportMatchField[] = matchOn ? [matchOn] : ["externalId", "id"];
+
+  for (const field of fields) {
+    const column = handler.columns[field];
+    const value = row[field];
+    if (!column || typeof value !== "string" || value.trim() === "") continue;
+
+    if (field === "id") {
+      const [record] = await db.select().from(handler.table).where(eq(column, value)).limit(1) as ImportRecord[];
+      if (record) return { record, matchedBy: field, foreign: record.organizationId !== orgId };
+      continue;
+    }
+
+    const condition = field === "externalId"
+      ? eq(column, value)
+      : sql`lower(btrim(${column})) = lower(${value.trim()})`;
+    const matches = await db.select().from(handler.table)
+      .where(and(condition, eq(handler.columns.organizationId, orgId)))
+      .limit(2) as ImportRecord[];
+    if (matches.length > 1) {
+      throw new Error(`More than one existing ${handler.resource.toLowerCase()} matches ${field} '${value}'`);
+    }
+    if (matches.length === 1) return { record: matches[0], matchedBy: field, foreign: false };
+  }
+  return undefined;
+}
+
+// ---------- Runner ----------
+
+export function parseCsvRecords(content: Buffer | string): Record<string, unknown>[] {
+  return parse(content.toString("utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as Record<string, unknown>[];
+}
+
+/** Validated options with any saved template merged into the mapping. */
+export interface PreparedCsvImport {
+  mode: CsvImportOptions["mode"];
+  matchOn?: CsvImportMatchField;
+  dryRun: boolean;
+  mapping?: Record<string, string>;
+}
+
+/**
+ * Validate import options for an entity and check the caller may use them.
+ * Throws CsvImportError (or ZodError for malformed options).
+ */
+export async function prepareCsvImport(entity: CsvImportEntity, rawOptions: unknown, ctx: { orgId: string; userId: string }): Promise<PreparedCsvImport> {
+  const handler = IMPORT_HANDLERS[entity];
+  const options = csvImportOptionsSchema.parse(rawOptions ?? {});
+
+  if (options.matchOn && !CSV_IMPORT_ENTITY_MATCH_FIELDS[entity].includes(options.matchOn)) {
+    throw new CsvImportError(`${handler.resource} imports can match on: ${CSV_IMPORT_ENTITY_MATCH_FIELDS[entity].join(", ")}`);
+  }
+  if (options.mode !== "insert" && !await hasPermission(ctx.userId, handler.resource, "update", ctx.orgId)) {
+    throw new CsvImportError(`You do not have permission to update ${handler.resource}`, 403);
+  }
+
+  let mapping = options.mapping;
+  if (options.templateId) {
+    const template = await getImportMappingTemplate(options.templateId, ctx.orgId);
+    if (!template || template.entity !== entity) {
+      throw new CsvImportError("Mapping template not found", 404);
+    }
+    mapping = { ...template.mapping, ...mapping };
+  }
+
+  return { mode: options.mode, matchOn: options.matchOn, dryRun: options.dryRun, mapping };
+}
+
+/**
+ * Import (or, for dry runs, evaluate) one CSV row. Never throws: row
+ * failures come back as an "error" outcome.
+ */
+export async function importCsvRow(
+  entity: CsvImportEntity,
+  record: Record<string, unknown>,
+  rowNumber: number,
+  prepared: PreparedCsvImport,
+  ctx: CsvImportContext,
+): Promise<CsvImportRowResult> {
+  const handler = IMPORT_HANDLERS[entity];
+  const rawRow = applyColumnMapping(record, prepared.mapping);
+
+  try {
+    const partialRow = handler.rowSchema.partial().parse(rawRow);
+    const match = await findImportMatch(entity, partialRow, prepared.matchOn, ctx.orgId);
+    const action = resolveImportAction(prepared.mode, !!match);
+    const customFieldCells = customFieldCsvCellsSchema.parse(rawRow);
+
+    if (action === "skip") {
+      return { row: rowNumber, action: "skip", id: match?.record.id ?? null, matchedBy: match?.matchedBy };
+    }
+
+    if (action === "create") {
+      const row = handler.rowSchema.parse(rawRow);
+      // Dry runs don't consume ID sequence numbers
+      const orgFields = await handler.resolveOrgFields?.(row, ctx.orgId, true) ?? {};
+      let id: string | null = row.id || (prepared.dryRun ? null : await storage.generateId(handler.resource, ctx.orgId));
+      const data: Record<string, unknown> = {
+        ...handler.buildCreate(row, id ?? ""),
+        ...orgFields,
+        ownerId: ctx.userId,
+        organizationId: ctx.orgId,
+        customFields: await resolveCustomFieldsForWrite(ctx.orgId, handler.customFieldEntity, customFieldCells),
+      };
+      await handler.checkReferences?.(data);
+      const validated = handler.validate ? handler.validate(data) : data;
+
+      if (!prepared.dryRun) {
+        // Stamped after validation: insert schemas don't accept importJobId from callers
+        const created = await handler.create({ ...validated, importJobId: ctx.importJobId ?? null });
+        id = created.id;
+        await ctx.audit("import", handler.resource, created.id, null, created);
+      }
+      return {
+        row: rowNumber,
+        action: "create",
+        id,
+        changes: diffImportRecord(null, compactImportPatch({ ...handler.buildPatch(row), ...orgFields, customFields: data.customFields })),
+      };
+    }
+
+    const existing = match!.record;
+    if (match!.foreign) {
+      throw new Error(`ID '${existing.id}' belongs to a record in another organization`);
+    }
+    const patch: Record<string, unknown> = compactImportPatch({
+      ...handler.buildPatch(partialRow),
+      ...await handler.resolveOrgFields?.(partialRow, ctx.orgId, false),
+    });
+    if (customFieldCells) {
+      patch.customFields = await resolveCustomFieldsForWrite(
+        ctx.orgId,
+        handler.customFieldEntity,
+        customFieldCells,
+        existing.customFields as CustomFieldValues | null,
+      );
+    }
+    const changes = diffImportRecord(existing, patch);
+    if (changes.length === 0) {
+      return { row: rowNumber, action: "unchanged", id: existing.id, matchedBy: match!.matchedBy, changes };
+    }
+
+    // Write only the fields that differ so updatedAt and history stay meaningful
+    const changed = new Set(changes.map(change => change.field.startsWith("cf:") ? "customFields" : change.field));
+    const update = Object.fromEntries(Object.entries(patch).filter(([field]) => changed.has(field)));
+    await handler.checkReferences?.(update);
+
+    if (!prepared.dryRun) {
+      const updated = await handler.update(existing.id, update);
+      await ctx.audit("import_update", handler.resource, existing.id, existing, updated);
+    }
+    return { row: rowNumber, action: "update", id: existing.id, matchedBy: match!.matchedBy, changes };
+  } catch (error: any) {
+    const message = error instanceof z.ZodError
+      ? error.errors.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; ")
+      : error.message;
+    return { row: rowNumber, action: "error", id: null, error: message };
+  }
+}
+
+/**
+ * Import every row in one call and return per-row outcomes. Used for dry-run
+ * previews; real imports run as background jobs (import-job-service.ts).
+ */
+export async function runCsvImport(
+  entity: CsvImportEntity,
+  records: Record<string, unknown>[],
+  prepared: PreparedCsvImport,
+  ctx: CsvImportContext,
+): Promise<CsvImportResult> {
+  const results: CsvImportResult = {
+    mode: prepared.mode,
+    dryRun: prepared.dryRun,
+    total: records.length,
+    success: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+    ...(prepared.dryRun ? { rows: [] } : {}),
+  };
+
+  for (let i = 0; i < records.length; i++) {
+    const rowNumber = i + 2; // +2: header row, and rows are 1-indexed
+    const outcome = await importCsvRow(entity, records[i], rowNumber, prepared, ctx);
+    switch (outcome.action) {
+      case "create": results.created++; break;
+      case "update": results.updated++; break;
+      case "unchanged": results.unchanged++; break;
+      case "skip": results.skipped++; break;
+      case "error":
+        results.failed++;
+        results.errors.push({ row: rowNumber, error: outcome.error!, data: records[i] });
+        break;
+    }
+    results.rows?.push(outcome);
+  }
+
+  results.success = results.created + results.updated;
+  return results;
+}
+
+/** Importable fields for the mapping step, from the CSV row schemas. */
+export function getImportFields(entity: CsvImportEntity) {
+  const shape = IMPORT_HANDLERS[entity].rowSchema.shape as Record<string, z.ZodTypeAny>;
+  const fields = Object.keys(shape);
+  return {
+    fields,
+    requiredFields: fields.filter(field => !shape[field].isOptional()),
+    matchFields: CSV_IMPORT_ENTITY_MATCH_FIELDS[entity],
+  };
+}
+
+// ---------- Mapping templates ----------
+
+export async function listImportMappingTemplates(orgId: string, entity?: CsvImportEntity): Promise<ImportMappingTemplate[]> {
+  return db.select().from(importMappingTemplates)
+    .where(and(
+      eq(importMappingTemplates.organizationId, orgId),
+      entity ? eq(importMappingTemplates.entity, entity) : undefined,
+    ))
+    .orderBy(asc(importMappingTemplates.name));
+}
+
+export async function getImportMappingTemplate(id: string, orgId: string): Promise<ImportMappingTemplate | undefined> {
+  const [template] = await db.select().from(importMappingTemplates)
+    .where(and(eq(importMappingTemplates.id, id), eq(importMappingTemplates.organizationId, orgId)));
+  return template;
+}
+
+async function assertTemplateNameFree(orgId: string, entity: CsvImportEntity, name: string, exceptId?: string) {
+  const [existing] = await db.select({ id: importMappingTemplates.id }).from(importMappingTemplates)
+    .where(and(
+      eq(importMappingTemplates.organizationId, orgId),
+      eq(importMappingTemplates.entity, entity),
+      eq(importMappingTemplates.name, name),
+    ));
+  if (existing && existing.id !== exceptId) {
+    throw new CsvImportError(`A ${entity} mapping template named "${name}" already exists`, 409);
+  }
+}
+
+export async function createImportMappingTemplate(orgId: string, data: InsertImportMappingTemplate, userId: string): Promise<ImportMappingTemplate> {
+  await assertTemplateNameFree(orgId, data.entity, data.name);
+  const [template] = await db.insert(importMappingTemplates).values({
+    ...data,
+    organizationId: orgId,
+    createdBy: userId,
+  }).returning();
+  return template;
+}
+
+export async function updateImportMappingTemplate(id: string, orgId: string, data: UpdateImportMappingTemplate): Promise<ImportMappingTemplate | undefined> {
+  const current = await getImportMappingTemplate(id, orgId);
+  if (!current) return undefined;
+  if (data.name && data.name !== current.name) {
+    await assertTemplateNameFree(orgId, current.entity, data.name, id);
+  }
+  const [template] = await db.update(importMappingTemplates)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(importMappingTemplates.id, id), eq(importMappingTemplates.organizationId, orgId)))
+    .returning();
+  return template;
+}
+
+export async function deleteImportMappingTemplate(id: string, orgId: string): Promise<ImportMappingTemplate | undefined> {
+  const [template] = await db.delete(importMappingTemplates)
+    .where(and(eq(importMappingTemplates.id, id), eq(importMappingTemplates.organizationId, orgId)))
+    .returning();
+  return template;
+}
@@ -82,6 +82,8 @@ export const leadCsvRowSchema = z.object({
   status: optionalString,
   source: optionalString,
   rating: nullableString,
+  state: nullableString,
+  country: nullableString,
   externalId: nullableString,
   sourceSystem: nullableString,
   sourceRecordId: nullableString,
@@ -137,3 +139,35 @@ export const activityCsvRowSchema = z.object({
 });
 
 export type ActivityCsvRow = z.infer<typeof activityCsvRowSchema>;
+
+// ========== CUSTOM FIELD COLUMNS ==========
+// Custom fields travel as "cf:<key>" columns next to the standard ones. The row
+// schemas above strip unknown keys, so these cells are read from the raw row and
+// validated against the org's definitions when the record is written.
+
+export const CUSTOM_FIELD_CSV_PREFIX = "cf:";
+
+/** Raw "cf:<key>" cells keyed by field key; empty cells are skipped so an import never clears a value. */
+export const customFieldCsvCellsSchema = z.record(z.unknown()).transform((row) => {
+  const cells: Record<string, string> = {};
+  for (const [column, cell] of Object.entries(row)) {
+    if (!column.startsWith(CUSTOM_FIELD_CSV_PREFIX)) continue;
+    const value = cell === null || cell === undefined ? "" : String(cell).trim();
+    if (value !== "") cells[column.slice(CUSTOM_FIELD_CSV_PREFIX.length)] = value;
+  }
+  return Object.keys(cells).length > 0 ? cells : undefined;
+});
+
+/** Export cells for a record: multi-select values are joined with "; " (the import separator). */
+export function customFieldCsvColumns(
+  keys: readonly string[],
+  values: Record<string, unknown> | null | undefined,
+): Record<string, string> {
+  const columns: Record<string, string> = {};
+  for (const key of keys) {
+    const value = values?.[key];
+    columns[`${CUSTOM_FIELD_CSV_PREFIX}${key}`] =
+      value === null || value === undefined ? "" : Array.isArray(value) ? value.join("; ") : String(value);
+  }
+  return columns;
+}
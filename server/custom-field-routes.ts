@@ -0,0 +1,130 @@
+// Custom field definition routes. Admins manage definitions in the Admin
+// Console; every signed-in user can read the active definitions so detail
+// pages, filter bars and import screens can render them.
+// All routes are scoped to the active organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import {
+  CUSTOM_FIELD_ENTITY_TYPES,
+  insertCustomFieldDefinitionSchema,
+  updateCustomFieldDefinitionSchema,
+} from "@shared/schema";
+import {
+  CustomFieldDefinitionError,
+  createCustomFieldDefinition,
+  deleteCustomFieldDefinition,
+  getCustomFieldDefinition,
+  listCustomFieldDefinitions,
+  updateCustomFieldDefinition,
+} from "./custom-field-service";
+
+const entityTypeSchema = z.enum(CUSTOM_FIELD_ENTITY_TYPES);
+
+async function auditCustomFieldChange(req: AuthRequest, action: string, resourceId: string | null, before: any, after: any) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action,
+      resource: "CustomFieldDefinition",
+      resourceId,
+      before,
+      after,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+export function registerCustomFieldRoutes(app: Express) {
+  // GET /api/custom-fields?entity=account — active definitions, for forms and filters
+  app.get("/api/custom-fields", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const entityType = req.query.entity ? entityTypeSchema.parse(req.query.entity) : undefined;
+      return res.json(await listCustomFieldDefinitions(req.activeOrgId!, entityType, { activeOnly: true }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching custom fields:", error);
+      return res.status(500).json({ error: "Failed to fetch custom fields" });
+    }
+  });
+
+  // GET /api/admin/custom-fields — all definitions, including inactive ones
+  app.get("/api/admin/custom-fields", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const entityType = req.query.entity ? entityTypeSchema.parse(req.query.entity) : undefined;
+      return res.json(await listCustomFieldDefinitions(req.activeOrgId!, entityType));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching custom field definitions:", error);
+      return res.status(500).json({ error: "Failed to fetch custom field definitions" });
+    }
+  });
+
+  // POST /api/admin/custom-fields — define a new field
+  app.post("/api/admin/custom-fields", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertCustomFieldDefinitionSchema.parse(req.body);
+      const definition = await createCustomFieldDefinition(req.activeOrgId!, data, req.user!.id);
+      await auditCustomFieldChange(req, "create", definition.id, null, definition);
+      return res.status(201).json(definition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof CustomFieldDefinitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating custom field definition:", error);
+      return res.status(500).json({ error: "Failed to create custom field definition" });
+    }
+  });
+
+  // PATCH /api/admin/custom-fields/:id — label, options, rules, required/active flags
+  app.patch("/api/admin/custom-fields/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updateCustomFieldDefinitionSchema.parse(req.body);
+      const before = await getCustomFieldDefinition(req.params.id, req.activeOrgId!);
+      if (!before) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      const definition = await updateCustomFieldDefinition(req.params.id, req.activeOrgId!, data);
+      await auditCustomFieldChange(req, "update", req.params.id, before, definition);
+      return res.json(definition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof CustomFieldDefinitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating custom field definition:", error);
+      return res.status(500).json({ error: "Failed to update custom field definition" });
+    }
+  });
+
+  // DELETE /api/admin/custom-fields/:id — removes the field and its stored values
+  app.delete("/api/admin/custom-fields/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const definition = await deleteCustomFieldDefinition(req.params.id, req.activeOrgId!);
+      if (!definition) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      await auditCustomFieldChange(req, "delete", definition.id, definition, null);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting custom field definition:", error);
+      return res.status(500).json({ error: "Failed to delete custom field definition" });
+    }
+  });
+}
@@ -0,0 +1,175 @@
+// Org-scoped custom field definitions and the shared write-path helper that
+// validates incoming values (see lib/custom-fields) before they are stored in
+// an entity's custom_fields column.
+
+import { db, eq, and, asc, sql } from "./db";
+import * as schema from "@shared/schema";
+import type {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldLookupEntity,
+  CustomFieldValues,
+} from "@shared/schema";
+import {
+  customFieldLookupRefs,
+  validateCustomFieldValues,
+  type CustomFieldError,
+} from "./lib/custom-fields";
+
+export class CustomFieldValidationError extends Error {
+  constructor(public errors: CustomFieldError[]) {
+    super(errors.map(e => e.message).join("; "));
+    this.name = "CustomFieldValidationError";
+  }
+
+  /** Same shape as ZodError.errors so clients can render both the same way. */
+  get details() {
+    return this.errors.map(e => ({ path: ["customFields", e.key], message: e.message }));
+  }
+}
+
+export class CustomFieldDefinitionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "CustomFieldDefinitionError";
+  }
+}
+
+const ENTITY_TABLES = {
+  account: schema.accounts,
+  contact: schema.contacts,
+  lead: schema.leads,
+  opportunity: schema.opportunities,
+  activity: schema.activities,
+} as const;
+
+const LOOKUP_TABLES: Record<CustomFieldLookupEntity, { table: string; orgScoped: boolean }> = {
+  account: { table: "accounts", orgScoped: true },
+  contact: { table: "contacts", orgScoped: true },
+  lead: { table: "leads", orgScoped: true },
+  opportunity: { table: "opportunities", orgScoped: true },
+  user: { table: "users", orgScoped: false },
+};
+
+export async function listCustomFieldDefinitions(
+  orgId: string,
+  entityType?: CustomFieldEntityType,
+  options: { activeOnly?: boolean } = {},
+): Promise<CustomFieldDefinition[]> {
+  const conditions = [eq(schema.customFieldDefinitions.organizationId, orgId)];
+  if (entityType) conditions.push(eq(schema.customFieldDefinitions.entityType, entityType));
+  if (options.activeOnly) conditions.push(eq(schema.customFieldDefinitions.isActive, true));
+  return db.select().from(schema.customFieldDefinitions)
+    .where(and(...conditions))
+    .orderBy(asc(schema.customFieldDefinitions.entityType), asc(schema.customFieldDefinitions.sortOrder), asc(schema.customFieldDefinitions.label));
+}
+
+export async function getCustomFieldDefinition(id: string, orgId: string): Promise<CustomFieldDefinition | undefined> {
+  const [definition] = await db.select().from(schema.customFieldDefinitions)
+    .where(and(eq(schema.customFieldDefinitions.id, id), eq(schema.customFieldDefinitions.organizationId, orgId)));
+  return definition;
+}
+
+export async function createCustomFieldDefinition(
+  orgId: string,
+  data: schema.InsertCustomFieldDefinition,
+  createdBy: string | null,
+): Promise<CustomFieldDefinition> {
+  const [existing] = await db.select({ id: schema.customFieldDefinitions.id }).from(schema.customFieldDefinitions)
+    .where(and(
+      eq(schema.customFieldDefinitions.organizationId, orgId),
+      eq(schema.customFieldDefinitions.entityType, data.entityType),
+      eq(schema.customFieldDefinitions.key, data.key),
+    ));
+  if (existing) {
+    throw new CustomFieldDefinitionError(`A ${data.entityType} custom field with key "${data.key}" already exists`, 409);
+  }
+
+  const [definition] = await db.insert(schema.customFieldDefinitions).values({
+    ...data,
+    lookupEntity: data.fieldType === "lookup" ? data.lookupEntity ?? null : null,
+    options: data.fieldType === "picklist" || data.fieldType === "multi_select" ? data.options : [],
+    organizationId: orgId,
+    createdBy,
+  }).returning();
+  return definition;
+}
+
+export async function updateCustomFieldDefinition(
+  id: string,
+  orgId: string,
+  data: schema.UpdateCustomFieldDefinition,
+): Promise<CustomFieldDefinition | undefined> {
+  const current = await getCustomFieldDefinition(id, orgId);
+  if (!current) return undefined;
+
+  const isPicklist = current.fieldType === "picklist" || current.fieldType === "multi_select";
+  if (data.options !== undefined && isPicklist && data.options.length === 0) {
+    throw new CustomFieldDefinitionError("Picklist fields need at least one option");
+  }
+
+  const [definition] = await db.update(schema.customFieldDefinitions)
+    .set({
+      ...data,
+      options: isPicklist ? data.options : undefined,
+      lookupEntity: current.fieldType === "lookup" && data.lookupEntity ? data.lookupEntity : undefined,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(schema.customFieldDefinitions.id, id), eq(schema.customFieldDefinitions.organizationId, orgId)))
+    .returning();
+  return definition;
+}
+
+/** Delete a definition and strip its stored values from the org's records. */
+export async function deleteCustomFieldDefinition(id: string, orgId: string): Promise<CustomFieldDefinition | undefined> {
+  return db.transaction(async (tx) => {
+    const [definition] = await tx.delete(schema.customFieldDefinitions)
+      .where(and(eq(schema.customFieldDefinitions.id, id), eq(schema.customFieldDefinitions.organizationId, orgId)))
+      .returning();
+    if (!definition) return undefined;
+
+    const table = ENTITY_TABLES[definition.entityType];
+    await tx.update(table)
+      .set({ customFields: sql`${table.customFields} - ${definition.key}` })
+      .where(and(eq(table.organizationId, orgId), sql`${table.customFields} ? ${definition.key}`));
+    return definition;
+  });
+}
+
+async function findMissingLookups(orgId: string, defs: CustomFieldDefinition[], values: CustomFieldValues): Promise<CustomFieldError[]> {
+  const errors: CustomFieldError[] = [];
+  for (const ref of customFieldLookupRefs(defs, values)) {
+    const { table, orgScoped } = LOOKUP_TABLES[ref.entity];
+    const orgFilter = orgScoped ? sql` AND organization_id = ${orgId}` : sql``;
+    const result: any = await db.execute(sql`SELECT 1 FROM ${sql.identifier(table)} WHERE id = ${ref.id}${orgFilter} LIMIT 1`);
+    const rows = Array.isArray(result) ? result : result?.rows ?? [];
+    if (rows.length === 0) {
+      const label = defs.find(d => d.key === ref.key)?.label ?? ref.key;
+      errors.push({ key: ref.key, message: `${label} references a ${ref.entity} that does not exist` });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate `input` (a full or partial custom-field object from a request body
+ * or import row) and merge it over the record's current values. Returns
+ * undefined when the write doesn't touch custom fields, so callers can leave
+ * the column alone. Throws CustomFieldValidationError on invalid values.
+ */
+export async function resolveCustomFieldsForWrite(
+  orgId: string,
+  entityType: CustomFieldEntityType,
+  input: unknown,
+  existing?: CustomFieldValues | null,
+): Promise<CustomFieldValues | undefined> {
+  if (input === undefined) return undefined;
+
+  const defs = await listCustomFieldDefinitions(orgId, entityType);
+  const { values, errors } = validateCustomFieldValues(defs, input, existing);
+  if (errors.length === 0) {
+    errors.push(...await findMissingLookups(orgId, defs, values));
+  }
+  if (errors.length > 0) throw new CustomFieldValidationError(errors);
+  return values;
+}
@@ -14,6 +14,7 @@ import type {
   IStorage,
   AccountListFilters,
   ActivityListFilters,
+  ActivitySeriesLink,
   ContactListFilters,
   LeadListFilters,
   OpportunityListFilters,
@@ -455,11 +456,14 @@ export class PostgresStorage implements IStorage {
       if (filters?.rating) conditions.push(sql`lower(l.rating) = lower(${filters.rating})`);
       if (filters?.source) conditions.push(sql`l.source::text = ${filters.source}`);
       if (filters?.updatedSince) conditions.push(sql`l.updated_at > ${filters.updatedSince}`);
+      if (filters?.minScore !== undefined) conditions.push(sql`l.score >= ${filters.minScore}`);
       if (filters?.tagId) conditions.push(sql`EXISTS (SELECT 1 FROM entity_tags etf WHERE etf.entity = 'Lead' AND etf.entity_id = l.id AND etf.tag_id = ${filters.tagId})`);
       const orgFilter = buildWhere(conditions);
       const result: any = await db.execute(sql`
         SELECT 
           l.*,
+          l.score_breakdown as "scoreBreakdown",
+          l.scored_at as "scoredAt",
           COALESCE(
             json_agg(
               json_build_object(
@@ -478,7 +482,7 @@ export class PostgresStorage implements IStorage {
         LEFT JOIN tags t ON t.id = et.tag_id
         ${orgFilter}
         GROUP BY l.id
-        ORDER BY l.created_at DESC
+        ORDER BY ${filters?.sort === "score" ? sql`l.score DESC NULLS LAST, ` : sql``}l.created_at DESC
       `);
       
       // Normalize result: Neon driver returns array, standard pg driver returns {rows, rowCount, ...}
@@ -776,11 +780,12 @@ export class PostgresStorage implements IStorage {
     });
   }
 
-  async createActivity(activity: InsertActivity): Promise<Activity> {
+  async createActivity(activity: InsertActivity, series?: ActivitySeriesLink): Promise<Activity> {
     const id = await this.generateId("Activity", activity.organizationId || undefined);
     const result = await db.insert(schema.activities).values({
       ...activity,
       id,
+      ...(series ? { seriesId: series.seriesId, occurrenceAt: series.occurrenceAt } : {}),
       // Convert ISO string dates to Date objects for Drizzle timestamp columns
       dueAt: activity.dueAt ? new Date(activity.dueAt) : null,
       completedAt: activity.completedAt ? new Date(activity.completedAt) : null,
@@ -788,9 +793,9 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
   
-  async updateActivity(id: string, activity: Partial<InsertActivity>): Promise<Activity> {
+  async updateActivity(id: string, activity: Partial<InsertActivity>, executor: DrizzleDb = db): Promise<Activity> {
     const { organizationId: _orgId, dueAt, completedAt, ...safeUpdates } = activity;
-    const result = await db.update(schema.activities)
+    const result = await executor.update(schema.activities)
       .set({
         ...safeUpdates,
         // Convert ISO string dates to Date objects for Drizzle timestamp columns
@@ -935,11 +940,17 @@ export class PostgresStorage implements IStorage {
   }
 
   // ========== LEGACY ID MAP (read-only) ==========
+  // getLegacyId(s) return the pre-canonical ID shown as "Legacy ID"; merged-away
+  // IDs (reason "merge") only participate in lookups by legacy ID.
 
   async getLegacyId(entity: string, canonicalId: string): Promise<string | null> {
     const result = await db.select({ legacyId: schema.legacyIdMap.legacyId })
       .from(schema.legacyIdMap)
-      .where(and(eq(schema.legacyIdMap.entity, entity), eq(schema.legacyIdMap.canonicalId, canonicalId)))
+      .where(and(
+        eq(schema.legacyIdMap.entity, entity),
+        eq(schema.legacyIdMap.canonicalId, canonicalId),
+        eq(schema.legacyIdMap.reason, "canonical_migration"),
+      ))
       .limit(1);
     return result[0]?.legacyId ?? null;
   }
@@ -951,7 +962,11 @@ export class PostgresStorage implements IStorage {
       canonicalId: schema.legacyIdMap.canonicalId,
       legacyId: schema.legacyIdMap.legacyId,
     }).from(schema.legacyIdMap)
-      .where(and(eq(schema.legacyIdMap.entity, entity), inArray(schema.legacyIdMap.canonicalId, canonicalIds)));
+      .where(and(
+        eq(schema.legacyIdMap.entity, entity),
+        inArray(schema.legacyIdMap.canonicalId, canonicalIds),
+        eq(schema.legacyIdMap.reason, "canonical_migration"),
+      ));
     for (const row of rows) out[row.canonicalId] = row.legacyId;
     return out;
   }
@@ -1118,7 +1133,7 @@ export class PostgresStorage implements IStorage {
           id: oppId,
           name: input.opportunityData?.name || input.opportunityName || `${lead.firstName} ${lead.lastName} - Opportunity`,
           accountId,
-          stage: (input.opportunityData?.stage as any) || "prospecting",
+          stage: input.opportunityData?.stage || "prospecting",
           amount: String(amount),
           probability: input.opportunityData?.probability !== undefined ? input.opportunityData.probability : 10,
           closeDate,
@@ -1598,6 +1613,18 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
   
+  async getApiKeyByKeyId(keyId: string): Promise<schema.ApiKey | undefined> {
+    const result = await db.select().from(schema.apiKeys).where(eq(schema.apiKeys.keyId, keyId)).limit(1);
+    return result[0];
+  }
+  
+  // Active keys issued before key ids existed; authentication has to scan their hashes
+  async getLegacyApiKeys(): Promise<schema.ApiKey[]> {
+    return await db.select().from(schema.apiKeys)
+      .where(and(isNull(schema.apiKeys.keyId), eq(schema.apiKeys.isActive, true), isNull(schema.apiKeys.revokedAt)))
+      .orderBy(sql`${schema.apiKeys.lastUsedAt} DESC NULLS LAST`);
+  }
+  
   async createApiKey(apiKey: schema.InsertApiKey): Promise<schema.ApiKey> {
     const result = await db.insert(schema.apiKeys).values(apiKey).returning();
     return result[0];
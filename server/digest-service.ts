@@ -0,0 +1,170 @@
+// Email digest service
+// Sends opted-in users a daily or weekly summary: their overdue and upcoming
+// activities, their opportunities past close date, new external leads in
+// their organizations and recent mentions. Digests go out at
+// DIGEST_SEND_HOUR_UTC (default 13:00 UTC; weekly digests on Mondays).
+
+import { db, eq, and, desc, inArray, lte, gte, sql } from "./db";
+import { gt, lt, ne, notInArray } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { EmailDigestFrequency } from "@shared/schema";
+import {
+  digestPeriodStart,
+  digestUpcomingEnd,
+  isDigestDue,
+  isDigestEmpty,
+  type DigestContent,
+} from "./lib/email/digest";
+import { notificationLink } from "./lib/notification-rules";
+import { getAppBaseUrl, isEmailConfigured, sendTemplateEmail } from "./email-service";
+
+const SECTION_LIMIT = 20;
+const CLOSED_STAGES: schema.Opportunity["stage"][] = ["closed_won", "closed_lost"];
+
+function digestSendHourUtc(): number {
+  const hour = parseInt(process.env.DIGEST_SEND_HOUR_UTC ?? "", 10);
+  return hour >= 0 && hour <= 23 ? hour : 13;
+}
+
+function formatDate(value: Date | null | undefined): string {
+  return value ? value.toISOString().slice(0, 10) : "";
+}
+
+/** Collect a user's digest sections for the period ending at `now`. */
+export async function buildDigestContent(
+  user: { id: string; name: string },
+  frequency: Exclude<EmailDigestFrequency, "off">,
+  lastSentAt: Date | null,
+  now = new Date(),
+): Promise<DigestContent> {
+  const since = digestPeriodStart(frequency, lastSentAt, now);
+  const upcomingEnd = digestUpcomingEnd(frequency, now);
+  const a = schema.activities;
+  const o = schema.opportunities;
+  const l = schema.leads;
+  const n = schema.notifications;
+
+  const memberships = await db.select({ organizationId: schema.userOrganizations.organizationId })
+    .from(schema.userOrganizations)
+    .where(eq(schema.userOrganizations.userId, user.id));
+  const orgIds = memberships.map(m => m.organizationId);
+
+  const [overdue, upcoming, pastDue, externalLeads, mentions] = await Promise.all([
+    db.select({ id: a.id, subject: a.subject, dueAt: a.dueAt }).from(a)
+      .where(and(eq(a.ownerId, user.id), eq(a.status, "pending"), lt(a.dueAt, now)))
+      .orderBy(a.dueAt)
+      .limit(SECTION_LIMIT),
+    db.select({ id: a.id, subject: a.subject, dueAt: a.dueAt }).from(a)
+      .where(and(eq(a.ownerId, user.id), eq(a.status, "pending"), gte(a.dueAt, now), lte(a.dueAt, upcomingEnd)))
+      .orderBy(a.dueAt)
+      .limit(SECTION_LIMIT),
+    db.select({ id: o.id, name: o.name, closeDate: o.closeDate, stage: o.stage }).from(o)
+      .where(and(eq(o.ownerId, user.id), lt(o.closeDate, now), notInArray(o.stage, CLOSED_STAGES)))
+      .orderBy(o.closeDate)
+      .limit(SECTION_LIMIT),
+    orgIds.length > 0
+      ? db.select({ id: l.id, firstName: l.firstName, lastName: l.lastName, company: l.company, source: l.source }).from(l)
+          .where(and(
+            inArray(l.organizationId, orgIds),
+            sql`${l.sourceSystem} LIKE 'External API%'`,
+            gt(l.createdAt, since),
+          ))
+          .orderBy(desc(l.createdAt))
+          .limit(SECTION_LIMIT)
+      : Promise.resolve([]),
+    db.select({ title: n.title, body: n.body, link: n.link }).from(n)
+      .where(and(eq(n.userId, user.id), eq(n.type, "mention"), gt(n.createdAt, since)))
+      .orderBy(desc(n.createdAt))
+      .limit(SECTION_LIMIT),
+  ]);
+
+  return {
+    recipientName: user.name,
+    frequency,
+    overdueActivities: overdue.map(act => ({
+      title: act.subject,
+      detail: `Due ${formatDate(act.dueAt)}`,
+      link: notificationLink("Activity", act.id),
+    })),
+    upcomingActivities: upcoming.map(act => ({
+      title: act.subject,
+      detail: `Due ${formatDate(act.dueAt)}`,
+      link: notificationLink("Activity", act.id),
+    })),
+    pastDueOpportunities: pastDue.map(opp => ({
+      title: opp.name,
+      detail: `Close date ${formatDate(opp.closeDate)} · ${opp.stage.replace(/_/g, " ")}`,
+      link: notificationLink("Opportunity", opp.id),
+    })),
+    newExternalLeads: externalLeads.map(lead => ({
+      title: [lead.firstName, lead.lastName].filter(Boolean).join(" ") || lead.id,
+      detail: [lead.company, lead.source].filter(Boolean).join(" · ") || null,
+      link: notificationLink("Lead", lead.id),
+    })),
+    mentions: mentions.map(m => ({ title: m.title, detail: m.body, link: m.link })),
+  };
+}
+
+/** Send every digest that is due. Returns the number of emails sent. */
+export async function sendDueDigests(now = new Date()): Promise<number> {
+  if (!isEmailConfigured()) return 0;
+
+  const appUrl = getAppBaseUrl();
+  if (!appUrl) {
+    console.error("[Digest] APP_BASE_URL / REPLIT_DEV_DOMAIN not set — email digests not sent.");
+    return 0;
+  }
+
+  const subscribers = await db.select({
+    userId: schema.notificationPreferences.userId,
+    emailDigest: schema.notificationPreferences.emailDigest,
+    digestLastSentAt: schema.notificationPreferences.digestLastSentAt,
+    email: schema.users.email,
+    name: schema.users.name,
+  })
+    .from(schema.notificationPreferences)
+    .innerJoin(schema.users, eq(schema.users.id, schema.notificationPreferences.userId))
+    .where(and(ne(schema.notificationPreferences.emailDigest, "off"), eq(schema.users.status, "active")));
+
+  const sendHour = digestSendHourUtc();
+  let sent = 0;
+  for (const sub of subscribers) {
+    if (sub.emailDigest === "off" || !isDigestDue(sub.emailDigest, sub.digestLastSentAt, now, sendHour)) continue;
+    try {
+      const content = await buildDigestContent({ id: sub.userId, name: sub.name }, sub.emailDigest, sub.digestLastSentAt, now);
+      // Empty digests are skipped but still mark the period as handled
+      if (!isDigestEmpty(content)) {
+        await sendTemplateEmail(sub.email, "digest", { ...content, appUrl });
+        sent++;
+      }
+      await db.update(schema.notificationPreferences)
+        .set({ digestLastSentAt: now })
+        .where(eq(schema.notificationPreferences.userId, sub.userId));
+    } catch (err) {
+      // Leave digestLastSentAt alone so the next sweep retries this user
+      console.error(`[Digest] Failed to send digest to user ${sub.userId}:`, err);
+    }
+  }
+  return sent;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/** Start the periodic digest sweep (idempotent). */
+export function startDigestWorker(intervalMs = 15 * 60_000): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => {
+    if (sweeping) return;
+    sweeping = true;
+    sendDueDigests()
+      .then(sent => {
+        if (sent > 0) console.log(`[Digest] Sent ${sent} email digest(s)`);
+      })
+      .catch(err => console.error("[Digest] Sweep error:", err))
+      .finally(() => {
+        sweeping = false;
+      });
+  }, intervalMs);
+  workerTimer.unref();
+}
@@ -0,0 +1,123 @@
+// Duplicate review queue and record merge routes for Accounts and Contacts.
+// All routes are scoped to the active organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requirePermission } from "./rbac";
+import { crudRateLimiter, readRateLimiter, sensitiveRateLimiter } from "./rate-limiters";
+import { recordMergeSchema, type DuplicateEntityType } from "@shared/schema";
+import {
+  RecordMergeError,
+  dismissDuplicateCandidate,
+  listDuplicateCandidates,
+  mergeRecords,
+  scanForDuplicates,
+} from "./record-merge-service";
+import { emitWebhookEvent } from "./webhook-service";
+
+const ENTITIES: { path: string; entityType: DuplicateEntityType; resource: "Account" | "Contact" }[] = [
+  { path: "accounts", entityType: "account", resource: "Account" },
+  { path: "contacts", entityType: "contact", resource: "Contact" },
+];
+
+const statusSchema = z.enum(["pending", "merged", "dismissed"]);
+
+export function registerDuplicateRoutes(app: Express) {
+  for (const { path, entityType, resource } of ENTITIES) {
+    // GET /api/duplicates/:entity — review queue (status defaults to pending)
+    app.get(`/api/duplicates/${path}`, authenticate, requirePermission(resource, "read"), readRateLimiter, async (req: AuthRequest, res) => {
+      try {
+        const status = req.query.status ? statusSchema.parse(req.query.status) : "pending";
+        const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || undefined : undefined;
+        return res.json(await listDuplicateCandidates(req.activeOrgId!, entityType, status, limit));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Validation failed", details: error.errors });
+        }
+        console.error(`Error fetching ${resource} duplicates:`, error);
+        return res.status(500).json({ error: "Failed to fetch duplicate candidates" });
+      }
+    });
+
+    // POST /api/duplicates/:entity/scan — rescore the org's records into the queue
+    app.post(`/api/duplicates/${path}/scan`, authenticate, requirePermission(resource, "update"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+      try {
+        const found = await scanForDuplicates(req.activeOrgId!, entityType);
+        return res.json({ found });
+      } catch (error) {
+        console.error(`Error scanning ${resource} duplicates:`, error);
+        return res.status(500).json({ error: "Failed to scan for duplicates" });
+      }
+    });
+
+    // POST /api/duplicates/:entity/:candidateId/dismiss — mark a pair as not a duplicate
+    app.post(`/api/duplicates/${path}/:candidateId/dismiss`, authenticate, requirePermission(resource, "update"), crudRateLimiter, async (req: AuthRequest, res) => {
+      try {
+        const candidate = await dismissDuplicateCandidate(req.params.candidateId, req.activeOrgId!, entityType, req.user!.id);
+        if (!candidate) {
+          return res.status(404).json({ error: "Duplicate candidate not found" });
+        }
+        return res.json(candidate);
+      } catch (error) {
+        console.error(`Error dismissing ${resource} duplicate:`, error);
+        return res.status(500).json({ error: "Failed to dismiss duplicate candidate" });
+      }
+    });
+
+    // POST /api/duplicates/:entity/merge — fold absorbedId into survivorId
+    app.post(`/api/duplicates/${path}/merge`, authenticate, requirePermission(resource, "delete"), crudRateLimiter, async (req: AuthRequest, res) => {
+      try {
+        const data = recordMergeSchema.parse(req.body);
+        const result = await mergeRecords({ ...data, orgId: req.activeOrgId!, entityType, userId: req.user!.id });
+
+        try {
+          await storage.createAuditLog({
+            actorId: req.user?.id || null,
+            action: "merge",
+            resource,
+            resourceId: result.survivor.id,
+            before: { survivor: result.previousSurvivor, absorbed: result.absorbed },
+            after: { survivor: result.survivor, absorbedId: result.absorbed.id, repointed: result.repointed },
+            ipAddress: req.ip || req.connection.remoteAddress || null,
+            userAgent: req.headers["user-agent"] || null,
+          });
+        } catch (error) {
+          console.error("Error creating audit log:", error);
+        }
+
+        emitWebhookEvent({
+          organizationId: req.activeOrgId,
+          entityType,
+          entityId: result.absorbed.id,
+          action: "deleted",
+          data: result.absorbed,
+          source: "ui",
+          actorId: req.user?.id || null,
+        });
+        emitWebhookEvent({
+          organizationId: req.activeOrgId,
+          entityType,
+          entityId: result.survivor.id,
+          action: "updated",
+          data: result.survivor,
+          previous: result.previousSurvivor,
+          source: "ui",
+          actorId: req.user?.id || null,
+        });
+
+        return res.json({ survivor: result.survivor, absorbedId: result.absorbed.id, repointed: result.repointed });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Validation failed", details: error.errors });
+        }
+        if (error instanceof RecordMergeError) {
+          return res.status(error.status).json({ error: error.message });
+        }
+        console.error(`Error merging ${resource} records:`, error);
+        return res.status(500).json({ error: `Failed to merge ${resource.toLowerCase()} records` });
+      }
+    });
+  }
+}
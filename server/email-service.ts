@@ -1,43 +1,78 @@
 /**
- * Azure Graph email service — sends transactional email via the Microsoft Graph API.
+ * Email service — renders transactional templates and hands them to the
+ * configured transport.
  *
- * PREREQUISITE: The Azure app registration must have the `Mail.Send` APPLICATION permission
- * (not delegated) consented by an Azure admin in Entra ID. Without this consent the
- * Graph sendMail call will return 403 Forbidden.
- *
- * Required secrets: AZURE_TENANT_ID, AZURE_CLIENT_ID, AZURE_CLIENT_SECRET, AZURE_SENDER_EMAIL
+ * EMAIL_TRANSPORT selects the transport: "graph" (Microsoft Graph), "smtp",
+ * "file" (.eml files in EMAIL_OUTBOX_DIR) or "console". When unset, Graph is
+ * used if its Azure secrets are present, then SMTP if SMTP_HOST is set, then
+ * the console transport outside production. See server/lib/email/transports.
  */
+import type { EmailMessage, EmailTransport } from "./lib/email/types";
+import { renderEmailTemplate, type EmailTemplateData, type EmailTemplateName } from "./lib/email/templates";
+import { GraphTransport } from "./lib/email/transports/GraphTransport";
+import { SmtpTransport } from "./lib/email/transports/SmtpTransport";
+import { ConsoleTransport, FileTransport } from "./lib/email/transports/FileTransport";
 
-const TENANT_ID    = process.env.AZURE_TENANT_ID!;
-const CLIENT_ID    = process.env.AZURE_CLIENT_ID!;
-const CLIENT_SECRET = process.env.AZURE_CLIENT_SECRET!;
-const SENDER_EMAIL = process.env.AZURE_SENDER_EMAIL!;
+let cachedTransport: EmailTransport | null | undefined;
 
-/** Acquire an app-only (client credentials) access token scoped to Graph. */
-async function getAppOnlyToken(): Promise<string> {
-  const params = new URLSearchParams({
-    grant_type:    "client_credentials",
-    client_id:     CLIENT_ID,
-    client_secret: CLIENT_SECRET,
-    scope:         "https://graph.microsoft.com/.default",
-  });
+function resolveTransport(): EmailTransport | null {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case "graph": return new GraphTransport();
+    case "smtp": return new SmtpTransport();
+    case "file": return new FileTransport();
+    case "console": return new ConsoleTransport();
+    case undefined:
+    case "":
+      break;
+    default:
+      console.error(`[Email] Unknown EMAIL_TRANSPORT "${process.env.EMAIL_TRANSPORT}" — expected graph, smtp, file or console.`);
+      return null;
+  }
 
-  const res = await fetch(
-    `https://login.microsoftonline.com/${TENANT_ID}/oauth2/v2.0/token`,
-    {
-      method:  "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body:    params.toString(),
-    }
-  );
+  const graph = new GraphTransport();
+  if (!graph.validateConfig()) return graph;
+  if (process.env.SMTP_HOST) return new SmtpTransport();
+  return process.env.NODE_ENV === "production" ? null : new ConsoleTransport();
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`[Email] Token acquisition failed (${res.status}): ${text}`);
+/** The active transport, or null when email is not configured. */
+export function getEmailTransport(): EmailTransport | null {
+  if (cachedTransport === undefined) {
+    const transport = resolveTransport();
+    const configError = transport?.validateConfig();
+    if (configError) console.error(`[Email] ${configError}`);
+    cachedTransport = transport && !configError ? transport : null;
+    if (cachedTransport) console.log(`[Email] Using ${cachedTransport.name} transport`);
   }
+  return cachedTransport;
+}
 
-  const data = await res.json() as { access_token: string };
-  return data.access_token;
+export function isEmailConfigured(): boolean {
+  return getEmailTransport() !== null;
+}
+
+/**
+ * Public base URL for links in emails. Only explicitly configured values are
+ * used — never request Host headers, which callers can forge.
+ */
+export function getAppBaseUrl(): string {
+  return (process.env.APP_BASE_URL ?? "").replace(/\/$/, "") ||
+    (process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "");
+}
+
+/** Send a message through the active transport. Throws if email is not configured or delivery fails. */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const transport = getEmailTransport();
+  if (!transport) throw new Error("No email transport is configured");
+  await transport.send(message);
+}
+
+export async function sendTemplateEmail<K extends EmailTemplateName>(
+  to: string,
+  template: K,
+  data: EmailTemplateData[K],
+): Promise<void> {
+  await sendEmail({ to, ...renderEmailTemplate(template, data) });
 }
 
 /**
@@ -50,76 +85,12 @@ export async function sendPasswordResetEmail(
   resetUrl: string
 ): Promise<void> {
   try {
-    if (!CLIENT_ID || !CLIENT_SECRET || !TENANT_ID || !SENDER_EMAIL) {
-      console.error("[Email] Missing Azure credentials — password reset email not sent.");
+    if (!isEmailConfigured()) {
+      console.error("[Email] No email transport configured — password reset email not sent.");
       return;
     }
-
-    const accessToken = await getAppOnlyToken();
-
-    const html = `
-<!DOCTYPE html>
-<html lang="en">
-<body style="margin:0;padding:0;font-family:Arial,sans-serif;background:#f4f4f5;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="padding:32px 0;">
-    <tr><td align="center">
-      <table width="480" cellpadding="0" cellspacing="0"
-             style="background:#fff;border-radius:8px;padding:40px;box-shadow:0 1px 4px rgba(0,0,0,.08);">
-        <tr><td>
-          <h2 style="margin:0 0 16px;color:#1e3a5f;font-size:22px;">Reset your password</h2>
-          <p style="margin:0 0 20px;color:#374151;font-size:15px;line-height:1.6;">
-            You requested a password reset for your <strong>Health Trixss CRM</strong> account.
-            Click the button below to set a new password. This link expires in&nbsp;<strong>1&nbsp;hour</strong>.
-          </p>
-          <p style="margin:0 0 28px;">
-            <a href="${resetUrl}"
-               style="display:inline-block;padding:12px 28px;background:#1e3a5f;color:#fff;
-                      border-radius:6px;text-decoration:none;font-size:15px;font-weight:600;">
-              Reset Password
-            </a>
-          </p>
-          <p style="margin:0 0 12px;color:#6b7280;font-size:13px;line-height:1.5;">
-            If you didn't request this, you can safely ignore this email — your password won't change.
-          </p>
-          <p style="margin:0;color:#9ca3af;font-size:12px;word-break:break-all;">
-            If the button doesn't work, copy this link into your browser:<br>${resetUrl}
-          </p>
-        </td></tr>
-      </table>
-    </td></tr>
-  </table>
-</body>
-</html>`;
-
-    const plainText = `Reset your Health Trixss CRM password\n\nVisit the link below to set a new password (expires in 1 hour):\n${resetUrl}\n\nIf you didn't request this, ignore this email.`;
-
-    const payload = {
-      message: {
-        subject: "Reset your Health Trixss CRM password",
-        body: { contentType: "HTML", content: html },
-        toRecipients: [{ emailAddress: { address: toEmail } }],
-      },
-      saveToSentItems: false,
-    };
-
-    const sendRes = await fetch(
-      `https://graph.microsoft.com/v1.0/users/${SENDER_EMAIL}/sendMail`,
-      {
-        method:  "POST",
-        headers: {
-          Authorization:  `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    if (!sendRes.ok) {
-      const errText = await sendRes.text();
-      console.error(`[Email] sendMail failed (${sendRes.status}): ${errText}`);
-    } else {
-      console.log(`[Email] Password reset email sent to ${toEmail}`);
-    }
+    await sendTemplateEmail(toEmail, "password_reset", { resetUrl });
+    console.log(`[Email] Password reset email sent to ${toEmail}`);
   } catch (err) {
     // Never propagate — failed email must not leak account existence
     console.error("[Email] Unexpected error sending password reset email:", err);
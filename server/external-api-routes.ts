@@ -7,7 +7,41 @@ import { storage, db } from "./db";
 import { normalizeEmail } from "./lib/normalize-email";
 import { authenticateApiKey, createApiKeyRateLimiter, requirePermission, ApiKeyRequest } from "./api-key-auth";
 import { commentEntityAliases, type CommentEntity } from "./comment-entity";
-import { comments, users } from "@shared/schema";
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  emitWebhookEvent,
+  formatWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  redeliverWebhook,
+  updateWebhookSubscription,
+} from "./webhook-service";
+import { recordOpportunityChange } from "./opportunity-stage-history";
+import { CustomFieldValidationError, resolveCustomFieldsForWrite } from "./custom-field-service";
+import {
+  SalesProcessError,
+  StageRequirementsError,
+  assertStageChange,
+  getSalesProcess,
+  resolveNewOpportunityStage,
+} from "./sales-process-service";
+import { rescoreLeadsForAudit, scheduleLeadRescore } from "./lead-scoring-service";
+import { createRoutedLead } from "./lead-assignment-service";
+import { notifyRecordReassigned } from "./notification-service";
+import { getOpportunityLineItems } from "./product-service";
+import {
+  comments,
+  users,
+  insertWebhookSubscriptionSchema,
+  opportunityStageKeySchema,
+  type CustomFieldEntityType,
+  type CustomFieldValues,
+  type WebhookAction,
+  type WebhookDelivery,
+  type WebhookEntityType,
+} from "@shared/schema";
 import { and, desc, eq, inArray, sql } from "drizzle-orm";
 
 /** Extract org ID from API key (null = system key, no org restriction) */
@@ -22,6 +56,29 @@ function keyOrgOwns(record: { organizationId?: string | null } | null | undefine
   return record.organizationId === orgId;
 }
 
+// Fan a record-level mutation out to the org's webhook subscriptions (and,
+// for leads and activities, to lead rescoring)
+function emitExternalWebhook(
+  req: ApiKeyRequest,
+  entityType: WebhookEntityType,
+  action: WebhookAction,
+  record: { id: string; organizationId?: string | null },
+  previous?: unknown,
+) {
+  emitWebhookEvent({
+    organizationId: record.organizationId ?? getKeyOrgId(req),
+    entityType,
+    entityId: record.id,
+    action,
+    data: record,
+    previous,
+    source: "external_api",
+    apiKeyId: req.apiKey?.id ?? null,
+  });
+  if (entityType === "lead") rescoreLeadsForAudit("Lead", record.id, previous, record);
+  if (entityType === "activity") rescoreLeadsForAudit("Activity", record.id, previous, record);
+}
+
 // ===== ETag / optimistic-concurrency helpers (Phase: stale-write protection) =====
 
 /**
@@ -183,7 +240,7 @@ function parseEnumParam(value: unknown, name: string, allowed: readonly string[]
 const LEAD_STATUSES = ["new", "contacted", "qualified", "unqualified", "converted"] as const;
 const LEAD_SOURCES = ["website", "referral", "phone", "email", "event", "partner", "lead_generation", "other"] as const;
 const LEAD_RATINGS = ["hot", "warm", "cold"] as const;
-const OPPORTUNITY_STAGES = ["prospecting", "qualification", "proposal", "negotiation", "closed_won", "closed_lost"] as const;
+const LEAD_SORTS = ["createdAt", "score"] as const;
 
 /**
  * Machine-readable error codes for external API error responses.
@@ -199,6 +256,7 @@ export type ExternalApiErrorCode =
   | "IDEMPOTENCY_CONFLICT"  // 409 — externalId replayed with a different body
   | "CONVERSION_CONFLICT"   // 409 — convert retry disagrees with stored conversion
   | "STALE_RECORD"          // 412 — If-Match precondition failed
+  | "STAGE_REQUIREMENTS_NOT_MET" // 422 — opportunity misses a stage's exit criteria
   | "RATE_LIMITED";         // 429 — per-key rate limit exceeded
 
 /** Send a consistent error envelope: { error, code, message?, ...extra }. */
@@ -212,6 +270,65 @@ function apiError(
   return res.status(status).json({ error, code, ...extra });
 }
 
+/**
+ * Validate a create/PATCH body's customFields against the org's definitions,
+ * merged over `existing`. Sends the 400 and returns null when invalid;
+ * `values` is undefined when the body has no customFields.
+ */
+async function resolveExternalCustomFields(
+  res: Response,
+  orgId: string,
+  entity: CustomFieldEntityType,
+  input: unknown,
+  existing?: CustomFieldValues | null,
+): Promise<{ values: CustomFieldValues | undefined } | null> {
+  try {
+    return { values: await resolveCustomFieldsForWrite(orgId, entity, input, existing) };
+  } catch (error) {
+    if (error instanceof CustomFieldValidationError) {
+      apiError(res, 400, "VALIDATION_ERROR", "Validation failed", {
+        message: `The ${entity} custom fields are invalid`,
+        details: error.errors.map(e => ({ field: `customFields.${e.key}`, message: e.message })),
+      });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check an opportunity's stage against its organization's sales process.
+ * Sends the 400 (unknown stage) or 422 (exit criteria not met) and returns
+ * false when the write must not go ahead.
+ */
+async function checkExternalStage(
+  res: Response,
+  orgId: string | null,
+  fromStage: string | null,
+  opportunity: Record<string, any> & { stage: string },
+): Promise<boolean> {
+  try {
+    await assertStageChange(orgId, fromStage, opportunity);
+    return true;
+  } catch (error) {
+    if (error instanceof StageRequirementsError) {
+      apiError(res, 422, "STAGE_REQUIREMENTS_NOT_MET", "Stage requirements not met", {
+        message: error.message,
+        details: error.issues.map(issue => ({ field: issue.field, stage: issue.stage, message: issue.message })),
+      });
+      return false;
+    }
+    if (error instanceof SalesProcessError) {
+      apiError(res, 400, "VALIDATION_ERROR", "Validation failed", {
+        message: error.message,
+        details: [{ field: "stage", message: error.message }],
+      });
+      return false;
+    }
+    throw error;
+  }
+}
+
 const router = Router();
 
 // Apply API key authentication to all external routes
@@ -412,6 +529,7 @@ function formatAccountDetailResponse(account: any) {
     billingAddress: account.billingAddress ?? null,
     shippingAddress: account.shippingAddress ?? null,
     externalId: account.externalId ?? null,
+    customFields: account.customFields ?? {},
     createdAt: account.createdAt ?? null,
     updatedAt: account.updatedAt ?? null,
   };
@@ -474,6 +592,7 @@ router.get("/accounts", requirePermission("crm.read"), async (req: ApiKeyRequest
         ownerId: account.ownerId,
         industry: account.industry,
         externalId: account.externalId,
+        customFields: account.customFields ?? {},
         createdAt: account.createdAt,
         updatedAt: account.updatedAt,
       };
@@ -627,11 +746,44 @@ function formatOpportunityDetailResponse(opp: any) {
     billingEndDate: opp.billingEndDate ?? null,
     description: opp.description ?? null,
     externalId: opp.externalId ?? null,
+    customFields: opp.customFields ?? {},
+    priceBookId: opp.priceBookId ?? null,
+    rollUpLineItems: opp.rollUpLineItems ?? false,
     createdAt: opp.createdAt,
     updatedAt: opp.updatedAt,
   };
 }
 
+/** Line items with money formatted like the opportunity amount, plus their totals. */
+async function formatLineItemsResponse(opp: any) {
+  const { lineItems, summary } = await getOpportunityLineItems(opp);
+  return {
+    lineItems: lineItems.map(item => ({
+      id: item.id,
+      productId: item.productId,
+      name: item.name,
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitPrice: formatMoney(item.unitPrice),
+      discountPercent: Number(item.discountPercent),
+      billingType: item.billingType,
+      termMonths: item.termMonths,
+      totalPrice: formatMoney(item.totalPrice),
+      sortOrder: item.sortOrder,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+    })),
+    lineItemSummary: {
+      itemCount: summary.itemCount,
+      oneTimeTotal: formatMoney(summary.oneTimeTotal),
+      recurringMonthly: formatMoney(summary.recurringMonthly),
+      annualRecurring: formatMoney(summary.annualRecurring),
+      recurringTotal: formatMoney(summary.recurringTotal),
+      total: formatMoney(summary.total),
+    },
+  };
+}
+
 /**
  * GET /api/v1/external/opportunities
  * List all opportunities with optional filtering and pagination
@@ -640,7 +792,8 @@ function formatOpportunityDetailResponse(opp: any) {
  * - search: Case-insensitive substring match on opportunity name
  * - accountId: Exact account ID match
  * - status: Case-insensitive exact match on status text (e.g., Won, Lost, Open)
- * - stage: Pipeline stage (prospecting, qualification, proposal, negotiation, closed_won, closed_lost)
+ * - stage: Stage key from the organization's sales process (default: prospecting, qualification,
+ *   proposal, negotiation, closed_won, closed_lost)
  * - ownerId: Exact owner (user) ID match
  * - rating: Case-insensitive exact match (e.g., Hot, Warm, Cold)
  * - updatedSince: ISO 8601 timestamp
@@ -668,7 +821,8 @@ router.get("/opportunities", requirePermission("crm.read"), async (req: ApiKeyRe
     const updatedSinceParsed = parseDateParam(req.query.updatedSince, "updatedSince");
     if (updatedSinceParsed.error) return res.status(400).json(updatedSinceParsed.error);
     
-    const stageParsed = parseEnumParam(req.query.stage, "stage", OPPORTUNITY_STAGES);
+    const stageKeys = (await getSalesProcess(orgId)).map(stage => stage.key);
+    const stageParsed = parseEnumParam(req.query.stage, "stage", stageKeys);
     if (stageParsed.error) return res.status(400).json(stageParsed.error);
     
     if (!["true", "false", "all"].includes(includeInForecast as string)) {
@@ -722,6 +876,7 @@ router.get("/opportunities", requirePermission("crm.read"), async (req: ApiKeyRe
         implementationEndDate: opp.implementationEndDate,
         billingEndDate: opp.billingEndDate,
         externalId: opp.externalId,
+        customFields: opp.customFields ?? {},
         createdAt: opp.createdAt,
         updatedAt: opp.updatedAt,
       };
@@ -778,7 +933,7 @@ router.get("/opportunities", requirePermission("crm.read"), async (req: ApiKeyRe
  * Get a specific opportunity by ID
  * 
  * Query Parameters:
- * - expand: Comma-separated list of related entities (e.g., "account,resources")
+ * - expand: Comma-separated list of related entities (account, resources, contacts, tags, lineItems)
  */
 router.get("/opportunities/:id", requirePermission("crm.read"), async (req: ApiKeyRequest, res) => {
   try {
@@ -846,6 +1001,11 @@ router.get("/opportunities/:id", requirePermission("crm.read"), async (req: ApiK
       response.tags = orgVisibleTags(entityTags, orgId);
     }
     
+    // Optionally include product line items and their one-time/recurring totals
+    if (expandList.includes("lineItems")) {
+      Object.assign(response, await formatLineItemsResponse(opp));
+    }
+    
     attachVersion(res, response, opp.updatedAt);
     return res.json({ data: response });
   } catch (error) {
@@ -857,6 +1017,31 @@ router.get("/opportunities/:id", requirePermission("crm.read"), async (req: ApiK
   }
 });
 
+/**
+ * GET /api/v1/external/opportunities/:id/line-items
+ * Product line items on an opportunity with one-time and recurring totals
+ */
+router.get("/opportunities/:id/line-items", requirePermission("crm.read"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = getKeyOrgId(req);
+    const opp = await loadRecordForRead("Opportunity", (id) => storage.getOpportunityById(id), req.params.id, orgId);
+    if (!opp) {
+      return res.status(404).json({
+        error: "Opportunity not found",
+        message: `No opportunity found with ID: ${req.params.id}`
+      });
+    }
+    const { lineItems, lineItemSummary } = await formatLineItemsResponse(opp);
+    return res.json({ data: lineItems, summary: lineItemSummary, rollUpLineItems: opp.rollUpLineItems });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error fetching opportunity line items:", error);
+    return res.status(500).json({
+      error: "Failed to fetch opportunity line items",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
 // ========== OPPORTUNITY-CONTACT RELATIONSHIP ENDPOINTS ==========
 
 const linkContactSchema = z.object({
@@ -993,6 +1178,7 @@ function formatContactResponse(contact: any, account?: { id: string; name: strin
     mailingPostalCode: contact.mailingPostalCode ?? contact.mailing_postal_code ?? null,
     mailingCountry: contact.mailingCountry ?? contact.mailing_country ?? null,
     description: contact.description ?? null,
+    customFields: contact.customFields ?? contact.custom_fields ?? {},
     createdAt: contact.createdAt ?? contact.created_at ?? null,
     updatedAt: contact.updatedAt ?? contact.updated_at ?? null,
   };
@@ -1336,6 +1522,9 @@ const externalLeadSchema = z.object({
   notes: z.string().trim().max(2000).optional(),
   source: z.enum(["website", "referral", "phone", "email", "event", "partner", "lead_generation", "other"]).optional(),
   rating: z.enum(["hot", "warm", "cold"]).optional(),
+  state: z.string().trim().max(100).optional(),
+  country: z.string().trim().max(100).optional(),
+  customFields: z.record(z.unknown()).optional(),
 }).strict();
 
 /** Format a lead for external API responses.
@@ -1354,6 +1543,8 @@ function formatLeadResponse(lead: any, orgName: string | null) {
     status: lead.status,
     source: lead.source,
     rating: lead.rating,
+    state: lead.state ?? null,
+    country: lead.country ?? null,
     ownerId: lead.ownerId ?? lead.owner_id ?? null,
     externalId: lead.externalId ?? lead.external_id ?? null,
     convertedAccountId: lead.convertedAccountId ?? lead.converted_account_id ?? null,
@@ -1364,6 +1555,10 @@ function formatLeadResponse(lead: any, orgName: string | null) {
     archivedAt,
     organizationId: lead.organizationId ?? lead.organization_id ?? null,
     organizationName: orgName,
+    customFields: lead.customFields ?? lead.custom_fields ?? {},
+    score: lead.score ?? null,
+    scoreBreakdown: lead.scoreBreakdown ?? lead.score_breakdown ?? null,
+    scoredAt: lead.scoredAt ?? lead.scored_at ?? null,
     createdAt: lead.createdAt ?? lead.created_at ?? null,
     updatedAt: lead.updatedAt ?? lead.updated_at ?? null,
   };
@@ -1453,9 +1648,13 @@ router.post("/leads", requirePermission("crm.write"), async (req: ApiKeyRequest,
       }
     }
 
+    const customFields = await resolveExternalCustomFields(res, orgId, "lead", data.customFields);
+    if (!customFields) return;
+
     let lead;
     try {
-      lead = await storage.createLead({
+      // No owner is set here, so the organization's assignment rules route the lead
+      lead = await createRoutedLead({
         firstName: data.firstName,
         lastName: data.lastName,
         email: normalizedEmail,
@@ -1465,10 +1664,13 @@ router.post("/leads", requirePermission("crm.write"), async (req: ApiKeyRequest,
         topic: data.topic ?? data.notes ?? null,
         source: data.source ?? null,
         rating: data.rating ?? null,
+        state: data.state ?? null,
+        country: data.country ?? null,
         status: "new",
+        customFields: customFields.values,
         organizationId: orgId,
         sourceSystem: `External API (${req.apiKey?.name || "unknown key"})`,
-      } as any);
+      } as any, "external_api", null);
     } catch (createError: any) {
       // Unique index violation (leads_org_email_unique_idx): another request
       // with the same email won the race. Return the existing lead instead of a 500.
@@ -1493,6 +1695,7 @@ router.post("/leads", requirePermission("crm.write"), async (req: ApiKeyRequest,
       throw createError;
     }
 
+    emitExternalWebhook(req, "lead", "created", lead);
     return res.status(201).json({
       duplicate: false,
       data: formatLeadResponse(lead, organization.name),
@@ -1515,6 +1718,8 @@ router.post("/leads", requirePermission("crm.write"), async (req: ApiKeyRequest,
  * - status: Lead status (new, contacted, qualified, unqualified, converted)
  * - rating: Lead temperature (hot, warm, cold)
  * - source: Lead source (website, referral, phone, email, event, partner, lead_generation, other)
+ * - minScore: Only leads with a lead score of at least this (0-100)
+ * - sort: createdAt (default, newest first) or score (highest first, unscored last)
  * - includeArchived: true to include archived history (default false)
  * - updatedSince: ISO 8601 timestamp
  * - limit (default 100, max 1000), offset
@@ -1545,6 +1750,15 @@ router.get("/leads", requirePermission("crm.read"), async (req: ApiKeyRequest, r
     const sourceParsed = parseEnumParam(req.query.source, "source", LEAD_SOURCES);
     if (sourceParsed.error) return res.status(400).json(sourceParsed.error);
 
+    const sortParsed = parseEnumParam(req.query.sort, "sort", LEAD_SORTS);
+    if (sortParsed.error) return res.status(400).json(sortParsed.error);
+
+    const minScoreRaw = qs(req.query.minScore);
+    const minScore = minScoreRaw === undefined ? undefined : Number(minScoreRaw);
+    if (minScore !== undefined && !(Number.isInteger(minScore) && minScore >= 0 && minScore <= 100)) {
+      return res.status(400).json({ error: "Invalid minScore", message: "minScore must be an integer from 0 to 100" });
+    }
+
     const includeArchivedRaw = qs(req.query.includeArchived);
     if (includeArchivedRaw !== undefined && includeArchivedRaw !== "true" && includeArchivedRaw !== "false") {
       return apiError(res, 400, "VALIDATION_ERROR", "Invalid includeArchived value", {
@@ -1566,6 +1780,8 @@ router.get("/leads", requirePermission("crm.read"), async (req: ApiKeyRequest, r
       updatedSince: updatedSinceParsed.date,
       tagId: tagFilter.tagId,
       includeArchived,
+      minScore,
+      sort: sortParsed.value as typeof LEAD_SORTS[number] | undefined,
     });
     leads = await includeExactIdMatch("Lead", leads as any, qs(req.query.search), orgId, (id) => storage.getLeadById(id));
     leads = await applyLegacyIdListFilter("Lead", leads as any, qs(req.query.legacyId));
@@ -1722,6 +1938,7 @@ function makeLeadLifecycleHandler(action: "archive" | "restore") {
       }).catch(err => {
         console.error(`[EXTERNAL-API] Failed to create Lead ${verb} audit log:`, err);
       });
+      emitExternalWebhook(req, "lead", archive ? "archived" : "restored", updated, existing);
 
       const organization = await storage.getOrganizationById(orgId);
       const payload = await withLegacyId("Lead", formatLeadResponse(updated, organization?.name ?? null));
@@ -1758,6 +1975,7 @@ const externalActivitySchema = z.object({
   // Optional client-supplied idempotency token: replays with the same
   // (org, externalId) return the original activity instead of a duplicate.
   externalId: z.string().trim().min(1).max(100).optional(),
+  customFields: z.record(z.unknown()).optional(),
 }).strict().refine(
   (data) => {
     // relatedType and relatedId must both be present or both absent
@@ -1783,6 +2001,7 @@ function formatCreatedActivity(activity: any) {
     relatedId: activity.relatedId,
     externalId: activity.externalId ?? null,
     organizationId: activity.organizationId,
+    customFields: activity.customFields ?? {},
     createdAt: activity.createdAt,
     updatedAt: activity.updatedAt,
   };
@@ -1836,6 +2055,9 @@ router.post("/activities", requirePermission("activities.write"), async (req: Ap
       }
     }
 
+    const customFields = await resolveExternalCustomFields(res, orgId, "activity", data.customFields);
+    if (!customFields) return;
+
     const activityValues = {
       organizationId: orgId,
       type: data.type,
@@ -1849,6 +2071,7 @@ router.post("/activities", requirePermission("activities.write"), async (req: Ap
       relatedId: data.relatedId ?? null,
       externalId: data.externalId ?? null,
       ownerId: null,
+      customFields: customFields.values,
     } as any;
 
     // Create the activity record. When an externalId idempotency token is
@@ -1887,6 +2110,7 @@ router.post("/activities", requirePermission("activities.write"), async (req: Ap
       });
     }
 
+    emitExternalWebhook(req, "activity", "created", activity);
     return res.status(201).json({ data: formatCreatedActivity(activity) });
   } catch (error) {
     console.error("[EXTERNAL-API] Error creating activity:", error);
@@ -1920,6 +2144,7 @@ function formatActivityResponse(activity: any) {
     relatedId: activity.relatedId,
     organizationId: activity.organizationId,
     externalId: activity.externalId,
+    customFields: activity.customFields ?? {},
     createdAt: activity.createdAt,
     updatedAt: activity.updatedAt,
   };
@@ -2264,6 +2489,7 @@ for (const [entityKey, cfg] of Object.entries(TAG_ENTITIES)) {
 
       // Idempotent: onConflictDoNothing under the hood
       await storage.addEntityTags(cfg.label, req.params.id, [tag.id], null);
+      if (cfg.label === "Lead") scheduleLeadRescore([req.params.id]);
 
       const entityTags = await storage.getEntityTags(cfg.label, req.params.id);
       return res.json({ data: orgVisibleTags(entityTags, orgId) });
@@ -2297,6 +2523,7 @@ for (const [entityKey, cfg] of Object.entries(TAG_ENTITIES)) {
       }
 
       await storage.removeEntityTag(cfg.label, req.params.id, tag.id);
+      if (cfg.label === "Lead") scheduleLeadRescore([req.params.id]);
       return res.status(204).send();
     } catch (error) {
       console.error(`[EXTERNAL-API] Error removing ${cfg.label} tag:`, error);
@@ -2450,6 +2677,15 @@ function makePatchHandler(cfg: PatchEntityConfig) {
         }
       }
 
+      // Custom field values: validated against the record org's definitions and
+      // merged over the stored values, so omitted keys are left unchanged
+      if (updates.customFields !== undefined) {
+        const recordOrgId = (existing as any).organizationId ?? orgId;
+        const resolved = await resolveExternalCustomFields(res, recordOrgId ?? "", cfg.entity, updates.customFields, (existing as any).customFields);
+        if (!resolved) return;
+        updates.customFields = resolved.values;
+      }
+
       // Opportunity date invariants, validated against the merged record
       // (mirrors the internal opportunity update route)
       if (cfg.entity === "opportunity") {
@@ -2468,6 +2704,12 @@ function makePatchHandler(cfg: PatchEntityConfig) {
         }
       }
 
+      // Stage changes follow the organization's sales process
+      if (cfg.entity === "opportunity" && typeof updates.stage === "string") {
+        const recordOrgId = (existing as any).organizationId ?? orgId;
+        if (!(await checkExternalStage(res, recordOrgId, (existing as any).stage, { ...existing, ...updates, stage: updates.stage }))) return;
+      }
+
       // Optional optimistic concurrency: If-Match header carries the ETag the
       // client last saw. On mismatch the write is rejected with 412 so a stale
       // client can never silently overwrite a newer version of the record.
@@ -2524,7 +2766,7 @@ function makePatchHandler(cfg: PatchEntityConfig) {
       // Record-level mutation audit log (in addition to the request-level middleware log)
       const before: Record<string, any> = {};
       for (const key of Object.keys(updates)) before[key] = (existing as any)[key] ?? null;
-      storage.createAuditLog({
+      const patchAudit = storage.createAuditLog({
         actorId: null,
         action: "external_api_patch",
         resource: cfg.label,
@@ -2535,6 +2777,25 @@ function makePatchHandler(cfg: PatchEntityConfig) {
         userAgent: req.headers["user-agent"] || null,
       }).catch(err => {
         console.error("[EXTERNAL-API] Failed to create PATCH audit log:", err);
+        return null;
+      });
+      if (cfg.entity === "opportunity") {
+        patchAudit.then(log => recordOpportunityChange({
+          before: existing,
+          after: updated,
+          source: "external_api",
+          apiKeyId: req.apiKey?.id ?? null,
+          auditLogId: log?.id ?? null,
+        }));
+      }
+      emitExternalWebhook(req, cfg.entity, "updated", updated, existing);
+      notifyRecordReassigned({
+        resource: cfg.label,
+        action: "external_api_patch",
+        before: existing,
+        after: updated,
+        actorId: null,
+        organizationId: (updated as any).organizationId ?? orgId,
       });
 
       const updatedPayload = await withLegacyId(
@@ -2957,6 +3218,7 @@ const externalAccountCreateSchema = z.object({
   billingAddress: optCreateStr(1000),
   shippingAddress: optCreateStr(1000),
   externalId: z.string().trim().min(1).max(100).optional(),
+  customFields: z.record(z.unknown()).optional(),
 }).strict();
 
 const externalContactCreateSchema = z.object({
@@ -2976,6 +3238,7 @@ const externalContactCreateSchema = z.object({
   description: optCreateStr(5000),
   ownerId: optCreateStr(50),
   externalId: z.string().trim().min(1).max(100).optional(),
+  customFields: z.record(z.unknown()).optional(),
 }).strict();
 
 const isoCreateDate = z.string().trim().min(1).refine(
@@ -2991,7 +3254,7 @@ const externalOpportunityCreateSchema = z.object({
   accountId: z.string().trim().min(1).max(100),
   name: z.string().trim().min(1).max(300),
   closeDate: isoCreateDate,
-  stage: z.enum(["prospecting", "qualification", "proposal", "negotiation", "closed_won", "closed_lost"]).optional(),
+  stage: opportunityStageKeySchema.optional(),
   amount: decimalCreate.optional(),
   ownerId: optCreateStr(50),
   probability: z.number().int().min(0).max(100).nullable().optional(),
@@ -3007,6 +3270,7 @@ const externalOpportunityCreateSchema = z.object({
   billingEndDate: isoCreateDate.nullable().optional(),
   description: optCreateStr(10000),
   externalId: z.string().trim().min(1).max(100).optional(),
+  customFields: z.record(z.unknown()).optional(),
 }).strict();
 
 async function assertOwnerInOrg(ownerId: string | null | undefined, orgId: string, res: Response): Promise<boolean> {
@@ -3038,6 +3302,8 @@ router.post("/accounts", requirePermission("crm.write"), async (req: ApiKeyReque
     }
     const data = parsed.data;
     if (!(await assertOwnerInOrg(data.ownerId, orgId, res))) return;
+    const customFields = await resolveExternalCustomFields(res, orgId, "account", data.customFields);
+    if (!customFields) return;
 
     const values = {
       name: data.name,
@@ -3050,6 +3316,7 @@ router.post("/accounts", requirePermission("crm.write"), async (req: ApiKeyReque
       phone: data.phone ?? null,
       billingAddress: data.billingAddress ?? null,
       shippingAddress: data.shippingAddress ?? null,
+      customFields: customFields.values,
       organizationId: orgId,
       externalId: data.externalId ?? null,
       sourceSystem: `External API (${req.apiKey?.name || "unknown key"})`,
@@ -3078,6 +3345,7 @@ router.post("/accounts", requirePermission("crm.write"), async (req: ApiKeyReque
 
     const payload = await withLegacyId("Account", formatAccountDetailResponse(account));
     attachVersion(res, payload, account.updatedAt);
+    emitExternalWebhook(req, "account", "created", account);
     return res.status(201).json({ duplicate: false, data: payload });
   } catch (error) {
     console.error("[EXTERNAL-API] Error creating account:", error);
@@ -3112,6 +3380,9 @@ router.post("/contacts", requirePermission("crm.write"), async (req: ApiKeyReque
       }
     }
 
+    const customFields = await resolveExternalCustomFields(res, orgId, "contact", data.customFields);
+    if (!customFields) return;
+
     const values = {
       firstName: data.firstName,
       lastName: data.lastName,
@@ -3128,6 +3399,7 @@ router.post("/contacts", requirePermission("crm.write"), async (req: ApiKeyReque
       mailingCountry: data.mailingCountry ?? null,
       description: data.description ?? null,
       ownerId: data.ownerId ?? null,
+      customFields: customFields.values,
       organizationId: orgId,
       externalId: data.externalId ?? null,
       sourceSystem: `External API (${req.apiKey?.name || "unknown key"})`,
@@ -3160,6 +3432,7 @@ router.post("/contacts", requirePermission("crm.write"), async (req: ApiKeyReque
 
     const payload = await withLegacyId("Contact", formatContactResponse(contact));
     attachVersion(res, payload, contact.updatedAt);
+    emitExternalWebhook(req, "contact", "created", contact);
     return res.status(201).json({ duplicate: false, data: payload });
   } catch (error) {
     console.error("[EXTERNAL-API] Error creating contact:", error);
@@ -3205,12 +3478,15 @@ router.post("/opportunities", requirePermission("crm.write"), async (req: ApiKey
         message: "billingEndDate must not be before implementationEndDate",
       });
     }
+    const customFields = await resolveExternalCustomFields(res, orgId, "opportunity", data.customFields);
+    if (!customFields) return;
+    const stage = data.stage ?? await resolveNewOpportunityStage(orgId);
 
     const values = {
       accountId: data.accountId,
       name: data.name,
       closeDate: new Date(data.closeDate),
-      stage: data.stage ?? "prospecting",
+      stage,
       amount: data.amount ?? null,
       ownerId: data.ownerId ?? null,
       probability: data.probability ?? 0,
@@ -3225,10 +3501,12 @@ router.post("/opportunities", requirePermission("crm.write"), async (req: ApiKey
       implementationEndDate: endDate,
       billingEndDate: billingEnd,
       description: data.description ?? null,
+      customFields: customFields.values,
       organizationId: orgId,
       externalId: data.externalId ?? null,
       sourceSystem: `External API (${req.apiKey?.name || "unknown key"})`,
     } as any;
+    if (!(await checkExternalStage(res, orgId, null, values))) return;
 
     let opportunity;
     let created = true;
@@ -3253,6 +3531,8 @@ router.post("/opportunities", requirePermission("crm.write"), async (req: ApiKey
 
     const payload = await withLegacyId("Opportunity", formatOpportunityDetailResponse(opportunity));
     attachVersion(res, payload, opportunity.updatedAt);
+    await recordOpportunityChange({ before: null, after: opportunity, source: "external_api", apiKeyId: req.apiKey?.id ?? null });
+    emitExternalWebhook(req, "opportunity", "created", opportunity);
     return res.status(201).json({ duplicate: false, data: payload });
   } catch (error) {
     console.error("[EXTERNAL-API] Error creating opportunity:", error);
@@ -3278,7 +3558,7 @@ const externalLeadConvertSchema = z.object({
   opportunity: z.object({
     name: z.string().trim().min(1).max(300).optional(),
     amount: decimalCreate.optional(),
-    stage: z.enum(["prospecting", "qualification", "proposal", "negotiation", "closed_won", "closed_lost"]).optional(),
+    stage: opportunityStageKeySchema.optional(),
     closeDate: isoCreateDate.optional(),
     probability: z.number().int().min(0).max(100).optional(),
   }).strict().optional(),
@@ -3305,14 +3585,26 @@ router.post("/leads/:id/convert", requirePermission("crm.write"), async (req: Ap
       });
     }
     const data = parsed.data;
+    let opportunityStage: string | undefined;
+    if (data.createOpportunity) {
+      try {
+        opportunityStage = await resolveNewOpportunityStage(orgId, data.opportunity?.stage);
+      } catch (error) {
+        if (!(error instanceof SalesProcessError)) throw error;
+        return apiError(res, 400, "VALIDATION_ERROR", "Validation failed", {
+          message: error.message,
+          details: [{ field: "opportunity.stage", message: error.message }],
+        });
+      }
+    }
     const result = await storage.convertLead(req.params.id, orgId, {
       accountId: data.accountId,
       createAccount: data.accountId ? false : data.createAccount !== false,
       accountData: data.account,
       createContact: data.createContact !== false,
       createOpportunity: data.createOpportunity === true,
-      opportunityData: data.opportunity
-        ? { ...data.opportunity, includeInForecast: data.includeInForecast }
+      opportunityData: data.opportunity || opportunityStage
+        ? { ...data.opportunity, stage: opportunityStage, includeInForecast: data.includeInForecast }
         : (data.includeInForecast !== undefined ? { includeInForecast: data.includeInForecast } : undefined),
     });
 
@@ -3360,6 +3652,12 @@ router.post("/leads/:id/convert", requirePermission("crm.write"), async (req: Ap
 
     attachVersion(res, leadPayload, result.lead.updatedAt);
     const created = result.status === "converted";
+    if (created) {
+      if (result.opportunity) {
+        await recordOpportunityChange({ before: null, after: result.opportunity, source: "external_api", apiKeyId: req.apiKey?.id ?? null });
+      }
+      emitExternalWebhook(req, "lead", "converted", result.lead);
+    }
     return res.status(created ? 201 : 200).json({
       converted: true,
       created,
@@ -3481,6 +3779,7 @@ router.post("/comments", async (req: ApiKeyRequest, res) => {
       depth,
       createdBy,
     }).returning();
+    rescoreLeadsForAudit("Comment", created.id, null, created);
     const author = await storage.getUserById(createdBy);
     return res.status(201).json({ data: formatExternalComment(created, author?.name ?? null) });
   } catch (error) {
@@ -3656,6 +3955,7 @@ for (const [entityKey, cfg] of Object.entries(COMMENT_ROUTE_ENTITIES)) {
         depth,
         createdBy,
       }).returning();
+      rescoreLeadsForAudit("Comment", created.id, null, created);
       const author = await storage.getUserById(createdBy);
       return res.status(201).json({ data: formatExternalComment(created, author?.name ?? null) });
     } catch (error) {
@@ -3665,4 +3965,146 @@ for (const [entityKey, cfg] of Object.entries(COMMENT_ROUTE_ENTITIES)) {
   });
 }
 
+
+// ========== WEBHOOK SUBSCRIPTIONS ==========
+// Subscriptions receive full CRM records, so managing them requires both
+// crm.read and crm.write, and an API key bound to an organization.
+
+const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed", "dead_letter"] as const;
+
+function requireWebhookOrg(req: ApiKeyRequest, res: Response): string | undefined {
+  const orgId = getKeyOrgId(req);
+  if (!orgId) {
+    apiError(res, 403, "INSUFFICIENT_SCOPE", "Organization-bound API key required", {
+      message: "Webhook subscriptions require an API key bound to an organization",
+    });
+  }
+  return orgId;
+}
+
+function webhookValidationError(res: Response, error: z.ZodError) {
+  return apiError(res, 400, "VALIDATION_ERROR", "Validation failed", {
+    message: "The webhook payload is invalid",
+    details: error.errors.map(e => ({ field: e.path.join(".") || "(root)", message: e.message })),
+  });
+}
+
+/**
+ * GET /api/v1/external/webhooks
+ * List webhook subscriptions for the key's organization (secrets are never returned).
+ */
+router.get("/webhooks", requirePermission("crm.read"), requirePermission("crm.write"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = requireWebhookOrg(req, res);
+    if (!orgId) return;
+    const subscriptions = await listWebhookSubscriptions(orgId);
+    return res.json({ data: subscriptions.map(formatWebhookSubscription) });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error listing webhooks:", error);
+    return res.status(500).json({ error: "Failed to list webhooks", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+});
+
+/**
+ * POST /api/v1/external/webhooks
+ * Body: { name, url, events?: string[], description?, isActive? }
+ * The HMAC signing secret is returned once in the response.
+ */
+router.post("/webhooks", requirePermission("crm.read"), requirePermission("crm.write"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = requireWebhookOrg(req, res);
+    if (!orgId) return;
+    const parsed = insertWebhookSubscriptionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return webhookValidationError(res, parsed.error);
+    const { subscription, secret } = await createWebhookSubscription(orgId, parsed.data, null);
+    return res.status(201).json({ data: { ...formatWebhookSubscription(subscription), secret } });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error creating webhook:", error);
+    return res.status(500).json({ error: "Failed to create webhook", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+});
+
+/**
+ * PATCH /api/v1/external/webhooks/:id
+ */
+router.patch("/webhooks/:id", requirePermission("crm.read"), requirePermission("crm.write"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = requireWebhookOrg(req, res);
+    if (!orgId) return;
+    const parsed = insertWebhookSubscriptionSchema.partial().safeParse(req.body ?? {});
+    if (!parsed.success) return webhookValidationError(res, parsed.error);
+    const updated = await updateWebhookSubscription(req.params.id, orgId, parsed.data);
+    if (!updated) {
+      return apiError(res, 404, "NOT_FOUND", "Webhook not found", { message: `No webhook found with ID: ${req.params.id}` });
+    }
+    return res.json({ data: formatWebhookSubscription(updated) });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error updating webhook:", error);
+    return res.status(500).json({ error: "Failed to update webhook", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+});
+
+/**
+ * DELETE /api/v1/external/webhooks/:id
+ */
+router.delete("/webhooks/:id", requirePermission("crm.read"), requirePermission("crm.write"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = requireWebhookOrg(req, res);
+    if (!orgId) return;
+    const deleted = await deleteWebhookSubscription(req.params.id, orgId);
+    if (!deleted) {
+      return apiError(res, 404, "NOT_FOUND", "Webhook not found", { message: `No webhook found with ID: ${req.params.id}` });
+    }
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error deleting webhook:", error);
+    return res.status(500).json({ error: "Failed to delete webhook", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+});
+
+/**
+ * GET /api/v1/external/webhooks/:id/deliveries?status=dead_letter&limit=50
+ */
+router.get("/webhooks/:id/deliveries", requirePermission("crm.read"), requirePermission("crm.write"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = requireWebhookOrg(req, res);
+    if (!orgId) return;
+    const subscription = await getWebhookSubscription(req.params.id, orgId);
+    if (!subscription) {
+      return apiError(res, 404, "NOT_FOUND", "Webhook not found", { message: `No webhook found with ID: ${req.params.id}` });
+    }
+    const statusParsed = parseEnumParam(req.query.status, "status", WEBHOOK_DELIVERY_STATUSES);
+    if (statusParsed.error) return res.status(400).json(statusParsed.error);
+    const limit = Math.min(parseInt(qs(req.query.limit) || "100", 10) || 100, 500);
+    const deliveries = await listWebhookDeliveries(orgId, {
+      subscriptionId: subscription.id,
+      status: statusParsed.value as WebhookDelivery["status"] | undefined,
+      limit,
+    });
+    return res.json({ data: deliveries });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error listing webhook deliveries:", error);
+    return res.status(500).json({ error: "Failed to list webhook deliveries", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+});
+
+/**
+ * POST /api/v1/external/webhook-deliveries/:id/redeliver
+ * Re-send a delivery immediately (including dead-lettered ones).
+ */
+router.post("/webhook-deliveries/:id/redeliver", requirePermission("crm.read"), requirePermission("crm.write"), async (req: ApiKeyRequest, res) => {
+  try {
+    const orgId = requireWebhookOrg(req, res);
+    if (!orgId) return;
+    const delivery = await redeliverWebhook(req.params.id, orgId);
+    if (!delivery) {
+      return apiError(res, 404, "NOT_FOUND", "Webhook delivery not found", { message: `No webhook delivery found with ID: ${req.params.id}` });
+    }
+    return res.json({ data: delivery });
+  } catch (error) {
+    console.error("[EXTERNAL-API] Error redelivering webhook:", error);
+    return res.status(500).json({ error: "Failed to redeliver webhook", message: error instanceof Error ? error.message : "Unknown error" });
+  }
+});
+
 export default router;
@@ -9,6 +9,7 @@
 // - No arbitrary database updates are possible.
 
 import { z } from "zod";
+import { opportunityStageKeySchema } from "@shared/schema";
 
 /**
  * Fields that can NEVER be modified through the external PATCH API,
@@ -36,15 +37,18 @@ export const MUTABLE_FIELDS: Record<string, readonly string[]> = {
   account: [
     "name", "accountNumber", "type", "category", "ownerId", "industry",
     "website", "phone", "billingAddress", "shippingAddress", "externalId",
+    "customFields",
   ],
   contact: [
     "accountId", "firstName", "lastName", "email", "phone", "mobile",
     "title", "department", "mailingStreet", "mailingCity", "mailingState",
     "mailingPostalCode", "mailingCountry", "description", "ownerId", "externalId",
+    "customFields",
   ],
   lead: [
     "firstName", "lastName", "title", "company", "email", "phone", "topic",
-    "status", "source", "rating", "ownerId", "externalId",
+    "status", "source", "rating", "state", "country", "ownerId", "externalId",
+    "customFields",
   ],
   opportunity: [
     // NOTE: categories/operationalAreas (text[] columns) are intentionally
@@ -53,11 +57,11 @@ export const MUTABLE_FIELDS: Record<string, readonly string[]> = {
     "probability", "status", "actualCloseDate", "actualRevenue",
     "estCloseDate", "estRevenue", "rating", "includeInForecast",
     "implementationStartDate", "implementationEndDate", "billingEndDate",
-    "description", "externalId",
+    "description", "externalId", "customFields",
   ],
   activity: [
     "type", "subject", "status", "priority", "dueAt", "completedAt",
-    "notes", "ownerId", "externalId",
+    "notes", "ownerId", "externalId", "customFields",
   ],
 };
 
@@ -69,6 +73,9 @@ const decimalStr = z.union([z.number(), z.string()])
   .refine(v => /^-?\d+(\.\d+)?$/.test(v), "Must be a decimal number")
   .nullable();
 const optStr = (max: number) => z.string().trim().max(max).nullable().optional();
+// Shape only — values are checked against the org's custom field definitions
+// in the route, and the object is merged key-by-key over the stored values.
+const customFields = z.record(z.unknown()).optional();
 
 export const PATCH_SCHEMAS: Record<string, z.ZodObject<any>> = {
   account: z.object({
@@ -83,6 +90,7 @@ export const PATCH_SCHEMAS: Record<string, z.ZodObject<any>> = {
     billingAddress: optStr(1000),
     shippingAddress: optStr(1000),
     externalId: optStr(200),
+    customFields,
   }),
   contact: z.object({
     accountId: optStr(100),
@@ -101,6 +109,7 @@ export const PATCH_SCHEMAS: Record<string, z.ZodObject<any>> = {
     description: optStr(5000),
     ownerId: optStr(50),
     externalId: optStr(200),
+    customFields,
   }),
   lead: z.object({
     firstName: z.string().trim().min(1).max(200).optional(),
@@ -113,13 +122,16 @@ export const PATCH_SCHEMAS: Record<string, z.ZodObject<any>> = {
     status: z.enum(["new", "contacted", "qualified", "unqualified", "converted"]).optional(),
     source: z.enum(["website", "referral", "phone", "email", "event", "partner", "lead_generation", "other"]).nullable().optional(),
     rating: z.enum(["hot", "warm", "cold"]).nullable().optional(),
+    state: optStr(100),
+    country: optStr(100),
     ownerId: optStr(50),
     externalId: optStr(200),
+    customFields,
   }),
   opportunity: z.object({
     accountId: z.string().trim().min(1).max(100).optional(),
     name: z.string().trim().min(1).max(300).optional(),
-    stage: z.enum(["prospecting", "qualification", "proposal", "negotiation", "closed_won", "closed_lost"]).optional(),
+    stage: opportunityStageKeySchema.optional(), // checked against the org's sales process
     amount: decimalStr.optional(),
     closeDate: z.string().datetime({ offset: true }).transform(s => new Date(s)).optional(),
     ownerId: optStr(50),
@@ -136,6 +148,7 @@ export const PATCH_SCHEMAS: Record<string, z.ZodObject<any>> = {
     billingEndDate: isoDate.optional(),
     description: optStr(10000),
     externalId: optStr(200),
+    customFields,
   }),
   activity: z.object({
     type: z.enum(["call", "email", "meeting", "task", "note"]).optional(),
@@ -147,6 +160,7 @@ export const PATCH_SCHEMAS: Record<string, z.ZodObject<any>> = {
     notes: optStr(10000),
     ownerId: optStr(50),
     externalId: optStr(200),
+    customFields,
   }),
 };
 
@@ -0,0 +1,327 @@
+// Background CSV import jobs
+// A job stores the uploaded file and the resolved import options, and the
+// worker imports it row by row, saving progress counters and failed rows after
+// each row so the job can be paused, cancelled, or picked up again after a
+// restart. Records a job creates carry its id in import_job_id, which is what
+// rollback deletes by.
+
+import { and, desc, eq, getTableColumns, inArray, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import type { CsvImportEntity, ImportJob, ImportJobError, ImportJobSource } from "@shared/schema";
+import { recordAudit, type AuditActor } from "./audit-service";
+import {
+  CsvImportError,
+  importCsvRow,
+  parseCsvRecords,
+  type PreparedCsvImport,
+} from "./csv-import-service";
+import {
+  IMPORT_JOB_ACTION_RESULT,
+  IMPORT_JOB_TRANSITIONS,
+  buildImportErrorCsv,
+  canApplyImportJobAction,
+  type ImportJobAction,
+} from "./lib/import-jobs";
+
+// Job counter bumped for each row outcome
+const OUTCOME_COUNTERS = {
+  create: "createdCount",
+  update: "updatedCount",
+  unchanged: "unchangedCount",
+  skip: "skippedCount",
+  error: "failedCount",
+} as const;
+// A running job whose heartbeat is older than this was interrupted (crash or
+// restart) and is claimed again; it resumes at processedRows.
+const STALE_HEARTBEAT_SECONDS = 5 * 60;
+const LIST_LIMIT = 50;
+
+// Tables rollback deletes from, per import entity
+const ROLLBACK_TABLES = {
+  accounts: schema.accounts,
+  contacts: schema.contacts,
+  leads: schema.leads,
+  opportunities: schema.opportunities,
+  activities: schema.activities,
+} satisfies Record<CsvImportEntity, unknown>;
+
+export interface CreateImportJobInput {
+  orgId: string;
+  userId: string;
+  entity: CsvImportEntity;
+  source?: ImportJobSource;
+  fileName?: string | null;
+  content: Buffer | string;
+  /** From prepareCsvImport, so permission and mapping errors surface before queueing; dryRun is ignored. */
+  options: PreparedCsvImport;
+}
+
+/** Check the file parses, store the job as queued and wake the worker. */
+export async function createImportJob(input: CreateImportJobInput): Promise<ImportJob> {
+  const { mode, matchOn, mapping } = input.options;
+  const content = input.content.toString("utf-8");
+
+  let totalRows: number;
+  try {
+    totalRows = parseCsvRecords(content).length;
+  } catch (error: any) {
+    throw new CsvImportError(`Could not parse CSV: ${error.message}`);
+  }
+
+  const [job] = await db.insert(schema.importJobs).values({
+    organizationId: input.orgId,
+    entity: input.entity,
+    source: input.source ?? "csv",
+    fileName: input.fileName ?? null,
+    options: { mode, matchOn, mapping },
+    fileContent: content,
+    totalRows,
+    createdBy: input.userId,
+  }).returning();
+
+  kickImportJobWorker();
+  return job;
+}
+
+export async function getImportJob(id: string): Promise<ImportJob | undefined> {
+  const [job] = await db.select().from(schema.importJobs).where(eq(schema.importJobs.id, id));
+  return job;
+}
+
+/**
+ * Recent jobs in the organization plus the caller's own jobs elsewhere (lead
+ * imports run in the caller's default organization). The file content is
+ * left out.
+ */
+export async function listImportJobs(orgId: string, userId: string, entity?: CsvImportEntity): Promise<Omit<ImportJob, "fileContent">[]> {
+  const { fileContent, ...columns } = getTableColumns(schema.importJobs);
+  return db.select(columns).from(schema.importJobs)
+    .where(and(
+      or(eq(schema.importJobs.organizationId, orgId), eq(schema.importJobs.createdBy, userId)),
+      entity ? eq(schema.importJobs.entity, entity) : undefined,
+    ))
+    .orderBy(desc(schema.importJobs.createdAt))
+    .limit(LIST_LIMIT);
+}
+
+export async function listImportJobErrors(jobId: string): Promise<ImportJobError[]> {
+  return db.select().from(schema.importJobErrors)
+    .where(eq(schema.importJobErrors.jobId, jobId))
+    .orderBy(schema.importJobErrors.rowNumber);
+}
+
+export async function buildImportJobErrorFile(jobId: string): Promise<string> {
+  return buildImportErrorCsv(await listImportJobErrors(jobId));
+}
+
+/** Pause, resume or cancel. Throws 409 when the job's status doesn't allow it. */
+export async function changeImportJobStatus(job: ImportJob, action: Exclude<ImportJobAction, "rollback">): Promise<ImportJob> {
+  const status = IMPORT_JOB_ACTION_RESULT[action];
+  const [updated] = await db.update(schema.importJobs)
+    .set({
+      status,
+      ...(action === "cancel" ? { completedAt: new Date(), fileContent: null } : {}),
+    })
+    .where(and(
+      eq(schema.importJobs.id, job.id),
+      inArray(schema.importJobs.status, [...IMPORT_JOB_TRANSITIONS[action]]),
+    ))
+    .returning();
+  if (!updated) {
+    const current = await getImportJob(job.id);
+    throw new CsvImportError(`Cannot ${action} an import that is ${current?.status ?? job.status}`, 409);
+  }
+  if (action === "resume") kickImportJobWorker();
+  return updated;
+}
+
+/**
+ * Delete every record the job created. Updates made by upsert/update imports
+ * are not reverted. Refuses (409) when other data would go with the records:
+ * opportunities outside this import under its accounts (they cascade), or
+ * references without a cascade such as converted leads.
+ */
+export async function rollbackImportJob(job: ImportJob, actor: AuditActor): Promise<ImportJob> {
+  if (!canApplyImportJobAction(job.status, "rollback")) {
+    throw new CsvImportError(`Cannot roll back an import that is ${job.status}`, 409);
+  }
+  const table = ROLLBACK_TABLES[job.entity];
+
+  let updated: ImportJob;
+  try {
+    updated = await db.transaction(async (tx) => {
+      // Claims the job row first so concurrent rollbacks can't both proceed
+      const [claimed] = await tx.update(schema.importJobs)
+        .set({ status: "rolled_back", rolledBackAt: new Date() })
+        .where(and(
+          eq(schema.importJobs.id, job.id),
+          inArray(schema.importJobs.status, [...IMPORT_JOB_TRANSITIONS.rollback]),
+        ))
+        .returning();
+      if (!claimed) {
+        throw new CsvImportError("The import changed while rolling back; reload and try again", 409);
+      }
+
+      if (job.entity === "accounts") {
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+          .from(schema.opportunities)
+          .where(inArray(
+            schema.opportunities.accountId,
+            tx.select({ id: schema.accounts.id }).from(schema.accounts).where(eq(schema.accounts.importJobId, job.id)),
+          ));
+        if (count > 0) {
+          throw new CsvImportError(`${count} opportunit${count === 1 ? "y belongs" : "ies belong"} to accounts from this import. Delete or move them before rolling back.`, 409);
+        }
+      }
+
+      const deleted = await tx.delete(table)
+        .where(and(eq(table.importJobId, job.id), eq(table.organizationId, job.organizationId)))
+        .returning({ id: table.id });
+
+      const [result] = await tx.update(schema.importJobs)
+        .set({ rolledBackCount: deleted.length })
+        .where(eq(schema.importJobs.id, job.id))
+        .returning();
+      return result;
+    });
+  } catch (error: any) {
+    if (error?.code === "23503") {
+      throw new CsvImportError("Some records from this import are referenced by other records (for example converted leads). Remove those references before rolling back.", 409);
+    }
+    throw error;
+  }
+
+  await recordAudit(actor, "rollback", "ImportJob", job.id, omitFileContent(job), omitFileContent(updated));
+  return updated;
+}
+
+function omitFileContent(job: ImportJob) {
+  const { fileContent, ...rest } = job;
+  return rest;
+}
+
+// ---------- Worker ----------
+
+/** Claim the oldest queued (or interrupted) job and mark it running. */
+async function claimNextImportJob(): Promise<ImportJob | undefined> {
+  const [job] = await db.update(schema.importJobs)
+    .set({
+      status: "running",
+      startedAt: sql`coalesce(${schema.importJobs.startedAt}, now())`,
+      heartbeatAt: new Date(),
+    })
+    .where(eq(schema.importJobs.id, sql`(
+      SELECT id FROM import_jobs
+      WHERE status = 'queued'
+         OR (status = 'running' AND heartbeat_at < now() - make_interval(secs => ${STALE_HEARTBEAT_SECONDS}))
+      ORDER BY created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`))
+    .returning();
+  return job;
+}
+
+async function finishImportJob(jobId: string, status: "completed" | "failed", errorMessage: string | null = null) {
+  await db.update(schema.importJobs)
+    .set({ status, errorMessage, completedAt: new Date(), fileContent: null })
+    // A pause or cancel that landed after the last row wins
+    .where(and(eq(schema.importJobs.id, jobId), eq(schema.importJobs.status, "running")));
+}
+
+/** Import the job from processedRows on, one row at a time, until done, paused or cancelled. */
+async function runImportJob(job: ImportJob): Promise<void> {
+  if (!job.createdBy) {
+    return finishImportJob(job.id, "failed", "The user who started this import no longer exists");
+  }
+
+  const records = parseCsvRecords(job.fileContent ?? "");
+  const prepared: PreparedCsvImport = { ...job.options, dryRun: false };
+  const actor: AuditActor = { userId: job.createdBy, organizationId: job.organizationId, webhookSource: "system" };
+  const ctx = {
+    orgId: job.organizationId,
+    userId: job.createdBy,
+    importJobId: job.id,
+    audit: (action: string, resource: string, resourceId: string, before: unknown, after: unknown) =>
+      recordAudit(actor, action, resource, resourceId, before, after),
+  };
+
+  for (let position = job.processedRows; position < records.length; position++) {
+    const rowNumber = position + 2; // +2: header row, and rows are 1-indexed
+    const outcome = await importCsvRow(job.entity, records[position], rowNumber, prepared, ctx);
+
+    // Saved after every row, so a restart re-imports at most the row that was
+    // being written when the worker stopped
+    const progress = await db.transaction(async (tx) => {
+      if (outcome.action === "error") {
+        await tx.insert(schema.importJobErrors)
+          .values({ jobId: job.id, rowNumber, error: outcome.error!, data: records[position] });
+      }
+      const counter = OUTCOME_COUNTERS[outcome.action];
+      const [updated] = await tx.update(schema.importJobs)
+        .set({
+          processedRows: position + 1,
+          [counter]: sql`${schema.importJobs[counter]} + 1`,
+          heartbeatAt: new Date(),
+        })
+        .where(eq(schema.importJobs.id, job.id))
+        .returning({ status: schema.importJobs.status });
+      return updated;
+    });
+
+    // Paused or cancelled while the row ran
+    if (progress?.status !== "running") return;
+  }
+
+  await finishImportJob(job.id, "completed");
+}
+
+/** Run claimable jobs until none are left. Returns the number of jobs run. */
+export async function processImportJobs(): Promise<number> {
+  let processed = 0;
+  for (let job = await claimNextImportJob(); job; job = await claimNextImportJob()) {
+    processed++;
+    try {
+      await runImportJob(job);
+    } catch (error: any) {
+      console.error(`[ImportJobs] Job ${job.id} failed:`, error);
+      await finishImportJob(job.id, "failed", error?.message ?? String(error)).catch(err => {
+        console.error(`[ImportJobs] Could not mark job ${job!.id} failed:`, err);
+      });
+    }
+  }
+  return processed;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let processing = false;
+let rerun = false;
+
+/** Run the worker now instead of waiting for the next tick (new or resumed jobs). */
+export function kickImportJobWorker(): void {
+  // One loop per process: a second loop could claim a resumed job while the
+  // first is still finishing that job's current row
+  if (processing) {
+    rerun = true;
+    return;
+  }
+  processing = true;
+  processImportJobs()
+    .catch(err => console.error("[ImportJobs] Worker error:", err))
+    .finally(() => {
+      processing = false;
+      if (rerun) {
+        rerun = false;
+        kickImportJobWorker();
+      }
+    });
+}
+
+/** Start the periodic import job sweep (idempotent). Picks up interrupted jobs after a restart. */
+export function startImportJobWorker(intervalMs = 30_000): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(kickImportJobWorker, intervalMs);
+  workerTimer.unref();
+  kickImportJobWorker();
+}
@@ -0,0 +1,241 @@
+// CSV import support routes: importable fields for the column mapping step,
+// saved mapping templates, and background import jobs. The upload routes that
+// create jobs are in routes.ts.
+// Templates are shared by the active organization (X-Organization-Id); using
+// or editing one requires create permission on its entity. Jobs are checked
+// against their own organization, since lead imports may run in the caller's
+// default organization; rolling one back also requires delete permission.
+
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { hasPermission } from "./rbac";
+import { auditActorFromRequest, recordAudit } from "./audit-service";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import {
+  CSV_IMPORT_ENTITIES,
+  insertImportMappingTemplateSchema,
+  updateImportMappingTemplateSchema,
+  type CsvImportEntity,
+  type ImportJob,
+} from "@shared/schema";
+import {
+  CsvImportError,
+  createImportMappingTemplate,
+  deleteImportMappingTemplate,
+  getImportFields,
+  getImportMappingTemplate,
+  listImportMappingTemplates,
+  updateImportMappingTemplate,
+} from "./csv-import-service";
+import {
+  buildImportJobErrorFile,
+  changeImportJobStatus,
+  getImportJob,
+  listImportJobs,
+  rollbackImportJob,
+} from "./import-job-service";
+
+const IMPORT_ENTITY_RESOURCES: Record<CsvImportEntity, string> = {
+  accounts: "Account",
+  contacts: "Contact",
+  leads: "Lead",
+  opportunities: "Opportunity",
+  activities: "Activity",
+};
+
+const importEntitySchema = z.enum(CSV_IMPORT_ENTITIES);
+
+async function auditTemplateChange(req: AuthRequest, action: string, resourceId: string | null, before: any, after: any) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action,
+      resource: "ImportMappingTemplate",
+      resourceId,
+      before,
+      after,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+function handleImportError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Validation failed", details: error.errors });
+  }
+  if (error instanceof CsvImportError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+async function assertCanImport(req: AuthRequest, entity: CsvImportEntity) {
+  if (!req.activeOrgId) {
+    throw new CsvImportError("Active organization context required. Set X-Organization-Id header.");
+  }
+  const resource = IMPORT_ENTITY_RESOURCES[entity];
+  if (!await hasPermission(req.user!.id, resource, "create", req.activeOrgId)) {
+    throw new CsvImportError(`You do not have permission to import ${resource}`, 403);
+  }
+}
+
+/** The job, if the caller may import its entity in the job's organization; 404 otherwise. */
+async function loadImportJob(req: AuthRequest, permission: "create" | "delete" = "create"): Promise<ImportJob> {
+  const job = await getImportJob(req.params.id);
+  if (!job || !await hasPermission(req.user!.id, IMPORT_ENTITY_RESOURCES[job.entity], "create", job.organizationId)) {
+    throw new CsvImportError("Import job not found", 404);
+  }
+  if (permission === "delete" && !await hasPermission(req.user!.id, IMPORT_ENTITY_RESOURCES[job.entity], "delete", job.organizationId)) {
+    throw new CsvImportError(`You do not have permission to delete ${IMPORT_ENTITY_RESOURCES[job.entity]}`, 403);
+  }
+  return job;
+}
+
+function withoutFileContent({ fileContent, ...job }: ImportJob) {
+  return job;
+}
+
+export function registerImportRoutes(app: Express) {
+  // GET /api/import/jobs?entity=accounts — recent jobs, newest first
+  app.get("/api/import/jobs", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!req.activeOrgId) {
+        throw new CsvImportError("Active organization context required. Set X-Organization-Id header.");
+      }
+      const entity = req.query.entity ? importEntitySchema.parse(req.query.entity) : undefined;
+      const jobs = await listImportJobs(req.activeOrgId, req.user!.id, entity);
+
+      const allowed = new Map<string, boolean>();
+      const visible = [];
+      for (const job of jobs) {
+        const key = `${job.organizationId}:${job.entity}`;
+        if (!allowed.has(key)) {
+          allowed.set(key, await hasPermission(req.user!.id, IMPORT_ENTITY_RESOURCES[job.entity], "create", job.organizationId));
+        }
+        if (allowed.get(key)) visible.push(job);
+      }
+      return res.json(visible);
+    } catch (error) {
+      return handleImportError(res, error, "Failed to fetch import jobs");
+    }
+  });
+
+  app.get("/api/import/jobs/:id", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(withoutFileContent(await loadImportJob(req)));
+    } catch (error) {
+      return handleImportError(res, error, "Failed to fetch import job");
+    }
+  });
+
+  // GET /api/import/jobs/:id/errors.csv — failed rows with their original cells and the reason
+  app.get("/api/import/jobs/:id/errors.csv", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const job = await loadImportJob(req);
+      const csv = await buildImportJobErrorFile(job.id);
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="${job.entity}-import-errors-${job.id}.csv"`);
+      return res.send(csv);
+    } catch (error) {
+      return handleImportError(res, error, "Failed to build import error file");
+    }
+  });
+
+  for (const action of ["pause", "resume", "cancel"] as const) {
+    app.post(`/api/import/jobs/:id/${action}`, authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+      try {
+        const job = await loadImportJob(req);
+        const updated = await changeImportJobStatus(job, action);
+        await recordAudit(
+          { ...auditActorFromRequest(req), organizationId: job.organizationId },
+          action, "ImportJob", job.id, { status: job.status }, { status: updated.status },
+        );
+        return res.json(withoutFileContent(updated));
+      } catch (error) {
+        return handleImportError(res, error, `Failed to ${action} import job`);
+      }
+    });
+  }
+
+  // POST /api/import/jobs/:id/rollback — delete the records this job created
+  app.post("/api/import/jobs/:id/rollback", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const job = await loadImportJob(req, "delete");
+      const updated = await rollbackImportJob(job, { ...auditActorFromRequest(req), organizationId: job.organizationId });
+      return res.json(withoutFileContent(updated));
+    } catch (error) {
+      return handleImportError(res, error, "Failed to roll back import job");
+    }
+  });
+
+  // GET /api/import/:entity/fields — mapping targets, required fields and match keys
+  app.get("/api/import/:entity/fields", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const entity = importEntitySchema.parse(req.params.entity);
+      await assertCanImport(req, entity);
+      return res.json(getImportFields(entity));
+    } catch (error) {
+      return handleImportError(res, error, "Failed to fetch import fields");
+    }
+  });
+
+  // GET /api/import/mapping-templates?entity=accounts
+  app.get("/api/import/mapping-templates", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const entity = importEntitySchema.parse(req.query.entity);
+      await assertCanImport(req, entity);
+      return res.json(await listImportMappingTemplates(req.activeOrgId!, entity));
+    } catch (error) {
+      return handleImportError(res, error, "Failed to fetch mapping templates");
+    }
+  });
+
+  app.post("/api/import/mapping-templates", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertImportMappingTemplateSchema.parse(req.body);
+      await assertCanImport(req, data.entity);
+      const template = await createImportMappingTemplate(req.activeOrgId!, data, req.user!.id);
+      await auditTemplateChange(req, "create", template.id, null, template);
+      return res.status(201).json(template);
+    } catch (error) {
+      return handleImportError(res, error, "Failed to create mapping template");
+    }
+  });
+
+  app.patch("/api/import/mapping-templates/:id", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updateImportMappingTemplateSchema.parse(req.body);
+      const before = req.activeOrgId ? await getImportMappingTemplate(req.params.id, req.activeOrgId) : undefined;
+      if (!before) {
+        return res.status(404).json({ error: "Mapping template not found" });
+      }
+      await assertCanImport(req, before.entity);
+      const template = await updateImportMappingTemplate(req.params.id, req.activeOrgId!, data);
+      await auditTemplateChange(req, "update", req.params.id, before, template);
+      return res.json(template);
+    } catch (error) {
+      return handleImportError(res, error, "Failed to update mapping template");
+    }
+  });
+
+  app.delete("/api/import/mapping-templates/:id", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const before = req.activeOrgId ? await getImportMappingTemplate(req.params.id, req.activeOrgId) : undefined;
+      if (!before) {
+        return res.status(404).json({ error: "Mapping template not found" });
+      }
+      await assertCanImport(req, before.entity);
+      await deleteImportMappingTemplate(req.params.id, req.activeOrgId!);
+      await auditTemplateChange(req, "delete", before.id, before, null);
+      return res.json({ success: true });
+    } catch (error) {
+      return handleImportError(res, error, "Failed to delete mapping template");
+    }
+  });
+}
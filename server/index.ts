@@ -7,6 +7,14 @@ import { initializeDefaultRolesAndPermissions } from "./rbac";
 import { initializeDefaultOrganization, runStartupColumnMigration } from "./seed";
 import { storage, fixEntityTagsEntityNames, fixCommentEntityNames } from "./db";
 import { csrfProtection, generateCsrfToken } from "./csrf-protection";
+import { startWebhookDeliveryWorker } from "./webhook-service";
+import { startNotificationWorker } from "./notification-service";
+import { startDigestWorker } from "./digest-service";
+import { startActivitySeriesWorker } from "./activity-series-service";
+import { startImportJobWorker } from "./import-job-service";
+import { startBackupScheduler } from "./backup-schedule-service";
+import { startLeadScoringWorker } from "./lead-scoring-service";
+import { startLeadGenJobWorker } from "./lead-gen-job-service";
 
 // Set default BACKUP_ENCRYPTION_KEY for development if not already set
 if (!process.env.BACKUP_ENCRYPTION_KEY) {
@@ -24,9 +32,11 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-// Use raw body parser for backup restore endpoint
+// Use raw body parser for the backup restore and verify endpoints (full and per-organization)
 // Accepts both legacy .htb (application/octet-stream) and new .zip (application/zip) uploads
 app.use("/api/admin/restore", express.raw({ type: ["application/octet-stream", "application/zip"], limit: "200mb" }));
+app.use("/api/admin/backups/verify", express.raw({ type: ["application/octet-stream", "application/zip"], limit: "200mb" }));
+app.use("/api/admin/organizations/restore", express.raw({ type: ["application/octet-stream", "application/zip"], limit: "200mb" }));
 
 // Standard JSON and URL-encoded parsers for other routes
 app.use(express.json({
@@ -151,6 +161,30 @@ app.use((req, res, next) => {
   
   // Register API routes
   await registerRoutes(app);
+
+  // Retry failed outbound webhook deliveries in the background
+  startWebhookDeliveryWorker();
+
+  // Sweep for overdue activities and notify their owners
+  startNotificationWorker();
+
+  // Send opted-in users their daily/weekly email digests
+  startDigestWorker();
+
+  // Create upcoming occurrences of recurring activities
+  startActivitySeriesWorker();
+
+  // Run queued CSV import jobs (and resume any interrupted by a restart)
+  startImportJobWorker();
+
+  // Take scheduled backups when BACKUP_SCHEDULE is set
+  startBackupScheduler();
+
+  // Score new leads and rescore every lead nightly
+  startLeadScoringWorker();
+
+  // Run queued lead generation pipelines (and resume any whose worker went away)
+  startLeadGenJobWorker();
   
   // Error handling middleware
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
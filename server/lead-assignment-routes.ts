@@ -0,0 +1,164 @@
+// Lead assignment routes. Admins maintain the active organization's ordered
+// routing rules in the Admin Console, re-run them over unassigned leads and
+// read the routing log. A lead's own entries are served by
+// /api/leads/:id/routing in routes.ts for the lead detail page.
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import { leadAssignmentRuleInputSchema } from "@shared/schema";
+import { auditActorFromRequest } from "./audit-service";
+import {
+  LeadAssignmentError,
+  createAssignmentRule,
+  deleteAssignmentRule,
+  getAssignmentRule,
+  listAssignmentRules,
+  listRoutingLog,
+  reorderAssignmentRules,
+  rerunAssignmentRules,
+  updateAssignmentRule,
+} from "./lead-assignment-service";
+
+const reorderSchema = z.object({ ruleIds: z.array(z.string().min(1)) });
+
+const routingLogQuerySchema = z.object({
+  leadId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+async function auditRuleChange(req: AuthRequest, action: string, resourceId: string | null, before: any, after: any) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action,
+      resource: "LeadAssignmentRule",
+      resourceId,
+      before,
+      after,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+export function registerLeadAssignmentRoutes(app: Express) {
+  // GET /api/admin/lead-assignment/rules — rules in evaluation order
+  app.get("/api/admin/lead-assignment/rules", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await listAssignmentRules(req.activeOrgId!));
+    } catch (error) {
+      console.error("Error fetching lead assignment rules:", error);
+      return res.status(500).json({ error: "Failed to fetch lead assignment rules" });
+    }
+  });
+
+  // POST /api/admin/lead-assignment/rules — appended after the existing rules
+  app.post("/api/admin/lead-assignment/rules", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = leadAssignmentRuleInputSchema.parse(req.body);
+      const rule = await createAssignmentRule(req.activeOrgId!, data, req.user?.id ?? null);
+      await auditRuleChange(req, "create", rule.id, null, rule);
+      return res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof LeadAssignmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating lead assignment rule:", error);
+      return res.status(500).json({ error: "Failed to create lead assignment rule" });
+    }
+  });
+
+  // PUT /api/admin/lead-assignment/rules/order — { ruleIds } in the new evaluation order
+  app.put("/api/admin/lead-assignment/rules/order", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const { ruleIds } = reorderSchema.parse(req.body);
+      const before = await listAssignmentRules(req.activeOrgId!);
+      const rules = await reorderAssignmentRules(req.activeOrgId!, ruleIds);
+      await auditRuleChange(req, "reorder", null, { ruleIds: before.map(rule => rule.id) }, { ruleIds });
+      return res.json(rules);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof LeadAssignmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error reordering lead assignment rules:", error);
+      return res.status(500).json({ error: "Failed to reorder lead assignment rules" });
+    }
+  });
+
+  // PUT /api/admin/lead-assignment/rules/:id — replace a rule's settings
+  app.put("/api/admin/lead-assignment/rules/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = leadAssignmentRuleInputSchema.parse(req.body);
+      const before = await getAssignmentRule(req.params.id, req.activeOrgId!);
+      if (!before) {
+        return res.status(404).json({ error: "Assignment rule not found" });
+      }
+      const rule = await updateAssignmentRule(req.params.id, req.activeOrgId!, data);
+      await auditRuleChange(req, "update", req.params.id, before, rule);
+      return res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof LeadAssignmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating lead assignment rule:", error);
+      return res.status(500).json({ error: "Failed to update lead assignment rule" });
+    }
+  });
+
+  // DELETE /api/admin/lead-assignment/rules/:id — routing log entries keep the rule name
+  app.delete("/api/admin/lead-assignment/rules/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const rule = await deleteAssignmentRule(req.params.id, req.activeOrgId!);
+      if (!rule) {
+        return res.status(404).json({ error: "Assignment rule not found" });
+      }
+      await auditRuleChange(req, "delete", rule.id, rule, null);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting lead assignment rule:", error);
+      return res.status(500).json({ error: "Failed to delete lead assignment rule" });
+    }
+  });
+
+  // POST /api/admin/lead-assignment/run — route every open lead that has no owner
+  app.post("/api/admin/lead-assignment/run", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await rerunAssignmentRules(req.activeOrgId!, auditActorFromRequest(req)));
+    } catch (error) {
+      if (error instanceof LeadAssignmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error running lead assignment rules:", error);
+      return res.status(500).json({ error: "Failed to run lead assignment rules" });
+    }
+  });
+
+  // GET /api/admin/lead-assignment/log?leadId=&limit= — newest routing decisions first
+  app.get("/api/admin/lead-assignment/log", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const query = routingLogQuerySchema.parse(req.query);
+      return res.json(await listRoutingLog(req.activeOrgId!, query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching lead routing log:", error);
+      return res.status(500).json({ error: "Failed to fetch lead routing log" });
+    }
+  });
+}
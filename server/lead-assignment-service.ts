@@ -0,0 +1,309 @@
+// Lead assignment rules: each organization's ordered routing rules, choosing
+// an owner for leads created without one (UI, CSV import, external API and
+// lead-gen approval), the routing log explaining each decision, and
+// re-running the rules over leads that are still unassigned. Condition
+// matching and pool picks live in lib/lead-assignment.
+
+import { db, storage, eq, and, sql, inArray, asc, desc } from "./db";
+import { isNull, notInArray } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type {
+  InsertLead,
+  Lead,
+  LeadAssignmentRule,
+  LeadAssignmentRuleInput,
+  LeadRoutingLogEntry,
+  LeadRoutingTrigger,
+} from "@shared/schema";
+import { recordAudit, type AuditActor } from "./audit-service";
+import { notifyLeadRouted } from "./notification-service";
+import {
+  describeRouting,
+  findRoutingRule,
+  noRuleMatchedReason,
+  pickLeastLoaded,
+  pickRoundRobin,
+  type RoutableLead,
+} from "./lib/lead-assignment";
+
+const RERUN_BATCH_SIZE = 500;
+const CLOSED_LEAD_STATUSES = ["unqualified", "converted"] as const;
+
+export class LeadAssignmentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "LeadAssignmentError";
+  }
+}
+
+/** The owner chosen for a lead and why. ownerId is null when no rule matched. */
+export interface LeadRoutingDecision {
+  ruleId: string | null;
+  ruleName: string | null;
+  ownerId: string | null;
+  reason: string;
+}
+
+export type LeadRoutingLogView = LeadRoutingLogEntry & { assignedToName: string | null; actorName: string | null };
+
+// ---------- Rules ----------
+
+export async function listAssignmentRules(orgId: string): Promise<LeadAssignmentRule[]> {
+  return db.select().from(schema.leadAssignmentRules)
+    .where(eq(schema.leadAssignmentRules.organizationId, orgId))
+    .orderBy(asc(schema.leadAssignmentRules.position), asc(schema.leadAssignmentRules.createdAt));
+}
+
+export async function getAssignmentRule(id: string, orgId: string): Promise<LeadAssignmentRule | undefined> {
+  const [rule] = await db.select().from(schema.leadAssignmentRules)
+    .where(and(eq(schema.leadAssignmentRules.id, id), eq(schema.leadAssignmentRules.organizationId, orgId)));
+  return rule;
+}
+
+async function assertMembers(orgId: string, userIds: string[]): Promise<void> {
+  const ids = Array.from(new Set(userIds));
+  const members = await db.select({ userId: schema.userOrganizations.userId }).from(schema.userOrganizations)
+    .where(and(eq(schema.userOrganizations.organizationId, orgId), inArray(schema.userOrganizations.userId, ids)));
+  if (members.length !== ids.length) {
+    throw new LeadAssignmentError("Rules can only assign leads to members of this organization");
+  }
+}
+
+/** New rules go to the end of the list. */
+export async function createAssignmentRule(orgId: string, data: LeadAssignmentRuleInput, createdBy: string | null): Promise<LeadAssignmentRule> {
+  await assertMembers(orgId, data.userIds);
+  const [{ next }] = await db.select({ next: sql<number>`coalesce(max(${schema.leadAssignmentRules.position}) + 1, 0)::int` })
+    .from(schema.leadAssignmentRules)
+    .where(eq(schema.leadAssignmentRules.organizationId, orgId));
+  const [rule] = await db.insert(schema.leadAssignmentRules)
+    .values({ ...data, userIds: Array.from(new Set(data.userIds)), organizationId: orgId, position: next, createdBy })
+    .returning();
+  return rule;
+}
+
+export async function updateAssignmentRule(id: string, orgId: string, data: LeadAssignmentRuleInput): Promise<LeadAssignmentRule | undefined> {
+  await assertMembers(orgId, data.userIds);
+  const [rule] = await db.update(schema.leadAssignmentRules)
+    .set({ ...data, userIds: Array.from(new Set(data.userIds)), updatedAt: new Date() })
+    .where(and(eq(schema.leadAssignmentRules.id, id), eq(schema.leadAssignmentRules.organizationId, orgId)))
+    .returning();
+  return rule;
+}
+
+export async function deleteAssignmentRule(id: string, orgId: string): Promise<LeadAssignmentRule | undefined> {
+  const [rule] = await db.delete(schema.leadAssignmentRules)
+    .where(and(eq(schema.leadAssignmentRules.id, id), eq(schema.leadAssignmentRules.organizationId, orgId)))
+    .returning();
+  return rule;
+}
+
+/** Set the evaluation order. ruleIds must list every rule of the organization exactly once. */
+export async function reorderAssignmentRules(orgId: string, ruleIds: string[]): Promise<LeadAssignmentRule[]> {
+  const existing = await listAssignmentRules(orgId);
+  const known = new Set(existing.map(rule => rule.id));
+  if (ruleIds.length !== known.size || new Set(ruleIds).size !== ruleIds.length || !ruleIds.every(id => known.has(id))) {
+    throw new LeadAssignmentError("The new order must list every assignment rule exactly once");
+  }
+  await db.transaction(async (tx) => {
+    for (const [position, id] of ruleIds.entries()) {
+      await tx.update(schema.leadAssignmentRules)
+        .set({ position })
+        .where(and(eq(schema.leadAssignmentRules.id, id), eq(schema.leadAssignmentRules.organizationId, orgId)));
+    }
+  });
+  return listAssignmentRules(orgId);
+}
+
+// ---------- Routing ----------
+
+/** Active members of the organization, the only users rules may assign to. */
+async function eligibleUserIds(orgId: string): Promise<Set<string>> {
+  const rows = await db.select({ id: schema.users.id })
+    .from(schema.userOrganizations)
+    .innerJoin(schema.users, eq(schema.users.id, schema.userOrganizations.userId))
+    .where(and(eq(schema.userOrganizations.organizationId, orgId), eq(schema.users.status, "active")));
+  return new Set(rows.map(row => row.id));
+}
+
+async function openLeadCounts(orgId: string, userIds: string[]): Promise<Map<string, number>> {
+  const rows = await db.select({ ownerId: schema.leads.ownerId, count: sql<number>`count(*)::int` })
+    .from(schema.leads)
+    .where(and(
+      eq(schema.leads.organizationId, orgId),
+      inArray(schema.leads.ownerId, userIds),
+      isNull(schema.leads.archivedAt),
+      notInArray(schema.leads.status, [...CLOSED_LEAD_STATUSES]),
+    ))
+    .groupBy(schema.leads.ownerId);
+  return new Map(rows.map(row => [row.ownerId!, row.count]));
+}
+
+async function userNames(userIds: Array<string | null>): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+  if (ids.length === 0) return new Map();
+  const rows = await db.select({ id: schema.users.id, name: schema.users.name }).from(schema.users)
+    .where(inArray(schema.users.id, ids));
+  return new Map(rows.map(row => [row.id, row.name]));
+}
+
+/**
+ * Choose an owner for a lead by the organization's rules. Returns null when
+ * the organization has no active rules, so there is nothing to log. Picking
+ * from a round-robin pool advances that rule's counter.
+ */
+export async function decideLeadOwner(
+  orgId: string,
+  lead: RoutableLead,
+  tags: string[] = [],
+  fallbackOwnerId: string | null = null,
+): Promise<LeadRoutingDecision | null> {
+  const rules = (await listAssignmentRules(orgId)).filter(rule => rule.isActive);
+  if (rules.length === 0) return null;
+
+  const match = findRoutingRule(rules, lead, tags, await eligibleUserIds(orgId));
+  if (!match) {
+    const fallbackName = fallbackOwnerId ? (await userNames([fallbackOwnerId])).get(fallbackOwnerId) ?? fallbackOwnerId : null;
+    return { ruleId: null, ruleName: null, ownerId: fallbackOwnerId, reason: noRuleMatchedReason(fallbackName) };
+  }
+
+  const { rule, pool } = match;
+  let ownerId: string;
+  let openLeads: number | undefined;
+  if (rule.strategy === "round_robin") {
+    // Atomic increment, so concurrent leads never get the same turn
+    const [{ counter }] = await db.update(schema.leadAssignmentRules)
+      .set({ roundRobinCounter: sql`${schema.leadAssignmentRules.roundRobinCounter} + 1` })
+      .where(eq(schema.leadAssignmentRules.id, rule.id))
+      .returning({ counter: schema.leadAssignmentRules.roundRobinCounter });
+    ownerId = pickRoundRobin(pool, counter);
+  } else if (rule.strategy === "least_loaded") {
+    const counts = await openLeadCounts(orgId, pool);
+    ownerId = pickLeastLoaded(pool, counts);
+    openLeads = counts.get(ownerId) ?? 0;
+  } else {
+    ownerId = pool[0];
+  }
+
+  const name = (await userNames([ownerId])).get(ownerId) ?? ownerId;
+  return { ruleId: rule.id, ruleName: rule.name, ownerId, reason: describeRouting(rule, pool, name, openLeads) };
+}
+
+/**
+ * Write the routing log entry for a lead and, when a rule routed a new lead,
+ * notify its owner. Never throws: logging must not fail the lead write.
+ */
+export async function recordLeadRouting(
+  lead: Pick<Lead, "id" | "firstName" | "lastName" | "organizationId">,
+  decision: LeadRoutingDecision,
+  trigger: LeadRoutingTrigger,
+  actorId: string | null,
+): Promise<void> {
+  try {
+    await db.insert(schema.leadRoutingLog).values({
+      organizationId: lead.organizationId,
+      leadId: lead.id,
+      ruleId: decision.ruleId,
+      ruleName: decision.ruleName,
+      assignedTo: decision.ownerId,
+      reason: decision.reason,
+      trigger,
+      actorId,
+    });
+  } catch (error) {
+    console.error("[LeadAssignment] Failed to write routing log:", error);
+  }
+  // Re-runs are updates; the audit hook already tells the new owner
+  if (trigger !== "rerun" && decision.ruleName && decision.ownerId) {
+    notifyLeadRouted(lead, decision.ownerId, decision.ruleName);
+  }
+}
+
+/**
+ * Create a lead, choosing its owner by the assignment rules when the caller
+ * did not set one. fallbackOwnerId is kept as owner when no rule matches
+ * (CSV imports keep the importing user). Routing errors are logged and the
+ * lead is created without a rule-chosen owner.
+ */
+export async function createRoutedLead(
+  data: InsertLead,
+  trigger: LeadRoutingTrigger,
+  actorId: string | null,
+  fallbackOwnerId: string | null = null,
+): Promise<Lead> {
+  if (data.ownerId || !data.organizationId) return storage.createLead(data);
+
+  let decision: LeadRoutingDecision | null = null;
+  try {
+    decision = await decideLeadOwner(data.organizationId, data, [], fallbackOwnerId);
+  } catch (error) {
+    console.error("[LeadAssignment] Failed to route lead:", error);
+  }
+  const lead = await storage.createLead({ ...data, ownerId: decision ? decision.ownerId : fallbackOwnerId });
+  if (decision) await recordLeadRouting(lead, decision, trigger, actorId);
+  return lead;
+}
+
+/**
+ * Apply the rules to every open, unassigned lead in the organization, e.g.
+ * after adding a rule. Each assignment is audited as an update of the lead.
+ */
+export async function rerunAssignmentRules(orgId: string, actor: AuditActor): Promise<{ assigned: number; unmatched: number }> {
+  const leads = await db.select().from(schema.leads)
+    .where(and(
+      eq(schema.leads.organizationId, orgId),
+      isNull(schema.leads.ownerId),
+      isNull(schema.leads.archivedAt),
+      notInArray(schema.leads.status, [...CLOSED_LEAD_STATUSES]),
+    ))
+    .orderBy(asc(schema.leads.createdAt));
+  if (leads.length === 0) return { assigned: 0, unmatched: 0 };
+  if (!(await listAssignmentRules(orgId)).some(rule => rule.isActive)) {
+    throw new LeadAssignmentError("There are no active assignment rules to run", 409);
+  }
+
+  let assigned = 0;
+  let unmatched = 0;
+  for (let i = 0; i < leads.length; i += RERUN_BATCH_SIZE) {
+    const batch = leads.slice(i, i + RERUN_BATCH_SIZE);
+    const tagRows = await db.select({ leadId: schema.entityTags.entityId, name: schema.tags.name })
+      .from(schema.entityTags)
+      .innerJoin(schema.tags, eq(schema.tags.id, schema.entityTags.tagId))
+      .where(and(eq(schema.entityTags.entity, "Lead"), inArray(schema.entityTags.entityId, batch.map(lead => lead.id))));
+    const tagsByLead = new Map<string, string[]>();
+    for (const row of tagRows) tagsByLead.set(row.leadId, [...(tagsByLead.get(row.leadId) ?? []), row.name]);
+
+    for (const lead of batch) {
+      const decision = await decideLeadOwner(orgId, lead, tagsByLead.get(lead.id) ?? []);
+      if (!decision?.ownerId) {
+        unmatched++;
+        continue;
+      }
+      // Guarded on ownerId so a lead claimed meanwhile keeps its new owner
+      const [updated] = await db.update(schema.leads)
+        .set({ ownerId: decision.ownerId, updatedAt: new Date() })
+        .where(and(eq(schema.leads.id, lead.id), isNull(schema.leads.ownerId)))
+        .returning();
+      if (!updated) continue;
+      await recordLeadRouting(updated, decision, "rerun", actor.userId);
+      await recordAudit(actor, "update", "Lead", lead.id, lead, updated);
+      assigned++;
+    }
+  }
+  return { assigned, unmatched };
+}
+
+// ---------- Routing log ----------
+
+export async function listRoutingLog(orgId: string, options: { leadId?: string; limit?: number } = {}): Promise<LeadRoutingLogView[]> {
+  const log = schema.leadRoutingLog;
+  const rows = await db.select().from(log)
+    .where(and(eq(log.organizationId, orgId), options.leadId ? eq(log.leadId, options.leadId) : undefined))
+    .orderBy(desc(log.createdAt))
+    .limit(options.limit ?? 100);
+  const names = await userNames(rows.flatMap(row => [row.assignedTo, row.actorId]));
+  return rows.map(row => ({
+    ...row,
+    assignedToName: row.assignedTo ? names.get(row.assignedTo) ?? null : null,
+    actorName: row.actorId ? names.get(row.actorId) ?? null : null,
+  }));
+}
@@ -2,70 +2,66 @@
 // Implements the AI agent pipeline for lead generation runs:
 // Market Research → Company Discovery → Contact Discovery → Strategy → Communication Drafting
 //
-// Each phase calls the configured LLM (sourced from Admin Console llm_configurations with
-// encrypted key storage) with structured prompts derived from the run's ICP and Playbook.
+// Each phase calls the run's organization's LLM (its Admin Console llm_configurations row,
+// or the default one, with encrypted key storage) with prompts rendered from the organization's
+// prompt templates (lead-gen-prompt-service.ts) and the run's ICP and Playbook. Calls are
+// charged to the organization's monthly budget; a phase that finds the budget used up fails
+// with the reason as the run's errorReason.
 // Agent steps are individually logged with the prompt, response, and timing for audit trail.
 // Web search is used via configurable search endpoint for external research.
+// Runs are queued and driven by the job worker in lead-gen-job-service.ts.
 
 import { db, eq, and, desc, sql } from "./db";
 import * as schema from "@shared/schema";
-import { decryptApiKey, isEncryptedKey } from "./llm-key-utils";
-import { isAzureWebSearchConfigured, AzureWebSearchProvider } from "./lib/research/providers/AzureWebSearchProvider";
-import { researchService } from "./lib/research/ResearchService";
+import { searchPageUrl } from "./lib/research/provider-factory";
+import { resolveResearchProvider, type ResolvedResearchProvider } from "./web-search-config-service";
+import { notifyLeadGenRunFinished } from "./notification-service";
+import { remainingLeadGenPhases } from "./lib/lead-gen-jobs";
+import { renderRunPrompt, resolveRunPromptTemplate } from "./lead-gen-prompt-service";
+import { extractLlmTokenUsage } from "./lib/llm-budget";
+import {
+  LlmBudgetExceededError,
+  assertLlmBudgetAvailable,
+  recordLlmUsage,
+  resolveLlmApiKey,
+  resolveLlmConfiguration,
+  type LlmCallUsage,
+  type LlmUsageContext,
+} from "./llm-config-service";
+
+const PHASES = schema.LEAD_GEN_PHASES;
+
+type Phase = schema.LeadGenPhase;
+
+export type LeadGenPipelineOutcome =
+  | { status: "complete" }
+  | { status: "stopped" }
+  | { status: "error"; phase: Phase; message: string };
 
-let _cachedAzureProvider: AzureWebSearchProvider | null | undefined = undefined;
-
-async function getOrBuildAzureSearchProvider(): Promise<AzureWebSearchProvider | null> {
-  if (_cachedAzureProvider !== undefined) return _cachedAzureProvider;
-
-  if (isAzureWebSearchConfigured()) {
-    try {
-      _cachedAzureProvider = new AzureWebSearchProvider();
-      return _cachedAzureProvider;
-    } catch {
-      // fall through to DB fallback
-    }
-  }
-
-  const llmConfig = await getLlmConfig("market_research");
-  if (llmConfig && llmConfig.provider === "azure" && llmConfig.apiKey && llmConfig.baseUrl) {
-    console.log("[Agent] Azure web search: using DB LLM config (no env vars set)");
-    _cachedAzureProvider = new AzureWebSearchProvider({
-      apiKey: llmConfig.apiKey,
-      baseUrl: llmConfig.baseUrl,
-      model: llmConfig.model,
-    });
-    return _cachedAzureProvider;
-  }
-
-  _cachedAzureProvider = null;
-  return null;
-}
-
-const PHASES = [
-  "market_research",
-  "company_discovery",
-  "contact_discovery",
-  "strategy",
-  "communication_drafting",
-] as const;
-
-const stoppedRunIds = new Set<string>();
-const activeRunIds = new Set<string>();
-
-export function markRunStopped(runId: string): void {
-  stoppedRunIds.add(runId);
-}
-
-export function clearRunStopped(runId: string): void {
-  stoppedRunIds.delete(runId);
-}
-
-export function isRunPipelineActive(runId: string): boolean {
-  return activeRunIds.has(runId);
+/**
+ * How the job worker drives a pipeline run: where it starts, what an earlier
+ * attempt already finished, and the hooks it uses to check for a stop request
+ * and save progress after each phase.
+ */
+export interface LeadGenPipelineControl {
+  /** Phase a retry starts from; every phase when unset. */
+  startFromPhase?: string | null;
+  /** Last phase an interrupted attempt finished; the run resumes after it. */
+  lastCompletedPhase?: string | null;
+  /** Market research output saved by an earlier attempt, for the phases that follow it. */
+  checkpoint?: schema.LeadGenJobCheckpoint | null;
+  /** Whether a stop was requested, from any process. */
+  stopRequested(): Promise<boolean>;
+  /** Called after each phase succeeds. */
+  phaseCompleted(phase: Phase, checkpoint: schema.LeadGenJobCheckpoint): Promise<void>;
 }
 
-type Phase = typeof PHASES[number];
+/**
+ * Thrown from a control hook when this process no longer holds the run (its
+ * lease lapsed and another worker took over). The pipeline unwinds without
+ * touching the run's status or notifying anyone.
+ */
+export class LeadGenPipelineInterrupted extends Error {}
 
 interface ResolvedLlmConfig {
   provider: string;
@@ -75,6 +71,13 @@ interface ResolvedLlmConfig {
   temperature: number;
   maxTokens: number;
   apiKey: string;
+  usage: LlmUsageContext;
+}
+
+interface LlmCallResult {
+  content: string;
+  /** What the call was recorded at; null when the provider reported no usage. */
+  usage: LlmCallUsage | null;
 }
 
 interface PhaseLogEntry {
@@ -87,34 +90,14 @@ interface PhaseLogEntry {
 }
 
 /**
- * Load the Admin Console LLM configuration (llm_configurations table) and resolve
- * the encrypted API key. Applies per-phase model override from agentModelOverrides if present.
+ * Load the run's organization's Admin Console LLM configuration (llm_configurations
+ * table, falling back to the default one) and resolve the encrypted API key.
+ * Applies per-phase model override from agentModelOverrides if present.
  */
-async function getLlmConfig(phase: string): Promise<ResolvedLlmConfig | null> {
-  const rows = await db.select().from(schema.llmConfigurations)
-    .orderBy(desc(schema.llmConfigurations.updatedAt))
-    .limit(1);
-
-  const cfg = rows[0];
+async function getLlmConfig(run: schema.LeadGenerationRun, phase: string): Promise<ResolvedLlmConfig | null> {
+  const cfg = await resolveLlmConfiguration(run.organizationId);
   if (cfg) {
-    let apiKey: string | null = null;
-    if (cfg.encryptedApiKey) {
-      try {
-        apiKey = isEncryptedKey(cfg.encryptedApiKey)
-          ? decryptApiKey(cfg.encryptedApiKey)
-          : cfg.encryptedApiKey;
-      } catch (e) {
-        console.warn("[Agent] Failed to decrypt LLM API key:", e instanceof Error ? e.message : String(e));
-      }
-    }
-
-    if (!apiKey) {
-      if (cfg.provider === "openai") apiKey = process.env.OPENAI_API_KEY || null;
-      else if (cfg.provider === "anthropic") apiKey = process.env.ANTHROPIC_API_KEY || null;
-      else if (cfg.provider === "google") apiKey = process.env.GOOGLE_API_KEY || null;
-      else if (cfg.provider === "azure") apiKey = process.env.AZURE_OPENAI_API_KEY || null;
-    }
-
+    const apiKey = resolveLlmApiKey(cfg);
     if (apiKey) {
       const overrides = (cfg.agentModelOverrides as Record<string, string> | null) ?? {};
       const model = overrides[phase] ?? overrides["default"] ?? cfg.modelName;
@@ -126,6 +109,7 @@ async function getLlmConfig(phase: string): Promise<ResolvedLlmConfig | null> {
         temperature: parseFloat(String(cfg.temperature ?? "0.7")),
         maxTokens: cfg.maxTokens ?? 4096,
         apiKey,
+        usage: { organizationId: run.organizationId, source: "lead_gen", runId: run.id, phase, userId: run.createdBy },
       };
     }
   }
@@ -168,8 +152,9 @@ async function callLlm(
   config: ResolvedLlmConfig,
   systemPrompt: string,
   userPrompt: string,
-): Promise<string> {
+): Promise<LlmCallResult> {
   const { apiKey, temperature, maxTokens } = config;
+  await assertLlmBudgetAvailable(config.usage.organizationId);
 
   if (config.provider === "azure") {
     // Strip any accidentally-pasted path segments from the base URL
@@ -217,13 +202,14 @@ async function callLlm(
         finish_reason?: string;
       }>;
     };
+    const usage = await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
     const choice = data.choices[0];
     const content = choice?.message?.content || "";
     if (!content) {
       const finishReason = choice?.finish_reason ?? "unknown";
       console.warn(`[Agent] Azure returned empty content for model ${config.model}. finish_reason: ${finishReason}. This usually means the reasoning token budget was exhausted or content filtering triggered.`);
     }
-    return content;
+    return { content, usage };
   }
 
   if (config.provider === "openai" || config.provider === "openai-compatible") {
@@ -254,7 +240,8 @@ async function callLlm(
     const data = await response.json() as {
       choices: Array<{ message: { content: string } }>;
     };
-    return data.choices[0]?.message?.content || "";
+    const usage = await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
+    return { content: data.choices[0]?.message?.content || "", usage };
   }
 
   if (config.provider === "anthropic") {
@@ -283,7 +270,8 @@ async function callLlm(
     const data = await response.json() as {
       content: Array<{ type: string; text: string }>;
     };
-    return data.content.find(c => c.type === "text")?.text || "";
+    const usage = await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
+    return { content: data.content.find(c => c.type === "text")?.text || "", usage };
   }
 
   if (config.provider === "google") {
@@ -310,143 +298,43 @@ async function callLlm(
     const data = await response.json() as {
       candidates: Array<{ content: { parts: Array<{ text: string }> } }>;
     };
-    return data.candidates[0]?.content?.parts?.map(p => p.text).join("") || "";
+    const usage = await recordLlmUsage(config.usage, config.provider, config.model, extractLlmTokenUsage(config.provider, data));
+    return { content: data.candidates[0]?.content?.parts?.map(p => p.text).join("") || "", usage };
   }
 
   throw new Error(`Unsupported LLM provider: "${config.provider}". Supported providers are: openai, anthropic, google, azure, openai-compatible.`);
 }
 
-interface SearchConfig {
-  provider: string;
-  apiKey: string;
-  baseUrl?: string | null;
-}
-
-let _cachedSearchConfig: SearchConfig | null | undefined = undefined;
-
-async function getSearchConfig(): Promise<SearchConfig | null> {
-  if (_cachedSearchConfig !== undefined) return _cachedSearchConfig;
-
-  // Azure OpenAI web search takes priority when env vars are set
-  if (isAzureWebSearchConfigured()) {
-    _cachedSearchConfig = { provider: "azure_web_search", apiKey: process.env.AZURE_OPENAI_API_KEY || "" };
-    return _cachedSearchConfig;
-  }
-
-  // Look for a search config entry that uses apiKeyEnvVar (no plaintext key storage)
-  const searchConfig = await db.select().from(schema.aiConfigs)
-    .where(and(
-      eq(schema.aiConfigs.agentPhase, "search"),
-      eq(schema.aiConfigs.isActive, true),
-    ))
-    .orderBy(desc(schema.aiConfigs.createdAt))
-    .limit(1);
-
-  if (searchConfig[0]) {
-    const cfg = searchConfig[0];
-    // Only resolve via env var reference — never read plaintext api_key column
-    const apiKey = cfg.apiKeyEnvVar ? process.env[cfg.apiKeyEnvVar] || null : null;
-    if (apiKey) {
-      _cachedSearchConfig = { provider: cfg.provider, apiKey, baseUrl: cfg.baseUrl };
-      return _cachedSearchConfig;
-    }
-  }
-
-  // Fall back to well-known env vars
-  if (process.env.BRAVE_SEARCH_API_KEY) {
-    _cachedSearchConfig = { provider: "brave", apiKey: process.env.BRAVE_SEARCH_API_KEY };
-    return _cachedSearchConfig;
-  }
-  if (process.env.SERPER_API_KEY) {
-    _cachedSearchConfig = { provider: "serper", apiKey: process.env.SERPER_API_KEY };
-    return _cachedSearchConfig;
-  }
-
-  // Final fallback: if DB LLM config is Azure, use it for web search too (no separate env vars needed)
-  const llmCfg = await getLlmConfig("market_research");
-  if (llmCfg && llmCfg.provider === "azure" && llmCfg.apiKey) {
-    _cachedSearchConfig = { provider: "azure_web_search", apiKey: llmCfg.apiKey, baseUrl: llmCfg.baseUrl };
-    return _cachedSearchConfig;
-  }
-
-  _cachedSearchConfig = null;
-  return null;
+// Keyed by organization: runs for different organizations share this process.
+// Dropped when a run starts so a changed provider selection applies to it.
+const _cachedSearchProviders = new Map<string, ResolvedResearchProvider>();
+
+async function getSearchProvider(organizationId: string): Promise<ResolvedResearchProvider> {
+  const cached = _cachedSearchProviders.get(organizationId);
+  if (cached) return cached;
+  const resolved = await resolveResearchProvider(organizationId);
+  if (resolved.error) console.warn(`[Agent] Web search provider ${resolved.mode} unavailable: ${resolved.error}`);
+  _cachedSearchProviders.set(organizationId, resolved);
+  return resolved;
 }
 
-async function performWebSearch(query: string): Promise<{ title: string; url: string; snippet: string; citations?: { title: string; url: string }[] }[]> {
-  const config = await getSearchConfig();
+async function performWebSearch(organizationId: string, query: string): Promise<{ title: string; url: string; snippet: string; citations?: { title: string; url: string }[] }[]> {
+  const { provider } = await getSearchProvider(organizationId);
 
-  if (!config) {
+  if (!provider) {
     console.log(`[Agent] Web search skipped (no search provider configured), query: ${query}`);
     return [];
   }
 
-  if (config.provider === "azure_web_search") {
-    const azureProvider = await getOrBuildAzureSearchProvider();
-    if (azureProvider) {
-      return await azureProvider.search(query);
-    }
-    console.warn("[Agent] Azure web search config resolved but provider could not be built");
-    return [];
+  // Brave and Serper failures are logged and return empty rather than aborting
+  // the run; Azure and fixture failures propagate so the pipeline fails visibly.
+  if (provider.mode !== "brave" && provider.mode !== "serper") {
+    return await provider.search(query);
   }
-
-  // Brave and Serper: errors are logged and return empty rather than aborting the run,
-  // as these are legacy fallback providers and market research is best-effort.
   try {
-    if (config.provider === "brave") {
-      const baseUrl = config.baseUrl || "https://api.search.brave.com/res/v1/web";
-      const response = await fetch(`${baseUrl}/search?q=${encodeURIComponent(query)}&count=5`, {
-        headers: {
-          "Accept": "application/json",
-          "X-Subscription-Token": config.apiKey,
-        },
-      });
-
-      if (!response.ok) {
-        console.warn(`[Agent] Brave search returned ${response.status} for query: ${query}`);
-        return [];
-      }
-
-      const data = await response.json() as {
-        web?: { results?: Array<{ title: string; url: string; description: string }> };
-      };
-      return (data.web?.results || []).map(r => ({
-        title: r.title,
-        url: r.url,
-        snippet: r.description,
-      }));
-    }
-
-    if (config.provider === "serper") {
-      const baseUrl = config.baseUrl || "https://google.serper.dev/search";
-      const response = await fetch(baseUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-KEY": config.apiKey,
-        },
-        body: JSON.stringify({ q: query, num: 5 }),
-      });
-
-      if (!response.ok) {
-        console.warn(`[Agent] Serper search returned ${response.status} for query: ${query}`);
-        return [];
-      }
-
-      const data = await response.json() as {
-        organic?: Array<{ title: string; link: string; snippet: string }>;
-      };
-      return (data.organic || []).map(r => ({
-        title: r.title,
-        url: r.link,
-        snippet: r.snippet,
-      }));
-    }
-
-    console.warn(`[Agent] Unknown search provider: ${config.provider}`);
-    return [];
+    return await provider.search(query);
   } catch (err) {
-    console.warn(`[Agent] Web search failed (${config.provider}): ${err}`);
+    console.warn(`[Agent] Web search failed (${provider.mode}): ${err instanceof Error ? err.message : String(err)}`);
     return [];
   }
 }
@@ -462,6 +350,8 @@ async function logAgentStep(
   durationMs: number,
   success: boolean,
   errorMessage?: string,
+  usage?: LlmCallUsage | null,
+  promptTemplate?: schema.AgentStepPromptTemplate,
 ): Promise<void> {
   try {
     await db.insert(schema.agentStepLogs).values({
@@ -475,6 +365,11 @@ async function logAgentStep(
       durationMs,
       success,
       errorMessage: errorMessage || null,
+      promptTokens: usage?.promptTokens ?? null,
+      completionTokens: usage?.completionTokens ?? null,
+      reasoningTokens: usage?.reasoningTokens ?? null,
+      costUsd: usage ? usage.costUsd.toFixed(6) : null,
+      promptTemplate: promptTemplate ?? null,
     });
   } catch (err) {
     console.error("[Agent] Failed to write step log:", err);
@@ -655,9 +550,9 @@ async function runMarketResearchPhase(
   const icpNotes = icpVersion?.notes?.trim() || icpProfile?.description?.trim() || "";
   const marketSearchBase = icpNotes ? `${icpNotes.slice(0, 120)} market` : `${allIndustries} market`;
   const searchQuery = `${marketSearchBase} trends regulatory changes growth 2025 2026`;
-  const searchConfig = await getSearchConfig();
-  const searchResults = searchConfig ? await performWebSearch(searchQuery) : [];
-  const searchProvider = searchConfig?.provider || "none";
+  const { provider } = await getSearchProvider(config.usage.organizationId);
+  const searchResults = provider ? await performWebSearch(config.usage.organizationId, searchQuery) : [];
+  const searchProvider = provider?.mode || "none";
 
   // Log search query as a step in the audit trail
   await logAgentStep(runId, "market_research", "web_search", searchQuery,
@@ -672,30 +567,24 @@ async function runMarketResearchPhase(
   const offersSection = formatOffersSection(offers);
   const playbookContext = buildPlaybookContextSection(playbook, playbookSteps);
 
-  const systemPrompt = `You are a market research specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). Your task is to analyze the target market and identify key insights for the Health Trixss, Inc. sales team's lead generation efforts.
-CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON object. No preamble, no explanation, no markdown, no code fences. Start your response with { and end with }.`;
-
-  const userPrompt = `Analyze the B2B target market with these parameters:
-- Target Industries: ${industries}
-- Company Sizes: ${sizes}
-- Target Geographies: ${geos}
-- Our Offerings:\n${offersSection}${icpContext}${playbookContext}
-${searchContext}
-
-Respond with JSON:
-{
-  "marketInsights": "3-4 sentences on current market conditions and why now is a good time to target this market",
-  "keyTrends": ["specific market trend 1", "specific market trend 2", "specific market trend 3"],
-  "targetIndustries": ["specific industry segment 1", "specific industry segment 2"],
-  "buyingSignals": ["observable signal that a company is ready to buy or evaluate vendors"]
-}`;
+  const template = await resolveRunPromptTemplate(runId, config.usage.organizationId, "market_research");
+  const { systemPrompt, userPrompt, record: promptTemplate } = renderRunPrompt(template, {
+    industries,
+    companySizes: sizes,
+    geographies: geos,
+    offers: offersSection,
+    icpContext,
+    playbook: playbookContext,
+    searchContext,
+  });
 
   const startTime = Date.now();
   let response = "";
+  let usage: LlmCallUsage | null = null;
   try {
-    response = await callLlm(config, systemPrompt, userPrompt);
+    ({ content: response, usage } = await callLlm(config, systemPrompt, userPrompt));
     const durationMs = Date.now() - startTime;
-    await logAgentStep(runId, "market_research", "analyze_market", userPrompt, response, config.model, config.provider, durationMs, true);
+    await logAgentStep(runId, "market_research", "analyze_market", userPrompt, response, config.model, config.provider, durationMs, true, undefined, usage, promptTemplate);
 
     const parsed = extractJsonFromText(response) as {
       marketInsights?: string;
@@ -713,7 +602,7 @@ Respond with JSON:
   } catch (err) {
     const durationMs = Date.now() - startTime;
     const errorMsg = err instanceof Error ? err.message : String(err);
-    await logAgentStep(runId, "market_research", "analyze_market", userPrompt, response, config.model, config.provider, durationMs, false, errorMsg);
+    await logAgentStep(runId, "market_research", "analyze_market", userPrompt, response, config.model, config.provider, durationMs, false, errorMsg, usage, promptTemplate);
     throw err;
   }
 }
@@ -807,20 +696,20 @@ async function runCompanyDiscoveryPhase(
 
   const searchQueries = [query1, query2, query3, query4];
 
-  const searchConfig = await getSearchConfig();
-  if (!searchConfig) {
-    throw new Error(
-      "No search provider configured. Please set up Azure OpenAI web search or a Brave/Serper API key in Admin Console → AI Configuration."
-    );
+  const search = await getSearchProvider(config.usage.organizationId);
+  if (!search.provider) {
+    throw new Error(search.error
+      ? `Web search provider unavailable: ${search.error}`
+      : "No search provider configured. Please choose Azure OpenAI web search, Brave or Serper in Admin Console → AI Configuration → Web Search Provider.");
   }
 
   // Execute all queries and merge, deduplicating by URL.
   const seenUrls = new Set<string>();
   const searchResults: { title: string; url: string; snippet: string; citations?: { title: string; url: string }[] }[] = [];
 
-  const searchProvider = searchConfig.provider;
+  const searchProvider = search.provider.mode;
   for (const [qi, query] of searchQueries.entries()) {
-    const passResults = await performWebSearch(query);
+    const passResults = await performWebSearch(config.usage.organizationId, query);
     const passLabel = `company_search_pass_${qi + 1}`;
     const passResultLines = passResults.map(r => `${r.title} (${r.url}): ${r.snippet}`).join("\n");
     await logAgentStep(runId, "company_discovery", passLabel, query,
@@ -906,11 +795,6 @@ async function runCompanyDiscoveryPhase(
       // Mode C: search completely unusable
       : `CRITICAL INSTRUCTION — Company names: Web search returned no usable results. Use your training knowledge to identify real, named companies that match the ICP. Set "sourceType": "knowledge_based" for every entry. Do NOT fabricate fictional companies.`;
 
-  const systemPrompt = `You are a company discovery specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). You find target accounts — companies that could become customers of Health Trixss, Inc. — by matching them against a specific ideal customer profile.
-CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON array. No preamble, no explanation, no markdown, no code fences. Start your response with [ and end with ].
-${companySourceInstruction}
-CRITICAL INSTRUCTION — Company details: For every company you include, you MUST populate all fields (domain, website, linkedinUrl, description, etc.) using your training knowledge. These are factual attributes of real, named companies — filling them in is not hallucination. Do NOT leave fields blank or use placeholder values like "company.com", "example.com", "Company Name", or "N/A". Every object in the array must be fully populated.`;
-
   const companySourceUserInstruction = !useKnowledgeFallback
     // Mode A: search grounded
     ? `Respond with a JSON array of up to ${numCompanies} companies. Prioritize companies named in the web research above; supplement with real training-knowledge companies if needed. Set "sourceType": "search_verified" or "knowledge_based" for every entry. Each object must have this shape:`
@@ -920,37 +804,28 @@ CRITICAL INSTRUCTION — Company details: For every company you include, you MUS
       // Mode C: no usable search
       : `Respond with a JSON array of up to ${numCompanies} real companies from your training knowledge. Return an empty array [] only if you genuinely cannot identify any. Set "sourceType": "knowledge_based" for all entries. Each object must have this shape:`;
 
-  const userPrompt = `Discover up to ${numCompanies} companies that match this ICP:
-- Industries: ${industries.join(", ")}
-- Company sizes: ${sizes}
-- Geographies: ${geos}
-- Decision-maker roles we target: ${titles}
-
-Market context: ${marketInsights}${icpContext}${playbookContext}
-${searchContext}
-
-${companySourceUserInstruction}
-{
-  "name": "<actual company name>",
-  "sourceType": "<'search_verified' if company appears in web research above, or 'knowledge_based' if from training knowledge>",
-  "domain": "<actual company domain>",
-  "industry": "<specific industry>",
-  "companySize": "<size range e.g. 200-500>",
-  "geography": "<city, country>",
-  "description": "<2-3 sentence company description>",
-  "icpFitRationale": "<2-3 sentences why this company fits the ICP>",
-  "companyOverview": "<comprehensive 3-4 sentence overview>",
-  "strategicApproach": "<2-3 sentences on how to approach this company>",
-  "website": "<actual company website URL>",
-  "linkedinUrl": "<actual LinkedIn company page URL>"
-}`;
+  const template = await resolveRunPromptTemplate(runId, config.usage.organizationId, "company_discovery");
+  const { systemPrompt, userPrompt, record: promptTemplate } = renderRunPrompt(template, {
+    companyCount: String(numCompanies),
+    industries: industries.join(", "),
+    companySizes: sizes,
+    geographies: geos,
+    targetTitles: titles,
+    marketInsights,
+    icpContext,
+    playbook: playbookContext,
+    searchContext,
+    companySourceInstruction,
+    responseInstruction: companySourceUserInstruction,
+  });
 
   const startTime = Date.now();
   let response = "";
+  let usage: LlmCallUsage | null = null;
   try {
-    response = await callLlm(config, systemPrompt, userPrompt);
+    ({ content: response, usage } = await callLlm(config, systemPrompt, userPrompt));
     const durationMs = Date.now() - startTime;
-    await logAgentStep(runId, "company_discovery", "discover_companies", userPrompt, response, config.model, config.provider, durationMs, true);
+    await logAgentStep(runId, "company_discovery", "discover_companies", userPrompt, response, config.model, config.provider, durationMs, true, undefined, usage, promptTemplate);
 
     const parsed = extractJsonFromText(response) as Array<{
       name?: string;
@@ -1144,9 +1019,9 @@ ${companySourceUserInstruction}
   } catch (err) {
     const durationMs = Date.now() - startTime;
     const errorMsg = err instanceof Error ? err.message : String(err);
-    await logAgentStep(runId, "company_discovery", "discover_companies", userPrompt, response, config.model, config.provider, durationMs, false, errorMsg);
+    await logAgentStep(runId, "company_discovery", "discover_companies", userPrompt, response, config.model, config.provider, durationMs, false, errorMsg, usage, promptTemplate);
     // Even on LLM error, return seed accounts so the pipeline can continue
-    if (seedAccounts.length > 0) {
+    if (seedAccounts.length > 0 && !(err instanceof LlmBudgetExceededError)) {
       console.warn(`[Agent] LLM error in company discovery — returning ${seedAccounts.length} seed accounts to allow pipeline to continue.`);
       return seedAccounts;
     }
@@ -1183,6 +1058,8 @@ async function runContactDiscoveryPhase(
 
   console.log(`[Agent] ICP title compliance: targetTitles=${JSON.stringify(icpVersion?.targetTitles)}, targetTitleKeywords=${JSON.stringify(targetTitleKeywords)}, icpTargetsCSuite=${icpTargetsCSuite}, nonExecIcp=${nonExecIcp}`);
 
+  const template = await resolveRunPromptTemplate(runId, config.usage.organizationId, "contact_discovery");
+
   for (const account of accountsToProcess) {
     // Build search queries based on ICP type
     type SourcedResult = { title: string; url: string; snippet: string; sourceType: "linkedin" | "press_release" | "conference" | "publication" | "general" };
@@ -1234,7 +1111,7 @@ async function runContactDiscoveryPhase(
         let results: { title: string; url: string; snippet: string }[] = [];
         const passStart = Date.now();
         try {
-          results = await performWebSearch(query);
+          results = await performWebSearch(config.usage.organizationId, query);
         } catch (searchErr) {
           console.warn(`[Agent] ${label} failed for "${account.name}": ${searchErr instanceof Error ? searchErr.message : String(searchErr)}`);
         }
@@ -1266,7 +1143,7 @@ async function runContactDiscoveryPhase(
           await db.insert(schema.evidenceSources).values({
             candidateAccountId: account.id,
             sourceType: sourceType === "linkedin" ? "linkedin" : "other",
-            url: `https://search.brave.com/search?q=${encodeURIComponent(query)}`,
+            url: searchPageUrl((await getSearchProvider(config.usage.organizationId)).mode, query),
             title: `${label.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase())}: ${account.name}`,
             content: deduped.map(r => `[${r.sourceType}] ${r.title}: ${r.snippet}`).join("\n"),
           }).catch((e: unknown) => console.warn(`[Agent] Failed to log evidence for ${label}: ${e instanceof Error ? e.message : String(e)}`));
@@ -1278,7 +1155,7 @@ async function runContactDiscoveryPhase(
     } else {
       // Single broad query for executive ICPs
       const searchQuery = `${account.name} executives decision makers ${targetTitles}`;
-      const rawResults = await performWebSearch(searchQuery);
+      const rawResults = await performWebSearch(config.usage.organizationId, searchQuery);
       searchResults = rawResults.map(r => ({ ...r, sourceType: "general" as const }));
 
       // Log the search query itself as an evidence source
@@ -1286,7 +1163,7 @@ async function runContactDiscoveryPhase(
         await db.insert(schema.evidenceSources).values({
           candidateAccountId: account.id,
           sourceType: "other",
-          url: `https://search.brave.com/search?q=${encodeURIComponent(searchQuery)}`,
+          url: searchPageUrl((await getSearchProvider(config.usage.organizationId)).mode, searchQuery),
           title: `Search: ${searchQuery}`,
           content: searchResults.map(r => `${r.title}: ${r.snippet}`).join("\n"),
         });
@@ -1364,12 +1241,6 @@ async function runContactDiscoveryPhase(
       ? `SOURCE GUIDANCE: The web research below is grouped by source type. LinkedIn profile snippets are the STRONGEST grounding signal — if a person's name and title appear in a LinkedIn result, they are almost certainly real and at that company. Press release and conference results are also strong signals when they name a specific individual. Industry publication mentions confirm a person's role and company. Use all source types to triangulate real contacts. If a name appears across multiple source types, that increases confidence.`
       : ``;
 
-    const systemPrompt = `You are a contact discovery specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). You find specific named people at target companies who are potential buyers or influencers for Health Trixss, Inc.'s offerings.
-CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON array. No preamble, no explanation, no markdown, no code fences. Start your response with [ and end with ].
-${csuiteExclusionInstruction}
-${sourceGuidanceInstruction}
-${knowledgeInstruction} Do NOT fabricate or invent people. Do NOT use placeholder names like "First", "Last", "John Doe", "Jane Smith", "John Smith", or any generic example name. Do NOT generate email addresses unless you found a specific confirmed email in the search results. Return an empty array [] if you genuinely cannot identify any real named individuals at this company who match the target roles.`;
-
     const contactFraming = nonExecIcp
       ? `Find contacts at ${account.name} (${account.industry || "health plan"} company, ${account.companySize || "mid-size"}) who specifically hold these functional roles — NOT executives or C-suite`
       : `Find key decision-maker contacts at ${account.name} (${account.industry || "technology"} company, ${account.companySize || "mid-size"})`;
@@ -1378,29 +1249,30 @@ ${knowledgeInstruction} Do NOT fabricate or invent people. Do NOT use placeholde
       ? `Return a JSON array of real named contacts at this company who hold the listed target roles. Use the web research above as your primary evidence — prioritize people who appear in the LinkedIn Profiles section, then those mentioned in press releases or conference listings, then industry publications. Supplement with your knowledge only for contacts you are highly confident are real and publicly documented. Do not fabricate contacts. Return an empty array [] if you cannot identify any real individuals matching the target roles.`
       : `Return a JSON array of real named contacts at this company who hold the listed target roles. Use the web research above for context, and supplement with your knowledge of this company's publicly known staff in these functional areas. Do not fabricate contacts — only include people you know or can confirm are real. Return an empty array [] if you cannot identify any real individuals matching the target roles.`;
 
-    const userPrompt = `${contactFraming}.
-Target roles (ONLY return people whose titles closely match these): ${targetTitles}
-Company overview: ${account.companyOverview || account.description || "No description available"}
-ICP fit rationale for this company: ${account.icpFitRationale || "Good fit"}${icpContext}${buyingSignalsContext}
-${searchContext}
-
-${returnInstruction} Each object must have this shape:
-{
-  "firstName": "<real first name>",
-  "lastName": "<real last name>",
-  "title": "<their actual job title>",
-  "email": "<confirmed email from search results only — omit if unknown>",
-  "linkedinUrl": "<LinkedIn URL if found in the LinkedIn search results — include full URL>",
-  "roleFitRationale": "<2-3 sentences why this person is a good contact>",
-  "outreachPriority": "high|medium|low"
-}`;
+    const { systemPrompt, userPrompt, record: promptTemplate } = renderRunPrompt(template, {
+      companyName: account.name,
+      industry: account.industry || "",
+      companySize: account.companySize || "",
+      contactFraming,
+      targetTitles,
+      companyOverview: account.companyOverview || account.description || "No description available",
+      icpFitRationale: account.icpFitRationale || "Good fit",
+      icpContext,
+      buyingSignals: buyingSignalsContext,
+      searchContext,
+      roleExclusionInstruction: csuiteExclusionInstruction,
+      sourceGuidanceInstruction,
+      knowledgeInstruction,
+      responseInstruction: returnInstruction,
+    });
 
     const startTime = Date.now();
     let response = "";
+    let usage: LlmCallUsage | null = null;
     try {
-      response = await callLlm(config, systemPrompt, userPrompt);
+      ({ content: response, usage } = await callLlm(config, systemPrompt, userPrompt));
       const durationMs = Date.now() - startTime;
-      await logAgentStep(runId, "contact_discovery", `discover_contacts_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, true);
+      await logAgentStep(runId, "contact_discovery", `discover_contacts_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, true, undefined, usage, promptTemplate);
 
       const parsed = extractJsonFromText(response) as Array<{
         firstName?: string;
@@ -1526,7 +1398,7 @@ ${returnInstruction} Each object must have this shape:
         if (!hasLinkedInUrl && !inOriginalSearch && !groundedViaLinkedInSource) {
           try {
             const linkedInQuery = `"${contactData.firstName} ${contactData.lastName}" "${account.name}" LinkedIn`;
-            linkedInSearchResults = await performWebSearch(linkedInQuery);
+            linkedInSearchResults = await performWebSearch(config.usage.organizationId, linkedInQuery);
             const linkedInText = linkedInSearchResults
               .map(r => `${r.title} ${r.snippet}`)
               .join(" ")
@@ -1627,7 +1499,9 @@ ${returnInstruction} Each object must have this shape:
     } catch (err) {
       const durationMs = Date.now() - startTime;
       const errorMsg = err instanceof Error ? err.message : String(err);
-      await logAgentStep(runId, "contact_discovery", `discover_contacts_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, false, errorMsg);
+      await logAgentStep(runId, "contact_discovery", `discover_contacts_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, false, errorMsg, usage, promptTemplate);
+      // An exhausted budget fails every remaining account too; stop the phase now
+      if (err instanceof LlmBudgetExceededError) throw err;
       lastError.push(errorMsg);
       console.warn(`[Agent] Contact discovery failed for account ${account.name}: ${errorMsg}`);
     }
@@ -1664,38 +1538,30 @@ async function runStrategyPhase(
   const signalsContext = buyingSignals.length > 0
     ? `\nBuying signals to leverage: ${buyingSignals.join("; ")}`
     : "";
+  const template = await resolveRunPromptTemplate(runId, config.usage.organizationId, "strategy");
 
   for (const account of accountsToProcess) {
-    const systemPrompt = `You are a B2B sales strategist working for Health Trixss, Inc. (also referred to as "Health Trixss"). Create targeted strategic approach documents that guide the Health Trixss, Inc. sales team in engaging each target account.
-CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON object. No preamble, no explanation, no markdown, no code fences. Start your response with { and end with }.`;
-
-    const userPrompt = `Create a strategic sales approach for ${account.name}:
-- Industry: ${account.industry || "technology"}
-- Company Size: ${account.companySize || "unknown"}
-- Geography: ${account.geography || "unknown"}
-- ICP Fit Rationale: ${account.icpFitRationale || "Good fit"}
-- Company Overview: ${account.companyOverview || account.description || "Not available"}
-
-Our Offerings:
-${offersSection}
-
-Market Intelligence:
-- Market Insights: ${marketInsights}${trendsContext}${signalsContext}${icpContext}
-
-Respond with JSON:
-{
-  "strategicApproach": "3-4 sentence detailed strategic approach specific to this company",
-  "keyPainPoints": ["specific pain point this company likely has", "another specific pain point"],
-  "differentiators": ["specific reason our solution stands out for this company vs alternatives"],
-  "recommendedFirstMove": "specific, concrete first outreach action with a clear hook"
-}`;
+    const { systemPrompt, userPrompt, record: promptTemplate } = renderRunPrompt(template, {
+      companyName: account.name,
+      industry: account.industry || "technology",
+      companySize: account.companySize || "unknown",
+      geography: account.geography || "unknown",
+      icpFitRationale: account.icpFitRationale || "Good fit",
+      companyOverview: account.companyOverview || account.description || "Not available",
+      offers: offersSection,
+      marketInsights,
+      keyTrends: trendsContext,
+      buyingSignals: signalsContext,
+      icpContext,
+    });
 
     const startTime = Date.now();
     let response = "";
+    let usage: LlmCallUsage | null = null;
     try {
-      response = await callLlm(config, systemPrompt, userPrompt);
+      ({ content: response, usage } = await callLlm(config, systemPrompt, userPrompt));
       const durationMs = Date.now() - startTime;
-      await logAgentStep(runId, "strategy", `strategy_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, true);
+      await logAgentStep(runId, "strategy", `strategy_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, true, undefined, usage, promptTemplate);
 
       const parsed = extractJsonFromText(response) as {
         strategicApproach?: string;
@@ -1728,7 +1594,8 @@ Respond with JSON:
     } catch (err) {
       const durationMs = Date.now() - startTime;
       const errorMsg = err instanceof Error ? err.message : String(err);
-      await logAgentStep(runId, "strategy", `strategy_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, false, errorMsg);
+      await logAgentStep(runId, "strategy", `strategy_${account.id}`, userPrompt, response, config.model, config.provider, durationMs, false, errorMsg, usage, promptTemplate);
+      if (err instanceof LlmBudgetExceededError) throw err;
       lastError.push(errorMsg);
       console.warn(`[Agent] Strategy phase failed for account ${account.name}: ${errorMsg}`);
     }
@@ -1775,6 +1642,12 @@ async function runCommunicationDraftingPhase(
     ? `\nBuying signals: ${buyingSignals.join("; ")}`
     : "";
 
+  const template = await resolveRunPromptTemplate(
+    runId,
+    config.usage.organizationId,
+    playbook && playbookSteps.length > 0 ? "communication_drafting_playbook" : "communication_drafting",
+  );
+
   // Cache strategy documents per account to avoid redundant DB lookups
   const strategyDocCache = new Map<string, { keyPainPoints: string[]; differentiators: string[]; recommendedFirstMove: string }>();
 
@@ -1840,19 +1713,28 @@ async function runCommunicationDraftingPhase(
       ? `\n- Recommended First Move: ${strategyData.recommendedFirstMove}`
       : "";
 
-    const sharedContext = `Contact: ${contact.firstName} ${contact.lastName}, ${contact.title || "executive"} at ${account.name}
-Company: ${account.name} (${account.industry || "technology"}, ${account.companySize || "mid-size"})
-Strategic Context: ${account.strategicApproach || account.icpFitRationale || "Strong ICP fit"}${painPointsStr}${differentiatorsStr}${firstMoveStr}
-
-Our Offerings:
-${offersSection || "Not specified"}
-
-Market Intelligence:
-- ${marketInsights}${trendsContext}${signalsContext}${icpContext}`;
+    const draftVariables: Record<string, string> = {
+      contactName: `${contact.firstName} ${contact.lastName}`,
+      contactTitle: contact.title || "executive",
+      companyName: account.name,
+      industry: account.industry || "technology",
+      companySize: account.companySize || "mid-size",
+      strategicContext: account.strategicApproach || account.icpFitRationale || "Strong ICP fit",
+      painPoints: painPointsStr,
+      differentiators: differentiatorsStr,
+      firstMove: firstMoveStr,
+      offers: offersSection || "Not specified",
+      marketInsights,
+      keyTrends: trendsContext,
+      buyingSignals: signalsContext,
+      icpContext,
+    };
 
     const startTime = Date.now();
     let response = "";
+    let usage: LlmCallUsage | null = null;
     let lastPrompt = "";
+    let lastPromptTemplate: schema.AgentStepPromptTemplate | undefined;
 
     try {
       let communicationPlan: unknown;
@@ -1868,40 +1750,17 @@ Market Intelligence:
           description: s.description || "",
         }));
 
-        const systemPrompt = `You are a B2B sales communication specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). All outreach messages you draft are sent ON BEHALF OF Health Trixss, Inc. — sign-offs, sender references, and company mentions should use "Health Trixss" or "Health Trixss, Inc." Never use the name "HealthTrixss" (one word) — it is always written as two words: "Health Trixss".
-Generate one personalised outreach draft per playbook step, channel-appropriate for each step type.
-CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON array. No preamble, no explanation, no markdown, no code fences. Start your response with [ and end with ].`;
-
-        const userPrompt = `Write one outreach draft for each step of the "${playbook.name}" playbook below.
-
-${sharedContext}
-
-Playbook steps (write one draft per step, in order):
-${JSON.stringify(stepsJson, null, 2)}
-
-Return a JSON array with one object per step:
-[
-  {
-    "stepOrder": 1,
-    "stepName": "<step name>",
-    "channel": "<email|linkedin|call|task>",
-    "dayOffset": 0,
-    "activityType": "<email|call|task|meeting|note>",
-    "subject": "<email subject — only for email channel steps; omit for other channels>",
-    "draftMessage": "<full message body: email gets 2-3 paragraphs, LinkedIn gets a short connection note, call gets a talk-track outline>"
-  }
-]
-
-Guidelines:
-- Email: subject + 2-3 paragraph body referencing pain points and value propositions
-- LinkedIn: concise connection message (≤300 chars) referencing shared context
-- Call / phone: talk-track outline with opening hook, key questions, value statement, and next step ask
-- Task / other: a clear action description`;
+        const { systemPrompt, userPrompt, record: promptTemplate } = renderRunPrompt(template, {
+          ...draftVariables,
+          playbookName: playbook.name,
+          playbookSteps: JSON.stringify(stepsJson, null, 2),
+        });
 
         lastPrompt = userPrompt;
-        response = await callLlm(config, systemPrompt, userPrompt);
+        lastPromptTemplate = promptTemplate;
+        ({ content: response, usage } = await callLlm(config, systemPrompt, userPrompt));
         const durationMs = Date.now() - startTime;
-        await logAgentStep(runId, "communication_drafting", `draft_${lead.id}`, userPrompt, response, config.model, config.provider, durationMs, true);
+        await logAgentStep(runId, "communication_drafting", `draft_${lead.id}`, userPrompt, response, config.model, config.provider, durationMs, true, undefined, usage, promptTemplate);
 
         const parsedSteps = extractJsonFromText(response) as Array<{
           stepOrder?: number;
@@ -1933,27 +1792,13 @@ Guidelines:
         }
       } else {
         // ── LEGACY MODE: single communication plan (no playbook) ────────────
-        const systemPrompt = `You are a B2B sales communication specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). All outreach messages you draft are sent ON BEHALF OF Health Trixss, Inc. — sign-offs, sender references, and company mentions should use "Health Trixss" or "Health Trixss, Inc." Never use the name "HealthTrixss" (one word) — it is always written as two words: "Health Trixss".
-Draft personalized outreach messages tailored to specific contacts.
-CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON object. No preamble, no explanation, no markdown, no code fences. Start your response with { and end with }.`;
-
-        const userPrompt = `Draft a personalized outreach communication plan for:
-- ${sharedContext}
-
-Respond with JSON:
-{
-  "channelRecommendation": "email|linkedin|call",
-  "tone": "professional|consultative|direct|warm",
-  "objectives": ["primary objective", "secondary objective"],
-  "subjectLine": "Compelling, specific email subject line (not generic)",
-  "draftedMessage": "Full personalized message (3-4 paragraphs) referencing specific pain points and value propositions",
-  "followUpSequence": ["day 3: specific follow up action", "day 7: specific action"]
-}`;
+        const { systemPrompt, userPrompt, record: promptTemplate } = renderRunPrompt(template, draftVariables);
 
         lastPrompt = userPrompt;
-        response = await callLlm(config, systemPrompt, userPrompt);
+        lastPromptTemplate = promptTemplate;
+        ({ content: response, usage } = await callLlm(config, systemPrompt, userPrompt));
         const durationMs = Date.now() - startTime;
-        await logAgentStep(runId, "communication_drafting", `draft_${lead.id}`, userPrompt, response, config.model, config.provider, durationMs, true);
+        await logAgentStep(runId, "communication_drafting", `draft_${lead.id}`, userPrompt, response, config.model, config.provider, durationMs, true, undefined, usage, promptTemplate);
 
         communicationPlan = extractJsonFromText(response);
       }
@@ -1999,7 +1844,8 @@ Respond with JSON:
     } catch (err) {
       const durationMs = Date.now() - startTime;
       const errorMsg = err instanceof Error ? err.message : String(err);
-      await logAgentStep(runId, "communication_drafting", `draft_${lead.id}`, lastPrompt || "", response, config.model, config.provider, durationMs, false, errorMsg);
+      await logAgentStep(runId, "communication_drafting", `draft_${lead.id}`, lastPrompt || "", response, config.model, config.provider, durationMs, false, errorMsg, usage, lastPromptTemplate);
+      if (err instanceof LlmBudgetExceededError) throw err;
       lastError.push(errorMsg);
       console.warn(`[Agent] Communication drafting failed for lead ${lead.id}: ${errorMsg}`);
     }
@@ -2010,26 +1856,33 @@ Respond with JSON:
   }
 }
 
-export async function runLeadGenPipeline(runId: string, startFromPhase?: string): Promise<void> {
-  console.log(`[Agent] Starting pipeline for run ${runId}${startFromPhase ? ` from phase ${startFromPhase}` : ""}`);
+export async function runLeadGenPipeline(runId: string, control: LeadGenPipelineControl): Promise<LeadGenPipelineOutcome> {
+  const { startFromPhase, lastCompletedPhase } = control;
+  console.log(`[Agent] Starting pipeline for run ${runId}${startFromPhase ? ` from phase ${startFromPhase}` : ""}${lastCompletedPhase ? ` (resuming after ${lastCompletedPhase})` : ""}`);
 
-  activeRunIds.add(runId);
   try {
-    await _runPipelineInternal(runId, startFromPhase);
-  } finally {
-    activeRunIds.delete(runId);
+    const outcome = await _runPipelineInternal(runId, control);
+    await notifyLeadGenRunFinished(runId);
+    return outcome;
+  } catch (err) {
+    if (!(err instanceof LeadGenPipelineInterrupted)) {
+      await notifyLeadGenRunFinished(runId, err instanceof Error ? err.message : String(err));
+    }
+    throw err;
   }
 }
 
-async function _runPipelineInternal(runId: string, startFromPhase?: string): Promise<void> {
-  // Reset search config cache so each pipeline run re-reads from DB
-  _cachedSearchConfig = undefined;
+async function _runPipelineInternal(runId: string, control: LeadGenPipelineControl): Promise<LeadGenPipelineOutcome> {
+  const { startFromPhase } = control;
 
   const runRows = await db.select().from(schema.leadGenerationRuns)
     .where(eq(schema.leadGenerationRuns.id, runId)).limit(1);
   const run = runRows[0];
   if (!run) throw new Error(`Run ${runId} not found`);
 
+  // Reset the organization's search config cache so each pipeline run re-reads from DB
+  _cachedSearchProviders.delete(run.organizationId);
+
   let icpVersion: schema.IcpProfileVersion | null = null;
   if (run.icpVersionId) {
     const vRows = await db.select().from(schema.icpProfileVersions)
@@ -2122,8 +1975,7 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
     : [];
 
   const targetCount = run.targetCount ?? 10;
-  const phaseStartIndex = startFromPhase ? PHASES.indexOf(startFromPhase as Phase) : 0;
-  const phasesToRun = phaseStartIndex >= 0 ? PHASES.slice(phaseStartIndex) : PHASES;
+  const phasesToRun = remainingLeadGenPhases(startFromPhase, control.lastCompletedPhase);
 
   let marketInsights = "Strong market opportunity identified.";
   let targetIndustries: string[] = icpVersion?.targetIndustries || [];
@@ -2132,10 +1984,17 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
   let discoveredAccounts: schema.CandidateAccount[] = [];
   let discoveredLeads: schema.CandidateLead[] = [];
 
-  if (startFromPhase) {
+  // Later phases prompt with market research output; restore it when that phase isn't rerun
+  if (control.checkpoint && !phasesToRun.includes("market_research")) {
+    ({ marketInsights, targetIndustries, keyTrends, buyingSignals } = control.checkpoint);
+  }
+
+  const firstPhase = phasesToRun[0];
+  if (startFromPhase || control.lastCompletedPhase) {
     // Deduplication: delete entities that will be regenerated by the phases being (re)run,
-    // to prevent duplicates when retrying from a phase.
-    const phaseIdx = phaseStartIndex >= 0 ? phaseStartIndex : 0;
+    // to prevent duplicates when retrying from a phase or resuming an interrupted run
+    // (which may have left part of a phase's output behind).
+    const phaseIdx = firstPhase ? PHASES.indexOf(firstPhase) : PHASES.length;
     const willRunContactDiscovery = phaseIdx <= PHASES.indexOf("contact_discovery");
     const willRunCompanyDiscovery = phaseIdx <= PHASES.indexOf("company_discovery");
 
@@ -2153,7 +2012,7 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
       await db.delete(schema.candidateAccounts).where(eq(schema.candidateAccounts.runId, runId));
     }
 
-    if (startFromPhase !== "market_research") {
+    if (firstPhase !== "market_research") {
       discoveredAccounts = await db.select().from(schema.candidateAccounts)
         .where(eq(schema.candidateAccounts.runId, runId));
       discoveredLeads = await db.select().from(schema.candidateLeads)
@@ -2162,16 +2021,15 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
   }
 
   for (const phase of phasesToRun) {
-    if (stoppedRunIds.has(runId)) {
-      stoppedRunIds.delete(runId);
+    if (await control.stopRequested()) {
       console.log(`[Agent] Run ${runId} was stopped before phase ${phase}. Halting pipeline.`);
       await db.update(schema.leadGenerationRuns)
         .set({ status: "stopped", currentPhase: null, updatedAt: new Date() })
         .where(eq(schema.leadGenerationRuns.id, runId));
-      return;
+      return { status: "stopped" };
     }
 
-    const config = await getLlmConfig(phase);
+    const config = await getLlmConfig(run, phase);
 
     if (!config) {
       const setupError =
@@ -2195,6 +2053,8 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
     await updateRunPhase(runId, phase, phaseEntry);
 
     try {
+      // Inside the try so an exhausted budget fails the run with its reason
+      await assertLlmBudgetAvailable(run.organizationId);
       console.log(`[Agent] Running phase: ${phase} with model ${config.model}`);
 
       if (phase === "market_research") {
@@ -2246,9 +2106,8 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
       phaseEntry.errorMessage = errorMsg;
 
       // If a stop was requested while this phase was running, honor stop intent
-      const wasStopped = stoppedRunIds.has(runId);
+      const wasStopped = await control.stopRequested();
       if (wasStopped) {
-        stoppedRunIds.delete(runId);
         await updateRunPhase(runId, null, phaseEntry);
         await db.update(schema.leadGenerationRuns)
           .set({ status: "stopped", currentPhase: null, updatedAt: new Date() })
@@ -2264,8 +2123,10 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
           .set({ status: "error", updatedAt: new Date() })
           .where(eq(schema.leadGenerationRuns.id, runId));
       }
-      return;
+      return wasStopped ? { status: "stopped" } : { status: "error", phase, message: errorMsg };
     }
+
+    await control.phaseCompleted(phase, { marketInsights, targetIndustries, keyTrends, buyingSignals });
   }
 
   const totalLeadsResult = await db.select({ count: sql<number>`count(*)::int` })
@@ -2286,4 +2147,5 @@ async function _runPipelineInternal(runId: string, startFromPhase?: string): Pro
     .where(eq(schema.leadGenerationRuns.id, runId));
 
   console.log(`[Agent] Pipeline complete for run ${runId}`);
+  return { status: "complete" };
 }
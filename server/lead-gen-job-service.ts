@@ -0,0 +1,358 @@
+// Lead generation pipeline jobs
+// Starting, retrying or resuming a run queues a job. A worker in any app
+// process claims it under a lease, renews the lease with a heartbeat while
+// the pipeline runs, and saves the last completed phase (plus the market
+// research output later phases need) after each phase. When a deploy or crash
+// lets the lease lapse, the job is claimed again and resumes after that phase.
+// Stop requests are stored on the job, so they reach whichever process holds
+// it, and an organization runs at most LEAD_GEN_MAX_CONCURRENT_RUNS pipelines
+// at once; further jobs wait in the queue.
+
+import os from "os";
+import { randomUUID } from "crypto";
+import { and, desc, eq, inArray, isNotNull, isNull, lt, notExists, sql } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import type { LeadGenJob, LeadGenerationRun, LeadGenJobStatus, LeadGenPhase } from "@shared/schema";
+import {
+  LeadGenPipelineInterrupted,
+  runLeadGenPipeline,
+  type LeadGenPipelineOutcome,
+} from "./lead-gen-agent-service";
+import { notifyLeadGenRunFinished } from "./notification-service";
+import { LIVE_LEAD_GEN_JOB_STATUSES, maxConcurrentLeadGenRuns, remainingLeadGenPhases } from "./lib/lead-gen-jobs";
+
+export class LeadGenJobError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// A claimed job is owned for this long; the heartbeat renews it well before it lapses
+const LEASE_SECONDS = 3 * 60;
+const HEARTBEAT_MS = 30_000;
+// Claims before a job that keeps losing its worker is failed instead of resumed again
+const MAX_ATTEMPTS = 3;
+// Pipelines this process runs side by side (the per-organization limit still applies)
+const PROCESS_SLOTS = 4;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const OUTCOME_JOB_STATUS: Record<LeadGenPipelineOutcome["status"], LeadGenJobStatus> = {
+  complete: "completed",
+  stopped: "cancelled",
+  error: "failed",
+};
+
+const liveJob = inArray(schema.leadGenJobs.status, [...LIVE_LEAD_GEN_JOB_STATUSES]);
+
+/**
+ * Mark the run active with runUpdates and queue a job for it, starting at
+ * startPhase (every phase when null). A retry keeps the market research
+ * output of the run's previous job. Throws 409 while a job for the run is
+ * still queued or running.
+ */
+export async function queueLeadGenRun(
+  run: LeadGenerationRun,
+  startPhase: LeadGenPhase | null,
+  createdBy: string | null,
+  runUpdates: Partial<typeof schema.leadGenerationRuns.$inferInsert> = {},
+): Promise<LeadGenerationRun> {
+  const updated = await db.transaction(async (tx) => {
+    // Locks the run so two requests can't both queue a job for it
+    await tx.select({ id: schema.leadGenerationRuns.id }).from(schema.leadGenerationRuns)
+      .where(eq(schema.leadGenerationRuns.id, run.id))
+      .for("update");
+
+    const [live] = await tx.select({ id: schema.leadGenJobs.id }).from(schema.leadGenJobs)
+      .where(and(eq(schema.leadGenJobs.runId, run.id), liveJob))
+      .limit(1);
+    if (live) {
+      throw new LeadGenJobError("Pipeline is still running. Please wait for the current phase to complete before resuming.", 409);
+    }
+
+    const [previous] = startPhase && startPhase !== "market_research"
+      ? await tx.select({ checkpoint: schema.leadGenJobs.checkpoint }).from(schema.leadGenJobs)
+          .where(and(eq(schema.leadGenJobs.runId, run.id), isNotNull(schema.leadGenJobs.checkpoint)))
+          .orderBy(desc(schema.leadGenJobs.createdAt))
+          .limit(1)
+      : [];
+
+    await tx.insert(schema.leadGenJobs).values({
+      organizationId: run.organizationId,
+      runId: run.id,
+      startPhase,
+      checkpoint: previous?.checkpoint ?? null,
+      createdBy,
+    });
+
+    const [result] = await tx.update(schema.leadGenerationRuns)
+      .set({
+        ...runUpdates,
+        status: "active",
+        currentPhase: startPhase ?? schema.LEAD_GEN_PHASES[0],
+        errorPhase: null,
+        errorReason: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.leadGenerationRuns.id, run.id))
+      .returning();
+    return result;
+  });
+
+  kickLeadGenJobWorker();
+  return updated;
+}
+
+/**
+ * Ask the run's job to stop. A queued job is cancelled now; a running one
+ * stops at its next phase boundary, in whichever process holds it.
+ */
+export async function requestLeadGenRunStop(runId: string): Promise<void> {
+  const now = new Date();
+  await db.update(schema.leadGenJobs)
+    .set({ status: "cancelled", stopRequestedAt: now, completedAt: now })
+    .where(and(eq(schema.leadGenJobs.runId, runId), eq(schema.leadGenJobs.status, "queued")));
+  await db.update(schema.leadGenJobs)
+    .set({ stopRequestedAt: now })
+    .where(and(
+      eq(schema.leadGenJobs.runId, runId),
+      eq(schema.leadGenJobs.status, "running"),
+      isNull(schema.leadGenJobs.stopRequestedAt),
+    ));
+}
+
+/** The run's most recent job, for the run page. */
+export async function getLatestLeadGenJob(runId: string): Promise<LeadGenJob | undefined> {
+  const [job] = await db.select().from(schema.leadGenJobs)
+    .where(eq(schema.leadGenJobs.runId, runId))
+    .orderBy(desc(schema.leadGenJobs.createdAt))
+    .limit(1);
+  return job;
+}
+
+// ---------- Worker ----------
+
+/**
+ * Claim the oldest queued job, or a running one whose lease lapsed, from an
+ * organization below its concurrency limit.
+ */
+async function claimNextLeadGenJob(): Promise<LeadGenJob | undefined> {
+  const limit = maxConcurrentLeadGenRuns(process.env.LEAD_GEN_MAX_CONCURRENT_RUNS);
+  return db.transaction(async (tx) => {
+    // One claim at a time across processes, so two workers can't both take an
+    // organization's last free slot
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('lead_gen_jobs_claim'))`);
+    const [job] = await tx.update(schema.leadGenJobs)
+      .set({
+        status: "running",
+        attempts: sql`${schema.leadGenJobs.attempts} + 1`,
+        leaseOwner: WORKER_ID,
+        leaseExpiresAt: sql`now() + make_interval(secs => ${LEASE_SECONDS})`,
+        heartbeatAt: new Date(),
+        startedAt: sql`coalesce(${schema.leadGenJobs.startedAt}, now())`,
+      })
+      .where(eq(schema.leadGenJobs.id, sql`(
+        SELECT j.id FROM lead_gen_jobs j
+        WHERE (j.status = 'queued' OR (j.status = 'running' AND j.lease_expires_at < now()))
+          AND (
+            SELECT count(*) FROM lead_gen_jobs r
+            WHERE r.organization_id = j.organization_id AND r.status = 'running' AND r.lease_expires_at >= now()
+          ) < ${limit}
+        ORDER BY j.created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return job;
+  });
+}
+
+/** Extend the lease. False when another worker has taken the job over. */
+async function renewLease(jobId: string): Promise<boolean> {
+  const [renewed] = await db.update(schema.leadGenJobs)
+    .set({
+      leaseExpiresAt: sql`now() + make_interval(secs => ${LEASE_SECONDS})`,
+      heartbeatAt: new Date(),
+    })
+    .where(and(
+      eq(schema.leadGenJobs.id, jobId),
+      eq(schema.leadGenJobs.leaseOwner, WORKER_ID),
+      eq(schema.leadGenJobs.status, "running"),
+    ))
+    .returning({ id: schema.leadGenJobs.id });
+  return Boolean(renewed);
+}
+
+async function finishLeadGenJob(jobId: string, status: LeadGenJobStatus, errorMessage: string | null = null) {
+  await db.update(schema.leadGenJobs)
+    .set({ status, errorMessage, completedAt: new Date(), leaseOwner: null, leaseExpiresAt: null })
+    .where(and(eq(schema.leadGenJobs.id, jobId), eq(schema.leadGenJobs.leaseOwner, WORKER_ID)));
+}
+
+/** Put a run the pipeline couldn't finish into the error state, so it can be retried from the phase it was on. */
+async function failLeadGenRun(runId: string, phase: LeadGenPhase, reason: string) {
+  await db.update(schema.leadGenerationRuns)
+    .set({ status: "error", errorPhase: phase, errorReason: reason, updatedAt: new Date() })
+    .where(and(eq(schema.leadGenerationRuns.id, runId), eq(schema.leadGenerationRuns.status, "active")));
+}
+
+async function runLeadGenJob(job: LeadGenJob): Promise<void> {
+  if (job.attempts > MAX_ATTEMPTS) {
+    const reason = `The pipeline worker stopped responding ${MAX_ATTEMPTS} times while running this run`;
+    const phase = remainingLeadGenPhases(job.startPhase, job.lastCompletedPhase)[0] ?? schema.LEAD_GEN_PHASES[0];
+    await finishLeadGenJob(job.id, "failed", reason);
+    await failLeadGenRun(job.runId, phase, reason);
+    await notifyLeadGenRunFinished(job.runId, reason);
+    return;
+  }
+  if (job.attempts > 1) {
+    console.log(`[LeadGenJobs] Resuming job ${job.id} for run ${job.runId} (attempt ${job.attempts})`);
+  }
+
+  let leaseLost = false;
+  const assertLease = () => {
+    if (leaseLost) throw new LeadGenPipelineInterrupted(`Job ${job.id} was taken over by another worker`);
+  };
+  const heartbeat = setInterval(() => {
+    renewLease(job.id)
+      .then(renewed => { if (!renewed) leaseLost = true; })
+      .catch(err => console.error(`[LeadGenJobs] Heartbeat failed for job ${job.id}:`, err));
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  try {
+    const outcome = await runLeadGenPipeline(job.runId, {
+      startFromPhase: job.startPhase,
+      lastCompletedPhase: job.lastCompletedPhase,
+      checkpoint: job.checkpoint,
+      stopRequested: async () => {
+        assertLease();
+        const [current] = await db.select({
+          leaseOwner: schema.leadGenJobs.leaseOwner,
+          stopRequestedAt: schema.leadGenJobs.stopRequestedAt,
+        }).from(schema.leadGenJobs).where(eq(schema.leadGenJobs.id, job.id));
+        if (current?.leaseOwner !== WORKER_ID) {
+          throw new LeadGenPipelineInterrupted(`Job ${job.id} was taken over by another worker`);
+        }
+        return current.stopRequestedAt !== null;
+      },
+      phaseCompleted: async (phase, checkpoint) => {
+        assertLease();
+        const [saved] = await db.update(schema.leadGenJobs)
+          .set({ lastCompletedPhase: phase, checkpoint, heartbeatAt: new Date() })
+          .where(and(eq(schema.leadGenJobs.id, job.id), eq(schema.leadGenJobs.leaseOwner, WORKER_ID)))
+          .returning({ id: schema.leadGenJobs.id });
+        if (!saved) throw new LeadGenPipelineInterrupted(`Job ${job.id} was taken over by another worker`);
+      },
+    });
+    await finishLeadGenJob(job.id, OUTCOME_JOB_STATUS[outcome.status], outcome.status === "error" ? outcome.message : null);
+  } catch (error) {
+    if (error instanceof LeadGenPipelineInterrupted) {
+      console.warn(`[LeadGenJobs] ${error.message}; leaving it to that worker`);
+      return;
+    }
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/** Run a claimed job; a pipeline that throws fails both the job and the run. */
+async function runClaimedLeadGenJob(job: LeadGenJob): Promise<void> {
+  try {
+    await runLeadGenJob(job);
+  } catch (error: any) {
+    const message = error?.message ?? String(error);
+    console.error(`[LeadGenJobs] Job ${job.id} for run ${job.runId} failed:`, error);
+    try {
+      const [current] = await db.select().from(schema.leadGenJobs).where(eq(schema.leadGenJobs.id, job.id));
+      const phase = remainingLeadGenPhases(job.startPhase, current?.lastCompletedPhase)[0] ?? schema.LEAD_GEN_PHASES[0];
+      await finishLeadGenJob(job.id, "failed", message);
+      await failLeadGenRun(job.runId, phase, message);
+    } catch (err) {
+      console.error(`[LeadGenJobs] Could not mark job ${job.id} failed:`, err);
+    }
+  }
+}
+
+/**
+ * Runs left active without a live job, such as runs that were mid-pipeline
+ * when this queue was introduced or that came back from a backup, would
+ * otherwise stay active forever. Move them to the error state so they can be
+ * retried from their current phase.
+ */
+export async function recoverOrphanedLeadGenRuns(): Promise<number> {
+  const orphaned = await db.update(schema.leadGenerationRuns)
+    .set({
+      status: "error",
+      errorPhase: sql`coalesce(${schema.leadGenerationRuns.currentPhase}, ${schema.LEAD_GEN_PHASES[0]})`,
+      errorReason: "The pipeline was interrupted before it finished. Retry to continue from this phase.",
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(schema.leadGenerationRuns.status, "active"),
+      inArray(schema.leadGenerationRuns.currentPhase, [...schema.LEAD_GEN_PHASES]),
+      lt(schema.leadGenerationRuns.updatedAt, sql`now() - make_interval(secs => ${LEASE_SECONDS})`),
+      notExists(
+        db.select({ id: schema.leadGenJobs.id }).from(schema.leadGenJobs)
+          .where(and(eq(schema.leadGenJobs.runId, schema.leadGenerationRuns.id), liveJob)),
+      ),
+    ))
+    .returning({ id: schema.leadGenerationRuns.id });
+  return orphaned.length;
+}
+
+const runningJobIds = new Set<string>();
+let workerTimer: NodeJS.Timeout | null = null;
+let claiming = false;
+let rerun = false;
+
+/** Claim jobs until this process's slots are full or nothing is claimable. */
+async function fillLeadGenJobSlots(): Promise<void> {
+  while (runningJobIds.size < PROCESS_SLOTS) {
+    const job = await claimNextLeadGenJob();
+    if (!job) return;
+    runningJobIds.add(job.id);
+    runClaimedLeadGenJob(job).finally(() => {
+      runningJobIds.delete(job.id);
+      // A slot (and maybe the organization's limit) just freed up
+      kickLeadGenJobWorker();
+    });
+  }
+}
+
+/** Claim work now instead of waiting for the next tick (new jobs, freed slots). */
+export function kickLeadGenJobWorker(): void {
+  if (claiming) {
+    rerun = true;
+    return;
+  }
+  claiming = true;
+  fillLeadGenJobSlots()
+    .catch(err => console.error("[LeadGenJobs] Worker error:", err))
+    .finally(() => {
+      claiming = false;
+      if (rerun) {
+        rerun = false;
+        kickLeadGenJobWorker();
+      }
+    });
+}
+
+/**
+ * Start the periodic sweep (idempotent). Each tick claims queued jobs and
+ * jobs whose worker went away, and errors out runs left active without a job.
+ */
+export function startLeadGenJobWorker(intervalMs = 30_000): void {
+  if (workerTimer) return;
+  const tick = () => {
+    kickLeadGenJobWorker();
+    recoverOrphanedLeadGenRuns()
+      .then(count => { if (count > 0) console.log(`[LeadGenJobs] Moved ${count} interrupted run(s) without a job to the error state`); })
+      .catch(err => console.error("[LeadGenJobs] Orphaned run sweep failed:", err));
+  };
+  workerTimer = setInterval(tick, intervalMs);
+  workerTimer.unref();
+  tick();
+}
@@ -0,0 +1,154 @@
+// Lead-gen prompt template routes. Sales ops edit the prompts the lead-gen
+// agent renders for the active organization: each save adds a version, any
+// version (or the built-in template) can be made active again, and a draft can
+// be previewed against the inputs a past run recorded.
+
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import { leadGenPromptPreviewSchema, leadGenPromptTemplateInputSchema, type LeadGenPromptKey } from "@shared/schema";
+import {
+  PromptTemplateError,
+  activatePromptTemplateVersion,
+  getActivePromptTemplate,
+  getPromptTemplateVersions,
+  isLeadGenPromptKey,
+  listPromptPreviewRuns,
+  listPromptTemplates,
+  previewPromptTemplate,
+  savePromptTemplate,
+} from "./lead-gen-prompt-service";
+
+// The roles that set up lead generation runs
+const PROMPT_ROLES = ["Admin", "SalesManager", "SalesOperator"] as const;
+
+const activateSchema = z.object({
+  // null switches back to the built-in template
+  version: z.number().int().positive().nullable(),
+});
+
+function promptKey(req: AuthRequest, res: Response): LeadGenPromptKey | null {
+  if (isLeadGenPromptKey(req.params.key)) return req.params.key;
+  res.status(404).json({ error: "Unknown prompt" });
+  return null;
+}
+
+async function auditTemplateChange(req: AuthRequest, key: LeadGenPromptKey, before: unknown, after: unknown) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action: "update",
+      resource: "LeadGenPromptTemplate",
+      resourceId: key,
+      before: before as Record<string, unknown>,
+      after: after as Record<string, unknown>,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+export function registerLeadGenPromptRoutes(app: Express) {
+  // GET /api/lead-gen/prompt-templates — every prompt with its variables, built-in text and active version
+  app.get("/api/lead-gen/prompt-templates", authenticate, requireRole(...PROMPT_ROLES), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await listPromptTemplates(req.activeOrgId!));
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      return res.status(500).json({ error: "Failed to fetch prompt templates" });
+    }
+  });
+
+  // GET /api/lead-gen/prompt-templates/:key/versions — version history, newest first
+  app.get("/api/lead-gen/prompt-templates/:key/versions", authenticate, requireRole(...PROMPT_ROLES), readRateLimiter, async (req: AuthRequest, res) => {
+    const key = promptKey(req, res);
+    if (!key) return;
+    try {
+      return res.json(await getPromptTemplateVersions(req.activeOrgId!, key));
+    } catch (error) {
+      console.error("Error fetching prompt template versions:", error);
+      return res.status(500).json({ error: "Failed to fetch prompt template versions" });
+    }
+  });
+
+  // POST /api/lead-gen/prompt-templates/:key/versions — save a new version and make it active
+  app.post("/api/lead-gen/prompt-templates/:key/versions", authenticate, requireRole(...PROMPT_ROLES), crudRateLimiter, async (req: AuthRequest, res) => {
+    const key = promptKey(req, res);
+    if (!key) return;
+    try {
+      const input = leadGenPromptTemplateInputSchema.parse(req.body);
+      const before = await getActivePromptTemplate(req.activeOrgId!, key);
+      const saved = await savePromptTemplate(req.activeOrgId!, key, input, req.user?.id ?? null);
+      await auditTemplateChange(req, key, before, saved);
+      return res.status(201).json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof PromptTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error saving prompt template:", error);
+      return res.status(500).json({ error: "Failed to save prompt template" });
+    }
+  });
+
+  // POST /api/lead-gen/prompt-templates/:key/activate — make a saved version (or the built-in one) active
+  app.post("/api/lead-gen/prompt-templates/:key/activate", authenticate, requireRole(...PROMPT_ROLES), crudRateLimiter, async (req: AuthRequest, res) => {
+    const key = promptKey(req, res);
+    if (!key) return;
+    try {
+      const { version } = activateSchema.parse(req.body);
+      const before = await getActivePromptTemplate(req.activeOrgId!, key);
+      await activatePromptTemplateVersion(req.activeOrgId!, key, version);
+      const after = await getActivePromptTemplate(req.activeOrgId!, key);
+      await auditTemplateChange(req, key, before, after);
+      return res.json(after);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof PromptTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error activating prompt template version:", error);
+      return res.status(500).json({ error: "Failed to activate prompt template version" });
+    }
+  });
+
+  // GET /api/lead-gen/prompt-templates/:key/preview-runs — past runs whose inputs a preview can use
+  app.get("/api/lead-gen/prompt-templates/:key/preview-runs", authenticate, requireRole(...PROMPT_ROLES), readRateLimiter, async (req: AuthRequest, res) => {
+    const key = promptKey(req, res);
+    if (!key) return;
+    try {
+      return res.json(await listPromptPreviewRuns(req.activeOrgId!, key));
+    } catch (error) {
+      console.error("Error fetching prompt preview runs:", error);
+      return res.status(500).json({ error: "Failed to fetch runs" });
+    }
+  });
+
+  // POST /api/lead-gen/prompt-templates/:key/preview — render a draft with a past run's inputs
+  app.post("/api/lead-gen/prompt-templates/:key/preview", authenticate, requireRole(...PROMPT_ROLES), crudRateLimiter, async (req: AuthRequest, res) => {
+    const key = promptKey(req, res);
+    if (!key) return;
+    try {
+      const input = leadGenPromptPreviewSchema.parse(req.body);
+      return res.json(await previewPromptTemplate(req.activeOrgId!, key, input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof PromptTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error previewing prompt template:", error);
+      return res.status(500).json({ error: "Failed to preview prompt template" });
+    }
+  });
+}
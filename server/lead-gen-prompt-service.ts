@@ -0,0 +1,256 @@
+// Lead-gen prompt templates: each organization's saved versions of the prompts
+// the lead-gen agent renders, which version is active, previews of a draft
+// against the inputs a past run recorded, and the per-run record of which
+// version each prompt was rendered from. The built-in templates and rendering
+// live in lib/lead-gen-prompts.
+
+import { db, eq, and, sql, desc } from "./db";
+import * as schema from "@shared/schema";
+import type {
+  AgentStepPromptTemplate,
+  LeadGenPromptKey,
+  LeadGenPromptPreviewInput,
+  LeadGenPromptTemplate,
+  LeadGenPromptTemplateInput,
+} from "@shared/schema";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  renderPromptTemplate,
+  unknownPromptVariables,
+  type PromptTemplateDefinition,
+} from "./lib/lead-gen-prompts";
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export function isLeadGenPromptKey(value: unknown): value is LeadGenPromptKey {
+  return typeof value === "string" && (schema.LEAD_GEN_PROMPT_KEYS as readonly string[]).includes(value);
+}
+
+/** The template a prompt renders from; version null is the built-in template. */
+export interface ResolvedPromptTemplate {
+  key: LeadGenPromptKey;
+  version: number | null;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export interface PromptTemplateSummary extends PromptTemplateDefinition {
+  /** The organization's active version; null when the built-in template is used. */
+  active: LeadGenPromptTemplate | null;
+  versionCount: number;
+}
+
+export interface PromptPreviewRun {
+  runId: string;
+  runName: string;
+  createdAt: Date;
+  /** Template version the run's prompt was rendered from; null is the built-in template. */
+  version: number | null;
+}
+
+export interface PromptPreview {
+  runId: string;
+  stepName: string;
+  systemPrompt: string;
+  userPrompt: string;
+  variables: Record<string, string>;
+  unknownVariables: string[];
+}
+
+async function getActiveRow(organizationId: string, key: LeadGenPromptKey): Promise<LeadGenPromptTemplate | undefined> {
+  const [row] = await db.select().from(schema.leadGenPromptTemplates)
+    .where(and(
+      eq(schema.leadGenPromptTemplates.organizationId, organizationId),
+      eq(schema.leadGenPromptTemplates.promptKey, key),
+      eq(schema.leadGenPromptTemplates.isActive, true),
+    ))
+    .limit(1);
+  return row;
+}
+
+export async function getActivePromptTemplate(organizationId: string, key: LeadGenPromptKey): Promise<ResolvedPromptTemplate> {
+  const row = await getActiveRow(organizationId, key);
+  if (row) return { key, version: row.version, systemPrompt: row.systemPrompt, userPrompt: row.userPrompt };
+  const builtIn = BUILT_IN_PROMPT_TEMPLATES[key];
+  return { key, version: null, systemPrompt: builtIn.systemPrompt, userPrompt: builtIn.userPrompt };
+}
+
+/**
+ * The template the run's prompt renders from, recorded on the run. A phase that
+ * is retried records the version it used the second time.
+ */
+export async function resolveRunPromptTemplate(runId: string, organizationId: string, key: LeadGenPromptKey): Promise<ResolvedPromptTemplate> {
+  const template = await getActivePromptTemplate(organizationId, key);
+  await db.update(schema.leadGenerationRuns)
+    .set({ promptTemplateVersions: sql`${schema.leadGenerationRuns.promptTemplateVersions} || ${JSON.stringify({ [key]: template.version })}::jsonb` })
+    .where(eq(schema.leadGenerationRuns.id, runId));
+  return template;
+}
+
+/** Renders both prompts, and what to record on the agent step that sends them. */
+export function renderRunPrompt(template: ResolvedPromptTemplate, variables: Record<string, string>): {
+  systemPrompt: string;
+  userPrompt: string;
+  record: AgentStepPromptTemplate;
+} {
+  return {
+    systemPrompt: renderPromptTemplate(template.systemPrompt, variables),
+    userPrompt: renderPromptTemplate(template.userPrompt, variables),
+    record: { key: template.key, version: template.version, variables },
+  };
+}
+
+export async function listPromptTemplates(organizationId: string): Promise<PromptTemplateSummary[]> {
+  const rows = await db.select().from(schema.leadGenPromptTemplates)
+    .where(eq(schema.leadGenPromptTemplates.organizationId, organizationId));
+  return schema.LEAD_GEN_PROMPT_KEYS.map(key => {
+    const versions = rows.filter(row => row.promptKey === key);
+    return {
+      ...BUILT_IN_PROMPT_TEMPLATES[key],
+      active: versions.find(row => row.isActive) ?? null,
+      versionCount: versions.length,
+    };
+  });
+}
+
+/** Every saved version, newest first. */
+export async function getPromptTemplateVersions(organizationId: string, key: LeadGenPromptKey): Promise<LeadGenPromptTemplate[]> {
+  return db.select().from(schema.leadGenPromptTemplates)
+    .where(and(
+      eq(schema.leadGenPromptTemplates.organizationId, organizationId),
+      eq(schema.leadGenPromptTemplates.promptKey, key),
+    ))
+    .orderBy(desc(schema.leadGenPromptTemplates.version));
+}
+
+/** Saves a new version and makes it the active one. */
+export async function savePromptTemplate(
+  organizationId: string,
+  key: LeadGenPromptKey,
+  input: LeadGenPromptTemplateInput,
+  userId: string | null,
+): Promise<LeadGenPromptTemplate> {
+  const unknown = unknownPromptVariables(key, input.systemPrompt, input.userPrompt);
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(`Unknown variable${unknown.length === 1 ? "" : "s"} for this prompt: ${unknown.map(name => `{{${name}}}`).join(", ")}`);
+  }
+
+  return db.transaction(async (tx) => {
+    const scope = and(
+      eq(schema.leadGenPromptTemplates.organizationId, organizationId),
+      eq(schema.leadGenPromptTemplates.promptKey, key),
+    );
+    const [latest] = await tx.select({ maxVersion: sql<number | null>`max(${schema.leadGenPromptTemplates.version})` })
+      .from(schema.leadGenPromptTemplates).where(scope);
+    await tx.update(schema.leadGenPromptTemplates).set({ isActive: false }).where(scope);
+    const [row] = await tx.insert(schema.leadGenPromptTemplates).values({
+      organizationId,
+      promptKey: key,
+      version: (latest?.maxVersion ?? 0) + 1,
+      systemPrompt: input.systemPrompt,
+      userPrompt: input.userPrompt,
+      changeNote: input.changeNote || null,
+      isActive: true,
+      createdBy: userId,
+    }).returning();
+    return row;
+  });
+}
+
+/** Makes a saved version active again, or the built-in template when version is null. */
+export async function activatePromptTemplateVersion(
+  organizationId: string,
+  key: LeadGenPromptKey,
+  version: number | null,
+): Promise<LeadGenPromptTemplate | null> {
+  return db.transaction(async (tx) => {
+    const scope = and(
+      eq(schema.leadGenPromptTemplates.organizationId, organizationId),
+      eq(schema.leadGenPromptTemplates.promptKey, key),
+    );
+    if (version === null) {
+      await tx.update(schema.leadGenPromptTemplates).set({ isActive: false }).where(scope);
+      return null;
+    }
+    const [target] = await tx.select().from(schema.leadGenPromptTemplates)
+      .where(and(scope, eq(schema.leadGenPromptTemplates.version, version)))
+      .limit(1);
+    if (!target) throw new PromptTemplateError(`Version ${version} not found`, 404);
+    await tx.update(schema.leadGenPromptTemplates).set({ isActive: false }).where(scope);
+    const [row] = await tx.update(schema.leadGenPromptTemplates)
+      .set({ isActive: true })
+      .where(eq(schema.leadGenPromptTemplates.id, target.id))
+      .returning();
+    return row;
+  });
+}
+
+// The first step of a run that rendered this prompt, with the inputs it recorded
+async function firstRecordedStep(organizationId: string, key: LeadGenPromptKey, runId?: string) {
+  const conditions = [
+    eq(schema.leadGenerationRuns.organizationId, organizationId),
+    sql`${schema.agentStepLogs.promptTemplate}->>'key' = ${key}`,
+  ];
+  if (runId) conditions.push(eq(schema.agentStepLogs.runId, runId));
+  return db.select({
+    runId: schema.agentStepLogs.runId,
+    stepName: schema.agentStepLogs.stepName,
+    promptTemplate: schema.agentStepLogs.promptTemplate,
+  })
+    .from(schema.agentStepLogs)
+    .innerJoin(schema.leadGenerationRuns, eq(schema.leadGenerationRuns.id, schema.agentStepLogs.runId))
+    .where(and(...conditions))
+    .orderBy(schema.agentStepLogs.createdAt)
+    .limit(1);
+}
+
+/** Recent runs that recorded the inputs of this prompt, newest first. */
+export async function listPromptPreviewRuns(organizationId: string, key: LeadGenPromptKey, limit = 20): Promise<PromptPreviewRun[]> {
+  const runs = await db.select({
+    runId: schema.leadGenerationRuns.id,
+    runName: schema.leadGenerationRuns.name,
+    createdAt: schema.leadGenerationRuns.createdAt,
+    promptTemplateVersions: schema.leadGenerationRuns.promptTemplateVersions,
+  })
+    .from(schema.leadGenerationRuns)
+    .where(and(
+      eq(schema.leadGenerationRuns.organizationId, organizationId),
+      sql`EXISTS (SELECT 1 FROM agent_step_logs s WHERE s.run_id = ${schema.leadGenerationRuns.id} AND s.prompt_template->>'key' = ${key})`,
+    ))
+    .orderBy(desc(schema.leadGenerationRuns.createdAt))
+    .limit(limit);
+  return runs.map(run => ({
+    runId: run.runId,
+    runName: run.runName,
+    createdAt: run.createdAt,
+    version: run.promptTemplateVersions?.[key] ?? null,
+  }));
+}
+
+/** Renders a draft template with the inputs the run's first call of this prompt recorded. */
+export async function previewPromptTemplate(
+  organizationId: string,
+  key: LeadGenPromptKey,
+  input: LeadGenPromptPreviewInput,
+): Promise<PromptPreview> {
+  const [step] = await firstRecordedStep(organizationId, key, input.runId);
+  if (!step?.promptTemplate) {
+    throw new PromptTemplateError(
+      "That run has no recorded inputs for this prompt. Runs record them when the prompt is rendered, so pick a run that reached this phase.",
+      404,
+    );
+  }
+  const variables = step.promptTemplate.variables;
+  return {
+    runId: step.runId,
+    stepName: step.stepName,
+    systemPrompt: renderPromptTemplate(input.systemPrompt, variables),
+    userPrompt: renderPromptTemplate(input.userPrompt, variables),
+    variables,
+    unknownVariables: unknownPromptVariables(key, input.systemPrompt, input.userPrompt),
+  };
+}
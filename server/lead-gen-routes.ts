@@ -5,6 +5,7 @@ import type { Express } from "express";
 import { z } from "zod";
 import { db, storage, eq, and, sql, desc, inArray } from "./db";
 import { normalizeEmail } from "./lib/normalize-email";
+import { isLeadGenPhase } from "./lib/lead-gen-jobs";
 import { lt, ne, or } from "drizzle-orm";
 import type { SQL } from "drizzle-orm";
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
@@ -30,7 +31,10 @@ import {
   researchDocuments,
   type ResearchDocument,
 } from "@shared/schema";
-import { runLeadGenPipeline, markRunStopped, clearRunStopped, isRunPipelineActive } from "./lead-gen-agent-service";
+import { LeadGenJobError, getLatestLeadGenJob, queueLeadGenRun, requestLeadGenRunStop } from "./lead-gen-job-service";
+import { LlmUsageError, getOrganizationLlmUsage, getRunLlmUsage } from "./llm-usage-service";
+import { budgetMonth } from "./lib/llm-budget";
+import { decideLeadOwner, recordLeadRouting, type LeadRoutingDecision } from "./lead-assignment-service";
 
 type TypedPgDb = NodePgDatabase<typeof schema> | NeonDatabase<typeof schema>;
 
@@ -464,7 +468,12 @@ export function registerLeadGenRoutes(app: Express) {
         contactTitle: r.contactTitle,
       }));
 
-      return res.json({ ...run[0], candidates });
+      const latestJob = await getLatestLeadGenJob(req.params.id);
+      const job = latestJob
+        ? { status: latestJob.status, attempts: latestJob.attempts, lastCompletedPhase: latestJob.lastCompletedPhase, createdAt: latestJob.createdAt }
+        : null;
+
+      return res.json({ ...run[0], candidates, job });
     } catch (err) {
       return res.status(500).json({ error: "Failed to fetch run" });
     }
@@ -510,27 +519,14 @@ export function registerLeadGenRoutes(app: Express) {
       }
       if (run[0].status !== "draft") return res.status(400).json({ error: "Run must be in draft status to start" });
 
-      const result = await db.update(schema.leadGenerationRuns)
-        .set({
-          status: "active",
-          startedAt: new Date(),
-          currentPhase: "market_research",
-          errorPhase: null,
-          errorReason: null,
-          updatedAt: new Date(),
-        })
-        .where(eq(schema.leadGenerationRuns.id, req.params.id))
-        .returning();
+      const result = await queueLeadGenRun(run[0], null, req.user?.id ?? null, { startedAt: new Date() });
 
       await createLgAudit(req.user?.id, "run_started", "LeadGenerationRun", req.params.id, req.params.id, { pipeline: "ai_agent" });
       await createAuditLog(req.user?.id, "update", "LeadGenerationRun", req.params.id, null, { status: "active" }, req);
 
-      runLeadGenPipeline(req.params.id).catch(err => {
-        console.error(`[Agent] Pipeline error for run ${req.params.id}:`, err);
-      });
-
-      return res.json({ ...result[0], pipelineStarted: true });
+      return res.json({ ...result, pipelineStarted: true });
     } catch (err) {
+      if (err instanceof LeadGenJobError) return res.status(err.status).json({ error: err.message });
       console.error(err);
       return res.status(500).json({ error: "Failed to start run" });
     }
@@ -545,39 +541,20 @@ export function registerLeadGenRoutes(app: Express) {
       }
       if (run[0].status !== "active" && run[0].status !== "error" && run[0].status !== "stopped") return res.status(400).json({ error: "Run must be active, stopped, or in error state to retry a phase" });
 
-      if (isRunPipelineActive(req.params.id)) {
-        return res.status(409).json({ error: "Pipeline is still running. Please wait for the current phase to complete before resuming." });
-      }
-
       const failedPhase = req.body?.startFromPhase || req.body?.phase || run[0].errorPhase;
       if (!failedPhase) return res.status(400).json({ error: "No failed phase to retry. Provide a 'phase' in the request body." });
 
-      const validPhases = ["market_research", "company_discovery", "contact_discovery", "strategy", "communication_drafting"];
-      if (!validPhases.includes(failedPhase)) {
-        return res.status(400).json({ error: `Invalid phase '${failedPhase}'. Valid phases: ${validPhases.join(", ")}` });
+      if (!isLeadGenPhase(failedPhase)) {
+        return res.status(400).json({ error: `Invalid phase '${failedPhase}'. Valid phases: ${schema.LEAD_GEN_PHASES.join(", ")}` });
       }
 
-      await db.update(schema.leadGenerationRuns)
-        .set({
-          status: "active",
-          currentPhase: failedPhase,
-          errorPhase: null,
-          errorReason: null,
-          updatedAt: new Date(),
-        })
-        .where(eq(schema.leadGenerationRuns.id, req.params.id));
+      const updatedRun = await queueLeadGenRun(run[0], failedPhase, req.user?.id ?? null);
 
       await createLgAudit(req.user?.id, "run_phase_retry", "LeadGenerationRun", req.params.id, req.params.id, { phase: failedPhase });
 
-      clearRunStopped(req.params.id);
-
-      runLeadGenPipeline(req.params.id, failedPhase).catch(err => {
-        console.error(`[Agent] Retry pipeline error for run ${req.params.id} phase ${failedPhase}:`, err);
-      });
-
-      const updatedRun = await db.select().from(schema.leadGenerationRuns).where(eq(schema.leadGenerationRuns.id, req.params.id)).limit(1);
-      return res.json({ ...updatedRun[0], retrying: true, phase: failedPhase });
+      return res.json({ ...updatedRun, retrying: true, phase: failedPhase });
     } catch (err) {
+      if (err instanceof LeadGenJobError) return res.status(err.status).json({ error: err.message });
       console.error(err);
       return res.status(500).json({ error: "Failed to retry phase" });
     }
@@ -592,7 +569,7 @@ export function registerLeadGenRoutes(app: Express) {
       }
       if (run[0].status !== "active") return res.status(400).json({ error: "Only active runs can be stopped" });
 
-      markRunStopped(req.params.id);
+      await requestLeadGenRunStop(req.params.id);
 
       const result = await db.update(schema.leadGenerationRuns)
         .set({ status: "stopped", currentPhase: null, updatedAt: new Date() })
@@ -1017,6 +994,19 @@ export function registerLeadGenRoutes(app: Express) {
       activityIds.push(await storage.generateId("Activity"));
     }
 
+    // Route the new lead by the organization's assignment rules before writing it
+    const leadFields = {
+      title: contactData?.title || null,
+      company: accountData?.name || "",
+      source: "lead_generation" as const,
+    };
+    let routing: LeadRoutingDecision | null = null;
+    try {
+      routing = await decideLeadOwner(runOrganizationId, leadFields);
+    } catch (err) {
+      console.error("[LeadGen] Failed to route approved lead:", err);
+    }
+
     // All DB writes in a single atomic transaction
     let crmLead: schema.Lead;
     try {
@@ -1027,13 +1017,12 @@ export function registerLeadGenRoutes(app: Express) {
         organizationId: runOrganizationId,
         firstName: contactData?.firstName || accountData?.name || "Unknown",
         lastName: contactData?.lastName || "",
-        title: contactData?.title || null,
-        company: accountData?.name || "",
+        ...leadFields,
         email: normalizeEmail(contactData?.email),
         phone: contactData?.phone || null,
         status: "new",
-        source: "lead_generation",
         topic: researchSummary,
+        ownerId: routing?.ownerId ?? null,
       }).returning();
       crmLead = leadRows[0];
 
@@ -1122,6 +1111,7 @@ export function registerLeadGenRoutes(app: Express) {
     // Post-transaction audit logs (best-effort)
     await createLgAudit(actorId, "candidate_approved", "CandidateLead", candidateId, candidate[0].runId, { crmLeadId, duplicateClass });
     await createAuditLog(actorId, "create", "Lead", crmLeadId, null, crmLead! as unknown as Record<string, unknown>, req);
+    if (routing) await recordLeadRouting(crmLead!, routing, "lead_gen", actorId);
 
     return { candidate: candidateId, crmLeadId, duplicateClass };
   }
@@ -1462,6 +1452,37 @@ export function registerLeadGenRoutes(app: Express) {
     }
   });
 
+  // GET /api/lead-gen/reports/llm-usage?from=YYYY-MM-DD&to=YYYY-MM-DD — the organization's
+  // LLM tokens and estimated cost per source, phase, user and run. `to` is inclusive;
+  // without a range, the current month.
+  app.get("/api/lead-gen/reports/llm-usage", authenticate, requireRole("Admin", "SalesManager", "SalesRep", "ReadOnly", "SalesOperator", "Reviewer"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!req.activeOrgId) {
+        return res.status(400).json({ error: "Active organization context required. Set X-Organization-Id header." });
+      }
+      const query = z.object({
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      }).parse(req.query);
+      const month = budgetMonth(new Date());
+      const from = query.from ? new Date(`${query.from}T00:00:00.000Z`) : month.start;
+      const to = query.to ? new Date(new Date(`${query.to}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000) : month.end;
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      return res.json(await getOrganizationLlmUsage(req.activeOrgId, from, to));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: err.errors });
+      }
+      if (err instanceof LlmUsageError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("Error fetching LLM usage report:", err);
+      return res.status(500).json({ error: "Failed to fetch LLM usage report" });
+    }
+  });
+
 
   app.get("/api/lead-gen/audit-events", authenticate, requireRole("Admin", "SalesManager", "SalesRep", "ReadOnly", "SalesOperator", "Reviewer"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
@@ -1489,6 +1510,22 @@ export function registerLeadGenRoutes(app: Express) {
     }
   });
 
+  // GET /api/lead-gen/runs/:id/usage — the run's LLM tokens and estimated cost, per phase
+  app.get("/api/lead-gen/runs/:id/usage", authenticate, requireRole("Admin", "SalesManager", "SalesRep", "ReadOnly", "SalesOperator", "Reviewer"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const [run] = await db.select({ organizationId: schema.leadGenerationRuns.organizationId })
+        .from(schema.leadGenerationRuns).where(eq(schema.leadGenerationRuns.id, req.params.id)).limit(1);
+      if (!run) return res.status(404).json({ error: "Run not found" });
+      if (req.activeOrgId && run.organizationId && run.organizationId !== req.activeOrgId) {
+        return res.status(404).json({ error: "Run not found" });
+      }
+      return res.json(await getRunLlmUsage(req.params.id));
+    } catch (err) {
+      console.error("Error fetching run LLM usage:", err);
+      return res.status(500).json({ error: "Failed to fetch run usage" });
+    }
+  });
+
 
   app.get("/api/lead-gen/ai-configs", authenticate, requireRole("Admin", "SalesManager"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
@@ -0,0 +1,67 @@
+// Lead scoring routes. Admins edit the active organization's scoring model
+// in the Admin Console and can rescore every lead on demand; scores and
+// their breakdowns are served with the leads themselves.
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import { leadScoringModelSchema } from "@shared/schema";
+import { getLeadScoringModel, rescoreOrganizationLeads, saveLeadScoringModel } from "./lead-scoring-service";
+
+export function registerLeadScoringRoutes(app: Express) {
+  // GET /api/admin/lead-scoring — the organization's model, or the default one
+  app.get("/api/admin/lead-scoring", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await getLeadScoringModel(req.activeOrgId!));
+    } catch (error) {
+      console.error("Error fetching lead scoring model:", error);
+      return res.status(500).json({ error: "Failed to fetch lead scoring model" });
+    }
+  });
+
+  // PUT /api/admin/lead-scoring — replace the model; leads are rescored in the background
+  app.put("/api/admin/lead-scoring", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const model = leadScoringModelSchema.parse(req.body);
+      const before = await getLeadScoringModel(req.activeOrgId!);
+      const saved = await saveLeadScoringModel(req.activeOrgId!, model, req.user?.id ?? null);
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: "update",
+          resource: "LeadScoringModel",
+          resourceId: req.activeOrgId!,
+          before: before.model,
+          after: saved.model,
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+      rescoreOrganizationLeads(req.activeOrgId!).catch(error => {
+        console.error("Error rescoring leads after model change:", error);
+      });
+      return res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error updating lead scoring model:", error);
+      return res.status(500).json({ error: "Failed to update lead scoring model" });
+    }
+  });
+
+  // POST /api/admin/lead-scoring/rescore — rescore every active lead now
+  app.post("/api/admin/lead-scoring/rescore", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json({ rescored: await rescoreOrganizationLeads(req.activeOrgId!) });
+    } catch (error) {
+      console.error("Error rescoring leads:", error);
+      return res.status(500).json({ error: "Failed to rescore leads" });
+    }
+  });
+}
@@ -0,0 +1,242 @@
+// Lead scoring: each organization's scoring model, the engagement signals a
+// score is built from and the rescoring triggered by lead, activity, comment
+// and tag changes. A nightly sweep (LEAD_SCORING_HOUR_UTC, default 02:00 UTC)
+// rescores every lead so recency points decay. The scoring rules themselves
+// live in lib/lead-scoring.
+
+import { db, eq, and, sql, inArray } from "./db";
+import { isNull, lt, or } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { LeadScoringModelInput } from "@shared/schema";
+import {
+  DEFAULT_LEAD_SCORING_MODEL,
+  lastNightlyRescoreAt,
+  scoreLead,
+  type LeadScoreSignals,
+} from "./lib/lead-scoring";
+
+const RESCORE_BATCH_SIZE = 500;
+
+export interface LeadScoringModelView {
+  model: LeadScoringModelInput;
+  /** No model saved; this is the default model. */
+  isDefault: boolean;
+  updatedAt: Date | null;
+}
+
+export async function getLeadScoringModel(orgId: string): Promise<LeadScoringModelView> {
+  const [row] = await db.select().from(schema.leadScoringModels)
+    .where(eq(schema.leadScoringModels.organizationId, orgId));
+  return row
+    ? { model: { fitRules: row.fitRules, engagement: row.engagement }, isDefault: false, updatedAt: row.updatedAt }
+    : { model: DEFAULT_LEAD_SCORING_MODEL, isDefault: true, updatedAt: null };
+}
+
+/** Save an organization's model. Callers rescore its leads afterwards. */
+export async function saveLeadScoringModel(orgId: string, model: LeadScoringModelInput, userId: string | null): Promise<LeadScoringModelView> {
+  const values = { fitRules: model.fitRules, engagement: model.engagement, updatedBy: userId, updatedAt: new Date() };
+  await db.insert(schema.leadScoringModels)
+    .values({ organizationId: orgId, ...values })
+    .onConflictDoUpdate({ target: schema.leadScoringModels.organizationId, set: values });
+  return getLeadScoringModel(orgId);
+}
+
+/** Tags, completed activities and comments for each lead, keyed by lead ID. */
+export async function loadLeadScoreSignals(leadIds: string[]): Promise<Map<string, LeadScoreSignals>> {
+  const signals = new Map<string, LeadScoreSignals>(
+    leadIds.map(id => [id, { tags: [], completedActivities: 0, comments: 0, lastEngagementAt: null }]),
+  );
+  if (leadIds.length === 0) return signals;
+  const later = (a: Date | null, b: Date | null) => (a && (!b || a > b) ? a : b);
+
+  const tagRows = await db.select({ leadId: schema.entityTags.entityId, name: schema.tags.name })
+    .from(schema.entityTags)
+    .innerJoin(schema.tags, eq(schema.tags.id, schema.entityTags.tagId))
+    .where(and(eq(schema.entityTags.entity, "Lead"), inArray(schema.entityTags.entityId, leadIds)));
+  for (const row of tagRows) signals.get(row.leadId)?.tags.push(row.name);
+
+  // Activities link to leads through activity_associations and, for older
+  // records, the deprecated relatedType/relatedId columns
+  const [associated, related] = await Promise.all([
+    db.select({ activityId: schema.activityAssociations.activityId, leadId: schema.activityAssociations.entityId })
+      .from(schema.activityAssociations)
+      .where(and(eq(schema.activityAssociations.entityType, "Lead"), inArray(schema.activityAssociations.entityId, leadIds))),
+    db.select({ activityId: schema.activities.id, leadId: schema.activities.relatedId })
+      .from(schema.activities)
+      .where(and(eq(schema.activities.relatedType, "Lead"), inArray(schema.activities.relatedId, leadIds))),
+  ]);
+  const leadsByActivity = new Map<string, Set<string>>();
+  for (const link of [...associated, ...related]) {
+    if (!link.leadId) continue;
+    const leads = leadsByActivity.get(link.activityId) ?? new Set<string>();
+    leads.add(link.leadId);
+    leadsByActivity.set(link.activityId, leads);
+  }
+  if (leadsByActivity.size > 0) {
+    const completed = await db.select({
+      id: schema.activities.id,
+      completedAt: schema.activities.completedAt,
+      updatedAt: schema.activities.updatedAt,
+    })
+      .from(schema.activities)
+      .where(and(inArray(schema.activities.id, Array.from(leadsByActivity.keys())), eq(schema.activities.status, "completed")));
+    for (const activity of completed) {
+      for (const leadId of leadsByActivity.get(activity.id) ?? []) {
+        const lead = signals.get(leadId)!;
+        lead.completedActivities++;
+        lead.lastEngagementAt = later(activity.completedAt ?? activity.updatedAt, lead.lastEngagementAt);
+      }
+    }
+  }
+
+  const commentRows = await db.select({
+    leadId: schema.comments.entityId,
+    count: sql<number>`count(*)::int`,
+    lastAt: sql<Date>`max(${schema.comments.createdAt})`.mapWith(schema.comments.createdAt),
+  })
+    .from(schema.comments)
+    .where(and(eq(schema.comments.entity, "Lead"), inArray(schema.comments.entityId, leadIds)))
+    .groupBy(schema.comments.entityId);
+  for (const row of commentRows) {
+    const lead = signals.get(row.leadId);
+    if (!lead) continue;
+    lead.comments = row.count;
+    lead.lastEngagementAt = later(row.lastAt, lead.lastEngagementAt);
+  }
+  return signals;
+}
+
+/**
+ * Recompute and store the scores of the given leads. The lead's updatedAt
+ * is left alone: a score change is not an edit and must not invalidate
+ * ETags held by API clients.
+ */
+export async function rescoreLeads(leadIds: string[], now = new Date()): Promise<number> {
+  const ids = Array.from(new Set(leadIds));
+  let scored = 0;
+  for (let i = 0; i < ids.length; i += RESCORE_BATCH_SIZE) {
+    const batch = ids.slice(i, i + RESCORE_BATCH_SIZE);
+    const leads = await db.select({
+      id: schema.leads.id,
+      organizationId: schema.leads.organizationId,
+      title: schema.leads.title,
+      company: schema.leads.company,
+      source: schema.leads.source,
+    }).from(schema.leads).where(inArray(schema.leads.id, batch));
+    if (leads.length === 0) continue;
+
+    const models = new Map<string, LeadScoringModelInput>();
+    for (const orgId of new Set(leads.map(lead => lead.organizationId))) {
+      models.set(orgId, (await getLeadScoringModel(orgId)).model);
+    }
+    const signals = await loadLeadScoreSignals(leads.map(lead => lead.id));
+    for (const lead of leads) {
+      const { score, breakdown } = scoreLead(models.get(lead.organizationId)!, lead, signals.get(lead.id)!, now);
+      await db.update(schema.leads)
+        .set({ score, scoreBreakdown: breakdown, scoredAt: now })
+        .where(eq(schema.leads.id, lead.id));
+      scored++;
+    }
+  }
+  return scored;
+}
+
+/** Rescore every active lead in an organization, e.g. after its model changes. */
+export async function rescoreOrganizationLeads(orgId: string): Promise<number> {
+  const rows = await db.select({ id: schema.leads.id }).from(schema.leads)
+    .where(and(eq(schema.leads.organizationId, orgId), isNull(schema.leads.archivedAt)));
+  return rescoreLeads(rows.map(row => row.id));
+}
+
+/**
+ * Rescore leads in the background. Fire-and-forget: never throws, so write
+ * paths can call it after saving without affecting the response.
+ */
+export function scheduleLeadRescore(leadIds: Array<string | null | undefined>): void {
+  const ids = leadIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+  rescoreLeads(ids).catch(err => {
+    console.error("[LeadScoring] Failed to rescore leads:", err);
+  });
+}
+
+/**
+ * Rescore the leads an audited write touched: the lead itself, the leads
+ * an activity is linked to, or the lead a comment or activity association
+ * belongs to. Other resources are ignored.
+ */
+export function rescoreLeadsForAudit(resource: string, resourceId: string | null, before: any, after: any): void {
+  const record = after ?? before;
+  if (!record) return;
+  switch (resource) {
+    case "Lead":
+      if (after) scheduleLeadRescore([resourceId ?? after.id]);
+      return;
+    case "Comment":
+      if (record.entity === "Lead") scheduleLeadRescore([record.entityId]);
+      return;
+    case "ActivityAssociation":
+      if (record.entityType === "Lead") scheduleLeadRescore([record.entityId]);
+      return;
+    case "Activity": {
+      const direct = [before, after].filter(r => r?.relatedType === "Lead").map(r => r.relatedId);
+      const activityId = resourceId ?? record.id;
+      if (!after || !activityId) {
+        scheduleLeadRescore(direct);
+        return;
+      }
+      db.select({ leadId: schema.activityAssociations.entityId })
+        .from(schema.activityAssociations)
+        .where(and(eq(schema.activityAssociations.activityId, activityId), eq(schema.activityAssociations.entityType, "Lead")))
+        .then(rows => scheduleLeadRescore([...direct, ...rows.map(row => row.leadId)]))
+        .catch(err => console.error("[LeadScoring] Failed to find leads for activity:", err));
+      return;
+    }
+  }
+}
+
+function nightlyRescoreHourUtc(): number {
+  const hour = parseInt(process.env.LEAD_SCORING_HOUR_UTC ?? "", 10);
+  return hour >= 0 && hour <= 23 ? hour : 2;
+}
+
+/**
+ * Rescore active leads not scored since the last nightly run was due (or
+ * never scored at all), in batches.
+ */
+export async function rescoreStaleLeads(now = new Date()): Promise<number> {
+  const cutoff = lastNightlyRescoreAt(now, nightlyRescoreHourUtc());
+  let total = 0;
+  for (;;) {
+    const rows = await db.select({ id: schema.leads.id }).from(schema.leads)
+      .where(and(
+        isNull(schema.leads.archivedAt),
+        or(isNull(schema.leads.scoredAt), lt(schema.leads.scoredAt, cutoff)),
+      ))
+      .limit(RESCORE_BATCH_SIZE);
+    if (rows.length === 0) return total;
+    total += await rescoreLeads(rows.map(row => row.id), now);
+  }
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/** Start the periodic stale-score sweep (idempotent). */
+export function startLeadScoringWorker(intervalMs = 15 * 60_000): void {
+  if (workerTimer) return;
+  const sweep = () => {
+    if (sweeping) return;
+    sweeping = true;
+    rescoreStaleLeads()
+      .then(scored => {
+        if (scored > 0) console.log(`[LeadScoring] Rescored ${scored} lead(s)`);
+      })
+      .catch(err => console.error("[LeadScoring] Sweep error:", err))
+      .finally(() => {
+        sweeping = false;
+      });
+  };
+  workerTimer = setInterval(sweep, intervalMs);
+  workerTimer.unref();
+}
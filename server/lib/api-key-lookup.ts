@@ -0,0 +1,106 @@
+/**
+ * API key resolution: find the stored key that matches a presented key.
+ *
+ * Current-format keys embed a public key id, so resolution is one indexed
+ * lookup plus a single bcrypt verify. Legacy keys (issued before key ids)
+ * have no id and fall back to verifying against the remaining legacy
+ * hashes; that scan shrinks to nothing as legacy keys are rotated.
+ *
+ * Successful resolutions are cached for a short TTL keyed by a SHA-256 of
+ * the presented key, so repeated calls skip bcrypt entirely. Callers must
+ * still check revocation/expiry on the returned row, and must invalidate
+ * the cache when a key is revoked.
+ */
+
+import crypto from "crypto";
+
+/** How long a verified key stays cached. Short so revocations on other instances take effect quickly. */
+export const API_KEY_CACHE_TTL_MS = 60_000;
+const API_KEY_CACHE_MAX_ENTRIES = 1000;
+
+export interface ApiKeyLookupDeps<K extends { id: string; hashedKey: string }> {
+  /** Extract the public key id, or null for a legacy key. */
+  parseKeyId: (providedKey: string) => string | null;
+  findByKeyId: (keyId: string) => Promise<K | undefined>;
+  /** Active keys without a key id. */
+  listLegacyKeys: () => Promise<K[]>;
+  verify: (providedKey: string, hashedKey: string) => Promise<boolean>;
+  cache?: VerifiedKeyCache<K>;
+}
+
+/** Small TTL cache of verified keys. Never stores the presented key itself. */
+export class VerifiedKeyCache<K extends { id: string }> {
+  private entries = new Map<string, { key: K; expiresAt: number }>();
+
+  constructor(
+    private readonly ttlMs = API_KEY_CACHE_TTL_MS,
+    private readonly maxEntries = API_KEY_CACHE_MAX_ENTRIES,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  static fingerprint(providedKey: string): string {
+    return crypto.createHash("sha256").update(providedKey).digest("hex");
+  }
+
+  get(providedKey: string): K | undefined {
+    const fingerprint = VerifiedKeyCache.fingerprint(providedKey);
+    const entry = this.entries.get(fingerprint);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(fingerprint);
+      return undefined;
+    }
+    return entry.key;
+  }
+
+  set(providedKey: string, key: K): void {
+    if (this.entries.size >= this.maxEntries) {
+      // Maps iterate in insertion order: drop the oldest entry
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(VerifiedKeyCache.fingerprint(providedKey), { key, expiresAt: this.now() + this.ttlMs });
+  }
+
+  /** Drop cached entries for a stored key (e.g. on revoke), or everything when no id is given. */
+  invalidate(apiKeyId?: string): void {
+    if (!apiKeyId) {
+      this.entries.clear();
+      return;
+    }
+    for (const [fingerprint, entry] of Array.from(this.entries)) {
+      if (entry.key.id === apiKeyId) this.entries.delete(fingerprint);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export async function resolveApiKey<K extends { id: string; hashedKey: string }>(
+  providedKey: string,
+  deps: ApiKeyLookupDeps<K>,
+): Promise<K | undefined> {
+  const cached = deps.cache?.get(providedKey);
+  if (cached) return cached;
+
+  let matched: K | undefined;
+  const keyId = deps.parseKeyId(providedKey);
+  if (keyId) {
+    const candidate = await deps.findByKeyId(keyId);
+    if (candidate && await deps.verify(providedKey, candidate.hashedKey)) {
+      matched = candidate;
+    }
+  } else {
+    for (const candidate of await deps.listLegacyKeys()) {
+      if (await deps.verify(providedKey, candidate.hashedKey)) {
+        matched = candidate;
+        break;
+      }
+    }
+  }
+
+  if (matched) deps.cache?.set(providedKey, matched);
+  return matched;
+}
@@ -0,0 +1,190 @@
+/**
+ * Consistency report for restored backup data.
+ *
+ * Foreign keys catch broken references between ordinary columns at insert
+ * time. This checks what they cannot: polymorphic (entity type, entity id)
+ * columns, ids stored in json and text columns, and attachment files on disk.
+ */
+
+import { POLYMORPHIC_TARGET_TABLES, polymorphicTable } from "./org-backup";
+
+export type ConsistencyIssueKind = "orphaned_metadata" | "missing_file" | "dangling_reference";
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  table: string;
+  /** Row id (entity:legacyId for legacy_id_map). */
+  id: string;
+  column: string;
+  value: string;
+}
+
+export interface ConsistencyReport {
+  orphanedMetadata: number;
+  missingFiles: number;
+  danglingReferences: number;
+  /** The first MAX_REPORTED_ISSUES issues; the counts above cover all of them. */
+  issues: ConsistencyIssue[];
+}
+
+export const MAX_REPORTED_ISSUES = 200;
+
+interface PolymorphicCheck {
+  table: string;
+  typeColumn: string;
+  idColumn: string;
+  kind: ConsistencyIssueKind;
+}
+
+// Rows that only describe another record are orphaned when it is gone; the
+// rest are records of their own with a dangling link.
+const POLYMORPHIC_CHECKS: PolymorphicCheck[] = [
+  { table: "crmDocuments", typeColumn: "entityType", idColumn: "entityId", kind: "orphaned_metadata" },
+  { table: "documentLinks", typeColumn: "entityType", idColumn: "entityId", kind: "orphaned_metadata" },
+  { table: "entityTags", typeColumn: "entity", idColumn: "entityId", kind: "orphaned_metadata" },
+  { table: "comments", typeColumn: "entity", idColumn: "entityId", kind: "orphaned_metadata" },
+  { table: "researchDocuments", typeColumn: "entityType", idColumn: "entityId", kind: "orphaned_metadata" },
+  { table: "activities", typeColumn: "relatedType", idColumn: "relatedId", kind: "dangling_reference" },
+  { table: "activityAssociations", typeColumn: "entityType", idColumn: "entityId", kind: "dangling_reference" },
+  { table: "legacyIdMap", typeColumn: "entity", idColumn: "canonicalId", kind: "dangling_reference" },
+];
+
+const CUSTOM_FIELD_TABLES: Record<string, string> = {
+  account: "accounts",
+  contact: "contacts",
+  lead: "leads",
+  opportunity: "opportunities",
+  activity: "activities",
+  user: "users",
+};
+
+/**
+ * Check restored rows (keyed like BackupData.data) against each other and
+ * against the files present in uploads/documents.
+ */
+export function checkBackupConsistency(data: Record<string, any[] | undefined>, files: Set<string>): ConsistencyReport {
+  const report: ConsistencyReport = { orphanedMetadata: 0, missingFiles: 0, danglingReferences: 0, issues: [] };
+  const idSets = new Map<string, Set<string>>();
+  const idsOf = (table: string) => {
+    let ids = idSets.get(table);
+    if (!ids) {
+      ids = new Set((data[table] ?? []).map(row => row.id));
+      idSets.set(table, ids);
+    }
+    return ids;
+  };
+  const add = (issue: ConsistencyIssue) => {
+    if (issue.kind === "orphaned_metadata") report.orphanedMetadata++;
+    else if (issue.kind === "missing_file") report.missingFiles++;
+    else report.danglingReferences++;
+    if (report.issues.length < MAX_REPORTED_ISSUES) report.issues.push(issue);
+  };
+  const rowId = (table: string, row: any) => table === "legacyIdMap" ? `${row.entity}:${row.legacyId}` : String(row.id);
+
+  for (const check of POLYMORPHIC_CHECKS) {
+    for (const row of data[check.table] ?? []) {
+      const value = row[check.idColumn];
+      if (!value) continue;
+      // Types this module does not know are not checked
+      const target = polymorphicTable(row[check.typeColumn]);
+      if (target && !idsOf(target).has(value)) {
+        add({ kind: check.kind, table: check.table, id: rowId(check.table, row), column: check.idColumn, value });
+      }
+    }
+  }
+
+  for (const doc of data.crmDocuments ?? []) {
+    if (doc.filePath && !doc.fileData && !files.has(baseName(doc.filePath))) {
+      add({ kind: "missing_file", table: "crmDocuments", id: doc.id, column: "filePath", value: doc.filePath });
+    }
+  }
+
+  // Pending duplicate pairs must still point at both records
+  for (const pair of data.duplicateCandidates ?? []) {
+    if (pair.status !== "pending") continue;
+    const target = polymorphicTable(pair.entityType);
+    for (const column of ["recordIdA", "recordIdB"]) {
+      if (target && !idsOf(target).has(pair[column])) {
+        add({ kind: "dangling_reference", table: "duplicateCandidates", id: pair.id, column, value: pair[column] });
+      }
+    }
+  }
+
+  for (const series of data.activitySeries ?? []) {
+    const target = polymorphicTable(series.template?.relatedType);
+    const value = series.template?.relatedId;
+    if (target && value && !idsOf(target).has(value)) {
+      add({ kind: "dangling_reference", table: "activitySeries", id: series.id, column: "template.relatedId", value });
+    }
+  }
+
+  for (const def of data.customFieldDefinitions ?? []) {
+    if (def.fieldType !== "lookup") continue;
+    const entityTable = CUSTOM_FIELD_TABLES[def.entityType];
+    const lookupTable = CUSTOM_FIELD_TABLES[def.lookupEntity];
+    if (!entityTable || !lookupTable) continue;
+    for (const row of data[entityTable] ?? []) {
+      if (row.organizationId && def.organizationId && row.organizationId !== def.organizationId) continue;
+      const value = row.customFields?.[def.key];
+      if (typeof value === "string" && value && !idsOf(lookupTable).has(value)) {
+        add({ kind: "dangling_reference", table: entityTable, id: row.id, column: `customFields.${def.key}`, value });
+      }
+    }
+  }
+
+  return report;
+}
+
+const PROJECTED_TABLES = new Set([
+  ...POLYMORPHIC_CHECKS.map(check => check.table),
+  ...POLYMORPHIC_TARGET_TABLES,
+  ...Object.values(CUSTOM_FIELD_TABLES),
+  "crmDocuments",
+  "duplicateCandidates",
+  "activitySeries",
+  "customFieldDefinitions",
+]);
+
+/**
+ * The part of a restored row checkBackupConsistency reads: its id plus the
+ * checked columns, or undefined for a table it does not read. A chunked
+ * restore keeps only these for the report.
+ */
+export function projectForConsistency(table: string, row: any): any {
+  if (!PROJECTED_TABLES.has(table)) return undefined;
+  const projected: any = { id: row.id };
+  const keep = (...columns: string[]) => {
+    for (const column of columns) {
+      if (row[column] !== undefined) projected[column] = row[column];
+    }
+  };
+
+  for (const check of POLYMORPHIC_CHECKS) {
+    if (check.table === table) keep(check.typeColumn, check.idColumn);
+  }
+  if (Object.values(CUSTOM_FIELD_TABLES).includes(table)) keep("organizationId", "customFields");
+  switch (table) {
+    case "legacyIdMap":
+      keep("legacyId");
+      break;
+    case "crmDocuments":
+      // Inline file data only matters for being there
+      keep("filePath");
+      projected.fileData = row.fileData ? true : null;
+      break;
+    case "duplicateCandidates":
+      keep("entityType", "recordIdA", "recordIdB", "status");
+      break;
+    case "activitySeries":
+      if (row.template) projected.template = { relatedType: row.template.relatedType, relatedId: row.template.relatedId };
+      break;
+    case "customFieldDefinitions":
+      keep("organizationId", "entityType", "key", "fieldType", "lookupEntity");
+      break;
+  }
+  return projected;
+}
+
+function baseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
@@ -0,0 +1,185 @@
+/**
+ * Chunked backup archive format (v3.0.0).
+ *
+ * A v3 archive is a ZIP of separately encrypted entries:
+ *
+ *   manifest.htb                        sealed snapshot of the BackupManifest
+ *   tables/<key>/000001.ndjson.gz.enc   rows, one JSON object per line, gzipped
+ *                                       and encrypted chunk by chunk
+ *   tables/<key>/keys-000001.ndjson.gz.enc
+ *                                       primary keys of every live row, for
+ *                                       tables an incremental backup copies
+ *                                       only partly
+ *   files/000001.enc                    uploaded document files
+ *
+ * Backups are written and restored a chunk at a time, so neither side holds
+ * a whole table in memory. Archives before v3.0.0 keep everything in a single
+ * backup.htb JSON snapshot and are still read.
+ */
+
+import type { BackupTableSpec } from "./backup-tables";
+
+export const BACKUP_FORMAT_VERSION = "3.0.0";
+export const MANIFEST_NAME = "manifest.htb";
+export const LEGACY_SNAPSHOT_NAME = "backup.htb";
+
+export const CHUNK_MAX_ROWS = 5000;
+export const CHUNK_MAX_BYTES = 8 * 1024 * 1024;
+
+/**
+ * An incremental backup also copies rows written shortly before its base
+ * backup started, so a write that committed while the base was being taken
+ * is not missed. Copying a row twice is harmless.
+ */
+export const INCREMENTAL_OVERLAP_MS = 5 * 60_000;
+
+export type BackupKind = "full" | "incremental";
+
+/** A document file in the archive, listed in the encrypted snapshot (v2.2.0+). */
+export interface BackupFileEntry {
+  /** File name in uploads/documents. */
+  name: string;
+  /** Opaque ZIP entry holding the encrypted file. */
+  entry: string;
+  size: number;
+  sha256: string;
+  /**
+   * Incremental backups only: not modified since the base backup, whose
+   * archive holds it (entry and sha256 are then empty).
+   */
+  inBase?: boolean;
+}
+
+export interface ManifestChunk {
+  entry: string;
+  rows: number;
+  /** SHA-256 of the decrypted, decompressed NDJSON. */
+  sha256: string;
+}
+
+export interface ManifestTable {
+  /** "changed": only rows written since the base backup, plus the keys of every live row. */
+  mode: "full" | "changed";
+  rows: number;
+  chunks: ManifestChunk[];
+  /** Primary key column of a "changed" table. */
+  keyColumn?: string;
+  keyCount?: number;
+  keyChunks?: ManifestChunk[];
+}
+
+export interface BackupManifest {
+  version: string;
+  kind: BackupKind;
+  /** When the database snapshot was taken. */
+  timestamp: string;
+  /** Incremental only: rows written at or after this time are included. */
+  since?: string;
+  /** Incremental only: the full backup it applies to. */
+  base?: { jobId: string | null; checksum: string };
+  files: BackupFileEntry[];
+  tables: Record<string, ManifestTable>;
+}
+
+export function tableChunkEntry(key: string, index: number): string {
+  return `tables/${key}/${String(index).padStart(6, "0")}.ndjson.gz.enc`;
+}
+
+export function keyChunkEntry(key: string, index: number): string {
+  return `tables/${key}/keys-${String(index).padStart(6, "0")}.ndjson.gz.enc`;
+}
+
+/** Serialize rows as NDJSON, split at `maxRows` rows or once a chunk reaches `maxBytes`. */
+export function toNdjsonChunks(
+  rows: unknown[],
+  limits: { maxRows: number; maxBytes: number } = { maxRows: CHUNK_MAX_ROWS, maxBytes: CHUNK_MAX_BYTES },
+): { text: string; rows: number }[] {
+  const chunks: { text: string; rows: number }[] = [];
+  let lines: string[] = [];
+  let bytes = 0;
+  for (const row of rows) {
+    const line = JSON.stringify(row);
+    lines.push(line);
+    bytes += Buffer.byteLength(line) + 1;
+    if (lines.length >= limits.maxRows || bytes >= limits.maxBytes) {
+      chunks.push({ text: lines.join("\n") + "\n", rows: lines.length });
+      lines = [];
+      bytes = 0;
+    }
+  }
+  if (lines.length > 0) chunks.push({ text: lines.join("\n") + "\n", rows: lines.length });
+  return chunks;
+}
+
+export function parseNdjson(text: string): any[] {
+  return text.split("\n").filter(line => line.length > 0).map(line => JSON.parse(line));
+}
+
+export type IncrementalPlan =
+  | { mode: "full" }
+  | { mode: "changed"; changedColumn: string; keyColumn: string };
+
+/**
+ * How an incremental backup copies a table. Rows are compared by updatedAt,
+ * or by the insert timestamp of an append-only table; a table with neither,
+ * or without a single-column primary key to detect deletions by, is copied
+ * in full.
+ */
+export function planIncrementalTable(spec: BackupTableSpec, columns: string[], primaryKey: string[]): IncrementalPlan {
+  const changedColumn = columns.includes("updatedAt") ? "updatedAt" : spec.appendOnly;
+  if (!changedColumn || primaryKey.length !== 1) return { mode: "full" };
+  return { mode: "changed", changedColumn, keyColumn: primaryKey[0] };
+}
+
+/** Lower bound for the rows an incremental backup copies, given its base backup's start. */
+export function incrementalSince(baseStartedAt: Date): Date {
+  return new Date(baseStartedAt.getTime() - INCREMENTAL_OVERLAP_MS);
+}
+
+/**
+ * Rows of the base backup that survive an incremental one: still live at the
+ * time of the incremental, and not replaced by a newer copy in it.
+ */
+export function mergeBaseRows(
+  rows: any[],
+  keyColumn: string,
+  incremental: { liveKeys: Set<string>; changedKeys: Set<string> },
+): any[] {
+  return rows.filter(row => {
+    const key = String(row[keyColumn]);
+    return incremental.liveKeys.has(key) && !incremental.changedKeys.has(key);
+  });
+}
+
+/** Structural problems with a decoded manifest; empty when it can be read. */
+export function validateManifest(manifest: BackupManifest, requiredTables: string[]): string[] {
+  const errors: string[] = [];
+  const major = parseInt(String(manifest.version ?? "").split(".")[0], 10);
+  if (major !== 3) errors.push(`Unsupported backup version v${manifest.version}`);
+  if (manifest.kind !== "full" && manifest.kind !== "incremental") {
+    errors.push(`Unknown backup kind "${manifest.kind}"`);
+  }
+  if (manifest.kind === "incremental" && (!manifest.base?.checksum || !manifest.since)) {
+    errors.push("Incremental backup does not name its base backup");
+  }
+  if (!manifest.tables || typeof manifest.tables !== "object") {
+    errors.push("Backup has no table list");
+    return errors;
+  }
+
+  for (const key of requiredTables) {
+    if (!manifest.tables[key]) errors.push(`Required table ${key} is missing`);
+  }
+  for (const [key, table] of Object.entries(manifest.tables)) {
+    const chunkRows = (table.chunks ?? []).reduce((sum, chunk) => sum + chunk.rows, 0);
+    if (chunkRows !== table.rows) {
+      errors.push(`Table ${key} lists ${table.rows} rows but its chunks hold ${chunkRows}`);
+    }
+    if (table.mode === "changed") {
+      if (manifest.kind !== "incremental") errors.push(`Table ${key} is partial in a full backup`);
+      const keyRows = (table.keyChunks ?? []).reduce((sum, chunk) => sum + chunk.rows, 0);
+      if (!table.keyColumn || keyRows !== table.keyCount) errors.push(`Table ${key} has an incomplete key list`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,287 @@
+/**
+ * Scheduled backup configuration, cron matching and retention selection.
+ *
+ * Schedules are standard five-field cron expressions evaluated in UTC
+ * ("minute hour day-of-month month day-of-week"), plus @hourly, @daily,
+ * @weekly and @monthly. As in cron, when both day fields are restricted a
+ * day matching either one runs.
+ *
+ * Retention is grandfather-father-son: keep the newest backup of each of the
+ * N most recent days, M most recent ISO weeks and K most recent months that
+ * have backups. Everything else is pruned, except that the newest backup is
+ * always kept.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 0 and 7 are both Sunday
+] as const;
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} "${part}" (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parse a cron expression. Throws with a readable message when invalid. */
+export function parseCronSchedule(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/** First run strictly after `after` (UTC, minute precision), or null if none within five years. */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60_000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// ---------- Retention ----------
+
+export interface BackupRetentionPolicy {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface RetainableBackup {
+  id: string;
+  createdAt: Date;
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/** ISO 8601 week, e.g. "2026-W03" (weeks start on Monday; week 1 holds the first Thursday). */
+export function isoWeekKey(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday); // Thursday of this week decides the year
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/** Backups to delete under the policy. A policy of all zeros keeps everything. */
+export function selectBackupsToPrune<T extends RetainableBackup>(backups: T[], policy: BackupRetentionPolicy): T[] {
+  if (policy.daily + policy.weekly + policy.monthly === 0 || backups.length === 0) return [];
+
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Set<string>([newestFirst[0].id]);
+
+  const keepNewestPerBucket = (count: number, bucketOf: (date: Date) => string) => {
+    const seen = new Set<string>();
+    for (const backup of newestFirst) {
+      if (seen.size >= count) break;
+      const bucket = bucketOf(backup.createdAt);
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(backup.id);
+    }
+  };
+  keepNewestPerBucket(policy.daily, dayKey);
+  keepNewestPerBucket(policy.weekly, isoWeekKey);
+  keepNewestPerBucket(policy.monthly, monthKey);
+
+  return newestFirst.filter(backup => !keep.has(backup.id));
+}
+
+// ---------- Configuration ----------
+
+export type BackupTargetConfig =
+  | { kind: "local"; directory: string }
+  | {
+      kind: "s3";
+      endpoint: string;
+      region: string;
+      bucket: string;
+      prefix: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      forcePathStyle: boolean;
+    };
+
+export interface BackupScheduleConfig {
+  schedule: CronSchedule | null;
+  /** Incremental backups between full ones; each holds the changes since the latest full backup. */
+  incrementalSchedule: CronSchedule | null;
+  retention: BackupRetentionPolicy;
+  target: BackupTargetConfig | null;
+  /** Configuration problems; the scheduler does not run while there are any. */
+  errors: string[];
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetentionPolicy = { daily: 7, weekly: 4, monthly: 6 };
+export const DEFAULT_BACKUP_DIR = "backups";
+
+type Env = Record<string, string | undefined>;
+
+function retentionCount(env: Env, name: string, fallback: number, errors: string[]): number {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    errors.push(`${name} must be a whole number of backups (got "${raw}")`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Read scheduled backup settings from the environment:
+ *
+ *   BACKUP_SCHEDULE                  cron expression (UTC); unset disables scheduled backups
+ *   BACKUP_INCREMENTAL_SCHEDULE      cron expression (UTC) for incremental backups; unset disables them
+ *   BACKUP_RETENTION_DAILY/WEEKLY/MONTHLY   backups to keep (defaults 7 / 4 / 6)
+ *   BACKUP_TARGET                    "local" (default) or "s3"
+ *   BACKUP_LOCAL_DIR                 directory for the local target (default "backups")
+ *   BACKUP_S3_BUCKET, BACKUP_S3_ACCESS_KEY_ID, BACKUP_S3_SECRET_ACCESS_KEY   required for s3
+ *   BACKUP_S3_REGION (default us-east-1), BACKUP_S3_ENDPOINT (default AWS),
+ *   BACKUP_S3_PREFIX, BACKUP_S3_FORCE_PATH_STYLE (default true with a custom endpoint)
+ */
+export function parseBackupScheduleConfig(env: Env): BackupScheduleConfig {
+  const errors: string[] = [];
+
+  const cronSetting = (name: string): CronSchedule | null => {
+    const expression = env[name]?.trim();
+    if (!expression) return null;
+    try {
+      return parseCronSchedule(expression);
+    } catch (error: any) {
+      errors.push(`${name}: ${error.message}`);
+      return null;
+    }
+  };
+  const schedule = cronSetting("BACKUP_SCHEDULE");
+  const incrementalSchedule = cronSetting("BACKUP_INCREMENTAL_SCHEDULE");
+
+  const retention: BackupRetentionPolicy = {
+    daily: retentionCount(env, "BACKUP_RETENTION_DAILY", DEFAULT_BACKUP_RETENTION.daily, errors),
+    weekly: retentionCount(env, "BACKUP_RETENTION_WEEKLY", DEFAULT_BACKUP_RETENTION.weekly, errors),
+    monthly: retentionCount(env, "BACKUP_RETENTION_MONTHLY", DEFAULT_BACKUP_RETENTION.monthly, errors),
+  };
+
+  let target: BackupTargetConfig | null = null;
+  const kind = (env.BACKUP_TARGET?.trim() || "local").toLowerCase();
+  if (kind === "local") {
+    target = { kind: "local", directory: env.BACKUP_LOCAL_DIR?.trim() || DEFAULT_BACKUP_DIR };
+  } else if (kind === "s3") {
+    const missing = ["BACKUP_S3_BUCKET", "BACKUP_S3_ACCESS_KEY_ID", "BACKUP_S3_SECRET_ACCESS_KEY"].filter(name => !env[name]?.trim());
+    if (missing.length > 0) {
+      errors.push(`BACKUP_TARGET=s3 requires ${missing.join(", ")}`);
+    } else {
+      const region = env.BACKUP_S3_REGION?.trim() || "us-east-1";
+      const customEndpoint = env.BACKUP_S3_ENDPOINT?.trim();
+      const forcePathStyle = env.BACKUP_S3_FORCE_PATH_STYLE?.trim();
+      target = {
+        kind: "s3",
+        endpoint: (customEndpoint || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ""),
+        region,
+        bucket: env.BACKUP_S3_BUCKET!.trim(),
+        prefix: (env.BACKUP_S3_PREFIX?.trim() ?? "").replace(/^\/+|\/+$/g, ""),
+        accessKeyId: env.BACKUP_S3_ACCESS_KEY_ID!.trim(),
+        secretAccessKey: env.BACKUP_S3_SECRET_ACCESS_KEY!.trim(),
+        forcePathStyle: forcePathStyle ? forcePathStyle === "true" : !!customEndpoint,
+      };
+    }
+  } else {
+    errors.push(`BACKUP_TARGET must be "local" or "s3" (got "${env.BACKUP_TARGET}")`);
+  }
+
+  return { schedule, incrementalSchedule, retention, target, errors };
+}
+
+/** File name for a stored backup archive, sortable by time. */
+export function backupArchiveName(createdAt: Date): string {
+  return `healthtrixss-backup-${createdAt.toISOString().replace(/[:.]/g, "-")}.zip`;
+}
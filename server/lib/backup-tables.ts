@@ -0,0 +1,125 @@
+/**
+ * Which tables a full backup contains, and in what order they are restored.
+ *
+ * Every table exported from shared/schema.ts must appear either in
+ * BACKUP_TABLES or in EXCLUDED_FROM_BACKUP (with the reason);
+ * tests/backup-tables.test.ts fails otherwise, so a new table cannot be
+ * added without deciding how it is backed up.
+ */
+
+export interface BackupTableSpec {
+  /** Table export name in @shared/schema, also the key in BackupData.data. */
+  key: string;
+  /** Plural noun for log and error messages. */
+  label: string;
+  /** Present in every backup since v1.0; verification fails without it. */
+  required?: boolean;
+  /**
+   * Has an organization_id that is dropped when restoring a backup taken
+   * before organizations existed (pre-v2.1.0); startup backfills it.
+   */
+  legacyOrgId?: boolean;
+  /**
+   * Insert-only table without updatedAt: the timestamp column an incremental
+   * backup uses to find new rows. Tables with neither are copied in full.
+   */
+  appendOnly?: string;
+  /** Rows read per query when exporting; lower for tables with large inline content. */
+  pageRows?: number;
+}
+
+/** Tables in a full backup, in restore order (parents first); deleted in reverse. */
+export const BACKUP_TABLES: BackupTableSpec[] = [
+  // Auth, RBAC and tenancy
+  { key: "roles", label: "roles", required: true },
+  { key: "permissions", label: "permissions" },
+  { key: "users", label: "users", required: true },
+  { key: "apiKeys", label: "API keys" },
+  { key: "userRoles", label: "user roles" },
+  { key: "rolePermissions", label: "role permissions" },
+  { key: "organizations", label: "organizations" },
+  { key: "userOrganizations", label: "user-organization memberships" },
+  { key: "idPatterns", label: "ID patterns", legacyOrgId: true },
+  { key: "accountCategories", label: "account categories", legacyOrgId: true },
+  { key: "tags", label: "tags" },
+
+  // CRM entities; leads after the records a conversion creates
+  { key: "accounts", label: "accounts", required: true, legacyOrgId: true },
+  { key: "contacts", label: "contacts", required: true, legacyOrgId: true },
+  { key: "products", label: "products" },
+  { key: "priceBooks", label: "price books" },
+  { key: "priceBookEntries", label: "price book entries" },
+  { key: "opportunities", label: "opportunities", required: true, legacyOrgId: true },
+  { key: "leads", label: "leads", required: true, legacyOrgId: true },
+  { key: "opportunityLineItems", label: "opportunity line items" },
+  { key: "opportunityContacts", label: "opportunity contacts" },
+  { key: "opportunityResources", label: "opportunity resources" },
+  // Series before their occurrences; the template activity link is set afterwards
+  { key: "activitySeries", label: "activity series" },
+  { key: "activities", label: "activities", required: true, legacyOrgId: true },
+  { key: "activityAssociations", label: "activity associations" },
+  { key: "auditLogs", label: "audit logs", appendOnly: "createdAt" },
+  { key: "savedFilters", label: "saved filters" },
+  { key: "entityTags", label: "entity tags" },
+  { key: "comments", label: "comments" },
+  { key: "commentReactions", label: "comment reactions" },
+  { key: "commentAttachments", label: "comment attachments" },
+  { key: "commentSubscriptions", label: "comment subscriptions" },
+  { key: "crmDocuments", label: "CRM document metadata", pageRows: 100 },
+  { key: "documents", label: "documents" },
+  { key: "documentLinks", label: "document links" },
+  { key: "legacyIdMap", label: "legacy ID mappings" },
+  { key: "opportunityStageHistory", label: "opportunity stage history", appendOnly: "changedAt" },
+  { key: "customFieldDefinitions", label: "custom field definitions" },
+  { key: "salesProcessStages", label: "sales process stages" },
+  { key: "leadScoringModels", label: "lead scoring models" },
+  { key: "leadAssignmentRules", label: "lead assignment rules" },
+  { key: "leadRoutingLog", label: "lead routing log", appendOnly: "createdAt" },
+  { key: "salesQuotas", label: "sales quotas" },
+  { key: "duplicateCandidates", label: "duplicate candidates" },
+
+  // Lead generation
+  { key: "llmConfigurations", label: "LLM configurations" },
+  { key: "llmBudgets", label: "LLM budgets" },
+  { key: "llmModelPrices", label: "LLM model prices" },
+  { key: "webSearchConfigurations", label: "Web search configurations" },
+  { key: "aiConfigs", label: "AI configs" },
+  { key: "icpProfiles", label: "ICP profiles" },
+  { key: "icpProfileVersions", label: "ICP profile versions" },
+  { key: "offers", label: "offers" },
+  { key: "taskPlaybooks", label: "task playbooks" },
+  { key: "taskPlaybookSteps", label: "task playbook steps" },
+  { key: "leadGenPromptTemplates", label: "lead gen prompt templates" },
+  { key: "leadGenerationRuns", label: "lead generation runs", legacyOrgId: true },
+  { key: "agentStepLogs", label: "agent step logs", appendOnly: "createdAt" },
+  { key: "candidateAccounts", label: "candidate accounts" },
+  { key: "candidateContacts", label: "candidate contacts" },
+  { key: "candidateLeads", label: "candidate leads" },
+  { key: "candidateScores", label: "candidate scores" },
+  { key: "evidenceSources", label: "evidence sources" },
+  { key: "reviewDecisions", label: "review decisions" },
+  { key: "lgCrmLeads", label: "LG CRM leads" },
+  { key: "lgCrmTasks", label: "LG CRM tasks" },
+  { key: "lgAuditEvents", label: "LG audit events", appendOnly: "createdAt" },
+  { key: "researchDocuments", label: "research documents", pageRows: 500 },
+  { key: "llmUsageEvents", label: "LLM usage events", appendOnly: "createdAt" },
+
+  // Notifications, integrations and imports
+  { key: "notificationPreferences", label: "notification preferences" },
+  { key: "notifications", label: "notifications" },
+  { key: "webhookSubscriptions", label: "webhook subscriptions" },
+  { key: "webhookDeliveries", label: "webhook deliveries" },
+  { key: "importMappingTemplates", label: "import mapping templates" },
+  { key: "importJobs", label: "import jobs" },
+  { key: "importJobErrors", label: "import job errors" },
+];
+
+/** Tables deliberately left out of backups, with the reason. */
+export const EXCLUDED_FROM_BACKUP: Record<string, string> = {
+  backupJobs: "Describes this deployment's own backup archives; cleared on restore",
+  passwordResetTokens: "Single-use secrets that expire within the hour",
+  calendarFeedTokens: "Feed URLs are shown once; users create a new feed after a restore",
+  leadGenJobs: "Worker leases for in-flight pipelines; a restored run that was mid-pipeline moves to error and can be retried",
+};
+
+export const REQUIRED_BACKUP_TABLES = BACKUP_TABLES.filter(spec => spec.required).map(spec => spec.key);
@@ -0,0 +1,157 @@
+/**
+ * Storage targets for backup archives: a local directory, or any
+ * S3-compatible object store (AWS S3, MinIO, R2, ...) over plain HTTP with
+ * SigV4 signing.
+ *
+ * Archives are addressed by a flat name (see backupArchiveName); the target
+ * decides where that lives. backup_jobs.path stores the name, not a full
+ * path, so a deployment can move its backup directory or bucket prefix.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { BackupTargetConfig } from "./backup-schedule";
+import { encodeS3Key, sha256Hex, signAwsRequest } from "./aws-sigv4";
+
+export interface BackupStorageTarget {
+  readonly kind: BackupTargetConfig["kind"];
+  /** Human-readable location for the admin console, without credentials. */
+  describe(): string;
+  put(name: string, data: Buffer): Promise<void>;
+  get(name: string): Promise<Buffer>;
+  delete(name: string): Promise<void>;
+}
+
+export class BackupTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupTargetError";
+  }
+}
+
+function assertArchiveName(name: string) {
+  // Names come from backup_jobs rows; never let one escape the target
+  if (!/^[A-Za-z0-9._-]+$/.test(name) || name.startsWith(".")) {
+    throw new BackupTargetError(`Invalid backup archive name "${name}"`);
+  }
+}
+
+export class LocalDirectoryTarget implements BackupStorageTarget {
+  readonly kind = "local" as const;
+
+  constructor(private readonly directory: string) {}
+
+  describe(): string {
+    return path.resolve(this.directory);
+  }
+
+  async put(name: string, data: Buffer): Promise<void> {
+    assertArchiveName(name);
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write then rename so a crash never leaves a truncated archive under the final name
+    const finalPath = path.join(this.directory, name);
+    const partialPath = `${finalPath}.partial`;
+    await fs.promises.writeFile(partialPath, data, { mode: 0o600 });
+    await fs.promises.rename(partialPath, finalPath);
+  }
+
+  async get(name: string): Promise<Buffer> {
+    assertArchiveName(name);
+    try {
+      return await fs.promises.readFile(path.join(this.directory, name));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") throw new BackupTargetError(`Backup archive ${name} not found in ${this.describe()}`);
+      throw error;
+    }
+  }
+
+  async delete(name: string): Promise<void> {
+    assertArchiveName(name);
+    await fs.promises.rm(path.join(this.directory, name), { force: true });
+  }
+}
+
+export interface S3TargetOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  prefix: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  /** Injectable for tests; defaults to global fetch. */
+  fetch?: typeof fetch;
+}
+
+export class S3CompatibleTarget implements BackupStorageTarget {
+  readonly kind = "s3" as const;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: S3TargetOptions) {
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  describe(): string {
+    const { endpoint, bucket, prefix } = this.options;
+    return `s3://${bucket}/${prefix ? `${prefix}/` : ""} (${endpoint})`;
+  }
+
+  private objectUrl(name: string): URL {
+    const { endpoint, bucket, prefix, forcePathStyle } = this.options;
+    const key = encodeS3Key(prefix ? `${prefix}/${name}` : name);
+    const base = new URL(endpoint);
+    if (forcePathStyle) {
+      return new URL(`${base.origin}${base.pathname.replace(/\/$/, "")}/${encodeS3Key(bucket)}/${key}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}${base.pathname.replace(/\/$/, "")}/${key}`);
+  }
+
+  private async send(method: "PUT" | "GET" | "DELETE", name: string, body?: Buffer): Promise<Response> {
+    assertArchiveName(name);
+    const url = this.objectUrl(name);
+    const headers = signAwsRequest(
+      {
+        method,
+        url,
+        headers: body ? { "content-type": "application/zip" } : {},
+        payloadHash: sha256Hex(body ?? ""),
+      },
+      { accessKeyId: this.options.accessKeyId, secretAccessKey: this.options.secretAccessKey },
+      this.options.region,
+      "s3",
+    );
+    // fetch sets Host itself and rejects it as a request header
+    delete headers.host;
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, { method, headers, body, signal: AbortSignal.timeout(5 * 60_000) });
+    } catch (error: any) {
+      throw new BackupTargetError(`S3 ${method} ${url.pathname} failed: ${error?.message ?? error}`);
+    }
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+      const text = await response.text().catch(() => "");
+      const code = /<Code>([^<]+)<\/Code>/.exec(text)?.[1];
+      throw new BackupTargetError(`S3 ${method} ${url.pathname} returned HTTP ${response.status}${code ? ` (${code})` : ""}`);
+    }
+    return response;
+  }
+
+  async put(name: string, data: Buffer): Promise<void> {
+    await this.send("PUT", name, data);
+  }
+
+  async get(name: string): Promise<Buffer> {
+    const response = await this.send("GET", name);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.send("DELETE", name);
+  }
+}
+
+export function createBackupTarget(config: BackupTargetConfig, fetchImpl?: typeof fetch): BackupStorageTarget {
+  if (config.kind === "local") return new LocalDirectoryTarget(config.directory);
+  return new S3CompatibleTarget({ ...config, fetch: fetchImpl });
+}
@@ -0,0 +1,155 @@
+/**
+ * CSV import helpers — request options, column mapping, mode resolution and
+ * per-row diffs.
+ *
+ * Pure functions used by server/csv-import-service.ts. Values compared here
+ * arrive both from Drizzle rows (Dates, "1000.00" decimals, jsonb objects)
+ * and from parsed CSV cells (strings), so diffs normalize before comparing.
+ */
+import { z } from "zod";
+import { CSV_IMPORT_MATCH_FIELDS, CSV_IMPORT_MODES, csvColumnMappingSchema, type CsvImportMode } from "@shared/schema";
+import type { ProcessStage } from "./sales-process";
+
+// Multipart form fields arrive as strings
+const formBoolean = z.preprocess(value => value === true || value === "true" || value === "1", z.boolean());
+const emptyAsUndefined = (value: unknown) => (value === "" || value === null ? undefined : value);
+
+export const csvImportOptionsSchema = z.object({
+  mode: z.preprocess(emptyAsUndefined, z.enum(CSV_IMPORT_MODES).default("insert")),
+  matchOn: z.preprocess(emptyAsUndefined, z.enum(CSV_IMPORT_MATCH_FIELDS).optional()),
+  dryRun: formBoolean.default(false),
+  mapping: z.preprocess(value => {
+    if (typeof value !== "string") return emptyAsUndefined(value);
+    if (value.trim() === "") return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value; // fails the record check with a validation error
+    }
+  }, csvColumnMappingSchema.optional()),
+  templateId: z.preprocess(emptyAsUndefined, z.string().max(50).optional()),
+});
+
+export type CsvImportOptions = z.infer<typeof csvImportOptionsSchema>;
+
+export type CsvImportAction = "create" | "update" | "skip";
+
+export interface ImportFieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Rename CSV headers to import fields. Headers mapped to "" are dropped;
+ * headers without a mapping keep their name, so "cf:<key>" columns and files
+ * that already use field names need no mapping. When several headers map to
+ * one field, the first non-empty cell wins.
+ */
+export function applyColumnMapping(
+  row: Record<string, unknown>,
+  mapping?: Record<string, string> | null,
+): Record<string, unknown> {
+  if (!mapping || Object.keys(mapping).length === 0) return row;
+
+  const mapped: Record<string, unknown> = {};
+  for (const [header, value] of Object.entries(row)) {
+    const field = Object.prototype.hasOwnProperty.call(mapping, header) ? mapping[header].trim() : header;
+    if (!field) continue;
+    if (!isBlank(mapped[field])) continue;
+    mapped[field] = value;
+  }
+  return mapped;
+}
+
+export function resolveImportAction(mode: CsvImportMode, matched: boolean): CsvImportAction {
+  if (matched) return mode === "insert" ? "skip" : "update";
+  return mode === "update" ? "skip" : "create";
+}
+
+/**
+ * The opportunity stage a CSV row names, as one of the organization's stage
+ * keys (matched case-insensitively). Dynamics exports put the stage in
+ * "status", so a status naming a stage wins; any other status is an ordinary
+ * status value. A "stage" the process doesn't have is an error. Undefined
+ * when the row names no stage.
+ */
+export function importedOpportunityStage(
+  process: ProcessStage[],
+  row: { status?: string | null; stage?: string | null },
+): string | undefined {
+  const find = (value: string | null | undefined) =>
+    value ? process.find(stage => stage.key === value.trim().toLowerCase())?.key : undefined;
+  const fromStatus = find(row.status);
+  if (fromStatus) return fromStatus;
+  if (!row.stage || row.stage.trim() === "") return undefined;
+  const fromStage = find(row.stage);
+  if (!fromStage) {
+    throw new Error(`Invalid stage: "${row.stage}". Expected one of: ${process.map(stage => stage.key).join(", ")}`);
+  }
+  return fromStage;
+}
+
+/** Drop null, undefined and blank values: an import cell left empty never clears a field. */
+export function compactImportPatch<T extends Record<string, unknown>>(patch: T): Partial<T> {
+  const compacted: Partial<T> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (!isBlank(value)) compacted[key as keyof T] = value as T[keyof T];
+  }
+  return compacted;
+}
+
+/**
+ * Fields in `patch` whose value differs from `existing`. Custom field values
+ * are compared per key and reported as "cf:<key>", matching the CSV columns.
+ */
+export function diffImportRecord(
+  existing: Record<string, unknown> | null,
+  patch: Record<string, unknown>,
+): ImportFieldChange[] {
+  const changes: ImportFieldChange[] = [];
+  for (const [field, value] of Object.entries(patch)) {
+    if (field === "customFields") {
+      const before = (existing?.customFields ?? {}) as Record<string, unknown>;
+      for (const [key, cfValue] of Object.entries((value ?? {}) as Record<string, unknown>)) {
+        pushChange(changes, `cf:${key}`, before[key], cfValue);
+      }
+      continue;
+    }
+    pushChange(changes, field, existing?.[field], value);
+  }
+  return changes;
+}
+
+function pushChange(changes: ImportFieldChange[], field: string, before: unknown, after: unknown) {
+  const normalizedBefore = normalizeImportValue(before, after);
+  const normalizedAfter = normalizeImportValue(after, before);
+  if (normalizedBefore !== normalizedAfter) {
+    changes.push({ field, before: normalizedBefore, after: normalizedAfter });
+  }
+}
+
+/** Display form of a value; `other` is the value it is compared with, to pick a common representation. */
+export function normalizeImportValue(value: unknown, other?: unknown): string | null {
+  if (isBlank(value)) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (other instanceof Date && typeof value === "string") {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? value : parsed.toISOString();
+  }
+  if (isNumeric(value) && (other === undefined || isBlank(other) || isNumeric(other))) {
+    return String(Number(value));
+  }
+  if (Array.isArray(value) || typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === "number") return Number.isFinite(value);
+  // No leading zeros: "007" account numbers and phone digits stay strings
+  return typeof value === "string" && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value.trim());
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
@@ -0,0 +1,265 @@
+/**
+ * Custom field values — pure helpers shared by every write path (UI routes,
+ * external API, CSV import) and by the list filters.
+ *
+ * Values arrive loosely typed (JSON bodies, CSV cells, query strings) and are
+ * coerced to one stored shape per field type:
+ *   text / picklist / lookup → string
+ *   number / currency        → number (currency rounded to cents)
+ *   date                     → "YYYY-MM-DD"
+ *   multi_select             → string[] (CSV cells split on ";")
+ *   boolean                  → boolean
+ *
+ * A null or empty value clears the field. Required fields are checked against
+ * the merged result, so a patch may omit a required field that already has a
+ * value but cannot clear it.
+ */
+import type {
+  CustomFieldDefinition,
+  CustomFieldLookupEntity,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "@shared/schema";
+
+export type CustomFieldDefinitionLike = Pick<
+  CustomFieldDefinition,
+  "key" | "label" | "fieldType" | "options" | "lookupEntity" | "required" | "validation" | "isActive"
+>;
+
+export interface CustomFieldError {
+  key: string;
+  message: string;
+}
+
+export interface CustomFieldLookupRef {
+  key: string;
+  entity: CustomFieldLookupEntity;
+  id: string;
+}
+
+type Coerced = { value: CustomFieldValue } | { error: string };
+
+const TRUE_STRINGS = new Set(["true", "yes", "y", "1"]);
+const FALSE_STRINGS = new Set(["false", "no", "n", "0"]);
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function toDateString(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:$|T)/);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  // Rejects rollovers such as 2025-02-30
+  if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return null;
+  return `${y}-${m}-${d}`;
+}
+
+function matchOption(options: readonly string[], value: string): string | undefined {
+  const needle = value.trim().toLowerCase();
+  return options.find(o => o.toLowerCase() === needle);
+}
+
+function coerceValue(def: CustomFieldDefinitionLike, raw: unknown): Coerced {
+  const rules = def.validation ?? {};
+
+  switch (def.fieldType) {
+    case "text": {
+      if (typeof raw !== "string" && typeof raw !== "number") return { error: "must be text" };
+      const text = String(raw).trim();
+      if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+        return { error: `must be at most ${rules.maxLength} characters` };
+      }
+      if (rules.pattern && !new RegExp(rules.pattern).test(text)) {
+        return { error: "does not match the required format" };
+      }
+      return { value: text };
+    }
+
+    case "number":
+    case "currency": {
+      const num = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw.replace(/[$,\s]/g, "")) : NaN;
+      if (!Number.isFinite(num)) return { error: "must be a number" };
+      if (rules.min !== undefined && num < rules.min) return { error: `must be at least ${rules.min}` };
+      if (rules.max !== undefined && num > rules.max) return { error: `must be at most ${rules.max}` };
+      return { value: def.fieldType === "currency" ? Math.round(num * 100) / 100 : num };
+    }
+
+    case "date": {
+      const date = toDateString(raw);
+      return date ? { value: date } : { error: "must be a date (YYYY-MM-DD)" };
+    }
+
+    case "picklist": {
+      if (typeof raw !== "string") return { error: "must be one of the listed options" };
+      const option = matchOption(def.options, raw);
+      return option ? { value: option } : { error: `"${raw}" is not a valid option` };
+    }
+
+    case "multi_select": {
+      const items = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(";") : null;
+      if (!items || items.some(i => typeof i !== "string")) return { error: "must be a list of options" };
+      const selected: string[] = [];
+      for (const item of items as string[]) {
+        if (item.trim() === "") continue;
+        const option = matchOption(def.options, item);
+        if (!option) return { error: `"${item.trim()}" is not a valid option` };
+        if (!selected.includes(option)) selected.push(option);
+      }
+      return { value: selected };
+    }
+
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const text = String(raw).trim().toLowerCase();
+      if (TRUE_STRINGS.has(text)) return { value: true };
+      if (FALSE_STRINGS.has(text)) return { value: false };
+      return { error: "must be true or false" };
+    }
+
+    case "lookup": {
+      if (typeof raw !== "string") return { error: "must be a record ID" };
+      return { value: raw.trim() };
+    }
+  }
+}
+
+/**
+ * Validate `input` against the active definitions and merge it over `existing`.
+ * Keys in `existing` that are not in `input` (including values of deactivated
+ * fields) are kept as-is. Returns the merged values and any per-field errors.
+ */
+export function validateCustomFieldValues(
+  defs: readonly CustomFieldDefinitionLike[],
+  input: unknown,
+  existing: CustomFieldValues | null | undefined = {},
+): { values: CustomFieldValues; errors: CustomFieldError[] } {
+  const errors: CustomFieldError[] = [];
+  const values: CustomFieldValues = { ...(existing ?? {}) };
+
+  if (input === null || typeof input !== "object" || Array.isArray(input)) {
+    return { values, errors: [{ key: "customFields", message: "must be an object keyed by field key" }] };
+  }
+
+  const active = new Map(defs.filter(d => d.isActive).map(d => [d.key, d]));
+
+  for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+    const def = active.get(key);
+    if (!def) {
+      errors.push({ key, message: `"${key}" is not a custom field for this record type` });
+      continue;
+    }
+    if (isBlank(raw)) {
+      delete values[key];
+      continue;
+    }
+    const result = coerceValue(def, raw);
+    if ("error" in result) {
+      errors.push({ key, message: `${def.label} ${result.error}` });
+    } else if (isBlank(result.value)) {
+      delete values[key];
+    } else {
+      values[key] = result.value;
+    }
+  }
+
+  active.forEach(def => {
+    if (def.required && isBlank(values[def.key]) && !errors.some(e => e.key === def.key)) {
+      errors.push({ key: def.key, message: `${def.label} is required` });
+    }
+  });
+
+  return { values, errors };
+}
+
+/** Lookup values that need an existence check against their target entity. */
+export function customFieldLookupRefs(
+  defs: readonly CustomFieldDefinitionLike[],
+  values: CustomFieldValues,
+): CustomFieldLookupRef[] {
+  const refs: CustomFieldLookupRef[] = [];
+  for (const def of defs) {
+    const value = values[def.key];
+    if (def.isActive && def.fieldType === "lookup" && def.lookupEntity && typeof value === "string") {
+      refs.push({ key: def.key, entity: def.lookupEntity, id: value });
+    }
+  }
+  return refs;
+}
+
+// ---------- List filters ----------
+
+/**
+ * Filters arrive as `cf[<key>]=<value>` query params:
+ *   text         → case-insensitive substring
+ *   picklist / lookup / multi_select → any of a comma-separated list
+ *   boolean      → "true" / "false"
+ *   number / currency / date → "from..to" (either bound optional) or an exact value
+ */
+export function parseCustomFieldFilters(query: unknown): Record<string, string> {
+  if (!query || typeof query !== "object" || Array.isArray(query)) return {};
+  const filters: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query as Record<string, unknown>)) {
+    const text = Array.isArray(value) ? value.join(",") : typeof value === "string" ? value : "";
+    if (text.trim() !== "") filters[key] = text.trim();
+  }
+  return filters;
+}
+
+function inRange(value: number | string, filter: string, parse: (s: string) => number | string | null): boolean {
+  const [fromRaw, toRaw] = filter.includes("..") ? filter.split("..", 2) : [filter, filter];
+  const from = fromRaw.trim() ? parse(fromRaw) : null;
+  const to = toRaw.trim() ? parse(toRaw) : null;
+  if (from !== null && value < from) return false;
+  if (to !== null && value > to) return false;
+  return true;
+}
+
+export function matchesCustomFieldFilters(
+  values: CustomFieldValues | null | undefined,
+  filters: Record<string, string>,
+  defs: readonly CustomFieldDefinitionLike[],
+): boolean {
+  const byKey = new Map(defs.map(d => [d.key, d]));
+  for (const [key, filter] of Object.entries(filters)) {
+    const def = byKey.get(key);
+    if (!def) continue; // Unknown keys are ignored rather than hiding every record
+    const value = values?.[key];
+    if (isBlank(value)) return false;
+
+    const anyOf = filter.split(",").map(s => s.trim().toLowerCase()).filter(Boolean);
+    switch (def.fieldType) {
+      case "text":
+        if (!String(value).toLowerCase().includes(filter.toLowerCase())) return false;
+        break;
+      case "picklist":
+      case "lookup":
+        if (!anyOf.includes(String(value).toLowerCase())) return false;
+        break;
+      case "multi_select":
+        if (!Array.isArray(value) || !value.some(v => anyOf.includes(v.toLowerCase()))) return false;
+        break;
+      case "boolean":
+        if (value !== TRUE_STRINGS.has(filter.toLowerCase())) return false;
+        break;
+      case "number":
+      case "currency":
+        if (typeof value !== "number" || !inRange(value, filter, s => (Number.isFinite(Number(s)) ? Number(s) : null))) return false;
+        break;
+      case "date":
+        if (typeof value !== "string" || !inRange(value, filter, toDateString)) return false;
+        break;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,283 @@
+/**
+ * Duplicate scoring for Accounts and Contacts — pure helpers used by the
+ * duplicate scan and the merge flow.
+ *
+ * Records are compared on normalized name, website domain, phone and email.
+ * To avoid comparing every pair, records are first grouped by "blocking keys"
+ * (exact normalized values and a name prefix); only records sharing a key are
+ * scored against each other.
+ */
+import type { ActivitySeriesAssociation, ActivitySeriesTemplate } from "@shared/schema";
+import { normalizeEmail } from "./normalize-email";
+
+export interface DuplicateMatch {
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export interface DuplicatePair extends DuplicateMatch {
+  recordIdA: string;
+  recordIdB: string;
+}
+
+/** Minimum score for a pair to enter the review queue. */
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+// Blocks larger than this are placeholder values ("N/A", a shared switchboard
+// number) rather than real matches; comparing them would be quadratic noise.
+const MAX_BLOCK_SIZE = 200;
+
+const COMPANY_SUFFIXES = new Set([
+  "inc", "incorporated", "llc", "llp", "lp", "ltd", "limited", "corp", "corporation",
+  "co", "company", "plc", "gmbh", "pc", "pllc", "group", "holdings",
+]);
+
+const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com", "aol.com",
+  "icloud.com", "me.com", "msn.com", "protonmail.com",
+]);
+
+export function normalizeCompanyName(name: string | null | undefined): string | null {
+  if (!name) return null;
+  const tokens = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(t => t && t !== "the");
+  while (tokens.length > 1 && COMPANY_SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.length > 0 ? tokens.join(" ") : null;
+}
+
+export function normalizePersonName(first: string | null | undefined, last: string | null | undefined): string | null {
+  const full = `${first ?? ""} ${last ?? ""}`.toLowerCase().replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+  return full || null;
+}
+
+/** Hostname without protocol, "www." or path, e.g. "https://www.Acme.com/about" → "acme.com". */
+export function extractDomain(value: string | null | undefined): string | null {
+  if (!value) return null;
+  let host = value.trim().toLowerCase();
+  if (!host) return null;
+  if (host.includes("@")) host = host.slice(host.lastIndexOf("@") + 1);
+  host = host.replace(/^[a-z]+:\/\//, "").split(/[/?#:]/)[0].replace(/^www\./, "");
+  return host.includes(".") ? host : null;
+}
+
+/** Digits only, compared on the last ten so "+1 (555) 010-2030" matches "555.010.2030". */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length < 7) return null;
+  return digits.slice(-10);
+}
+
+export function normalizeEmailForMatch(email: string | null | undefined): string | null {
+  return normalizeEmail(email)?.toLowerCase() ?? null;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  const ta = new Set(a.split(" "));
+  const tb = new Set(b.split(" "));
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+}
+
+export interface AccountLike {
+  id: string;
+  name: string;
+  website?: string | null;
+  phone?: string | null;
+}
+
+export interface ContactLike {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string | null;
+  phone?: string | null;
+  mobile?: string | null;
+  accountId?: string | null;
+}
+
+export function scoreAccountPair(a: AccountLike, b: AccountLike): DuplicateMatch {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const nameA = normalizeCompanyName(a.name);
+  const nameB = normalizeCompanyName(b.name);
+  if (nameA && nameB) {
+    if (nameA === nameB) {
+      score += 50;
+      reasons.push("name");
+    } else if (tokenSimilarity(nameA, nameB) >= 0.6) {
+      score += 30;
+      reasons.push("similar_name");
+    }
+  }
+
+  const domainA = extractDomain(a.website);
+  if (domainA && domainA === extractDomain(b.website)) {
+    score += 35;
+    reasons.push("domain");
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    score += 25;
+    reasons.push("phone");
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+export function scoreContactPair(a: ContactLike, b: ContactLike): DuplicateMatch {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const emailA = normalizeEmailForMatch(a.email);
+  if (emailA && emailA === normalizeEmailForMatch(b.email)) {
+    score += 60;
+    reasons.push("email");
+  }
+
+  const nameA = normalizePersonName(a.firstName, a.lastName);
+  const nameMatches = !!nameA && nameA === normalizePersonName(b.firstName, b.lastName);
+  if (nameMatches) {
+    score += 35;
+    reasons.push("name");
+  }
+
+  const phonesA = [a.phone, a.mobile].map(normalizePhone).filter(Boolean);
+  const phonesB = new Set([b.phone, b.mobile].map(normalizePhone).filter(Boolean));
+  if (phonesA.some(p => phonesB.has(p))) {
+    score += 25;
+    reasons.push("phone");
+  }
+
+  if (nameMatches && a.accountId && a.accountId === b.accountId) {
+    score += 10;
+    reasons.push("same_account");
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+export function accountBlockingKeys(a: AccountLike): string[] {
+  const keys: string[] = [];
+  const name = normalizeCompanyName(a.name);
+  if (name) {
+    keys.push(`n:${name}`);
+    keys.push(`np:${name.slice(0, 5)}`);
+  }
+  const domain = extractDomain(a.website);
+  if (domain) keys.push(`d:${domain}`);
+  const phone = normalizePhone(a.phone);
+  if (phone) keys.push(`p:${phone}`);
+  return keys;
+}
+
+export function contactBlockingKeys(c: ContactLike): string[] {
+  const keys: string[] = [];
+  const email = normalizeEmailForMatch(c.email);
+  if (email) keys.push(`e:${email}`);
+  const name = normalizePersonName(c.firstName, c.lastName);
+  if (name) keys.push(`n:${name}`);
+  for (const phone of [c.phone, c.mobile].map(normalizePhone)) {
+    if (phone) keys.push(`p:${phone}`);
+  }
+  return keys;
+}
+
+/**
+ * Score every pair of records that share a blocking key and return those at or
+ * above the threshold, with recordIdA < recordIdB and highest scores first.
+ */
+export function findDuplicatePairs<T extends { id: string }>(
+  records: T[],
+  blockingKeys: (record: T) => string[],
+  score: (a: T, b: T) => DuplicateMatch,
+  threshold = DUPLICATE_SCORE_THRESHOLD,
+): DuplicatePair[] {
+  const blocks = new Map<string, T[]>();
+  for (const record of records) {
+    for (const key of blockingKeys(record)) {
+      const block = blocks.get(key);
+      if (block) block.push(record);
+      else blocks.set(key, [record]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${a.id}\u0000${b.id}`;
+        if (a.id === b.id || seen.has(pairKey)) continue;
+        seen.add(pairKey);
+        const match = score(a, b);
+        if (match.score >= threshold) pairs.push({ recordIdA: a.id, recordIdB: b.id, ...match });
+      }
+    }
+  });
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Field values for the surviving record. An explicit choice wins; otherwise the
+ * survivor keeps its value unless it is empty and the absorbed record has one.
+ * Only fields whose resolved value differs from the survivor's are returned.
+ */
+export function resolveMergedFields(
+  survivor: Record<string, unknown>,
+  absorbed: Record<string, unknown>,
+  fields: readonly string[],
+  choices: Record<string, "survivor" | "absorbed"> = {},
+): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  for (const field of fields) {
+    const choice = choices[field] ?? (isEmpty(survivor[field]) && !isEmpty(absorbed[field]) ? "absorbed" : "survivor");
+    if (choice === "absorbed" && absorbed[field] !== survivor[field]) {
+      patch[field] = absorbed[field] ?? null;
+    }
+  }
+  return patch;
+}
+
+/**
+ * A recurring activity series' template and association snapshot with the
+ * absorbed record replaced by the survivor, so occurrences created after the
+ * merge point at the record that still exists. `typeVariants` are the
+ * spellings the entity type is stored under. Null when the series doesn't
+ * reference the absorbed record.
+ */
+export function repointSeriesReferences(
+  series: { template: ActivitySeriesTemplate; associations: ActivitySeriesAssociation[] },
+  typeVariants: readonly string[],
+  absorbedId: string,
+  survivorId: string,
+): { template: ActivitySeriesTemplate; associations: ActivitySeriesAssociation[] } | null {
+  const isAbsorbed = (type: string | null, id: string | null) => id === absorbedId && typeVariants.includes(type ?? "");
+  const templateChanged = isAbsorbed(series.template.relatedType, series.template.relatedId);
+  const associationsChanged = series.associations.some(a => isAbsorbed(a.entityType, a.entityId));
+  if (!templateChanged && !associationsChanged) return null;
+
+  // The survivor may already be associated; keep one entry per entity
+  const associations: ActivitySeriesAssociation[] = [];
+  for (const association of series.associations) {
+    const next = isAbsorbed(association.entityType, association.entityId) ? { ...association, entityId: survivorId } : association;
+    if (!associations.some(a => a.entityType === next.entityType && a.entityId === next.entityId)) associations.push(next);
+  }
+  return {
+    template: templateChanged ? { ...series.template, relatedId: survivorId } : series.template,
+    associations,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Email digest scheduling and content shape — pure helpers used by
+ * digest-service and the digest email template.
+ */
+import type { EmailDigestFrequency } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DigestItem {
+  title: string;
+  detail?: string | null;
+  link?: string | null;
+}
+
+export interface DigestContent {
+  recipientName: string;
+  frequency: Exclude<EmailDigestFrequency, "off">;
+  overdueActivities: DigestItem[];
+  upcomingActivities: DigestItem[];
+  pastDueOpportunities: DigestItem[];
+  newExternalLeads: DigestItem[];
+  mentions: DigestItem[];
+}
+
+export function isDigestEmpty(content: DigestContent): boolean {
+  return content.overdueActivities.length === 0
+    && content.upcomingActivities.length === 0
+    && content.pastDueOpportunities.length === 0
+    && content.newExternalLeads.length === 0
+    && content.mentions.length === 0;
+}
+
+/**
+ * The most recent scheduled send time at or before `now`: today at
+ * `sendHourUtc` for daily digests, Monday at `sendHourUtc` for weekly ones.
+ */
+export function latestDigestSlot(frequency: Exclude<EmailDigestFrequency, "off">, now: Date, sendHourUtc: number): Date {
+  const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), sendHourUtc));
+  if (frequency === "weekly") {
+    const daysSinceMonday = (slot.getUTCDay() + 6) % 7;
+    slot.setUTCDate(slot.getUTCDate() - daysSinceMonday);
+  }
+  if (slot.getTime() > now.getTime()) {
+    slot.setUTCDate(slot.getUTCDate() - (frequency === "weekly" ? 7 : 1));
+  }
+  return slot;
+}
+
+/** A digest is due once per slot; users who never received one get the next slot. */
+export function isDigestDue(
+  frequency: EmailDigestFrequency,
+  lastSentAt: Date | null,
+  now: Date,
+  sendHourUtc: number,
+): boolean {
+  if (frequency === "off") return false;
+  const slot = latestDigestSlot(frequency, now, sendHourUtc);
+  // Only send within a day of the slot so a long outage doesn't send stale digests
+  if (now.getTime() - slot.getTime() > DAY_MS) return false;
+  return !lastSentAt || lastSentAt.getTime() < slot.getTime();
+}
+
+/** Start of the period a digest covers: the previous send, capped at one period back. */
+export function digestPeriodStart(frequency: Exclude<EmailDigestFrequency, "off">, lastSentAt: Date | null, now: Date): Date {
+  const periodStart = new Date(now.getTime() - (frequency === "weekly" ? 7 : 1) * DAY_MS);
+  return lastSentAt && lastSentAt > periodStart ? lastSentAt : periodStart;
+}
+
+/** End of the "upcoming activities" window, one period ahead. */
+export function digestUpcomingEnd(frequency: Exclude<EmailDigestFrequency, "off">, now: Date): Date {
+  return new Date(now.getTime() + (frequency === "weekly" ? 7 : 1) * DAY_MS);
+}
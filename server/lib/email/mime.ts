@@ -0,0 +1,64 @@
+/**
+ * Minimal RFC 5322 / MIME message builder used by the SMTP and file
+ * transports. Produces a multipart/alternative message (text + HTML) with
+ * base64 bodies, so no line-length or 8-bit concerns leak into transports.
+ */
+import { randomBytes } from "crypto";
+import type { EmailMessage } from "./types";
+
+/** RFC 2047 encoded-word for header values that are not plain ASCII. */
+export function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function base64Lines(content: string): string {
+  return (Buffer.from(content, "utf-8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+export function buildMimeMessage(
+  message: EmailMessage,
+  from: string,
+  options: { date?: Date; boundary?: string; messageId?: string } = {},
+): string {
+  const boundary = options.boundary ?? `=_${randomBytes(12).toString("hex")}`;
+  const domain = from.split("@")[1]?.replace(/[^\w.-]/g, "") || "localhost";
+  const messageId = options.messageId ?? `<${randomBytes(16).toString("hex")}@${domain}>`;
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+  const part = (contentType: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(body),
+  ].join("\r\n");
+
+  return [
+    ...headers,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/** SMTP DATA transparency (RFC 5321 §4.5.2): lines starting with "." get an extra dot. */
+export function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, "$1..");
+}
+
+/** Bare address from "Name <addr@host>" or "addr@host", for MAIL FROM / RCPT TO. */
+export function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
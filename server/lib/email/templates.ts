@@ -0,0 +1,149 @@
+/**
+ * Transactional email templates. Each template renders a subject plus HTML
+ * and plain-text bodies from typed data; all templates share one layout.
+ * Interpolated values are HTML-escaped — templates never receive raw HTML.
+ */
+import type { DigestContent, DigestItem } from "./digest";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateData {
+  password_reset: { resetUrl: string };
+  digest: DigestContent & { appUrl: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+const PRODUCT_NAME = "Health Trixss CRM";
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function button(href: string, label: string): string {
+  return `<p style="margin:0 0 28px;">
+            <a href="${escapeHtml(href)}"
+               style="display:inline-block;padding:12px 28px;background:#1e3a5f;color:#fff;
+                      border-radius:6px;text-decoration:none;font-size:15px;font-weight:600;">
+              ${escapeHtml(label)}
+            </a>
+          </p>`;
+}
+
+function layout(heading: string, content: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<body style="margin:0;padding:0;font-family:Arial,sans-serif;background:#f4f4f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="padding:32px 0;">
+    <tr><td align="center">
+      <table width="560" cellpadding="0" cellspacing="0"
+             style="background:#fff;border-radius:8px;padding:40px;box-shadow:0 1px 4px rgba(0,0,0,.08);">
+        <tr><td>
+          <h2 style="margin:0 0 16px;color:#1e3a5f;font-size:22px;">${escapeHtml(heading)}</h2>
+          ${content}
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+function paragraph(html: string, style = "margin:0 0 20px;color:#374151;font-size:15px;line-height:1.6;"): string {
+  return `<p style="${style}">${html}</p>`;
+}
+
+function passwordReset({ resetUrl }: EmailTemplateData["password_reset"]): RenderedEmail {
+  const html = layout("Reset your password", [
+    paragraph(`You requested a password reset for your <strong>${PRODUCT_NAME}</strong> account.
+            Click the button below to set a new password. This link expires in&nbsp;<strong>1&nbsp;hour</strong>.`),
+    button(resetUrl, "Reset Password"),
+    paragraph("If you didn't request this, you can safely ignore this email — your password won't change.",
+      "margin:0 0 12px;color:#6b7280;font-size:13px;line-height:1.5;"),
+    paragraph(`If the button doesn't work, copy this link into your browser:<br>${escapeHtml(resetUrl)}`,
+      "margin:0;color:#9ca3af;font-size:12px;word-break:break-all;"),
+  ].join("\n          "));
+
+  return {
+    subject: `Reset your ${PRODUCT_NAME} password`,
+    html,
+    text: `Reset your ${PRODUCT_NAME} password\n\nVisit the link below to set a new password (expires in 1 hour):\n${resetUrl}\n\nIf you didn't request this, ignore this email.`,
+  };
+}
+
+const DIGEST_SECTIONS: { key: keyof Pick<DigestContent, "overdueActivities" | "upcomingActivities" | "pastDueOpportunities" | "newExternalLeads" | "mentions">; title: string }[] = [
+  { key: "overdueActivities", title: "Overdue activities" },
+  { key: "upcomingActivities", title: "Upcoming activities" },
+  { key: "pastDueOpportunities", title: "Opportunities past their close date" },
+  { key: "newExternalLeads", title: "New external leads" },
+  { key: "mentions", title: "Mentions" },
+];
+
+function absoluteLink(appUrl: string, link: string | null | undefined): string | null {
+  if (!link) return null;
+  return /^https?:\/\//.test(link) ? link : `${appUrl}${link}`;
+}
+
+function digestItemHtml(item: DigestItem, appUrl: string): string {
+  const href = absoluteLink(appUrl, item.link);
+  const title = href
+    ? `<a href="${escapeHtml(href)}" style="color:#1e3a5f;">${escapeHtml(item.title)}</a>`
+    : escapeHtml(item.title);
+  const detail = item.detail ? `<br><span style="color:#6b7280;font-size:13px;">${escapeHtml(item.detail)}</span>` : "";
+  return `<li style="margin:0 0 8px;">${title}${detail}</li>`;
+}
+
+function digest(data: EmailTemplateData["digest"]): RenderedEmail {
+  const period = data.frequency === "weekly" ? "weekly" : "daily";
+  const sections = DIGEST_SECTIONS.filter(s => data[s.key].length > 0);
+
+  const htmlSections = sections.map(s => `
+          <h3 style="margin:24px 0 8px;color:#1e3a5f;font-size:16px;">${escapeHtml(s.title)} (${data[s.key].length})</h3>
+          <ul style="margin:0;padding-left:20px;color:#374151;font-size:14px;line-height:1.5;">
+            ${data[s.key].map(item => digestItemHtml(item, data.appUrl)).join("\n            ")}
+          </ul>`).join("");
+
+  const html = layout(`Your ${period} summary`, [
+    paragraph(`Hi ${escapeHtml(data.recipientName)}, here's what needs your attention in ${PRODUCT_NAME}.`),
+    htmlSections,
+    paragraph(`You're receiving this because you turned on ${period} email digests. You can change this under notification preferences in the CRM.`,
+      "margin:28px 0 0;color:#9ca3af;font-size:12px;line-height:1.5;"),
+  ].join("\n          "));
+
+  const textSections = sections.map(s => [
+    `${s.title} (${data[s.key].length})`,
+    ...data[s.key].map(item => {
+      const href = absoluteLink(data.appUrl, item.link);
+      return `- ${item.title}${item.detail ? ` — ${item.detail}` : ""}${href ? `\n  ${href}` : ""}`;
+    }),
+  ].join("\n"));
+
+  return {
+    subject: `Your ${period} ${PRODUCT_NAME} summary`,
+    html,
+    text: [
+      `Hi ${data.recipientName}, here's what needs your attention in ${PRODUCT_NAME}.`,
+      ...textSections,
+      `You're receiving this because you turned on ${period} email digests.`,
+    ].join("\n\n"),
+  };
+}
+
+const TEMPLATES: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  password_reset: passwordReset,
+  digest,
+};
+
+export function renderEmailTemplate<K extends EmailTemplateName>(name: K, data: EmailTemplateData[K]): RenderedEmail {
+  return TEMPLATES[name](data);
+}
@@ -0,0 +1,47 @@
+/**
+ * File transport — writes each message as an .eml file for local testing.
+ * Open the files in any mail client to check rendering.
+ *
+ * Optional: EMAIL_OUTBOX_DIR (default ./email-outbox), EMAIL_FROM
+ */
+import fs from "fs";
+import path from "path";
+import { buildMimeMessage } from "../mime";
+import type { EmailMessage, EmailTransport, EmailTransportName } from "../types";
+
+export const DEFAULT_FROM = "Health Trixss CRM <no-reply@localhost>";
+
+export class FileTransport implements EmailTransport {
+  readonly name: EmailTransportName = "file";
+
+  constructor(
+    private outboxDir: string = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), "email-outbox"),
+    private from: string = process.env.EMAIL_FROM || DEFAULT_FROM,
+  ) {}
+
+  validateConfig(): string | null {
+    return null;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const recipient = message.to.replace(/[^\w.@-]/g, "_");
+    const file = path.join(this.outboxDir, `${stamp}-${recipient}.eml`);
+    await fs.promises.writeFile(file, buildMimeMessage(message, this.from));
+    console.log(`[Email] Wrote "${message.subject}" for ${message.to} to ${file}`);
+  }
+}
+
+/** Console transport — logs the plain-text version of each message. */
+export class ConsoleTransport implements EmailTransport {
+  readonly name: EmailTransportName = "console";
+
+  validateConfig(): string | null {
+    return null;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[Email] To: ${message.to}\n[Email] Subject: ${message.subject}\n${message.text}`);
+  }
+}
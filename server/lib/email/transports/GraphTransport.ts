@@ -0,0 +1,101 @@
+/**
+ * Azure Graph transport — sends mail via the Microsoft Graph API.
+ *
+ * PREREQUISITE: The Azure app registration must have the `Mail.Send` APPLICATION permission
+ * (not delegated) consented by an Azure admin in Entra ID. Without this consent the
+ * Graph sendMail call will return 403 Forbidden.
+ *
+ * Required secrets: AZURE_TENANT_ID, AZURE_CLIENT_ID, AZURE_CLIENT_SECRET, AZURE_SENDER_EMAIL
+ */
+import type { EmailMessage, EmailTransport, EmailTransportName } from "../types";
+
+export interface GraphTransportConfig {
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  senderEmail: string;
+}
+
+export function graphConfigFromEnv(): GraphTransportConfig {
+  return {
+    tenantId: process.env.AZURE_TENANT_ID ?? "",
+    clientId: process.env.AZURE_CLIENT_ID ?? "",
+    clientSecret: process.env.AZURE_CLIENT_SECRET ?? "",
+    senderEmail: process.env.AZURE_SENDER_EMAIL ?? "",
+  };
+}
+
+export class GraphTransport implements EmailTransport {
+  readonly name: EmailTransportName = "graph";
+  private config: GraphTransportConfig;
+
+  constructor(config: GraphTransportConfig = graphConfigFromEnv()) {
+    this.config = config;
+  }
+
+  validateConfig(): string | null {
+    const missing: string[] = [];
+    if (!this.config.tenantId) missing.push("AZURE_TENANT_ID");
+    if (!this.config.clientId) missing.push("AZURE_CLIENT_ID");
+    if (!this.config.clientSecret) missing.push("AZURE_CLIENT_SECRET");
+    if (!this.config.senderEmail) missing.push("AZURE_SENDER_EMAIL");
+    return missing.length > 0 ? `Graph email requires: ${missing.join(", ")}` : null;
+  }
+
+  /** Acquire an app-only (client credentials) access token scoped to Graph. */
+  private async getAppOnlyToken(): Promise<string> {
+    const params = new URLSearchParams({
+      grant_type:    "client_credentials",
+      client_id:     this.config.clientId,
+      client_secret: this.config.clientSecret,
+      scope:         "https://graph.microsoft.com/.default",
+    });
+
+    const res = await fetch(
+      `https://login.microsoftonline.com/${this.config.tenantId}/oauth2/v2.0/token`,
+      {
+        method:  "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body:    params.toString(),
+      }
+    );
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Token acquisition failed (${res.status}): ${text}`);
+    }
+
+    const data = await res.json() as { access_token: string };
+    return data.access_token;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const accessToken = await this.getAppOnlyToken();
+
+    const payload = {
+      message: {
+        subject: message.subject,
+        body: { contentType: "HTML", content: message.html },
+        toRecipients: [{ emailAddress: { address: message.to } }],
+      },
+      saveToSentItems: false,
+    };
+
+    const res = await fetch(
+      `https://graph.microsoft.com/v1.0/users/${this.config.senderEmail}/sendMail`,
+      {
+        method:  "POST",
+        headers: {
+          Authorization:  `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      }
+    );
+
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(`sendMail failed (${res.status}): ${errText}`);
+    }
+  }
+}
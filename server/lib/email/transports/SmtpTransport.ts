@@ -0,0 +1,232 @@
+/**
+ * SMTP transport — a small RFC 5321 client over node:net / node:tls.
+ *
+ * Supports implicit TLS (port 465, SMTP_SECURE=true), STARTTLS when the server
+ * advertises it, and AUTH PLAIN / LOGIN. Credentials are never sent over an
+ * unencrypted connection.
+ *
+ * Required: SMTP_HOST, EMAIL_FROM. Optional: SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ */
+import net from "net";
+import tls from "tls";
+import { buildMimeMessage, dotStuff, envelopeAddress } from "../mime";
+import type { EmailMessage, EmailTransport, EmailTransportName } from "../types";
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export function smtpConfigFromEnv(): SmtpTransportConfig {
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host: process.env.SMTP_HOST ?? "",
+    port: parseInt(process.env.SMTP_PORT ?? "", 10) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.EMAIL_FROM ?? "",
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static async open(config: SmtpTransportConfig): Promise<SmtpConnection> {
+    const timeoutMs = config.timeoutMs ?? 30_000;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(s))
+        : net.connect({ host: config.host, port: config.port }, () => resolve(s));
+      s.once("error", reject);
+      s.setTimeout(timeoutMs, () => s.destroy(new Error(`SMTP connection to ${config.host}:${config.port} timed out`)));
+    });
+    return new SmtpConnection(socket, timeoutMs);
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding("utf-8");
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  private detach(socket: net.Socket) {
+    socket.off("data", this.onData);
+    socket.off("error", this.onError);
+    socket.off("close", this.onClose);
+  }
+
+  private onData = (chunk: string) => {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.replyLines.push(line);
+      // "250-..." continues a multiline reply; "250 ..." (or a bare code) ends it
+      if (line.length <= 3 || line[3] === " ") {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines };
+        this.replyLines = [];
+        if (this.waiter) {
+          const { resolve } = this.waiter;
+          this.waiter = null;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  };
+
+  private onError = (err: Error) => this.fail(err);
+
+  private onClose = () => this.fail(new Error("SMTP connection closed unexpectedly"));
+
+  private fail(err: Error) {
+    this.failure ??= err;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(err);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /** Send a command and require one of the expected reply codes. */
+  async command(line: string, expected: number[], redacted?: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, redacted ?? line);
+  }
+
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${context.split(" ")[0]} rejected (${reply.lines.join(" | ")})`);
+    }
+    return reply;
+  }
+
+  async writeData(data: string): Promise<void> {
+    this.socket.write(dotStuff(data.endsWith("\r\n") ? data : `${data}\r\n`));
+    this.socket.write(".\r\n");
+    await this.expect([250], "DATA");
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    this.detach(plain);
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secured = tls.connect({ socket: plain, servername: host }, () => resolve(secured));
+      secured.once("error", reject);
+    });
+    this.socket.setTimeout(this.timeoutMs, () => this.socket.destroy(new Error("SMTP connection timed out")));
+    this.attach(this.socket);
+  }
+
+  close() {
+    this.detach(this.socket);
+    this.socket.on("error", () => {});
+    this.socket.end();
+  }
+
+  destroy() {
+    this.detach(this.socket);
+    this.socket.on("error", () => {});
+    this.socket.destroy();
+  }
+}
+
+function capabilities(reply: SmtpReply): string[] {
+  return reply.lines.slice(1).map(line => line.slice(4).toUpperCase());
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name: EmailTransportName = "smtp";
+  private config: SmtpTransportConfig;
+
+  constructor(config: SmtpTransportConfig = smtpConfigFromEnv()) {
+    this.config = config;
+  }
+
+  validateConfig(): string | null {
+    const missing: string[] = [];
+    if (!this.config.host) missing.push("SMTP_HOST");
+    if (!this.config.from) missing.push("EMAIL_FROM");
+    if (this.config.user && !this.config.password) missing.push("SMTP_PASSWORD");
+    return missing.length > 0 ? `SMTP email requires: ${missing.join(", ")}` : null;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const { host, user, password, from } = this.config;
+    const conn = await SmtpConnection.open(this.config);
+    try {
+      await conn.expect([220], "greeting");
+      const heloName = from.split("@")[1]?.replace(/[^\w.-]/g, "") || "localhost";
+      let ehlo = await conn.command(`EHLO ${heloName}`, [250]);
+
+      if (!conn.encrypted && capabilities(ehlo).includes("STARTTLS")) {
+        await conn.command("STARTTLS", [220]);
+        await conn.startTls(host);
+        ehlo = await conn.command(`EHLO ${heloName}`, [250]);
+      }
+
+      if (user) {
+        if (!conn.encrypted) {
+          throw new Error("SMTP server does not offer TLS; refusing to send credentials in clear text");
+        }
+        const auth = capabilities(ehlo).find(c => c.startsWith("AUTH")) ?? "";
+        if (auth.includes("PLAIN")) {
+          const token = Buffer.from(`\0${user}\0${password ?? ""}`).toString("base64");
+          await conn.command(`AUTH PLAIN ${token}`, [235], "AUTH PLAIN");
+        } else {
+          await conn.command("AUTH LOGIN", [334]);
+          await conn.command(Buffer.from(user).toString("base64"), [334], "AUTH username");
+          await conn.command(Buffer.from(password ?? "").toString("base64"), [235], "AUTH password");
+        }
+      }
+
+      await conn.command(`MAIL FROM:<${envelopeAddress(from)}>`, [250]);
+      await conn.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+      await conn.command("DATA", [354]);
+      await conn.writeData(buildMimeMessage(message, from));
+      await conn.command("QUIT", [221]).catch(() => undefined);
+      conn.close();
+    } catch (err) {
+      conn.destroy();
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type EmailTransportName = "graph" | "smtp" | "file" | "console";
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  /**
+   * Validate that this transport is correctly configured.
+   * Returns null if OK, or a human-readable error string if configuration is missing or invalid.
+   */
+  validateConfig(): string | null;
+  /** Deliver one message. Throws on failure; callers decide whether to swallow it. */
+  send(message: EmailMessage): Promise<void>;
+}
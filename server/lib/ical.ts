@@ -0,0 +1,329 @@
+/**
+ * Minimal iCalendar (RFC 5545) support for activity feeds and imports.
+ *
+ * Writing: VCALENDAR/VEVENT with escaped text, UTC timestamps and lines folded
+ * at 75 octets. Reading: VEVENTs from an uploaded .ics file — summary,
+ * description, location, start/end, organizer and attendees. Times with a
+ * TZID are converted using the IANA zone, or the equivalent of a common
+ * Windows zone name (as sent by Outlook); unknown zones are read as UTC.
+ * Recurring events are imported as their first occurrence only.
+ */
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IcsParseError";
+  }
+}
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  categories?: string[];
+  lastModified?: Date | null;
+}
+
+export interface IcsAttendee {
+  email: string;
+  name: string | null;
+}
+
+export interface ParsedIcsEvent {
+  uid: string | null;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  status: string | null;
+  organizer: IcsAttendee | null;
+  attendees: IcsAttendee[];
+  // TZIDs that couldn't be resolved (times were read as UTC)
+  unknownTimeZones: string[];
+}
+
+// ========== WRITING ==========
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/** Fold a content line at 75 octets without splitting UTF-8 characters. */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+/** UTC DATE-TIME form, e.g. 20260304T150000Z. */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function buildIcsCalendar(name: string, events: IcsEvent[], now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Health Trixss//CRM Activities//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsDateTime(now)}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.lastModified)}`);
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+// ========== READING ==========
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Windows time zone names Outlook puts in TZID, mapped to IANA zones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  "UTC": "UTC",
+  "Coordinated Universal Time": "UTC",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Central European Standard Time": "Europe/Warsaw",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "FLE Standard Time": "Europe/Kiev",
+  "GTB Standard Time": "Europe/Bucharest",
+  "Eastern Standard Time": "America/New_York",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Alaskan Standard Time": "America/Anchorage",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Atlantic Standard Time": "America/Halifax",
+  "Canada Central Standard Time": "America/Regina",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "Singapore Standard Time": "Asia/Singapore",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "New Zealand Standard Time": "Pacific/Auckland",
+};
+
+function unfold(text: string): string[] {
+  return text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n").filter(line => line.trim() !== "");
+}
+
+/** Split "NAME;P1=a;P2="b:c":value" into its parts (quoted parameter values may contain : and ;). */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  const segments: string[] = [];
+  let start = 0;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === ";") {
+      segments.push(line.slice(start, i));
+      start = i + 1;
+    } else if (!inQuotes && char === ":") {
+      segments.push(line.slice(start, i));
+      const [name, ...paramParts] = segments;
+      const params: Record<string, string> = {};
+      for (const part of paramParts) {
+        const eq = part.indexOf("=");
+        if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+      }
+      return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+    }
+  }
+  return null;
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+export function resolveTimeZone(tzid: string): string | null {
+  const candidate = WINDOWS_TIME_ZONES[tzid] ?? tzid.replace(/^\/+/, "");
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: candidate });
+    return candidate;
+  } catch {
+    return null;
+  }
+}
+
+/** Offset of `timeZone` from UTC at `instant`, in milliseconds. */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** Convert a wall-clock time in `timeZone` to the UTC instant. */
+export function zonedTimeToUtc(wallClockAsUtc: number, timeZone: string): Date {
+  const guess = wallClockAsUtc - timeZoneOffset(wallClockAsUtc, timeZone);
+  // Re-check once so times near a DST change use the offset in effect then
+  return new Date(wallClockAsUtc - timeZoneOffset(guess, timeZone));
+}
+
+/** Parse DATE or DATE-TIME values; returns null for malformed input. */
+function parseIcsDate(line: ContentLine, unknownTimeZones: Set<string>): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const wallClock = Date.UTC(+y, +mo - 1, +d, h ? +h : 0, mi ? +mi : 0, s ? +s : 0);
+  if (Number.isNaN(wallClock)) return null;
+  if (!h || line.params.VALUE === "DATE") return { date: new Date(wallClock), allDay: true };
+  if (utc || !line.params.TZID) return { date: new Date(wallClock), allDay: false };
+
+  const timeZone = resolveTimeZone(line.params.TZID);
+  if (!timeZone) {
+    unknownTimeZones.add(line.params.TZID);
+    return { date: new Date(wallClock), allDay: false };
+  }
+  return { date: zonedTimeToUtc(wallClock, timeZone), allDay: false };
+}
+
+function parseAddress(line: ContentLine): IcsAttendee | null {
+  const email = line.value.replace(/^mailto:/i, "").trim().toLowerCase();
+  if (!email.includes("@")) return null;
+  return { email, name: line.params.CN ? line.params.CN.trim() || null : null };
+}
+
+/** Read the VEVENTs of an iCalendar file. Throws IcsParseError if it isn't one. */
+export function parseIcsEvents(text: string): ParsedIcsEvent[] {
+  const lines = unfold(text.replace(/^\uFEFF/, ""));
+  if (!lines.length || lines[0].trim().toUpperCase() !== "BEGIN:VCALENDAR") {
+    throw new IcsParseError("Not an iCalendar file (missing BEGIN:VCALENDAR)");
+  }
+
+  const events: ParsedIcsEvent[] = [];
+  // Component stack, so VALARM etc. nested inside a VEVENT are skipped
+  const stack: string[] = [];
+  let current: ParsedIcsEvent | null = null;
+  let unknownTimeZones = new Set<string>();
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    if (line.name === "BEGIN") {
+      const component = line.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === "VEVENT" && stack.length === 2) {
+        unknownTimeZones = new Set();
+        current = {
+          uid: null, summary: null, description: null, location: null, start: null, end: null,
+          allDay: false, status: null, organizer: null, attendees: [], unknownTimeZones: [],
+        };
+      }
+      continue;
+    }
+    if (line.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && current && stack.length === 1) {
+        current.unknownTimeZones = Array.from(unknownTimeZones);
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || stack[stack.length - 1] !== "VEVENT") continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = line.value.trim() || null;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeIcsText(line.value).trim() || null;
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeIcsText(line.value).trim() || null;
+        break;
+      case "LOCATION":
+        current.location = unescapeIcsText(line.value).trim() || null;
+        break;
+      case "STATUS":
+        current.status = line.value.trim().toUpperCase() || null;
+        break;
+      case "DTSTART": {
+        const parsed = parseIcsDate(line, unknownTimeZones);
+        if (parsed) {
+          current.start = parsed.date;
+          current.allDay = parsed.allDay;
+        }
+        break;
+      }
+      case "DTEND":
+        current.end = parseIcsDate(line, unknownTimeZones)?.date ?? null;
+        break;
+      case "ORGANIZER":
+        current.organizer = parseAddress(line);
+        break;
+      case "ATTENDEE": {
+        const attendee = parseAddress(line);
+        if (attendee && !current.attendees.some(a => a.email === attendee.email)) current.attendees.push(attendee);
+        break;
+      }
+    }
+  }
+  return events;
+}
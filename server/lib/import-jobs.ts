@@ -0,0 +1,73 @@
+/**
+ * Import job lifecycle rules and the failed-rows error file.
+ *
+ * Pure functions used by server/import-job-service.ts. The service applies a
+ * transition with a conditional UPDATE on the current status, so these rules
+ * are also what keeps a pause and a worker claim from racing each other.
+ */
+
+import type { ImportJobStatus } from "@shared/schema";
+
+export type ImportJobAction = "pause" | "resume" | "cancel" | "rollback";
+
+/** Statuses from which each action is allowed. */
+export const IMPORT_JOB_TRANSITIONS: Record<ImportJobAction, readonly ImportJobStatus[]> = {
+  pause: ["queued", "running"],
+  resume: ["paused"],
+  cancel: ["queued", "running", "paused"],
+  // A job must have stopped writing before its records can be removed
+  rollback: ["completed", "failed", "cancelled"],
+};
+
+/** Status a job moves to when the action succeeds. */
+export const IMPORT_JOB_ACTION_RESULT: Record<ImportJobAction, ImportJobStatus> = {
+  pause: "paused",
+  resume: "queued",
+  cancel: "cancelled",
+  rollback: "rolled_back",
+};
+
+export function canApplyImportJobAction(status: ImportJobStatus, action: ImportJobAction): boolean {
+  return IMPORT_JOB_TRANSITIONS[action].includes(status);
+}
+
+export interface ImportErrorRow {
+  rowNumber: number;
+  error: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * CSV of failed rows: the original columns (in first-seen order) followed by
+ * the source row number and the reason, so the file can be fixed and
+ * re-imported as-is — the import ignores the two extra columns.
+ */
+export function buildImportErrorCsv(rows: ImportErrorRow[]): string {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const header of Object.keys(row.data)) {
+      if (!seen.has(header)) {
+        seen.add(header);
+        headers.push(header);
+      }
+    }
+  }
+
+  const lines = [[...headers, IMPORT_ERROR_ROW_COLUMN, IMPORT_ERROR_REASON_COLUMN].map(csvCell).join(",")];
+  for (const row of rows) {
+    const cells = headers.map(header => csvCell(row.data[header]));
+    cells.push(csvCell(row.rowNumber), csvCell(row.error));
+    lines.push(cells.join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export const IMPORT_ERROR_ROW_COLUMN = "import_row";
+export const IMPORT_ERROR_REASON_COLUMN = "import_error";
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
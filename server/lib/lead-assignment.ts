@@ -0,0 +1,135 @@
+/**
+ * Lead assignment — pure helpers.
+ *
+ * An organization's assignment rules are tried in order against a lead
+ * that arrives without an owner. The first active rule whose conditions all
+ * match (a rule without conditions matches everything) and which still has
+ * a user able to take leads decides the owner: its single user, the next
+ * member of a round-robin pool, or the pool member with the fewest open
+ * leads.
+ */
+import type {
+  LeadAssignmentCondition,
+  LeadAssignmentField,
+  LeadAssignmentStrategy,
+} from "@shared/schema";
+
+/** The lead fields assignment conditions look at. */
+export interface RoutableLead {
+  source?: string | null;
+  company?: string | null;
+  title?: string | null;
+  state?: string | null;
+  country?: string | null;
+}
+
+/** The parts of a stored rule routing needs. */
+export interface RoutingRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  conditions: LeadAssignmentCondition[];
+  strategy: LeadAssignmentStrategy;
+  userIds: string[];
+}
+
+export interface RoutingMatch<R extends RoutingRule> {
+  rule: R;
+  /** The rule's users that can take leads, in the rule's order. */
+  pool: string[];
+}
+
+const FIELD_LABELS: Record<LeadAssignmentField, string> = {
+  source: "Source",
+  company: "Company",
+  title: "Title",
+  tag: "Tag",
+  state: "State",
+  country: "Country",
+};
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function listValues(value: string): string[] {
+  return value.split(",").map(normalize).filter(Boolean);
+}
+
+/** `State is one of "CA, OR"`, `Title contains "director"`, `Source is "referral"` */
+export function describeCondition(condition: LeadAssignmentCondition): string {
+  const field = FIELD_LABELS[condition.field];
+  const verb = condition.match === "contains" ? "contains" : condition.match === "one_of" ? "is one of" : "is";
+  return `${field} ${verb} "${condition.value}"`;
+}
+
+export function conditionMatches(condition: LeadAssignmentCondition, lead: RoutableLead, tags: string[]): boolean {
+  const values = (condition.field === "tag" ? tags : [lead[condition.field] ?? ""]).map(normalize).filter(Boolean);
+  switch (condition.match) {
+    case "equals":
+      return values.includes(normalize(condition.value));
+    case "contains":
+      return values.some(value => value.includes(normalize(condition.value)));
+    case "one_of": {
+      const options = listValues(condition.value);
+      return values.some(value => options.includes(value));
+    }
+  }
+}
+
+/**
+ * The first active rule (rules in priority order) that matches the lead and
+ * has at least one eligible user. Rules whose users have all left the
+ * organization or been deactivated are passed over.
+ */
+export function findRoutingRule<R extends RoutingRule>(
+  rules: R[],
+  lead: RoutableLead,
+  tags: string[],
+  eligibleUserIds: Set<string>,
+): RoutingMatch<R> | null {
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    if (!rule.conditions.every(condition => conditionMatches(condition, lead, tags))) continue;
+    const pool = Array.from(new Set(rule.userIds)).filter(id => eligibleUserIds.has(id));
+    if (pool.length > 0) return { rule, pool };
+  }
+  return null;
+}
+
+/** Round-robin pick for the nth lead a rule hands out (n counts from 1). */
+export function pickRoundRobin(pool: string[], n: number): string {
+  return pool[(((n - 1) % pool.length) + pool.length) % pool.length];
+}
+
+/** The pool member with the fewest open leads; ties go to the earlier member. */
+export function pickLeastLoaded(pool: string[], openLeads: Map<string, number>): string {
+  let best = pool[0];
+  for (const userId of pool) {
+    if ((openLeads.get(userId) ?? 0) < (openLeads.get(best) ?? 0)) best = userId;
+  }
+  return best;
+}
+
+/** Why a lead went to its owner, for the routing log. */
+export function describeRouting(
+  rule: RoutingRule,
+  pool: string[],
+  assigneeName: string,
+  openLeads?: number,
+): string {
+  const conditions = rule.conditions.length > 0
+    ? rule.conditions.map(describeCondition).join(" and ")
+    : "no conditions";
+  const via = rule.strategy === "user"
+    ? ""
+    : rule.strategy === "round_robin"
+      ? ` by round robin across ${pool.length} user${pool.length === 1 ? "" : "s"}`
+      : ` as the least loaded of ${pool.length} user${pool.length === 1 ? "" : "s"} (${openLeads ?? 0} open lead${openLeads === 1 ? "" : "s"})`;
+  return `Rule "${rule.name}" matched (${conditions}); assigned to ${assigneeName}${via}`;
+}
+
+/** Log reason when no rule could assign the lead; fallbackName is the owner it kept instead. */
+export function noRuleMatchedReason(fallbackName?: string | null): string {
+  return `No active assignment rule matched; ${fallbackName ? `kept ${fallbackName} as owner` : "left unassigned"}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * Lead generation job rules — pure helpers.
+ *
+ * Used by server/lead-gen-job-service.ts to decide where a claimed job picks
+ * up and how many pipelines an organization may run at once.
+ */
+
+import { LEAD_GEN_PHASES, type LeadGenJobStatus, type LeadGenPhase } from "@shared/schema";
+
+/** Statuses of a job that still holds (or is waiting for) a worker. */
+export const LIVE_LEAD_GEN_JOB_STATUSES: readonly LeadGenJobStatus[] = ["queued", "running"];
+
+export const DEFAULT_MAX_CONCURRENT_LEAD_GEN_RUNS = 2;
+
+export function isLeadGenPhase(value: unknown): value is LeadGenPhase {
+  return typeof value === "string" && (LEAD_GEN_PHASES as readonly string[]).includes(value);
+}
+
+/**
+ * Phases a job still has to run: from its start phase (every phase when
+ * unset), skipping through the last phase an earlier attempt completed.
+ * Empty once every phase is done and only the completion step remains.
+ */
+export function remainingLeadGenPhases(startPhase?: string | null, lastCompletedPhase?: string | null): LeadGenPhase[] {
+  let from = isLeadGenPhase(startPhase) ? LEAD_GEN_PHASES.indexOf(startPhase) : 0;
+  if (isLeadGenPhase(lastCompletedPhase)) {
+    from = Math.max(from, LEAD_GEN_PHASES.indexOf(lastCompletedPhase) + 1);
+  }
+  return LEAD_GEN_PHASES.slice(from);
+}
+
+/** Pipelines one organization may run at once (LEAD_GEN_MAX_CONCURRENT_RUNS, default 2). */
+export function maxConcurrentLeadGenRuns(value: string | undefined): number {
+  const limit = parseInt(value ?? "", 10);
+  return limit >= 1 && limit <= 50 ? limit : DEFAULT_MAX_CONCURRENT_LEAD_GEN_RUNS;
+}
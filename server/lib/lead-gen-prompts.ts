@@ -0,0 +1,329 @@
+/**
+ * Lead-gen prompt templates — pure helpers.
+ *
+ * Each LLM call the lead-gen agent makes renders a system and a user prompt
+ * from a template. Templates reference the run's inputs as {{variable}}
+ * placeholders; the agent computes every variable a prompt declares, and
+ * "section" variables (ICP context, playbook, buying signals…) render empty
+ * when the run has nothing for them. Organizations can save their own
+ * versions of a template; BUILT_IN_PROMPT_TEMPLATES is what runs without one
+ * use, and matches the prompts the agent shipped with.
+ */
+import type { LeadGenPhase, LeadGenPromptKey } from "@shared/schema";
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplateDefinition {
+  key: LeadGenPromptKey;
+  phase: LeadGenPhase;
+  label: string;
+  description: string;
+  variables: PromptVariable[];
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+const v = (name: string, description: string): PromptVariable => ({ name, description });
+
+// Variables several prompts share
+const ICP_CONTEXT = v("icpContext", "ICP description and notes (plus the scoring rubric where the phase qualifies companies), on new lines; empty without them");
+const OFFERS = v("offers", "The ICP's active offers, one bullet each with value proposition and description");
+const MARKET_INSIGHTS = v("marketInsights", "Market insights from the market research phase");
+const SEARCH_CONTEXT = v("searchContext", "Web research results for this prompt, on new lines");
+const INDUSTRIES = v("industries", "Target industries, comma-separated");
+const COMPANY_SIZES = v("companySizes", "Target company sizes, comma-separated");
+const GEOGRAPHIES = v("geographies", "Target geographies, comma-separated");
+const TARGET_TITLES = v("targetTitles", "Target job titles from the ICP, comma-separated");
+const COMPANY_NAME = v("companyName", "The target company's name");
+const INDUSTRY = v("industry", "The target company's industry");
+const COMPANY_SIZE = v("companySize", "The target company's size");
+const ICP_FIT = v("icpFitRationale", "Why the company fits the ICP, from company discovery");
+const COMPANY_OVERVIEW = v("companyOverview", "The company overview from company discovery");
+const KEY_TRENDS = v("keyTrends", "\"Key market trends: …\" from market research, on a new line; empty without any");
+
+const DRAFTING_VARIABLES: PromptVariable[] = [
+  v("contactName", "The contact's full name"),
+  v("contactTitle", "The contact's job title"),
+  COMPANY_NAME,
+  INDUSTRY,
+  COMPANY_SIZE,
+  v("strategicContext", "The account's strategic approach, or its ICP fit rationale"),
+  v("painPoints", "\"Key Pain Points: …\" from the strategy phase, on a new line; empty without any"),
+  v("differentiators", "\"Our Differentiators for this company: …\" from the strategy phase, on a new line; empty without any"),
+  v("firstMove", "\"Recommended First Move: …\" from the strategy phase, on a new line; empty without one"),
+  v("offers", "The ICP's active offers, or \"Not specified\""),
+  MARKET_INSIGHTS,
+  KEY_TRENDS,
+  v("buyingSignals", "\"Buying signals: …\" from market research, on a new line; empty without any"),
+  ICP_CONTEXT,
+];
+
+const DRAFTING_CONTEXT = `Contact: {{contactName}}, {{contactTitle}} at {{companyName}}
+Company: {{companyName}} ({{industry}}, {{companySize}})
+Strategic Context: {{strategicContext}}{{painPoints}}{{differentiators}}{{firstMove}}
+
+Our Offerings:
+{{offers}}
+
+Market Intelligence:
+- {{marketInsights}}{{keyTrends}}{{buyingSignals}}{{icpContext}}`;
+
+const DRAFTING_SYSTEM_INTRO = `You are a B2B sales communication specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). All outreach messages you draft are sent ON BEHALF OF Health Trixss, Inc. — sign-offs, sender references, and company mentions should use "Health Trixss" or "Health Trixss, Inc." Never use the name "HealthTrixss" (one word) — it is always written as two words: "Health Trixss".`;
+
+export const BUILT_IN_PROMPT_TEMPLATES: Record<LeadGenPromptKey, PromptTemplateDefinition> = {
+  market_research: {
+    key: "market_research",
+    phase: "market_research",
+    label: "Market Research",
+    description: "Analyzes the target market once per run; its insights, trends and buying signals feed every later prompt.",
+    variables: [
+      INDUSTRIES,
+      COMPANY_SIZES,
+      GEOGRAPHIES,
+      OFFERS,
+      ICP_CONTEXT,
+      v("playbook", "The run's playbook steps as an outreach sequence, on new lines; empty without a playbook"),
+      v("searchContext", "\"Recent web research\" results, on new lines; empty without any"),
+    ],
+    systemPrompt: `You are a market research specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). Your task is to analyze the target market and identify key insights for the Health Trixss, Inc. sales team's lead generation efforts.
+CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON object. No preamble, no explanation, no markdown, no code fences. Start your response with { and end with }.`,
+    userPrompt: `Analyze the B2B target market with these parameters:
+- Target Industries: {{industries}}
+- Company Sizes: {{companySizes}}
+- Target Geographies: {{geographies}}
+- Our Offerings:\n{{offers}}{{icpContext}}{{playbook}}
+{{searchContext}}
+
+Respond with JSON:
+{
+  "marketInsights": "3-4 sentences on current market conditions and why now is a good time to target this market",
+  "keyTrends": ["specific market trend 1", "specific market trend 2", "specific market trend 3"],
+  "targetIndustries": ["specific industry segment 1", "specific industry segment 2"],
+  "buyingSignals": ["observable signal that a company is ready to buy or evaluate vendors"]
+}`,
+  },
+
+  company_discovery: {
+    key: "company_discovery",
+    phase: "company_discovery",
+    label: "Company Discovery",
+    description: "Finds target accounts matching the ICP from the run's web searches, once per run.",
+    variables: [
+      v("companyCount", "How many companies to return (the run's target count, at most 20)"),
+      INDUSTRIES,
+      COMPANY_SIZES,
+      GEOGRAPHIES,
+      TARGET_TITLES,
+      MARKET_INSIGHTS,
+      ICP_CONTEXT,
+      v("playbook", "The run's playbook steps as an outreach sequence, on new lines; empty without a playbook"),
+      SEARCH_CONTEXT,
+      v("companySourceInstruction", "How to source company names, depending on how useful the web search results were"),
+      v("responseInstruction", "What to return, depending on how useful the web search results were"),
+    ],
+    systemPrompt: `You are a company discovery specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). You find target accounts — companies that could become customers of Health Trixss, Inc. — by matching them against a specific ideal customer profile.
+CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON array. No preamble, no explanation, no markdown, no code fences. Start your response with [ and end with ].
+{{companySourceInstruction}}
+CRITICAL INSTRUCTION — Company details: For every company you include, you MUST populate all fields (domain, website, linkedinUrl, description, etc.) using your training knowledge. These are factual attributes of real, named companies — filling them in is not hallucination. Do NOT leave fields blank or use placeholder values like "company.com", "example.com", "Company Name", or "N/A". Every object in the array must be fully populated.`,
+    userPrompt: `Discover up to {{companyCount}} companies that match this ICP:
+- Industries: {{industries}}
+- Company sizes: {{companySizes}}
+- Geographies: {{geographies}}
+- Decision-maker roles we target: {{targetTitles}}
+
+Market context: {{marketInsights}}{{icpContext}}{{playbook}}
+{{searchContext}}
+
+{{responseInstruction}}
+{
+  "name": "<actual company name>",
+  "sourceType": "<'search_verified' if company appears in web research above, or 'knowledge_based' if from training knowledge>",
+  "domain": "<actual company domain>",
+  "industry": "<specific industry>",
+  "companySize": "<size range e.g. 200-500>",
+  "geography": "<city, country>",
+  "description": "<2-3 sentence company description>",
+  "icpFitRationale": "<2-3 sentences why this company fits the ICP>",
+  "companyOverview": "<comprehensive 3-4 sentence overview>",
+  "strategicApproach": "<2-3 sentences on how to approach this company>",
+  "website": "<actual company website URL>",
+  "linkedinUrl": "<actual LinkedIn company page URL>"
+}`,
+  },
+
+  contact_discovery: {
+    key: "contact_discovery",
+    phase: "contact_discovery",
+    label: "Contact Discovery",
+    description: "Finds named contacts at each discovered account, once per account.",
+    variables: [
+      COMPANY_NAME,
+      INDUSTRY,
+      COMPANY_SIZE,
+      v("contactFraming", "What contacts to find at the company; narrower when the ICP targets non-executive roles"),
+      TARGET_TITLES,
+      COMPANY_OVERVIEW,
+      ICP_FIT,
+      ICP_CONTEXT,
+      v("buyingSignals", "\"Buying signals to look for: …\" from market research, on a new line; empty without any"),
+      SEARCH_CONTEXT,
+      v("roleExclusionInstruction", "Excludes executives when the ICP targets non-executive roles; empty otherwise"),
+      v("sourceGuidanceInstruction", "How to weigh LinkedIn, press and conference results when the ICP targets non-executive roles; empty otherwise"),
+      v("knowledgeInstruction", "When training knowledge may be used to name contacts"),
+      v("responseInstruction", "What to return and how to prioritize the web research"),
+    ],
+    systemPrompt: `You are a contact discovery specialist working for Health Trixss, Inc. (also referred to as "Health Trixss"). You find specific named people at target companies who are potential buyers or influencers for Health Trixss, Inc.'s offerings.
+CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON array. No preamble, no explanation, no markdown, no code fences. Start your response with [ and end with ].
+{{roleExclusionInstruction}}
+{{sourceGuidanceInstruction}}
+{{knowledgeInstruction}} Do NOT fabricate or invent people. Do NOT use placeholder names like "First", "Last", "John Doe", "Jane Smith", "John Smith", or any generic example name. Do NOT generate email addresses unless you found a specific confirmed email in the search results. Return an empty array [] if you genuinely cannot identify any real named individuals at this company who match the target roles.`,
+    userPrompt: `{{contactFraming}}.
+Target roles (ONLY return people whose titles closely match these): {{targetTitles}}
+Company overview: {{companyOverview}}
+ICP fit rationale for this company: {{icpFitRationale}}{{icpContext}}{{buyingSignals}}
+{{searchContext}}
+
+{{responseInstruction}} Each object must have this shape:
+{
+  "firstName": "<real first name>",
+  "lastName": "<real last name>",
+  "title": "<their actual job title>",
+  "email": "<confirmed email from search results only — omit if unknown>",
+  "linkedinUrl": "<LinkedIn URL if found in the LinkedIn search results — include full URL>",
+  "roleFitRationale": "<2-3 sentences why this person is a good contact>",
+  "outreachPriority": "high|medium|low"
+}`,
+  },
+
+  strategy: {
+    key: "strategy",
+    phase: "strategy",
+    label: "Strategy",
+    description: "Writes a strategic approach for each discovered account, once per account.",
+    variables: [
+      COMPANY_NAME,
+      INDUSTRY,
+      COMPANY_SIZE,
+      v("geography", "The target company's geography"),
+      ICP_FIT,
+      COMPANY_OVERVIEW,
+      OFFERS,
+      MARKET_INSIGHTS,
+      KEY_TRENDS,
+      v("buyingSignals", "\"Buying signals to leverage: …\" from market research, on a new line; empty without any"),
+      ICP_CONTEXT,
+    ],
+    systemPrompt: `You are a B2B sales strategist working for Health Trixss, Inc. (also referred to as "Health Trixss"). Create targeted strategic approach documents that guide the Health Trixss, Inc. sales team in engaging each target account.
+CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON object. No preamble, no explanation, no markdown, no code fences. Start your response with { and end with }.`,
+    userPrompt: `Create a strategic sales approach for {{companyName}}:
+- Industry: {{industry}}
+- Company Size: {{companySize}}
+- Geography: {{geography}}
+- ICP Fit Rationale: {{icpFitRationale}}
+- Company Overview: {{companyOverview}}
+
+Our Offerings:
+{{offers}}
+
+Market Intelligence:
+- Market Insights: {{marketInsights}}{{keyTrends}}{{buyingSignals}}{{icpContext}}
+
+Respond with JSON:
+{
+  "strategicApproach": "3-4 sentence detailed strategic approach specific to this company",
+  "keyPainPoints": ["specific pain point this company likely has", "another specific pain point"],
+  "differentiators": ["specific reason our solution stands out for this company vs alternatives"],
+  "recommendedFirstMove": "specific, concrete first outreach action with a clear hook"
+}`,
+  },
+
+  communication_drafting: {
+    key: "communication_drafting",
+    phase: "communication_drafting",
+    label: "Communication Drafting — single plan",
+    description: "Drafts one outreach plan per lead, for runs without a playbook.",
+    variables: DRAFTING_VARIABLES,
+    systemPrompt: `${DRAFTING_SYSTEM_INTRO}
+Draft personalized outreach messages tailored to specific contacts.
+CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON object. No preamble, no explanation, no markdown, no code fences. Start your response with { and end with }.`,
+    userPrompt: `Draft a personalized outreach communication plan for:
+- ${DRAFTING_CONTEXT}
+
+Respond with JSON:
+{
+  "channelRecommendation": "email|linkedin|call",
+  "tone": "professional|consultative|direct|warm",
+  "objectives": ["primary objective", "secondary objective"],
+  "subjectLine": "Compelling, specific email subject line (not generic)",
+  "draftedMessage": "Full personalized message (3-4 paragraphs) referencing specific pain points and value propositions",
+  "followUpSequence": ["day 3: specific follow up action", "day 7: specific action"]
+}`,
+  },
+
+  communication_drafting_playbook: {
+    key: "communication_drafting_playbook",
+    phase: "communication_drafting",
+    label: "Communication Drafting — playbook steps",
+    description: "Drafts one message per playbook step for each lead, for runs with a playbook.",
+    variables: [
+      ...DRAFTING_VARIABLES,
+      v("playbookName", "The run's playbook name"),
+      v("playbookSteps", "The playbook's steps as a JSON array (order, name, channel, day offset, activity type, description)"),
+    ],
+    systemPrompt: `${DRAFTING_SYSTEM_INTRO}
+Generate one personalised outreach draft per playbook step, channel-appropriate for each step type.
+CRITICAL INSTRUCTION: Your entire response must be ONLY a valid JSON array. No preamble, no explanation, no markdown, no code fences. Start your response with [ and end with ].`,
+    userPrompt: `Write one outreach draft for each step of the "{{playbookName}}" playbook below.
+
+${DRAFTING_CONTEXT}
+
+Playbook steps (write one draft per step, in order):
+{{playbookSteps}}
+
+Return a JSON array with one object per step:
+[
+  {
+    "stepOrder": 1,
+    "stepName": "<step name>",
+    "channel": "<email|linkedin|call|task>",
+    "dayOffset": 0,
+    "activityType": "<email|call|task|meeting|note>",
+    "subject": "<email subject — only for email channel steps; omit for other channels>",
+    "draftMessage": "<full message body: email gets 2-3 paragraphs, LinkedIn gets a short connection note, call gets a talk-track outline>"
+  }
+]
+
+Guidelines:
+- Email: subject + 2-3 paragraph body referencing pain points and value propositions
+- LinkedIn: concise connection message (≤300 chars) referencing shared context
+- Call / phone: talk-track outline with opening hook, key questions, value statement, and next step ask
+- Task / other: a clear action description`,
+  },
+};
+
+/** Placeholder names in a template, in order of first use. */
+export function templateVariableNames(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) names.add(match[1]);
+  return Array.from(names);
+}
+
+/** Placeholders the prompt doesn't provide a value for. */
+export function unknownPromptVariables(key: LeadGenPromptKey, ...templates: string[]): string[] {
+  const known = new Set(BUILT_IN_PROMPT_TEMPLATES[key].variables.map(variable => variable.name));
+  return Array.from(new Set(templates.flatMap(templateVariableNames))).filter(name => !known.has(name));
+}
+
+/**
+ * Replaces each {{name}} with its value. Placeholders without a value are left
+ * as written, so a preview shows them rather than silently dropping them.
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder);
+}
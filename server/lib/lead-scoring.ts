@@ -0,0 +1,124 @@
+/**
+ * Lead scoring — pure helpers.
+ *
+ * A lead's score (0-100) adds up the points of every fit rule its title,
+ * company, source or tags match, plus engagement points for completed
+ * activities, comments and how recently either happened, clamped to
+ * 0-100. Organizations without a model of their own use
+ * DEFAULT_LEAD_SCORING_MODEL.
+ */
+import type {
+  LeadFitRule,
+  LeadScoreBreakdown,
+  LeadScoreFactor,
+  LeadScoringModelInput,
+} from "@shared/schema";
+
+export const DEFAULT_LEAD_SCORING_MODEL: LeadScoringModelInput = {
+  fitRules: [
+    { field: "company", match: "present", value: "", points: 10 },
+    { field: "title", match: "present", value: "", points: 5 },
+    { field: "source", match: "equals", value: "referral", points: 15 },
+    { field: "source", match: "equals", value: "partner", points: 10 },
+    { field: "source", match: "equals", value: "website", points: 5 },
+  ],
+  engagement: {
+    pointsPerActivity: 10,
+    maxActivityPoints: 30,
+    pointsPerComment: 5,
+    maxCommentPoints: 15,
+    recencyPoints: 25,
+    recencyDays: 30,
+  },
+};
+
+/** The lead fields fit rules look at. */
+export interface ScoredLead {
+  title?: string | null;
+  company?: string | null;
+  source?: string | null;
+}
+
+/** Engagement with a lead, gathered from its activities, comments and tags. */
+export interface LeadScoreSignals {
+  tags: string[];
+  completedActivities: number;
+  comments: number;
+  /** Latest completed activity or comment. */
+  lastEngagementAt: Date | null;
+}
+
+export interface LeadScoreResult {
+  score: number;
+  breakdown: LeadScoreBreakdown;
+}
+
+const FIELD_LABELS: Record<LeadFitRule["field"], string> = {
+  title: "Title",
+  company: "Company",
+  source: "Source",
+  tag: "Tag",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `Title contains "director"`, `Company is set`, `Tag is "VIP"` */
+export function describeFitRule(rule: LeadFitRule): string {
+  const field = FIELD_LABELS[rule.field];
+  if (rule.match === "present") return rule.field === "tag" ? "Has any tag" : `${field} is set`;
+  return `${field} ${rule.match === "contains" ? "contains" : "is"} "${rule.value}"`;
+}
+
+function fitRuleMatches(rule: LeadFitRule, lead: ScoredLead, tags: string[]): boolean {
+  const values = rule.field === "tag" ? tags : [lead[rule.field] ?? ""];
+  const present = values.map(value => value.trim().toLowerCase()).filter(Boolean);
+  if (rule.match === "present") return present.length > 0;
+  const expected = rule.value.trim().toLowerCase();
+  return present.some(value => (rule.match === "contains" ? value.includes(expected) : value === expected));
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+/** Score one lead. Factors that contribute no points are left out of the breakdown. */
+export function scoreLead(
+  model: LeadScoringModelInput,
+  lead: ScoredLead,
+  signals: LeadScoreSignals,
+  now = new Date(),
+): LeadScoreResult {
+  const fit: LeadScoreFactor[] = model.fitRules
+    .filter(rule => rule.points !== 0 && fitRuleMatches(rule, lead, signals.tags))
+    .map(rule => ({ label: describeFitRule(rule), points: rule.points }));
+
+  const weights = model.engagement;
+  const engagement: LeadScoreFactor[] = [];
+  const activityPoints = Math.min(signals.completedActivities * weights.pointsPerActivity, weights.maxActivityPoints);
+  if (activityPoints > 0) {
+    engagement.push({ label: plural(signals.completedActivities, "completed activity", "completed activities"), points: activityPoints });
+  }
+  const commentPoints = Math.min(signals.comments * weights.pointsPerComment, weights.maxCommentPoints);
+  if (commentPoints > 0) engagement.push({ label: plural(signals.comments, "comment"), points: commentPoints });
+  if (signals.lastEngagementAt) {
+    const days = Math.max(0, Math.floor((now.getTime() - signals.lastEngagementAt.getTime()) / DAY_MS));
+    const recencyPoints = Math.round(weights.recencyPoints * Math.max(0, 1 - days / weights.recencyDays));
+    if (recencyPoints > 0) {
+      const when = days === 0 ? "today" : `${plural(days, "day")} ago`;
+      engagement.push({ label: `Last engaged ${when}`, points: recencyPoints });
+    }
+  }
+
+  const total = [...fit, ...engagement].reduce((sum, factor) => sum + factor.points, 0);
+  return { score: Math.max(0, Math.min(100, total)), breakdown: { fit, engagement } };
+}
+
+/**
+ * When the most recent nightly rescore was due: today at `hourUtc`, or
+ * yesterday when that is still ahead. Leads scored before it are stale.
+ */
+export function lastNightlyRescoreAt(now: Date, hourUtc: number): Date {
+  const due = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hourUtc));
+  if (due > now) due.setUTCDate(due.getUTCDate() - 1);
+  return due;
+}
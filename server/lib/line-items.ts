@@ -0,0 +1,73 @@
+/**
+ * Opportunity line item pricing.
+ *
+ * A one-time item is quantity × unit price less its discount. A recurring
+ * item's unit price is monthly, so its total also covers the term (12 months
+ * when no term is set). Amounts are rounded to cents like the decimal(15,2)
+ * columns they are stored in.
+ */
+
+import type { ProductBillingType } from "@shared/schema";
+
+/** Contract term assumed for recurring items without an explicit term. */
+export const DEFAULT_RECURRING_TERM_MONTHS = 12;
+
+export interface LineItemPricing {
+  quantity: number;
+  unitPrice: number;
+  discountPercent?: number | null;
+  billingType: ProductBillingType;
+  termMonths?: number | null;
+}
+
+export interface LineItemSummary {
+  itemCount: number;
+  /** Sum of one-time item totals. */
+  oneTimeTotal: number;
+  /** Discounted monthly recurring revenue. */
+  recurringMonthly: number;
+  /** recurringMonthly × 12. */
+  annualRecurring: number;
+  /** Sum of recurring item totals over their terms. */
+  recurringTotal: number;
+  /** oneTimeTotal + recurringTotal — the value rolled up into the opportunity amount. */
+  total: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function effectiveTerm(item: LineItemPricing): number {
+  return item.billingType === "recurring" ? (item.termMonths || DEFAULT_RECURRING_TERM_MONTHS) : 1;
+}
+
+/** Discounted price for one billing period (the whole item for one-time items, a month for recurring). */
+function periodPrice(item: LineItemPricing): number {
+  const discount = Math.min(100, Math.max(0, item.discountPercent ?? 0));
+  return item.quantity * item.unitPrice * (1 - discount / 100);
+}
+
+export function computeLineItemTotal(item: LineItemPricing): number {
+  return roundCents(periodPrice(item) * effectiveTerm(item));
+}
+
+export function summarizeLineItems(items: LineItemPricing[]): LineItemSummary {
+  let oneTimeTotal = 0;
+  let recurringMonthly = 0;
+  let recurringTotal = 0;
+  for (const item of items) {
+    if (item.billingType === "recurring") {
+      recurringMonthly += periodPrice(item);
+      recurringTotal += computeLineItemTotal(item);
+    } else {
+      oneTimeTotal += computeLineItemTotal(item);
+    }
+  }
+  return {
+    itemCount: items.length,
+    oneTimeTotal: roundCents(oneTimeTotal),
+    recurringMonthly: roundCents(recurringMonthly),
+    annualRecurring: roundCents(recurringMonthly * 12),
+    recurringTotal: roundCents(recurringTotal),
+    total: roundCents(oneTimeTotal + recurringTotal),
+  };
+}
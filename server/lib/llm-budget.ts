@@ -0,0 +1,188 @@
+/**
+ * LLM usage and monthly budgets — pure helpers.
+ *
+ * Every LLM call an organization makes is recorded with its token counts and
+ * a cost estimated from the model price table (list prices below, overridden
+ * or extended by admins). A budget caps the organization's tokens, cost or both per
+ * calendar month (UTC): past warnAtPercent the organization's admins are
+ * warned, and at 100% further calls are refused until the month rolls over or
+ * the budget is raised.
+ */
+
+/** Reasoning ("thinking") tokens are billed as output and included in completionTokens. */
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+}
+
+/** USD per million tokens. */
+export interface LlmModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for common models, matched by the longest prefix of the model
+ * (or Azure deployment) name. Models not listed, here or in the admin price
+ * table, are recorded at no cost.
+ */
+export const DEFAULT_LLM_PRICES: Record<string, LlmModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "o1": { input: 15, output: 60 },
+  "o3": { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+};
+
+export function priceForModel(model: string, prices: Record<string, LlmModelPrice> = DEFAULT_LLM_PRICES): LlmModelPrice | null {
+  const name = model.trim().toLowerCase();
+  let best: string | null = null;
+  for (const prefix of Object.keys(prices)) {
+    if (name.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+  }
+  return best ? prices[best] : null;
+}
+
+/** The price table in effect: admin-entered prices replace or extend the list prices. */
+export function mergeLlmPrices(overrides: Array<{ model: string } & LlmModelPrice>): Record<string, LlmModelPrice> {
+  const prices = { ...DEFAULT_LLM_PRICES };
+  for (const { model, input, output } of overrides) {
+    prices[model.trim().toLowerCase()] = { input, output };
+  }
+  return prices;
+}
+
+export function estimateLlmCostUsd(model: string, usage: LlmTokenUsage, prices?: Record<string, LlmModelPrice>): number {
+  const price = priceForModel(model, prices);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Token counts from a provider's response body: OpenAI-style `usage`
+ * (OpenAI, Azure and compatible servers), Anthropic's `usage`, or Google's
+ * `usageMetadata`. Null when the response doesn't report usage. Anthropic
+ * folds extended thinking into output_tokens without a separate count.
+ */
+export function extractLlmTokenUsage(provider: string, body: unknown): LlmTokenUsage | null {
+  if (!body || typeof body !== "object") return null;
+  const data = body as Record<string, any>;
+
+  if (provider === "anthropic") {
+    const usage = data.usage;
+    if (!usage) return null;
+    return { promptTokens: count(usage.input_tokens), completionTokens: count(usage.output_tokens), reasoningTokens: 0 };
+  }
+  if (provider === "google") {
+    const usage = data.usageMetadata;
+    if (!usage) return null;
+    // Google counts thoughts separately from the candidates
+    const thoughts = count(usage.thoughtsTokenCount);
+    return { promptTokens: count(usage.promptTokenCount), completionTokens: count(usage.candidatesTokenCount) + thoughts, reasoningTokens: thoughts };
+  }
+  const usage = data.usage;
+  if (!usage) return null;
+  return {
+    promptTokens: count(usage.prompt_tokens),
+    completionTokens: count(usage.completion_tokens),
+    reasoningTokens: count(usage.completion_tokens_details?.reasoning_tokens),
+  };
+}
+
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+/** The UTC calendar month containing `now`, as a half-open range [start, end). */
+export function budgetMonth(now: Date): { start: Date; end: Date; label: string } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  const label = start.toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+  return { start, end, label };
+}
+
+export interface LlmBudgetLimits {
+  monthlyTokenLimit: number | null;
+  monthlyCostLimitUsd: number | null;
+  warnAtPercent: number;
+}
+
+export interface LlmMonthUsage {
+  tokens: number;
+  costUsd: number;
+}
+
+export type LlmBudgetState = "unlimited" | "ok" | "warning" | "exceeded";
+
+/** Where usage stands against the budget; the fuller of the token and cost limits decides. */
+export function evaluateLlmBudget(limits: LlmBudgetLimits | null, usage: LlmMonthUsage): { state: LlmBudgetState; percentUsed: number | null } {
+  const percents: number[] = [];
+  if (limits?.monthlyTokenLimit) percents.push((usage.tokens / limits.monthlyTokenLimit) * 100);
+  if (limits?.monthlyCostLimitUsd) percents.push((usage.costUsd / limits.monthlyCostLimitUsd) * 100);
+  if (!limits || percents.length === 0) return { state: "unlimited", percentUsed: null };
+
+  const percentUsed = Math.max(...percents);
+  if (percentUsed >= 100) return { state: "exceeded", percentUsed };
+  if (percentUsed >= limits.warnAtPercent) return { state: "warning", percentUsed };
+  return { state: "ok", percentUsed };
+}
+
+/** "1,020,000 of 1,000,000 tokens and $41.20 of $40.00" — only the limits that are set. */
+export function describeLlmBudgetUsage(limits: LlmBudgetLimits, usage: LlmMonthUsage): string {
+  const parts: string[] = [];
+  if (limits.monthlyTokenLimit) {
+    parts.push(`${usage.tokens.toLocaleString("en-US")} of ${limits.monthlyTokenLimit.toLocaleString("en-US")} tokens`);
+  }
+  if (limits.monthlyCostLimitUsd) {
+    parts.push(`${formatUsd(usage.costUsd)} of ${formatUsd(limits.monthlyCostLimitUsd)}`);
+  }
+  return parts.join(" and ");
+}
+
+/** Why an LLM call was refused; shown as a run's error reason and in API errors. */
+export function llmBudgetExceededReason(limits: LlmBudgetLimits, usage: LlmMonthUsage, monthLabel: string): string {
+  return `This organization has used its AI budget for ${monthLabel} (${describeLlmBudgetUsage(limits, usage)}). ` +
+    "Raise the budget in Admin Console → AI Configuration, or wait until next month.";
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/** Totals from an aggregate query row, whose sums arrive as strings from numeric and bigint columns. */
+export function toLlmUsageTotals(row: Partial<Record<keyof LlmUsageTotals, unknown>> | undefined): LlmUsageTotals {
+  const num = (value: unknown) => {
+    const n = typeof value === "number" ? value : parseFloat(String(value ?? 0));
+    return Number.isFinite(n) ? n : 0;
+  };
+  return {
+    calls: num(row?.calls),
+    promptTokens: num(row?.promptTokens),
+    completionTokens: num(row?.completionTokens),
+    reasoningTokens: num(row?.reasoningTokens),
+    totalTokens: num(row?.totalTokens),
+    costUsd: num(row?.costUsd),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Notification recipient rules — pure helpers used by notification-service.
+ *
+ * Nobody is notified about their own action, and a user who is both
+ * @mentioned and subscribed to a thread gets a single "mention".
+ */
+import type { NotificationType } from "@shared/schema";
+
+/** Client routes for records that notifications link to, keyed by canonical entity name. */
+const ENTITY_PATHS: Record<string, string> = {
+  Account: "/accounts",
+  Contact: "/contacts",
+  Lead: "/leads",
+  Opportunity: "/opportunities",
+  Activity: "/activities",
+  LeadGenerationRun: "/lead-gen/runs",
+};
+
+export function notificationLink(entity: string, entityId: string): string | null {
+  const base = ENTITY_PATHS[entity];
+  return base ? `${base}/${entityId}` : null;
+}
+
+/** User IDs from a comment's `mentions` JSON ([{ userId, display }]), de-duplicated. */
+export function mentionedUserIds(mentions: unknown): string[] {
+  if (!Array.isArray(mentions)) return [];
+  const ids = new Set<string>();
+  for (const mention of mentions) {
+    const userId = mention && typeof mention === "object" ? (mention as { userId?: unknown }).userId : undefined;
+    if (typeof userId === "string" && userId) ids.add(userId);
+  }
+  return Array.from(ids);
+}
+
+export interface CommentRecipients {
+  mention: string[];
+  comment_reply: string[];
+}
+
+export function commentRecipients(authorId: string, mentions: unknown, threadSubscriberIds: readonly string[]): CommentRecipients {
+  const mention = mentionedUserIds(mentions).filter(id => id !== authorId);
+  const comment_reply = Array.from(new Set(threadSubscriberIds))
+    .filter(id => id !== authorId && !mention.includes(id));
+  return { mention, comment_reply };
+}
+
+/** The new owner when a change moved a record to someone other than the actor. */
+export function reassignedOwnerId(
+  before: { ownerId?: string | null } | null | undefined,
+  after: { ownerId?: string | null } | null | undefined,
+  actorId: string | null | undefined,
+): string | null {
+  if (!before || !after) return null;
+  const newOwner = after.ownerId ?? null;
+  if (!newOwner || newOwner === (before.ownerId ?? null) || newOwner === actorId) return null;
+  return newOwner;
+}
+
+/** One overdue notification per activity and due date, so rescheduling re-arms it. */
+export function overdueDedupeKey(activityId: string, dueAt: Date): string {
+  return `activity_overdue:${activityId}:${dueAt.toISOString()}`;
+}
+
+export function isNotificationEnabled(type: NotificationType, disabledTypes: readonly string[] | null | undefined): boolean {
+  return !(disabledTypes ?? []).includes(type);
+}
@@ -0,0 +1,140 @@
+/**
+ * Opportunity tracked-field diffing — pure helpers for opportunity_stage_history.
+ *
+ * Values arrive from many shapes (Drizzle rows, audit-log JSON, CSV-validated
+ * objects, partial PATCH bodies), so every comparison goes through a
+ * normalizer: amounts as 2dp strings, probabilities as integers, close dates
+ * as epoch millis, stages as lowercase stage keys.
+ */
+import {
+  OPPORTUNITY_TRACKED_FIELDS,
+  opportunityStageKeySchema,
+  type OpportunityTrackedField,
+  type OpportunityStageHistory,
+  type InsertOpportunityStageHistory,
+} from "@shared/schema";
+import { isClosedStage } from "./sales-process";
+
+export type OpportunityChangeSource = InsertOpportunityStageHistory["source"];
+
+export type TrackedValues = Partial<Record<OpportunityTrackedField, unknown>> & {
+  id?: string;
+  organizationId?: string | null;
+};
+
+// Audit actions that create or modify an opportunity, mapped to their source
+const AUDIT_ACTION_SOURCES: Record<string, OpportunityChangeSource> = {
+  create: "ui",
+  update: "ui",
+  bulk_update: "bulk",
+  import: "import",
+  import_update: "import",
+  external_api_patch: "external_api",
+};
+
+export function opportunityChangeSourceForAudit(action: string): OpportunityChangeSource | null {
+  return AUDIT_ACTION_SOURCES[action] ?? null;
+}
+
+function normalizeAmount(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n.toFixed(2) : null;
+}
+
+function normalizeProbability(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? Math.round(n) : null;
+}
+
+function normalizeDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const d = value instanceof Date ? value : new Date(String(value));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function normalizeStage(value: unknown): OpportunityStageHistory["toStage"] {
+  if (typeof value !== "string") return null;
+  const stage = value.toLowerCase();
+  return opportunityStageKeySchema.safeParse(stage).success ? stage : null;
+}
+
+function comparable(field: OpportunityTrackedField, value: unknown): string | number | null {
+  switch (field) {
+    case "stage": return normalizeStage(value);
+    case "amount": return normalizeAmount(value);
+    case "probability": return normalizeProbability(value);
+    case "closeDate": return normalizeDate(value)?.getTime() ?? null;
+  }
+}
+
+/**
+ * Tracked fields whose value differs between `before` and `after`.
+ * With no `before` (creation) every tracked field present on `after` counts.
+ * Fields absent from `after` are treated as unchanged, so partial updates work.
+ */
+export function diffOpportunityTrackedFields(before: TrackedValues | null | undefined, after: TrackedValues): OpportunityTrackedField[] {
+  return OPPORTUNITY_TRACKED_FIELDS.filter(field => {
+    if (!(field in after)) return false;
+    const next = comparable(field, after[field]);
+    if (!before) return next !== null;
+    return comparable(field, before[field]) !== next;
+  });
+}
+
+/**
+ * Build the history row for a change, or null when no tracked field changed.
+ * Unchanged fields carry their current value on both sides when known.
+ */
+export function buildOpportunityStageHistoryRow(input: {
+  opportunityId: string;
+  organizationId: string | null;
+  before: TrackedValues | null | undefined;
+  after: TrackedValues;
+  source: OpportunityChangeSource;
+  actorId?: string | null;
+  apiKeyId?: string | null;
+  auditLogId?: string | null;
+  changedAt?: Date;
+}): InsertOpportunityStageHistory | null {
+  const changedFields = diffOpportunityTrackedFields(input.before, input.after);
+  if (changedFields.length === 0) return null;
+  const before = input.before ?? {};
+  const pick = (field: OpportunityTrackedField) => (field in input.after ? input.after[field] : before[field]);
+
+  return {
+    opportunityId: input.opportunityId,
+    organizationId: input.organizationId,
+    fromStage: input.before ? normalizeStage(before.stage) : null,
+    toStage: normalizeStage(pick("stage")),
+    fromAmount: input.before ? normalizeAmount(before.amount) : null,
+    toAmount: normalizeAmount(pick("amount")),
+    fromProbability: input.before ? normalizeProbability(before.probability) : null,
+    toProbability: normalizeProbability(pick("probability")),
+    fromCloseDate: input.before ? normalizeDate(before.closeDate) : null,
+    toCloseDate: normalizeDate(pick("closeDate")),
+    changedFields,
+    source: input.source,
+    actorId: input.actorId ?? null,
+    apiKeyId: input.apiKeyId ?? null,
+    auditLogId: input.auditLogId ?? null,
+    changedAt: input.changedAt ?? new Date(),
+  };
+}
+
+/**
+ * The latest move into a closed stage per opportunity, from stage changes in
+ * chronological order. Creation rows (no from stage) count: an opportunity
+ * created or imported as won or lost closed when it was created.
+ */
+export function latestOpportunityCloses(
+  changes: { opportunityId: string; toStage: string | null; toAmount: string | null; changedAt: Date }[],
+): Map<string, { amount: number; changedAt: Date }> {
+  const closes = new Map<string, { amount: number; changedAt: Date }>();
+  for (const change of changes) {
+    if (!isClosedStage(change.toStage)) continue;
+    closes.set(change.opportunityId, { amount: parseFloat(change.toAmount || "0"), changedAt: change.changedAt });
+  }
+  return closes;
+}
@@ -0,0 +1,488 @@
+/**
+ * Per-organization backup format and ID remapping.
+ *
+ * An organization backup holds one tenant's CRM data: the tables listed in
+ * ORG_BACKUP_TABLES, the org-specific ID pattern formats, and the users its
+ * rows point at (by email, since user ids differ between deployments).
+ *
+ * Restoring never reuses the source ids. Every row gets a new id — pattern
+ * ids (ACCT-…, OPP-…) from the target's idPatterns counters, everything else
+ * a fresh UUID — and every reference is rewritten through the resulting maps.
+ * That lets the same backup be restored next to the organization it came
+ * from, cloned into a new organization, or moved to another deployment
+ * without colliding with other tenants' rows.
+ */
+
+import crypto from "crypto";
+
+export const ORG_BACKUP_VERSION = "1.0.0";
+
+/** Users are matched by email on restore rather than restored. */
+export const USERS_TABLE = "users";
+
+/**
+ * What to do with a reference whose target is not in the backup (or was
+ * dropped, or is a user with no match in the target deployment):
+ *   null  — clear the column
+ *   drop  — skip the row (required references)
+ *   actor — use the user running the restore (required "created by" columns)
+ *   keep  — leave the value as is (informational ids in audit trails)
+ */
+export type MissingReference = "null" | "drop" | "actor" | "keep";
+
+interface ReferenceSpec {
+  table: string;
+  missing: MissingReference;
+}
+
+export interface OrgTableSpec {
+  /** Table export name in @shared/schema, also the key in OrgBackupData.data. */
+  key: string;
+  /** idPatterns entity whose counter issues this table's ids; UUIDs otherwise. */
+  idEntity?: string;
+  /** Has an organization_id column, set to the target organization. */
+  orgScoped?: boolean;
+  refs?: Record<string, ReferenceSpec>;
+  /** Polymorphic (entity type, entity id) column pair. */
+  polymorphic?: { typeColumn: string; idColumn: string; missing: MissingReference };
+  /** References resolved after every row is inserted (reference cycles). */
+  deferred?: Record<string, string>;
+  /** Columns that point outside the backup (audit logs, API keys, import jobs). */
+  clear?: string[];
+}
+
+const to = (table: string, missing: MissingReference = "drop"): ReferenceSpec => ({ table, missing });
+const user = (missing: MissingReference = "null"): ReferenceSpec => ({ table: USERS_TABLE, missing });
+
+/** Tables in an organization backup, in insert order (parents first). */
+export const ORG_BACKUP_TABLES: OrgTableSpec[] = [
+  { key: "accountCategories", orgScoped: true },
+  { key: "customFieldDefinitions", orgScoped: true, refs: { createdBy: user() } },
+  { key: "salesProcessStages", orgScoped: true },
+  { key: "leadScoringModels", orgScoped: true, refs: { updatedBy: user() } },
+  { key: "leadAssignmentRules", orgScoped: true, refs: { createdBy: user() } },
+  { key: "tags", orgScoped: true, refs: { createdBy: user() } },
+  { key: "products", orgScoped: true, refs: { createdBy: user() } },
+  { key: "priceBooks", orgScoped: true },
+  { key: "priceBookEntries", refs: { priceBookId: to("priceBooks"), productId: to("products") } },
+
+  { key: "accounts", idEntity: "Account", orgScoped: true, refs: { ownerId: user() }, clear: ["importJobId"] },
+  {
+    key: "contacts", idEntity: "Contact", orgScoped: true,
+    refs: { accountId: to("accounts", "null"), ownerId: user() },
+    clear: ["importJobId"],
+  },
+  {
+    key: "opportunities", idEntity: "Opportunity", orgScoped: true,
+    refs: { accountId: to("accounts"), ownerId: user(), priceBookId: to("priceBooks", "null") },
+    clear: ["importJobId"],
+  },
+  {
+    key: "leads", idEntity: "Lead", orgScoped: true,
+    refs: {
+      ownerId: user(),
+      convertedAccountId: to("accounts", "null"),
+      convertedContactId: to("contacts", "null"),
+      convertedOpportunityId: to("opportunities", "null"),
+    },
+    clear: ["importJobId"],
+  },
+  {
+    key: "activitySeries", orgScoped: true,
+    refs: { createdBy: user() },
+    deferred: { templateActivityId: "activities" },
+  },
+  {
+    key: "activities", idEntity: "Activity", orgScoped: true,
+    refs: { ownerId: user(), seriesId: to("activitySeries", "null") },
+    polymorphic: { typeColumn: "relatedType", idColumn: "relatedId", missing: "null" },
+    clear: ["importJobId"],
+  },
+  {
+    key: "activityAssociations",
+    refs: { activityId: to("activities") },
+    polymorphic: { typeColumn: "entityType", idColumn: "entityId", missing: "drop" },
+  },
+  { key: "opportunityContacts", refs: { opportunityId: to("opportunities"), contactId: to("contacts") } },
+  { key: "opportunityResources", refs: { opportunityId: to("opportunities"), userId: user("drop") } },
+  {
+    key: "opportunityStageHistory", orgScoped: true,
+    refs: { opportunityId: to("opportunities"), actorId: user() },
+    clear: ["apiKeyId", "auditLogId"],
+  },
+  { key: "opportunityLineItems", refs: { opportunityId: to("opportunities"), productId: to("products", "null") } },
+  { key: "salesQuotas", orgScoped: true, refs: { userId: user("drop"), createdBy: user() } },
+  {
+    key: "leadRoutingLog", orgScoped: true,
+    refs: { leadId: to("leads"), ruleId: to("leadAssignmentRules", "null"), assignedTo: user(), actorId: user() },
+  },
+
+  {
+    key: "entityTags",
+    refs: { tagId: to("tags"), createdBy: user() },
+    polymorphic: { typeColumn: "entity", idColumn: "entityId", missing: "drop" },
+  },
+  {
+    key: "comments",
+    refs: { parentId: to("comments"), createdBy: user("actor"), editedBy: user() },
+    polymorphic: { typeColumn: "entity", idColumn: "entityId", missing: "drop" },
+  },
+  { key: "commentReactions", refs: { commentId: to("comments"), userId: user("drop") } },
+  { key: "commentAttachments", refs: { commentId: to("comments"), uploadedBy: user("actor") } },
+  { key: "commentSubscriptions", refs: { commentId: to("comments"), userId: user("drop") } },
+  {
+    key: "crmDocuments",
+    refs: { uploadedBy: user("actor") },
+    polymorphic: { typeColumn: "entityType", idColumn: "entityId", missing: "drop" },
+  },
+  { key: "documents", idEntity: "Document", orgScoped: true },
+  {
+    key: "documentLinks",
+    refs: { documentId: to("documents") },
+    polymorphic: { typeColumn: "entityType", idColumn: "entityId", missing: "drop" },
+  },
+
+  { key: "icpProfiles", orgScoped: true, refs: { createdBy: user() } },
+  { key: "icpProfileVersions", refs: { icpProfileId: to("icpProfiles"), createdBy: user() } },
+  { key: "offers", refs: { icpProfileId: to("icpProfiles"), createdBy: user() } },
+  { key: "taskPlaybooks", orgScoped: true, refs: { icpProfileId: to("icpProfiles", "null"), createdBy: user() } },
+  { key: "taskPlaybookSteps", refs: { playbookId: to("taskPlaybooks") } },
+  { key: "leadGenPromptTemplates", orgScoped: true, refs: { createdBy: user() } },
+  {
+    key: "leadGenerationRuns", orgScoped: true,
+    refs: {
+      icpProfileId: to("icpProfiles", "null"),
+      icpVersionId: to("icpProfileVersions", "null"),
+      playbookId: to("taskPlaybooks", "null"),
+      ownerId: user(),
+      createdBy: user(),
+    },
+  },
+  { key: "agentStepLogs", refs: { runId: to("leadGenerationRuns") } },
+  { key: "llmBudgets", orgScoped: true, refs: { updatedBy: user() } },
+  { key: "llmUsageEvents", orgScoped: true, refs: { runId: to("leadGenerationRuns", "null"), userId: user() } },
+  { key: "candidateAccounts", refs: { runId: to("leadGenerationRuns"), existingAccountId: to("accounts", "null") } },
+  {
+    key: "candidateContacts",
+    refs: { runId: to("leadGenerationRuns"), candidateAccountId: to("candidateAccounts", "null") },
+  },
+  {
+    key: "candidateLeads",
+    refs: {
+      runId: to("leadGenerationRuns"),
+      candidateAccountId: to("candidateAccounts", "null"),
+      candidateContactId: to("candidateContacts", "null"),
+      assignedPlaybookId: to("taskPlaybooks", "null"),
+      reviewedBy: user(),
+      createdBy: user(),
+    },
+  },
+  { key: "candidateScores", refs: { candidateLeadId: to("candidateLeads") } },
+  {
+    key: "evidenceSources",
+    refs: { candidateLeadId: to("candidateLeads", "null"), candidateAccountId: to("candidateAccounts", "null") },
+  },
+  { key: "reviewDecisions", refs: { candidateLeadId: to("candidateLeads"), decidedBy: user() } },
+  {
+    key: "researchDocuments",
+    refs: { runId: to("leadGenerationRuns", "null"), createdBy: user() },
+    polymorphic: { typeColumn: "entityType", idColumn: "entityId", missing: "drop" },
+  },
+  {
+    key: "lgCrmLeads",
+    refs: { candidateLeadId: to("candidateLeads"), crmLeadId: to("leads"), runId: to("leadGenerationRuns", "null") },
+  },
+  {
+    key: "lgCrmTasks",
+    refs: {
+      candidateLeadId: to("candidateLeads"),
+      activityId: to("activities"),
+      playbookStepId: to("taskPlaybookSteps", "null"),
+      runId: to("leadGenerationRuns", "null"),
+    },
+  },
+  {
+    key: "lgAuditEvents",
+    refs: { actorId: user(), runId: to("leadGenerationRuns", "null") },
+    polymorphic: { typeColumn: "entityType", idColumn: "entityId", missing: "keep" },
+  },
+];
+
+// Entity type names used in polymorphic columns, normalized by lowercasing and
+// dropping underscores: "Account" (comments), "account" (crm_documents),
+// "candidate_lead" (research_documents), "LeadGenerationRun" (lg_audit_events).
+const POLYMORPHIC_TABLES: Record<string, string> = {
+  account: "accounts",
+  contact: "contacts",
+  lead: "leads",
+  opportunity: "opportunities",
+  activity: "activities",
+  candidateaccount: "candidateAccounts",
+  candidatecontact: "candidateContacts",
+  candidatelead: "candidateLeads",
+  icpprofile: "icpProfiles",
+  icpprofileversion: "icpProfileVersions",
+  taskplaybook: "taskPlaybooks",
+  leadgenerationrun: "leadGenerationRuns",
+};
+
+/** Tables a polymorphic column can point into. */
+export const POLYMORPHIC_TARGET_TABLES = new Set(Object.values(POLYMORPHIC_TABLES));
+
+export function polymorphicTable(entityType: string | null | undefined): string | undefined {
+  return entityType ? POLYMORPHIC_TABLES[entityType.toLowerCase().replace(/_/g, "")] : undefined;
+}
+
+// Custom field lookups store the referenced record's id in custom_fields
+const CUSTOM_FIELD_LOOKUP_TABLES: Record<string, string> = {
+  account: "accounts",
+  contact: "contacts",
+  lead: "leads",
+  opportunity: "opportunities",
+  user: USERS_TABLE,
+};
+const CUSTOM_FIELD_ENTITY_TABLES: Record<string, string> = {
+  account: "accounts",
+  contact: "contacts",
+  lead: "leads",
+  opportunity: "opportunities",
+  activity: "activities",
+};
+
+export interface OrgBackupUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface OrgBackupData {
+  kind: "organization";
+  version: string;
+  timestamp: string;
+  organization: {
+    id: string;
+    name: string;
+    slug: string;
+    description: string | null;
+    logoUrl: string | null;
+    settings: unknown;
+  };
+  /** Org-specific ID formats; counters stay with the deployment. */
+  idPatterns: { entity: string; pattern: string; startValue: number | null }[];
+  users: OrgBackupUser[];
+  data: Record<string, any[]>;
+}
+
+/** Every user id referenced by the rows, for the backup's user directory. */
+export function collectReferencedUserIds(data: Record<string, any[]>): Set<string> {
+  const ids = new Set<string>();
+  const add = (value: unknown) => {
+    if (typeof value === "string" && value) ids.add(value);
+  };
+  for (const spec of ORG_BACKUP_TABLES) {
+    const userColumns = Object.entries(spec.refs ?? {}).filter(([, ref]) => ref.table === USERS_TABLE).map(([column]) => column);
+    for (const row of data[spec.key] ?? []) {
+      userColumns.forEach(column => add(row[column]));
+    }
+  }
+  for (const comment of data.comments ?? []) {
+    for (const mention of Array.isArray(comment.mentions) ? comment.mentions : []) add(mention?.userId);
+  }
+  for (const series of data.activitySeries ?? []) add(series.template?.ownerId);
+  for (const rule of data.leadAssignmentRules ?? []) {
+    for (const userId of Array.isArray(rule.userIds) ? rule.userIds : []) add(userId);
+  }
+
+  const userLookups = lookupFieldsByTable(data.customFieldDefinitions ?? [], USERS_TABLE);
+  for (const [table, keys] of userLookups) {
+    for (const row of data[table] ?? []) keys.forEach(key => add(row.customFields?.[key]));
+  }
+  return ids;
+}
+
+/** Entity table -> custom field keys that look up `targetTable` (or any table). */
+function lookupFieldsByTable(definitions: any[], targetTable?: string): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const def of definitions) {
+    if (def.fieldType !== "lookup") continue;
+    const entityTable = CUSTOM_FIELD_ENTITY_TABLES[def.entityType];
+    const lookupTable = CUSTOM_FIELD_LOOKUP_TABLES[def.lookupEntity];
+    if (!entityTable || !lookupTable || (targetTable && lookupTable !== targetTable)) continue;
+    result.set(entityTable, [...(result.get(entityTable) ?? []), def.key]);
+  }
+  return result;
+}
+
+export interface RemapOptions {
+  organizationId: string;
+  /** User running the restore; stands in for unmatched required authors. */
+  actorUserId: string;
+  /** Source user id -> target user id, for users matched by email. */
+  userIds: Map<string, string>;
+  /** New id for a row of the given table (idPatterns for pattern tables). */
+  allocateId?: (spec: OrgTableSpec) => Promise<string>;
+}
+
+export interface RemappedOrgData {
+  /** Rows ready to insert, per table, in ORG_BACKUP_TABLES order. */
+  tables: Record<string, any[]>;
+  /** Deferred references to set once every row exists. */
+  deferred: { key: string; id: string; column: string; value: string }[];
+  /** Rows skipped because a required reference was not in the backup. */
+  dropped: Record<string, number>;
+  /** Source id -> new id, per table. */
+  idMaps: Record<string, Map<string, string>>;
+}
+
+const defaultAllocate = async () => crypto.randomUUID();
+
+/**
+ * Give every row a new id and rewrite its references for the target
+ * organization. Rows whose required references cannot be resolved are
+ * dropped, and anything that referenced a dropped row is resolved as missing
+ * in turn.
+ */
+export async function remapOrgBackup(data: Record<string, any[]>, options: RemapOptions): Promise<RemappedOrgData> {
+  const allocate = options.allocateId ?? defaultAllocate;
+  const idMaps: Record<string, Map<string, string>> = {};
+
+  // Allocate every id first so cycles and forward references resolve
+  for (const spec of ORG_BACKUP_TABLES) {
+    const map = new Map<string, string>();
+    for (const row of data[spec.key] ?? []) {
+      if (row?.id && !map.has(row.id)) map.set(row.id, await allocate(spec));
+    }
+    idMaps[spec.key] = map;
+  }
+
+  const resolve = (table: string, id: unknown): string | undefined => {
+    if (typeof id !== "string") return undefined;
+    return table === USERS_TABLE ? options.userIds.get(id) : idMaps[table]?.get(id);
+  };
+
+  const tables: Record<string, any[]> = {};
+  const dropped: Record<string, number> = {};
+  const deferred: RemappedOrgData["deferred"] = [];
+  const droppedIds = new Set<string>();
+  const customFieldLookups = lookupFieldsByTable(data.customFieldDefinitions ?? []);
+  const lookupTargets = new Map<string, string>(
+    (data.customFieldDefinitions ?? [])
+      .filter((def: any) => def.fieldType === "lookup")
+      .map((def: any) => [`${CUSTOM_FIELD_ENTITY_TABLES[def.entityType]}:${def.key}`, CUSTOM_FIELD_LOOKUP_TABLES[def.lookupEntity]]),
+  );
+
+  for (const spec of ORG_BACKUP_TABLES) {
+    let rows = data[spec.key] ?? [];
+    if (spec.key === "comments") {
+      // Parents before replies, so a reply to a dropped comment is dropped too
+      rows = [...rows].sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0));
+    }
+    const out: any[] = [];
+
+    for (const source of rows) {
+      const id = idMaps[spec.key].get(source.id);
+      if (!id) continue; // duplicate id in the backup
+      const row: any = { ...source, id };
+      let keep = true;
+
+      const applyMissing = (column: string, missing: MissingReference, original: unknown) => {
+        if (missing === "drop") keep = false;
+        else if (missing === "actor") row[column] = options.actorUserId;
+        else if (missing === "null") row[column] = null;
+        else row[column] = original;
+      };
+
+      if (spec.orgScoped) row.organizationId = options.organizationId;
+      for (const column of spec.clear ?? []) row[column] = null;
+
+      for (const [column, ref] of Object.entries(spec.refs ?? {})) {
+        const value = source[column];
+        if (value === null || value === undefined) continue;
+        const mapped = resolve(ref.table, value);
+        if (mapped) row[column] = mapped;
+        else applyMissing(column, ref.missing, value);
+      }
+
+      if (spec.polymorphic) {
+        const { typeColumn, idColumn, missing } = spec.polymorphic;
+        const value = source[idColumn];
+        if (value !== null && value !== undefined) {
+          const table = polymorphicTable(source[typeColumn]);
+          const mapped = table ? resolve(table, value) : undefined;
+          if (mapped) row[idColumn] = mapped;
+          else {
+            applyMissing(idColumn, missing, value);
+            if (missing === "null") row[typeColumn] = null;
+          }
+        }
+      }
+
+      for (const column of Object.keys(spec.deferred ?? {})) {
+        if (source[column]) deferred.push({ key: spec.key, id, column, value: source[column] });
+        row[column] = null;
+      }
+
+      // Ids embedded in json columns
+      const lookupKeys = customFieldLookups.get(spec.key);
+      if (lookupKeys && row.customFields && typeof row.customFields === "object") {
+        const customFields = { ...row.customFields };
+        for (const key of lookupKeys) {
+          if (customFields[key] === null || customFields[key] === undefined) continue;
+          const mapped = resolve(lookupTargets.get(`${spec.key}:${key}`)!, customFields[key]);
+          if (mapped) customFields[key] = mapped;
+          else delete customFields[key];
+        }
+        row.customFields = customFields;
+      }
+      if (spec.key === "comments" && Array.isArray(source.mentions)) {
+        row.mentions = source.mentions
+          .map((mention: any) => ({ ...mention, userId: resolve(USERS_TABLE, mention?.userId) }))
+          .filter((mention: any) => mention.userId);
+      }
+      if (spec.key === "leadAssignmentRules") {
+        // Pool members without a matching user drop out of the pool
+        row.userIds = (Array.isArray(source.userIds) ? source.userIds : [])
+          .map((userId: unknown) => resolve(USERS_TABLE, userId))
+          .filter(Boolean);
+      }
+      if (spec.key === "activitySeries") {
+        const template = { ...(source.template ?? {}) };
+        template.ownerId = resolve(USERS_TABLE, template.ownerId) ?? null;
+        const relatedTable = polymorphicTable(template.relatedType);
+        const relatedId = relatedTable ? resolve(relatedTable, template.relatedId) : undefined;
+        if (!relatedId) {
+          template.relatedType = null;
+          template.relatedId = null;
+        } else {
+          template.relatedId = relatedId;
+        }
+        row.template = template;
+        row.associations = (Array.isArray(source.associations) ? source.associations : [])
+          .map((association: any) => {
+            const table = polymorphicTable(association?.entityType);
+            const entityId = table ? resolve(table, association.entityId) : undefined;
+            return entityId ? { ...association, entityId } : null;
+          })
+          .filter(Boolean);
+      }
+
+      if (keep) {
+        out.push(row);
+      } else {
+        idMaps[spec.key].delete(source.id);
+        droppedIds.add(id);
+        dropped[spec.key] = (dropped[spec.key] ?? 0) + 1;
+      }
+    }
+    tables[spec.key] = out;
+  }
+
+  // Deferred references may point at rows dropped after they were queued
+  const resolvedDeferred = deferred.flatMap(entry => {
+    const table = ORG_BACKUP_TABLES.find(spec => spec.key === entry.key)!.deferred![entry.column];
+    const mapped = resolve(table, entry.value);
+    return mapped && !droppedIds.has(entry.id) ? [{ ...entry, value: mapped }] : [];
+  });
+
+  return { tables, deferred: resolvedDeferred, dropped, idMaps };
+}
@@ -0,0 +1,112 @@
+/**
+ * Quota period math and attainment metrics.
+ *
+ * Quota periods are calendar months, quarters and years in UTC. A period's
+ * range is half-open: [start, end).
+ */
+
+import type { QuotaPeriodType } from "@shared/schema";
+
+export interface QuotaPeriod {
+  periodType: QuotaPeriodType;
+  year: number;
+  /** Month 1-12, quarter 1-4, or 1 for a year. */
+  period: number;
+}
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Pacing at or above this ratio of the expected-to-date amount counts as on track. */
+export const ON_TRACK_PACING = 0.9;
+
+export function quotaPeriodRange({ periodType, year, period }: QuotaPeriod): { start: Date; end: Date } {
+  switch (periodType) {
+    case "month":
+      return { start: new Date(Date.UTC(year, period - 1, 1)), end: new Date(Date.UTC(year, period, 1)) };
+    case "quarter":
+      return { start: new Date(Date.UTC(year, (period - 1) * 3, 1)), end: new Date(Date.UTC(year, period * 3, 1)) };
+    case "year":
+      return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+}
+
+/** The period of the given type that contains `date`. */
+export function quotaPeriodFor(periodType: QuotaPeriodType, date: Date): QuotaPeriod {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  switch (periodType) {
+    case "month":
+      return { periodType, year, period: month };
+    case "quarter":
+      return { periodType, year, period: Math.ceil(month / 3) };
+    case "year":
+      return { periodType, year, period: 1 };
+  }
+}
+
+export function formatQuotaPeriod({ periodType, year, period }: QuotaPeriod): string {
+  switch (periodType) {
+    case "month":
+      return `${MONTH_LABELS[period - 1]} ${year}`;
+    case "quarter":
+      return `Q${period} ${year}`;
+    case "year":
+      return String(year);
+  }
+}
+
+export type QuotaPacingStatus = "achieved" | "ahead" | "on_track" | "behind" | "not_started";
+
+export interface QuotaMetricsInput {
+  quota: number;
+  closedWon: number;
+  /** Open pipeline expected to close in the period, weighted by probability. */
+  weightedPipeline: number;
+  start: Date;
+  end: Date;
+  now: Date;
+}
+
+export interface QuotaMetrics {
+  /** closedWon / quota */
+  attainment: number;
+  remaining: number;
+  /** Weighted pipeline / remaining quota; null once the quota is met. */
+  coverage: number | null;
+  /** Share of the period that has elapsed, 0-1. */
+  elapsed: number;
+  /** Amount that should be closed by now at an even pace. */
+  expectedToDate: number;
+  /** closedWon / expectedToDate; null before the period starts. */
+  pacing: number | null;
+  /** closedWon extrapolated to the end of the period at the current pace. */
+  projected: number | null;
+  status: QuotaPacingStatus;
+}
+
+export function computeQuotaMetrics(input: QuotaMetricsInput): QuotaMetrics {
+  const { quota, closedWon, weightedPipeline, start, end, now } = input;
+  const length = end.getTime() - start.getTime();
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / length));
+  const remaining = Math.max(0, quota - closedWon);
+  const expectedToDate = quota * elapsed;
+  const pacing = expectedToDate > 0 ? closedWon / expectedToDate : null;
+
+  let status: QuotaPacingStatus;
+  if (quota > 0 && closedWon >= quota) status = "achieved";
+  else if (pacing === null) status = "not_started";
+  else if (pacing >= 1) status = "ahead";
+  else if (pacing >= ON_TRACK_PACING) status = "on_track";
+  else status = "behind";
+
+  return {
+    attainment: quota > 0 ? closedWon / quota : 0,
+    remaining,
+    coverage: remaining > 0 ? weightedPipeline / remaining : null,
+    elapsed,
+    expectedToDate,
+    pacing,
+    projected: elapsed > 0 ? closedWon / elapsed : null,
+    status,
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * Recurrence rules for activity series — a subset of RFC 5545 RRULE.
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekly
+ * weekdays; monthly weekdays with an optional ordinal such as 2TU or -1FR),
+ * BYMONTHDAY (monthly, 1..31 or -1..-31), COUNT, UNTIL and WKST=MO.
+ *
+ * All date arithmetic is in UTC: an occurrence keeps the UTC time of day of
+ * the series start. As in RFC 5545, the series start is always the first
+ * occurrence and counts toward COUNT.
+ */
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface ByDay {
+  weekday: Weekday;
+  /** Monthly only: 1..5 for the nth weekday of the month, -1..-5 counting from the end. */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+export const MAX_INTERVAL = 99;
+export const MAX_COUNT = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on periods scanned, so sparse rules (e.g. BYMONTHDAY=31 every
+// other month) can't loop forever
+const MAX_PERIODS = 10_000;
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "COUNT", "UNTIL", "WKST"]);
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+
+/** Monday-based weekday index (MO = 0 … SU = 6). */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function parseInteger(name: string, value: string, min: number, max: number): number {
+  if (!/^-?\d+$/.test(value)) throw new RecurrenceRuleError(`${name} must be a whole number`);
+  const n = parseInt(value, 10);
+  if (n < min || n > max) throw new RecurrenceRuleError(`${name} must be between ${min} and ${max}`);
+  return n;
+}
+
+function parseUntil(value: string): Date {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  let date: Date | null = null;
+  if (dateOnly) {
+    // A date-only UNTIL includes the whole day
+    date = new Date(Date.UTC(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3], 23, 59, 59));
+  } else if (dateTime) {
+    date = new Date(Date.UTC(+dateTime[1], +dateTime[2] - 1, +dateTime[3], +dateTime[4], +dateTime[5], +dateTime[6]));
+  }
+  if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10).replace(/-/g, "") !== value.slice(0, 8)) {
+    throw new RecurrenceRuleError("UNTIL must be a date (YYYYMMDD) or UTC date-time (YYYYMMDDTHHMMSSZ)");
+  }
+  return date;
+}
+
+function formatUntil(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+export function parseRecurrenceRule(input: string): RecurrenceRule {
+  const body = input.trim().replace(/^RRULE:/i, "");
+  if (!body) throw new RecurrenceRuleError("Recurrence rule is empty");
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [key, value, ...rest] = part.split("=");
+    if (!key || !value || rest.length > 0) throw new RecurrenceRuleError(`Malformed recurrence rule part "${part}"`);
+    const name = key.trim().toUpperCase();
+    if (!SUPPORTED_PARTS.has(name)) throw new RecurrenceRuleError(`Unsupported recurrence rule part "${name}"`);
+    if (parts.has(name)) throw new RecurrenceRuleError(`${name} appears more than once`);
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (!freq) throw new RecurrenceRuleError("FREQ is required");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new RecurrenceRuleError(`Unsupported frequency "${freq}" — use DAILY, WEEKLY or MONTHLY`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parts.has("INTERVAL") ? parseInteger("INTERVAL", parts.get("INTERVAL")!, 1, MAX_INTERVAL) : 1,
+  };
+
+  const wkst = parts.get("WKST");
+  if (wkst && wkst !== "MO") throw new RecurrenceRuleError("Only WKST=MO is supported");
+
+  const byDay = parts.get("BYDAY");
+  if (byDay) {
+    if (freq === "DAILY") throw new RecurrenceRuleError("BYDAY is not supported with FREQ=DAILY");
+    const seen = new Set<string>();
+    rule.byDay = [];
+    for (const token of byDay.split(",")) {
+      const match = token.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) throw new RecurrenceRuleError(`Invalid BYDAY value "${token}"`);
+      const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+      if (ordinal !== undefined) {
+        if (freq !== "MONTHLY") throw new RecurrenceRuleError("BYDAY ordinals (e.g. 2TU) require FREQ=MONTHLY");
+        if (ordinal === 0 || ordinal < -5 || ordinal > 5) throw new RecurrenceRuleError(`Invalid BYDAY ordinal in "${token}"`);
+      }
+      const key = `${ordinal ?? ""}${match[2]}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      rule.byDay.push(ordinal !== undefined ? { weekday: match[2] as Weekday, ordinal } : { weekday: match[2] as Weekday });
+    }
+    rule.byDay.sort((a, b) => (a.ordinal ?? 0) - (b.ordinal ?? 0) || WEEKDAYS.indexOf(a.weekday) - WEEKDAYS.indexOf(b.weekday));
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay) {
+    if (freq !== "MONTHLY") throw new RecurrenceRuleError("BYMONTHDAY requires FREQ=MONTHLY");
+    if (rule.byDay) throw new RecurrenceRuleError("BYDAY and BYMONTHDAY cannot be combined");
+    const days = byMonthDay.split(",").map(v => parseInteger("BYMONTHDAY", v, -31, 31));
+    if (days.includes(0)) throw new RecurrenceRuleError("BYMONTHDAY cannot be 0");
+    rule.byMonthDay = Array.from(new Set(days)).sort((a, b) => a - b);
+  }
+
+  if (parts.has("COUNT") && parts.has("UNTIL")) throw new RecurrenceRuleError("COUNT and UNTIL cannot be combined");
+  if (parts.has("COUNT")) rule.count = parseInteger("COUNT", parts.get("COUNT")!, 1, MAX_COUNT);
+  if (parts.has("UNTIL")) rule.until = parseUntil(parts.get("UNTIL")!);
+
+  return rule;
+}
+
+/** Canonical RRULE text (without the "RRULE:" prefix). */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ""}${d.weekday}`).join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(";");
+}
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return "last";
+  if (n < 0) return `${ordinalLabel(-n)} to last`;
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+}
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times". */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  let text = rule.interval === 1
+    ? { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly" }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(d => d.ordinal !== undefined
+      ? `the ${ordinalLabel(d.ordinal)} ${WEEKDAY_NAMES[d.weekday]}`
+      : WEEKDAY_NAMES[d.weekday]);
+    text += ` on ${days.join(", ")}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on the ${rule.byMonthDay.map(d => d < 0 ? `${ordinalLabel(d)} day` : ordinalLabel(d)).join(", ")}`;
+  }
+
+  if (rule.count !== undefined) text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  if (rule.until) text += `, until ${rule.until.toISOString().slice(0, 10)}`;
+  return text;
+}
+
+function withTimeOf(year: number, month: number, day: number, time: Date): Date {
+  return new Date(Date.UTC(year, month, day, time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds(), time.getUTCMilliseconds()));
+}
+
+function monthlyCandidates(rule: RecurrenceRule, year: number, month: number, dtstart: Date): Date[] {
+  const total = daysInMonth(year, month);
+  const days = new Set<number>();
+  if (rule.byMonthDay?.length) {
+    for (const d of rule.byMonthDay) {
+      const day = d > 0 ? d : total + d + 1;
+      if (day >= 1 && day <= total) days.add(day);
+    }
+  } else if (rule.byDay?.length) {
+    const firstWeekday = weekdayIndex(new Date(Date.UTC(year, month, 1)));
+    for (const { weekday, ordinal } of rule.byDay) {
+      const first = 1 + ((WEEKDAYS.indexOf(weekday) - firstWeekday + 7) % 7);
+      const all: number[] = [];
+      for (let day = first; day <= total; day += 7) all.push(day);
+      if (ordinal === undefined) all.forEach(day => days.add(day));
+      else {
+        const day = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+        if (day !== undefined) days.add(day);
+      }
+    }
+  } else if (dtstart.getUTCDate() <= total) {
+    days.add(dtstart.getUTCDate());
+  }
+  return Array.from(days).sort((a, b) => a - b).map(day => withTimeOf(year, month, day, dtstart));
+}
+
+function* candidateOccurrences(rule: RecurrenceRule, dtstart: Date): Generator<Date> {
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const step = period * rule.interval;
+    if (rule.freq === "DAILY") {
+      yield new Date(dtstart.getTime() + step * DAY_MS);
+    } else if (rule.freq === "WEEKLY") {
+      const weekStart = new Date(dtstart.getTime() + (step * 7 - weekdayIndex(dtstart)) * DAY_MS);
+      const indexes = rule.byDay?.length ? rule.byDay.map(d => WEEKDAYS.indexOf(d.weekday)) : [weekdayIndex(dtstart)];
+      for (const index of indexes) yield new Date(weekStart.getTime() + index * DAY_MS);
+    } else {
+      const monthIndex = dtstart.getUTCMonth() + step;
+      const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+      yield* monthlyCandidates(rule, year, monthIndex % 12, dtstart);
+    }
+  }
+}
+
+/** Every occurrence of the series in ascending order, honouring COUNT and UNTIL. */
+export function* occurrences(rule: RecurrenceRule, dtstart: Date): Generator<Date> {
+  let emitted = 0;
+  const done = () => rule.count !== undefined && emitted >= rule.count;
+  if (rule.until && dtstart > rule.until) return;
+  yield dtstart;
+  emitted++;
+  for (const candidate of candidateOccurrences(rule, dtstart)) {
+    if (done()) return;
+    if (candidate <= dtstart) continue;
+    if (rule.until && candidate > rule.until) return;
+    yield candidate;
+    emitted++;
+  }
+}
+
+/** Occurrences in the window (after, until] — `after` is exclusive, `until` inclusive. */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  window: { after?: Date | null; until: Date },
+  limit = 1000,
+): Date[] {
+  const result: Date[] = [];
+  for (const occurrence of occurrences(rule, dtstart)) {
+    if (occurrence > window.until || result.length >= limit) break;
+    if (window.after && occurrence <= window.after) continue;
+    result.push(occurrence);
+  }
+  return result;
+}
+
+/** How many occurrences fall strictly before `date` (used to carry COUNT across a split). */
+export function countOccurrencesBefore(rule: RecurrenceRule, dtstart: Date, date: Date): number {
+  let n = 0;
+  for (const occurrence of occurrences(rule, dtstart)) {
+    if (occurrence >= date) break;
+    n++;
+  }
+  return n;
+}
+
+/**
+ * Move the weekdays / month days of a rule by a whole number of days, so a
+ * series moved from Monday to Tuesday keeps matching its occurrences.
+ * Returns null when the shift can't be expressed (e.g. a month day past 31).
+ */
+export function shiftRecurrenceRule(rule: RecurrenceRule, days: number): RecurrenceRule | null {
+  if (days === 0 || rule.freq === "DAILY") return rule;
+  if (rule.byMonthDay?.length) {
+    const shifted = rule.byMonthDay.map(d => d + days);
+    if (rule.byMonthDay.some(d => d < 0) || shifted.some(d => d < 1 || d > 31)) return null;
+    return { ...rule, byMonthDay: shifted };
+  }
+  if (rule.byDay?.length) {
+    if (rule.byDay.some(d => d.ordinal !== undefined) && Math.abs(days) >= 7) return null;
+    const shift = ((days % 7) + 7) % 7;
+    return {
+      ...rule,
+      byDay: rule.byDay.map(d => ({ ...d, weekday: WEEKDAYS[(WEEKDAYS.indexOf(d.weekday) + shift) % 7] })),
+    };
+  }
+  return rule;
+}
+
+/** End a rule just before `date` — used when a series is split or truncated. */
+export function truncateRecurrenceRule(rule: RecurrenceRule, date: Date): RecurrenceRule {
+  const { count: _count, ...rest } = rule;
+  return { ...rest, until: new Date(date.getTime() - 1000) };
+}
+
+/** Whole UTC calendar days between two instants (time of day ignored). */
+export function calendarDayDelta(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+  return Math.round((end - start) / DAY_MS);
+}
@@ -1,4 +1,4 @@
-import { AzureWebSearchProvider, isAzureWebSearchConfigured } from "./providers/AzureWebSearchProvider";
+import { buildResearchProvider, researchSettingsFromEnv } from "./provider-factory";
 import type { ResearchProvider, ResearchMode, ResearchResult, ResearchRequest, Citation } from "./types";
 
 export class ResearchService {
@@ -6,16 +6,25 @@ export class ResearchService {
   private mode: ResearchMode = "none";
   private configError: string | null = null;
 
-  constructor() {
-    if (isAzureWebSearchConfigured()) {
-      const p = new AzureWebSearchProvider();
+  /** Uses the given provider, or the one the environment selects. */
+  constructor(provider?: ResearchProvider | null) {
+    let p = provider ?? null;
+    if (provider === undefined) {
+      const settings = researchSettingsFromEnv();
+      try {
+        p = settings ? buildResearchProvider(settings) : null;
+      } catch (err) {
+        this.configError = err instanceof Error ? err.message : String(err);
+      }
+    }
+    if (p) {
       const err = p.validateConfig();
       if (!err) {
         this.provider = p;
-        this.mode = "azure_web_search";
+        this.mode = p.mode;
       } else {
         this.configError = err;
-        console.warn("[ResearchService] Azure web search config error:", err);
+        console.warn(`[ResearchService] ${p.mode} web search config error:`, err);
       }
     }
   }
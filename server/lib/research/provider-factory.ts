@@ -0,0 +1,68 @@
+import path from "path";
+import { AzureWebSearchProvider, isAzureWebSearchConfigured, type AzureWebSearchConfig } from "./providers/AzureWebSearchProvider";
+import { BraveSearchProvider } from "./providers/BraveSearchProvider";
+import { SerperSearchProvider } from "./providers/SerperSearchProvider";
+import { FixtureSearchProvider, RecordingResearchProvider } from "./providers/FixtureSearchProvider";
+import type { ResearchProvider, ResearchMode } from "./types";
+
+export type ResearchProviderSettings =
+  | { mode: "azure_web_search"; azure?: AzureWebSearchConfig }
+  | { mode: "brave" | "serper"; apiKey: string; baseUrl?: string | null }
+  | { mode: "fixture"; dir?: string };
+
+/** Where FixtureSearchProvider replays from: RESEARCH_FIXTURES_DIR, else ./fixtures/research. */
+export function researchFixturesDir(): string {
+  return path.resolve(process.env.RESEARCH_FIXTURES_DIR || path.join("fixtures", "research"));
+}
+
+/**
+ * Build a provider. With RESEARCH_FIXTURES_RECORD_DIR set, live providers
+ * also record every result set there for later offline replay.
+ */
+export function buildResearchProvider(settings: ResearchProviderSettings): ResearchProvider {
+  let provider: ResearchProvider;
+  switch (settings.mode) {
+    case "azure_web_search":
+      // Without explicit settings this reads the AZURE_OPENAI_* env vars and throws when they're missing
+      provider = new AzureWebSearchProvider(settings.azure);
+      break;
+    case "brave":
+      provider = new BraveSearchProvider({ apiKey: settings.apiKey, baseUrl: settings.baseUrl });
+      break;
+    case "serper":
+      provider = new SerperSearchProvider({ apiKey: settings.apiKey, baseUrl: settings.baseUrl });
+      break;
+    case "fixture":
+      return new FixtureSearchProvider(settings.dir ?? researchFixturesDir());
+  }
+  const recordDir = process.env.RESEARCH_FIXTURES_RECORD_DIR;
+  return recordDir ? new RecordingResearchProvider(provider, path.resolve(recordDir)) : provider;
+}
+
+/**
+ * The provider the environment alone selects: fixtures when
+ * RESEARCH_FIXTURES_DIR is set, then Azure, Brave and Serper env vars.
+ */
+export function researchSettingsFromEnv(): ResearchProviderSettings | null {
+  if (process.env.RESEARCH_FIXTURES_DIR) return { mode: "fixture" };
+  if (isAzureWebSearchConfigured()) return { mode: "azure_web_search" };
+  if (process.env.BRAVE_SEARCH_API_KEY) return { mode: "brave", apiKey: process.env.BRAVE_SEARCH_API_KEY };
+  if (process.env.SERPER_API_KEY) return { mode: "serper", apiKey: process.env.SERPER_API_KEY };
+  return null;
+}
+
+export const RESEARCH_MODE_LABELS: Record<ResearchMode, string> = {
+  azure_web_search: "Azure OpenAI Web Search",
+  brave: "Brave Search",
+  serper: "Serper",
+  fixture: "Recorded fixtures (offline)",
+  none: "None",
+};
+
+/** A link to the search engine's own results page for a query, for evidence records. */
+export function searchPageUrl(mode: ResearchMode, query: string): string {
+  const q = encodeURIComponent(query);
+  if (mode === "serper") return `https://www.google.com/search?q=${q}`;
+  if (mode === "azure_web_search") return `https://www.bing.com/search?q=${q}`;
+  return `https://search.brave.com/search?q=${q}`;
+}
@@ -0,0 +1,63 @@
+import type { ResearchProvider, ResearchMode, Citation } from "../types";
+
+export interface BraveSearchConfig {
+  apiKey: string;
+  baseUrl?: string | null;
+  /** Results per query; Brave allows up to 20. */
+  count?: number;
+}
+
+interface BraveSearchResponse {
+  web?: { results?: Array<{ title?: string; url?: string; description?: string }> };
+}
+
+export function parseBraveResults(data: unknown): { title: string; url: string; snippet: string; citations: Citation[] }[] {
+  const results = (data as BraveSearchResponse | null)?.web?.results ?? [];
+  return results
+    .filter(r => r.url && r.title)
+    .map(r => ({
+      title: r.title!,
+      url: r.url!,
+      snippet: r.description ?? "",
+      citations: [{ title: r.title!, url: r.url! }],
+    }));
+}
+
+export class BraveSearchProvider implements ResearchProvider {
+  readonly mode: ResearchMode = "brave";
+  private apiKey: string;
+  private baseUrl: string;
+  private count: number;
+
+  constructor(config: BraveSearchConfig) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || "https://api.search.brave.com/res/v1/web").replace(/\/+$/, "");
+    this.count = config.count ?? 5;
+  }
+
+  validateConfig(): string | null {
+    if (!this.apiKey) {
+      return "Brave Search requires an API key. Enter one in Admin Console → AI Configuration → Web Search Provider, or set BRAVE_SEARCH_API_KEY.";
+    }
+    return null;
+  }
+
+  async search(query: string): Promise<{ title: string; url: string; snippet: string; citations?: Citation[] }[]> {
+    const response = await fetch(`${this.baseUrl}/search?q=${encodeURIComponent(query)}&count=${this.count}`, {
+      headers: {
+        "Accept": "application/json",
+        "X-Subscription-Token": this.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let reason = `HTTP ${response.status}`;
+      if (response.status === 401 || response.status === 403) reason = "Invalid or unauthorized API key";
+      else if (response.status === 429) reason = "Rate limit or monthly quota exceeded";
+      throw new Error(`Brave search failed: ${reason}. Details: ${errorText.slice(0, 300)}`);
+    }
+
+    return parseBraveResults(await response.json());
+  }
+}
@@ -0,0 +1,106 @@
+import { createHash } from "crypto";
+import { existsSync, statSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ResearchProvider, ResearchMode, Citation } from "../types";
+
+type SearchResult = { title: string; url: string; snippet: string; citations?: Citation[] };
+
+/**
+ * A recorded search, as written by RecordingResearchProvider. Hand-written
+ * fixtures may also be a bare array of results.
+ */
+export interface SearchFixture {
+  query: string;
+  recordedAt?: string;
+  provider?: string;
+  results: SearchResult[];
+}
+
+/** Served for any query without its own fixture file, when present. */
+export const DEFAULT_FIXTURE_FILE = "_default.json";
+
+/**
+ * The fixture file name for a query: a readable slug plus a hash of the
+ * normalized query, so case and spacing differences replay the same file.
+ */
+export function fixtureFileName(query: string): string {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, " ");
+  const slug = normalized.replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "query";
+  const hash = createHash("sha1").update(normalized).digest("hex").slice(0, 10);
+  return `${slug}-${hash}.json`;
+}
+
+function parseFixture(raw: string, file: string): SearchResult[] {
+  const data = JSON.parse(raw) as SearchFixture | SearchResult[];
+  const results = Array.isArray(data) ? data : data?.results;
+  if (!Array.isArray(results)) {
+    throw new Error(`Search fixture ${file} has no results array`);
+  }
+  return results.map(r => ({
+    title: String(r.title ?? ""),
+    url: String(r.url ?? ""),
+    snippet: String(r.snippet ?? ""),
+    citations: Array.isArray(r.citations) ? r.citations : r.url ? [{ title: String(r.title ?? r.url), url: String(r.url) }] : [],
+  }));
+}
+
+/**
+ * Replays recorded search results from a directory instead of calling a
+ * search API, so pipelines and tests run offline and deterministically. A
+ * query without a fixture returns the default fixture, or no results.
+ */
+export class FixtureSearchProvider implements ResearchProvider {
+  readonly mode: ResearchMode = "fixture";
+
+  constructor(private readonly dir: string) {}
+
+  validateConfig(): string | null {
+    if (!existsSync(this.dir) || !statSync(this.dir).isDirectory()) {
+      return `Search fixture directory not found: ${this.dir}. Set RESEARCH_FIXTURES_DIR, or record fixtures with RESEARCH_FIXTURES_RECORD_DIR.`;
+    }
+    return null;
+  }
+
+  async search(query: string): Promise<SearchResult[]> {
+    for (const file of [fixtureFileName(query), DEFAULT_FIXTURE_FILE]) {
+      let raw: string;
+      try {
+        raw = await readFile(path.join(this.dir, file), "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw err;
+      }
+      return parseFixture(raw, file);
+    }
+    return [];
+  }
+}
+
+/**
+ * Passes searches through to a live provider and writes each result set to
+ * the fixture directory, for FixtureSearchProvider to replay later.
+ */
+export class RecordingResearchProvider implements ResearchProvider {
+  readonly mode: ResearchMode;
+
+  constructor(private readonly inner: ResearchProvider, private readonly dir: string) {
+    this.mode = inner.mode;
+  }
+
+  validateConfig(): string | null {
+    return this.inner.validateConfig();
+  }
+
+  async search(query: string): Promise<SearchResult[]> {
+    const results = await this.inner.search(query);
+    try {
+      await mkdir(this.dir, { recursive: true });
+      const fixture: SearchFixture = { query, recordedAt: new Date().toISOString(), provider: this.inner.mode, results };
+      await writeFile(path.join(this.dir, fixtureFileName(query)), JSON.stringify(fixture, null, 2) + "\n");
+    } catch (err) {
+      console.warn("[Research] Failed to record search fixture:", err instanceof Error ? err.message : err);
+    }
+    return results;
+  }
+}
@@ -0,0 +1,65 @@
+import type { ResearchProvider, ResearchMode, Citation } from "../types";
+
+export interface SerperSearchConfig {
+  apiKey: string;
+  baseUrl?: string | null;
+  /** Results per query. */
+  num?: number;
+}
+
+interface SerperSearchResponse {
+  organic?: Array<{ title?: string; link?: string; snippet?: string }>;
+}
+
+export function parseSerperResults(data: unknown): { title: string; url: string; snippet: string; citations: Citation[] }[] {
+  const results = (data as SerperSearchResponse | null)?.organic ?? [];
+  return results
+    .filter(r => r.link && r.title)
+    .map(r => ({
+      title: r.title!,
+      url: r.link!,
+      snippet: r.snippet ?? "",
+      citations: [{ title: r.title!, url: r.link! }],
+    }));
+}
+
+export class SerperSearchProvider implements ResearchProvider {
+  readonly mode: ResearchMode = "serper";
+  private apiKey: string;
+  private baseUrl: string;
+  private num: number;
+
+  constructor(config: SerperSearchConfig) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || "https://google.serper.dev/search").replace(/\/+$/, "");
+    this.num = config.num ?? 5;
+  }
+
+  validateConfig(): string | null {
+    if (!this.apiKey) {
+      return "Serper requires an API key. Enter one in Admin Console → AI Configuration → Web Search Provider, or set SERPER_API_KEY.";
+    }
+    return null;
+  }
+
+  async search(query: string): Promise<{ title: string; url: string; snippet: string; citations?: Citation[] }[]> {
+    const response = await fetch(this.baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-KEY": this.apiKey,
+      },
+      body: JSON.stringify({ q: query, num: this.num }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let reason = `HTTP ${response.status}`;
+      if (response.status === 401 || response.status === 403) reason = "Invalid or unauthorized API key";
+      else if (response.status === 429) reason = "Rate limit exceeded or credits used up";
+      throw new Error(`Serper search failed: ${reason}. Details: ${errorText.slice(0, 300)}`);
+    }
+
+    return parseSerperResults(await response.json());
+  }
+}
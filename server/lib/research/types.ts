@@ -30,7 +30,7 @@ export interface ResearchRequest {
   maxResults?: number;
 }
 
-export type ResearchMode = "azure_web_search" | "brave" | "serper" | "none";
+export type ResearchMode = "azure_web_search" | "brave" | "serper" | "fixture" | "none";
 
 export interface ResearchProvider {
   mode: ResearchMode;
@@ -0,0 +1,194 @@
+/**
+ * Sales process definitions — pure helpers.
+ *
+ * Each organization orders its own opportunity stages and gives each a
+ * default win probability and exit criteria. Organizations that have not
+ * defined a process use DEFAULT_SALES_PROCESS, the six stages every
+ * opportunity had before processes were configurable, with no criteria.
+ * The two closed stages keep fixed keys and always come last: analytics,
+ * lead conversion and imports depend on them.
+ */
+import {
+  STAGE_CRITERIA_FIELDS,
+  type SalesProcessStageInput,
+} from "@shared/schema";
+
+export const CLOSED_WON_STAGE = "closed_won";
+export const CLOSED_LOST_STAGE = "closed_lost";
+export const CLOSED_STAGES = [CLOSED_WON_STAGE, CLOSED_LOST_STAGE];
+
+export type ProcessStage = SalesProcessStageInput;
+
+const noCriteria = (): ProcessStage["exitCriteria"] => ({ requiredFields: [], requiredContactRoles: [] });
+
+export const DEFAULT_SALES_PROCESS: ProcessStage[] = [
+  { key: "prospecting", label: "Prospecting", probability: 10, exitCriteria: noCriteria() },
+  { key: "qualification", label: "Qualification", probability: 25, exitCriteria: noCriteria() },
+  { key: "proposal", label: "Proposal", probability: 60, exitCriteria: noCriteria() },
+  { key: "negotiation", label: "Negotiation", probability: 80, exitCriteria: noCriteria() },
+  { key: CLOSED_WON_STAGE, label: "Closed Won", probability: 100, exitCriteria: noCriteria() },
+  { key: CLOSED_LOST_STAGE, label: "Closed Lost", probability: 0, exitCriteria: noCriteria() },
+];
+
+const FIELD_LABELS: Record<typeof STAGE_CRITERIA_FIELDS[number], string> = {
+  amount: "Amount",
+  closeDate: "Close date",
+  ownerId: "Owner",
+  description: "Description",
+  estRevenue: "Estimated revenue",
+  estCloseDate: "Estimated close date",
+  implementationStartDate: "Implementation start date",
+  implementationEndDate: "Implementation end date",
+  billingEndDate: "Billing end date",
+};
+
+export function isClosedStage(key: string | null | undefined): boolean {
+  return !!key && CLOSED_STAGES.includes(key);
+}
+
+export function openStages(process: ProcessStage[]): ProcessStage[] {
+  return process.filter(stage => !isClosedStage(stage.key));
+}
+
+/** Default win probability per stage key, as a fraction. */
+export function stageProbabilities(process: ProcessStage[]): Record<string, number> {
+  return Object.fromEntries(process.map(stage => [stage.key, stage.probability / 100]));
+}
+
+export type StagePhase = "early" | "mid" | "late";
+
+/**
+ * Where each open stage sits in the pipeline, by its position among the open
+ * stages: the first half is early, the next quarter mid, the last quarter
+ * late. For the default process that is prospecting and qualification,
+ * proposal, then negotiation.
+ */
+export function stagePhases(process: ProcessStage[]): Record<string, StagePhase> {
+  const open = openStages(process);
+  return Object.fromEntries(open.map((stage, i) => {
+    const at = (i + 0.5) / open.length;
+    return [stage.key, at < 0.5 ? "early" : at < 0.75 ? "mid" : "late"];
+  }));
+}
+
+/** Open stages past the early phase — deals far enough along to predict. */
+export function lateOpenStages(process: ProcessStage[]): string[] {
+  const phases = stagePhases(process);
+  return Object.keys(phases).filter(key => phases[key] !== "early");
+}
+
+/**
+ * Problems with a process an admin submitted; empty when it can be saved.
+ * `customFieldKeys` are the organization's opportunity custom fields.
+ */
+export function validateSalesProcess(process: ProcessStage[], customFieldKeys: Set<string>): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const stage of process) {
+    if (seen.has(stage.key)) errors.push(`Stage key "${stage.key}" is used more than once`);
+    seen.add(stage.key);
+  }
+
+  const tail = process.slice(-2).map(stage => stage.key);
+  if (tail[0] !== CLOSED_WON_STAGE || tail[1] !== CLOSED_LOST_STAGE) {
+    errors.push(`The process must end with the ${CLOSED_WON_STAGE} and ${CLOSED_LOST_STAGE} stages`);
+  }
+  if (openStages(process).length === 0) errors.push("The process needs at least one open stage");
+
+  for (const stage of process) {
+    const criteria = stage.exitCriteria;
+    const hasCriteria = (criteria.requiredFields?.length ?? 0) + (criteria.requiredContactRoles?.length ?? 0) > 0;
+    if (isClosedStage(stage.key) && hasCriteria) {
+      errors.push(`${stage.label} is a closed stage and cannot have exit criteria`);
+    }
+    for (const field of criteria.requiredFields ?? []) {
+      const customKey = customFieldKey(field);
+      if (customKey !== null && !customFieldKeys.has(customKey)) {
+        errors.push(`${stage.label} requires unknown custom field "${customKey}"`);
+      }
+    }
+  }
+  return errors;
+}
+
+export interface StageRequirementIssue {
+  /** Key of the stage whose exit criteria are not met. */
+  stage: string;
+  /** Opportunity field, "customFields.<key>" or "contacts.<role>". */
+  field: string;
+  message: string;
+}
+
+/** What checkStageChange looks at: the opportunity as it would be saved. */
+export interface StageCheckSubject {
+  [field: string]: unknown;
+  customFields?: Record<string, unknown> | null;
+}
+
+/**
+ * Exit criteria an opportunity fails when moving from `fromKey` to `toKey`.
+ * Moving forward leaves every stage from the current one up to the target,
+ * so all of their criteria apply. Moving backward and closing as lost are
+ * never blocked. An opportunity that is new, closed or in a stage the
+ * process no longer has is checked from the first stage.
+ */
+export function checkStageChange(
+  process: ProcessStage[],
+  fromKey: string | null,
+  toKey: string,
+  opportunity: StageCheckSubject,
+  contactRoles: string[],
+  customFieldLabels: Record<string, string> = {},
+): StageRequirementIssue[] {
+  if (fromKey === toKey || toKey === CLOSED_LOST_STAGE) return [];
+  const target = process.findIndex(stage => stage.key === toKey);
+  if (target < 0) return [];
+  const current = isClosedStage(fromKey) ? -1 : process.findIndex(stage => stage.key === fromKey);
+  if (current >= 0 && target <= current) return [];
+  const start = Math.max(current, 0);
+
+  const roles = new Set(contactRoles);
+  const issues: StageRequirementIssue[] = [];
+  for (const stage of process.slice(start, target)) {
+    for (const field of stage.exitCriteria.requiredFields ?? []) {
+      const customKey = customFieldKey(field);
+      const value = customKey !== null ? opportunity.customFields?.[customKey] : opportunity[field];
+      if (isBlank(value)) {
+        const label = customKey !== null
+          ? customFieldLabels[customKey] ?? customKey
+          : FIELD_LABELS[field as keyof typeof FIELD_LABELS] ?? field;
+        issues.push({ stage: stage.key, field, message: `${label} is required to leave ${stage.label}` });
+      }
+    }
+    for (const role of stage.exitCriteria.requiredContactRoles ?? []) {
+      if (!roles.has(role)) {
+        issues.push({
+          stage: stage.key,
+          field: `contacts.${role}`,
+          message: `A contact with the ${contactRoleLabel(role)} role is required to leave ${stage.label}`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/** "economic_buyer" → "Economic Buyer" */
+export function contactRoleLabel(role: string): string {
+  return role.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+export function stageLabel(process: ProcessStage[], key: string): string {
+  return process.find(stage => stage.key === key)?.label ?? key;
+}
+
+function customFieldKey(field: string): string | null {
+  return field.startsWith("customFields.") ? field.slice("customFields.".length) : null;
+}
+
+function isBlank(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
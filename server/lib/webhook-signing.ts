@@ -0,0 +1,71 @@
+/**
+ * Webhook signing and retry scheduling — pure helpers shared by the delivery
+ * worker and by receivers that want to verify our signatures.
+ *
+ * Every delivery carries an `X-HTCRM-Signature` header of the form
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the HMAC is computed with the
+ * subscription secret over `${t}.${rawBody}`. Including the timestamp in the
+ * signed material lets receivers reject replayed deliveries.
+ */
+import crypto from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-HTCRM-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-HTCRM-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-HTCRM-Delivery";
+
+/** Attempts (including the first) before a delivery moves to dead_letter. */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header against the raw request body.
+ * Returns false for malformed headers, mismatched digests, or timestamps
+ * outside the tolerance window (default five minutes).
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  toleranceSeconds = 300,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(
+    header.split(",").map(p => {
+      const idx = p.indexOf("=");
+      return idx === -1 ? [p.trim(), ""] : [p.slice(0, idx).trim(), p.slice(idx + 1).trim()];
+    }),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(nowSeconds - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split("v1=")[1];
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(parts.v1, "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based count of attempts already made).
+ * Doubles from 30s and is capped at six hours.
+ */
+export function computeWebhookBackoffMs(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(BACKOFF_BASE_MS * 2 ** exponent, BACKOFF_MAX_MS);
+}
+
+/** Whether a subscription's event list matches an event name ("*" matches all). */
+export function webhookEventMatches(subscribed: string[], event: string): boolean {
+  return subscribed.includes("*") || subscribed.includes(event);
+}
@@ -0,0 +1,135 @@
+// LLM budget routes. Global admins set the active organization's monthly AI
+// token and cost limits in the Admin Console and see this month's usage
+// against them, and maintain the model price table every call is costed with.
+// Limits are enforced in llm-config-service.ts.
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireGlobalRole } from "./rbac";
+import { readRateLimiter, sensitiveRateLimiter } from "./rate-limiters";
+import { llmBudgetInputSchema, llmModelPriceInputSchema } from "@shared/schema";
+import { LlmBudgetError, getLlmBudget, getLlmBudgetStatus, saveLlmBudget } from "./llm-config-service";
+import { LlmUsageError, deleteLlmModelPrice, listLlmModelPrices, saveLlmModelPrice } from "./llm-usage-service";
+
+export function registerLlmBudgetRoutes(app: Express) {
+  // GET /api/admin/llm-budget — the organization's budget (null when unset) and this month's usage
+  app.get("/api/admin/llm-budget", authenticate, requireGlobalRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!req.activeOrgId) throw new LlmBudgetError("Active organization context required. Set X-Organization-Id header.");
+      return res.json(await getLlmBudgetStatus(req.activeOrgId));
+    } catch (error) {
+      if (error instanceof LlmBudgetError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching LLM budget:", error);
+      return res.status(500).json({ error: "Failed to fetch LLM budget" });
+    }
+  });
+
+  // PUT /api/admin/llm-budget — set the limits; null leaves a limit off
+  app.put("/api/admin/llm-budget", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!req.activeOrgId) throw new LlmBudgetError("Active organization context required. Set X-Organization-Id header.");
+      const input = llmBudgetInputSchema.parse(req.body);
+      const before = await getLlmBudget(req.activeOrgId);
+      const saved = await saveLlmBudget(req.activeOrgId, input, req.user!.id);
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: before ? "update" : "create",
+          resource: "LlmBudget",
+          resourceId: saved.id,
+          before: before ?? null,
+          after: saved,
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+      return res.json(await getLlmBudgetStatus(req.activeOrgId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof LlmBudgetError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error saving LLM budget:", error);
+      return res.status(500).json({ error: "Failed to save LLM budget" });
+    }
+  });
+
+  // GET /api/admin/llm-prices — the model prices in effect, admin-entered and built-in
+  app.get("/api/admin/llm-prices", authenticate, requireGlobalRole("Admin"), readRateLimiter, async (_req: AuthRequest, res) => {
+    try {
+      return res.json(await listLlmModelPrices());
+    } catch (error) {
+      console.error("Error fetching LLM prices:", error);
+      return res.status(500).json({ error: "Failed to fetch LLM prices" });
+    }
+  });
+
+  // PUT /api/admin/llm-prices — set a model's price, replacing any price for the same model name
+  app.put("/api/admin/llm-prices", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const input = llmModelPriceInputSchema.parse(req.body);
+      const before = (await listLlmModelPrices()).find(price => price.id && price.model === input.model);
+      const saved = await saveLlmModelPrice(input, req.user!.id);
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: before ? "update" : "create",
+          resource: "LlmModelPrice",
+          resourceId: saved.id,
+          before: before ?? null,
+          after: saved,
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+      return res.json(await listLlmModelPrices());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof LlmUsageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error saving LLM price:", error);
+      return res.status(500).json({ error: "Failed to save LLM price" });
+    }
+  });
+
+  // DELETE /api/admin/llm-prices/:id — remove an admin-entered price
+  app.delete("/api/admin/llm-prices/:id", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const removed = await deleteLlmModelPrice(req.params.id);
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: "delete",
+          resource: "LlmModelPrice",
+          resourceId: removed.id,
+          before: removed,
+          after: null,
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+      return res.json(await listLlmModelPrices());
+    } catch (error) {
+      if (error instanceof LlmUsageError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting LLM price:", error);
+      return res.status(500).json({ error: "Failed to delete LLM price" });
+    }
+  });
+}
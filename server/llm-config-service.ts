@@ -0,0 +1,200 @@
+// LLM configuration and usage budgets
+// Each organization runs its LLM calls with its own Admin Console configuration,
+// falling back to the default configuration (the row without an organization)
+// and then to the provider's API key env var. Every call is recorded against the
+// organization it ran for; once a month's usage passes the organization's budget
+// further calls are refused with LlmBudgetExceededError until the month rolls
+// over or the budget is raised.
+
+import { and, eq, gte, isNull, lt, sql } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import type { LlmBudget, LlmBudgetInput, LlmConfiguration, LlmUsageSource } from "@shared/schema";
+import { decryptApiKey, isEncryptedKey } from "./llm-key-utils";
+import { notifyLlmBudgetWarning } from "./notification-service";
+import { getEffectiveLlmPrices } from "./llm-usage-service";
+import {
+  budgetMonth,
+  describeLlmBudgetUsage,
+  estimateLlmCostUsd,
+  evaluateLlmBudget,
+  llmBudgetExceededReason,
+  type LlmBudgetLimits,
+  type LlmBudgetState,
+  type LlmMonthUsage,
+  type LlmTokenUsage,
+} from "./lib/llm-budget";
+
+export class LlmBudgetError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/** Thrown before an LLM call once the organization has used this month's budget. */
+export class LlmBudgetExceededError extends LlmBudgetError {
+  constructor(message: string) {
+    super(message, 429);
+  }
+}
+
+/** One call's tokens and estimated cost, as recorded. */
+export interface LlmCallUsage extends LlmTokenUsage {
+  costUsd: number;
+}
+
+/** Who an LLM call is charged to, and what it was for. */
+export interface LlmUsageContext {
+  organizationId: string;
+  source: LlmUsageSource;
+  runId?: string | null;
+  phase?: string | null;
+  userId?: string | null;
+}
+
+/**
+ * The organization's own LLM configuration, or the default configuration
+ * when it has none. Never another organization's.
+ */
+export async function resolveLlmConfiguration(organizationId: string | null | undefined): Promise<LlmConfiguration | undefined> {
+  if (organizationId) {
+    const [own] = await db.select().from(schema.llmConfigurations)
+      .where(eq(schema.llmConfigurations.organizationId, organizationId)).limit(1);
+    if (own) return own;
+  }
+  const [fallback] = await db.select().from(schema.llmConfigurations)
+    .where(isNull(schema.llmConfigurations.organizationId)).limit(1);
+  return fallback;
+}
+
+/** The configuration's stored key, decrypted, or the provider's env var key. */
+export function resolveLlmApiKey(cfg: LlmConfiguration): string | null {
+  let apiKey: string | null = null;
+  if (cfg.encryptedApiKey) {
+    try {
+      apiKey = isEncryptedKey(cfg.encryptedApiKey)
+        ? decryptApiKey(cfg.encryptedApiKey)
+        : cfg.encryptedApiKey;
+    } catch (e) {
+      console.warn("[LLM] Failed to decrypt LLM API key:", e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  if (!apiKey) {
+    if (cfg.provider === "openai") apiKey = process.env.OPENAI_API_KEY || null;
+    else if (cfg.provider === "anthropic") apiKey = process.env.ANTHROPIC_API_KEY || null;
+    else if (cfg.provider === "google") apiKey = process.env.GOOGLE_API_KEY || null;
+    else if (cfg.provider === "azure") apiKey = process.env.AZURE_OPENAI_API_KEY || null;
+  }
+  return apiKey;
+}
+
+export async function getLlmBudget(organizationId: string): Promise<LlmBudget | undefined> {
+  const [budget] = await db.select().from(schema.llmBudgets)
+    .where(eq(schema.llmBudgets.organizationId, organizationId)).limit(1);
+  return budget;
+}
+
+export async function saveLlmBudget(organizationId: string, input: LlmBudgetInput, updatedBy: string): Promise<LlmBudget> {
+  const values = {
+    monthlyTokenLimit: input.monthlyTokenLimit,
+    monthlyCostLimitUsd: input.monthlyCostLimitUsd === null ? null : input.monthlyCostLimitUsd.toFixed(2),
+    warnAtPercent: input.warnAtPercent,
+    updatedBy,
+    updatedAt: new Date(),
+  };
+  const [budget] = await db.insert(schema.llmBudgets)
+    .values({ organizationId, ...values })
+    .onConflictDoUpdate({ target: schema.llmBudgets.organizationId, set: values })
+    .returning();
+  return budget;
+}
+
+function budgetLimits(budget: LlmBudget | undefined): LlmBudgetLimits | null {
+  if (!budget) return null;
+  return {
+    monthlyTokenLimit: budget.monthlyTokenLimit,
+    monthlyCostLimitUsd: budget.monthlyCostLimitUsd === null ? null : parseFloat(budget.monthlyCostLimitUsd),
+    warnAtPercent: budget.warnAtPercent,
+  };
+}
+
+export interface LlmBudgetStatus {
+  budget: LlmBudget | null;
+  month: { start: Date; end: Date; label: string };
+  usage: LlmMonthUsage;
+  state: LlmBudgetState;
+  percentUsed: number | null;
+}
+
+export async function getLlmBudgetStatus(organizationId: string, now = new Date()): Promise<LlmBudgetStatus> {
+  const month = budgetMonth(now);
+  const [budget, [totals]] = await Promise.all([
+    getLlmBudget(organizationId),
+    db.select({
+      tokens: sql<number>`coalesce(sum(${schema.llmUsageEvents.totalTokens}), 0)::bigint`,
+      costUsd: sql<string>`coalesce(sum(${schema.llmUsageEvents.costUsd}), 0)`,
+    })
+      .from(schema.llmUsageEvents)
+      .where(and(
+        eq(schema.llmUsageEvents.organizationId, organizationId),
+        gte(schema.llmUsageEvents.createdAt, month.start),
+        lt(schema.llmUsageEvents.createdAt, month.end),
+      )),
+  ]);
+  const usage = { tokens: Number(totals?.tokens ?? 0), costUsd: parseFloat(String(totals?.costUsd ?? 0)) };
+  return { budget: budget ?? null, month, usage, ...evaluateLlmBudget(budgetLimits(budget), usage) };
+}
+
+/** Throws LlmBudgetExceededError when the organization has no budget left this month. */
+export async function assertLlmBudgetAvailable(organizationId: string): Promise<void> {
+  const status = await getLlmBudgetStatus(organizationId);
+  if (status.state !== "exceeded") return;
+  throw new LlmBudgetExceededError(llmBudgetExceededReason(budgetLimits(status.budget!)!, status.usage, status.month.label));
+}
+
+/**
+ * Record one LLM call's usage and warn the organization's admins when it
+ * crosses the budget's warning threshold or uses the budget up. Returns what
+ * was recorded, or null when the response reported no usage. Never throws:
+ * a failure to record must not fail the call that already succeeded.
+ */
+export async function recordLlmUsage(ctx: LlmUsageContext, provider: string, model: string, usage: LlmTokenUsage | null): Promise<LlmCallUsage | null> {
+  try {
+    const tokens = usage ?? { promptTokens: 0, completionTokens: 0, reasoningTokens: 0 };
+    const costUsd = estimateLlmCostUsd(model, tokens, await getEffectiveLlmPrices());
+    await db.insert(schema.llmUsageEvents).values({
+      organizationId: ctx.organizationId,
+      source: ctx.source,
+      runId: ctx.runId ?? null,
+      phase: ctx.phase ?? null,
+      userId: ctx.userId ?? null,
+      provider,
+      model,
+      promptTokens: tokens.promptTokens,
+      completionTokens: tokens.completionTokens,
+      reasoningTokens: tokens.reasoningTokens,
+      totalTokens: tokens.promptTokens + tokens.completionTokens,
+      costUsd: costUsd.toFixed(6),
+    });
+    const recorded = usage ? { ...usage, costUsd } : null;
+
+    const status = await getLlmBudgetStatus(ctx.organizationId);
+    if (status.state !== "warning" && status.state !== "exceeded") return recorded;
+    const limits = budgetLimits(status.budget!)!;
+    const monthKey = status.month.start.toISOString().slice(0, 7);
+    if (status.state === "exceeded") {
+      notifyLlmBudgetWarning(ctx.organizationId, monthKey, "exceeded",
+        `AI budget for ${status.month.label} used up`,
+        llmBudgetExceededReason(limits, status.usage, status.month.label));
+    } else {
+      notifyLlmBudgetWarning(ctx.organizationId, monthKey, "warning",
+        `AI usage at ${Math.floor(status.percentUsed!)}% of the ${status.month.label} budget`,
+        `This organization has used ${describeLlmBudgetUsage(limits, status.usage)}. AI features stop when the budget runs out.`);
+    }
+    return recorded;
+  } catch (err) {
+    console.error(`[LLM] Failed to record usage for organization ${ctx.organizationId}:`, err);
+    return null;
+  }
+}
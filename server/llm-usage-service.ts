@@ -0,0 +1,168 @@
+// LLM token and cost accounting
+// The model price table every recorded call is costed with (the built-in list
+// prices, overridden or extended by global admins), and roll-ups of recorded
+// usage per lead generation run and phase, and per organization, user, source
+// and run over a date range.
+
+import { and, desc, eq, gte, inArray, isNotNull, lt, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import type { LlmModelPriceInput, LlmModelPriceRow } from "@shared/schema";
+import { DEFAULT_LLM_PRICES, mergeLlmPrices, toLlmUsageTotals, type LlmModelPrice, type LlmUsageTotals } from "./lib/llm-budget";
+
+export class LlmUsageError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// ---------- Model prices ----------
+
+// Calls are costed from a cached copy; saving a price drops it, and other
+// processes pick the change up within the minute
+const PRICE_CACHE_MS = 60_000;
+let cachedPrices: { prices: Record<string, LlmModelPrice>; loadedAt: number } | null = null;
+
+export async function getEffectiveLlmPrices(): Promise<Record<string, LlmModelPrice>> {
+  if (cachedPrices && Date.now() - cachedPrices.loadedAt < PRICE_CACHE_MS) return cachedPrices.prices;
+  const rows = await db.select().from(schema.llmModelPrices);
+  const prices = mergeLlmPrices(rows.map(row => ({
+    model: row.model,
+    input: parseFloat(row.inputPerMillionUsd),
+    output: parseFloat(row.outputPerMillionUsd),
+  })));
+  cachedPrices = { prices, loadedAt: Date.now() };
+  return prices;
+}
+
+export interface LlmModelPriceView {
+  model: string;
+  inputPerMillionUsd: number;
+  outputPerMillionUsd: number;
+  /** The admin-entered row, when there is one; null for an untouched list price. */
+  id: string | null;
+  isDefault: boolean;
+}
+
+/** Every price in effect: admin-entered rows first, then the list prices they don't replace. */
+export async function listLlmModelPrices(): Promise<LlmModelPriceView[]> {
+  const rows = await db.select().from(schema.llmModelPrices).orderBy(schema.llmModelPrices.model);
+  const custom = rows.map(row => ({
+    model: row.model,
+    inputPerMillionUsd: parseFloat(row.inputPerMillionUsd),
+    outputPerMillionUsd: parseFloat(row.outputPerMillionUsd),
+    id: row.id,
+    isDefault: false,
+  }));
+  const replaced = new Set(custom.map(price => price.model));
+  const defaults = Object.entries(DEFAULT_LLM_PRICES)
+    .filter(([model]) => !replaced.has(model))
+    .map(([model, price]) => ({ model, inputPerMillionUsd: price.input, outputPerMillionUsd: price.output, id: null, isDefault: true }));
+  return [...custom, ...defaults];
+}
+
+export async function saveLlmModelPrice(input: LlmModelPriceInput, updatedBy: string): Promise<LlmModelPriceRow> {
+  const values = {
+    inputPerMillionUsd: input.inputPerMillionUsd.toFixed(4),
+    outputPerMillionUsd: input.outputPerMillionUsd.toFixed(4),
+    updatedBy,
+    updatedAt: new Date(),
+  };
+  const [row] = await db.insert(schema.llmModelPrices)
+    .values({ model: input.model, ...values })
+    .onConflictDoUpdate({ target: schema.llmModelPrices.model, set: values })
+    .returning();
+  cachedPrices = null;
+  return row;
+}
+
+/** Removes an admin-entered price; a list price for the same model applies again. */
+export async function deleteLlmModelPrice(id: string): Promise<LlmModelPriceRow> {
+  const [row] = await db.delete(schema.llmModelPrices).where(eq(schema.llmModelPrices.id, id)).returning();
+  if (!row) throw new LlmUsageError("Price not found", 404);
+  cachedPrices = null;
+  return row;
+}
+
+// ---------- Roll-ups ----------
+
+const events = schema.llmUsageEvents;
+
+const totalsColumns = {
+  calls: sql<number>`count(*)::int`,
+  promptTokens: sql<string>`coalesce(sum(${events.promptTokens}), 0)::bigint`,
+  completionTokens: sql<string>`coalesce(sum(${events.completionTokens}), 0)::bigint`,
+  reasoningTokens: sql<string>`coalesce(sum(${events.reasoningTokens}), 0)::bigint`,
+  totalTokens: sql<string>`coalesce(sum(${events.totalTokens}), 0)::bigint`,
+  costUsd: sql<string>`coalesce(sum(${events.costUsd}), 0)`,
+};
+
+async function totalsBy<K extends PgColumn>(where: SQL | undefined, key: K) {
+  const rows = await db.select({ key, ...totalsColumns })
+    .from(events)
+    .where(where)
+    .groupBy(key)
+    .orderBy(desc(sql`sum(${events.costUsd})`), desc(sql`sum(${events.totalTokens})`));
+  return rows.map(({ key, ...totals }) => ({ key: key as string | null, ...toLlmUsageTotals(totals) }));
+}
+
+export interface RunLlmUsage {
+  totals: LlmUsageTotals;
+  byPhase: Array<{ phase: string | null } & LlmUsageTotals>;
+}
+
+export async function getRunLlmUsage(runId: string): Promise<RunLlmUsage> {
+  const where = eq(events.runId, runId);
+  const [[totals], byPhase] = await Promise.all([
+    db.select(totalsColumns).from(events).where(where),
+    totalsBy(where, events.phase),
+  ]);
+  return {
+    totals: toLlmUsageTotals(totals),
+    byPhase: byPhase.map(({ key, ...rest }) => ({ phase: key, ...rest })),
+  };
+}
+
+export interface OrganizationLlmUsage {
+  from: Date;
+  to: Date;
+  totals: LlmUsageTotals;
+  bySource: Array<{ source: string } & LlmUsageTotals>;
+  byPhase: Array<{ phase: string | null } & LlmUsageTotals>;
+  byUser: Array<{ userId: string | null; userName: string | null } & LlmUsageTotals>;
+  byRun: Array<{ runId: string; runName: string | null } & LlmUsageTotals>;
+}
+
+/** Usage the organization recorded in [from, to), overall and broken down; the top 50 runs. */
+export async function getOrganizationLlmUsage(organizationId: string, from: Date, to: Date): Promise<OrganizationLlmUsage> {
+  if (!(from < to)) throw new LlmUsageError("The start of the range must be before its end");
+  const where = and(eq(events.organizationId, organizationId), gte(events.createdAt, from), lt(events.createdAt, to));
+
+  const [[totals], bySource, byPhase, byUser, byRun] = await Promise.all([
+    db.select(totalsColumns).from(events).where(where),
+    totalsBy(where, events.source),
+    totalsBy(and(where, eq(events.source, "lead_gen")), events.phase),
+    totalsBy(where, events.userId),
+    totalsBy(and(where, isNotNull(events.runId)), events.runId),
+  ]);
+
+  const userIds = byUser.map(row => row.key).filter((id): id is string => !!id);
+  const runIds = byRun.slice(0, 50).map(row => row.key!).filter(Boolean);
+  const [users, runs] = await Promise.all([
+    userIds.length ? db.select({ id: schema.users.id, name: schema.users.name }).from(schema.users).where(inArray(schema.users.id, userIds)) : [],
+    runIds.length ? db.select({ id: schema.leadGenerationRuns.id, name: schema.leadGenerationRuns.name }).from(schema.leadGenerationRuns).where(inArray(schema.leadGenerationRuns.id, runIds)) : [],
+  ]);
+  const userNames = new Map(users.map(user => [user.id, user.name]));
+  const runNames = new Map(runs.map(run => [run.id, run.name]));
+
+  return {
+    from,
+    to,
+    totals: toLlmUsageTotals(totals),
+    bySource: bySource.map(({ key, ...rest }) => ({ source: key ?? "unknown", ...rest })),
+    byPhase: byPhase.map(({ key, ...rest }) => ({ phase: key, ...rest })),
+    byUser: byUser.map(({ key, ...rest }) => ({ userId: key, userName: key ? userNames.get(key) ?? null : null, ...rest })),
+    byRun: byRun.slice(0, 50).map(({ key, ...rest }) => ({ runId: key!, runName: runNames.get(key!) ?? null, ...rest })),
+  };
+}
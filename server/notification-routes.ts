@@ -0,0 +1,112 @@
+// In-app notification inbox and preference routes. Every route acts on the
+// signed-in user's own notifications; the inbox is filtered to the active
+// organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { authenticate, type AuthRequest } from "./auth";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import { NOTIFICATION_TYPES, updateNotificationPreferencesSchema } from "@shared/schema";
+import {
+  countUnreadNotifications,
+  getNotificationPreferences,
+  listNotifications,
+  markAllNotificationsRead,
+  setNotificationRead,
+  updateNotificationPreferences,
+} from "./notification-service";
+import { isEmailConfigured } from "./email-service";
+
+const listQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  before: z.coerce.date().optional(),
+});
+
+const markReadSchema = z.object({ read: z.boolean() });
+
+export function registerNotificationRoutes(app: Express) {
+  // GET /api/notifications — newest first; ?unread=true, ?limit=, ?before=<ISO date> for paging
+  app.get("/api/notifications", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const notifications = await listNotifications(req.user!.id, req.activeOrgId, {
+        unreadOnly: query.unread === "true",
+        limit: query.limit,
+        before: query.before,
+      });
+      return res.json(notifications);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching notifications:", error);
+      return res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // GET /api/notifications/unread-count — polled by the bell in the app header
+  app.get("/api/notifications/unread-count", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json({ count: await countUnreadNotifications(req.user!.id, req.activeOrgId) });
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+      return res.status(500).json({ error: "Failed to count notifications" });
+    }
+  });
+
+  // POST /api/notifications/mark-all-read
+  app.post("/api/notifications/mark-all-read", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const updated = await markAllNotificationsRead(req.user!.id, req.activeOrgId);
+      return res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      return res.status(500).json({ error: "Failed to mark notifications read" });
+    }
+  });
+
+  // GET /api/notifications/preferences — types the user has turned off and their email digest frequency
+  app.get("/api/notifications/preferences", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const preferences = await getNotificationPreferences(req.user!.id);
+      return res.json({ ...preferences, types: NOTIFICATION_TYPES, emailConfigured: isEmailConfigured() });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      return res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  // PUT /api/notifications/preferences — { disabledTypes?: [...], emailDigest?: "off" | "daily" | "weekly" }
+  app.put("/api/notifications/preferences", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updateNotificationPreferencesSchema.parse(req.body);
+      const preferences = await updateNotificationPreferences(req.user!.id, data);
+      return res.json({ ...preferences, types: NOTIFICATION_TYPES, emailConfigured: isEmailConfigured() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      return res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  // PATCH /api/notifications/:id — { read: true | false }
+  app.patch("/api/notifications/:id", authenticate, crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const { read } = markReadSchema.parse(req.body);
+      const notification = await setNotificationRead(req.params.id, req.user!.id, read);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      return res.json(notification);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error updating notification:", error);
+      return res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+}
@@ -0,0 +1,348 @@
+// In-app notification service
+// Produces notifications for comment mentions, replies to subscribed threads,
+// record reassignment, overdue activities, finished lead-gen runs and LLM
+// budget warnings, honouring each recipient's notification preferences.
+// Producers are fire-and-forget: a failure to notify is logged and never
+// fails the request that caused it.
+
+import { db, eq, and, desc, inArray, lte, gte, sql } from "./db";
+import { isNotNull, isNull, or, type SQL } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { EmailDigestFrequency, InsertNotification, Notification, NotificationType } from "@shared/schema";
+import {
+  commentRecipients,
+  isNotificationEnabled,
+  notificationLink,
+  overdueDedupeKey,
+  reassignedOwnerId,
+} from "./lib/notification-rules";
+
+// Overdue activities older than this are assumed to have been notified (or to
+// predate the feature) and are not swept again.
+const OVERDUE_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const OVERDUE_BATCH_SIZE = 500;
+const EXCERPT_LENGTH = 200;
+
+const REASSIGNABLE_RESOURCES = new Set(["Account", "Contact", "Lead", "Opportunity", "Activity"]);
+const REASSIGN_ACTIONS = new Set(["update", "bulk_update", "external_api_patch"]);
+
+function excerpt(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 1)}…` : flat;
+}
+
+/** Human-readable name for a CRM record, used in notification titles. */
+function recordLabel(resource: string, record: any): string {
+  if (!record) return resource;
+  if (resource === "Contact" || resource === "Lead") {
+    const name = [record.firstName, record.lastName].filter(Boolean).join(" ");
+    return name || record.id;
+  }
+  if (resource === "Activity") return record.subject || record.id;
+  return record.name || record.id;
+}
+
+async function userName(userId: string | null | undefined): Promise<string> {
+  if (!userId) return "Someone";
+  const [user] = await db.select({ name: schema.users.name }).from(schema.users).where(eq(schema.users.id, userId));
+  return user?.name ?? "Someone";
+}
+
+/**
+ * Insert notifications for recipients who exist and have the type enabled.
+ * Rows with a dedupe key that was already used for that user are skipped.
+ */
+export async function createNotifications(inputs: InsertNotification[]): Promise<number> {
+  if (inputs.length === 0) return 0;
+
+  const userIds = Array.from(new Set(inputs.map(n => n.userId)));
+  const [users, preferences] = await Promise.all([
+    db.select({ id: schema.users.id }).from(schema.users).where(inArray(schema.users.id, userIds)),
+    db.select().from(schema.notificationPreferences).where(inArray(schema.notificationPreferences.userId, userIds)),
+  ]);
+  const existing = new Set(users.map(u => u.id));
+  const disabled = new Map(preferences.map(p => [p.userId, p.disabledTypes]));
+
+  const rows = inputs.filter(n => existing.has(n.userId) && isNotificationEnabled(n.type, disabled.get(n.userId)));
+  if (rows.length === 0) return 0;
+
+  const inserted = await db.insert(schema.notifications).values(rows).onConflictDoNothing().returning({ id: schema.notifications.id });
+  return inserted.length;
+}
+
+function fireAndForget(label: string, work: () => Promise<unknown>): void {
+  work().catch(err => {
+    console.error(`[NOTIFICATIONS] Failed to create ${label} notifications:`, err);
+  });
+}
+
+// ========== PRODUCERS ==========
+
+/** Mentions in a new comment, and replies to threads the recipient subscribed to. */
+export function notifyCommentCreated(comment: schema.Comment, organizationId: string | null | undefined): void {
+  fireAndForget("comment", async () => {
+    // A thread is the chain of ancestors (comments are at most three levels deep)
+    const ancestorIds: string[] = [];
+    let parentId = comment.parentId;
+    while (parentId && ancestorIds.length < 3) {
+      ancestorIds.push(parentId);
+      const [parent] = await db.select({ parentId: schema.comments.parentId }).from(schema.comments).where(eq(schema.comments.id, parentId));
+      parentId = parent?.parentId ?? null;
+    }
+    const subscriptions = ancestorIds.length > 0
+      ? await db.select({ userId: schema.commentSubscriptions.userId }).from(schema.commentSubscriptions)
+          .where(inArray(schema.commentSubscriptions.commentId, ancestorIds))
+      : [];
+
+    const recipients = commentRecipients(comment.createdBy, comment.mentions, subscriptions.map(s => s.userId));
+    const author = await userName(comment.createdBy);
+    const base = {
+      organizationId: organizationId ?? null,
+      body: excerpt(comment.body),
+      entity: comment.entity,
+      entityId: comment.entityId,
+      link: notificationLink(comment.entity, comment.entityId),
+      actorId: comment.createdBy,
+    };
+
+    await createNotifications([
+      ...recipients.mention.map(userId => ({
+        ...base,
+        userId,
+        type: "mention" as const,
+        title: `${author} mentioned you in a comment on a ${comment.entity.toLowerCase()}`,
+      })),
+      ...recipients.comment_reply.map(userId => ({
+        ...base,
+        userId,
+        type: "comment_reply" as const,
+        title: `${author} replied to a thread you follow on a ${comment.entity.toLowerCase()}`,
+      })),
+    ]);
+  });
+}
+
+/**
+ * Tell the new owner when an update moves a record to them. Called from the
+ * audit hook, so every update path (single, bulk, external API) is covered.
+ */
+export function notifyRecordReassigned(input: {
+  resource: string;
+  action: string;
+  before: any;
+  after: any;
+  actorId: string | null | undefined;
+  organizationId: string | null | undefined;
+}): void {
+  if (!REASSIGNABLE_RESOURCES.has(input.resource) || !REASSIGN_ACTIONS.has(input.action)) return;
+  const newOwnerId = reassignedOwnerId(input.before, input.after, input.actorId);
+  if (!newOwnerId) return;
+
+  fireAndForget("reassignment", async () => {
+    const actor = input.actorId ? await userName(input.actorId) : "An API integration";
+    const entityId = input.after.id ?? input.before.id;
+    await createNotifications([{
+      userId: newOwnerId,
+      organizationId: input.organizationId ?? input.after.organizationId ?? null,
+      type: "record_assigned",
+      title: `${actor} assigned ${input.resource.toLowerCase()} "${recordLabel(input.resource, input.after)}" to you`,
+      entity: input.resource,
+      entityId,
+      link: notificationLink(input.resource, entityId),
+      actorId: input.actorId ?? null,
+    }]);
+  });
+}
+
+/** Tell a user an assignment rule routed a new lead to them. */
+export function notifyLeadRouted(lead: Pick<schema.Lead, "id" | "firstName" | "lastName" | "organizationId">, ownerId: string, ruleName: string): void {
+  fireAndForget("lead routing", async () => {
+    await createNotifications([{
+      userId: ownerId,
+      organizationId: lead.organizationId,
+      type: "record_assigned",
+      title: `New lead "${recordLabel("Lead", lead)}" was routed to you by rule "${ruleName}"`,
+      entity: "Lead",
+      entityId: lead.id,
+      link: notificationLink("Lead", lead.id),
+      actorId: null,
+    }]);
+  });
+}
+
+/**
+ * Notify owners of pending activities whose due date has passed. Each
+ * activity notifies once per due date (see overdueDedupeKey).
+ */
+export async function notifyOverdueActivities(now = new Date()): Promise<number> {
+  const overdue = await db.select({
+    id: schema.activities.id,
+    organizationId: schema.activities.organizationId,
+    subject: schema.activities.subject,
+    ownerId: schema.activities.ownerId,
+    dueAt: schema.activities.dueAt,
+  }).from(schema.activities)
+    .where(and(
+      eq(schema.activities.status, "pending"),
+      isNotNull(schema.activities.ownerId),
+      lte(schema.activities.dueAt, now),
+      gte(schema.activities.dueAt, new Date(now.getTime() - OVERDUE_LOOKBACK_MS)),
+    ))
+    .limit(OVERDUE_BATCH_SIZE);
+
+  return createNotifications(overdue.map(activity => ({
+    userId: activity.ownerId!,
+    organizationId: activity.organizationId,
+    type: "activity_overdue" as const,
+    title: `Activity overdue: ${activity.subject}`,
+    body: `Was due ${activity.dueAt!.toISOString()}`,
+    entity: "Activity",
+    entityId: activity.id,
+    link: notificationLink("Activity", activity.id),
+    dedupeKey: overdueDedupeKey(activity.id, activity.dueAt!),
+  })));
+}
+
+/**
+ * Notify a lead-gen run's owner (and creator) once the pipeline stops.
+ * Completed runs and errored runs notify; stopped runs do not.
+ */
+export async function notifyLeadGenRunFinished(runId: string, thrownError?: string): Promise<void> {
+  try {
+    const [run] = await db.select().from(schema.leadGenerationRuns).where(eq(schema.leadGenerationRuns.id, runId));
+    if (!run) return;
+
+    const failed = !!thrownError || run.status === "error";
+    if (!failed && run.status !== "complete") return;
+
+    const type: NotificationType = failed ? "lead_gen_run_failed" : "lead_gen_run_completed";
+    const recipients = Array.from(new Set([run.ownerId, run.createdBy].filter((id): id is string => !!id)));
+    await createNotifications(recipients.map(userId => ({
+      userId,
+      organizationId: run.organizationId,
+      type,
+      title: failed
+        ? `Lead generation run "${run.name}" failed${run.errorPhase ? ` during ${run.errorPhase.replace(/_/g, " ")}` : ""}`
+        : `Lead generation run "${run.name}" finished with ${run.candidateCount} candidate leads`,
+      body: failed ? excerpt(thrownError ?? run.errorReason) : null,
+      entity: "LeadGenerationRun",
+      entityId: run.id,
+      link: notificationLink("LeadGenerationRun", run.id),
+    })));
+  } catch (err) {
+    console.error(`[NOTIFICATIONS] Failed to create lead-gen run notifications for ${runId}:`, err);
+  }
+}
+
+/**
+ * Tell an organization's admins its LLM usage passed the budget's warning
+ * threshold or used it up — each at most once per month.
+ */
+export function notifyLlmBudgetWarning(organizationId: string, monthKey: string, level: "warning" | "exceeded", title: string, body: string): void {
+  fireAndForget("LLM budget", async () => {
+    const admins = await db.select({ userId: schema.userOrganizations.userId })
+      .from(schema.userOrganizations)
+      .innerJoin(schema.roles, eq(schema.userOrganizations.roleId, schema.roles.id))
+      .where(and(eq(schema.userOrganizations.organizationId, organizationId), eq(schema.roles.name, "Admin")));
+    await createNotifications(admins.map(({ userId }) => ({
+      userId,
+      organizationId,
+      type: "llm_budget_warning" as const,
+      title,
+      body,
+      link: "/admin",
+      dedupeKey: `llm_budget:${organizationId}:${monthKey}:${level}`,
+    })));
+  });
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+/** Start the periodic overdue-activity sweep (idempotent). */
+export function startNotificationWorker(intervalMs = 5 * 60_000): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => {
+    notifyOverdueActivities().catch(err => {
+      console.error("[NOTIFICATIONS] Overdue sweep error:", err);
+    });
+  }, intervalMs);
+  workerTimer.unref();
+}
+
+// ========== INBOX ==========
+
+// The inbox shows the active organization's notifications plus org-less ones
+function inboxConditions(userId: string, orgId: string | null | undefined): SQL[] {
+  const conditions: SQL[] = [eq(schema.notifications.userId, userId)];
+  if (orgId) {
+    conditions.push(or(eq(schema.notifications.organizationId, orgId), isNull(schema.notifications.organizationId))!);
+  }
+  return conditions;
+}
+
+export async function listNotifications(
+  userId: string,
+  orgId: string | null | undefined,
+  options: { unreadOnly?: boolean; limit?: number; before?: Date } = {},
+): Promise<Notification[]> {
+  const conditions = inboxConditions(userId, orgId);
+  if (options.unreadOnly) conditions.push(isNull(schema.notifications.readAt));
+  if (options.before) conditions.push(sql`${schema.notifications.createdAt} < ${options.before}`);
+  return db.select().from(schema.notifications)
+    .where(and(...conditions))
+    .orderBy(desc(schema.notifications.createdAt))
+    .limit(options.limit ?? 50);
+}
+
+export async function countUnreadNotifications(userId: string, orgId: string | null | undefined): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(schema.notifications)
+    .where(and(...inboxConditions(userId, orgId), isNull(schema.notifications.readAt)));
+  return row?.count ?? 0;
+}
+
+/** Mark one notification read or unread. Returns undefined if it isn't the user's. */
+export async function setNotificationRead(id: string, userId: string, read: boolean): Promise<Notification | undefined> {
+  const [notification] = await db.update(schema.notifications)
+    .set({ readAt: read ? new Date() : null })
+    .where(and(eq(schema.notifications.id, id), eq(schema.notifications.userId, userId)))
+    .returning();
+  return notification;
+}
+
+export async function markAllNotificationsRead(userId: string, orgId: string | null | undefined): Promise<number> {
+  const updated = await db.update(schema.notifications)
+    .set({ readAt: new Date() })
+    .where(and(...inboxConditions(userId, orgId), isNull(schema.notifications.readAt)))
+    .returning({ id: schema.notifications.id });
+  return updated.length;
+}
+
+export interface NotificationPreferenceSettings {
+  disabledTypes: NotificationType[];
+  emailDigest: EmailDigestFrequency;
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferenceSettings> {
+  const [prefs] = await db.select().from(schema.notificationPreferences).where(eq(schema.notificationPreferences.userId, userId));
+  return { disabledTypes: prefs?.disabledTypes ?? [], emailDigest: prefs?.emailDigest ?? "off" };
+}
+
+/** Upsert the provided settings; omitted settings keep their current value. */
+export async function updateNotificationPreferences(
+  userId: string,
+  data: schema.UpdateNotificationPreferences,
+): Promise<NotificationPreferenceSettings> {
+  const changes: Partial<typeof schema.notificationPreferences.$inferInsert> = {};
+  if (data.disabledTypes) changes.disabledTypes = Array.from(new Set(data.disabledTypes));
+  if (data.emailDigest) changes.emailDigest = data.emailDigest;
+
+  const [prefs] = await db.insert(schema.notificationPreferences)
+    .values({ userId, ...changes })
+    .onConflictDoUpdate({
+      target: schema.notificationPreferences.userId,
+      set: { ...changes, updatedAt: new Date() },
+    })
+    .returning();
+  return { disabledTypes: prefs.disabledTypes, emailDigest: prefs.emailDigest };
+}
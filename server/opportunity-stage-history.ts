@@ -0,0 +1,81 @@
+// Opportunity stage history
+// Records every change to an opportunity's stage, amount, probability or
+// close date with the actor and the path it came through (UI, bulk update,
+// external API key, import, restore). Analytics read transitions from here
+// instead of re-parsing audit log JSON.
+
+import { db, eq, asc } from "./db";
+import * as schema from "@shared/schema";
+import type { OpportunityStageHistory, InsertOpportunityStageHistory } from "@shared/schema";
+import {
+  buildOpportunityStageHistoryRow,
+  type OpportunityChangeSource,
+  type TrackedValues,
+} from "./lib/opportunity-stage-diff";
+
+/**
+ * Record a tracked opportunity change. Never throws — history is best-effort
+ * alongside audit logging and must not fail the originating request.
+ */
+export async function recordOpportunityChange(input: {
+  before: TrackedValues | null | undefined;
+  after: TrackedValues;
+  source: OpportunityChangeSource;
+  actorId?: string | null;
+  apiKeyId?: string | null;
+  auditLogId?: string | null;
+}): Promise<void> {
+  try {
+    const opportunityId = input.after.id ?? input.before?.id;
+    if (!opportunityId) return;
+    const row = buildOpportunityStageHistoryRow({
+      ...input,
+      opportunityId,
+      organizationId: input.after.organizationId ?? input.before?.organizationId ?? null,
+    });
+    if (!row) return;
+    await db.insert(schema.opportunityStageHistory).values(row).onConflictDoNothing();
+  } catch (error) {
+    console.error("[StageHistory] Failed to record opportunity change:", error);
+  }
+}
+
+export async function getOpportunityStageHistory(opportunityId: string): Promise<OpportunityStageHistory[]> {
+  return db.select().from(schema.opportunityStageHistory)
+    .where(eq(schema.opportunityStageHistory.opportunityId, opportunityId))
+    .orderBy(asc(schema.opportunityStageHistory.changedAt));
+}
+
+/**
+ * After a restore, add a "restore" baseline row for every opportunity whose
+ * latest history entry does not reflect its restored values (including
+ * backups taken before stage history existed).
+ */
+export async function recordRestoredOpportunityBaselines(tx: typeof db): Promise<number> {
+  const [opportunities, history] = await Promise.all([
+    tx.select().from(schema.opportunities),
+    tx.select().from(schema.opportunityStageHistory).orderBy(asc(schema.opportunityStageHistory.changedAt)),
+  ]);
+  const latest = new Map<string, OpportunityStageHistory>();
+  for (const row of history) latest.set(row.opportunityId, row);
+
+  const rows: InsertOpportunityStageHistory[] = [];
+  for (const opp of opportunities) {
+    const last = latest.get(opp.id);
+    const before = last
+      ? { stage: last.toStage, amount: last.toAmount, probability: last.toProbability, closeDate: last.toCloseDate }
+      : null;
+    const row = buildOpportunityStageHistoryRow({
+      opportunityId: opp.id,
+      organizationId: opp.organizationId ?? null,
+      before,
+      after: opp,
+      source: "restore",
+    });
+    if (row) rows.push(row);
+  }
+  for (let i = 0; i < rows.length; i += 50) {
+    await tx.insert(schema.opportunityStageHistory).values(rows.slice(i, i + 50));
+  }
+  return rows.length;
+}
@@ -0,0 +1,384 @@
+// Per-organization backup and restore
+// Exports one tenant's CRM data (see lib/org-backup.ts for the table list) as
+// an encrypted ZIP, and restores it into a new or empty organization, here or
+// in another deployment. Rows get new ids from the target's idPatterns and
+// users are matched by email, so other tenants' data is never touched.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { eq, getTableColumns, inArray, sql } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { db, storage } from "./db";
+import * as schema from "@shared/schema";
+import { backupService } from "./backup-service";
+import { initializeOrgSettings } from "./seed";
+import {
+  ORG_BACKUP_TABLES,
+  ORG_BACKUP_VERSION,
+  collectReferencedUserIds,
+  polymorphicTable,
+  remapOrgBackup,
+  type OrgBackupData,
+  type OrgTableSpec,
+} from "./lib/org-backup";
+
+export class OrgBackupError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "OrgBackupError";
+  }
+}
+
+const ORG_SNAPSHOT_NAME = "org-backup.htb";
+const DOCUMENT_UPLOAD_DIR = "uploads/documents";
+const SELECT_CHUNK_SIZE = 500;
+const INSERT_BATCH_SIZE = 50;
+
+type Executor = typeof db;
+
+function tableFor(key: string): PgTable {
+  return (schema as unknown as Record<string, PgTable>)[key];
+}
+
+function idsOf(rows: any[]): string[] {
+  return rows.map(row => row.id);
+}
+
+async function selectWhereIn(key: string, column: string, ids: string[]): Promise<any[]> {
+  if (ids.length === 0) return [];
+  const table = tableFor(key);
+  const target = getTableColumns(table)[column];
+  const rows: any[] = [];
+  for (let i = 0; i < ids.length; i += SELECT_CHUNK_SIZE) {
+    rows.push(...await db.select().from(table).where(inArray(target, ids.slice(i, i + SELECT_CHUNK_SIZE))));
+  }
+  return rows;
+}
+
+function uniqueById(rows: any[]): any[] {
+  return [...new Map(rows.map(row => [row.id, row])).values()];
+}
+
+// ---------- Export ----------
+
+/**
+ * How rows of each table are found for an organization. Tables without an
+ * entry here are selected by organization_id; the rest hang off a parent
+ * table that is exported earlier.
+ */
+const CHILD_SELECTORS: Record<string, (data: Record<string, any[]>) => Promise<any[]>> = {
+  priceBookEntries: data => selectWhereIn("priceBookEntries", "priceBookId", idsOf(data.priceBooks)),
+  activityAssociations: data => selectWhereIn("activityAssociations", "activityId", idsOf(data.activities)),
+  opportunityContacts: data => selectWhereIn("opportunityContacts", "opportunityId", idsOf(data.opportunities)),
+  opportunityResources: data => selectWhereIn("opportunityResources", "opportunityId", idsOf(data.opportunities)),
+  // Rows written before organization_id existed have it null
+  opportunityStageHistory: data => selectWhereIn("opportunityStageHistory", "opportunityId", idsOf(data.opportunities)),
+  opportunityLineItems: data => selectWhereIn("opportunityLineItems", "opportunityId", idsOf(data.opportunities)),
+  entityTags: data => selectWhereIn("entityTags", "tagId", idsOf(data.tags)),
+  comments: data => selectForEntities("comments", "entity", data),
+  commentReactions: data => selectWhereIn("commentReactions", "commentId", idsOf(data.comments)),
+  commentAttachments: data => selectWhereIn("commentAttachments", "commentId", idsOf(data.comments)),
+  commentSubscriptions: data => selectWhereIn("commentSubscriptions", "commentId", idsOf(data.comments)),
+  crmDocuments: data => selectForEntities("crmDocuments", "entityType", data),
+  documentLinks: data => selectWhereIn("documentLinks", "documentId", idsOf(data.documents)),
+  icpProfileVersions: data => selectWhereIn("icpProfileVersions", "icpProfileId", idsOf(data.icpProfiles)),
+  offers: data => selectWhereIn("offers", "icpProfileId", idsOf(data.icpProfiles)),
+  taskPlaybookSteps: data => selectWhereIn("taskPlaybookSteps", "playbookId", idsOf(data.taskPlaybooks)),
+  agentStepLogs: data => selectWhereIn("agentStepLogs", "runId", idsOf(data.leadGenerationRuns)),
+  candidateAccounts: data => selectWhereIn("candidateAccounts", "runId", idsOf(data.leadGenerationRuns)),
+  candidateContacts: data => selectWhereIn("candidateContacts", "runId", idsOf(data.leadGenerationRuns)),
+  candidateLeads: data => selectWhereIn("candidateLeads", "runId", idsOf(data.leadGenerationRuns)),
+  candidateScores: data => selectWhereIn("candidateScores", "candidateLeadId", idsOf(data.candidateLeads)),
+  evidenceSources: async data => uniqueById([
+    ...await selectWhereIn("evidenceSources", "candidateLeadId", idsOf(data.candidateLeads)),
+    ...await selectWhereIn("evidenceSources", "candidateAccountId", idsOf(data.candidateAccounts)),
+  ]),
+  reviewDecisions: data => selectWhereIn("reviewDecisions", "candidateLeadId", idsOf(data.candidateLeads)),
+  researchDocuments: async data => uniqueById([
+    ...await selectWhereIn("researchDocuments", "runId", idsOf(data.leadGenerationRuns)),
+    ...await selectForEntities("researchDocuments", "entityType", data),
+  ]),
+  lgCrmLeads: data => selectWhereIn("lgCrmLeads", "candidateLeadId", idsOf(data.candidateLeads)),
+  lgCrmTasks: data => selectWhereIn("lgCrmTasks", "candidateLeadId", idsOf(data.candidateLeads)),
+  lgAuditEvents: data => selectWhereIn("lgAuditEvents", "runId", idsOf(data.leadGenerationRuns)),
+};
+
+/** Rows of a polymorphic table attached to records already in the export. */
+async function selectForEntities(key: string, typeColumn: string, data: Record<string, any[]>): Promise<any[]> {
+  const entityIds = new Map<string, Set<string>>();
+  for (const table of ["accounts", "contacts", "leads", "opportunities", "activities", "candidateAccounts", "candidateContacts", "candidateLeads"]) {
+    entityIds.set(table, new Set(idsOf(data[table] ?? [])));
+  }
+  const all = [...entityIds.values()].flatMap(ids => [...ids]);
+  const rows = await selectWhereIn(key, "entityId", all);
+  // Ids are unique per table, not across tables; keep rows whose type matches
+  return rows.filter(row => {
+    const table = polymorphicTable(row[typeColumn]);
+    return !!table && !!entityIds.get(table)?.has(row.entityId);
+  });
+}
+
+/** Legacy attachments kept on disk are inlined so the backup is self-contained. */
+function inlineDocumentFiles(documents: any[], warnings: string[]): any[] {
+  return documents.map(doc => {
+    if (doc.fileData || !doc.filePath) return doc;
+    const fullPath = path.join(DOCUMENT_UPLOAD_DIR, path.basename(doc.filePath));
+    if (!fs.existsSync(fullPath)) {
+      warnings.push(`File for document ${doc.fileName} (${doc.id}) is missing from ${DOCUMENT_UPLOAD_DIR}`);
+      return doc;
+    }
+    return { ...doc, fileData: fs.readFileSync(fullPath).toString("base64"), filePath: null };
+  });
+}
+
+export interface OrgBackupExport {
+  data: Buffer;
+  checksum: string;
+  size: number;
+  fileName: string;
+  tables: Record<string, number>;
+  warnings: string[];
+}
+
+export async function exportOrganizationBackup(organizationId: string, encryptionKey: string): Promise<OrgBackupExport> {
+  const organization = await storage.getOrganizationById(organizationId);
+  if (!organization) throw new OrgBackupError("Organization not found", 404);
+
+  const data: Record<string, any[]> = {};
+  const warnings: string[] = [];
+  for (const spec of ORG_BACKUP_TABLES) {
+    const selector = CHILD_SELECTORS[spec.key];
+    if (selector) {
+      data[spec.key] = await selector(data);
+    } else {
+      const table = tableFor(spec.key);
+      data[spec.key] = await db.select().from(table).where(eq(getTableColumns(table).organizationId, organizationId));
+    }
+  }
+  data.crmDocuments = inlineDocumentFiles(data.crmDocuments, warnings);
+
+  const idPatterns = await db.select().from(schema.idPatterns).where(eq(schema.idPatterns.organizationId, organizationId));
+  const userIds = [...collectReferencedUserIds(data)];
+  const users = userIds.length === 0 ? [] : await db
+    .select({ id: schema.users.id, email: schema.users.email, name: schema.users.name })
+    .from(schema.users)
+    .where(inArray(schema.users.id, userIds));
+
+  const backup: OrgBackupData = {
+    kind: "organization",
+    version: ORG_BACKUP_VERSION,
+    timestamp: new Date().toISOString(),
+    organization: {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      description: organization.description,
+      logoUrl: organization.logoUrl,
+      settings: organization.settings,
+    },
+    idPatterns: idPatterns.map(p => ({ entity: p.entity, pattern: p.pattern, startValue: p.startValue })),
+    users,
+    data,
+  };
+
+  const { htbBuffer, checksum } = await backupService.sealSnapshot(backup, encryptionKey);
+  const zip = new JSZip();
+  zip.file(ORG_SNAPSHOT_NAME, htbBuffer);
+  const archive = await zip.generateAsync({ type: "nodebuffer", compression: "STORE" });
+
+  return {
+    data: archive,
+    checksum,
+    size: archive.length,
+    fileName: `healthtrixss-org-${organization.slug}-${backup.timestamp.replace(/[:.]/g, "-")}.zip`,
+    tables: Object.fromEntries(Object.entries(data).map(([key, rows]) => [key, rows.length])),
+    warnings,
+  };
+}
+
+// ---------- Restore ----------
+
+export type OrgRestoreTarget =
+  | { organizationId: string }
+  | { name: string; slug: string };
+
+export interface OrgRestoreResult {
+  organizationId: string;
+  created: boolean;
+  source: { organizationId: string; name: string; timestamp: string };
+  recordsRestored: number;
+  tables: Record<string, number>;
+  /** Rows skipped because a record they depend on was not in the backup. */
+  skipped: Record<string, number>;
+  /** Source users with no account (by email) in this deployment. */
+  unmatchedUsers: string[];
+}
+
+// A restore target that already has any of these is not empty
+const OCCUPANCY_TABLES = [
+  "accounts", "contacts", "leads", "opportunities", "activities", "tags",
+  "documents", "customFieldDefinitions", "salesProcessStages", "leadScoringModels", "leadAssignmentRules", "products", "priceBooks", "leadGenerationRuns",
+  "llmBudgets",
+] as const;
+
+async function assertOrganizationEmpty(tx: Executor, organizationId: string) {
+  for (const key of OCCUPANCY_TABLES) {
+    const table = tableFor(key);
+    const columns = getTableColumns(table);
+    const [row] = await tx.select({ id: columns.id }).from(table).where(eq(columns.organizationId, organizationId)).limit(1);
+    if (row) {
+      throw new OrgBackupError("The target organization already has data. Restore into a new organization or an empty one.", 409);
+    }
+  }
+}
+
+async function readOrgBackup(buffer: Buffer, encryptionKey: string): Promise<OrgBackupData> {
+  const { htbBuffer } = await backupService.extractArchive(buffer, ORG_SNAPSHOT_NAME).catch((error: Error) => {
+    throw new OrgBackupError(error.message);
+  });
+  const { backupData } = await backupService.decodeHtb<OrgBackupData>(htbBuffer, encryptionKey).catch((error: Error) => {
+    throw new OrgBackupError(error.message);
+  });
+  if (backupData?.kind !== "organization" || !backupData.data || !backupData.organization) {
+    throw new OrgBackupError("This is not an organization backup. Use Restore Backup for full backups.");
+  }
+  const major = parseInt(String(backupData.version).split(".")[0], 10);
+  if (major !== parseInt(ORG_BACKUP_VERSION.split(".")[0], 10)) {
+    throw new OrgBackupError(`Unsupported organization backup version v${backupData.version}`);
+  }
+  return backupData;
+}
+
+/** JSON turned timestamps into strings; turn them back for the insert. */
+function reviveTimestamps(table: PgTable, rows: any[]): any[] {
+  const timestampKeys = Object.entries(getTableColumns(table))
+    .filter(([, column]) => column.columnType === "PgTimestamp")
+    .map(([key]) => key);
+  return rows.map(row => {
+    const revived = { ...row };
+    for (const key of timestampKeys) {
+      if (typeof revived[key] === "string") revived[key] = new Date(revived[key]);
+    }
+    return revived;
+  });
+}
+
+async function matchUsers(users: OrgBackupData["users"]): Promise<{ userIds: Map<string, string>; unmatched: string[] }> {
+  const emails = [...new Set(users.map(u => u.email.trim().toLowerCase()))];
+  const existing = emails.length === 0 ? [] : await db
+    .select({ id: schema.users.id, email: schema.users.email })
+    .from(schema.users)
+    .where(inArray(sql`lower(${schema.users.email})`, emails));
+  const byEmail = new Map(existing.map(u => [u.email.toLowerCase(), u.id]));
+
+  const userIds = new Map<string, string>();
+  const unmatched: string[] = [];
+  for (const u of users) {
+    const match = byEmail.get(u.email.trim().toLowerCase());
+    if (match) userIds.set(u.id, match);
+    else unmatched.push(u.email);
+  }
+  return { userIds, unmatched };
+}
+
+/**
+ * Restore an organization backup into a new organization or an existing
+ * empty one. All writes happen in one transaction.
+ */
+export async function restoreOrganizationBackup(
+  buffer: Buffer,
+  encryptionKey: string,
+  target: OrgRestoreTarget,
+  actorUserId: string,
+): Promise<OrgRestoreResult> {
+  const backup = await readOrgBackup(buffer, encryptionKey);
+  const { userIds, unmatched } = await matchUsers(backup.users ?? []);
+  const created = !("organizationId" in target);
+
+  const result = await db.transaction(async (tx: Executor) => {
+    let organizationId: string;
+    if ("organizationId" in target) {
+      const [org] = await tx.select({ id: schema.organizations.id }).from(schema.organizations)
+        .where(eq(schema.organizations.id, target.organizationId));
+      if (!org) throw new OrgBackupError("Organization not found", 404);
+      await assertOrganizationEmpty(tx, org.id);
+      organizationId = org.id;
+    } else {
+      const [taken] = await tx.select({ id: schema.organizations.id }).from(schema.organizations)
+        .where(eq(schema.organizations.slug, target.slug));
+      if (taken) throw new OrgBackupError(`An organization with slug "${target.slug}" already exists`, 409);
+      const [org] = await tx.insert(schema.organizations).values({
+        name: target.name,
+        slug: target.slug,
+        description: backup.organization.description,
+        logoUrl: backup.organization.logoUrl,
+        settings: backup.organization.settings ?? {},
+      }).returning();
+      organizationId = org.id;
+    }
+
+    // ID formats first, so the new ids follow the source organization's patterns
+    for (const pattern of backup.idPatterns ?? []) {
+      await tx.insert(schema.idPatterns)
+        .values({ entity: pattern.entity, pattern: pattern.pattern, startValue: pattern.startValue, counter: 0, organizationId })
+        .onConflictDoUpdate({
+          target: [schema.idPatterns.entity, schema.idPatterns.organizationId],
+          set: { pattern: pattern.pattern, updatedAt: new Date() },
+        });
+    }
+
+    const remapped = await remapOrgBackup(backup.data, {
+      organizationId,
+      actorUserId,
+      userIds,
+      allocateId: (spec: OrgTableSpec) => spec.idEntity
+        ? storage.generateId(spec.idEntity, organizationId, tx)
+        : Promise.resolve(crypto.randomUUID()),
+    });
+
+    const tables: Record<string, number> = {};
+    for (const spec of ORG_BACKUP_TABLES) {
+      const rows = remapped.tables[spec.key];
+      if (!rows || rows.length === 0) continue;
+      const table = tableFor(spec.key);
+      const revived = reviveTimestamps(table, rows);
+      for (let i = 0; i < revived.length; i += INSERT_BATCH_SIZE) {
+        const batch = revived.slice(i, i + INSERT_BATCH_SIZE);
+        if (spec.key === "accountCategories") {
+          // A new organization may already have the default categories
+          await tx.insert(table).values(batch).onConflictDoNothing();
+        } else {
+          await tx.insert(table).values(batch);
+        }
+      }
+      tables[spec.key] = rows.length;
+    }
+
+    for (const ref of remapped.deferred) {
+      const table = tableFor(ref.key);
+      const columns = getTableColumns(table);
+      await tx.update(table).set({ [ref.column]: ref.value }).where(eq(columns.id, ref.id));
+    }
+
+    return { organizationId, tables, skipped: remapped.dropped };
+  });
+
+  if (created) {
+    // Fills in anything the backup had no rows for (e.g. ID patterns)
+    await initializeOrgSettings(result.organizationId).catch(e =>
+      console.error(`Failed to initialize settings for org ${result.organizationId}:`, e)
+    );
+  }
+
+  return {
+    organizationId: result.organizationId,
+    created,
+    source: { organizationId: backup.organization.id, name: backup.organization.name, timestamp: backup.timestamp },
+    recordsRestored: Object.values(result.tables).reduce((sum, count) => sum + count, 0),
+    tables: result.tables,
+    skipped: result.skipped,
+    unmatchedUsers: unmatched,
+  };
+}
@@ -0,0 +1,227 @@
+// Product catalog and price book routes. Admins maintain the catalog in the
+// Admin Console; any signed-in member can read it to add opportunity line
+// items (served alongside the opportunity routes in routes.ts).
+// All routes are scoped to the active organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requirePermission, requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import {
+  insertPriceBookSchema,
+  insertProductSchema,
+  updatePriceBookSchema,
+  updateProductSchema,
+  upsertPriceBookEntrySchema,
+} from "@shared/schema";
+import {
+  ProductCatalogError,
+  createPriceBook,
+  createProduct,
+  deletePriceBook,
+  deletePriceBookEntry,
+  deleteProduct,
+  getPriceBook,
+  getProduct,
+  listPriceBookEntries,
+  listPriceBooks,
+  listProducts,
+  updatePriceBook,
+  updateProduct,
+  upsertPriceBookEntry,
+} from "./product-service";
+
+async function auditCatalogChange(req: AuthRequest, action: string, resource: string, resourceId: string | null, before: any, after: any) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action,
+      resource,
+      resourceId,
+      before,
+      after,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+function handleCatalogError(res: any, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Validation failed", details: error.errors });
+  }
+  if (error instanceof ProductCatalogError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+export function registerProductRoutes(app: Express) {
+  // ---------- Catalog reads (line item pickers) ----------
+
+  // GET /api/products — active products
+  app.get("/api/products", authenticate, requirePermission("Opportunity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await listProducts(req.activeOrgId!));
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to fetch products");
+    }
+  });
+
+  // GET /api/price-books — active price books with their entries
+  app.get("/api/price-books", authenticate, requirePermission("Opportunity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const books = (await listPriceBooks(req.activeOrgId!)).filter(book => book.isActive);
+      return res.json(await Promise.all(books.map(async book => ({ ...book, entries: await listPriceBookEntries(book.id) }))));
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to fetch price books");
+    }
+  });
+
+  // ---------- Products (admin) ----------
+
+  app.get("/api/admin/products", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await listProducts(req.activeOrgId!, { includeInactive: true }));
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to fetch products");
+    }
+  });
+
+  app.post("/api/admin/products", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertProductSchema.parse(req.body);
+      const product = await createProduct(req.activeOrgId!, data, req.user!.id);
+      await auditCatalogChange(req, "create", "Product", product.id, null, product);
+      return res.status(201).json(product);
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to create product");
+    }
+  });
+
+  app.patch("/api/admin/products/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updateProductSchema.parse(req.body);
+      const before = await getProduct(req.params.id, req.activeOrgId!);
+      if (!before) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const product = await updateProduct(req.params.id, req.activeOrgId!, data);
+      await auditCatalogChange(req, "update", "Product", req.params.id, before, product);
+      return res.json(product);
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to update product");
+    }
+  });
+
+  // DELETE /api/admin/products/:id — line items keep their copied name and price
+  app.delete("/api/admin/products/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const product = await deleteProduct(req.params.id, req.activeOrgId!);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      await auditCatalogChange(req, "delete", "Product", product.id, product, null);
+      return res.json({ success: true });
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to delete product");
+    }
+  });
+
+  // ---------- Price books (admin) ----------
+
+  app.get("/api/admin/price-books", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await listPriceBooks(req.activeOrgId!));
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to fetch price books");
+    }
+  });
+
+  // POST /api/admin/price-books — isDefault clears the flag on the previous default
+  app.post("/api/admin/price-books", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertPriceBookSchema.parse(req.body);
+      const book = await createPriceBook(req.activeOrgId!, data);
+      await auditCatalogChange(req, "create", "PriceBook", book.id, null, book);
+      return res.status(201).json(book);
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to create price book");
+    }
+  });
+
+  app.patch("/api/admin/price-books/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updatePriceBookSchema.parse(req.body);
+      const before = await getPriceBook(req.params.id, req.activeOrgId!);
+      if (!before) {
+        return res.status(404).json({ error: "Price book not found" });
+      }
+      const book = await updatePriceBook(req.params.id, req.activeOrgId!, data);
+      await auditCatalogChange(req, "update", "PriceBook", req.params.id, before, book);
+      return res.json(book);
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to update price book");
+    }
+  });
+
+  app.delete("/api/admin/price-books/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const book = await deletePriceBook(req.params.id, req.activeOrgId!);
+      if (!book) {
+        return res.status(404).json({ error: "Price book not found" });
+      }
+      await auditCatalogChange(req, "delete", "PriceBook", book.id, book, null);
+      return res.json({ success: true });
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to delete price book");
+    }
+  });
+
+  app.get("/api/admin/price-books/:id/entries", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!await getPriceBook(req.params.id, req.activeOrgId!)) {
+        return res.status(404).json({ error: "Price book not found" });
+      }
+      return res.json(await listPriceBookEntries(req.params.id));
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to fetch price book entries");
+    }
+  });
+
+  // POST /api/admin/price-books/:id/entries — sets (or replaces) a product's price
+  app.post("/api/admin/price-books/:id/entries", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = upsertPriceBookEntrySchema.parse(req.body);
+      if (!await getPriceBook(req.params.id, req.activeOrgId!)) {
+        return res.status(404).json({ error: "Price book not found" });
+      }
+      const entry = await upsertPriceBookEntry(req.params.id, req.activeOrgId!, data.productId, data.unitPrice);
+      await auditCatalogChange(req, "update", "PriceBook", req.params.id, null, entry);
+      return res.json(entry);
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to save price book entry");
+    }
+  });
+
+  app.delete("/api/admin/price-books/:id/entries/:entryId", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      if (!await getPriceBook(req.params.id, req.activeOrgId!)) {
+        return res.status(404).json({ error: "Price book not found" });
+      }
+      const entry = await deletePriceBookEntry(req.params.id, req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ error: "Price book entry not found" });
+      }
+      await auditCatalogChange(req, "update", "PriceBook", req.params.id, entry, null);
+      return res.json({ success: true });
+    } catch (error) {
+      return handleCatalogError(res, error, "Failed to delete price book entry");
+    }
+  });
+}
@@ -0,0 +1,314 @@
+// Product catalog, price books and opportunity line items, scoped to the
+// active organization. Line item totals are derived with lib/line-items; an
+// opportunity with rollUpLineItems set keeps its amount equal to the total.
+
+import { db, eq, and, asc, sql } from "./db";
+import { ne } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type {
+  InsertOpportunityLineItem,
+  InsertPriceBook,
+  InsertProduct,
+  Opportunity,
+  OpportunityLineItem,
+  PriceBook,
+  Product,
+  UpdateOpportunityLineItem,
+  UpdatePriceBook,
+  UpdateProduct,
+} from "@shared/schema";
+import { computeLineItemTotal, summarizeLineItems, type LineItemSummary } from "./lib/line-items";
+
+export class ProductCatalogError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ProductCatalogError";
+  }
+}
+
+export type PriceBookWithCount = PriceBook & { entryCount: number };
+export type PriceBookEntryWithProduct = schema.PriceBookEntry & { productName: string; productSku: string | null; billingType: schema.ProductBillingType };
+
+export interface OpportunityLineItemsResult {
+  lineItems: OpportunityLineItem[];
+  summary: LineItemSummary;
+  rollUpLineItems: boolean;
+}
+
+const isUniqueViolation = (error: any) => error?.code === "23505" || error?.cause?.code === "23505";
+const money = (value: number) => value.toFixed(2);
+
+// ---------- Products ----------
+
+export async function listProducts(orgId: string, { includeInactive = false } = {}): Promise<Product[]> {
+  const p = schema.products;
+  return db.select().from(p)
+    .where(includeInactive ? eq(p.organizationId, orgId) : and(eq(p.organizationId, orgId), eq(p.isActive, true)))
+    .orderBy(asc(p.family), asc(p.name));
+}
+
+export async function getProduct(id: string, orgId: string): Promise<Product | undefined> {
+  const [product] = await db.select().from(schema.products)
+    .where(and(eq(schema.products.id, id), eq(schema.products.organizationId, orgId)));
+  return product;
+}
+
+export async function createProduct(orgId: string, data: InsertProduct, createdBy: string | null): Promise<Product> {
+  try {
+    const [product] = await db.insert(schema.products).values({ ...data, organizationId: orgId, createdBy }).returning();
+    return product;
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new ProductCatalogError(`A product with SKU ${data.sku} already exists`, 409);
+    throw error;
+  }
+}
+
+export async function updateProduct(id: string, orgId: string, data: UpdateProduct): Promise<Product | undefined> {
+  try {
+    const [product] = await db.update(schema.products)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(schema.products.id, id), eq(schema.products.organizationId, orgId)))
+      .returning();
+    return product;
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new ProductCatalogError(`A product with SKU ${data.sku} already exists`, 409);
+    throw error;
+  }
+}
+
+// Line items keep their copied name and price; only the product link is cleared.
+export async function deleteProduct(id: string, orgId: string): Promise<Product | undefined> {
+  const [product] = await db.delete(schema.products)
+    .where(and(eq(schema.products.id, id), eq(schema.products.organizationId, orgId)))
+    .returning();
+  return product;
+}
+
+// ---------- Price books ----------
+
+export async function listPriceBooks(orgId: string): Promise<PriceBookWithCount[]> {
+  const pb = schema.priceBooks;
+  const rows = await db.select({
+    book: pb,
+    entryCount: sql<number>`(select count(*)::int from ${schema.priceBookEntries} where ${schema.priceBookEntries.priceBookId} = ${pb.id})`,
+  }).from(pb)
+    .where(eq(pb.organizationId, orgId))
+    .orderBy(sql`${pb.isDefault} DESC`, asc(pb.name));
+  return rows.map(({ book, entryCount }) => ({ ...book, entryCount: Number(entryCount) }));
+}
+
+export async function getPriceBook(id: string, orgId: string): Promise<PriceBook | undefined> {
+  const [book] = await db.select().from(schema.priceBooks)
+    .where(and(eq(schema.priceBooks.id, id), eq(schema.priceBooks.organizationId, orgId)));
+  return book;
+}
+
+export async function getDefaultPriceBook(orgId: string): Promise<PriceBook | undefined> {
+  const [book] = await db.select().from(schema.priceBooks)
+    .where(and(eq(schema.priceBooks.organizationId, orgId), eq(schema.priceBooks.isDefault, true), eq(schema.priceBooks.isActive, true)));
+  return book;
+}
+
+export async function createPriceBook(orgId: string, data: InsertPriceBook): Promise<PriceBook> {
+  try {
+    return await db.transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.update(schema.priceBooks).set({ isDefault: false, updatedAt: new Date() })
+          .where(and(eq(schema.priceBooks.organizationId, orgId), eq(schema.priceBooks.isDefault, true)));
+      }
+      const [book] = await tx.insert(schema.priceBooks).values({ ...data, organizationId: orgId }).returning();
+      return book;
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new ProductCatalogError(`A price book named ${data.name} already exists`, 409);
+    throw error;
+  }
+}
+
+export async function updatePriceBook(id: string, orgId: string, data: UpdatePriceBook): Promise<PriceBook | undefined> {
+  try {
+    return await db.transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.update(schema.priceBooks).set({ isDefault: false, updatedAt: new Date() })
+          .where(and(eq(schema.priceBooks.organizationId, orgId), eq(schema.priceBooks.isDefault, true), ne(schema.priceBooks.id, id)));
+      }
+      const [book] = await tx.update(schema.priceBooks)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(schema.priceBooks.id, id), eq(schema.priceBooks.organizationId, orgId)))
+        .returning();
+      return book;
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new ProductCatalogError(`A price book named ${data.name} already exists`, 409);
+    throw error;
+  }
+}
+
+export async function deletePriceBook(id: string, orgId: string): Promise<PriceBook | undefined> {
+  const [book] = await db.delete(schema.priceBooks)
+    .where(and(eq(schema.priceBooks.id, id), eq(schema.priceBooks.organizationId, orgId)))
+    .returning();
+  return book;
+}
+
+export async function listPriceBookEntries(priceBookId: string): Promise<PriceBookEntryWithProduct[]> {
+  const e = schema.priceBookEntries;
+  const rows = await db.select({ entry: e, productName: schema.products.name, productSku: schema.products.sku, billingType: schema.products.billingType })
+    .from(e)
+    .innerJoin(schema.products, eq(schema.products.id, e.productId))
+    .where(eq(e.priceBookId, priceBookId))
+    .orderBy(asc(schema.products.name));
+  return rows.map(({ entry, ...product }) => ({ ...entry, ...product }));
+}
+
+export async function upsertPriceBookEntry(priceBookId: string, orgId: string, productId: string, unitPrice: number): Promise<schema.PriceBookEntry> {
+  if (!await getProduct(productId, orgId)) {
+    throw new ProductCatalogError("Product not found in this organization", 404);
+  }
+  const [entry] = await db.insert(schema.priceBookEntries)
+    .values({ priceBookId, productId, unitPrice: money(unitPrice) })
+    .onConflictDoUpdate({
+      target: [schema.priceBookEntries.priceBookId, schema.priceBookEntries.productId],
+      set: { unitPrice: money(unitPrice), updatedAt: new Date() },
+    })
+    .returning();
+  return entry;
+}
+
+export async function deletePriceBookEntry(priceBookId: string, entryId: string): Promise<schema.PriceBookEntry | undefined> {
+  const [entry] = await db.delete(schema.priceBookEntries)
+    .where(and(eq(schema.priceBookEntries.id, entryId), eq(schema.priceBookEntries.priceBookId, priceBookId)))
+    .returning();
+  return entry;
+}
+
+// ---------- Opportunity line items ----------
+
+const toPricing = (item: OpportunityLineItem) => ({
+  quantity: Number(item.quantity),
+  unitPrice: Number(item.unitPrice),
+  discountPercent: Number(item.discountPercent),
+  billingType: item.billingType,
+  termMonths: item.termMonths,
+});
+
+export async function listOpportunityLineItems(opportunityId: string): Promise<OpportunityLineItem[]> {
+  const li = schema.opportunityLineItems;
+  return db.select().from(li)
+    .where(eq(li.opportunityId, opportunityId))
+    .orderBy(asc(li.sortOrder), asc(li.createdAt));
+}
+
+export async function getOpportunityLineItems(opportunity: Pick<Opportunity, "id" | "rollUpLineItems">): Promise<OpportunityLineItemsResult> {
+  const lineItems = await listOpportunityLineItems(opportunity.id);
+  return { lineItems, summary: summarizeLineItems(lineItems.map(toPricing)), rollUpLineItems: opportunity.rollUpLineItems };
+}
+
+/** Every line item in the organization with its opportunity name and product SKU, for CSV export. */
+export async function listOrganizationLineItems(orgId: string) {
+  const li = schema.opportunityLineItems;
+  const rows = await db.select({ item: li, opportunityName: schema.opportunities.name, productSku: schema.products.sku })
+    .from(li)
+    .innerJoin(schema.opportunities, eq(schema.opportunities.id, li.opportunityId))
+    .leftJoin(schema.products, eq(schema.products.id, li.productId))
+    .where(eq(schema.opportunities.organizationId, orgId))
+    .orderBy(asc(li.opportunityId), asc(li.sortOrder), asc(li.createdAt));
+  return rows.map(({ item, opportunityName, productSku }) => ({ ...item, opportunityName, productSku }));
+}
+
+/** Unit price for a product from the opportunity's price book, falling back to the org default book. */
+async function resolveUnitPrice(opportunity: Opportunity, productId: string): Promise<number | null> {
+  const priceBookId = opportunity.priceBookId ?? (await getDefaultPriceBook(opportunity.organizationId))?.id;
+  if (!priceBookId) return null;
+  const [entry] = await db.select({ unitPrice: schema.priceBookEntries.unitPrice }).from(schema.priceBookEntries)
+    .where(and(eq(schema.priceBookEntries.priceBookId, priceBookId), eq(schema.priceBookEntries.productId, productId)));
+  return entry ? Number(entry.unitPrice) : null;
+}
+
+export async function createOpportunityLineItem(opportunity: Opportunity, data: InsertOpportunityLineItem): Promise<OpportunityLineItem> {
+  let product: Product | undefined;
+  if (data.productId) {
+    product = await getProduct(data.productId, opportunity.organizationId);
+    if (!product) throw new ProductCatalogError("Product not found in this organization", 404);
+  }
+
+  const billingType = data.billingType ?? product?.billingType ?? "one_time";
+  const unitPrice = data.unitPrice ?? (product ? await resolveUnitPrice(opportunity, product.id) : null);
+  if (unitPrice === null || unitPrice === undefined) {
+    throw new ProductCatalogError("Unit price is required when the product has no price book entry");
+  }
+
+  const pricing = {
+    quantity: data.quantity ?? 1,
+    unitPrice,
+    discountPercent: data.discountPercent ?? 0,
+    billingType,
+    termMonths: data.termMonths !== undefined ? data.termMonths : billingType === "recurring" ? product?.defaultTermMonths ?? null : null,
+  };
+
+  let sortOrder = data.sortOrder;
+  if (sortOrder === undefined) {
+    const [{ max }] = await db.select({ max: sql<number | null>`max(${schema.opportunityLineItems.sortOrder})` })
+      .from(schema.opportunityLineItems)
+      .where(eq(schema.opportunityLineItems.opportunityId, opportunity.id));
+    sortOrder = max === null ? 0 : Number(max) + 1;
+  }
+
+  const [item] = await db.insert(schema.opportunityLineItems).values({
+    opportunityId: opportunity.id,
+    productId: product?.id ?? null,
+    name: data.name ?? product!.name,
+    description: data.description !== undefined ? data.description : product?.description ?? null,
+    quantity: money(pricing.quantity),
+    unitPrice: money(pricing.unitPrice),
+    discountPercent: money(pricing.discountPercent),
+    termMonths: pricing.termMonths ?? null,
+    billingType,
+    totalPrice: money(computeLineItemTotal(pricing)),
+    sortOrder,
+  }).returning();
+  return item;
+}
+
+export async function updateOpportunityLineItem(opportunityId: string, itemId: string, data: UpdateOpportunityLineItem): Promise<{ before: OpportunityLineItem; after: OpportunityLineItem } | undefined> {
+  const li = schema.opportunityLineItems;
+  const [before] = await db.select().from(li).where(and(eq(li.id, itemId), eq(li.opportunityId, opportunityId)));
+  if (!before) return undefined;
+
+  const pricing = { ...toPricing(before), ...data };
+  const [after] = await db.update(li).set({
+    name: data.name,
+    description: data.description,
+    quantity: data.quantity !== undefined ? money(data.quantity) : undefined,
+    unitPrice: data.unitPrice !== undefined ? money(data.unitPrice) : undefined,
+    discountPercent: data.discountPercent !== undefined ? money(data.discountPercent) : undefined,
+    termMonths: data.termMonths,
+    billingType: data.billingType,
+    sortOrder: data.sortOrder,
+    totalPrice: money(computeLineItemTotal(pricing)),
+    updatedAt: new Date(),
+  }).where(eq(li.id, itemId)).returning();
+  return { before, after };
+}
+
+export async function deleteOpportunityLineItem(opportunityId: string, itemId: string): Promise<OpportunityLineItem | undefined> {
+  const li = schema.opportunityLineItems;
+  const [item] = await db.delete(li).where(and(eq(li.id, itemId), eq(li.opportunityId, opportunityId))).returning();
+  return item;
+}
+
+/**
+ * Sets the opportunity amount to its line item total when roll-up is on.
+ * Returns the updated opportunity, or undefined when nothing changed.
+ */
+export async function rollUpOpportunityAmount(opportunity: Opportunity): Promise<Opportunity | undefined> {
+  if (!opportunity.rollUpLineItems) return undefined;
+  const items = await listOpportunityLineItems(opportunity.id);
+  const amount = money(summarizeLineItems(items.map(toPricing)).total);
+  if (opportunity.amount !== null && Number(opportunity.amount) === Number(amount)) return undefined;
+  const [updated] = await db.update(schema.opportunities)
+    .set({ amount, updatedAt: new Date() })
+    .where(eq(schema.opportunities.id, opportunity.id))
+    .returning();
+  return updated;
+}
@@ -0,0 +1,115 @@
+// Sales quota routes. Admins set quotas in the Admin Console; attainment is
+// served by /api/analytics/quota-attainment alongside the other analytics.
+// All routes are scoped to the active organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import { QUOTA_PERIOD_TYPES, insertSalesQuotaSchema, updateSalesQuotaSchema } from "@shared/schema";
+import {
+  QuotaError,
+  createSalesQuota,
+  deleteSalesQuota,
+  getSalesQuota,
+  listSalesQuotas,
+  updateSalesQuota,
+} from "./quota-service";
+
+const quotaFiltersSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  periodType: z.enum(QUOTA_PERIOD_TYPES).optional(),
+  userId: z.string().min(1).optional(),
+});
+
+async function auditQuotaChange(req: AuthRequest, action: string, resourceId: string | null, before: any, after: any) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action,
+      resource: "SalesQuota",
+      resourceId,
+      before,
+      after,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+export function registerQuotaRoutes(app: Express) {
+  // GET /api/admin/quotas?year=2026&periodType=quarter&userId=… — quotas with owner names
+  app.get("/api/admin/quotas", authenticate, requireRole("Admin", "SalesManager"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const filters = quotaFiltersSchema.parse(req.query);
+      return res.json(await listSalesQuotas(req.activeOrgId!, filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching sales quotas:", error);
+      return res.status(500).json({ error: "Failed to fetch sales quotas" });
+    }
+  });
+
+  // POST /api/admin/quotas — userId omitted/null sets the team quota
+  app.post("/api/admin/quotas", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertSalesQuotaSchema.parse(req.body);
+      const quota = await createSalesQuota(req.activeOrgId!, data, req.user!.id);
+      await auditQuotaChange(req, "create", quota.id, null, quota);
+      return res.status(201).json(quota);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof QuotaError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating sales quota:", error);
+      return res.status(500).json({ error: "Failed to create sales quota" });
+    }
+  });
+
+  // PATCH /api/admin/quotas/:id — amount and category filter
+  app.patch("/api/admin/quotas/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updateSalesQuotaSchema.parse(req.body);
+      const before = await getSalesQuota(req.params.id, req.activeOrgId!);
+      if (!before) {
+        return res.status(404).json({ error: "Quota not found" });
+      }
+      const quota = await updateSalesQuota(req.params.id, req.activeOrgId!, data);
+      await auditQuotaChange(req, "update", req.params.id, before, quota);
+      return res.json(quota);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof QuotaError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating sales quota:", error);
+      return res.status(500).json({ error: "Failed to update sales quota" });
+    }
+  });
+
+  // DELETE /api/admin/quotas/:id
+  app.delete("/api/admin/quotas/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const quota = await deleteSalesQuota(req.params.id, req.activeOrgId!);
+      if (!quota) {
+        return res.status(404).json({ error: "Quota not found" });
+      }
+      await auditQuotaChange(req, "delete", quota.id, quota, null);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting sales quota:", error);
+      return res.status(500).json({ error: "Failed to delete sales quota" });
+    }
+  });
+}
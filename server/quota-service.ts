@@ -0,0 +1,112 @@
+// Sales quotas: per-rep or team-wide targets for a month, quarter or year,
+// scoped to the active organization. Attainment against these quotas is
+// calculated in analytics-service (getQuotaAttainment).
+
+import { db, eq, and, asc, desc, sql } from "./db";
+import { isNull } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { InsertSalesQuota, QuotaPeriodType, SalesQuota, UpdateSalesQuota } from "@shared/schema";
+import { formatQuotaPeriod } from "./lib/quotas";
+
+export class QuotaError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+export type SalesQuotaWithOwner = SalesQuota & { userName: string | null; periodLabel: string };
+
+export interface SalesQuotaFilters {
+  year?: number;
+  periodType?: QuotaPeriodType;
+  userId?: string;
+}
+
+export async function listSalesQuotas(orgId: string, filters: SalesQuotaFilters = {}): Promise<SalesQuotaWithOwner[]> {
+  const q = schema.salesQuotas;
+  const conditions = [eq(q.organizationId, orgId)];
+  if (filters.year) conditions.push(eq(q.year, filters.year));
+  if (filters.periodType) conditions.push(eq(q.periodType, filters.periodType));
+  if (filters.userId) conditions.push(eq(q.userId, filters.userId));
+
+  const rows = await db.select({ quota: q, userName: schema.users.name })
+    .from(q)
+    .leftJoin(schema.users, eq(schema.users.id, q.userId))
+    .where(and(...conditions))
+    .orderBy(desc(q.year), asc(q.periodType), asc(q.period), sql`${schema.users.name} NULLS FIRST`, asc(q.category));
+  return rows.map(({ quota, userName }) => ({ ...quota, userName, periodLabel: formatQuotaPeriod(quota) }));
+}
+
+export async function getSalesQuota(id: string, orgId: string): Promise<SalesQuota | undefined> {
+  const [quota] = await db.select().from(schema.salesQuotas)
+    .where(and(eq(schema.salesQuotas.id, id), eq(schema.salesQuotas.organizationId, orgId)));
+  return quota;
+}
+
+export async function createSalesQuota(orgId: string, data: InsertSalesQuota, createdBy: string | null): Promise<SalesQuota> {
+  const q = schema.salesQuotas;
+  const userId = data.userId ?? null;
+  const period = data.periodType === "year" ? 1 : data.period;
+
+  if (userId) {
+    const [member] = await db.select({ userId: schema.userOrganizations.userId }).from(schema.userOrganizations)
+      .where(and(eq(schema.userOrganizations.userId, userId), eq(schema.userOrganizations.organizationId, orgId)));
+    if (!member) {
+      throw new QuotaError("Quota owner must be a member of this organization");
+    }
+  }
+
+  const [existing] = await db.select({ id: q.id }).from(q)
+    .where(and(
+      eq(q.organizationId, orgId),
+      userId ? eq(q.userId, userId) : isNull(q.userId),
+      eq(q.periodType, data.periodType),
+      eq(q.year, data.year),
+      eq(q.period, period),
+      data.category ? eq(q.category, data.category) : isNull(q.category),
+    ));
+  if (existing) {
+    const label = formatQuotaPeriod({ periodType: data.periodType, year: data.year, period });
+    throw new QuotaError(`A quota for ${label}${data.category ? ` (${data.category})` : ""} already exists for this ${userId ? "rep" : "team"}`, 409);
+  }
+
+  const [quota] = await db.insert(q).values({
+    organizationId: orgId,
+    userId,
+    periodType: data.periodType,
+    year: data.year,
+    period,
+    amount: data.amount.toFixed(2),
+    category: data.category ?? null,
+    createdBy,
+  }).returning();
+  return quota;
+}
+
+export async function updateSalesQuota(id: string, orgId: string, data: UpdateSalesQuota): Promise<SalesQuota | undefined> {
+  try {
+    const [quota] = await db.update(schema.salesQuotas)
+      .set({
+        amount: data.amount !== undefined ? data.amount.toFixed(2) : undefined,
+        category: data.category,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.salesQuotas.id, id), eq(schema.salesQuotas.organizationId, orgId)))
+      .returning();
+    return quota;
+  } catch (error: any) {
+    // sales_quotas_unique_idx: changing the category can collide with a sibling quota
+    if (error?.code === "23505" || error?.cause?.code === "23505") {
+      throw new QuotaError("Another quota already covers this owner, period and category", 409);
+    }
+    throw error;
+  }
+}
+
+export async function deleteSalesQuota(id: string, orgId: string): Promise<SalesQuota | undefined> {
+  const [quota] = await db.delete(schema.salesQuotas)
+    .where(and(eq(schema.salesQuotas.id, id), eq(schema.salesQuotas.organizationId, orgId)))
+    .returning();
+  return quota;
+}
@@ -0,0 +1,355 @@
+// Duplicate detection and record merge for Accounts and Contacts.
+// The scan scores candidate pairs (see lib/duplicate-scoring) into the
+// duplicate_candidates review queue; a merge folds one record into another,
+// re-points everything that references the absorbed record, and maps the
+// absorbed ID to the survivor in legacy_id_map so old links keep resolving.
+
+import { db, eq, and, desc, inArray, sql } from "./db";
+import { or } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { Account, Contact, DuplicateCandidate, DuplicateEntityType } from "@shared/schema";
+import { ACCOUNT_MERGE_FIELDS, CONTACT_MERGE_FIELDS } from "@shared/schema";
+import {
+  accountBlockingKeys,
+  contactBlockingKeys,
+  findDuplicatePairs,
+  repointSeriesReferences,
+  resolveMergedFields,
+  scoreAccountPair,
+  scoreContactPair,
+} from "./lib/duplicate-scoring";
+
+type MergeableRecord = Account | Contact;
+
+const LEGACY_ENTITY: Record<DuplicateEntityType, string> = {
+  account: "Account",
+  contact: "Contact",
+};
+
+// Polymorphic tables store the parent type in several historical spellings
+const TYPE_VARIANTS: Record<DuplicateEntityType, string[]> = {
+  account: ["Account", "account", "accounts"],
+  contact: ["Contact", "contact", "contacts"],
+};
+
+// Soft (non-FK) references keyed by entity type + id. `uniqueWith` names the
+// column that, together with the entity, is unique — rows that would collide
+// with an existing survivor row are dropped instead of re-pointed.
+const SOFT_REFS: { table: string; idColumn: string; typeColumn: string; uniqueWith?: string }[] = [
+  { table: "activity_associations", idColumn: "entity_id", typeColumn: "entity_type", uniqueWith: "activity_id" },
+  { table: "activities", idColumn: "related_id", typeColumn: "related_type" },
+  { table: "entity_tags", idColumn: "entity_id", typeColumn: "entity", uniqueWith: "tag_id" },
+  { table: "comments", idColumn: "entity_id", typeColumn: "entity" },
+  { table: "document_links", idColumn: "entity_id", typeColumn: "entity_type", uniqueWith: "document_id" },
+  { table: "crm_documents", idColumn: "entity_id", typeColumn: "entity_type" },
+  { table: "research_documents", idColumn: "entity_id", typeColumn: "entity_type" },
+];
+
+export class RecordMergeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "RecordMergeError";
+  }
+}
+
+function rowCount(result: unknown): number {
+  return (result as { rowCount?: number }).rowCount ?? 0;
+}
+
+async function loadRecords(entityType: DuplicateEntityType, orgId: string, ids?: string[]): Promise<MergeableRecord[]> {
+  const table = entityType === "account" ? schema.accounts : schema.contacts;
+  const conditions = [eq(table.organizationId, orgId)];
+  if (ids) conditions.push(inArray(table.id, ids));
+  return db.select().from(table).where(and(...conditions));
+}
+
+// ========== DUPLICATE SCAN ==========
+
+/**
+ * Score the org's records and upsert candidate pairs into the review queue.
+ * Pending pairs get their score refreshed; merged and dismissed pairs are left alone.
+ */
+export async function scanForDuplicates(orgId: string, entityType: DuplicateEntityType): Promise<number> {
+  const records = await loadRecords(entityType, orgId);
+  const pairs = entityType === "account"
+    ? findDuplicatePairs(records as Account[], accountBlockingKeys, scoreAccountPair)
+    : findDuplicatePairs(records as Contact[], contactBlockingKeys, scoreContactPair);
+
+  for (let i = 0; i < pairs.length; i += 50) {
+    const batch = pairs.slice(i, i + 50).map(p => ({ ...p, organizationId: orgId, entityType }));
+    await db.insert(schema.duplicateCandidates).values(batch).onConflictDoUpdate({
+      target: [
+        schema.duplicateCandidates.organizationId,
+        schema.duplicateCandidates.entityType,
+        schema.duplicateCandidates.recordIdA,
+        schema.duplicateCandidates.recordIdB,
+      ],
+      set: {
+        score: sql`excluded.score`,
+        reasons: sql`excluded.reasons`,
+        updatedAt: new Date(),
+      },
+      setWhere: eq(schema.duplicateCandidates.status, "pending"),
+    });
+  }
+  return pairs.length;
+}
+
+export async function listDuplicateCandidates(
+  orgId: string,
+  entityType: DuplicateEntityType,
+  status: DuplicateCandidate["status"] = "pending",
+  limit = 100,
+): Promise<Array<DuplicateCandidate & { recordA: MergeableRecord | null; recordB: MergeableRecord | null }>> {
+  const candidates = await db.select().from(schema.duplicateCandidates)
+    .where(and(
+      eq(schema.duplicateCandidates.organizationId, orgId),
+      eq(schema.duplicateCandidates.entityType, entityType),
+      eq(schema.duplicateCandidates.status, status),
+    ))
+    .orderBy(desc(schema.duplicateCandidates.score), desc(schema.duplicateCandidates.updatedAt))
+    .limit(Math.min(Math.max(limit, 1), 500));
+
+  const ids = Array.from(new Set(candidates.flatMap(c => [c.recordIdA, c.recordIdB])));
+  const records = ids.length > 0 ? await loadRecords(entityType, orgId, ids) : [];
+  const byId = new Map(records.map(r => [r.id, r]));
+  return candidates.map(c => ({
+    ...c,
+    recordA: byId.get(c.recordIdA) ?? null,
+    recordB: byId.get(c.recordIdB) ?? null,
+  }));
+}
+
+export async function dismissDuplicateCandidate(
+  id: string,
+  orgId: string,
+  entityType: DuplicateEntityType,
+  userId: string,
+): Promise<DuplicateCandidate | undefined> {
+  const [updated] = await db.update(schema.duplicateCandidates)
+    .set({ status: "dismissed", resolvedBy: userId, resolvedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(schema.duplicateCandidates.id, id),
+      eq(schema.duplicateCandidates.organizationId, orgId),
+      eq(schema.duplicateCandidates.entityType, entityType),
+      eq(schema.duplicateCandidates.status, "pending"),
+    ))
+    .returning();
+  return updated;
+}
+
+// ========== MERGE ==========
+
+export interface MergeResult {
+  survivor: MergeableRecord;
+  previousSurvivor: MergeableRecord;
+  absorbed: MergeableRecord;
+  repointed: Record<string, number>;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function repointSoftRefs(tx: Tx, entityType: DuplicateEntityType, absorbedId: string, survivorId: string, repointed: Record<string, number>) {
+  const variants = sql.join(TYPE_VARIANTS[entityType].map(v => sql`${v}`), sql`, `);
+  for (const ref of SOFT_REFS) {
+    const table = sql.identifier(ref.table);
+    const idCol = sql.identifier(ref.idColumn);
+    const typeCol = sql.identifier(ref.typeColumn);
+    if (ref.uniqueWith) {
+      const uniqueCol = sql.identifier(ref.uniqueWith);
+      await tx.execute(sql`
+        DELETE FROM ${table} a
+        WHERE a.${idCol} = ${absorbedId} AND a.${typeCol}::text IN (${variants})
+          AND EXISTS (
+            SELECT 1 FROM ${table} b
+            WHERE b.${idCol} = ${survivorId} AND b.${typeCol}::text = a.${typeCol}::text AND b.${uniqueCol} = a.${uniqueCol}
+          )
+      `);
+    }
+    const result = await tx.execute(sql`
+      UPDATE ${table} SET ${idCol} = ${survivorId}
+      WHERE ${idCol} = ${absorbedId} AND ${typeCol}::text IN (${variants})
+    `);
+    repointed[ref.table] = rowCount(result);
+  }
+}
+
+// Recurring activity series copy their template and associations onto every
+// occurrence they create, so they must follow the merge too. The rows are
+// locked first so the series worker can't materialize from the old values
+// while the merge re-points the occurrences that already exist.
+async function repointActivitySeries(tx: Tx, orgId: string, entityType: DuplicateEntityType, absorbedId: string, survivorId: string, repointed: Record<string, number>) {
+  const series = await tx.select().from(schema.activitySeries)
+    .where(and(
+      eq(schema.activitySeries.organizationId, orgId),
+      or(
+        sql`${schema.activitySeries.template}->>'relatedId' = ${absorbedId}`,
+        sql`${schema.activitySeries.associations} @> ${JSON.stringify([{ entityId: absorbedId }])}::jsonb`,
+      ),
+    ))
+    .for("update");
+  let updated = 0;
+  for (const row of series) {
+    const next = repointSeriesReferences(row, TYPE_VARIANTS[entityType], absorbedId, survivorId);
+    if (!next) continue;
+    await tx.update(schema.activitySeries)
+      .set({ ...next, updatedAt: new Date() })
+      .where(eq(schema.activitySeries.id, row.id));
+    updated++;
+  }
+  repointed.activity_series = updated;
+}
+
+async function repointAccountRefs(tx: Tx, absorbedId: string, survivorId: string, repointed: Record<string, number>) {
+  const contacts = await tx.update(schema.contacts)
+    .set({ accountId: survivorId, updatedAt: sql`GREATEST(now(), ${schema.contacts.updatedAt} + interval '1 millisecond')` as any })
+    .where(eq(schema.contacts.accountId, absorbedId))
+    .returning({ id: schema.contacts.id });
+  repointed.contacts = contacts.length;
+
+  const opportunities = await tx.update(schema.opportunities)
+    .set({ accountId: survivorId, updatedAt: sql`GREATEST(now(), ${schema.opportunities.updatedAt} + interval '1 millisecond')` as any })
+    .where(eq(schema.opportunities.accountId, absorbedId))
+    .returning({ id: schema.opportunities.id });
+  repointed.opportunities = opportunities.length;
+
+  const leads = await tx.update(schema.leads)
+    .set({ convertedAccountId: survivorId })
+    .where(eq(schema.leads.convertedAccountId, absorbedId))
+    .returning({ id: schema.leads.id });
+  repointed.leads = leads.length;
+
+  await tx.update(schema.candidateAccounts)
+    .set({ existingAccountId: survivorId })
+    .where(eq(schema.candidateAccounts.existingAccountId, absorbedId));
+}
+
+async function repointContactRefs(tx: Tx, absorbedId: string, survivorId: string, repointed: Record<string, number>) {
+  const leads = await tx.update(schema.leads)
+    .set({ convertedContactId: survivorId })
+    .where(eq(schema.leads.convertedContactId, absorbedId))
+    .returning({ id: schema.leads.id });
+  repointed.leads = leads.length;
+
+  // opportunity_contacts is unique per (opportunity, contact) with one primary
+  // per opportunity: keep the survivor's link where both exist, carrying over
+  // the primary flag from the absorbed link.
+  const absorbedLinks = await tx.select().from(schema.opportunityContacts).where(eq(schema.opportunityContacts.contactId, absorbedId));
+  let moved = 0;
+  for (const link of absorbedLinks) {
+    const [existing] = await tx.select().from(schema.opportunityContacts)
+      .where(and(
+        eq(schema.opportunityContacts.opportunityId, link.opportunityId),
+        eq(schema.opportunityContacts.contactId, survivorId),
+      ))
+      .limit(1);
+    if (existing) {
+      await tx.delete(schema.opportunityContacts).where(eq(schema.opportunityContacts.id, link.id));
+      if (link.isPrimary && !existing.isPrimary) {
+        await tx.update(schema.opportunityContacts).set({ isPrimary: true, updatedAt: new Date() }).where(eq(schema.opportunityContacts.id, existing.id));
+      }
+    } else {
+      await tx.update(schema.opportunityContacts).set({ contactId: survivorId, updatedAt: new Date() }).where(eq(schema.opportunityContacts.id, link.id));
+      moved++;
+    }
+  }
+  repointed.opportunity_contacts = moved;
+}
+
+/**
+ * Merge `absorbedId` into `survivorId`. Runs in one transaction: applies the
+ * chosen field values to the survivor, re-points references, records the
+ * absorbed ID in legacy_id_map, deletes the absorbed record and resolves any
+ * review-queue rows that mention it.
+ */
+export async function mergeRecords(input: {
+  orgId: string;
+  entityType: DuplicateEntityType;
+  survivorId: string;
+  absorbedId: string;
+  fieldChoices?: Record<string, "survivor" | "absorbed">;
+  candidateId?: string;
+  userId: string;
+}): Promise<MergeResult> {
+  const { orgId, entityType, survivorId, absorbedId, userId } = input;
+  const [survivor, absorbed] = await Promise.all([
+    loadRecords(entityType, orgId, [survivorId]).then(r => r[0]),
+    loadRecords(entityType, orgId, [absorbedId]).then(r => r[0]),
+  ]);
+  if (!survivor || !absorbed) {
+    throw new RecordMergeError(`${LEGACY_ENTITY[entityType]} not found`, 404);
+  }
+
+  const fields = entityType === "account" ? ACCOUNT_MERGE_FIELDS : CONTACT_MERGE_FIELDS;
+  const unknown = Object.keys(input.fieldChoices ?? {}).filter(f => !(fields as readonly string[]).includes(f));
+  if (unknown.length > 0) {
+    throw new RecordMergeError(`Unknown merge field(s): ${unknown.join(", ")}`);
+  }
+  const patch = resolveMergedFields(survivor, absorbed, fields, input.fieldChoices);
+
+  const repointed: Record<string, number> = {};
+  const merged = await db.transaction(async (tx) => {
+    await repointActivitySeries(tx, orgId, entityType, absorbedId, survivorId, repointed);
+    if (entityType === "account") {
+      await repointAccountRefs(tx, absorbedId, survivorId, repointed);
+    } else {
+      await repointContactRefs(tx, absorbedId, survivorId, repointed);
+    }
+    await repointSoftRefs(tx, entityType, absorbedId, survivorId, repointed);
+
+    // Old IDs keep resolving: anything that mapped to the absorbed record now
+    // maps to the survivor, and the absorbed ID itself becomes a legacy ID.
+    const legacyEntity = LEGACY_ENTITY[entityType];
+    await tx.update(schema.legacyIdMap)
+      .set({ canonicalId: survivorId })
+      .where(and(eq(schema.legacyIdMap.entity, legacyEntity), eq(schema.legacyIdMap.canonicalId, absorbedId)));
+    await tx.insert(schema.legacyIdMap)
+      .values({ entity: legacyEntity, legacyId: absorbedId, canonicalId: survivorId, reason: "merge" })
+      .onConflictDoUpdate({
+        target: [schema.legacyIdMap.entity, schema.legacyIdMap.legacyId],
+        set: { canonicalId: survivorId, reason: "merge" },
+      });
+
+    let updated: MergeableRecord;
+    if (entityType === "account") {
+      await tx.delete(schema.accounts).where(eq(schema.accounts.id, absorbedId));
+      [updated] = await tx.update(schema.accounts)
+        .set({ ...patch, updatedAt: sql`GREATEST(now(), ${schema.accounts.updatedAt} + interval '1 millisecond')` as any })
+        .where(eq(schema.accounts.id, survivorId))
+        .returning();
+    } else {
+      await tx.delete(schema.contacts).where(eq(schema.contacts.id, absorbedId));
+      [updated] = await tx.update(schema.contacts)
+        .set({ ...patch, updatedAt: sql`GREATEST(now(), ${schema.contacts.updatedAt} + interval '1 millisecond')` as any })
+        .where(eq(schema.contacts.id, survivorId))
+        .returning();
+    }
+
+    // The reviewed pair is resolved; other open pairs involving the absorbed
+    // record are stale and will be rediscovered against the survivor on rescan.
+    const involvesAbsorbed = or(
+      eq(schema.duplicateCandidates.recordIdA, absorbedId),
+      eq(schema.duplicateCandidates.recordIdB, absorbedId),
+    );
+    const scope = and(
+      eq(schema.duplicateCandidates.organizationId, orgId),
+      eq(schema.duplicateCandidates.entityType, entityType),
+    );
+    const pairA = survivorId < absorbedId ? survivorId : absorbedId;
+    const pairB = survivorId < absorbedId ? absorbedId : survivorId;
+    await tx.update(schema.duplicateCandidates)
+      .set({ status: "merged", survivorId, resolvedBy: userId, resolvedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        scope,
+        input.candidateId
+          ? eq(schema.duplicateCandidates.id, input.candidateId)
+          : and(eq(schema.duplicateCandidates.recordIdA, pairA), eq(schema.duplicateCandidates.recordIdB, pairB)),
+      ));
+    await tx.delete(schema.duplicateCandidates)
+      .where(and(scope, eq(schema.duplicateCandidates.status, "pending"), involvesAbsorbed));
+
+    return updated;
+  });
+
+  return { survivor: merged, previousSurvivor: survivor, absorbed, repointed };
+}
@@ -15,7 +15,7 @@ import type { Express, Response, NextFunction } from "express";
 import { z } from "zod";
 import crypto from "crypto";
 import { storage, db, eq, and, sql, asc, desc, inArray, gte, lte, ne } from "./db";
-import { sendPasswordResetEmail } from "./email-service";
+import { getAppBaseUrl, sendPasswordResetEmail } from "./email-service";
 import { hashPassword, verifyPassword, generateToken, authenticate, optionalAuthenticate, attachActiveOrg, type AuthRequest } from "./auth";
 import { requirePermission, requireRole, requireGlobalRole, DEFAULT_ROLE, hasPermission, hasAnyRole, getResolvedPermissions } from "./rbac";
 import { authRateLimiter, sensitiveRateLimiter, crudRateLimiter, readRateLimiter } from "./rate-limiters";
@@ -23,13 +23,18 @@ import {
   insertUserSchema,
   insertAccountSchema,
   insertContactSchema,
+  type InsertContact,
   insertLeadSchema,
   type InsertLead,
   insertOpportunitySchema,
   insertOpportunityResourceSchema,
+  insertOpportunityLineItemSchema,
+  updateOpportunityLineItemSchema,
   type Opportunity,
   insertActivitySchema,
   insertActivityAssociationSchema,
+  ACTIVITY_SERIES_EDIT_SCOPES,
+  QUOTA_PERIOD_TYPES,
   insertCommentSchema,
   insertCommentReactionSchema,
   insertCommentAttachmentSchema,
@@ -50,54 +55,81 @@ import {
   activities,
   activityAssociations,
   auditLogs,
-  llmConfigurations,
   passwordResetTokens,
   type CrmDocumentEntityType,
+  type CsvImportEntity,
+  type CustomFieldEntityType,
+  type CustomFieldValues,
 } from "@shared/schema";
 import { backupService } from "./backup-service";
 import * as analyticsService from "./analytics-service";
 import { DynamicsMapper, type DynamicsMappingConfig } from "./dynamics-mapper";
 import { generateApiKey } from "./api-key-utils";
+import { invalidateApiKeyCache } from "./api-key-auth";
+import { auditActorFromRequest, recordAudit } from "./audit-service";
+import { getOpportunityStageHistory } from "./opportunity-stage-history";
 import { encryptApiKey, decryptApiKey } from "./llm-key-utils";
 import externalApiRoutes from "./external-api-routes";
 import { registerEntraRoutes } from "./entra-auth";
 import { registerOrgRoutes } from "./org-routes";
+import { registerWebhookRoutes } from "./webhook-routes";
+import { registerDuplicateRoutes } from "./duplicate-routes";
+import { registerCustomFieldRoutes } from "./custom-field-routes";
+import { registerSalesProcessRoutes } from "./sales-process-routes";
+import { SalesProcessError, StageRequirementsError, assertStageChange, resolveNewOpportunityStage } from "./sales-process-service";
+import { registerLeadScoringRoutes } from "./lead-scoring-routes";
+import { scheduleLeadRescore } from "./lead-scoring-service";
+import { registerLeadAssignmentRoutes } from "./lead-assignment-routes";
+import { createRoutedLead, listRoutingLog } from "./lead-assignment-service";
+import { registerNotificationRoutes } from "./notification-routes";
+import { registerCalendarRoutes } from "./calendar-routes";
+import { registerQuotaRoutes } from "./quota-routes";
+import { registerProductRoutes } from "./product-routes";
+import { registerImportRoutes } from "./import-routes";
+import { registerBackupRoutes } from "./backup-routes";
+import { registerLlmBudgetRoutes } from "./llm-budget-routes";
+import { registerWebSearchRoutes } from "./web-search-routes";
+import { registerLeadGenPromptRoutes } from "./lead-gen-prompt-routes";
+import { LlmBudgetExceededError } from "./llm-config-service";
+import {
+  ProductCatalogError,
+  createOpportunityLineItem,
+  deleteOpportunityLineItem,
+  getOpportunityLineItems,
+  getPriceBook,
+  listOrganizationLineItems,
+  rollUpOpportunityAmount,
+  updateOpportunityLineItem,
+} from "./product-service";
+import { notifyCommentCreated } from "./notification-service";
+import {
+  createActivitySeries,
+  deleteActivityWithScope,
+  getActivitySeriesInfo,
+  syncSeriesAssociation,
+  updateActivityWithScope,
+} from "./activity-series-service";
+import { RecurrenceRuleError, parseRecurrenceRule } from "./lib/recurrence";
+import { CustomFieldValidationError, listCustomFieldDefinitions, resolveCustomFieldsForWrite } from "./custom-field-service";
+import { matchesCustomFieldFilters, parseCustomFieldFilters } from "./lib/custom-fields";
 import multer from "multer";
-import { parse } from "csv-parse/sync";
 import * as XLSX from "xlsx";
 import { canonicalizeCommentEntity, commentEntityAliases } from "./comment-entity";
-import {
-  accountCsvRowSchema,
-  contactCsvRowSchema,
-  leadCsvRowSchema,
-  opportunityCsvRowSchema,
-  activityCsvRowSchema,
-  type AccountCsvRow,
-  type ContactCsvRow,
-  type LeadCsvRow,
-  type OpportunityCsvRow,
-  type ActivityCsvRow,
-} from "./csv-schemas";
+import { CUSTOM_FIELD_CSV_PREFIX, customFieldCsvColumns } from "./csv-schemas";
+import { CsvImportError, parseCsvRecords, prepareCsvImport, runCsvImport } from "./csv-import-service";
+import { createImportJob } from "./import-job-service";
 
 // Configure multer for file uploads (memory storage)
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Recurring activities: ?scope= on edits/deletes of a series occurrence, and
+// an optional RRULE string in create/update bodies
+const seriesScopeSchema = z.enum(ACTIVITY_SERIES_EDIT_SCOPES).default("this");
+const optionalRecurrenceSchema = z.string().trim().min(1).max(500).optional();
+
 // Audit logging helper
 async function createAudit(req: AuthRequest, action: string, resource: string, resourceId: string | null, before: any, after: any) {
-  try {
-    await storage.createAuditLog({
-      actorId: req.user?.id || null,
-      action,
-      resource,
-      resourceId,
-      before,
-      after,
-      ipAddress: req.ip || req.connection.remoteAddress || null,
-      userAgent: req.headers["user-agent"] || null,
-    });
-  } catch (error) {
-    console.error("Error creating audit log:", error);
-  }
+  await recordAudit(auditActorFromRequest(req), action, resource, resourceId, before, after);
 }
 
 // Verify that a fetched record belongs to the active org (prevents cross-org IDOR)
@@ -139,6 +171,30 @@ async function filterWithLegacySearch<T extends { id: string }>(
   );
 }
 
+// Narrow a list by `cf[<key>]=<value>` query params (see lib/custom-fields)
+async function filterByCustomFields<T extends { customFields: CustomFieldValues | null }>(
+  req: AuthRequest,
+  entityType: CustomFieldEntityType,
+  records: T[],
+): Promise<T[]> {
+  const filters = parseCustomFieldFilters(req.query.cf);
+  if (!req.activeOrgId || Object.keys(filters).length === 0) return records;
+  const defs = await listCustomFieldDefinitions(req.activeOrgId, entityType);
+  return records.filter(r => matchesCustomFieldFilters(r.customFields, filters, defs));
+}
+
+// Validate a write's customFields (when present) against the org's definitions
+// and merge them over the record's current values
+async function withResolvedCustomFields<T extends { customFields?: unknown }>(
+  req: AuthRequest,
+  entityType: CustomFieldEntityType,
+  updates: T,
+  existing?: CustomFieldValues | null,
+): Promise<T> {
+  if (updates.customFields === undefined) return updates;
+  return { ...updates, customFields: await resolveCustomFieldsForWrite(req.activeOrgId!, entityType, updates.customFields, existing) };
+}
+
 // Lead-specific permission middleware.
 // For session callers: when the user has the required Lead permission in their
 // default/primary org AND that org differs from the currently active org, this
@@ -220,6 +276,51 @@ export async function registerRoutes(app: Express) {
   // ========== ORGANIZATION ROUTES ==========
   registerOrgRoutes(app);
 
+  // ========== OUTBOUND WEBHOOK ROUTES ==========
+  registerWebhookRoutes(app);
+
+  // ========== DUPLICATE REVIEW & MERGE ROUTES ==========
+  registerDuplicateRoutes(app);
+
+  // ========== CUSTOM FIELD ROUTES ==========
+  registerCustomFieldRoutes(app);
+
+  // ========== SALES PROCESS ROUTES ==========
+  registerSalesProcessRoutes(app);
+
+  // ========== LEAD SCORING ROUTES ==========
+  registerLeadScoringRoutes(app);
+
+  // ========== LEAD ASSIGNMENT ROUTES ==========
+  registerLeadAssignmentRoutes(app);
+
+  // ========== NOTIFICATION ROUTES ==========
+  registerNotificationRoutes(app);
+
+  // ========== CALENDAR ROUTES ==========
+  registerCalendarRoutes(app);
+
+  // ========== SALES QUOTA ROUTES ==========
+  registerQuotaRoutes(app);
+
+  // ========== PRODUCT CATALOG ROUTES ==========
+  registerProductRoutes(app);
+
+  // ========== CSV IMPORT MAPPING ROUTES ==========
+  registerImportRoutes(app);
+
+  // ========== SCHEDULED BACKUP ROUTES ==========
+  registerBackupRoutes(app);
+
+  // ========== LLM BUDGET ROUTES ==========
+  registerLlmBudgetRoutes(app);
+
+  // ========== WEB SEARCH PROVIDER ROUTES ==========
+  registerWebSearchRoutes(app);
+
+  // ========== LEAD GEN PROMPT TEMPLATE ROUTES ==========
+  registerLeadGenPromptRoutes(app);
+
   // ========== AUTHENTICATION ROUTES ==========
   
   app.post("/api/register", authRateLimiter, async (req, res) => {
@@ -362,7 +463,7 @@ export async function registerRoutes(app: Express) {
     return res.json({ success: true });
   });
 
-  // ── Forgot password — sends a reset link via Azure Graph email ─────────────
+  // ── Forgot password — sends a reset link via the configured email transport ─
   // CSRF-exempt (see csrf-protection.ts). Always returns 200 to prevent enumeration.
   //
   // Origin safety: we NEVER build the reset URL from X-Forwarded-Host or Host
@@ -394,9 +495,7 @@ export async function registerRoutes(app: Express) {
       }
 
       // Determine a safe, attacker-proof base URL
-      const baseUrl =
-        (process.env.APP_BASE_URL ?? "").replace(/\/$/, "") ||
-        (process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "");
+      const baseUrl = getAppBaseUrl();
 
       if (!baseUrl) {
         console.error(
@@ -670,6 +769,9 @@ export async function registerRoutes(app: Express) {
         accounts = accounts.filter(a => a.ownerId === ownerId);
       }
       
+      // Apply custom field filters
+      accounts = await filterByCustomFields(req, "account", accounts);
+      
       // Apply sorting
       const sortBy = (req.query.sortBy as string) || "name";
       const sortOrder = (req.query.sortOrder as string) || "asc";
@@ -720,6 +822,7 @@ export async function registerRoutes(app: Express) {
     try {
       const data = insertAccountSchema.parse(req.body);
       if (req.activeOrgId) data.organizationId = req.activeOrgId;
+      data.customFields = await resolveCustomFieldsForWrite(req.activeOrgId!, "account", data.customFields);
       const account = await storage.createAccount(data);
       
       await createAudit(req, "create", "Account", account.id, null, account);
@@ -729,6 +832,9 @@ export async function registerRoutes(app: Express) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       return res.status(500).json({ error: "Failed to create account" });
     }
   });
@@ -740,12 +846,16 @@ export async function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Account not found" });
       }
       
-      const account = await storage.updateAccount(req.params.id, req.body);
+      const updates = await withResolvedCustomFields(req, "account", req.body, before.customFields);
+      const account = await storage.updateAccount(req.params.id, updates);
       
       await createAudit(req, "update", "Account", account.id, before, account);
       
       return res.json(account);
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       return res.status(500).json({ error: "Failed to update account" });
     }
   });
@@ -834,7 +944,7 @@ export async function registerRoutes(app: Express) {
       for (const accountId of accountIds) {
         const account = await storage.getAccountById(accountId);
         if (account && assertOrgOwnership(account, req.activeOrgId || undefined)) {
-          const updatedAccount = await storage.updateAccount(accountId, updates);
+          const updatedAccount = await storage.updateAccount(accountId, await withResolvedCustomFields(req, "account", updates, account.customFields));
           await createAudit(req, "bulk_update", "Account", accountId, account, updatedAccount);
           updatedCount++;
         }
@@ -842,6 +952,9 @@ export async function registerRoutes(app: Express) {
       
       return res.json({ success: true, count: updatedCount });
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       console.error("Bulk update accounts error:", error);
       return res.status(500).json({ error: "Failed to bulk update accounts" });
     }
@@ -951,6 +1064,9 @@ export async function registerRoutes(app: Express) {
         contacts = contacts.filter(c => !c.email || c.email.length === 0);
       }
       
+      // Apply custom field filters
+      contacts = await filterByCustomFields(req, "contact", contacts);
+      
       // Apply sorting
       const sortBy = (req.query.sortBy as string) || "firstName";
       const sortOrder = (req.query.sortOrder as string) || "asc";
@@ -1010,6 +1126,7 @@ export async function registerRoutes(app: Express) {
         }
       }
       
+      data.customFields = await resolveCustomFieldsForWrite(req.activeOrgId!, "contact", data.customFields);
       const contact = await storage.createContact(data);
       
       await createAudit(req, "create", "Contact", contact.id, null, contact);
@@ -1019,6 +1136,9 @@ export async function registerRoutes(app: Express) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       return res.status(500).json({ error: "Failed to create contact" });
     }
   });
@@ -1030,7 +1150,14 @@ export async function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Contact not found" });
       }
       
-      const data = insertContactSchema.omit({ id: true }).parse(req.body);
+      // The detail page's custom fields card sends only { customFields }
+      const { customFields, ...fields } = req.body ?? {};
+      const data: Partial<InsertContact> = customFields !== undefined && Object.keys(fields).length === 0
+        ? {}
+        : insertContactSchema.omit({ id: true }).parse(req.body);
+      if (customFields !== undefined) {
+        data.customFields = await resolveCustomFieldsForWrite(req.activeOrgId!, "contact", customFields, before.customFields);
+      }
       
       const contact = await storage.updateContact(req.params.id, data);
       
@@ -1041,6 +1168,9 @@ export async function registerRoutes(app: Express) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       return res.status(500).json({ error: "Failed to update contact" });
     }
   });
@@ -1109,7 +1239,7 @@ export async function registerRoutes(app: Express) {
       for (const contactId of contactIds) {
         const contact = await storage.getContactById(contactId);
         if (contact && assertOrgOwnership(contact, req.activeOrgId || undefined)) {
-          const updatedContact = await storage.updateContact(contactId, updates);
+          const updatedContact = await storage.updateContact(contactId, await withResolvedCustomFields(req, "contact", updates, contact.customFields));
           await createAudit(req, "bulk_update", "Contact", contactId, contact, updatedContact);
           updatedCount++;
         }
@@ -1117,6 +1247,9 @@ export async function registerRoutes(app: Express) {
       
       return res.json({ success: true, count: updatedCount });
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       console.error("Bulk update contacts error:", error);
       return res.status(500).json({ error: "Failed to bulk update contacts" });
     }
@@ -1264,6 +1397,9 @@ export async function registerRoutes(app: Express) {
         leads = leads.filter(l => l.rating === rating);
       }
       
+      // Apply custom field filters
+      leads = await filterByCustomFields(req, "lead", leads);
+      
       // Apply sorting
       const sortBy = (req.query.sortBy as string) || "createdAt";
       const sortOrder = (req.query.sortOrder as string) || "desc";
@@ -1316,7 +1452,9 @@ export async function registerRoutes(app: Express) {
       // req.activeOrgId has already been resolved to the effective lead org
       // by requireLeadPermission — use it directly.
       if (req.activeOrgId) data.organizationId = req.activeOrgId;
-      const lead = await storage.createLead(data);
+      data.customFields = await resolveCustomFieldsForWrite(req.activeOrgId!, "lead", data.customFields);
+      // Leads created without an owner are routed by the assignment rules
+      const lead = await createRoutedLead(data, "ui", req.user!.id);
       
       await createAudit(req, "create", "Lead", lead.id, null, lead);
       
@@ -1325,6 +1463,9 @@ export async function registerRoutes(app: Express) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       return res.status(500).json({ error: "Failed to create lead" });
     }
   });
@@ -1385,6 +1526,19 @@ export async function registerRoutes(app: Express) {
     }
   });
   
+  // Why the lead was routed to its owner, newest decision first
+  app.get("/api/leads/:id/routing", authenticate, requireLeadPermission("read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const lead = await storage.getLeadById(req.params.id);
+      if (!lead || !assertOrgOwnership(lead, req.activeOrgId)) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      return res.json(await listRoutingLog(lead.organizationId, { leadId: lead.id, limit: 20 }));
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to fetch lead routing" });
+    }
+  });
+  
   // Lead Conversion
   app.post("/api/leads/:id/convert", authenticate, requireLeadPermission("convert"), crudRateLimiter, async (req: AuthRequest, res) => {
     try {
@@ -1406,6 +1560,9 @@ export async function registerRoutes(app: Express) {
       }
 
       const conversionOrgId = (lead.organizationId || req.activeOrgId) as string;
+      const opportunityStage = createOpportunity
+        ? await resolveNewOpportunityStage(conversionOrgId, opportunityData?.stage)
+        : undefined;
       const result = await storage.convertLead(leadId, conversionOrgId, {
         accountId: existingAccountId,
         createAccount: createAccount || (!existingAccountId && !!accountData),
@@ -1415,7 +1572,7 @@ export async function registerRoutes(app: Express) {
         createOpportunity: !!createOpportunity,
         opportunityName,
         opportunityAmount,
-        opportunityData,
+        opportunityData: opportunityStage ? { ...opportunityData, stage: opportunityStage } : opportunityData,
       });
 
       if (result.status === "not_found") {
@@ -1443,6 +1600,9 @@ export async function registerRoutes(app: Express) {
         opportunityId: result.opportunity?.id ?? null,
       });
     } catch (error) {
+      if (error instanceof SalesProcessError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Lead conversion error:", error);
       return res.status(500).json({ error: "Failed to convert lead" });
     }
@@ -1457,11 +1617,15 @@ export async function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Lead not found" });
       }
 
-      const updatedLead = await storage.updateLead(leadId, req.body);
+      const updates = await withResolvedCustomFields(req, "lead", req.body, lead.customFields);
+      const updatedLead = await storage.updateLead(leadId, updates);
       await createAudit(req, "update", "Lead", leadId, lead, updatedLead);
       
       return res.json(updatedLead);
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       console.error("Lead update error:", error);
       return res.status(500).json({ error: "Failed to update lead" });
     }
@@ -1503,7 +1667,7 @@ export async function registerRoutes(app: Express) {
       for (const leadId of leadIds) {
         const lead = await storage.getLeadById(leadId);
         if (lead && assertOrgOwnership(lead, req.activeOrgId || undefined)) {
-          const updatedLead = await storage.updateLead(leadId, updates);
+          const updatedLead = await storage.updateLead(leadId, await withResolvedCustomFields(req, "lead", updates, lead.customFields));
           await createAudit(req, "bulk_update", "Lead", leadId, lead, updatedLead);
           updatedCount++;
         }
@@ -1511,6 +1675,9 @@ export async function registerRoutes(app: Express) {
       
       return res.json({ success: true, count: updatedCount });
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       console.error("Bulk update error:", error);
       return res.status(500).json({ error: "Failed to bulk update leads" });
     }
@@ -1533,6 +1700,8 @@ export async function registerRoutes(app: Express) {
         });
       }
       
+      allOpportunities = await filterByCustomFields(req, "opportunity", allOpportunities);
+      
       const legacyMap = await storage.getLegacyIds("Opportunity", allOpportunities.map(o => o.id));
       return res.json(allOpportunities.map(o => ({ ...o, legacyId: legacyMap[o.id] ?? null })));
     } catch (error) {
@@ -1590,7 +1759,13 @@ export async function registerRoutes(app: Express) {
           return res.status(400).json({ error: "Referenced account not found in this organization" });
         }
       }
+      if (data.priceBookId && !await getPriceBook(data.priceBookId, req.activeOrgId!)) {
+        return res.status(400).json({ error: "Referenced price book not found in this organization" });
+      }
       
+      data.customFields = await resolveCustomFieldsForWrite(req.activeOrgId!, "opportunity", data.customFields);
+      data.stage = await resolveNewOpportunityStage(req.activeOrgId, data.stage);
+      await assertStageChange(req.activeOrgId, null, { ...data, stage: data.stage });
       const opportunity = await storage.createOpportunity(data);
       
       await createAudit(req, "create", "Opportunity", opportunity.id, null, opportunity);
@@ -1600,6 +1775,15 @@ export async function registerRoutes(app: Express) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
+      if (error instanceof StageRequirementsError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      if (error instanceof SalesProcessError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       return res.status(500).json({ error: "Failed to create opportunity" });
     }
   });
@@ -1654,12 +1838,32 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Billing end date must not be before implementation end date (billing start)" });
       }
 
-      const opportunity = await storage.updateOpportunity(req.params.id, updateData);
+      if (updateData.priceBookId && !await getPriceBook(updateData.priceBookId, req.activeOrgId!)) {
+        return res.status(400).json({ error: "Referenced price book not found in this organization" });
+      }
+
+      const updates = await withResolvedCustomFields(req, "opportunity", updateData, before.customFields);
+      if (updates.stage !== undefined) {
+        await assertStageChange(req.activeOrgId, before.stage, { ...before, ...updates });
+      }
+
+      let opportunity = await storage.updateOpportunity(req.params.id, updates);
+      // With roll-up on, the amount always follows the line items
+      opportunity = await rollUpOpportunityAmount(opportunity) ?? opportunity;
       
       await createAudit(req, "update", "Opportunity", opportunity.id, before, opportunity);
       
       return res.json(opportunity);
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
+      if (error instanceof StageRequirementsError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+      }
+      if (error instanceof SalesProcessError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Update opportunity error:", error);
       return res.status(500).json({ error: "Failed to update opportunity" });
     }
@@ -1743,18 +1947,47 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Updates object is required" });
       }
       
-      let updatedCount = 0;
+      const opportunities = [];
       for (const opportunityId of opportunityIds) {
         const opportunity = await storage.getOpportunityById(opportunityId);
-        if (opportunity) {
-          const updatedOpportunity = await storage.updateOpportunity(opportunityId, updates);
-          await createAudit(req, "bulk_update", "Opportunity", opportunityId, opportunity, updatedOpportunity);
-          updatedCount++;
+        if (opportunity) opportunities.push(opportunity);
+      }
+
+      // A stage change applies to every selected opportunity or to none
+      if (updates.stage !== undefined) {
+        const blocked: { id: string; name: string; message: string }[] = [];
+        for (const opportunity of opportunities) {
+          try {
+            await assertStageChange(req.activeOrgId, opportunity.stage, { ...opportunity, ...updates });
+          } catch (error) {
+            if (!(error instanceof StageRequirementsError)) throw error;
+            blocked.push({ id: opportunity.id, name: opportunity.name, message: error.message });
+          }
+        }
+        if (blocked.length > 0) {
+          const noun = blocked.length === 1 ? "opportunity does" : "opportunities do";
+          return res.status(422).json({
+            error: `${blocked.length} selected ${noun} not meet the stage requirements: ${blocked.map(b => `${b.name} (${b.message})`).join("; ")}`,
+            details: blocked,
+          });
         }
       }
+
+      let updatedCount = 0;
+      for (const opportunity of opportunities) {
+        const updatedOpportunity = await storage.updateOpportunity(opportunity.id, await withResolvedCustomFields(req, "opportunity", updates, opportunity.customFields));
+        await createAudit(req, "bulk_update", "Opportunity", opportunity.id, opportunity, updatedOpportunity);
+        updatedCount++;
+      }
       
       return res.json({ success: true, count: updatedCount });
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
+      if (error instanceof SalesProcessError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Bulk update opportunities error:", error);
       return res.status(500).json({ error: "Failed to bulk update opportunities" });
     }
@@ -1762,6 +1995,31 @@ export async function registerRoutes(app: Express) {
   
   // ========== OPPORTUNITY RESOURCES ROUTES ==========
 
+  // Stage/amount/probability/close-date timeline for an opportunity (oldest first)
+  app.get("/api/opportunities/:id/stage-history", authenticate, requirePermission("Opportunity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const opportunity = await resolveInternalRecord("Opportunity", req.params.id, (id) => storage.getOpportunityById(id), req.activeOrgId);
+      if (!opportunity) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      const [history, allUsers, apiKeys] = await Promise.all([
+        getOpportunityStageHistory(opportunity.id),
+        storage.getAllUsers(),
+        storage.getAllApiKeys(),
+      ]);
+      const userNameById = new Map(allUsers.map(u => [u.id, u.name]));
+      const keyNameById = new Map(apiKeys.map(k => [k.id, k.name]));
+      return res.json(history.map(h => ({
+        ...h,
+        actorName: h.actorId ? userNameById.get(h.actorId) ?? null : null,
+        apiKeyName: h.apiKeyId ? keyNameById.get(h.apiKeyId) ?? null : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching opportunity stage history:", error);
+      return res.status(500).json({ error: "Failed to fetch opportunity stage history" });
+    }
+  });
+
   app.get("/api/opportunities/:id/resources", authenticate, requirePermission("Opportunity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
       const resources = await storage.getOpportunityResources(req.params.id);
@@ -1819,6 +2077,93 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // ========== OPPORTUNITY LINE ITEMS ==========
+  // Responses carry the full item list and summary so the client can refresh
+  // the card (and the rolled-up amount) in one round trip.
+
+  const respondWithLineItems = async (req: AuthRequest, res: Response, opportunity: Opportunity) => {
+    const rolledUp = await rollUpOpportunityAmount(opportunity);
+    if (rolledUp) {
+      await createAudit(req, "update", "Opportunity", opportunity.id, opportunity, rolledUp);
+    }
+    const current = rolledUp ?? opportunity;
+    return res.json({ ...await getOpportunityLineItems(current), amount: current.amount });
+  };
+
+  const handleLineItemError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation failed", details: error.errors });
+    }
+    if (error instanceof ProductCatalogError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    return res.status(500).json({ error: fallback });
+  };
+
+  app.get("/api/opportunities/:id/line-items", authenticate, requirePermission("Opportunity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const opportunity = await storage.getOpportunityById(req.params.id);
+      if (!opportunity || !assertOrgOwnership(opportunity, req.activeOrgId)) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      return res.json({ ...await getOpportunityLineItems(opportunity), amount: opportunity.amount });
+    } catch (error) {
+      return handleLineItemError(res, error, "Failed to fetch line items");
+    }
+  });
+
+  // POST — price, name and billing terms default from the product and price book
+  app.post("/api/opportunities/:id/line-items", authenticate, requirePermission("Opportunity", "update"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertOpportunityLineItemSchema.parse(req.body);
+      const opportunity = await storage.getOpportunityById(req.params.id);
+      if (!opportunity || !assertOrgOwnership(opportunity, req.activeOrgId)) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      const item = await createOpportunityLineItem(opportunity, data);
+      await createAudit(req, "create", "OpportunityLineItem", item.id, null, item);
+      return await respondWithLineItems(req, res, opportunity);
+    } catch (error) {
+      return handleLineItemError(res, error, "Failed to add line item");
+    }
+  });
+
+  app.patch("/api/opportunities/:id/line-items/:itemId", authenticate, requirePermission("Opportunity", "update"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = updateOpportunityLineItemSchema.parse(req.body);
+      const opportunity = await storage.getOpportunityById(req.params.id);
+      if (!opportunity || !assertOrgOwnership(opportunity, req.activeOrgId)) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      const result = await updateOpportunityLineItem(opportunity.id, req.params.itemId, data);
+      if (!result) {
+        return res.status(404).json({ error: "Line item not found" });
+      }
+      await createAudit(req, "update", "OpportunityLineItem", result.after.id, result.before, result.after);
+      return await respondWithLineItems(req, res, opportunity);
+    } catch (error) {
+      return handleLineItemError(res, error, "Failed to update line item");
+    }
+  });
+
+  app.delete("/api/opportunities/:id/line-items/:itemId", authenticate, requirePermission("Opportunity", "update"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const opportunity = await storage.getOpportunityById(req.params.id);
+      if (!opportunity || !assertOrgOwnership(opportunity, req.activeOrgId)) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      const item = await deleteOpportunityLineItem(opportunity.id, req.params.itemId);
+      if (!item) {
+        return res.status(404).json({ error: "Line item not found" });
+      }
+      await createAudit(req, "delete", "OpportunityLineItem", item.id, item, null);
+      return await respondWithLineItems(req, res, opportunity);
+    } catch (error) {
+      return handleLineItemError(res, error, "Failed to delete line item");
+    }
+  });
+
   app.get("/api/resource-allocation", authenticate, requirePermission("ResourceAllocation", "read"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
       const [allOpportunities, allResources, allUsers] = await Promise.all([
@@ -1924,6 +2269,8 @@ export async function registerRoutes(app: Express) {
         );
       }
       
+      allActivities = await filterByCustomFields(req, "activity", allActivities);
+      
       const legacyMap = await storage.getLegacyIds("Activity", allActivities.map(a => a.id));
       return res.json(allActivities.map(a => ({ ...a, legacyId: legacyMap[a.id] ?? null })));
     } catch (error) {
@@ -2103,6 +2450,11 @@ export async function registerRoutes(app: Express) {
   app.post("/api/activities", authenticate, requirePermission("Activity", "create"), crudRateLimiter, async (req: AuthRequest, res) => {
     try {
       const data = insertActivitySchema.parse(req.body);
+      const recurrence = optionalRecurrenceSchema.parse(req.body.recurrence);
+      if (recurrence) {
+        parseRecurrenceRule(recurrence);
+        if (!data.dueAt) return res.status(400).json({ error: "Recurring activities need a due date" });
+      }
       
       // Validate that the relatedId entity belongs to the same org (prevents cross-org associations)
       if (data.relatedType && data.relatedId) {
@@ -2120,6 +2472,7 @@ export async function registerRoutes(app: Express) {
       const activityData: typeof data = {
         ...data,
         organizationId: req.activeOrgId || data.organizationId,
+        customFields: await resolveCustomFieldsForWrite(req.activeOrgId!, "activity", data.customFields),
       };
       
       const activity = await storage.createActivity(activityData);
@@ -2141,11 +2494,24 @@ export async function registerRoutes(app: Express) {
       
       await createAudit(req, "create", "Activity", activity.id, null, activity);
       
+      // The new activity becomes the first occurrence of a series
+      if (recurrence) {
+        const { series, activity: occurrence } = await createActivitySeries(activity, recurrence, req.user?.id || null);
+        await createAudit(req, "create", "ActivitySeries", series.id, null, series);
+        return res.json(occurrence);
+      }
+      
       return res.json(activity);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
+      if (error instanceof RecurrenceRuleError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Failed to create activity:", error);
       return res.status(500).json({ error: "Failed to create activity" });
     }
@@ -2164,8 +2530,9 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Updates are required" });
       }
       
-      // Convert string dates to Date objects for database storage
-      const processedUpdates = { ...updates };
+      // Convert string dates to Date objects for database storage; series
+      // membership is managed by the series service, never set directly
+      const { seriesId: _seriesId, occurrenceAt: _occurrenceAt, recurrence: _recurrence, ...processedUpdates } = updates;
       if (processedUpdates.dueAt) {
         processedUpdates.dueAt = new Date(processedUpdates.dueAt);
       }
@@ -2178,7 +2545,7 @@ export async function registerRoutes(app: Express) {
       for (const activityId of activityIds) {
         const before = await storage.getActivityById(activityId);
         if (before && assertOrgOwnership(before, req.activeOrgId || undefined)) {
-          const activity = await storage.updateActivity(activityId, processedUpdates);
+          const activity = await storage.updateActivity(activityId, await withResolvedCustomFields(req, "activity", processedUpdates, before.customFields));
           await createAudit(req, "update", "Activity", activity.id, before, activity);
           updatedActivities.push(activity);
         }
@@ -2190,6 +2557,9 @@ export async function registerRoutes(app: Express) {
         activities: updatedActivities 
       });
     } catch (error) {
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
       console.error("Failed to bulk update activities:", error);
       return res.status(500).json({ error: "Failed to bulk update activities" });
     }
@@ -2202,8 +2572,11 @@ export async function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Activity not found" });
       }
       
+      const scope = seriesScopeSchema.parse(req.query.scope);
+      const recurrence = optionalRecurrenceSchema.parse(req.body.recurrence);
+      
       // Convert string dates to Date objects for database storage
-      const updates = { ...req.body };
+      const { seriesId: _seriesId, occurrenceAt: _occurrenceAt, recurrence: _recurrence, ...updates } = req.body;
       if (updates.dueAt) {
         updates.dueAt = new Date(updates.dueAt);
       }
@@ -2211,12 +2584,25 @@ export async function registerRoutes(app: Express) {
         updates.completedAt = new Date(updates.completedAt);
       }
       
-      const activity = await storage.updateActivity(req.params.id, updates);
+      const resolved = await withResolvedCustomFields(req, "activity", updates, before.customFields);
+      const { activity, seriesChanges } = await updateActivityWithScope(before, resolved, scope, recurrence, req.user?.id || null);
       
       await createAudit(req, "update", "Activity", activity.id, before, activity);
+      for (const change of seriesChanges) {
+        await createAudit(req, change.before ? "update" : "create", "ActivitySeries", change.after.id, change.before, change.after);
+      }
       
       return res.json(activity);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof CustomFieldValidationError) {
+        return res.status(400).json({ error: "Validation failed", details: error.details });
+      }
+      if (error instanceof RecurrenceRuleError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Failed to update activity:", error);
       return res.status(500).json({ error: "Failed to update activity" });
     }
@@ -2229,16 +2615,41 @@ export async function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Activity not found" });
       }
       
-      await storage.deleteActivity(req.params.id);
+      const scope = seriesScopeSchema.parse(req.query.scope);
+      const { deletedIds, seriesChanges } = await deleteActivityWithScope(before, scope);
       
       await createAudit(req, "delete", "Activity", req.params.id, before, null);
+      for (const change of seriesChanges) {
+        await createAudit(req, change.after ? "update" : "delete", "ActivitySeries", change.before.id, change.before, change.after);
+      }
       
-      return res.json({ success: true });
+      return res.json({ success: true, deleted: deletedIds.length });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
       return res.status(500).json({ error: "Failed to delete activity" });
     }
   });
   
+  // Recurring series an activity belongs to, with its upcoming occurrences
+  app.get("/api/activities/:id/series", authenticate, requirePermission("Activity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const activity = await storage.getActivityById(req.params.id);
+      if (!activity || !assertOrgOwnership(activity, req.activeOrgId)) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const series = await getActivitySeriesInfo(activity);
+      if (!series) {
+        return res.status(404).json({ error: "Activity is not part of a recurring series" });
+      }
+      return res.json(series);
+    } catch (error) {
+      console.error("Failed to fetch activity series:", error);
+      return res.status(500).json({ error: "Failed to fetch activity series" });
+    }
+  });
+  
   // Get related data for an activity (polymorphic parent entity)
   app.get("/api/activities/:id/related", authenticate, requirePermission("Activity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
@@ -2403,9 +2814,13 @@ export async function registerRoutes(app: Express) {
         .returning();
       
       await createAudit(req, "create", "ActivityAssociation", association.id, null, association);
+      await syncSeriesAssociation(activity, data, "add", seriesScopeSchema.parse(req.query.scope));
       
       return res.json(association);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
       console.error("Failed to create association:", error);
       return res.status(500).json({ error: "Failed to create association" });
     }
@@ -2465,7 +2880,7 @@ export async function registerRoutes(app: Express) {
       
       // Fetch association AND join to parent activity to enforce org ownership
       const [row] = await db
-        .select({ association: activityAssociations, activityOrgId: activities.organizationId })
+        .select({ association: activityAssociations, activity: activities, activityOrgId: activities.organizationId })
         .from(activityAssociations)
         .innerJoin(activities, eq(activityAssociations.activityId, activities.id))
         .where(eq(activityAssociations.id, associationId));
@@ -2485,6 +2900,7 @@ export async function registerRoutes(app: Express) {
         .where(eq(activityAssociations.id, associationId));
       
       await createAudit(req, "delete", "ActivityAssociation", associationId, row.association, null);
+      await syncSeriesAssociation(row.activity, row.association, "remove", seriesScopeSchema.parse(req.query.scope));
       
       return res.json({ success: true });
     } catch (error) {
@@ -2729,6 +3145,7 @@ export async function registerRoutes(app: Express) {
       const { tagIds } = req.body;
       const assignableTagIds = await filterAssignableTagIds(tagIds, req.activeOrgId);
       await storage.addEntityTags(entity, entityId, assignableTagIds, req.user!.id);
+      if (entity === "Lead") scheduleLeadRescore([entityId]);
       return res.json({ success: true });
     } catch (error) {
       return res.status(500).json({ error: "Failed to add entity tags" });
@@ -2743,6 +3160,7 @@ export async function registerRoutes(app: Express) {
         return res.status(404).json({ error: `${entity} not found` });
       }
       await storage.removeEntityTag(entity, entityId, tagId);
+      if (entity === "Lead") scheduleLeadRescore([entityId]);
       return res.json({ success: true });
     } catch (error) {
       return res.status(500).json({ error: "Failed to remove entity tag" });
@@ -2766,6 +3184,7 @@ export async function registerRoutes(app: Express) {
       for (const entityId of validIds) {
         await storage.addEntityTags(entity, entityId, assignableTagIds, req.user!.id);
       }
+      if (entity === "Lead") scheduleLeadRescore(validIds);
       
       return res.json({ success: true, count: validIds.length });
     } catch (error) {
@@ -3162,6 +3581,7 @@ export async function registerRoutes(app: Express) {
     try {
       const job = await storage.createBackupJob({
         status: "in_progress",
+        trigger: "manual",
         initiatedBy: req.user?.id || null,
       });
       
@@ -3245,6 +3665,8 @@ export async function registerRoutes(app: Express) {
       const result = await backupService.restoreBackup(backupBuffer, encryptionKey);
       
       if (result.success) {
+        // The restored api_keys table may differ from what was verified and cached
+        invalidateApiKeyCache();
         const { ensureProductDeveloperRole, ensureResourceRole } = await import("./seed");
         await ensureProductDeveloperRole();
         await ensureResourceRole();
@@ -3252,12 +3674,14 @@ export async function registerRoutes(app: Express) {
         await createAudit(req, "restore", "Database", null, null, { 
           recordsRestored: result.recordsRestored,
           warnings: result.errors,
+          consistency: result.consistency,
         });
         
         return res.json({
           success: true,
           recordsRestored: result.recordsRestored,
           warnings: result.errors,
+          consistency: result.consistency,
         });
       } else {
         console.error("Restore failed with errors:", result.errors);
@@ -3363,6 +3787,37 @@ export async function registerRoutes(app: Express) {
   
   // ========== DYNAMICS 365 IMPORT ROUTES ==========
   
+  // The transform routes return the aligned CSV for download. With the form
+  // field queueImport=true they instead queue it as a background import job in
+  // the active organization; mode, matchOn and mapping apply as for CSV imports.
+  async function sendTransformedCsv(req: AuthRequest, res: Response, entity: CsvImportEntity, csvContent: string, fileName: string) {
+    if (req.body?.queueImport !== "true") {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(csvContent);
+    }
+    
+    try {
+      if (!req.activeOrgId) {
+        return res.status(400).json({ error: "Active organization context required. Set X-Organization-Id header." });
+      }
+      const ctx = { orgId: req.activeOrgId, userId: req.user!.id };
+      const prepared = await prepareCsvImport(entity, { ...req.body, dryRun: false }, ctx);
+      const job = await createImportJob({ ...ctx, entity, source: "dynamics", fileName, content: csvContent, options: prepared });
+      await createAudit(req, "create", "ImportJob", job.id, null, { entity, source: "dynamics", fileName, totalRows: job.totalRows });
+      const { fileContent, ...summary } = job;
+      return res.status(202).json({ job: summary });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof CsvImportError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
+    }
+  }
+  
   app.post("/api/admin/dynamics/transform-accounts", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, upload.fields([
     { name: 'excelFile', maxCount: 1 },
     { name: 'mappingConfig', maxCount: 1 },
@@ -3409,11 +3864,7 @@ export async function registerRoutes(app: Express) {
         stats: result.stats,
       });
 
-      // Return CSV file
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename="accounts_aligned.csv"');
-      
-      return res.send(csvContent);
+      return sendTransformedCsv(req, res, "accounts", csvContent, "accounts_aligned.csv");
     } catch (error: any) {
       console.error("Dynamics transform error:", error);
       return res.status(500).json({ 
@@ -3470,11 +3921,7 @@ export async function registerRoutes(app: Express) {
         stats: result.stats,
       });
 
-      // Return CSV file
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename="contacts_aligned.csv"');
-      
-      return res.send(csvContent);
+      return sendTransformedCsv(req, res, "contacts", csvContent, "contacts_aligned.csv");
     } catch (error: any) {
       console.error("Dynamics contacts transform error:", error);
       return res.status(500).json({ 
@@ -3525,11 +3972,7 @@ export async function registerRoutes(app: Express) {
         stats: result.stats,
       });
 
-      // Return CSV file
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename="leads_aligned.csv"');
-      
-      return res.send(csvContent);
+      return sendTransformedCsv(req, res, "leads", csvContent, "leads_aligned.csv");
     } catch (error: any) {
       console.error("Dynamics leads transform error:", error);
       return res.status(500).json({ 
@@ -3586,11 +4029,7 @@ export async function registerRoutes(app: Express) {
         stats: result.stats,
       });
 
-      // Return CSV file
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename="opportunities_aligned.csv"');
-      
-      return res.send(csvContent);
+      return sendTransformedCsv(req, res, "opportunities", csvContent, "opportunities_aligned.csv");
     } catch (error: any) {
       console.error("Dynamics opportunities transform error:", error);
       return res.status(500).json({ 
@@ -3752,12 +4191,7 @@ export async function registerRoutes(app: Express) {
       console.log('[ACTIVITY-TRANSFORM] Activity transformation completed successfully');
       console.log('=== END ACTIVITY TRANSFORM DIAGNOSTICS ===\n');
 
-      // Return CSV file with timestamp
-      const timestamp = Date.now();
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="activities_aligned_${timestamp}.csv"`);
-      
-      return res.send(csvContent);
+      return sendTransformedCsv(req, res, "activities", csvContent, `activities_aligned_${Date.now()}.csv`);
     } catch (error: any) {
       console.error('[ACTIVITY-TRANSFORM] ERROR during transformation:', error);
       console.error('[ACTIVITY-TRANSFORM] Error stack:', error.stack);
@@ -3962,6 +4396,21 @@ export async function registerRoutes(app: Express) {
     return csvRows.join("\n");
   }
   
+  // Append "cf:<key>" columns for the org's active custom fields
+  async function withCustomFieldColumns<T extends { customFields: CustomFieldValues | null }>(
+    req: AuthRequest,
+    entityType: CustomFieldEntityType,
+    rows: T[],
+    headers: string[],
+  ) {
+    const defs = req.activeOrgId ? await listCustomFieldDefinitions(req.activeOrgId, entityType, { activeOnly: true }) : [];
+    const keys = defs.map(d => d.key);
+    return {
+      rows: rows.map(row => ({ ...row, ...customFieldCsvColumns(keys, row.customFields) })),
+      headers: [...headers, ...keys.map(key => `${CUSTOM_FIELD_CSV_PREFIX}${key}`)],
+    };
+  }
+  
   app.get("/api/export/accounts", authenticate, requirePermission("Account", "read"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
       const accounts = await storage.getAllAccounts(req.activeOrgId || undefined);
@@ -3971,7 +4420,8 @@ export async function registerRoutes(app: Express) {
         "billingAddress", "shippingAddress",
         "externalId", "sourceSystem", "sourceRecordId", "importStatus", "importNotes"
       ];
-      const csv = arrayToCSV(accounts, headers);
+      const exported = await withCustomFieldColumns(req, "account", accounts, headers);
+      const csv = arrayToCSV(exported.rows, exported.headers);
       
       res.setHeader("Content-Type", "text/csv");
       res.setHeader("Content-Disposition", `attachment; filename="accounts-${Date.now()}.csv"`);
@@ -3997,7 +4447,8 @@ export async function registerRoutes(app: Express) {
       }));
       
       const headers = ["id", "firstName", "lastName", "email", "phone", "title", "accountId", "accountName", "createdAt"];
-      const csv = arrayToCSV(enrichedContacts, headers);
+      const exported = await withCustomFieldColumns(req, "contact", enrichedContacts, headers);
+      const csv = arrayToCSV(exported.rows, exported.headers);
       
       res.setHeader("Content-Type", "text/csv");
       res.setHeader("Content-Disposition", `attachment; filename="contacts-${Date.now()}.csv"`);
@@ -4013,7 +4464,8 @@ export async function registerRoutes(app: Express) {
       const leads = await storage.getAllLeads(req.activeOrgId || undefined);
       
       const headers = ["id", "firstName", "lastName", "company", "email", "phone", "topic", "status", "source", "externalId", "sourceSystem", "sourceRecordId", "importStatus", "importNotes", "ownerId", "convertedAccountId", "convertedContactId", "convertedOpportunityId", "convertedAt", "createdAt"];
-      const csv = arrayToCSV(leads, headers);
+      const exported = await withCustomFieldColumns(req, "lead", leads, headers);
+      const csv = arrayToCSV(exported.rows, exported.headers);
       
       res.setHeader("Content-Type", "text/csv");
       res.setHeader("Content-Disposition", `attachment; filename="leads-${Date.now()}.csv"`);
@@ -4039,7 +4491,8 @@ export async function registerRoutes(app: Express) {
       }));
       
       const headers = ["id", "name", "description", "accountId", "accountName", "amount", "stage", "probability", "closeDate", "ownerId", "createdAt"];
-      const csv = arrayToCSV(enrichedOpportunities, headers);
+      const exported = await withCustomFieldColumns(req, "opportunity", enrichedOpportunities, headers);
+      const csv = arrayToCSV(exported.rows, exported.headers);
       
       res.setHeader("Content-Type", "text/csv");
       res.setHeader("Content-Disposition", `attachment; filename="opportunities-${Date.now()}.csv"`);
@@ -4049,13 +4502,30 @@ export async function registerRoutes(app: Express) {
       return res.status(500).json({ error: "Failed to export opportunities" });
     }
   });
+
+  app.get("/api/export/opportunity-line-items", authenticate, requirePermission("Opportunity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const lineItems = await listOrganizationLineItems(req.activeOrgId!);
+      
+      const headers = ["id", "opportunityId", "opportunityName", "productId", "productSku", "name", "description", "quantity", "unitPrice", "discountPercent", "billingType", "termMonths", "totalPrice", "createdAt"];
+      const csv = arrayToCSV(lineItems, headers);
+      
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="opportunity-line-items-${Date.now()}.csv"`);
+      return res.send(csv);
+    } catch (error) {
+      console.error("Export opportunity line items error:", error);
+      return res.status(500).json({ error: "Failed to export opportunity line items" });
+    }
+  });
   
   app.get("/api/export/activities", authenticate, requirePermission("Activity", "read"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
       const activities = await storage.getAllActivities(req.activeOrgId || undefined);
       
       const headers = ["id", "type", "subject", "description", "dueDate", "status", "priority", "relatedToType", "relatedToId", "assignedToId", "createdAt"];
-      const csv = arrayToCSV(activities, headers);
+      const exported = await withCustomFieldColumns(req, "activity", activities, headers);
+      const csv = arrayToCSV(exported.rows, exported.headers);
       
       res.setHeader("Content-Type", "text/csv");
       res.setHeader("Content-Disposition", `attachment; filename="activities-${Date.now()}.csv"`);
@@ -4068,550 +4538,54 @@ export async function registerRoutes(app: Express) {
   
   // ========== CSV IMPORT ROUTES ==========
   
-  app.post("/api/import/accounts", authenticate, requirePermission("Account", "create"), crudRateLimiter, upload.single("file"), async (req: AuthRequest, res) => {
+  // Multipart "file" plus optional form fields: mode (insert | update | upsert),
+  // matchOn, dryRun, and mapping (JSON of CSV header -> field) or templateId.
+  // A dry run returns per-row results right away; otherwise the file is queued
+  // as a background import job (202) — poll /api/import/jobs/:id for progress.
+  const handleCsvImport = (entity: CsvImportEntity) => async (req: AuthRequest, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
       
-      // Parse CSV
-      const csvContent = req.file.buffer.toString("utf-8");
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as unknown[];
-      
-      const results = {
-        total: records.length,
-        success: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [] as Array<{ row: number; error: string; data: any }>,
-      };
-      
-      // Process each record
-      for (let i = 0; i < records.length; i++) {
-        const rawRow = records[i];
-        try {
-          // Validate and parse CSV row with Zod schema
-          const row = accountCsvRowSchema.parse(rawRow);
-          
-          // Auto-generate ID if not provided
-          const generatedAccountId = (!row.id || row.id.trim() === "") ? await storage.generateId("Account", req.activeOrgId || undefined) : row.id;
-          
-          // Prepare account data
-          const accountData: any = {
-            id: generatedAccountId,
-            name: row.name,
-            accountNumber: row.accountNumber || "",
-            type: row.type || null,
-            category: row.category || "",
-            industry: row.industry || "",
-            website: row.website || "",
-            phone: row.phone || "",
-            billingAddress: row.billingAddress || "",
-            shippingAddress: row.shippingAddress || "",
-            externalId: row.externalId || "",
-            sourceSystem: row.sourceSystem || "",
-            sourceRecordId: row.sourceRecordId || "",
-            importStatus: row.importStatus || "",
-            importNotes: row.importNotes || "",
-            ownerId: req.user!.id,
-            organizationId: req.activeOrgId || undefined,
-          };
-          
-          // Check for duplicate by externalId (scoped to org)
-          if (accountData.externalId && accountData.externalId.trim() !== "") {
-            const [existingByExternalId] = await db.select()
-              .from(accounts)
-              .where(and(eq(accounts.externalId, accountData.externalId), req.activeOrgId ? eq(accounts.organizationId, req.activeOrgId) : undefined))
-              .limit(1);
-            
-            if (existingByExternalId) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Also check by ID if provided
-          if (accountData.id && accountData.id.trim() !== "") {
-            const existingById = await storage.getAccountById(accountData.id);
-            if (existingById) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Validate with schema
-          const validated = insertAccountSchema.parse(accountData);
-          
-          // Create account
-          await storage.createAccount(validated);
-          await createAudit(req, "import", "Account", validated.id, null, validated);
-          
-          results.success++;
-        } catch (error: any) {
-          results.failed++;
-          results.errors.push({
-            row: i + 2, // +2 because CSV has header row and arrays are 0-indexed
-            error: error.message,
-            data: rawRow,
-          });
-        }
-      }
-      
-      return res.json(results);
-    } catch (error: any) {
-      console.error("Import accounts error:", error);
-      return res.status(500).json({ error: "Failed to import accounts", details: error.message });
-    }
-  });
-  
-  app.post("/api/import/contacts", authenticate, requirePermission("Contact", "create"), crudRateLimiter, upload.single("file"), async (req: AuthRequest, res) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
-      }
-      
-      const csvContent = req.file.buffer.toString("utf-8");
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as unknown[];
-      
-      const results = {
-        total: records.length,
-        success: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [] as Array<{ row: number; error: string; data: any }>,
-      };
-      
-      for (let i = 0; i < records.length; i++) {
-        const rawRow = records[i];
-        try {
-          // Validate and parse CSV row with Zod schema
-          const row = contactCsvRowSchema.parse(rawRow);
-          
-          const generatedContactId = (!row.id || row.id.trim() === "") ? await storage.generateId("Contact", req.activeOrgId || undefined) : row.id;
-          
-          const contactData: any = {
-            id: generatedContactId,
-            firstName: row.firstName,
-            lastName: row.lastName,
-            email: row.email,
-            phone: row.phone,
-            title: row.title,
-            accountId: row.accountId,
-            externalId: row.externalId,
-            sourceSystem: row.sourceSystem,
-            sourceRecordId: row.sourceRecordId,
-            importStatus: row.importStatus,
-            importNotes: row.importNotes,
-            ownerId: req.user!.id,
-            organizationId: req.activeOrgId || undefined,
-          };
-          
-          // Check for duplicate by externalId (scoped to org)
-          if (contactData.externalId) {
-            const [existingByExternalId] = await db.select()
-              .from(contacts)
-              .where(and(eq(contacts.externalId, contactData.externalId), req.activeOrgId ? eq(contacts.organizationId, req.activeOrgId) : undefined))
-              .limit(1);
-            
-            if (existingByExternalId) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Also check by ID if provided
-          if (contactData.id && contactData.id.trim() !== "") {
-            const existingById = await storage.getContactById(contactData.id);
-            if (existingById) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Validate accountId exists if provided
-          if (contactData.accountId) {
-            const account = await storage.getAccountById(contactData.accountId);
-            if (!account) {
-              throw new Error(`Account ID '${contactData.accountId}' does not exist. Please import accounts first or use a valid Account ID.`);
-            }
-          }
-          
-          const validated = insertContactSchema.parse(contactData);
-          await storage.createContact(validated);
-          await createAudit(req, "import", "Contact", validated.id, null, validated);
-          
-          results.success++;
-        } catch (error: any) {
-          results.failed++;
-          results.errors.push({
-            row: i + 2,
-            error: error.message,
-            data: rawRow,
-          });
-        }
-      }
-      
-      return res.json(results);
-    } catch (error: any) {
-      console.error("Import contacts error:", error);
-      return res.status(500).json({ error: "Failed to import contacts", details: error.message });
-    }
-  });
-  
-  app.post("/api/import/leads", authenticate, requireLeadPermission("create"), crudRateLimiter, upload.single("file"), async (req: AuthRequest, res) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
-      }
-      
-      // req.activeOrgId is already resolved to the effective lead org by requireLeadPermission.
-      const importOrgId = req.activeOrgId;
-
-      const csvContent = req.file.buffer.toString("utf-8");
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as unknown[];
-      
-      const results = {
-        total: records.length,
-        success: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [] as Array<{ row: number; error: string; data: any }>,
-      };
-      
-      for (let i = 0; i < records.length; i++) {
-        const rawRow = records[i];
-        try {
-          // Validate and parse CSV row with Zod schema
-          const row = leadCsvRowSchema.parse(rawRow);
-          
-          // Validate enum values before parsing
-          const validStatuses = ["new", "contacted", "qualified", "unqualified", "converted"];
-          const validSources = ["website", "referral", "phone", "email", "event", "partner", "lead_generation", "other"];
-          
-          if (row.status && !validStatuses.includes(row.status.toLowerCase())) {
-            throw new Error(`Invalid status: "${row.status}". Expected one of: ${validStatuses.join(", ")}. Note: values must be lowercase.`);
-          }
-          
-          if (row.source && !validSources.includes(row.source.toLowerCase())) {
-            throw new Error(`Invalid source: "${row.source}". Expected one of: ${validSources.join(", ")}. Note: values must be lowercase.`);
-          }
-          
-          const generatedId = (!row.id || row.id.trim() === "") ? await storage.generateId("Lead", importOrgId || undefined) : row.id;
-          
-          const leadData: any = {
-            id: generatedId,
-            firstName: row.firstName,
-            lastName: row.lastName,
-            company: row.company,
-            email: row.email,
-            phone: row.phone,
-            topic: row.topic,
-            status: row.status?.toLowerCase() || "new",
-            source: row.source?.toLowerCase() || "other",
-            ownerId: req.user!.id,
-            externalId: row.externalId,
-            sourceSystem: row.sourceSystem,
-            sourceRecordId: row.sourceRecordId,
-            importStatus: row.importStatus,
-            importNotes: row.importNotes,
-            organizationId: importOrgId || undefined,
-          };
-          
-          // Check for duplicate by externalId (scoped to org)
-          if (leadData.externalId) {
-            const [existingByExternalId] = await db.select()
-              .from(leads)
-              .where(and(eq(leads.externalId, leadData.externalId), importOrgId ? eq(leads.organizationId, importOrgId) : undefined))
-              .limit(1);
-            
-            if (existingByExternalId) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Also check by ID if provided
-          if (leadData.id && leadData.id.trim() !== "") {
-            const existingById = await storage.getLeadById(leadData.id);
-            if (existingById) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          await storage.createLead(leadData as InsertLead);
-          await createAudit(req, "import", "Lead", leadData.id, null, leadData);
-          
-          results.success++;
-        } catch (error: any) {
-          results.failed++;
-          results.errors.push({
-            row: i + 2,
-            error: error.message,
-            data: rawRow,
-          });
-        }
+      const ctx = { orgId: req.activeOrgId!, userId: req.user!.id };
+      const prepared = await prepareCsvImport(entity, { ...req.query, ...req.body }, ctx);
+      if (prepared.dryRun) {
+        const results = await runCsvImport(entity, parseCsvRecords(req.file.buffer), prepared, {
+          ...ctx,
+          audit: (action, resource, resourceId, before, after) => createAudit(req, action, resource, resourceId, before, after),
+        });
+        return res.json(results);
       }
       
-      return res.json(results);
+      const job = await createImportJob({
+        ...ctx,
+        entity,
+        fileName: req.file.originalname,
+        content: req.file.buffer,
+        options: prepared,
+      });
+      await createAudit(req, "create", "ImportJob", job.id, null, { entity, fileName: job.fileName, totalRows: job.totalRows });
+      const { fileContent, ...summary } = job;
+      return res.status(202).json({ job: summary });
     } catch (error: any) {
-      console.error("Import leads error:", error);
-      return res.status(500).json({ error: "Failed to import leads", details: error.message });
-    }
-  });
-  
-  app.post("/api/import/opportunities", authenticate, requirePermission("Opportunity", "create"), crudRateLimiter, upload.single("file"), async (req: AuthRequest, res) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
-      
-      const csvContent = req.file.buffer.toString("utf-8");
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as unknown[];
-      
-      const results = {
-        total: records.length,
-        success: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [] as Array<{ row: number; error: string; data: any }>,
-      };
-      
-      for (let i = 0; i < records.length; i++) {
-        const rawRow = records[i];
-        try {
-          // Validate and parse CSV row with Zod schema
-          const row = opportunityCsvRowSchema.parse(rawRow);
-          
-          const parseDate = (dateStr: string | null | undefined): Date | null => {
-            if (!dateStr || dateStr.trim() === "") return null;
-            const parsed = new Date(dateStr);
-            return isNaN(parsed.getTime()) ? null : parsed;
-          };
-          
-          // Map Dynamics status to CRM stage
-          // Status and stage are the same concept - Dynamics uses "status", we use "stage"
-          const validStages = ["prospecting", "qualification", "proposal", "negotiation", "closed_won", "closed_lost"];
-          let stage = "prospecting"; // default
-          
-          // If status is provided and is a valid stage value, use it
-          if (row.status && validStages.includes(row.status.toLowerCase())) {
-            stage = row.status.toLowerCase();
-          }
-          // Otherwise use stage if provided and valid
-          else if (row.stage && validStages.includes(row.stage.toLowerCase())) {
-            stage = row.stage.toLowerCase();
-          }
-          
-          const generatedOppId = (!row.id || row.id.trim() === "") ? await storage.generateId("Opportunity", req.activeOrgId || undefined) : row.id;
-          
-          const oppData: any = {
-            id: generatedOppId,
-            name: row.name,
-            accountId: row.accountId,
-            stage: stage,
-            amount: row.amount ? String(row.amount) : "0",
-            probability: row.probability ? Number(row.probability) : 0,
-            closeDate: parseDate(row.closeDate),
-            ownerId: req.user!.id,
-            status: row.status,
-            actualCloseDate: parseDate(row.actualCloseDate),
-            actualRevenue: row.actualRevenue ? String(row.actualRevenue) : null,
-            estCloseDate: parseDate(row.estCloseDate),
-            estRevenue: row.estRevenue ? String(row.estRevenue) : null,
-            rating: row.rating,
-            externalId: row.externalId,
-            sourceSystem: row.sourceSystem,
-            sourceRecordId: row.sourceRecordId,
-            importStatus: row.importStatus,
-            importNotes: row.importNotes,
-            organizationId: req.activeOrgId || undefined,
-          };
-          
-          // Check for duplicate by externalId (scoped to org)
-          if (oppData.externalId) {
-            const [existingByExternalId] = await db.select()
-              .from(opportunities)
-              .where(and(eq(opportunities.externalId, oppData.externalId), req.activeOrgId ? eq(opportunities.organizationId, req.activeOrgId) : undefined))
-              .limit(1);
-            
-            if (existingByExternalId) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Also check by ID if provided
-          if (oppData.id && oppData.id.trim() !== "") {
-            const existingById = await storage.getOpportunityById(oppData.id);
-            if (existingById) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          const validated = insertOpportunitySchema.parse(oppData);
-          await storage.createOpportunity(validated);
-          await createAudit(req, "import", "Opportunity", validated.id, null, validated);
-          
-          results.success++;
-        } catch (error: any) {
-          results.failed++;
-          results.errors.push({
-            row: i + 2,
-            error: error.message,
-            data: rawRow,
-          });
-        }
+      if (error instanceof CsvImportError) {
+        return res.status(error.status).json({ error: error.message });
       }
-      
-      return res.json(results);
-    } catch (error: any) {
-      console.error("Import opportunities error:", error);
-      return res.status(500).json({ error: "Failed to import opportunities", details: error.message });
+      console.error(`Import ${entity} error:`, error);
+      return res.status(500).json({ error: `Failed to import ${entity}`, details: error.message });
     }
-  });
+  };
   
-  app.post("/api/import/activities", authenticate, requirePermission("Activity", "create"), crudRateLimiter, upload.single("file"), async (req: AuthRequest, res) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
-      }
-      
-      const csvContent = req.file.buffer.toString("utf-8");
-      const records = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as unknown[];
-      
-      const results = {
-        total: records.length,
-        success: 0,
-        failed: 0,
-        skipped: 0,
-        errors: [] as Array<{ row: number; error: string; data: any }>,
-      };
-      
-      // Helper function to parse Dynamics date format (M/D/YY H:MM) to ISO
-      const parseDynamicsDate = (dateStr: string | null | undefined): Date | null => {
-        if (!dateStr || dateStr.trim() === "") return null;
-        
-        try {
-          // Handle format: "8/12/24 11:33" or "1/10/25 16:07"
-          const parts = dateStr.trim().split(" ");
-          if (parts.length !== 2) return null;
-          
-          const [datePart, timePart] = parts;
-          const [month, day, year] = datePart.split("/").map(Number);
-          const [hour, minute] = timePart.split(":").map(Number);
-          
-          // Convert 2-digit year to 4-digit (assuming 20xx)
-          const fullYear = year < 100 ? 2000 + year : year;
-          
-          // Create date object (month is 0-indexed in JS)
-          const date = new Date(fullYear, month - 1, day, hour, minute, 0);
-          
-          // Validate the date is valid
-          if (isNaN(date.getTime())) return null;
-          
-          return date;
-        } catch (error) {
-          console.error("Date parsing error:", error, "for date:", dateStr);
-          return null;
-        }
-      };
-      
-      for (let i = 0; i < records.length; i++) {
-        const rawRow = records[i];
-        try {
-          // Validate and parse CSV row with Zod schema
-          const row = activityCsvRowSchema.parse(rawRow);
-          
-          const completedAtDate = parseDynamicsDate(row.completedAt);
-          
-          const generatedActivityId = (!row.id || row.id.trim() === "") ? await storage.generateId("Activity", req.activeOrgId || undefined) : row.id;
-          
-          const activityData: any = {
-            id: generatedActivityId,
-            type: row.type || "task",
-            subject: row.subject,
-            status: "completed", // Default to completed for imported activities
-            priority: "medium", // Default priority
-            dueAt: completedAtDate, // Pass Date object directly to database
-            completedAt: completedAtDate, // Pass Date object directly to database
-            relatedType: row.relatedType,
-            relatedId: row.relatedId,
-            notes: row.notes,
-            externalId: row.externalId,
-            sourceSystem: row.sourceSystem,
-            sourceRecordId: row.sourceRecordId,
-            importStatus: row.importStatus,
-            importNotes: row.importNotes,
-            ownerId: req.user!.id,
-            organizationId: req.activeOrgId || undefined,
-          };
-          
-          // Check for duplicate by externalId (for Dynamics imports) or id (scoped to org)
-          if (activityData.externalId) {
-            const [existingByExternalId] = await db.select()
-              .from(activities)
-              .where(and(eq(activities.externalId, activityData.externalId), req.activeOrgId ? eq(activities.organizationId, req.activeOrgId) : undefined))
-              .limit(1);
-            
-            if (existingByExternalId) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Also check by ID if provided
-          if (activityData.id) {
-            const existingById = await storage.getActivityById(activityData.id);
-            if (existingById) {
-              results.skipped++;
-              continue;
-            }
-          }
-          
-          // Skip Zod validation for import - pass Date objects directly to storage
-          // The database expects Date objects for timestamp columns
-          await storage.createActivity(activityData as any);
-          await createAudit(req, "import", "Activity", activityData.id, null, activityData);
-          
-          results.success++;
-        } catch (error: any) {
-          results.failed++;
-          results.errors.push({
-            row: i + 2,
-            error: error.message,
-            data: rawRow,
-          });
-        }
-      }
-      
-      return res.json(results);
-    } catch (error: any) {
-      console.error("Import activities error:", error);
-      return res.status(500).json({ error: "Failed to import activities", details: error.message });
-    }
-  });
+  app.post("/api/import/accounts", authenticate, requirePermission("Account", "create"), crudRateLimiter, upload.single("file"), handleCsvImport("accounts"));
+  app.post("/api/import/contacts", authenticate, requirePermission("Contact", "create"), crudRateLimiter, upload.single("file"), handleCsvImport("contacts"));
+  // requireLeadPermission resolves req.activeOrgId to the effective lead org
+  app.post("/api/import/leads", authenticate, requireLeadPermission("create"), crudRateLimiter, upload.single("file"), handleCsvImport("leads"));
+  app.post("/api/import/opportunities", authenticate, requirePermission("Opportunity", "create"), crudRateLimiter, upload.single("file"), handleCsvImport("opportunities"));
+  app.post("/api/import/activities", authenticate, requirePermission("Activity", "create"), crudRateLimiter, upload.single("file"), handleCsvImport("activities"));
 
   // ========== COMMENTS SYSTEM ENDPOINTS ==========
 
@@ -4837,6 +4811,7 @@ export async function registerRoutes(app: Express) {
       }).returning();
       
       await createAudit(req, "create", "Comment", newComment.id, null, newComment);
+      notifyCommentCreated(newComment, req.activeOrgId);
       
       return res.status(201).json(newComment);
     } catch (error: any) {
@@ -5216,6 +5191,24 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // Attainment against sales quotas for the period containing ?date (default today)
+  app.get("/api/analytics/quota-attainment", authenticate, requireRole("Admin", "SalesManager", "SalesRep", "ReadOnly", "SalesOperator", "Reviewer"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const query = z.object({
+        period: z.enum(QUOTA_PERIOD_TYPES).default("quarter"),
+        date: z.coerce.date().optional(),
+      }).parse(req.query);
+      const attainment = await analyticsService.getQuotaAttainment(req.activeOrgId!, query.period, query.date);
+      return res.json(attainment);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Quota attainment error:", error);
+      return res.status(500).json({ error: "Failed to get quota attainment", details: error.message });
+    }
+  });
+
   app.get("/api/analytics/pipeline-health", authenticate, requireRole("Admin", "SalesManager", "SalesRep", "ReadOnly", "SalesOperator", "Reviewer"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
       const health = await analyticsService.calculatePipelineHealth(req.activeOrgId || undefined);
@@ -5431,6 +5424,7 @@ export async function registerRoutes(app: Express) {
       // Don't send hashed keys to client
       const sanitized = keys.map(k => ({
         id: k.id,
+        keyId: k.keyId, // Public; legacy keys (NULL) should be rotated
         name: k.name,
         description: k.description,
         organizationId: k.organizationId,
@@ -5455,7 +5449,7 @@ export async function registerRoutes(app: Express) {
   // Generate a new API key (admin only)
   app.post("/api/admin/api-keys", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
     try {
-      const data = insertApiKeySchema.omit({ hashedKey: true, createdBy: true }).parse(req.body);
+      const data = insertApiKeySchema.omit({ hashedKey: true, keyId: true, createdBy: true }).parse(req.body);
       
       // Resolve org binding: an explicit organizationId in the body wins
       // (null = system key for all orgs); otherwise fall back to the active org
@@ -5472,12 +5466,13 @@ export async function registerRoutes(app: Express) {
       }
       
       // Generate API key
-      const { publicKey, hashedKey } = generateApiKey();
+      const { publicKey, hashedKey, keyId } = generateApiKey();
       
       // Store in database
       const apiKey = await storage.createApiKey({
         ...data,
         hashedKey,
+        keyId,
         createdBy: req.user!.id,
         organizationId,
       });
@@ -5507,6 +5502,7 @@ export async function registerRoutes(app: Express) {
   app.delete("/api/admin/api-keys/:id", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
     try {
       const apiKey = await storage.revokeApiKey(req.params.id, req.user!.id);
+      invalidateApiKeyCache(req.params.id);
       return res.json({ success: true, apiKey });
     } catch (error) {
       console.error("Error revoking API key:", error);
@@ -5879,10 +5875,13 @@ export async function registerRoutes(app: Express) {
 
   type OpenAiResponseBody = { model?: string; error?: { message?: string } };
 
+  // ?scope=global manages the default configuration used by organizations without their own
+  const llmConfigOrgId = (req: AuthRequest) => req.query.scope === "global" ? undefined : req.activeOrgId || undefined;
+
   // GET /api/admin/llm-config - fetch current LLM configuration (API key never sent)
   app.get("/api/admin/llm-config", authenticate, requireGlobalRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
     try {
-      const config = await storage.getLlmConfiguration(req.activeOrgId || undefined);
+      const config = await storage.getLlmConfiguration(llmConfigOrgId(req));
       if (!config) {
         return res.json(null);
       }
@@ -5922,7 +5921,7 @@ export async function registerRoutes(app: Express) {
         updateData.apiKeyHint = plainKey.slice(-4);
       }
 
-      const config = await storage.upsertLlmConfiguration(updateData, req.activeOrgId || undefined);
+      const config = await storage.upsertLlmConfiguration(updateData, llmConfigOrgId(req));
       const { encryptedApiKey: _omit, ...safeConfig } = config;
       return res.json({ ...safeConfig, hasApiKey: !!config.encryptedApiKey });
     } catch (error) {
@@ -5934,7 +5933,7 @@ export async function registerRoutes(app: Express) {
   // POST /api/admin/llm-config/test - ping the configured LLM and return latency / model
   app.post("/api/admin/llm-config/test", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
     try {
-      const config = await storage.getLlmConfiguration(req.activeOrgId || undefined);
+      const config = await storage.getLlmConfiguration(llmConfigOrgId(req));
       if (!config || !config.encryptedApiKey) {
         return res.json({
           success: false,
@@ -6078,105 +6077,6 @@ export async function registerRoutes(app: Express) {
     }
   });
 
-  // GET /api/admin/research/status - return current active search provider
-  app.get("/api/admin/research/status", authenticate, requireGlobalRole("Admin"), readRateLimiter, async (_req: AuthRequest, res) => {
-    const azureEnvConfigured = !!(
-      process.env.AZURE_OPENAI_API_KEY &&
-      process.env.AZURE_OPENAI_BASE_URL &&
-      process.env.AZURE_OPENAI_MODEL
-    );
-    const braveConfigured = !!process.env.BRAVE_SEARCH_API_KEY;
-    const serperConfigured = !!process.env.SERPER_API_KEY;
-
-    // Check if the DB LLM config is Azure (can be used as web search source)
-    let azureDbConfigured = false;
-    let azureSource: "env" | "db_llm_config" | null = null;
-    try {
-      const llmRows = await db.select({
-        provider: llmConfigurations.provider,
-        encryptedApiKey: llmConfigurations.encryptedApiKey,
-        baseUrl: llmConfigurations.baseUrl,
-      }).from(llmConfigurations).orderBy(desc(llmConfigurations.updatedAt)).limit(1);
-      const llmCfg = llmRows[0];
-      if (llmCfg && llmCfg.provider === "azure" && llmCfg.encryptedApiKey && llmCfg.baseUrl) {
-        azureDbConfigured = true;
-      }
-    } catch {
-      // ignore DB errors for status check
-    }
-
-    const azureConfigured = azureEnvConfigured || azureDbConfigured;
-    if (azureEnvConfigured) azureSource = "env";
-    else if (azureDbConfigured) azureSource = "db_llm_config";
-
-    let activeProvider: string;
-    if (azureConfigured) activeProvider = "azure_web_search";
-    else if (braveConfigured) activeProvider = "brave";
-    else if (serperConfigured) activeProvider = "serper";
-    else activeProvider = "none";
-
-    return res.json({
-      activeProvider,
-      azure: { configured: azureConfigured, source: azureSource },
-      brave: { configured: braveConfigured },
-      serper: { configured: serperConfigured },
-    });
-  });
-
-  // POST /api/admin/research/test - verify Azure web search connectivity via AzureWebSearchProvider
-  app.post("/api/admin/research/test", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (_req: AuthRequest, res) => {
-    try {
-      const { AzureWebSearchProvider, isAzureWebSearchConfigured } = await import("./lib/research/providers/AzureWebSearchProvider");
-      const { decryptApiKey, isEncryptedKey } = await import("./llm-key-utils");
-      let provider: InstanceType<typeof AzureWebSearchProvider>;
-
-      try {
-        if (isAzureWebSearchConfigured()) {
-          provider = new AzureWebSearchProvider();
-        } else {
-          // Fall back to DB LLM config
-          const llmRows = await db.select().from(llmConfigurations)
-            .orderBy(desc(llmConfigurations.updatedAt)).limit(1);
-          const cfg = llmRows[0];
-          if (!cfg || cfg.provider !== "azure" || !cfg.encryptedApiKey || !cfg.baseUrl) {
-            return res.json({
-              success: false,
-              error: "Azure web search is not configured. Set AZURE_OPENAI_API_KEY/BASE_URL/MODEL env vars, or configure an Azure LLM in Admin Console → AI Configuration.",
-            });
-          }
-          let apiKey: string;
-          try {
-            apiKey = isEncryptedKey(cfg.encryptedApiKey)
-              ? decryptApiKey(cfg.encryptedApiKey)
-              : cfg.encryptedApiKey;
-          } catch {
-            return res.json({ success: false, error: "Failed to decrypt Azure API key from database." });
-          }
-          provider = new AzureWebSearchProvider({
-            apiKey,
-            baseUrl: cfg.baseUrl,
-            model: cfg.modelName,
-          });
-        }
-      } catch (configErr) {
-        return res.json({
-          success: false,
-          error: configErr instanceof Error ? configErr.message : String(configErr),
-        });
-      }
-
-      // Do a lightweight live search to confirm connectivity and Responses API support
-      await provider.search("Azure OpenAI web search connectivity test");
-      return res.json({ success: true });
-    } catch (error) {
-      console.error("Azure web search test error:", error);
-      return res.json({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
   // ========== CRM DOCUMENT ATTACHMENTS ==========
   // File attachments for Lead, Account, Contact, and Opportunity records.
   // File content stored as base64 in the crm_documents.file_data column (no disk I/O).
@@ -6430,20 +6330,24 @@ export async function registerRoutes(app: Express) {
     if (entityType === "candidate_contact" && !(await hasAnyRole(req.user!.id, ["Admin", "SalesManager", "SalesOperator", "Reviewer"], req.activeOrgId || undefined))) {
       return res.status(403).json({ error: "Forbidden" });
     }
+    if (!req.activeOrgId) {
+      return res.status(400).json({ error: "Active organization context required. Set X-Organization-Id header." });
+    }
+    const orgId = req.activeOrgId;
 
     try {
       const { getLlmConfigForResearch, callLlmForResearch, performWebSearchForResearch, isWebSearchConfiguredForResearch } = await import("./contact-research-service");
 
-      const llmConfig = await getLlmConfigForResearch();
+      const llmConfig = await getLlmConfigForResearch(orgId, req.user!.id);
       if (!llmConfig) {
         return res.status(503).json({
           error: "No LLM provider is configured. Please configure an AI provider in Admin Console → AI Configuration.",
         });
       }
 
-      if (!(await isWebSearchConfiguredForResearch())) {
+      if (!(await isWebSearchConfiguredForResearch(orgId))) {
         return res.status(503).json({
-          error: "No web search provider is configured. Please configure Azure AI Search, Brave Search, or Serper in environment settings.",
+          error: "No web search provider is configured. Please choose Azure OpenAI web search, Brave Search or Serper in Admin Console → AI Configuration → Web Search Provider.",
         });
       }
 
@@ -6522,7 +6426,7 @@ export async function registerRoutes(app: Express) {
         ? `${firstName} ${lastName} ${company} email phone contact information`
         : `${firstName} ${lastName} professional contact email phone`;
 
-      const searchResults = await performWebSearchForResearch(searchQuery);
+      const searchResults = await performWebSearchForResearch(orgId, searchQuery);
 
       const searchContext = searchResults.length > 0
         ? searchResults.map(r => `Source: ${r.title}\nURL: ${r.url}\nContent: ${r.snippet}`).join("\n\n---\n\n")
@@ -6636,6 +6540,9 @@ Set a field to null if you cannot find that information with sufficient confiden
         },
       });
     } catch (err) {
+      if (err instanceof LlmBudgetExceededError) {
+        return res.status(err.status).json({ error: err.message });
+      }
       console.error("[ContactResearch] Error:", err);
       const message = err instanceof Error ? err.message : "An unexpected error occurred";
       return res.status(500).json({ error: message });
@@ -0,0 +1,57 @@
+// Sales process routes. Every signed-in user reads the active organization's
+// stages (Kanban columns, stage pickers, forecasts); admins replace them in
+// the Admin Console. Scoped to the active organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter } from "./rate-limiters";
+import { updateSalesProcessSchema } from "@shared/schema";
+import { SalesProcessError, describeSalesProcess, replaceSalesProcess } from "./sales-process-service";
+
+export function registerSalesProcessRoutes(app: Express) {
+  // GET /api/sales-process — ordered stages with probabilities and exit criteria
+  app.get("/api/sales-process", authenticate, readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await describeSalesProcess(req.activeOrgId));
+    } catch (error) {
+      console.error("Error fetching sales process:", error);
+      return res.status(500).json({ error: "Failed to fetch sales process" });
+    }
+  });
+
+  // PUT /api/admin/sales-process — replace the whole process; array order is stage order
+  app.put("/api/admin/sales-process", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const { stages } = updateSalesProcessSchema.parse(req.body);
+      const before = await describeSalesProcess(req.activeOrgId);
+      const process = await replaceSalesProcess(req.activeOrgId!, stages);
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: "update",
+          resource: "SalesProcess",
+          resourceId: req.activeOrgId!,
+          before: before.stages,
+          after: process.stages,
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+      return res.json(process);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof SalesProcessError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating sales process:", error);
+      return res.status(500).json({ error: "Failed to update sales process" });
+    }
+  });
+}
@@ -0,0 +1,171 @@
+// Org-scoped sales processes (the ordered opportunity stages, their default
+// probabilities and exit criteria) and the stage check every opportunity
+// write path runs before saving. The rules themselves live in lib/sales-process.
+
+import { db, eq, and, asc, sql } from "./db";
+import { notInArray } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { SalesProcessStageInput } from "@shared/schema";
+import { listCustomFieldDefinitions } from "./custom-field-service";
+import {
+  DEFAULT_SALES_PROCESS,
+  checkStageChange,
+  openStages,
+  stageLabel,
+  stageProbabilities,
+  validateSalesProcess,
+  type ProcessStage,
+  type StageCheckSubject,
+  type StageRequirementIssue,
+} from "./lib/sales-process";
+
+export class SalesProcessError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "SalesProcessError";
+  }
+}
+
+/** The opportunity does not meet the exit criteria of a stage it would leave. */
+export class StageRequirementsError extends Error {
+  status = 422;
+
+  constructor(public toStage: string, toLabel: string, public issues: StageRequirementIssue[]) {
+    super(`Cannot move to ${toLabel}: ${issues.map(issue => issue.message).join("; ")}`);
+    this.name = "StageRequirementsError";
+  }
+
+  /** Same shape as ZodError.errors so clients can render both the same way. */
+  get details() {
+    return this.issues.map(issue => ({ path: issue.field.split("."), message: issue.message, stage: issue.stage }));
+  }
+}
+
+export interface SalesProcessView {
+  stages: ProcessStage[];
+  /** No process saved; these are the default stages. */
+  isDefault: boolean;
+}
+
+function toProcessStage(row: schema.SalesProcessStage): ProcessStage {
+  return {
+    key: row.key,
+    label: row.label,
+    probability: row.probability,
+    exitCriteria: {
+      requiredFields: row.exitCriteria.requiredFields ?? [],
+      requiredContactRoles: row.exitCriteria.requiredContactRoles ?? [],
+    },
+  };
+}
+
+export async function describeSalesProcess(orgId: string | null | undefined): Promise<SalesProcessView> {
+  if (!orgId) return { stages: DEFAULT_SALES_PROCESS, isDefault: true };
+  const rows = await db.select().from(schema.salesProcessStages)
+    .where(eq(schema.salesProcessStages.organizationId, orgId))
+    .orderBy(asc(schema.salesProcessStages.position));
+  return rows.length > 0
+    ? { stages: rows.map(toProcessStage), isDefault: false }
+    : { stages: DEFAULT_SALES_PROCESS, isDefault: true };
+}
+
+export async function getSalesProcess(orgId: string | null | undefined): Promise<ProcessStage[]> {
+  return (await describeSalesProcess(orgId)).stages;
+}
+
+/**
+ * Default stage probabilities (as fractions) for opportunities across one
+ * organization, or every organization when `orgId` is omitted.
+ */
+export async function getStageProbabilityLookup(orgId?: string): Promise<(opp: { organizationId: string; stage: string }) => number> {
+  const rows = await db.select().from(schema.salesProcessStages)
+    .where(orgId ? eq(schema.salesProcessStages.organizationId, orgId) : undefined)
+    .orderBy(asc(schema.salesProcessStages.position));
+  const byOrg = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    const probabilities = byOrg.get(row.organizationId) ?? {};
+    probabilities[row.key] = row.probability / 100;
+    byOrg.set(row.organizationId, probabilities);
+  }
+  const defaults = stageProbabilities(DEFAULT_SALES_PROCESS);
+  return opp => (byOrg.get(opp.organizationId) ?? defaults)[opp.stage] ?? 0;
+}
+
+/**
+ * Replace an organization's process. Stages still holding opportunities
+ * cannot be removed; move those deals first.
+ */
+export async function replaceSalesProcess(orgId: string, stages: SalesProcessStageInput[]): Promise<SalesProcessView> {
+  const customFields = await listCustomFieldDefinitions(orgId, "opportunity");
+  const errors = validateSalesProcess(stages, new Set(customFields.map(field => field.key)));
+  if (errors.length > 0) throw new SalesProcessError(errors.join("; "), 422);
+
+  const current = await getSalesProcess(orgId);
+  const keys = stages.map(stage => stage.key);
+  const inUse = await db.select({ stage: schema.opportunities.stage, count: sql<number>`count(*)::int` })
+    .from(schema.opportunities)
+    .where(and(eq(schema.opportunities.organizationId, orgId), notInArray(schema.opportunities.stage, keys)))
+    .groupBy(schema.opportunities.stage);
+  if (inUse.length > 0) {
+    const described = inUse.map(row => `${stageLabel(current, row.stage)} (${row.count})`).join(", ");
+    throw new SalesProcessError(`Move the opportunities out of these stages before removing them: ${described}`, 409);
+  }
+
+  await db.transaction(async (tx: typeof db) => {
+    await tx.delete(schema.salesProcessStages).where(eq(schema.salesProcessStages.organizationId, orgId));
+    await tx.insert(schema.salesProcessStages).values(stages.map((stage, position) => ({
+      organizationId: orgId,
+      key: stage.key,
+      label: stage.label,
+      position,
+      probability: stage.probability,
+      exitCriteria: stage.exitCriteria,
+    })));
+  });
+  return describeSalesProcess(orgId);
+}
+
+/**
+ * The stage a new opportunity is created in: `stage` when the process has
+ * it, the first stage when none was given.
+ */
+export async function resolveNewOpportunityStage(orgId: string | null | undefined, stage?: string | null): Promise<string> {
+  const process = await getSalesProcess(orgId);
+  if (!stage) return (openStages(process)[0] ?? process[0]).key;
+  if (!process.some(s => s.key === stage)) throw unknownStage(process, stage);
+  return stage;
+}
+
+/**
+ * Check an opportunity write that sets `opportunity.stage`. `fromStage` is
+ * the stored stage (null for a new opportunity) and `opportunity` the record
+ * as it would be saved. Throws SalesProcessError for a stage the process
+ * does not have and StageRequirementsError when exit criteria are not met.
+ */
+export async function assertStageChange(
+  orgId: string | null | undefined,
+  fromStage: string | null,
+  opportunity: StageCheckSubject & { id?: string; stage: string },
+): Promise<void> {
+  if (fromStage === opportunity.stage) return;
+  const process = await getSalesProcess(orgId);
+  if (!process.some(stage => stage.key === opportunity.stage)) throw unknownStage(process, opportunity.stage);
+
+  const contactRoles = opportunity.id
+    ? (await db.select({ role: schema.opportunityContacts.role }).from(schema.opportunityContacts)
+        .where(eq(schema.opportunityContacts.opportunityId, opportunity.id))).map(row => row.role)
+    : [];
+  const needsCustomFields = process.some(stage => stage.exitCriteria.requiredFields?.some(f => f.startsWith("customFields.")));
+  const customFieldLabels = needsCustomFields && orgId
+    ? Object.fromEntries((await listCustomFieldDefinitions(orgId, "opportunity")).map(field => [field.key, field.label]))
+    : {};
+
+  const issues = checkStageChange(process, fromStage, opportunity.stage, opportunity, contactRoles, customFieldLabels);
+  if (issues.length > 0) {
+    throw new StageRequirementsError(opportunity.stage, stageLabel(process, opportunity.stage), issues);
+  }
+}
+
+function unknownStage(process: ProcessStage[], stage: string): SalesProcessError {
+  return new SalesProcessError(`Unknown stage "${stage}". Expected one of: ${process.map(s => s.key).join(", ")}`);
+}
@@ -91,7 +91,7 @@ export interface IStorage {
   getActivities(orgId: string, filters?: ActivityListFilters): Promise<Activity[]>;
   getActivityById(id: string, orgId?: string): Promise<Activity | undefined>;
   findOrCreateActivityByExternalId(externalId: string, orgId: string, activity: InsertActivity): Promise<{ activity: Activity; created: boolean }>;
-  createActivity(activity: InsertActivity): Promise<Activity>;
+  createActivity(activity: InsertActivity, series?: ActivitySeriesLink): Promise<Activity>;
   updateActivity(id: string, activity: Partial<InsertActivity>): Promise<Activity>;
   deleteActivity(id: string): Promise<void>;
   
@@ -128,6 +128,8 @@ export interface IStorage {
   getAllApiKeys(orgId?: string): Promise<ApiKey[]>;
   getApiKeyById(id: string): Promise<ApiKey | undefined>;
   getApiKeyByHashedKey(hashedKey: string): Promise<ApiKey | undefined>;
+  getApiKeyByKeyId(keyId: string): Promise<ApiKey | undefined>;
+  getLegacyApiKeys(): Promise<ApiKey[]>;
   createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
   updateApiKeyLastUsed(id: string): Promise<void>;
   revokeApiKey(id: string, userId: string): Promise<ApiKey>;
@@ -285,6 +287,8 @@ export interface LeadListFilters {
   source?: string;       // lead_source enum value
   updatedSince?: Date;
   includeArchived?: boolean; // Default false: archived leads stay out of active workflows
+  minScore?: number;     // Only scored leads at or above this lead score
+  sort?: "createdAt" | "score"; // Default newest first; "score" is highest score first, unscored last
 }
 
 export interface OpportunityListFilters {
@@ -292,7 +296,7 @@ export interface OpportunityListFilters {
   search?: string;             // Case-insensitive substring match on opportunity name
   accountId?: string;          // Exact account ID match
   status?: string;             // Case-insensitive exact match on status text
-  stage?: string;              // opportunity_stage enum value
+  stage?: string;              // Stage key from the org's sales process
   ownerId?: string;            // Exact owner ID match
   rating?: string;             // Case-insensitive exact match
   includeInForecast?: boolean; // Exact boolean match (omit for "all")
@@ -311,6 +315,12 @@ export interface ActivityListFilters {
   updatedSince?: Date;    // updated_at strictly after this timestamp
 }
 
+// Links a newly created activity to a recurring series occurrence
+export interface ActivitySeriesLink {
+  seriesId: string;
+  occurrenceAt: Date;
+}
+
 export interface ContactListFilters {
   tagId?: string;         // Only records that carry this tag (entity_tags join)
   search?: string;       // Case-insensitive substring match on "first last" name
@@ -0,0 +1,162 @@
+// Web search provider selection
+// Admins pick the web search provider an organization's lead generation runs
+// and contact research use (Azure OpenAI web search, Brave, Serper, recorded
+// fixtures, or none) in Admin Console → AI Configuration. Organizations without
+// their own choice use the default row; without any row the provider is picked
+// from the environment as before ("auto").
+
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "./db";
+import * as schema from "@shared/schema";
+import type { WebSearchConfigInput, WebSearchConfiguration, WebSearchProviderChoice } from "@shared/schema";
+import { decryptApiKey, encryptApiKey, isEncryptedKey } from "./llm-key-utils";
+import { resolveLlmApiKey, resolveLlmConfiguration } from "./llm-config-service";
+import { buildResearchProvider, researchFixturesDir, researchSettingsFromEnv, type ResearchProviderSettings } from "./lib/research/provider-factory";
+import { isAzureWebSearchConfigured, type AzureWebSearchConfig } from "./lib/research/providers/AzureWebSearchProvider";
+import type { ResearchMode, ResearchProvider } from "./lib/research/types";
+
+/** Where a resolved provider's settings came from. */
+export type ResearchProviderSource = "settings" | "env" | "ai_config" | "llm_config";
+
+export interface ResolvedResearchProvider {
+  /** The configured choice; "auto" when nothing was chosen. */
+  choice: WebSearchProviderChoice;
+  mode: ResearchMode;
+  /** Null when no provider is configured or the chosen one can't be used. */
+  provider: ResearchProvider | null;
+  source: ResearchProviderSource | null;
+  /** Why the chosen provider can't be used. */
+  error: string | null;
+}
+
+/** The organization's own row, or the default row when orgId is omitted. No fallback. */
+export async function getWebSearchConfiguration(organizationId?: string): Promise<WebSearchConfiguration | undefined> {
+  const [row] = await db.select().from(schema.webSearchConfigurations)
+    .where(organizationId
+      ? eq(schema.webSearchConfigurations.organizationId, organizationId)
+      : isNull(schema.webSearchConfigurations.organizationId))
+    .limit(1);
+  return row;
+}
+
+/** The organization's own configuration, else the default one. */
+export async function resolveWebSearchConfiguration(organizationId: string | null | undefined): Promise<WebSearchConfiguration | undefined> {
+  if (organizationId) {
+    const own = await getWebSearchConfiguration(organizationId);
+    if (own) return own;
+  }
+  return getWebSearchConfiguration();
+}
+
+export async function saveWebSearchConfiguration(input: WebSearchConfigInput, organizationId: string | undefined, updatedBy: string): Promise<WebSearchConfiguration> {
+  const values: Partial<typeof schema.webSearchConfigurations.$inferInsert> = {
+    provider: input.provider,
+    updatedBy,
+    updatedAt: new Date(),
+  };
+  if (input.baseUrl !== undefined) values.baseUrl = input.baseUrl || null;
+  if (input.apiKey === null) {
+    values.encryptedApiKey = null;
+    values.apiKeyHint = null;
+  } else if (input.apiKey) {
+    values.encryptedApiKey = encryptApiKey(input.apiKey);
+    values.apiKeyHint = input.apiKey.slice(-4);
+  }
+
+  const existing = await getWebSearchConfiguration(organizationId);
+  if (existing) {
+    const [row] = await db.update(schema.webSearchConfigurations)
+      .set(values)
+      .where(eq(schema.webSearchConfigurations.id, existing.id))
+      .returning();
+    return row;
+  }
+  const [row] = await db.insert(schema.webSearchConfigurations)
+    .values({ ...values, provider: input.provider, organizationId: organizationId ?? null })
+    .returning();
+  return row;
+}
+
+function storedApiKey(cfg: WebSearchConfiguration | undefined): string | null {
+  if (!cfg?.encryptedApiKey) return null;
+  try {
+    return isEncryptedKey(cfg.encryptedApiKey) ? decryptApiKey(cfg.encryptedApiKey) : cfg.encryptedApiKey;
+  } catch (e) {
+    console.warn("[Research] Failed to decrypt web search API key:", e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
+
+/** Azure web search from the AZURE_OPENAI_* env vars, else from the organization's Azure LLM configuration. */
+async function azureSettings(organizationId: string | null | undefined): Promise<{ settings: ResearchProviderSettings; source: ResearchProviderSource } | null> {
+  if (isAzureWebSearchConfigured()) return { settings: { mode: "azure_web_search" }, source: "env" };
+  const llmCfg = await resolveLlmConfiguration(organizationId);
+  const apiKey = llmCfg ? resolveLlmApiKey(llmCfg) : null;
+  if (llmCfg?.provider === "azure" && apiKey && llmCfg.baseUrl) {
+    const azure: AzureWebSearchConfig = { apiKey, baseUrl: llmCfg.baseUrl, model: llmCfg.modelName };
+    return { settings: { mode: "azure_web_search", azure }, source: "llm_config" };
+  }
+  return null;
+}
+
+/** The pre-selection order: env vars, a lead-gen "search" AI config, then an Azure LLM configuration. */
+async function autoSettings(organizationId: string | null | undefined): Promise<{ settings: ResearchProviderSettings; source: ResearchProviderSource } | null> {
+  const fromEnv = researchSettingsFromEnv();
+  if (fromEnv?.mode === "fixture" || fromEnv?.mode === "azure_web_search") return { settings: fromEnv, source: "env" };
+
+  // Search AI configs reference their key by env var name only
+  const [aiConfig] = await db.select().from(schema.aiConfigs)
+    .where(and(eq(schema.aiConfigs.agentPhase, "search"), eq(schema.aiConfigs.isActive, true)))
+    .orderBy(desc(schema.aiConfigs.createdAt))
+    .limit(1);
+  const aiConfigKey = aiConfig?.apiKeyEnvVar ? process.env[aiConfig.apiKeyEnvVar] : undefined;
+  if (aiConfig && aiConfigKey && (aiConfig.provider === "brave" || aiConfig.provider === "serper")) {
+    return { settings: { mode: aiConfig.provider, apiKey: aiConfigKey, baseUrl: aiConfig.baseUrl }, source: "ai_config" };
+  }
+
+  if (fromEnv) return { settings: fromEnv, source: "env" };
+  return azureSettings(organizationId);
+}
+
+/** The web search provider the organization's searches go through. */
+export async function resolveResearchProvider(organizationId: string | null | undefined): Promise<ResolvedResearchProvider> {
+  const cfg = await resolveWebSearchConfiguration(organizationId);
+  const choice = cfg?.provider ?? "auto";
+  const unavailable = (mode: ResearchMode, error: string | null, source: ResearchProviderSource | null = "settings"): ResolvedResearchProvider =>
+    ({ choice, mode, provider: null, source, error });
+
+  let resolved: { settings: ResearchProviderSettings; source: ResearchProviderSource } | null;
+  switch (choice) {
+    case "none":
+      return unavailable("none", null);
+    case "fixture":
+      resolved = { settings: { mode: "fixture", dir: researchFixturesDir() }, source: "settings" };
+      break;
+    case "brave":
+    case "serper": {
+      const envKey = choice === "brave" ? process.env.BRAVE_SEARCH_API_KEY : process.env.SERPER_API_KEY;
+      const ownKey = storedApiKey(cfg);
+      resolved = { settings: { mode: choice, apiKey: ownKey || envKey || "", baseUrl: cfg?.baseUrl }, source: ownKey ? "settings" : "env" };
+      break;
+    }
+    case "azure_web_search":
+      resolved = await azureSettings(organizationId);
+      if (!resolved) {
+        return unavailable("azure_web_search", "Azure web search needs the AZURE_OPENAI_API_KEY, AZURE_OPENAI_BASE_URL and AZURE_OPENAI_MODEL env vars, or an Azure LLM configuration.");
+      }
+      break;
+    default:
+      resolved = await autoSettings(organizationId);
+      if (!resolved) return unavailable("none", null, null);
+  }
+
+  let provider: ResearchProvider;
+  try {
+    provider = buildResearchProvider(resolved.settings);
+  } catch (err) {
+    return unavailable(resolved.settings.mode, err instanceof Error ? err.message : String(err), resolved.source);
+  }
+  const error = provider.validateConfig();
+  if (error) return unavailable(provider.mode, error, resolved.source);
+  return { choice, mode: provider.mode, provider, source: resolved.source, error: null };
+}
@@ -0,0 +1,117 @@
+// Web search provider routes. Global admins choose the web search provider
+// for the active organization, or the default for organizations without a
+// choice (?scope=global), check what searches will actually use, and run a
+// live test search. Selection is resolved in web-search-config-service.ts.
+
+import type { Express } from "express";
+import { z } from "zod";
+import { existsSync } from "fs";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireGlobalRole } from "./rbac";
+import { readRateLimiter, sensitiveRateLimiter } from "./rate-limiters";
+import { webSearchConfigInputSchema, type WebSearchConfiguration } from "@shared/schema";
+import { resolveLlmApiKey, resolveLlmConfiguration } from "./llm-config-service";
+import { getWebSearchConfiguration, resolveResearchProvider, saveWebSearchConfiguration } from "./web-search-config-service";
+import { isAzureWebSearchConfigured } from "./lib/research/providers/AzureWebSearchProvider";
+import { researchFixturesDir } from "./lib/research/provider-factory";
+
+const configOrgId = (req: AuthRequest) => req.query.scope === "global" ? undefined : req.activeOrgId || undefined;
+
+function safeConfig(config: WebSearchConfiguration | undefined) {
+  if (!config) return null;
+  const { encryptedApiKey: _omit, ...rest } = config;
+  return { ...rest, hasApiKey: !!config.encryptedApiKey };
+}
+
+async function researchStatus(req: AuthRequest) {
+  const orgId = configOrgId(req);
+  const [config, resolved, llmCfg] = await Promise.all([
+    getWebSearchConfiguration(orgId),
+    resolveResearchProvider(orgId),
+    resolveLlmConfiguration(orgId),
+  ]);
+  const azureEnvConfigured = isAzureWebSearchConfigured();
+  const azureDbConfigured = !!(llmCfg && llmCfg.provider === "azure" && llmCfg.baseUrl && resolveLlmApiKey(llmCfg));
+  const fixturesDir = researchFixturesDir();
+
+  return {
+    config: safeConfig(config),
+    choice: resolved.choice,
+    activeProvider: resolved.provider ? resolved.mode : "none",
+    source: resolved.source,
+    error: resolved.error,
+    azure: {
+      configured: azureEnvConfigured || azureDbConfigured,
+      source: azureEnvConfigured ? "env" : azureDbConfigured ? "db_llm_config" : null,
+    },
+    brave: { configured: !!process.env.BRAVE_SEARCH_API_KEY },
+    serper: { configured: !!process.env.SERPER_API_KEY },
+    fixture: { configured: existsSync(fixturesDir), dir: fixturesDir },
+  };
+}
+
+export function registerWebSearchRoutes(app: Express) {
+  // GET /api/admin/research/status — the saved choice and the provider searches will use
+  app.get("/api/admin/research/status", authenticate, requireGlobalRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await researchStatus(req));
+    } catch (error) {
+      console.error("Error fetching web search status:", error);
+      return res.status(500).json({ error: "Failed to fetch web search status" });
+    }
+  });
+
+  // PUT /api/admin/research/config — choose the provider; a blank apiKey keeps the stored one
+  app.put("/api/admin/research/config", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const input = webSearchConfigInputSchema.parse(req.body);
+      const orgId = configOrgId(req);
+      const before = await getWebSearchConfiguration(orgId);
+      const saved = await saveWebSearchConfiguration(input, orgId, req.user!.id);
+      try {
+        await storage.createAuditLog({
+          actorId: req.user?.id || null,
+          action: before ? "update" : "create",
+          resource: "WebSearchConfiguration",
+          resourceId: saved.id,
+          before: safeConfig(before),
+          after: safeConfig(saved),
+          ipAddress: req.ip || req.connection.remoteAddress || null,
+          userAgent: req.headers["user-agent"] || null,
+        });
+      } catch (error) {
+        console.error("Error creating audit log:", error);
+      }
+      return res.json(await researchStatus(req));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error saving web search configuration:", error);
+      return res.status(500).json({ error: "Failed to save web search configuration" });
+    }
+  });
+
+  // POST /api/admin/research/test — run a live search through the provider searches will use
+  app.post("/api/admin/research/test", authenticate, requireGlobalRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const resolved = await resolveResearchProvider(configOrgId(req));
+      if (!resolved.provider) {
+        return res.json({
+          success: false,
+          provider: resolved.mode,
+          error: resolved.error ?? "No web search provider is configured. Choose one above, or set AZURE_OPENAI_*, BRAVE_SEARCH_API_KEY or SERPER_API_KEY.",
+        });
+      }
+      const results = await resolved.provider.search("healthcare technology companies");
+      return res.json({ success: true, provider: resolved.mode, resultCount: results.length });
+    } catch (error) {
+      console.error("Web search test error:", error);
+      return res.json({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  });
+}
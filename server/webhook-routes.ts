@@ -0,0 +1,168 @@
+// Outbound webhook management routes (Admin Console)
+// All routes are scoped to the active organization (X-Organization-Id).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./db";
+import { authenticate, type AuthRequest } from "./auth";
+import { requireRole } from "./rbac";
+import { crudRateLimiter, readRateLimiter, sensitiveRateLimiter } from "./rate-limiters";
+import { insertWebhookSubscriptionSchema, WEBHOOK_EVENTS } from "@shared/schema";
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  formatWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  redeliverWebhook,
+  rotateWebhookSecret,
+  updateWebhookSubscription,
+} from "./webhook-service";
+
+const deliveryStatusSchema = z.enum(["pending", "succeeded", "failed", "dead_letter"]);
+
+async function auditWebhookChange(req: AuthRequest, action: string, resourceId: string | null, before: any, after: any) {
+  try {
+    await storage.createAuditLog({
+      actorId: req.user?.id || null,
+      action,
+      resource: "WebhookSubscription",
+      resourceId,
+      before,
+      after,
+      ipAddress: req.ip || req.connection.remoteAddress || null,
+      userAgent: req.headers["user-agent"] || null,
+    });
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+export function registerWebhookRoutes(app: Express) {
+  // GET /api/admin/webhooks/events — subscribable event names
+  app.get("/api/admin/webhooks/events", authenticate, requireRole("Admin"), readRateLimiter, async (_req: AuthRequest, res) => {
+    return res.json(WEBHOOK_EVENTS);
+  });
+
+  // GET /api/admin/webhooks — list subscriptions for the active org
+  app.get("/api/admin/webhooks", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const subscriptions = await listWebhookSubscriptions(req.activeOrgId!);
+      return res.json(subscriptions.map(formatWebhookSubscription));
+    } catch (error) {
+      console.error("Error fetching webhook subscriptions:", error);
+      return res.status(500).json({ error: "Failed to fetch webhook subscriptions" });
+    }
+  });
+
+  // POST /api/admin/webhooks — create a subscription; the signing secret is only returned here
+  app.post("/api/admin/webhooks", authenticate, requireRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const data = insertWebhookSubscriptionSchema.parse(req.body);
+      const { subscription, secret } = await createWebhookSubscription(req.activeOrgId!, data, req.user!.id);
+      const formatted = formatWebhookSubscription(subscription);
+      await auditWebhookChange(req, "create", subscription.id, null, formatted);
+      return res.status(201).json({
+        ...formatted,
+        secret,
+        warning: "This is the only time the signing secret will be shown. Please save it securely.",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error creating webhook subscription:", error);
+      return res.status(500).json({ error: "Failed to create webhook subscription" });
+    }
+  });
+
+  // PATCH /api/admin/webhooks/:id — update url/events/name/active flag
+  app.patch("/api/admin/webhooks/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const existing = await getWebhookSubscription(req.params.id, req.activeOrgId!);
+      if (!existing) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      const data = insertWebhookSubscriptionSchema.partial().parse(req.body);
+      const updated = await updateWebhookSubscription(existing.id, req.activeOrgId!, data);
+      await auditWebhookChange(req, "update", existing.id, formatWebhookSubscription(existing), updated && formatWebhookSubscription(updated));
+      return res.json(updated && formatWebhookSubscription(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error updating webhook subscription:", error);
+      return res.status(500).json({ error: "Failed to update webhook subscription" });
+    }
+  });
+
+  // POST /api/admin/webhooks/:id/rotate-secret — issue a new signing secret
+  app.post("/api/admin/webhooks/:id/rotate-secret", authenticate, requireRole("Admin"), sensitiveRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const result = await rotateWebhookSecret(req.params.id, req.activeOrgId!);
+      if (!result) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      await auditWebhookChange(req, "rotate_secret", result.subscription.id, null, null);
+      return res.json({
+        ...formatWebhookSubscription(result.subscription),
+        secret: result.secret,
+        warning: "This is the only time the signing secret will be shown. Please save it securely.",
+      });
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      return res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // DELETE /api/admin/webhooks/:id — remove a subscription and its delivery log
+  app.delete("/api/admin/webhooks/:id", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const existing = await getWebhookSubscription(req.params.id, req.activeOrgId!);
+      if (!existing) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      await deleteWebhookSubscription(existing.id, req.activeOrgId!);
+      await auditWebhookChange(req, "delete", existing.id, formatWebhookSubscription(existing), null);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting webhook subscription:", error);
+      return res.status(500).json({ error: "Failed to delete webhook subscription" });
+    }
+  });
+
+  // GET /api/admin/webhook-deliveries — delivery log (optional subscriptionId/status filters)
+  app.get("/api/admin/webhook-deliveries", authenticate, requireRole("Admin"), readRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const status = req.query.status ? deliveryStatusSchema.parse(req.query.status) : undefined;
+      const deliveries = await listWebhookDeliveries(req.activeOrgId!, {
+        subscriptionId: typeof req.query.subscriptionId === "string" ? req.query.subscriptionId : undefined,
+        status,
+        limit: req.query.limit ? parseInt(String(req.query.limit), 10) || undefined : undefined,
+      });
+      return res.json(deliveries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error fetching webhook deliveries:", error);
+      return res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // POST /api/admin/webhook-deliveries/:id/redeliver — manual redelivery (incl. dead-lettered)
+  app.post("/api/admin/webhook-deliveries/:id/redeliver", authenticate, requireRole("Admin"), crudRateLimiter, async (req: AuthRequest, res) => {
+    try {
+      const delivery = await redeliverWebhook(req.params.id, req.activeOrgId!);
+      if (!delivery) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      await auditWebhookChange(req, "redeliver", delivery.subscriptionId, null, { deliveryId: delivery.id, status: delivery.status });
+      return res.json(delivery);
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      return res.status(500).json({ error: "Failed to redeliver webhook" });
+    }
+  });
+}
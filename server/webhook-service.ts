@@ -0,0 +1,335 @@
+// Outbound webhook service
+// Fans CRM entity lifecycle events out to org-scoped subscriptions, persists a
+// delivery log, and retries failed deliveries with exponential backoff until
+// they succeed or move to the dead_letter state.
+
+import crypto from "crypto";
+import { db, eq, and, desc, inArray } from "./db";
+import { lte, or, isNull } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { WebhookAction, WebhookEntityType, WebhookDelivery, WebhookSubscription } from "@shared/schema";
+import { encryptApiKey, decryptApiKey } from "./llm-key-utils";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  computeWebhookBackoffMs,
+  generateWebhookSecret,
+  signWebhookPayload,
+  webhookEventMatches,
+} from "./lib/webhook-signing";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A claimed delivery is leased for this long so a second worker (or process)
+// does not pick it up while the HTTP request is still in flight.
+const DELIVERY_LEASE_MS = 60_000;
+const WORKER_BATCH_SIZE = 25;
+
+// Audit-log resource names → webhook entity types
+const RESOURCE_TO_ENTITY: Record<string, WebhookEntityType> = {
+  Account: "account",
+  Contact: "contact",
+  Lead: "lead",
+  Opportunity: "opportunity",
+  Activity: "activity",
+};
+
+// Audit-log actions → webhook actions. Anything not listed does not fire.
+const AUDIT_ACTION_TO_WEBHOOK: Record<string, WebhookAction> = {
+  create: "created",
+  import: "created",
+  update: "updated",
+  import_update: "updated",
+  bulk_update: "updated",
+  external_api_patch: "updated",
+  delete: "deleted",
+  convert: "converted",
+  archive: "archived",
+  external_api_archive_lead: "archived",
+  restore: "restored",
+  external_api_restore_lead: "restored",
+};
+
+export type WebhookSource = "ui" | "external_api" | "system";
+
+export interface WebhookEventInput {
+  organizationId: string | null | undefined;
+  entityType: WebhookEntityType;
+  entityId: string | null;
+  action: WebhookAction;
+  data: unknown;
+  previous?: unknown;
+  source: WebhookSource;
+  actorId?: string | null;
+  apiKeyId?: string | null;
+}
+
+/**
+ * Map an audit-log call (resource + action) onto a webhook event.
+ * Returns null when the combination is not webhook-eligible.
+ */
+export function webhookEventForAudit(resource: string, action: string): { entityType: WebhookEntityType; action: WebhookAction } | null {
+  const entityType = RESOURCE_TO_ENTITY[resource];
+  const webhookAction = AUDIT_ACTION_TO_WEBHOOK[action];
+  if (!entityType || !webhookAction) return null;
+  return { entityType, action: webhookAction };
+}
+
+/**
+ * Queue an event for every matching active subscription in the org and kick
+ * off the first delivery attempt. Fire-and-forget: never throws, so callers
+ * can invoke it next to their audit logging without affecting the response.
+ */
+export function emitWebhookEvent(input: WebhookEventInput): void {
+  enqueueWebhookEvent(input).catch(err => {
+    console.error("[WEBHOOKS] Failed to enqueue webhook event:", err);
+  });
+}
+
+export async function enqueueWebhookEvent(input: WebhookEventInput): Promise<WebhookDelivery[]> {
+  if (!input.organizationId) return [];
+  const event = `${input.entityType}.${input.action}`;
+
+  const subscriptions = await db.select().from(schema.webhookSubscriptions).where(and(
+    eq(schema.webhookSubscriptions.organizationId, input.organizationId),
+    eq(schema.webhookSubscriptions.isActive, true),
+  ));
+  const matching = subscriptions.filter(s => webhookEventMatches(s.events, event));
+  if (matching.length === 0) return [];
+
+  const eventId = crypto.randomUUID();
+  const payload = {
+    id: eventId,
+    event,
+    createdAt: new Date().toISOString(),
+    organizationId: input.organizationId,
+    data: {
+      entityType: input.entityType,
+      entityId: input.entityId,
+      object: input.data ?? null,
+      previous: input.previous ?? null,
+      source: input.source,
+      actorId: input.actorId ?? null,
+      apiKeyId: input.apiKeyId ?? null,
+    },
+  };
+
+  const deliveries = await db.insert(schema.webhookDeliveries).values(matching.map(s => ({
+    subscriptionId: s.id,
+    organizationId: input.organizationId!,
+    eventId,
+    event,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    payload,
+    status: "pending" as const,
+    nextAttemptAt: new Date(),
+  }))).returning();
+
+  for (const delivery of deliveries) {
+    attemptDelivery(delivery.id).catch(err => {
+      console.error(`[WEBHOOKS] Delivery ${delivery.id} attempt failed unexpectedly:`, err);
+    });
+  }
+  return deliveries;
+}
+
+/**
+ * Claim a due delivery (pending/failed with nextAttemptAt in the past) by
+ * pushing its nextAttemptAt forward by the lease. Returns undefined when
+ * another worker already holds it or it is no longer due.
+ */
+async function claimDelivery(id: string): Promise<WebhookDelivery | undefined> {
+  const now = new Date();
+  const [claimed] = await db.update(schema.webhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+    .where(and(
+      eq(schema.webhookDeliveries.id, id),
+      inArray(schema.webhookDeliveries.status, ["pending", "failed"]),
+      or(isNull(schema.webhookDeliveries.nextAttemptAt), lte(schema.webhookDeliveries.nextAttemptAt, now)),
+    ))
+    .returning();
+  return claimed;
+}
+
+/** POST a single delivery to its subscription URL and record the outcome. */
+export async function attemptDelivery(id: string): Promise<WebhookDelivery | undefined> {
+  const delivery = await claimDelivery(id);
+  if (!delivery) return undefined;
+
+  const [subscription] = await db.select().from(schema.webhookSubscriptions)
+    .where(eq(schema.webhookSubscriptions.id, delivery.subscriptionId));
+
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  if (!subscription || !subscription.isActive) {
+    error = "Subscription is inactive or was deleted";
+  } else {
+    try {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "HTCRM-Webhooks/1.0",
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(decryptApiKey(subscription.encryptedSecret), body, timestamp),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        error = `HTTP ${response.status}${text ? `: ${text.slice(0, 500)}` : ""}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const now = new Date();
+  const succeeded = error === null;
+  const exhausted = !succeeded && (attempts >= WEBHOOK_MAX_ATTEMPTS || !subscription || !subscription.isActive);
+  const [updated] = await db.update(schema.webhookDeliveries)
+    .set({
+      attempts,
+      status: succeeded ? "succeeded" : exhausted ? "dead_letter" : "failed",
+      lastAttemptAt: now,
+      lastStatusCode: statusCode,
+      lastError: error,
+      deliveredAt: succeeded ? now : null,
+      nextAttemptAt: succeeded || exhausted ? null : new Date(now.getTime() + computeWebhookBackoffMs(attempts)),
+    })
+    .where(eq(schema.webhookDeliveries.id, delivery.id))
+    .returning();
+  return updated;
+}
+
+/** Attempt every delivery whose retry time has arrived. Returns the number attempted. */
+export async function processDueWebhookDeliveries(): Promise<number> {
+  const due = await db.select({ id: schema.webhookDeliveries.id }).from(schema.webhookDeliveries)
+    .where(and(
+      inArray(schema.webhookDeliveries.status, ["pending", "failed"]),
+      lte(schema.webhookDeliveries.nextAttemptAt, new Date()),
+    ))
+    .orderBy(schema.webhookDeliveries.nextAttemptAt)
+    .limit(WORKER_BATCH_SIZE);
+
+  for (const { id } of due) {
+    await attemptDelivery(id).catch(err => {
+      console.error(`[WEBHOOKS] Retry of delivery ${id} failed unexpectedly:`, err);
+    });
+  }
+  return due.length;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+/** Start the background retry loop (idempotent). */
+export function startWebhookDeliveryWorker(intervalMs = 30_000): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => {
+    processDueWebhookDeliveries().catch(err => {
+      console.error("[WEBHOOKS] Retry worker error:", err);
+    });
+  }, intervalMs);
+  workerTimer.unref();
+}
+
+/**
+ * Manually redeliver a delivery (any status). Resets the attempt counter so a
+ * dead-lettered delivery gets a fresh retry schedule, then attempts it now.
+ */
+export async function redeliverWebhook(id: string, orgId: string): Promise<WebhookDelivery | undefined> {
+  const [reset] = await db.update(schema.webhookDeliveries)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null })
+    .where(and(eq(schema.webhookDeliveries.id, id), eq(schema.webhookDeliveries.organizationId, orgId)))
+    .returning();
+  if (!reset) return undefined;
+  return (await attemptDelivery(reset.id)) ?? reset;
+}
+
+// ========== SUBSCRIPTION MANAGEMENT ==========
+
+/** Strip the encrypted secret before returning a subscription to a client. */
+export function formatWebhookSubscription(subscription: WebhookSubscription) {
+  const { encryptedSecret: _omit, ...rest } = subscription;
+  return rest;
+}
+
+export async function listWebhookSubscriptions(orgId: string): Promise<WebhookSubscription[]> {
+  return db.select().from(schema.webhookSubscriptions)
+    .where(eq(schema.webhookSubscriptions.organizationId, orgId))
+    .orderBy(desc(schema.webhookSubscriptions.createdAt));
+}
+
+export async function getWebhookSubscription(id: string, orgId: string): Promise<WebhookSubscription | undefined> {
+  const [subscription] = await db.select().from(schema.webhookSubscriptions)
+    .where(and(eq(schema.webhookSubscriptions.id, id), eq(schema.webhookSubscriptions.organizationId, orgId)));
+  return subscription;
+}
+
+/** Create a subscription. The plaintext secret is returned only from this call. */
+export async function createWebhookSubscription(
+  orgId: string,
+  data: schema.InsertWebhookSubscription,
+  createdBy: string | null,
+): Promise<{ subscription: WebhookSubscription; secret: string }> {
+  const secret = generateWebhookSecret();
+  const [subscription] = await db.insert(schema.webhookSubscriptions).values({
+    ...data,
+    events: data.events ?? ["*"],
+    organizationId: orgId,
+    encryptedSecret: encryptApiKey(secret),
+    createdBy,
+  }).returning();
+  return { subscription, secret };
+}
+
+export async function updateWebhookSubscription(
+  id: string,
+  orgId: string,
+  data: Partial<schema.InsertWebhookSubscription>,
+): Promise<WebhookSubscription | undefined> {
+  const [subscription] = await db.update(schema.webhookSubscriptions)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(schema.webhookSubscriptions.id, id), eq(schema.webhookSubscriptions.organizationId, orgId)))
+    .returning();
+  return subscription;
+}
+
+/** Replace the signing secret; the new plaintext secret is returned once. */
+export async function rotateWebhookSecret(id: string, orgId: string): Promise<{ subscription: WebhookSubscription; secret: string } | undefined> {
+  const secret = generateWebhookSecret();
+  const [subscription] = await db.update(schema.webhookSubscriptions)
+    .set({ encryptedSecret: encryptApiKey(secret), updatedAt: new Date() })
+    .where(and(eq(schema.webhookSubscriptions.id, id), eq(schema.webhookSubscriptions.organizationId, orgId)))
+    .returning();
+  return subscription ? { subscription, secret } : undefined;
+}
+
+export async function deleteWebhookSubscription(id: string, orgId: string): Promise<boolean> {
+  const deleted = await db.delete(schema.webhookSubscriptions)
+    .where(and(eq(schema.webhookSubscriptions.id, id), eq(schema.webhookSubscriptions.organizationId, orgId)))
+    .returning({ id: schema.webhookSubscriptions.id });
+  return deleted.length > 0;
+}
+
+export async function listWebhookDeliveries(
+  orgId: string,
+  filters: { subscriptionId?: string; status?: WebhookDelivery["status"]; limit?: number } = {},
+): Promise<WebhookDelivery[]> {
+  const conditions = [eq(schema.webhookDeliveries.organizationId, orgId)];
+  if (filters.subscriptionId) conditions.push(eq(schema.webhookDeliveries.subscriptionId, filters.subscriptionId));
+  if (filters.status) conditions.push(eq(schema.webhookDeliveries.status, filters.status));
+  return db.select().from(schema.webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(schema.webhookDeliveries.createdAt))
+    .limit(Math.min(filters.limit ?? 100, 500));
+}
@@ -2,7 +2,7 @@
 // Based on CPDO requirements for lightweight self-hosted CRM
 
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, decimal, pgEnum, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, decimal, pgEnum, index, uniqueIndex, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -23,7 +23,6 @@ export const researchDocumentEntityTypeEnum = pgEnum("research_document_entity_t
 export const userStatusEnum = pgEnum("user_status", ["active", "inactive", "suspended"]);
 export const leadStatusEnum = pgEnum("lead_status", ["new", "contacted", "qualified", "unqualified", "converted"]);
 export const leadSourceEnum = pgEnum("lead_source", ["website", "referral", "phone", "email", "event", "partner", "lead_generation", "other"]);
-export const opportunityStageEnum = pgEnum("opportunity_stage", ["prospecting", "qualification", "proposal", "negotiation", "closed_won", "closed_lost"]);
 export const activityTypeEnum = pgEnum("activity_type", ["call", "email", "meeting", "task", "note"]);
 export const activityStatusEnum = pgEnum("activity_status", ["pending", "completed", "cancelled"]);
 export const activityPriorityEnum = pgEnum("activity_priority", ["low", "medium", "high"]);
@@ -109,6 +108,8 @@ export const accounts = pgTable("accounts", {
   sourceRecordId: text("source_record_id"), // Original record ID in source system
   importStatus: text("import_status"), // Import status (e.g., "Success", "Warning", "Error")
   importNotes: text("import_notes"), // Notes from import process
+  importJobId: varchar("import_job_id", { length: 50 }), // Import job that created the record; rollback deletes by it
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}), // Values keyed by customFieldDefinitions.key
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
@@ -117,6 +118,7 @@ export const accounts = pgTable("accounts", {
   nameIdx: index("accounts_name_idx").on(table.name),
   accountNumberIdx: index("accounts_account_number_idx").on(table.accountNumber),
   externalIdIdx: index("accounts_external_id_idx").on(table.externalId),
+  importJobIdIdx: index("accounts_import_job_id_idx").on(table.importJobId),
 }));
 
 export const contacts = pgTable("contacts", {
@@ -142,6 +144,8 @@ export const contacts = pgTable("contacts", {
   sourceRecordId: text("source_record_id"), // Original record ID in source system
   importStatus: text("import_status"), // Import status
   importNotes: text("import_notes"), // Import notes
+  importJobId: varchar("import_job_id", { length: 50 }), // Import job that created the record
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}), // Values keyed by customFieldDefinitions.key
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
@@ -150,6 +154,7 @@ export const contacts = pgTable("contacts", {
   ownerIdIdx: index("contacts_owner_id_idx").on(table.ownerId),
   emailIdx: index("contacts_email_idx").on(table.email),
   externalIdIdx: index("contacts_external_id_idx").on(table.externalId),
+  importJobIdIdx: index("contacts_import_job_id_idx").on(table.importJobId),
 }));
 
 export const leads = pgTable("leads", {
@@ -165,6 +170,8 @@ export const leads = pgTable("leads", {
   status: leadStatusEnum("status").notNull().default("new"),
   source: leadSourceEnum("source"),
   rating: text("rating"), // Lead temperature: hot, warm, cold
+  state: text("state"), // State, province or region; used by assignment rules
+  country: text("country"),
   ownerId: varchar("owner_id", { length: 50 }).references(() => users.id),
   convertedAccountId: varchar("converted_account_id", { length: 100 }).references(() => accounts.id),
   convertedContactId: varchar("converted_contact_id", { length: 100 }).references(() => contacts.id),
@@ -176,6 +183,12 @@ export const leads = pgTable("leads", {
   sourceRecordId: text("source_record_id"), // External system record ID
   importStatus: text("import_status"), // Import tracking status
   importNotes: text("import_notes"), // Notes from import process
+  importJobId: varchar("import_job_id", { length: 50 }), // Import job that created the record
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}), // Values keyed by customFieldDefinitions.key
+  // Lead score (0-100) from the organization's scoring model; recomputed on change and nightly
+  score: integer("score"),
+  scoreBreakdown: jsonb("score_breakdown").$type<LeadScoreBreakdown>(),
+  scoredAt: timestamp("scored_at"),
   // Lifecycle removal preserves the Lead and all of its related CRM history.
   // archivedFromStatus is retained only while archived so restore can retain
   // the pre-archive business state without guessing.
@@ -189,7 +202,9 @@ export const leads = pgTable("leads", {
   statusIdx: index("leads_status_idx").on(table.status),
   emailIdx: index("leads_email_idx").on(table.email),
   externalIdIdx: index("leads_external_id_idx").on(table.externalId),
+  importJobIdIdx: index("leads_import_job_id_idx").on(table.importJobId),
   orgArchivedIdx: index("leads_org_archived_idx").on(table.organizationId, table.archivedAt),
+  orgScoreIdx: index("leads_org_score_idx").on(table.organizationId, table.score),
   orgEmailUnique: uniqueIndex("leads_org_email_unique_idx")
     .on(table.organizationId, sql`lower(BTRIM(${table.email}))`)
     .where(sql`NULLIF(BTRIM(${table.email}), ''::text) IS NOT NULL`),
@@ -200,7 +215,7 @@ export const opportunities = pgTable("opportunities", {
   organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
   accountId: varchar("account_id", { length: 100 }).notNull().references(() => accounts.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
-  stage: opportunityStageEnum("stage").notNull().default("prospecting"),
+  stage: varchar("stage", { length: 50 }).notNull().default("prospecting"), // salesProcessStages.key of the organization's process
   amount: decimal("amount", { precision: 15, scale: 2 }),
   closeDate: timestamp("close_date").notNull(),
   ownerId: varchar("owner_id", { length: 50 }).references(() => users.id),
@@ -216,6 +231,8 @@ export const opportunities = pgTable("opportunities", {
   sourceRecordId: text("source_record_id"), // Original record ID in source system
   importStatus: text("import_status"), // Import status
   importNotes: text("import_notes"), // Import notes
+  importJobId: varchar("import_job_id", { length: 50 }), // Import job that created the record
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}), // Values keyed by customFieldDefinitions.key
   includeInForecast: boolean("include_in_forecast").notNull().default(true), // Exclude internal/test opportunities from sales metrics
   implementationStartDate: timestamp("implementation_start_date"),
   implementationEndDate: timestamp("implementation_end_date"),
@@ -223,6 +240,8 @@ export const opportunities = pgTable("opportunities", {
   categories: text("categories").array(),
   operationalAreas: text("operational_areas").array(),
   description: text("description"),
+  priceBookId: varchar("price_book_id", { length: 50 }).references((): AnyPgColumn => priceBooks.id, { onDelete: "set null" }), // Prices new line items; org default book when null
+  rollUpLineItems: boolean("roll_up_line_items").notNull().default(false), // Keep amount equal to the line item total
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
@@ -233,6 +252,7 @@ export const opportunities = pgTable("opportunities", {
   statusIdx: index("opportunities_status_idx").on(table.status),
   closeDateIdx: index("opportunities_close_date_idx").on(table.closeDate),
   externalIdIdx: index("opportunities_external_id_idx").on(table.externalId),
+  importJobIdIdx: index("opportunities_import_job_id_idx").on(table.importJobId),
   includeInForecastIdx: index("opportunities_include_in_forecast_idx").on(table.includeInForecast),
 }));
 
@@ -254,14 +274,21 @@ export const activities = pgTable("activities", {
   sourceRecordId: text("source_record_id"), // Original record ID in source system
   importStatus: text("import_status"), // Import status
   importNotes: text("import_notes"), // Import notes
+  importJobId: varchar("import_job_id", { length: 50 }), // Import job that created the record
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}), // Values keyed by customFieldDefinitions.key
+  seriesId: varchar("series_id", { length: 50 }).references((): AnyPgColumn => activitySeries.id, { onDelete: "set null" }), // Recurring series this occurrence belongs to
+  occurrenceAt: timestamp("occurrence_at"), // Scheduled slot in the series (dueAt may be moved independently)
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   orgIdIdx: index("activities_org_id_idx").on(table.organizationId),
+  // One activity per slot of a series, so materializing twice can't duplicate occurrences
+  seriesIdx: uniqueIndex("activities_series_occurrence_idx").on(table.seriesId, table.occurrenceAt),
   ownerIdIdx: index("activities_owner_id_idx").on(table.ownerId),
   relatedIdx: index("activities_related_idx").on(table.relatedType, table.relatedId),
   dueAtIdx: index("activities_due_at_idx").on(table.dueAt),
   externalIdIdx: index("activities_external_id_idx").on(table.externalId),
+  importJobIdIdx: index("activities_import_job_id_idx").on(table.importJobId),
   statusIdx: index("activities_status_idx").on(table.status),
 }));
 
@@ -324,18 +351,40 @@ export const accountCategories = pgTable("account_categories", {
   orgIdx: index("account_categories_org_idx").on(table.organizationId),
 }));
 
+export const BACKUP_TRIGGERS = ["manual", "scheduled"] as const;
+export type BackupTrigger = typeof BACKUP_TRIGGERS[number];
+export const BACKUP_TARGET_KINDS = ["local", "s3"] as const;
+export type BackupTargetKind = typeof BACKUP_TARGET_KINDS[number];
+export const BACKUP_TYPES = ["full", "incremental"] as const;
+export type BackupType = typeof BACKUP_TYPES[number];
+
+// One row per backup run. Manual downloads have no target; stored runs keep
+// the archive name in path, relative to the configured target. An incremental
+// backup holds the changes since its base full backup and is restored on top
+// of it.
 export const backupJobs = pgTable("backup_jobs", {
   id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
   status: backupStatusEnum("status").notNull().default("pending"),
+  trigger: text("trigger").$type<BackupTrigger>().notNull().default("manual"),
+  backupType: text("backup_type").$type<BackupType>().notNull().default("full"),
+  baseJobId: varchar("base_job_id", { length: 50 }), // Full backup an incremental builds on
+  target: text("target").$type<BackupTargetKind>(),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   path: text("path"),
   sizeBytes: integer("size_bytes"),
-  checksum: text("checksum"),
+  checksum: text("checksum"), // SHA-256 embedded in backup.htb
+  archiveChecksum: text("archive_checksum"), // SHA-256 of the stored .zip
   initiatedBy: varchar("initiated_by", { length: 50 }).references(() => users.id),
   errorMessage: text("error_message"),
+  verifiedAt: timestamp("verified_at"),
+  verificationError: text("verification_error"), // Null after a passing verify
+  prunedAt: timestamp("pruned_at"), // Archive deleted by the retention policy
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  triggerCreatedIdx: index("backup_jobs_trigger_created_idx").on(table.trigger, table.createdAt),
+  baseJobIdx: index("backup_jobs_base_job_idx").on(table.baseJobId),
+}));
 
 // ========== COMMENTS SYSTEM ==========
 
@@ -406,6 +455,7 @@ export const API_KEY_PERMISSIONS = [
 export const apiKeys = pgTable("api_keys", {
   id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
   hashedKey: text("hashed_key").notNull().unique(), // Bcrypt hash of the API key
+  keyId: varchar("key_id", { length: 24 }), // Public id embedded in the key for indexed lookup; NULL for legacy keys
   name: text("name").notNull(), // Human-readable name for the key
   description: text("description"), // Purpose/usage description
   isActive: boolean("is_active").notNull().default(true),
@@ -421,6 +471,7 @@ export const apiKeys = pgTable("api_keys", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   hashedKeyIdx: index("api_keys_hashed_key_idx").on(table.hashedKey),
+  keyIdIdx: uniqueIndex("api_keys_key_id_idx").on(table.keyId),
   isActiveIdx: index("api_keys_is_active_idx").on(table.isActive),
   orgIdx: index("api_keys_org_idx").on(table.organizationId),
 }));
@@ -483,6 +534,7 @@ export const opportunityContactRoleEnum = pgEnum("opportunity_contact_role", [
   "economic_buyer", "champion", "technical_contact", "contract_contact",
   "executive_sponsor", "decision_maker", "influencer", "other",
 ]);
+export type OpportunityContactRole = typeof opportunityContactRoleEnum.enumValues[number];
 
 export const opportunityContacts = pgTable("opportunity_contacts", {
   id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -557,7 +609,11 @@ export const llmConfigurations = pgTable("llm_configurations", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
-  orgIdx: index("llm_configurations_org_idx").on(table.organizationId),
+  // One configuration per organization, and one default (no organization)
+  orgIdx: uniqueIndex("llm_configurations_org_idx").on(table.organizationId),
+  globalIdx: uniqueIndex("llm_configurations_global_idx")
+    .on(sql`(${table.organizationId} IS NULL)`)
+    .where(sql`${table.organizationId} IS NULL`),
 }));
 
 export const insertLlmConfigurationSchema = createInsertSchema(llmConfigurations).omit({
@@ -665,6 +721,7 @@ export const leadGenerationRuns = pgTable("lead_generation_runs", {
   phaseLog: jsonb("phase_log").default([]),
   errorPhase: text("error_phase"),
   errorReason: text("error_reason"),
+  promptTemplateVersions: jsonb("prompt_template_versions").$type<LeadGenRunPromptTemplates>().notNull().default({}),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   createdBy: varchar("created_by", { length: 50 }).references(() => users.id),
@@ -688,6 +745,13 @@ export const agentStepLogs = pgTable("agent_step_logs", {
   durationMs: integer("duration_ms"),
   success: boolean("success").notNull().default(true),
   errorMessage: text("error_message"),
+  // Token usage and estimated cost of the step's LLM call, when it made one that reported usage
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  reasoningTokens: integer("reasoning_tokens"),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }),
+  // The prompt template and variable values the step's prompt was rendered from
+  promptTemplate: jsonb("prompt_template").$type<AgentStepPromptTemplate>(),
   metadata: jsonb("metadata").default({}),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
@@ -974,7 +1038,7 @@ export type InsertPermission = z.infer<typeof insertPermissionSchema>;
 export type Permission = typeof permissions.$inferSelect;
 
 // Accounts
-export const insertAccountSchema = createInsertSchema(accounts).omit({ createdAt: true, updatedAt: true }).extend({
+export const insertAccountSchema = createInsertSchema(accounts).omit({ createdAt: true, updatedAt: true, importJobId: true }).extend({
   name: z.string().min(1, "Account name is required"),
   accountNumber: z.string().optional(),
   category: z.string().optional(),
@@ -984,7 +1048,7 @@ export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type Account = typeof accounts.$inferSelect;
 
 // Contacts
-export const insertContactSchema = createInsertSchema(contacts).omit({ createdAt: true, updatedAt: true }).extend({
+export const insertContactSchema = createInsertSchema(contacts).omit({ createdAt: true, updatedAt: true, importJobId: true }).extend({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   organizationId: z.string().optional(),
@@ -1000,6 +1064,10 @@ export const insertLeadSchema = createInsertSchema(leads).omit({
   convertedContactId: true,
   convertedOpportunityId: true,
   convertedAt: true,
+  importJobId: true,
+  score: true,
+  scoreBreakdown: true,
+  scoredAt: true,
 }).extend({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
@@ -1020,7 +1088,7 @@ const datePreprocessor = (val: unknown) => {
 };
 
 export const insertOpportunitySchema = createInsertSchema(opportunities)
-  .omit({ createdAt: true, updatedAt: true })
+  .omit({ createdAt: true, updatedAt: true, importJobId: true })
   .extend({
     name: z.string().min(1, "Opportunity name is required"),
     accountId: z.string().min(1, "Account is required"),
@@ -1039,7 +1107,7 @@ export type InsertOpportunity = z.infer<typeof insertOpportunitySchema>;
 export type Opportunity = typeof opportunities.$inferSelect;
 
 // Activities
-export const insertActivitySchema = createInsertSchema(activities).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+export const insertActivitySchema = createInsertSchema(activities).omit({ id: true, seriesId: true, occurrenceAt: true, createdAt: true, updatedAt: true, importJobId: true }).extend({
   subject: z.string().min(1, "Subject is required"),
   dueAt: z.string().nullish(),
   completedAt: z.string().nullish(),
@@ -1071,7 +1139,11 @@ export type InsertAccountCategory = z.infer<typeof insertAccountCategorySchema>;
 export type AccountCategory = typeof accountCategories.$inferSelect;
 
 // BackupJobs
-export const insertBackupJobSchema = createInsertSchema(backupJobs).omit({ id: true, createdAt: true });
+export const insertBackupJobSchema = createInsertSchema(backupJobs).omit({ id: true, createdAt: true }).extend({
+  trigger: z.enum(BACKUP_TRIGGERS).optional(),
+  target: z.enum(BACKUP_TARGET_KINDS).nullish(),
+  backupType: z.enum(BACKUP_TYPES).optional(),
+});
 export type InsertBackupJob = z.infer<typeof insertBackupJobSchema>;
 export type BackupJob = typeof backupJobs.$inferSelect;
 
@@ -1238,7 +1310,7 @@ export type InsertTaskPlaybookStep = z.infer<typeof insertTaskPlaybookStepSchema
 export type TaskPlaybookStep = typeof taskPlaybookSteps.$inferSelect;
 
 // Lead Generation Runs
-export const insertLeadGenerationRunSchema = createInsertSchema(leadGenerationRuns).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertLeadGenerationRunSchema = createInsertSchema(leadGenerationRuns).omit({ id: true, promptTemplateVersions: true, createdAt: true, updatedAt: true });
 export type InsertLeadGenerationRun = z.infer<typeof insertLeadGenerationRunSchema>;
 export type LeadGenerationRun = typeof leadGenerationRuns.$inferSelect;
 
@@ -1424,19 +1496,1119 @@ export type DocumentLink = typeof documentLinks.$inferSelect;
 // ID to its new canonical form (766 rows in production). Drizzle must declare
 // it here so that Replit Publishing does not generate a DROP TABLE.
 //
-// Schema must exactly match the production table created by the migration:
+// Record merges also write here: the absorbed record's ID maps to the survivor
+// with reason "merge", so one canonical ID may have several legacy IDs. The
+// original (entity, canonical_id) UNIQUE constraint was relaxed to a plain
+// index by migration 0023 for that reason.
+//
 //   PRIMARY KEY (entity, legacy_id)
-//   UNIQUE      (entity, canonical_id)  — named legacy_id_map_entity_canonical_id_key
+//   INDEX       (entity, canonical_id)  — named legacy_id_map_entity_canonical_id_idx
 //   migrated_at timestamptz NOT NULL DEFAULT now()
 // ---------------------------------------------------------------------------
+export const LEGACY_ID_REASONS = ["canonical_migration", "merge"] as const;
+export type LegacyIdReason = typeof LEGACY_ID_REASONS[number];
+
 export const legacyIdMap = pgTable("legacy_id_map", {
   entity:      text("entity").notNull(),
   legacyId:    text("legacy_id").notNull(),
   canonicalId: text("canonical_id").notNull(),
+  reason:      text("reason").$type<LegacyIdReason>().notNull().default("canonical_migration"),
   migratedAt:  timestamp("migrated_at", { withTimezone: true }).notNull().defaultNow(),
 }, (table) => ({
-  pk:                    primaryKey({ columns: [table.entity, table.legacyId] }),
-  entityCanonicalUnique: uniqueIndex("legacy_id_map_entity_canonical_id_key").on(table.entity, table.canonicalId),
+  pk:                primaryKey({ columns: [table.entity, table.legacyId] }),
+  entityCanonicalIdx: index("legacy_id_map_entity_canonical_id_idx").on(table.entity, table.canonicalId),
 }));
 
 export type LegacyIdMap = typeof legacyIdMap.$inferSelect;
+
+// ========== OUTBOUND WEBHOOKS ==========
+
+// Entity types and lifecycle actions that can be subscribed to. Event names
+// are "<entityType>.<action>" (e.g. "lead.converted"); "*" subscribes to all.
+export const WEBHOOK_ENTITY_TYPES = ["account", "contact", "lead", "opportunity", "activity"] as const;
+export type WebhookEntityType = typeof WEBHOOK_ENTITY_TYPES[number];
+export const WEBHOOK_ACTIONS = ["created", "updated", "deleted", "converted", "archived", "restored"] as const;
+export type WebhookAction = typeof WEBHOOK_ACTIONS[number];
+export const WEBHOOK_EVENTS = WEBHOOK_ENTITY_TYPES.flatMap(entity =>
+  WEBHOOK_ACTIONS.map(action => `${entity}.${action}`),
+);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed", "dead_letter"]);
+
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  url: text("url").notNull(),
+  encryptedSecret: text("encrypted_secret").notNull(), // AES-GCM encrypted HMAC signing secret
+  events: text("events").array().notNull().default(sql`ARRAY['*']::text[]`),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgIdx: index("webhook_subscriptions_org_idx").on(table.organizationId),
+}));
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id", { length: 50 }).notNull().references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id", { length: 50 }).notNull(), // Shared by every delivery of the same event
+  event: text("event").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id", { length: 100 }),
+  payload: jsonb("payload").notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  subscriptionIdx: index("webhook_deliveries_subscription_idx").on(table.subscriptionId, table.createdAt),
+  dueIdx: index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  orgIdx: index("webhook_deliveries_org_idx").on(table.organizationId),
+}));
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).omit({
+  id: true,
+  organizationId: true,
+  encryptedSecret: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  url: z.string().url().refine(u => /^https?:\/\//i.test(u), "URL must use http or https"),
+  events: z.array(z.string().refine(e => e === "*" || WEBHOOK_EVENTS.includes(e), "Unknown webhook event")).min(1).optional(),
+});
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// ========== OPPORTUNITY STAGE HISTORY ==========
+
+// Where a tracked opportunity change originated
+export const opportunityChangeSourceEnum = pgEnum("opportunity_change_source", ["ui", "bulk", "external_api", "import", "restore"]);
+
+// Fields whose changes are recorded in opportunity_stage_history
+export const OPPORTUNITY_TRACKED_FIELDS = ["stage", "amount", "probability", "closeDate"] as const;
+export type OpportunityTrackedField = typeof OPPORTUNITY_TRACKED_FIELDS[number];
+
+// One row per create/update that touched a tracked field. from*/to* hold the
+// values before and after the change; changedFields lists which of them moved.
+// Rows backfilled from audit logs carry auditLogId and may have null values
+// where the original audit entry did not capture the full record.
+export const opportunityStageHistory = pgTable("opportunity_stage_history", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  opportunityId: varchar("opportunity_id", { length: 100 }).notNull().references(() => opportunities.id, { onDelete: "cascade" }),
+  organizationId: varchar("organization_id", { length: 50 }).references(() => organizations.id, { onDelete: "cascade" }),
+  fromStage: varchar("from_stage", { length: 50 }),
+  toStage: varchar("to_stage", { length: 50 }),
+  fromAmount: decimal("from_amount", { precision: 15, scale: 2 }),
+  toAmount: decimal("to_amount", { precision: 15, scale: 2 }),
+  fromProbability: integer("from_probability"),
+  toProbability: integer("to_probability"),
+  fromCloseDate: timestamp("from_close_date"),
+  toCloseDate: timestamp("to_close_date"),
+  changedFields: text("changed_fields").array().notNull(),
+  source: opportunityChangeSourceEnum("source").notNull(),
+  actorId: varchar("actor_id", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  apiKeyId: varchar("api_key_id", { length: 50 }).references(() => apiKeys.id, { onDelete: "set null" }),
+  auditLogId: varchar("audit_log_id", { length: 50 }),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => ({
+  opportunityIdx: index("opportunity_stage_history_opportunity_idx").on(table.opportunityId, table.changedAt),
+  orgChangedAtIdx: index("opportunity_stage_history_org_changed_at_idx").on(table.organizationId, table.changedAt),
+  auditLogUnique: uniqueIndex("opportunity_stage_history_audit_log_idx").on(table.auditLogId),
+}));
+
+export const insertOpportunityStageHistorySchema = createInsertSchema(opportunityStageHistory).omit({ id: true });
+export type InsertOpportunityStageHistory = z.infer<typeof insertOpportunityStageHistorySchema>;
+export type OpportunityStageHistory = typeof opportunityStageHistory.$inferSelect;
+
+// ========== DUPLICATE DETECTION & RECORD MERGE ==========
+
+export const DUPLICATE_ENTITY_TYPES = ["account", "contact"] as const;
+export type DuplicateEntityType = typeof DUPLICATE_ENTITY_TYPES[number];
+
+export const duplicateEntityTypeEnum = pgEnum("duplicate_entity_type", DUPLICATE_ENTITY_TYPES);
+export const duplicateCandidateStatusEnum = pgEnum("duplicate_candidate_status", ["pending", "merged", "dismissed"]);
+
+// One row per candidate pair found by the duplicate scan. recordIdA < recordIdB
+// so a pair is stored once; dismissed pairs are kept so rescans don't resurface them.
+export const duplicateCandidates = pgTable("duplicate_candidates", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  entityType: duplicateEntityTypeEnum("entity_type").notNull(),
+  recordIdA: varchar("record_id_a", { length: 100 }).notNull(),
+  recordIdB: varchar("record_id_b", { length: 100 }).notNull(),
+  score: integer("score").notNull(), // 0-100
+  reasons: text("reasons").array().notNull().default(sql`ARRAY[]::text[]`), // e.g. ["name", "domain", "phone"]
+  status: duplicateCandidateStatusEnum("status").notNull().default("pending"),
+  survivorId: varchar("survivor_id", { length: 100 }),
+  resolvedBy: varchar("resolved_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgStatusIdx: index("duplicate_candidates_org_status_idx").on(table.organizationId, table.entityType, table.status),
+  uniquePair: uniqueIndex("duplicate_candidates_pair_unique_idx").on(table.organizationId, table.entityType, table.recordIdA, table.recordIdB),
+}));
+
+export type DuplicateCandidate = typeof duplicateCandidates.$inferSelect;
+
+// Fields a merge can take from either record (ids, org and timestamps are never merged)
+export const ACCOUNT_MERGE_FIELDS = [
+  "name", "accountNumber", "type", "category", "ownerId", "industry", "website", "phone",
+  "billingAddress", "shippingAddress", "externalId", "sourceSystem", "sourceRecordId",
+] as const;
+export const CONTACT_MERGE_FIELDS = [
+  "firstName", "lastName", "accountId", "email", "phone", "mobile", "title", "department",
+  "mailingStreet", "mailingCity", "mailingState", "mailingPostalCode", "mailingCountry",
+  "description", "ownerId", "externalId", "sourceSystem", "sourceRecordId",
+] as const;
+
+// Merge request: which record survives, and for each field whether to keep the
+// survivor's or the absorbed record's value. Unlisted fields keep the survivor's
+// value, falling back to the absorbed value when the survivor's is empty.
+export const recordMergeSchema = z.object({
+  survivorId: z.string().min(1),
+  absorbedId: z.string().min(1),
+  fieldChoices: z.record(z.enum(["survivor", "absorbed"])).default({}),
+  candidateId: z.string().optional(),
+}).refine(d => d.survivorId !== d.absorbedId, { message: "survivorId and absorbedId must differ", path: ["absorbedId"] });
+
+export type RecordMergeRequest = z.infer<typeof recordMergeSchema>;
+
+// ========== CUSTOM FIELDS ==========
+
+export const CUSTOM_FIELD_ENTITY_TYPES = ["account", "contact", "lead", "opportunity", "activity"] as const;
+export type CustomFieldEntityType = typeof CUSTOM_FIELD_ENTITY_TYPES[number];
+
+export const CUSTOM_FIELD_TYPES = ["text", "number", "currency", "date", "picklist", "multi_select", "boolean", "lookup"] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+// Entities a lookup field may point at
+export const CUSTOM_FIELD_LOOKUP_ENTITIES = ["account", "contact", "lead", "opportunity", "user"] as const;
+export type CustomFieldLookupEntity = typeof CUSTOM_FIELD_LOOKUP_ENTITIES[number];
+
+export const customFieldEntityTypeEnum = pgEnum("custom_field_entity_type", CUSTOM_FIELD_ENTITY_TYPES);
+export const customFieldTypeEnum = pgEnum("custom_field_type", CUSTOM_FIELD_TYPES);
+
+// Stored value per field type: text/picklist/lookup → string, number/currency → number,
+// date → "YYYY-MM-DD", multi_select → string[], boolean → boolean.
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldValidationRules {
+  min?: number; // number/currency lower bound
+  max?: number; // number/currency upper bound
+  maxLength?: number; // text length limit
+  pattern?: string; // text regex (anchored by the author)
+}
+
+// Admin-defined field for one entity type within an organization. Values live in
+// the entity's custom_fields jsonb column keyed by `key`; deactivating a field
+// hides it without discarding stored values.
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  entityType: customFieldEntityTypeEnum("entity_type").notNull(),
+  key: varchar("key", { length: 64 }).notNull(), // snake_case, immutable once created
+  label: text("label").notNull(),
+  fieldType: customFieldTypeEnum("field_type").notNull(),
+  options: text("options").array().notNull().default(sql`ARRAY[]::text[]`), // picklist / multi_select choices
+  lookupEntity: varchar("lookup_entity", { length: 20 }).$type<CustomFieldLookupEntity>(), // lookup fields only
+  required: boolean("required").notNull().default(false),
+  validation: jsonb("validation").$type<CustomFieldValidationRules>().notNull().default({}),
+  helpText: text("help_text"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgEntityIdx: index("custom_field_definitions_org_entity_idx").on(table.organizationId, table.entityType, table.sortOrder),
+  uniqueKey: uniqueIndex("custom_field_definitions_org_entity_key_idx").on(table.organizationId, table.entityType, table.key),
+}));
+
+export const customFieldValidationRulesSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  maxLength: z.number().int().positive().optional(),
+  pattern: z.string().max(500).refine(p => {
+    try {
+      new RegExp(p);
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Invalid regular expression").optional(),
+});
+
+const customFieldDefinitionBaseSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(100),
+  options: z.array(z.string().trim().min(1)).max(200).default([]),
+  lookupEntity: z.enum(CUSTOM_FIELD_LOOKUP_ENTITIES).nullish(),
+  required: z.boolean().default(false),
+  validation: customFieldValidationRulesSchema.default({}),
+  helpText: z.string().max(500).nullish(),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+});
+
+export const insertCustomFieldDefinitionSchema = customFieldDefinitionBaseSchema.extend({
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES),
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, "Key must be lowercase letters, digits and underscores, starting with a letter"),
+  fieldType: z.enum(CUSTOM_FIELD_TYPES),
+}).superRefine((def, ctx) => {
+  if ((def.fieldType === "picklist" || def.fieldType === "multi_select") && def.options.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Picklist fields need at least one option" });
+  }
+  if (def.fieldType === "lookup" && !def.lookupEntity) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lookupEntity"], message: "Lookup fields need a lookup entity" });
+  }
+});
+
+// Entity type, key and field type are fixed after creation — stored values depend on them
+export const updateCustomFieldDefinitionSchema = customFieldDefinitionBaseSchema.partial();
+
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type UpdateCustomFieldDefinition = z.infer<typeof updateCustomFieldDefinitionSchema>;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+
+// ========== SALES PROCESS ==========
+
+// Opportunity columns a stage's exit criteria can require. Custom fields are
+// named "customFields.<key>".
+export const STAGE_CRITERIA_FIELDS = [
+  "amount", "closeDate", "ownerId", "description", "estRevenue", "estCloseDate",
+  "implementationStartDate", "implementationEndDate", "billingEndDate",
+] as const;
+
+// What an opportunity needs before it can move past a stage
+export interface StageExitCriteria {
+  requiredFields?: string[];
+  requiredContactRoles?: OpportunityContactRole[]; // an opportunity_contacts row with each role
+}
+
+// One stage of an organization's sales process, ordered by position.
+// Organizations without rows use the default process (server/lib/sales-process.ts).
+// Opportunities store the key, so a stage keeps its key for life.
+export const salesProcessStages = pgTable("sales_process_stages", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  key: varchar("key", { length: 50 }).notNull(),
+  label: text("label").notNull(),
+  position: integer("position").notNull(),
+  probability: integer("probability").notNull(), // default win probability, 0-100
+  exitCriteria: jsonb("exit_criteria").$type<StageExitCriteria>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgPositionIdx: index("sales_process_stages_org_position_idx").on(table.organizationId, table.position),
+  uniqueKey: uniqueIndex("sales_process_stages_org_key_idx").on(table.organizationId, table.key),
+}));
+
+export const stageExitCriteriaSchema = z.object({
+  requiredFields: z.array(z.union([
+    z.enum(STAGE_CRITERIA_FIELDS),
+    z.string().regex(/^customFields\.[a-z][a-z0-9_]{0,63}$/, "Unknown opportunity field"),
+  ])).max(20).default([]),
+  requiredContactRoles: z.array(z.enum(opportunityContactRoleEnum.enumValues)).max(8).default([]),
+});
+
+// Stage keys are what opportunities store; the process decides which exist
+export const opportunityStageKeySchema = z.string().regex(/^[a-z][a-z0-9_]{0,49}$/, "Stage must be a lowercase stage key");
+
+export const salesProcessStageInputSchema = z.object({
+  key: opportunityStageKeySchema,
+  label: z.string().trim().min(1, "Label is required").max(60),
+  probability: z.number().int().min(0).max(100),
+  exitCriteria: stageExitCriteriaSchema.default({}),
+});
+
+// The whole process is replaced at once; array order is stage order
+export const updateSalesProcessSchema = z.object({
+  stages: z.array(salesProcessStageInputSchema).min(3).max(20),
+});
+
+export type SalesProcessStageInput = z.infer<typeof salesProcessStageInputSchema>;
+export type SalesProcessStage = typeof salesProcessStages.$inferSelect;
+
+// ========== LEAD SCORING ==========
+
+// Lead attributes a fit rule can match. "tag" matches the names of the lead's tags.
+export const LEAD_FIT_FIELDS = ["title", "company", "source", "tag"] as const;
+export type LeadFitField = typeof LEAD_FIT_FIELDS[number];
+
+export const LEAD_FIT_MATCHES = ["contains", "equals", "present"] as const;
+export type LeadFitMatch = typeof LEAD_FIT_MATCHES[number];
+
+export const leadFitRuleSchema = z.object({
+  field: z.enum(LEAD_FIT_FIELDS),
+  match: z.enum(LEAD_FIT_MATCHES),
+  value: z.string().trim().max(200).default(""), // ignored for "present"
+  points: z.number().int().min(-50).max(50),
+}).refine(rule => rule.match === "present" || rule.value.length > 0, {
+  message: "A value is required unless the rule only checks the field is present",
+  path: ["value"],
+});
+
+// Points for engagement with the lead, each signal capped at its max
+export const leadEngagementWeightsSchema = z.object({
+  pointsPerActivity: z.number().int().min(0).max(50),
+  maxActivityPoints: z.number().int().min(0).max(100),
+  pointsPerComment: z.number().int().min(0).max(50),
+  maxCommentPoints: z.number().int().min(0).max(100),
+  recencyPoints: z.number().int().min(0).max(100), // full points for engagement today, none after recencyDays
+  recencyDays: z.number().int().min(1).max(365),
+});
+
+export const leadScoringModelSchema = z.object({
+  fitRules: z.array(leadFitRuleSchema).max(50),
+  engagement: leadEngagementWeightsSchema,
+});
+
+export type LeadFitRule = z.infer<typeof leadFitRuleSchema>;
+export type LeadEngagementWeights = z.infer<typeof leadEngagementWeightsSchema>;
+export type LeadScoringModelInput = z.infer<typeof leadScoringModelSchema>;
+
+// How a lead's score was reached, stored next to the score on the lead
+export interface LeadScoreFactor {
+  label: string;
+  points: number;
+}
+export interface LeadScoreBreakdown {
+  fit: LeadScoreFactor[];
+  engagement: LeadScoreFactor[];
+}
+
+// One scoring model per organization. Organizations without a row use the
+// default model (server/lib/lead-scoring.ts).
+export const leadScoringModels = pgTable("lead_scoring_models", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  fitRules: jsonb("fit_rules").$type<LeadFitRule[]>().notNull().default([]),
+  engagement: jsonb("engagement").$type<LeadEngagementWeights>().notNull(),
+  updatedBy: varchar("updated_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgUnique: uniqueIndex("lead_scoring_models_org_idx").on(table.organizationId),
+}));
+
+export type LeadScoringModel = typeof leadScoringModels.$inferSelect;
+
+// ========== LEAD ASSIGNMENT ==========
+
+// Lead attributes an assignment condition can match. "tag" matches the names
+// of the lead's tags, so it only applies when rules are re-run on existing leads.
+export const LEAD_ASSIGNMENT_FIELDS = ["source", "company", "title", "tag", "state", "country"] as const;
+export type LeadAssignmentField = typeof LEAD_ASSIGNMENT_FIELDS[number];
+
+// "one_of" takes a comma-separated list, e.g. "CA, OR, WA"
+export const LEAD_ASSIGNMENT_MATCHES = ["equals", "contains", "one_of"] as const;
+export type LeadAssignmentMatch = typeof LEAD_ASSIGNMENT_MATCHES[number];
+
+// user: always the one user; round_robin: the pool in turn;
+// least_loaded: the pool member with the fewest open leads
+export const LEAD_ASSIGNMENT_STRATEGIES = ["user", "round_robin", "least_loaded"] as const;
+export type LeadAssignmentStrategy = typeof LEAD_ASSIGNMENT_STRATEGIES[number];
+
+// How a lead came to be routed, recorded in the routing log
+export const LEAD_ROUTING_TRIGGERS = ["ui", "import", "external_api", "lead_gen", "rerun"] as const;
+export type LeadRoutingTrigger = typeof LEAD_ROUTING_TRIGGERS[number];
+
+export const leadAssignmentConditionSchema = z.object({
+  field: z.enum(LEAD_ASSIGNMENT_FIELDS),
+  match: z.enum(LEAD_ASSIGNMENT_MATCHES),
+  value: z.string().trim().min(1, "A value is required").max(500),
+});
+
+export const leadAssignmentRuleInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  isActive: z.boolean().default(true),
+  conditions: z.array(leadAssignmentConditionSchema).max(20), // all must match; none matches every lead
+  strategy: z.enum(LEAD_ASSIGNMENT_STRATEGIES),
+  userIds: z.array(z.string().min(1)).min(1, "Choose at least one user").max(100),
+}).refine(rule => rule.strategy !== "user" || rule.userIds.length === 1, {
+  message: "A single-user rule assigns to exactly one user",
+  path: ["userIds"],
+});
+
+export type LeadAssignmentCondition = z.infer<typeof leadAssignmentConditionSchema>;
+export type LeadAssignmentRuleInput = z.infer<typeof leadAssignmentRuleInputSchema>;
+
+// Ordered rules per organization; the first active rule whose conditions all
+// match a new unowned lead decides its owner.
+export const leadAssignmentRules = pgTable("lead_assignment_rules", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  conditions: jsonb("conditions").$type<LeadAssignmentCondition[]>().notNull().default([]),
+  strategy: text("strategy").$type<LeadAssignmentStrategy>().notNull(),
+  userIds: jsonb("user_ids").$type<string[]>().notNull().default([]),
+  // Leads handed out so far; round-robin picks pool[counter % pool size]
+  roundRobinCounter: integer("round_robin_counter").notNull().default(0),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgPositionIdx: index("lead_assignment_rules_org_position_idx").on(table.organizationId, table.position),
+}));
+
+export type LeadAssignmentRule = typeof leadAssignmentRules.$inferSelect;
+
+// Why each lead was routed where. The rule name is copied so entries stay
+// readable after the rule is renamed or deleted.
+export const leadRoutingLog = pgTable("lead_routing_log", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  leadId: varchar("lead_id", { length: 100 }).notNull().references(() => leads.id, { onDelete: "cascade" }),
+  ruleId: varchar("rule_id", { length: 50 }).references(() => leadAssignmentRules.id, { onDelete: "set null" }),
+  ruleName: text("rule_name"),
+  assignedTo: varchar("assigned_to", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  reason: text("reason").notNull(),
+  trigger: text("trigger").$type<LeadRoutingTrigger>().notNull(),
+  actorId: varchar("actor_id", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_routing_log_lead_idx").on(table.leadId, table.createdAt),
+  orgCreatedIdx: index("lead_routing_log_org_created_idx").on(table.organizationId, table.createdAt),
+}));
+
+export type LeadRoutingLogEntry = typeof leadRoutingLog.$inferSelect;
+
+// ========== NOTIFICATIONS ==========
+
+export const NOTIFICATION_TYPES = [
+  "mention",
+  "comment_reply",
+  "record_assigned",
+  "activity_overdue",
+  "lead_gen_run_completed",
+  "lead_gen_run_failed",
+  "llm_budget_warning",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const notificationTypeEnum = pgEnum("notification_type", NOTIFICATION_TYPES);
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 50 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  organizationId: varchar("organization_id", { length: 50 }).references(() => organizations.id, { onDelete: "cascade" }),
+  type: notificationTypeEnum("type").notNull(),
+  title: text("title").notNull(),
+  body: text("body"),
+  entity: text("entity"), // "Account", "Contact", "Lead", "Opportunity", "Activity", "LeadGenerationRun"
+  entityId: varchar("entity_id", { length: 100 }),
+  link: text("link"), // Client route to open, e.g. /accounts/ACCT-2025-00001
+  actorId: varchar("actor_id", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  dedupeKey: varchar("dedupe_key", { length: 200 }), // Set for notifications that must fire only once (e.g. overdue)
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userCreatedIdx: index("notifications_user_created_idx").on(table.userId, table.createdAt),
+  userUnreadIdx: index("notifications_user_unread_idx").on(table.userId, table.readAt),
+  userDedupeIdx: uniqueIndex("notifications_user_dedupe_idx").on(table.userId, table.dedupeKey),
+}));
+
+// Email digests are opt-in: "off" until the user picks daily or weekly
+export const EMAIL_DIGEST_FREQUENCIES = ["off", "daily", "weekly"] as const;
+export type EmailDigestFrequency = typeof EMAIL_DIGEST_FREQUENCIES[number];
+export const emailDigestFrequencyEnum = pgEnum("email_digest_frequency", EMAIL_DIGEST_FREQUENCIES);
+
+// One row per user; users without a row receive every notification type and no digest
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id", { length: 50 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  disabledTypes: text("disabled_types").array().$type<NotificationType[]>().notNull().default(sql`ARRAY[]::text[]`),
+  emailDigest: emailDigestFrequencyEnum("email_digest").notNull().default("off"),
+  digestLastSentAt: timestamp("digest_last_sent_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const updateNotificationPreferencesSchema = z.object({
+  disabledTypes: z.array(z.enum(NOTIFICATION_TYPES)),
+  emailDigest: z.enum(EMAIL_DIGEST_FREQUENCIES),
+}).partial();
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+// ========== ACTIVITY SERIES ==========
+
+// Fields copied from a series onto each materialized occurrence
+export type ActivitySeriesTemplate = Pick<Activity, "type" | "subject" | "priority" | "ownerId" | "notes" | "customFields" | "relatedType" | "relatedId">;
+export type ActivitySeriesAssociation = { entityType: string; entityId: string };
+
+// A recurring activity. Occurrences are ordinary activities rows (seriesId set)
+// created ahead of time up to a rolling horizon; materializedThrough marks how
+// far the series has been expanded, so deleted occurrences are not recreated.
+export const activitySeries = pgTable("activity_series", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  rrule: text("rrule").notNull(), // RRULE subset, see server/lib/recurrence.ts
+  dtstart: timestamp("dtstart").notNull(), // First occurrence; later ones keep its time of day (UTC)
+  template: jsonb("template").$type<ActivitySeriesTemplate>().notNull(),
+  associations: jsonb("associations").$type<ActivitySeriesAssociation[]>().notNull().default([]),
+  templateActivityId: varchar("template_activity_id", { length: 100 }).references((): AnyPgColumn => activities.id, { onDelete: "set null" }),
+  materializedThrough: timestamp("materialized_through").notNull(),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgIdx: index("activity_series_org_idx").on(table.organizationId),
+  materializedIdx: index("activity_series_materialized_idx").on(table.materializedThrough),
+}));
+
+export const ACTIVITY_SERIES_EDIT_SCOPES = ["this", "following", "series"] as const;
+export type ActivitySeriesEditScope = typeof ACTIVITY_SERIES_EDIT_SCOPES[number];
+
+export type ActivitySeries = typeof activitySeries.$inferSelect;
+export type InsertActivitySeries = typeof activitySeries.$inferInsert;
+
+// ========== CALENDAR FEEDS ==========
+
+// Per-user ICS subscription feed of pending activities. Only the SHA-256 of
+// the token is stored; the feed URL is shown once when the token is created.
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 50 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userOrgIdx: uniqueIndex("calendar_feed_tokens_user_org_idx").on(table.userId, table.organizationId),
+}));
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+
+// ========== SALES QUOTAS ==========
+
+export const QUOTA_PERIOD_TYPES = ["month", "quarter", "year"] as const;
+export type QuotaPeriodType = typeof QUOTA_PERIOD_TYPES[number];
+
+export const quotaPeriodTypeEnum = pgEnum("quota_period_type", QUOTA_PERIOD_TYPES);
+
+// Sales target for one rep, or for the organization's whole team when userId
+// is null, over one calendar period. `period` is the month (1-12) or quarter
+// (1-4) within `year`, and always 1 for yearly quotas. A category limits the
+// quota to opportunities tagged with that category name.
+export const salesQuotas = pgTable("sales_quotas", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 50 }).references(() => users.id, { onDelete: "cascade" }),
+  periodType: quotaPeriodTypeEnum("period_type").notNull(),
+  year: integer("year").notNull(),
+  period: integer("period").notNull().default(1),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  category: text("category"),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgPeriodIdx: index("sales_quotas_org_period_idx").on(table.organizationId, table.periodType, table.year, table.period),
+  userIdx: index("sales_quotas_user_idx").on(table.userId),
+  uniqueQuota: uniqueIndex("sales_quotas_unique_idx").on(
+    table.organizationId,
+    sql`coalesce(${table.userId}, '')`,
+    table.periodType,
+    table.year,
+    table.period,
+    sql`coalesce(${table.category}, '')`,
+  ),
+}));
+
+const QUOTA_PERIODS_PER_YEAR: Record<QuotaPeriodType, number> = { month: 12, quarter: 4, year: 1 };
+
+export const insertSalesQuotaSchema = z.object({
+  userId: z.string().min(1).nullish(),
+  periodType: z.enum(QUOTA_PERIOD_TYPES),
+  year: z.number().int().min(2000).max(2100),
+  period: z.number().int().min(1).max(12).default(1),
+  amount: z.coerce.number().positive("Amount must be greater than zero").max(1e13),
+  category: z.string().trim().max(100).nullish().transform(c => c || null),
+}).superRefine((quota, ctx) => {
+  if (quota.period > QUOTA_PERIODS_PER_YEAR[quota.periodType]) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["period"], message: `A ${quota.periodType} quota period must be between 1 and ${QUOTA_PERIODS_PER_YEAR[quota.periodType]}` });
+  }
+});
+
+// Owner and period identify a quota; only the target and category filter change
+export const updateSalesQuotaSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than zero").max(1e13),
+  category: z.string().trim().max(100).nullish().transform(c => c || null),
+}).partial();
+
+export type InsertSalesQuota = z.infer<typeof insertSalesQuotaSchema>;
+export type UpdateSalesQuota = z.infer<typeof updateSalesQuotaSchema>;
+export type SalesQuota = typeof salesQuotas.$inferSelect;
+
+// ========== PRODUCTS & PRICE BOOKS ==========
+
+export const PRODUCT_BILLING_TYPES = ["one_time", "recurring"] as const;
+export type ProductBillingType = typeof PRODUCT_BILLING_TYPES[number];
+
+export const productBillingTypeEnum = pgEnum("product_billing_type", PRODUCT_BILLING_TYPES);
+
+// Org product/service catalog. Recurring products are priced per month.
+export const products = pgTable("products", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  sku: varchar("sku", { length: 100 }),
+  description: text("description"),
+  family: text("family"), // Free-form grouping for reporting (e.g., "Implementation", "Subscription")
+  billingType: productBillingTypeEnum("billing_type").notNull().default("one_time"),
+  defaultTermMonths: integer("default_term_months"), // Recurring products: default contract term
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgIdx: index("products_org_idx").on(table.organizationId),
+  orgSkuIdx: uniqueIndex("products_org_sku_idx").on(table.organizationId, table.sku),
+}));
+
+// Named price list per organization; at most one is the org default.
+export const priceBooks = pgTable("price_books", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  isDefault: boolean("is_default").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgNameIdx: uniqueIndex("price_books_org_name_idx").on(table.organizationId, table.name),
+}));
+
+export const priceBookEntries = pgTable("price_book_entries", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  priceBookId: varchar("price_book_id", { length: 50 }).notNull().references(() => priceBooks.id, { onDelete: "cascade" }),
+  productId: varchar("product_id", { length: 50 }).notNull().references(() => products.id, { onDelete: "cascade" }),
+  unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  bookProductIdx: uniqueIndex("price_book_entries_book_product_idx").on(table.priceBookId, table.productId),
+  productIdx: index("price_book_entries_product_idx").on(table.productId),
+}));
+
+// Products (or ad-hoc items) on an opportunity. Name, price and billing terms
+// are copied when the item is added so later catalog changes don't rewrite
+// the deal; totalPrice is derived (see server/lib/line-items.ts).
+export const opportunityLineItems = pgTable("opportunity_line_items", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  opportunityId: varchar("opportunity_id", { length: 100 }).notNull().references(() => opportunities.id, { onDelete: "cascade" }),
+  productId: varchar("product_id", { length: 50 }).references(() => products.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  quantity: decimal("quantity", { precision: 12, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
+  discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+  termMonths: integer("term_months"),
+  billingType: productBillingTypeEnum("billing_type").notNull().default("one_time"),
+  totalPrice: decimal("total_price", { precision: 15, scale: 2 }).notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  opportunityIdx: index("opportunity_line_items_opportunity_idx").on(table.opportunityId, table.sortOrder),
+  productIdx: index("opportunity_line_items_product_idx").on(table.productId),
+}));
+
+const productBaseSchema = z.object({
+  name: z.string().trim().min(1, "Product name is required").max(200),
+  sku: z.string().trim().max(100).nullish().transform(v => v || null),
+  description: z.string().max(2000).nullish(),
+  family: z.string().trim().max(100).nullish().transform(v => v || null),
+  billingType: z.enum(PRODUCT_BILLING_TYPES).default("one_time"),
+  defaultTermMonths: z.number().int().min(1).max(600).nullish(),
+  isActive: z.boolean().default(true),
+});
+
+export const insertProductSchema = productBaseSchema;
+export const updateProductSchema = productBaseSchema.partial();
+
+const priceBookBaseSchema = z.object({
+  name: z.string().trim().min(1, "Price book name is required").max(200),
+  description: z.string().max(2000).nullish(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code").default("USD"),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+export const insertPriceBookSchema = priceBookBaseSchema;
+export const updatePriceBookSchema = priceBookBaseSchema.partial();
+
+export const upsertPriceBookEntrySchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  unitPrice: z.coerce.number().min(0).max(1e13),
+});
+
+const lineItemBaseSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullish(),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero").max(1e9),
+  unitPrice: z.coerce.number().min(0).max(1e13),
+  discountPercent: z.coerce.number().min(0).max(100),
+  termMonths: z.coerce.number().int().min(1).max(600).nullish(),
+  billingType: z.enum(PRODUCT_BILLING_TYPES),
+  sortOrder: z.number().int(),
+});
+
+// Omitted fields default from the product and the opportunity's price book
+export const insertOpportunityLineItemSchema = lineItemBaseSchema.partial().extend({
+  productId: z.string().min(1).nullish(),
+}).refine(item => item.productId || item.name, { message: "A line item needs a product or a name", path: ["name"] });
+
+export const updateOpportunityLineItemSchema = lineItemBaseSchema.partial();
+
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertPriceBook = z.infer<typeof insertPriceBookSchema>;
+export type UpdatePriceBook = z.infer<typeof updatePriceBookSchema>;
+export type PriceBook = typeof priceBooks.$inferSelect;
+export type PriceBookEntry = typeof priceBookEntries.$inferSelect;
+export type InsertOpportunityLineItem = z.infer<typeof insertOpportunityLineItemSchema>;
+export type UpdateOpportunityLineItem = z.infer<typeof updateOpportunityLineItemSchema>;
+export type OpportunityLineItem = typeof opportunityLineItems.$inferSelect;
+
+// ========== CSV IMPORT MAPPING TEMPLATES ==========
+
+export const CSV_IMPORT_ENTITIES = ["accounts", "contacts", "leads", "opportunities", "activities"] as const;
+export type CsvImportEntity = typeof CSV_IMPORT_ENTITIES[number];
+
+// insert: create new rows, skip matches (the original behavior)
+// update: change matched rows, skip the rest
+// upsert: change matched rows, create the rest
+export const CSV_IMPORT_MODES = ["insert", "update", "upsert"] as const;
+export type CsvImportMode = typeof CSV_IMPORT_MODES[number];
+
+export const CSV_IMPORT_MATCH_FIELDS = ["id", "externalId", "email", "name"] as const;
+export type CsvImportMatchField = typeof CSV_IMPORT_MATCH_FIELDS[number];
+
+// email/name matches are case-insensitive; activities have no natural key
+export const CSV_IMPORT_ENTITY_MATCH_FIELDS: Record<CsvImportEntity, readonly CsvImportMatchField[]> = {
+  accounts: ["id", "externalId", "name"],
+  contacts: ["id", "externalId", "email"],
+  leads: ["id", "externalId", "email"],
+  opportunities: ["id", "externalId", "name"],
+  activities: ["id", "externalId"],
+};
+
+// Saved CSV header -> import field mappings, per organization and entity.
+// A header mapped to "" is ignored; unmapped headers import under their own name.
+export const importMappingTemplates = pgTable("import_mapping_templates", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  entity: text("entity").$type<CsvImportEntity>().notNull(),
+  name: text("name").notNull(),
+  mapping: jsonb("mapping").$type<Record<string, string>>().notNull(),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgEntityNameIdx: uniqueIndex("import_mapping_templates_org_entity_name_idx").on(table.organizationId, table.entity, table.name),
+}));
+
+export const csvColumnMappingSchema = z.record(z.string().max(200), z.string().max(100))
+  .refine(mapping => Object.keys(mapping).length <= 500, { message: "Too many mapped columns" });
+
+export const insertImportMappingTemplateSchema = z.object({
+  entity: z.enum(CSV_IMPORT_ENTITIES),
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  mapping: csvColumnMappingSchema,
+});
+
+export const updateImportMappingTemplateSchema = insertImportMappingTemplateSchema.omit({ entity: true }).partial();
+
+export type InsertImportMappingTemplate = z.infer<typeof insertImportMappingTemplateSchema>;
+export type UpdateImportMappingTemplate = z.infer<typeof updateImportMappingTemplateSchema>;
+export type ImportMappingTemplate = typeof importMappingTemplates.$inferSelect;
+
+// ========== IMPORT JOBS ==========
+
+export const IMPORT_JOB_STATUSES = ["queued", "running", "paused", "completed", "failed", "cancelled", "rolled_back"] as const;
+export type ImportJobStatus = typeof IMPORT_JOB_STATUSES[number];
+export const importJobStatusEnum = pgEnum("import_job_status", IMPORT_JOB_STATUSES);
+
+export const IMPORT_JOB_SOURCES = ["csv", "dynamics"] as const;
+export type ImportJobSource = typeof IMPORT_JOB_SOURCES[number];
+
+// A CSV (or transformed Dynamics) import processed row by row by the import
+// worker. The file is kept until the job finishes so an interrupted job can
+// resume from processedRows; records it creates carry its id in import_job_id.
+export const importJobs = pgTable("import_jobs", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  entity: text("entity").$type<CsvImportEntity>().notNull(),
+  source: text("source").$type<ImportJobSource>().notNull().default("csv"),
+  fileName: text("file_name"),
+  status: importJobStatusEnum("status").notNull().default("queued"),
+  options: jsonb("options").$type<{ mode: CsvImportMode; matchOn?: CsvImportMatchField; mapping?: Record<string, string> }>().notNull(),
+  fileContent: text("file_content"), // Cleared once the job reaches a final state
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  unchangedCount: integer("unchanged_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  rolledBackCount: integer("rolled_back_count"),
+  errorMessage: text("error_message"), // Job-level failure (row failures are in import_job_errors)
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  heartbeatAt: timestamp("heartbeat_at"), // Bumped per batch; a stale running job is picked up again
+  completedAt: timestamp("completed_at"),
+  rolledBackAt: timestamp("rolled_back_at"),
+}, (table) => ({
+  orgCreatedIdx: index("import_jobs_org_created_idx").on(table.organizationId, table.createdAt),
+  statusIdx: index("import_jobs_status_idx").on(table.status),
+}));
+
+// Failed rows of an import job, with the original CSV cells for the error file
+export const importJobErrors = pgTable("import_job_errors", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id", { length: 50 }).notNull().references(() => importJobs.id, { onDelete: "cascade" }),
+  rowNumber: integer("row_number").notNull(),
+  error: text("error").notNull(),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  jobRowIdx: index("import_job_errors_job_row_idx").on(table.jobId, table.rowNumber),
+}));
+
+export type ImportJob = typeof importJobs.$inferSelect;
+export type ImportJobError = typeof importJobErrors.$inferSelect;
+
+// ========== LEAD GENERATION JOBS ==========
+
+export const LEAD_GEN_PHASES = ["market_research", "company_discovery", "contact_discovery", "strategy", "communication_drafting"] as const;
+export type LeadGenPhase = typeof LEAD_GEN_PHASES[number];
+
+export const LEAD_GEN_JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type LeadGenJobStatus = typeof LEAD_GEN_JOB_STATUSES[number];
+
+// Market research output the later phases prompt with. The other phases write
+// their results to candidate tables, so this is all a resumed job needs.
+export interface LeadGenJobCheckpoint {
+  marketInsights: string;
+  targetIndustries: string[];
+  keyTrends: string[];
+  buyingSignals: string[];
+}
+
+// One execution of a run's pipeline. Any app process's worker claims a queued
+// job under a lease it renews while running; a job whose lease lapses is
+// claimed again and resumes after lastCompletedPhase.
+export const leadGenJobs = pgTable("lead_gen_jobs", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  runId: varchar("run_id", { length: 50 }).notNull().references(() => leadGenerationRuns.id, { onDelete: "cascade" }),
+  status: text("status").$type<LeadGenJobStatus>().notNull().default("queued"),
+  startPhase: text("start_phase").$type<LeadGenPhase>(), // Set for retries; null runs every phase
+  lastCompletedPhase: text("last_completed_phase").$type<LeadGenPhase>(),
+  checkpoint: jsonb("checkpoint").$type<LeadGenJobCheckpoint>(),
+  attempts: integer("attempts").notNull().default(0), // Claims so far, including resumes after a lapsed lease
+  leaseOwner: text("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  stopRequestedAt: timestamp("stop_requested_at"), // Honored at the next phase boundary by whichever process holds the lease
+  errorMessage: text("error_message"),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  statusCreatedIdx: index("lead_gen_jobs_status_created_idx").on(table.status, table.createdAt),
+  runCreatedIdx: index("lead_gen_jobs_run_created_idx").on(table.runId, table.createdAt),
+}));
+
+export type LeadGenJob = typeof leadGenJobs.$inferSelect;
+
+// ========== LLM USAGE & BUDGETS ==========
+
+export const LLM_USAGE_SOURCES = ["lead_gen", "contact_research"] as const;
+export type LlmUsageSource = typeof LLM_USAGE_SOURCES[number];
+
+// An organization's monthly cap on LLM usage. Either limit may be unset; with
+// both unset the organization is only tracked.
+export const llmBudgets = pgTable("llm_budgets", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  monthlyTokenLimit: integer("monthly_token_limit"),
+  monthlyCostLimitUsd: decimal("monthly_cost_limit_usd", { precision: 12, scale: 2 }),
+  warnAtPercent: integer("warn_at_percent").notNull().default(80),
+  updatedBy: varchar("updated_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  orgIdx: uniqueIndex("llm_budgets_org_idx").on(table.organizationId),
+}));
+
+export const llmBudgetInputSchema = z.object({
+  monthlyTokenLimit: z.number().int().min(1).nullable(),
+  monthlyCostLimitUsd: z.number().min(0.01).max(10_000_000).nullable(),
+  warnAtPercent: z.number().int().min(1).max(99).default(80),
+});
+
+export type LlmBudgetInput = z.infer<typeof llmBudgetInputSchema>;
+export type LlmBudget = typeof llmBudgets.$inferSelect;
+
+// One LLM call, charged to the organization it ran for (not the organization
+// whose configuration supplied the key)
+export const llmUsageEvents = pgTable("llm_usage_events", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  source: text("source").$type<LlmUsageSource>().notNull(),
+  runId: varchar("run_id", { length: 50 }).references(() => leadGenerationRuns.id, { onDelete: "set null" }),
+  phase: text("phase"),
+  userId: varchar("user_id", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  reasoningTokens: integer("reasoning_tokens").notNull().default(0), // included in completionTokens
+  totalTokens: integer("total_tokens").notNull().default(0),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }).notNull().default("0"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  orgCreatedIdx: index("llm_usage_events_org_created_idx").on(table.organizationId, table.createdAt),
+  runIdx: index("llm_usage_events_run_idx").on(table.runId),
+}));
+
+export type LlmUsageEvent = typeof llmUsageEvents.$inferSelect;
+
+// Admin-entered prices per model (matched by name prefix, like the built-in
+// list prices they override). Shared by every organization.
+export const llmModelPrices = pgTable("llm_model_prices", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  model: text("model").notNull(),
+  inputPerMillionUsd: decimal("input_per_million_usd", { precision: 12, scale: 4 }).notNull(),
+  outputPerMillionUsd: decimal("output_per_million_usd", { precision: 12, scale: 4 }).notNull(),
+  updatedBy: varchar("updated_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  modelIdx: uniqueIndex("llm_model_prices_model_idx").on(table.model),
+}));
+
+export const llmModelPriceInputSchema = z.object({
+  model: z.string().trim().toLowerCase().min(1).max(200),
+  inputPerMillionUsd: z.number().min(0).max(100_000),
+  outputPerMillionUsd: z.number().min(0).max(100_000),
+});
+
+export type LlmModelPriceInput = z.infer<typeof llmModelPriceInputSchema>;
+export type LlmModelPriceRow = typeof llmModelPrices.$inferSelect;
+
+// ========== WEB SEARCH PROVIDERS ==========
+
+// "auto" keeps the environment-driven order: fixtures when RESEARCH_FIXTURES_DIR
+// is set, then Azure, Brave and Serper env vars, then an Azure LLM configuration
+export const WEB_SEARCH_PROVIDERS = ["auto", "azure_web_search", "brave", "serper", "fixture", "none"] as const;
+export type WebSearchProviderChoice = typeof WEB_SEARCH_PROVIDERS[number];
+
+// Which web search provider an organization's lead generation and contact
+// research use. The row without an organization is the default for
+// organizations that have none, as with llm_configurations.
+export const webSearchConfigurations = pgTable("web_search_configurations", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).references(() => organizations.id, { onDelete: "cascade" }),
+  provider: text("provider").$type<WebSearchProviderChoice>().notNull().default("auto"),
+  encryptedApiKey: text("encrypted_api_key"), // Brave or Serper key; falls back to BRAVE_SEARCH_API_KEY / SERPER_API_KEY
+  apiKeyHint: text("api_key_hint"),
+  baseUrl: text("base_url"),
+  updatedBy: varchar("updated_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  // One configuration per organization, and one default (no organization)
+  orgIdx: uniqueIndex("web_search_configurations_org_idx").on(table.organizationId),
+  globalIdx: uniqueIndex("web_search_configurations_global_idx")
+    .on(sql`(${table.organizationId} IS NULL)`)
+    .where(sql`${table.organizationId} IS NULL`),
+}));
+
+export const webSearchConfigInputSchema = z.object({
+  provider: z.enum(WEB_SEARCH_PROVIDERS),
+  // Omitted or blank keeps the stored key; null clears it
+  apiKey: z.string().trim().max(500).nullable().optional(),
+  baseUrl: z.string().trim().url().max(500).nullable().optional().or(z.literal("")),
+});
+
+export type WebSearchConfigInput = z.infer<typeof webSearchConfigInputSchema>;
+export type WebSearchConfiguration = typeof webSearchConfigurations.$inferSelect;
+
+// ========== LEAD GEN PROMPT TEMPLATES ==========
+
+// The prompts the lead-gen agent renders, one per kind of LLM call. Communication
+// drafting has two: one draft per playbook step, or a single plan without a playbook.
+export const LEAD_GEN_PROMPT_KEYS = [
+  "market_research",
+  "company_discovery",
+  "contact_discovery",
+  "strategy",
+  "communication_drafting",
+  "communication_drafting_playbook",
+] as const;
+export type LeadGenPromptKey = typeof LEAD_GEN_PROMPT_KEYS[number];
+
+// Template version each of a run's prompts was rendered from; null is the built-in template
+export type LeadGenRunPromptTemplates = Partial<Record<LeadGenPromptKey, number | null>>;
+
+export interface AgentStepPromptTemplate {
+  key: LeadGenPromptKey;
+  version: number | null;
+  variables: Record<string, string>;
+}
+
+// Saved versions of an organization's prompt templates. Saving adds a version
+// and makes it active; without an active version the built-in template is used.
+export const leadGenPromptTemplates = pgTable("lead_gen_prompt_templates", {
+  id: varchar("id", { length: 50 }).primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id", { length: 50 }).notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  promptKey: text("prompt_key").$type<LeadGenPromptKey>().notNull(),
+  version: integer("version").notNull(),
+  systemPrompt: text("system_prompt").notNull(),
+  userPrompt: text("user_prompt").notNull(),
+  changeNote: text("change_note"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdBy: varchar("created_by", { length: 50 }).references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  orgKeyVersionIdx: uniqueIndex("lead_gen_prompt_templates_org_key_version_idx").on(table.organizationId, table.promptKey, table.version),
+}));
+
+export const leadGenPromptTemplateInputSchema = z.object({
+  systemPrompt: z.string().trim().min(1).max(20_000),
+  userPrompt: z.string().trim().min(1).max(50_000),
+  changeNote: z.string().trim().max(500).nullable().optional(),
+});
+
+export const leadGenPromptPreviewSchema = z.object({
+  systemPrompt: z.string().max(20_000),
+  userPrompt: z.string().max(50_000),
+  runId: z.string().min(1),
+});
+
+export type LeadGenPromptTemplateInput = z.infer<typeof leadGenPromptTemplateInputSchema>;
+export type LeadGenPromptPreviewInput = z.infer<typeof leadGenPromptPreviewSchema>;
+export type LeadGenPromptTemplate = typeof leadGenPromptTemplates.$inferSelect;
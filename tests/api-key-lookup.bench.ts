@@ -0,0 +1,55 @@
+// Benchmarks API key resolution: the legacy full hash scan versus the
+// key-id lookup (run with: npm run bench:api-keys).
+// Uses low bcrypt cost so the suite finishes quickly; production cost
+// scales both sides equally, so the ratio is what matters.
+import { bench, describe } from "vitest";
+import bcrypt from "bcryptjs";
+import { parseApiKeyId, verifyApiKey } from "../server/api-key-utils";
+import { VerifiedKeyCache, resolveApiKey, type ApiKeyLookupDeps } from "../server/lib/api-key-lookup";
+
+type StoredKey = { id: string; keyId: string | null; hashedKey: string };
+
+const KEY_COUNT = 25;
+const BENCH_ROUNDS = 4;
+
+const plainKeys = Array.from({ length: KEY_COUNT }, (_, i) => {
+  const keyId = i.toString(16).padStart(12, "0");
+  return `htcrm_${keyId}_${String(i).padStart(43, "s")}`;
+});
+const stored: StoredKey[] = plainKeys.map((key, i) => ({
+  id: `k${i}`,
+  keyId: parseApiKeyId(key),
+  hashedKey: bcrypt.hashSync(key, BENCH_ROUNDS),
+}));
+// Worst case for a scan: the presented key is the last one checked
+const presented = plainKeys[KEY_COUNT - 1];
+
+function deps(keys: StoredKey[], cache?: VerifiedKeyCache<StoredKey>): ApiKeyLookupDeps<StoredKey> {
+  return {
+    parseKeyId: parseApiKeyId,
+    findByKeyId: async (keyId) => keys.find(k => k.keyId === keyId),
+    listLegacyKeys: async () => keys.filter(k => !k.keyId),
+    verify: verifyApiKey,
+    cache,
+  };
+}
+
+describe(`resolve 1 of ${KEY_COUNT} API keys`, () => {
+  const legacyStore = stored.map(k => ({ ...k, keyId: null }));
+  const asLegacy = { ...deps(legacyStore), parseKeyId: () => null };
+  const keyed = deps(stored);
+  const cache = new VerifiedKeyCache<StoredKey>();
+  const cached = deps(stored, cache);
+
+  bench("legacy scan", async () => {
+    await resolveApiKey(presented, asLegacy);
+  });
+
+  bench("key id lookup", async () => {
+    await resolveApiKey(presented, keyed);
+  });
+
+  bench("key id lookup (cached)", async () => {
+    await resolveApiKey(presented, cached);
+  });
+});
@@ -0,0 +1,141 @@
+// Unit tests for API key resolution by embedded key id.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import { generateApiKey, parseApiKeyId, validateApiKeyFormat } from "../server/api-key-utils";
+import { VerifiedKeyCache, resolveApiKey, type ApiKeyLookupDeps } from "../server/lib/api-key-lookup";
+
+type StoredKey = { id: string; keyId: string | null; hashedKey: string };
+
+// Hashes are the plain key so tests can count verifications without bcrypt
+function makeDeps(keys: StoredKey[], cache?: VerifiedKeyCache<StoredKey>) {
+  const calls = { verify: 0, findByKeyId: 0, listLegacyKeys: 0 };
+  const deps: ApiKeyLookupDeps<StoredKey> = {
+    parseKeyId: parseApiKeyId,
+    findByKeyId: async (keyId) => {
+      calls.findByKeyId++;
+      return keys.find(k => k.keyId === keyId);
+    },
+    listLegacyKeys: async () => {
+      calls.listLegacyKeys++;
+      return keys.filter(k => !k.keyId);
+    },
+    verify: async (provided, hashed) => {
+      calls.verify++;
+      return provided === hashed;
+    },
+    cache,
+  };
+  return { deps, calls };
+}
+
+const SECRET = "A".repeat(43);
+const keyed = (keyId: string) => `htcrm_${keyId}_${SECRET}`;
+const legacy = (fill: string) => `htcrm_${fill.repeat(43)}`;
+
+describe("generateApiKey", () => {
+  it("embeds a parseable key id", () => {
+    const { publicKey, keyId } = generateApiKey();
+    expect(keyId).toMatch(/^[0-9a-f]{12}$/);
+    expect(publicKey).toHaveLength(62);
+    expect(validateApiKeyFormat(publicKey)).toBe(true);
+    expect(parseApiKeyId(publicKey)).toBe(keyId);
+  });
+});
+
+describe("parseApiKeyId", () => {
+  it("returns null for legacy and malformed keys", () => {
+    expect(parseApiKeyId(legacy("b"))).toBeNull();
+    expect(parseApiKeyId("htcrm_ABCDEF012345_" + SECRET)).toBeNull();
+    expect(parseApiKeyId(keyed("0123456789ab") + "x")).toBeNull();
+    expect(parseApiKeyId("")).toBeNull();
+  });
+});
+
+describe("resolveApiKey", () => {
+  const keys: StoredKey[] = [
+    ...Array.from({ length: 20 }, (_, i) => {
+      const keyId = i.toString(16).padStart(12, "0");
+      return { id: `k${i}`, keyId, hashedKey: keyed(keyId) };
+    }),
+    { id: "legacy-1", keyId: null, hashedKey: legacy("x") },
+    { id: "legacy-2", keyId: null, hashedKey: legacy("y") },
+  ];
+
+  it("verifies exactly one hash for current-format keys", async () => {
+    const { deps, calls } = makeDeps(keys);
+    const match = await resolveApiKey(keyed("00000000000f"), deps);
+    expect(match?.id).toBe("k15");
+    expect(calls).toEqual({ verify: 1, findByKeyId: 1, listLegacyKeys: 0 });
+  });
+
+  it("rejects a wrong secret behind a valid key id without scanning", async () => {
+    const { deps, calls } = makeDeps(keys);
+    expect(await resolveApiKey(`htcrm_00000000000f_${"B".repeat(43)}`, deps)).toBeUndefined();
+    expect(calls).toEqual({ verify: 1, findByKeyId: 1, listLegacyKeys: 0 });
+  });
+
+  it("does no bcrypt work for unknown key ids", async () => {
+    const { deps, calls } = makeDeps(keys);
+    expect(await resolveApiKey(keyed("ffffffffffff"), deps)).toBeUndefined();
+    expect(calls.verify).toBe(0);
+  });
+
+  it("falls back to scanning only legacy keys", async () => {
+    const { deps, calls } = makeDeps(keys);
+    const match = await resolveApiKey(legacy("y"), deps);
+    expect(match?.id).toBe("legacy-2");
+    expect(calls).toEqual({ verify: 2, findByKeyId: 0, listLegacyKeys: 1 });
+  });
+
+  it("serves repeat requests from the cache and skips failures", async () => {
+    const cache = new VerifiedKeyCache<StoredKey>();
+    const { deps, calls } = makeDeps(keys, cache);
+    await resolveApiKey(keyed("000000000001"), deps);
+    await resolveApiKey(keyed("000000000001"), deps);
+    expect(calls.verify).toBe(1);
+
+    await resolveApiKey(keyed("ffffffffffff"), deps);
+    expect(cache.size).toBe(1);
+  });
+});
+
+describe("VerifiedKeyCache", () => {
+  const key = { id: "k1" };
+
+  it("expires entries after the TTL", () => {
+    let now = 1_000;
+    const cache = new VerifiedKeyCache<typeof key>(500, 10, () => now);
+    cache.set("secret", key);
+    now += 499;
+    expect(cache.get("secret")).toBe(key);
+    now += 1;
+    expect(cache.get("secret")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("invalidates by stored key id or entirely", () => {
+    const cache = new VerifiedKeyCache<{ id: string }>();
+    cache.set("a", { id: "k1" });
+    cache.set("b", { id: "k2" });
+    cache.invalidate("k1");
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.get("b")).toEqual({ id: "k2" });
+    cache.invalidate();
+    expect(cache.size).toBe(0);
+  });
+
+  it("evicts the oldest entry when full", () => {
+    const cache = new VerifiedKeyCache<{ id: string }>(60_000, 2);
+    cache.set("a", { id: "k1" });
+    cache.set("b", { id: "k2" });
+    cache.set("c", { id: "k3" });
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+
+  it("does not store the presented key", () => {
+    const cache = new VerifiedKeyCache<{ id: string }>();
+    cache.set("htcrm_plaintext", { id: "k1" });
+    expect(JSON.stringify(Array.from((cache as any).entries.keys()))).not.toContain("plaintext");
+  });
+});
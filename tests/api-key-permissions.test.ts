@@ -59,7 +59,7 @@ beforeAll(async () => {
 
   const inserted = await db.insert(schema.apiKeys).values([
     {
-      hashedKey: k1.hashedKey,
+      hashedKey: k1.hashedKey, keyId: k1.keyId,
       name: "vitest-readonly-key",
       isActive: true,
       organizationId: orgId,
@@ -67,7 +67,7 @@ beforeAll(async () => {
       permissions: ["crm.read", "activities.read", "documents.read"],
     },
     {
-      hashedKey: k2.hashedKey,
+      hashedKey: k2.hashedKey, keyId: k2.keyId,
       name: "vitest-full-key",
       isActive: true,
       organizationId: orgId,
@@ -80,7 +80,7 @@ beforeAll(async () => {
     },
     {
       // Legacy key: explicit NULL permissions simulates keys created before Phase F
-      hashedKey: k3.hashedKey,
+      hashedKey: k3.hashedKey, keyId: k3.keyId,
       name: "vitest-legacy-key",
       isActive: true,
       organizationId: orgId,
@@ -88,7 +88,7 @@ beforeAll(async () => {
       permissions: null,
     },
     {
-      hashedKey: k4.hashedKey,
+      hashedKey: k4.hashedKey, keyId: k4.keyId,
       name: "vitest-writeonly-key",
       isActive: true,
       organizationId: orgId,
@@ -97,7 +97,7 @@ beforeAll(async () => {
     },
     {
       // Explicit empty array must mean ZERO permissions, not full access
-      hashedKey: k5.hashedKey,
+      hashedKey: k5.hashedKey, keyId: k5.keyId,
       name: "vitest-zeroperm-key",
       isActive: true,
       organizationId: orgId,
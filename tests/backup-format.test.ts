@@ -0,0 +1,138 @@
+// Unit tests for the chunked backup format: NDJSON chunking, incremental planning and merging, manifest checks.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  INCREMENTAL_OVERLAP_MS,
+  incrementalSince,
+  keyChunkEntry,
+  mergeBaseRows,
+  parseNdjson,
+  planIncrementalTable,
+  tableChunkEntry,
+  toNdjsonChunks,
+  validateManifest,
+  type BackupManifest,
+} from "../server/lib/backup-format";
+import { BACKUP_TABLES } from "../server/lib/backup-tables";
+
+const spec = (key: string) => BACKUP_TABLES.find(s => s.key === key)!;
+
+describe("toNdjsonChunks", () => {
+  const rows = Array.from({ length: 7 }, (_, i) => ({ id: `r-${i}`, note: "x".repeat(10), at: new Date(Date.UTC(2026, 0, i + 1)) }));
+
+  it("splits at the row limit and round-trips through parseNdjson", () => {
+    const chunks = toNdjsonChunks(rows, { maxRows: 3, maxBytes: 1 << 20 });
+    expect(chunks.map(c => c.rows)).toEqual([3, 3, 1]);
+    const parsed = chunks.flatMap(c => parseNdjson(c.text));
+    expect(parsed).toEqual(rows.map(r => ({ ...r, at: r.at.toISOString() })));
+  });
+
+  it("closes a chunk once it reaches the byte limit", () => {
+    const lineBytes = JSON.stringify(rows[0]).length + 1;
+    const chunks = toNdjsonChunks(rows, { maxRows: 100, maxBytes: lineBytes * 2 });
+    expect(chunks.map(c => c.rows)).toEqual([2, 2, 2, 1]);
+  });
+
+  it("produces no chunks for an empty table", () => {
+    expect(toNdjsonChunks([])).toEqual([]);
+  });
+});
+
+describe("chunk entry names", () => {
+  it("keeps rows and keys apart and sorts by index", () => {
+    expect(tableChunkEntry("accounts", 12)).toBe("tables/accounts/000012.ndjson.gz.enc");
+    expect(keyChunkEntry("accounts", 1)).toBe("tables/accounts/keys-000001.ndjson.gz.enc");
+  });
+});
+
+describe("planIncrementalTable", () => {
+  it("compares updatedAt when the table has it", () => {
+    expect(planIncrementalTable(spec("accounts"), ["id", "name", "createdAt", "updatedAt"], ["id"]))
+      .toEqual({ mode: "changed", changedColumn: "updatedAt", keyColumn: "id" });
+  });
+
+  it("uses the insert timestamp of an append-only table", () => {
+    expect(planIncrementalTable(spec("opportunityStageHistory"), ["id", "changedAt"], ["id"]))
+      .toEqual({ mode: "changed", changedColumn: "changedAt", keyColumn: "id" });
+  });
+
+  it("copies tables without a change timestamp or single-column key in full", () => {
+    expect(planIncrementalTable(spec("notifications"), ["id", "readAt", "createdAt"], ["id"])).toEqual({ mode: "full" });
+    expect(planIncrementalTable(spec("userRoles"), ["userId", "roleId", "assignedAt"], [])).toEqual({ mode: "full" });
+    expect(planIncrementalTable(spec("legacyIdMap"), ["entity", "legacyId", "updatedAt"], ["entity", "legacyId"])).toEqual({ mode: "full" });
+  });
+});
+
+describe("incrementalSince", () => {
+  it("overlaps the base backup's start", () => {
+    const start = new Date("2026-05-01T02:00:00Z");
+    expect(start.getTime() - incrementalSince(start).getTime()).toBe(INCREMENTAL_OVERLAP_MS);
+  });
+});
+
+describe("mergeBaseRows", () => {
+  it("drops base rows that were deleted or changed since", () => {
+    const base = [{ id: "a", v: 1 }, { id: "b", v: 1 }, { id: "c", v: 1 }];
+    const kept = mergeBaseRows(base, "id", { liveKeys: new Set(["a", "b", "d"]), changedKeys: new Set(["b", "d"]) });
+    expect(kept).toEqual([{ id: "a", v: 1 }]);
+  });
+
+  it("compares numeric keys as strings", () => {
+    expect(mergeBaseRows([{ id: 7 }], "id", { liveKeys: new Set(["7"]), changedKeys: new Set() })).toEqual([{ id: 7 }]);
+  });
+});
+
+describe("validateManifest", () => {
+  const chunk = (rows: number) => ({ entry: "e", rows, sha256: "x" });
+  const manifest = (overrides: Partial<BackupManifest> = {}): BackupManifest => ({
+    version: "3.0.0",
+    kind: "full",
+    timestamp: "2026-05-01T02:00:00.000Z",
+    files: [],
+    tables: {
+      roles: { mode: "full", rows: 2, chunks: [chunk(2)] },
+      accounts: { mode: "full", rows: 0, chunks: [] },
+    },
+    ...overrides,
+  });
+
+  it("accepts a well-formed manifest", () => {
+    expect(validateManifest(manifest(), ["roles", "accounts"])).toEqual([]);
+  });
+
+  it("reports missing tables, wrong counts and unsupported versions", () => {
+    const errors = validateManifest(manifest({
+      version: "4.0.0",
+      tables: { roles: { mode: "full", rows: 3, chunks: [chunk(2)] } },
+    }), ["roles", "accounts"]);
+    expect(errors).toEqual([
+      "Unsupported backup version v4.0.0",
+      "Required table accounts is missing",
+      "Table roles lists 3 rows but its chunks hold 2",
+    ]);
+  });
+
+  it("requires an incremental backup to name its base and list every key", () => {
+    const incremental = manifest({
+      kind: "incremental",
+      tables: { accounts: { mode: "changed", rows: 1, chunks: [chunk(1)], keyColumn: "id", keyCount: 5, keyChunks: [chunk(4)] } },
+    });
+    expect(validateManifest(incremental, [])).toEqual([
+      "Incremental backup does not name its base backup",
+      "Table accounts has an incomplete key list",
+    ]);
+    expect(validateManifest({
+      ...incremental,
+      since: "2026-05-01T01:55:00.000Z",
+      base: { jobId: "job-1", checksum: "abc" },
+      tables: { accounts: { ...incremental.tables.accounts, keyChunks: [chunk(5)] } },
+    }, [])).toEqual([]);
+  });
+
+  it("rejects partial tables in a full backup", () => {
+    const errors = validateManifest(manifest({
+      tables: { accounts: { mode: "changed", rows: 0, chunks: [], keyColumn: "id", keyCount: 0, keyChunks: [] } },
+    }), []);
+    expect(errors).toEqual(["Table accounts is partial in a full backup"]);
+  });
+});
@@ -0,0 +1,172 @@
+// Unit tests for scheduled backup cron matching, retention and configuration.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BACKUP_RETENTION,
+  backupArchiveName,
+  isoWeekKey,
+  nextCronRun,
+  parseBackupScheduleConfig,
+  parseCronSchedule,
+  selectBackupsToPrune,
+} from "../server/lib/backup-schedule";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCronSchedule", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseCronSchedule("0,30 9-11 */10 * 1-5");
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("accepts aliases and treats 7 as Sunday", () => {
+    expect(parseCronSchedule("@daily").hours).toEqual(new Set([0]));
+    expect(parseCronSchedule("0 0 * * 7").daysOfWeek.has(0)).toBe(true);
+  });
+
+  it("rejects malformed expressions with a readable message", () => {
+    expect(() => parseCronSchedule("0 2 * *")).toThrow(/5 fields/);
+    expect(() => parseCronSchedule("60 * * * *")).toThrow(/minute "60"/);
+    expect(() => parseCronSchedule("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCronSchedule("0 5-2 * * *")).toThrow(/hour/);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next daily slot strictly after the given time", () => {
+    const daily = parseCronSchedule("0 2 * * *");
+    expect(nextCronRun(daily, at("2026-03-10T01:59:30Z"))).toEqual(at("2026-03-10T02:00:00Z"));
+    expect(nextCronRun(daily, at("2026-03-10T02:00:00Z"))).toEqual(at("2026-03-11T02:00:00Z"));
+  });
+
+  it("rolls over months and years", () => {
+    expect(nextCronRun(parseCronSchedule("@monthly"), at("2026-12-15T08:00:00Z"))).toEqual(at("2027-01-01T00:00:00Z"));
+  });
+
+  it("runs on either day field when both are restricted", () => {
+    // The 13th, or any Friday
+    const schedule = parseCronSchedule("0 0 13 * 5");
+    expect(nextCronRun(schedule, at("2026-02-01T00:00:00Z"))).toEqual(at("2026-02-06T00:00:00Z"));
+    expect(nextCronRun(schedule, at("2026-02-11T00:00:00Z"))).toEqual(at("2026-02-13T00:00:00Z"));
+  });
+
+  it("returns null when the schedule can never match", () => {
+    expect(nextCronRun(parseCronSchedule("0 0 31 2 *"), at("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("isoWeekKey", () => {
+  it("uses the ISO week-numbering year at year boundaries", () => {
+    expect(isoWeekKey(at("2026-01-01T12:00:00Z"))).toBe("2026-W01");
+    expect(isoWeekKey(at("2027-01-01T12:00:00Z"))).toBe("2026-W53");
+    expect(isoWeekKey(at("2024-12-30T12:00:00Z"))).toBe("2025-W01");
+  });
+});
+
+describe("selectBackupsToPrune", () => {
+  const daily = (count: number, from = "2026-03-31T02:00:00Z") =>
+    Array.from({ length: count }, (_, i) => ({ id: `b${i}`, createdAt: new Date(at(from).getTime() - i * 86_400_000) }));
+
+  it("keeps the newest backup per day, week and month", () => {
+    const backups = daily(90);
+    const pruned = selectBackupsToPrune(backups, { daily: 7, weekly: 4, monthly: 3 });
+    const kept = backups.filter(b => !pruned.includes(b)).map(b => b.createdAt.toISOString().slice(0, 10));
+
+    expect(kept).toEqual([
+      // last 7 days
+      "2026-03-31", "2026-03-30", "2026-03-29", "2026-03-28", "2026-03-27", "2026-03-26", "2026-03-25",
+      // 4 ISO weeks: this one and the 29th are already kept, then the Sundays before
+      "2026-03-22", "2026-03-15",
+      // 3 months: March is already kept, then the newest of February and January
+      "2026-02-28", "2026-01-31",
+    ]);
+  });
+
+  it("keeps only the newest of several backups on the same day", () => {
+    const backups = [
+      { id: "late", createdAt: at("2026-03-10T20:00:00Z") },
+      { id: "early", createdAt: at("2026-03-10T02:00:00Z") },
+      { id: "yesterday", createdAt: at("2026-03-09T02:00:00Z") },
+    ];
+    expect(selectBackupsToPrune(backups, { daily: 2, weekly: 0, monthly: 0 }).map(b => b.id)).toEqual(["early"]);
+  });
+
+  it("always keeps the newest backup and keeps everything when retention is all zeros", () => {
+    const backups = daily(5);
+    expect(selectBackupsToPrune(backups, { daily: 0, weekly: 0, monthly: 0 })).toEqual([]);
+    expect(selectBackupsToPrune(backups, { daily: 0, weekly: 0, monthly: 1 }).map(b => b.id)).toEqual(["b1", "b2", "b3", "b4"]);
+  });
+});
+
+describe("parseBackupScheduleConfig", () => {
+  it("defaults to a local target with no schedule", () => {
+    expect(parseBackupScheduleConfig({})).toEqual({
+      schedule: null,
+      incrementalSchedule: null,
+      retention: DEFAULT_BACKUP_RETENTION,
+      target: { kind: "local", directory: "backups" },
+      errors: [],
+    });
+  });
+
+  it("reads an AWS S3 target", () => {
+    const config = parseBackupScheduleConfig({
+      BACKUP_SCHEDULE: "30 1 * * *",
+      BACKUP_TARGET: "s3",
+      BACKUP_S3_BUCKET: "crm-backups",
+      BACKUP_S3_ACCESS_KEY_ID: "AKID",
+      BACKUP_S3_SECRET_ACCESS_KEY: "secret",
+      BACKUP_S3_REGION: "eu-west-1",
+      BACKUP_S3_PREFIX: "/nightly/",
+    });
+    expect(config.errors).toEqual([]);
+    expect(config.schedule?.expression).toBe("30 1 * * *");
+    expect(config.target).toEqual({
+      kind: "s3",
+      endpoint: "https://s3.eu-west-1.amazonaws.com",
+      region: "eu-west-1",
+      bucket: "crm-backups",
+      prefix: "nightly",
+      accessKeyId: "AKID",
+      secretAccessKey: "secret",
+      forcePathStyle: false,
+    });
+  });
+
+  it("uses path-style URLs for a custom endpoint unless told otherwise", () => {
+    const base = { BACKUP_TARGET: "s3", BACKUP_S3_BUCKET: "b", BACKUP_S3_ACCESS_KEY_ID: "k", BACKUP_S3_SECRET_ACCESS_KEY: "s", BACKUP_S3_ENDPOINT: "http://minio:9000/" };
+    expect(parseBackupScheduleConfig(base).target).toMatchObject({ endpoint: "http://minio:9000", forcePathStyle: true });
+    expect(parseBackupScheduleConfig({ ...base, BACKUP_S3_FORCE_PATH_STYLE: "false" }).target).toMatchObject({ forcePathStyle: false });
+  });
+
+  it("reads an incremental schedule alongside the full one", () => {
+    const config = parseBackupScheduleConfig({ BACKUP_SCHEDULE: "0 2 * * 0", BACKUP_INCREMENTAL_SCHEDULE: "0 2 * * 1-6" });
+    expect(config.errors).toEqual([]);
+    expect(config.incrementalSchedule?.expression).toBe("0 2 * * 1-6");
+    expect(parseBackupScheduleConfig({ BACKUP_INCREMENTAL_SCHEDULE: "nightly" }).errors[0]).toMatch(/^BACKUP_INCREMENTAL_SCHEDULE:/);
+  });
+
+  it("reports every configuration problem", () => {
+    const config = parseBackupScheduleConfig({
+      BACKUP_SCHEDULE: "every night",
+      BACKUP_RETENTION_WEEKLY: "-1",
+      BACKUP_TARGET: "s3",
+      BACKUP_S3_BUCKET: "b",
+    });
+    expect(config.errors).toHaveLength(3);
+    expect(config.errors[0]).toMatch(/^BACKUP_SCHEDULE:/);
+    expect(config.errors[1]).toMatch(/BACKUP_RETENTION_WEEKLY/);
+    expect(config.errors[2]).toBe("BACKUP_TARGET=s3 requires BACKUP_S3_ACCESS_KEY_ID, BACKUP_S3_SECRET_ACCESS_KEY");
+    expect(config.target).toBeNull();
+  });
+});
+
+describe("backupArchiveName", () => {
+  it("is a safe file name that sorts by time", () => {
+    expect(backupArchiveName(at("2026-03-10T02:00:00.123Z"))).toBe("healthtrixss-backup-2026-03-10T02-00-00-123Z.zip");
+  });
+});
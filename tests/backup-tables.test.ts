@@ -0,0 +1,125 @@
+// Unit tests for full-backup table coverage and the post-restore consistency report.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import { getTableColumns, getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { BACKUP_TABLES, EXCLUDED_FROM_BACKUP, REQUIRED_BACKUP_TABLES } from "../server/lib/backup-tables";
+import { MAX_REPORTED_ISSUES, checkBackupConsistency, projectForConsistency } from "../server/lib/backup-consistency";
+
+const schemaTables = Object.entries(schema).filter(([, value]) => is(value, PgTable)) as [string, PgTable][];
+const tablesByKey: Record<string, PgTable> = Object.fromEntries(schemaTables);
+
+describe("backup table coverage", () => {
+  it("backs up or explicitly excludes every table in shared/schema.ts", () => {
+    const covered = new Set([...BACKUP_TABLES.map(spec => spec.key), ...Object.keys(EXCLUDED_FROM_BACKUP)]);
+    const uncovered = schemaTables
+      .filter(([key]) => !covered.has(key))
+      .map(([key, table]) => `${key} (${getTableName(table)})`);
+
+    // A new table needs an entry in server/lib/backup-tables.ts: BACKUP_TABLES,
+    // or EXCLUDED_FROM_BACKUP with the reason it is not backed up
+    expect(uncovered).toEqual([]);
+  });
+
+  it("only lists real tables, once", () => {
+    const keys = [...BACKUP_TABLES.map(spec => spec.key), ...Object.keys(EXCLUDED_FROM_BACKUP)];
+    const tableKeys = new Set(schemaTables.map(([key]) => key));
+    expect(keys.filter(key => !tableKeys.has(key))).toEqual([]);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("strips organization ids only from tables that have them", () => {
+    for (const spec of BACKUP_TABLES.filter(s => s.legacyOrgId)) {
+      expect(getTableColumns(tablesByKey[spec.key]), spec.key).toHaveProperty("organizationId");
+    }
+  });
+
+  it("keeps the tables every backup since v1.0 contains", () => {
+    expect([...REQUIRED_BACKUP_TABLES].sort()).toEqual(["accounts", "activities", "contacts", "leads", "opportunities", "roles", "users"]);
+  });
+
+  it("restores parents before their children", () => {
+    const position = new Map(BACKUP_TABLES.map((spec, i) => [spec.key, i]));
+    const checked = [
+      ["opportunities", "opportunityContacts"],
+      ["contacts", "opportunityContacts"],
+      ["opportunities", "leads"],
+      ["documents", "documentLinks"],
+      ["webhookSubscriptions", "webhookDeliveries"],
+      ["importJobs", "importJobErrors"],
+      ["activitySeries", "activities"],
+      ["auditLogs", "opportunityStageHistory"],
+      ["organizations", "idPatterns"],
+    ];
+    for (const [parent, child] of checked) {
+      expect(position.get(parent)!, `${parent} before ${child}`).toBeLessThan(position.get(child)!);
+    }
+  });
+});
+
+describe("checkBackupConsistency", () => {
+  const data = {
+    accounts: [{ id: "ACCT-1", organizationId: "org-1", customFields: { partner: "ACCT-9" } }],
+    contacts: [{ id: "CONT-1", organizationId: "org-1", customFields: {} }],
+    opportunities: [],
+    users: [{ id: "u-1" }],
+    customFieldDefinitions: [
+      { organizationId: "org-1", entityType: "account", key: "partner", fieldType: "lookup", lookupEntity: "account" },
+    ],
+    crmDocuments: [
+      { id: "d-1", entityType: "account", entityId: "ACCT-1", filePath: "uploads/documents/a.pdf", fileData: null },
+      { id: "d-2", entityType: "account", entityId: "ACCT-1", filePath: "uploads/documents/gone.pdf", fileData: null },
+      { id: "d-3", entityType: "contact", entityId: "CONT-404", filePath: null, fileData: "aGk=" },
+    ],
+    entityTags: [{ id: "t-1", tagId: "tag", entity: "Opportunity", entityId: "OPP-1" }],
+    activities: [
+      { id: "ACT-1", relatedType: "Account", relatedId: "ACCT-1" },
+      { id: "ACT-2", relatedType: "Lead", relatedId: "LEAD-1" },
+    ],
+    legacyIdMap: [{ entity: "Account", legacyId: "old-1", canonicalId: "ACCT-7" }],
+    duplicateCandidates: [
+      { id: "dup-1", entityType: "contact", recordIdA: "CONT-1", recordIdB: "CONT-2", status: "pending" },
+      { id: "dup-2", entityType: "contact", recordIdA: "CONT-1", recordIdB: "CONT-3", status: "merged" },
+    ],
+    // Entity types the checker does not know are skipped
+    comments: [{ id: "c-1", entity: "Widget", entityId: "W-1" }],
+  };
+
+  it("reports orphaned metadata, missing files and dangling references", () => {
+    const report = checkBackupConsistency(data, new Set(["a.pdf"]));
+
+    expect(report).toMatchObject({ orphanedMetadata: 2, missingFiles: 1, danglingReferences: 4 });
+    expect(report.issues).toEqual(expect.arrayContaining([
+      { kind: "orphaned_metadata", table: "crmDocuments", id: "d-3", column: "entityId", value: "CONT-404" },
+      { kind: "orphaned_metadata", table: "entityTags", id: "t-1", column: "entityId", value: "OPP-1" },
+      { kind: "missing_file", table: "crmDocuments", id: "d-2", column: "filePath", value: "uploads/documents/gone.pdf" },
+      { kind: "dangling_reference", table: "activities", id: "ACT-2", column: "relatedId", value: "LEAD-1" },
+      { kind: "dangling_reference", table: "legacyIdMap", id: "Account:old-1", column: "canonicalId", value: "ACCT-7" },
+      { kind: "dangling_reference", table: "duplicateCandidates", id: "dup-1", column: "recordIdB", value: "CONT-2" },
+      { kind: "dangling_reference", table: "accounts", id: "ACCT-1", column: "customFields.partner", value: "ACCT-9" },
+    ]));
+  });
+
+  it("is clean for consistent data", () => {
+    const report = checkBackupConsistency({ accounts: [{ id: "ACCT-1" }], activities: [{ id: "ACT-1", relatedType: "account", relatedId: "ACCT-1" }] }, new Set());
+    expect(report).toEqual({ orphanedMetadata: 0, missingFiles: 0, danglingReferences: 0, issues: [] });
+  });
+
+  it("caps the listed issues but keeps the full counts", () => {
+    const activities = Array.from({ length: MAX_REPORTED_ISSUES + 5 }, (_, i) => ({ id: `ACT-${i}`, relatedType: "Lead", relatedId: "LEAD-x" }));
+    const report = checkBackupConsistency({ activities }, new Set());
+    expect(report.danglingReferences).toBe(MAX_REPORTED_ISSUES + 5);
+    expect(report.issues).toHaveLength(MAX_REPORTED_ISSUES);
+  });
+
+  it("reports the same from projected rows as from whole rows", () => {
+    const projected = Object.fromEntries(Object.entries(data).map(([table, rows]) => [
+      table,
+      (rows as any[]).map(row => projectForConsistency(table, row)).filter(Boolean),
+    ]));
+    expect(checkBackupConsistency(projected, new Set(["a.pdf"]))).toEqual(checkBackupConsistency(data, new Set(["a.pdf"])));
+    expect(projectForConsistency("crmDocuments", data.crmDocuments[2])).toEqual({ id: "d-3", entityType: "contact", entityId: "CONT-404", filePath: null, fileData: true });
+    expect(projectForConsistency("auditLogs", { id: "log-1" })).toBeUndefined();
+  });
+});
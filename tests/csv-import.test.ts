@@ -0,0 +1,160 @@
+// Unit tests for CSV import mapping, modes and row diffs.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  applyColumnMapping,
+  compactImportPatch,
+  csvImportOptionsSchema,
+  diffImportRecord,
+  importedOpportunityStage,
+  normalizeImportValue,
+  resolveImportAction,
+} from "../server/lib/csv-import";
+import { DEFAULT_SALES_PROCESS, type ProcessStage } from "../server/lib/sales-process";
+
+describe("applyColumnMapping", () => {
+  it("renames mapped headers and keeps unmapped ones", () => {
+    const row = { "Account Name": "Acme", "Web": "acme.test", "cf:tier": "Gold" };
+    expect(applyColumnMapping(row, { "Account Name": "name", "Web": "website" })).toEqual({
+      name: "Acme",
+      website: "acme.test",
+      "cf:tier": "Gold",
+    });
+  });
+
+  it("drops headers mapped to an empty field", () => {
+    expect(applyColumnMapping({ Name: "Acme", Notes: "x" }, { Name: "name", Notes: "" })).toEqual({ name: "Acme" });
+  });
+
+  it("keeps the first non-empty cell when headers collide", () => {
+    const row = { "Main Phone": "", "Phone 2": "555-0100", "Phone 3": "555-0199" };
+    const mapping = { "Main Phone": "phone", "Phone 2": "phone", "Phone 3": "phone" };
+    expect(applyColumnMapping(row, mapping)).toEqual({ phone: "555-0100" });
+  });
+
+  it("passes rows through without a mapping", () => {
+    const row = { name: "Acme" };
+    expect(applyColumnMapping(row, undefined)).toBe(row);
+    expect(applyColumnMapping(row, {})).toBe(row);
+  });
+});
+
+describe("resolveImportAction", () => {
+  it("maps each mode and match state to an action", () => {
+    expect(resolveImportAction("insert", false)).toBe("create");
+    expect(resolveImportAction("insert", true)).toBe("skip");
+    expect(resolveImportAction("update", false)).toBe("skip");
+    expect(resolveImportAction("update", true)).toBe("update");
+    expect(resolveImportAction("upsert", false)).toBe("create");
+    expect(resolveImportAction("upsert", true)).toBe("update");
+  });
+});
+
+describe("compactImportPatch", () => {
+  it("drops blank cells so updates never clear fields", () => {
+    expect(compactImportPatch({ name: "Acme", phone: "", website: null, industry: undefined, probability: 0 }))
+      .toEqual({ name: "Acme", probability: 0 });
+  });
+});
+
+describe("diffImportRecord", () => {
+  const existing = {
+    id: "ACCT-1",
+    name: "Acme",
+    accountNumber: "007",
+    amount: "1000.00",
+    closeDate: new Date("2026-03-31T00:00:00.000Z"),
+    customFields: { tier: "Silver", seats: 10 },
+  };
+
+  it("reports only changed fields", () => {
+    expect(diffImportRecord(existing, { name: "Acme Corp", amount: "1000", accountNumber: "007" })).toEqual([
+      { field: "name", before: "Acme", after: "Acme Corp" },
+    ]);
+  });
+
+  it("compares dates and decimals by value", () => {
+    expect(diffImportRecord(existing, { closeDate: new Date("2026-03-31T00:00:00.000Z"), amount: 1000 })).toEqual([]);
+    expect(diffImportRecord(existing, { closeDate: "2026-04-30T00:00:00.000Z" })).toEqual([
+      { field: "closeDate", before: "2026-03-31T00:00:00.000Z", after: "2026-04-30T00:00:00.000Z" },
+    ]);
+  });
+
+  it("does not treat leading-zero identifiers as numbers", () => {
+    expect(diffImportRecord(existing, { accountNumber: "7" })).toEqual([
+      { field: "accountNumber", before: "007", after: "7" },
+    ]);
+  });
+
+  it("diffs custom fields per key as cf: columns", () => {
+    expect(diffImportRecord(existing, { customFields: { tier: "Gold", seats: 10 } })).toEqual([
+      { field: "cf:tier", before: "Silver", after: "Gold" },
+    ]);
+  });
+
+  it("lists every provided field for new records", () => {
+    expect(diffImportRecord(null, { name: "Acme", phone: "555-0100" })).toEqual([
+      { field: "name", before: null, after: "Acme" },
+      { field: "phone", before: null, after: "555-0100" },
+    ]);
+  });
+});
+
+describe("normalizeImportValue", () => {
+  it("normalizes blanks, arrays and numbers", () => {
+    expect(normalizeImportValue("  ")).toBeNull();
+    expect(normalizeImportValue(["a", "b"])).toBe('["a","b"]');
+    expect(normalizeImportValue("25.50", "25.5")).toBe("25.5");
+  });
+});
+
+describe("csvImportOptionsSchema", () => {
+  it("defaults to the original insert-only import", () => {
+    expect(csvImportOptionsSchema.parse({})).toEqual({ mode: "insert", dryRun: false });
+  });
+
+  it("parses multipart string fields", () => {
+    expect(csvImportOptionsSchema.parse({
+      mode: "upsert",
+      matchOn: "email",
+      dryRun: "true",
+      mapping: JSON.stringify({ "E-mail": "email" }),
+      templateId: "",
+    })).toEqual({ mode: "upsert", matchOn: "email", dryRun: true, mapping: { "E-mail": "email" } });
+  });
+
+  it("rejects unknown modes and malformed mappings", () => {
+    expect(csvImportOptionsSchema.safeParse({ mode: "merge" }).success).toBe(false);
+    expect(csvImportOptionsSchema.safeParse({ mapping: "{not json" }).success).toBe(false);
+  });
+});
+
+describe("importedOpportunityStage", () => {
+  const process: ProcessStage[] = [
+    { key: "discovery", label: "Discovery", probability: 10, exitCriteria: { requiredFields: [], requiredContactRoles: [] } },
+    ...DEFAULT_SALES_PROCESS.filter(stage => stage.key !== "prospecting"),
+  ];
+
+  it("accepts the organization's own stage keys, case-insensitively", () => {
+    expect(importedOpportunityStage(process, { stage: "Discovery" })).toBe("discovery");
+  });
+
+  it("prefers a status that names a stage, as Dynamics exports do", () => {
+    expect(importedOpportunityStage(process, { status: "proposal", stage: "discovery" })).toBe("proposal");
+  });
+
+  it("treats other statuses as ordinary values", () => {
+    expect(importedOpportunityStage(process, { status: "Open", stage: "discovery" })).toBe("discovery");
+    expect(importedOpportunityStage(process, { status: "Open" })).toBeUndefined();
+  });
+
+  it("returns undefined when the row names no stage", () => {
+    expect(importedOpportunityStage(process, { stage: " " })).toBeUndefined();
+    expect(importedOpportunityStage(process, {})).toBeUndefined();
+  });
+
+  it("rejects a stage the process doesn't have instead of dropping it", () => {
+    expect(() => importedOpportunityStage(process, { stage: "prospecting" }))
+      .toThrow('Invalid stage: "prospecting". Expected one of: discovery, qualification');
+  });
+});
@@ -0,0 +1,137 @@
+// Unit tests for custom field value validation, coercion and list filters.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  customFieldLookupRefs,
+  matchesCustomFieldFilters,
+  parseCustomFieldFilters,
+  validateCustomFieldValues,
+  type CustomFieldDefinitionLike,
+} from "../server/lib/custom-fields";
+
+function def(key: string, fieldType: CustomFieldDefinitionLike["fieldType"], extra: Partial<CustomFieldDefinitionLike> = {}): CustomFieldDefinitionLike {
+  return {
+    key,
+    label: key,
+    fieldType,
+    options: [],
+    lookupEntity: null,
+    required: false,
+    validation: {},
+    isActive: true,
+    ...extra,
+  };
+}
+
+const defs = [
+  def("bed_count", "number", { label: "Bed count", validation: { min: 0 } }),
+  def("contract_value", "currency"),
+  def("renewal_date", "date"),
+  def("payer_type", "picklist", { options: ["Commercial", "Medicare", "Medicaid"] }),
+  def("service_lines", "multi_select", { options: ["Cardiology", "Oncology", "Radiology"] }),
+  def("is_teaching", "boolean"),
+  def("npi", "text", { validation: { pattern: "^\\d{10}$" } }),
+  def("parent_account", "lookup", { lookupEntity: "account" }),
+];
+
+describe("validateCustomFieldValues", () => {
+  it("coerces loosely typed input to the stored shape", () => {
+    const { values, errors } = validateCustomFieldValues(defs, {
+      bed_count: "1,250",
+      contract_value: "$1,000.456",
+      renewal_date: "2026-03-01T00:00:00Z",
+      payer_type: "medicare",
+      service_lines: "oncology; Cardiology;oncology",
+      is_teaching: "Yes",
+      npi: " 1234567890 ",
+      parent_account: " ACCT-2025-00001 ",
+    });
+    expect(errors).toEqual([]);
+    expect(values).toEqual({
+      bed_count: 1250,
+      contract_value: 1000.46,
+      renewal_date: "2026-03-01",
+      payer_type: "Medicare",
+      service_lines: ["Oncology", "Cardiology"],
+      is_teaching: true,
+      npi: "1234567890",
+      parent_account: "ACCT-2025-00001",
+    });
+  });
+
+  it("reports per-field errors with the field label", () => {
+    const { errors } = validateCustomFieldValues(defs, {
+      bed_count: "-1",
+      renewal_date: "2026-02-30",
+      payer_type: "Self-pay",
+      npi: "123",
+      unknown_key: "x",
+    });
+    expect(errors).toEqual([
+      { key: "bed_count", message: "Bed count must be at least 0" },
+      { key: "renewal_date", message: "renewal_date must be a date (YYYY-MM-DD)" },
+      { key: "payer_type", message: 'payer_type "Self-pay" is not a valid option' },
+      { key: "npi", message: "npi does not match the required format" },
+      { key: "unknown_key", message: '"unknown_key" is not a custom field for this record type' },
+    ]);
+  });
+
+  it("merges over existing values and clears blanks", () => {
+    const { values } = validateCustomFieldValues(
+      defs,
+      { bed_count: 10, payer_type: "" },
+      { payer_type: "Medicaid", is_teaching: false, retired_field: "kept" },
+    );
+    expect(values).toEqual({ bed_count: 10, is_teaching: false, retired_field: "kept" });
+  });
+
+  it("checks required fields against the merged result", () => {
+    const required = [def("bed_count", "number", { label: "Bed count", required: true })];
+    expect(validateCustomFieldValues(required, {}, { bed_count: 5 }).errors).toEqual([]);
+    expect(validateCustomFieldValues(required, { bed_count: null }, { bed_count: 5 }).errors)
+      .toEqual([{ key: "bed_count", message: "Bed count is required" }]);
+  });
+
+  it("rejects values for inactive fields", () => {
+    const inactive = [def("legacy", "text", { isActive: false })];
+    expect(validateCustomFieldValues(inactive, { legacy: "x" }).errors).toHaveLength(1);
+  });
+});
+
+describe("customFieldLookupRefs", () => {
+  it("returns lookup values that need an existence check", () => {
+    expect(customFieldLookupRefs(defs, { parent_account: "ACCT-1", npi: "1234567890" }))
+      .toEqual([{ key: "parent_account", entity: "account", id: "ACCT-1" }]);
+  });
+});
+
+describe("custom field filters", () => {
+  const record = {
+    bed_count: 250,
+    renewal_date: "2026-03-01",
+    payer_type: "Medicare",
+    service_lines: ["Oncology"],
+    is_teaching: true,
+    npi: "1234567890",
+  };
+
+  it("parses cf[key] query objects and drops blanks", () => {
+    expect(parseCustomFieldFilters({ payer_type: ["Medicare", "Medicaid"], npi: " ", bed_count: "100.." }))
+      .toEqual({ payer_type: "Medicare,Medicaid", bed_count: "100.." });
+    expect(parseCustomFieldFilters("payer_type")).toEqual({});
+  });
+
+  it("matches each field type", () => {
+    const match = (filters: Record<string, string>) => matchesCustomFieldFilters(record, filters, defs);
+    expect(match({ bed_count: "100..300", renewal_date: "2026-01-01.." })).toBe(true);
+    expect(match({ bed_count: "..200" })).toBe(false);
+    expect(match({ payer_type: "medicaid, medicare", service_lines: "Oncology,Radiology" })).toBe(true);
+    expect(match({ is_teaching: "false" })).toBe(false);
+    expect(match({ npi: "4567" })).toBe(true);
+    expect(match({ contract_value: "1.." })).toBe(false);
+  });
+
+  it("ignores filters on unknown keys", () => {
+    expect(matchesCustomFieldFilters(record, { not_a_field: "x" }, defs)).toBe(true);
+  });
+});
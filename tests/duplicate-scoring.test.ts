@@ -0,0 +1,164 @@
+// Unit tests for Account/Contact duplicate scoring and merge field resolution.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  DUPLICATE_SCORE_THRESHOLD,
+  accountBlockingKeys,
+  contactBlockingKeys,
+  extractDomain,
+  findDuplicatePairs,
+  normalizeCompanyName,
+  normalizePhone,
+  repointSeriesReferences,
+  resolveMergedFields,
+  scoreAccountPair,
+  scoreContactPair,
+} from "../server/lib/duplicate-scoring";
+
+describe("normalizers", () => {
+  it("strips company suffixes and punctuation", () => {
+    expect(normalizeCompanyName("The Acme Health, Inc.")).toBe("acme health");
+    expect(normalizeCompanyName("ACME HEALTH LLC")).toBe("acme health");
+    expect(normalizeCompanyName("  ")).toBeNull();
+  });
+
+  it("extracts a bare domain from URLs and emails", () => {
+    expect(extractDomain("https://www.Acme.com/about?x=1")).toBe("acme.com");
+    expect(extractDomain("acme.com")).toBe("acme.com");
+    expect(extractDomain("jane@acme.com")).toBe("acme.com");
+    expect(extractDomain("n/a")).toBeNull();
+  });
+
+  it("compares phones on their last ten digits", () => {
+    expect(normalizePhone("+1 (555) 010-2030")).toBe(normalizePhone("555.010.2030"));
+    expect(normalizePhone("x12")).toBeNull();
+  });
+});
+
+describe("scoring", () => {
+  it("scores accounts on name, domain and phone", () => {
+    const match = scoreAccountPair(
+      { id: "A1", name: "Acme Health Inc", website: "https://acme.com", phone: "555-010-2030" },
+      { id: "A2", name: "Acme Health", website: "www.acme.com", phone: "(555) 010 2030" },
+    );
+    expect(match.reasons).toEqual(["name", "domain", "phone"]);
+    expect(match.score).toBe(100);
+  });
+
+  it("does not flag unrelated accounts", () => {
+    const match = scoreAccountPair({ id: "A1", name: "Acme Health" }, { id: "A2", name: "Globex" });
+    expect(match.score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+  });
+
+  it("matches contact emails case-insensitively and ignores blank emails", () => {
+    const match = scoreContactPair(
+      { id: "C1", firstName: "Jane", lastName: "Doe", email: " Jane@Acme.com " },
+      { id: "C2", firstName: "J.", lastName: "Doe", email: "jane@acme.com" },
+    );
+    expect(match.reasons).toEqual(["email"]);
+
+    const blank = scoreContactPair(
+      { id: "C1", firstName: "A", lastName: "B", email: "  " },
+      { id: "C2", firstName: "C", lastName: "D", email: "" },
+    );
+    expect(blank.score).toBe(0);
+  });
+
+  it("matches a contact's mobile against another's phone", () => {
+    const match = scoreContactPair(
+      { id: "C1", firstName: "Jane", lastName: "Doe", mobile: "555-010-2030", accountId: "ACCT-1" },
+      { id: "C2", firstName: "jane", lastName: "doe", phone: "5550102030", accountId: "ACCT-1" },
+    );
+    expect(match.reasons).toEqual(["name", "phone", "same_account"]);
+  });
+});
+
+describe("findDuplicatePairs", () => {
+  it("returns each pair once, ordered by id, highest score first", () => {
+    const pairs = findDuplicatePairs(
+      [
+        { id: "ACCT-3", name: "Acme Health", website: "acme.com" },
+        { id: "ACCT-1", name: "Acme Health Inc", website: "acme.com" },
+        { id: "ACCT-2", name: "Globex" },
+        { id: "ACCT-4", name: "Acme Hlth", phone: "5550102030" },
+      ],
+      accountBlockingKeys,
+      scoreAccountPair,
+    );
+    expect(pairs).toEqual([{ recordIdA: "ACCT-1", recordIdB: "ACCT-3", score: 85, reasons: ["name", "domain"] }]);
+  });
+
+  it("groups contacts by shared email", () => {
+    const pairs = findDuplicatePairs(
+      [
+        { id: "C2", firstName: "Jane", lastName: "Doe", email: "jane@acme.com" },
+        { id: "C1", firstName: "Janet", lastName: "Doe", email: "JANE@acme.com" },
+      ],
+      contactBlockingKeys,
+      scoreContactPair,
+    );
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ recordIdA: "C1", recordIdB: "C2" });
+  });
+});
+
+describe("resolveMergedFields", () => {
+  const survivor = { name: "Acme", phone: null, website: "acme.com", industry: "Health" };
+  const absorbed = { name: "Acme Inc", phone: "555", website: "acme.io", industry: "Health" };
+  const fields = ["name", "phone", "website", "industry"];
+
+  it("fills the survivor's blanks by default", () => {
+    expect(resolveMergedFields(survivor, absorbed, fields)).toEqual({ phone: "555" });
+  });
+
+  it("applies explicit choices", () => {
+    expect(resolveMergedFields(survivor, absorbed, fields, { website: "absorbed", phone: "survivor" }))
+      .toEqual({ website: "acme.io" });
+  });
+});
+
+describe("repointSeriesReferences", () => {
+  const template = {
+    type: "call",
+    subject: "Weekly check-in",
+    priority: "medium",
+    ownerId: "u1",
+    notes: null,
+    customFields: {},
+    relatedType: "Account",
+    relatedId: "ACCT-2",
+  };
+  const variants = ["Account", "account", "accounts"];
+
+  it("moves the template and associations from the absorbed record to the survivor", () => {
+    const result = repointSeriesReferences(
+      { template, associations: [{ entityType: "account", entityId: "ACCT-2" }, { entityType: "Contact", entityId: "CONT-1" }] },
+      variants, "ACCT-2", "ACCT-1",
+    );
+    expect(result?.template.relatedId).toBe("ACCT-1");
+    expect(result?.template.relatedType).toBe("Account");
+    expect(result?.associations).toEqual([
+      { entityType: "account", entityId: "ACCT-1" },
+      { entityType: "Contact", entityId: "CONT-1" },
+    ]);
+  });
+
+  it("drops the absorbed association when the survivor is already associated", () => {
+    const result = repointSeriesReferences(
+      { template: { ...template, relatedId: "OPP-1", relatedType: "Opportunity" }, associations: [
+        { entityType: "Account", entityId: "ACCT-1" },
+        { entityType: "Account", entityId: "ACCT-2" },
+      ] },
+      variants, "ACCT-2", "ACCT-1",
+    );
+    expect(result?.template.relatedId).toBe("OPP-1");
+    expect(result?.associations).toEqual([{ entityType: "Account", entityId: "ACCT-1" }]);
+  });
+
+  it("ignores series that only share the id under another entity type", () => {
+    expect(repointSeriesReferences(
+      { template: { ...template, relatedType: "Contact" }, associations: [{ entityType: "Lead", entityId: "ACCT-2" }] },
+      variants, "ACCT-2", "ACCT-1",
+    )).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+// Unit tests for email digest scheduling, templates and MIME encoding.
+// Pure helpers only — no database, mail server or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  digestPeriodStart,
+  isDigestDue,
+  isDigestEmpty,
+  latestDigestSlot,
+  type DigestContent,
+} from "../server/lib/email/digest";
+import { escapeHtml, renderEmailTemplate } from "../server/lib/email/templates";
+import { buildMimeMessage, dotStuff, encodeHeaderValue, envelopeAddress } from "../server/lib/email/mime";
+
+const SEND_HOUR = 13;
+
+describe("latestDigestSlot", () => {
+  it("uses today's send hour once it has passed, otherwise yesterday's", () => {
+    expect(latestDigestSlot("daily", new Date("2026-03-04T15:00:00Z"), SEND_HOUR).toISOString()).toBe("2026-03-04T13:00:00.000Z");
+    expect(latestDigestSlot("daily", new Date("2026-03-04T09:00:00Z"), SEND_HOUR).toISOString()).toBe("2026-03-03T13:00:00.000Z");
+  });
+
+  it("anchors weekly digests to Monday", () => {
+    // 2026-03-04 is a Wednesday; 2026-03-02 is a Monday
+    expect(latestDigestSlot("weekly", new Date("2026-03-04T15:00:00Z"), SEND_HOUR).toISOString()).toBe("2026-03-02T13:00:00.000Z");
+    expect(latestDigestSlot("weekly", new Date("2026-03-02T09:00:00Z"), SEND_HOUR).toISOString()).toBe("2026-02-23T13:00:00.000Z");
+  });
+});
+
+describe("isDigestDue", () => {
+  const now = new Date("2026-03-04T13:10:00Z");
+
+  it("is never due when digests are off", () => {
+    expect(isDigestDue("off", null, now, SEND_HOUR)).toBe(false);
+  });
+
+  it("sends once per slot", () => {
+    expect(isDigestDue("daily", null, now, SEND_HOUR)).toBe(true);
+    expect(isDigestDue("daily", new Date("2026-03-03T13:05:00Z"), now, SEND_HOUR)).toBe(true);
+    expect(isDigestDue("daily", new Date("2026-03-04T13:05:00Z"), now, SEND_HOUR)).toBe(false);
+  });
+
+  it("skips a weekly slot that was missed by more than a day", () => {
+    expect(isDigestDue("weekly", null, new Date("2026-03-04T13:10:00Z"), SEND_HOUR)).toBe(false);
+    expect(isDigestDue("weekly", null, new Date("2026-03-02T14:00:00Z"), SEND_HOUR)).toBe(true);
+  });
+});
+
+describe("digestPeriodStart", () => {
+  it("starts at the last send, capped at one period back", () => {
+    const now = new Date("2026-03-04T13:00:00Z");
+    expect(digestPeriodStart("daily", new Date("2026-03-04T01:00:00Z"), now).toISOString()).toBe("2026-03-04T01:00:00.000Z");
+    expect(digestPeriodStart("weekly", new Date("2026-01-01T00:00:00Z"), now).toISOString()).toBe("2026-02-25T13:00:00.000Z");
+    expect(digestPeriodStart("daily", null, now).toISOString()).toBe("2026-03-03T13:00:00.000Z");
+  });
+});
+
+describe("email templates", () => {
+  const content: DigestContent = {
+    recipientName: "Dana <Ops>",
+    frequency: "daily",
+    overdueActivities: [{ title: "Call <CFO>", detail: "Due 2026-03-01", link: "/activities/ACT-1" }],
+    upcomingActivities: [],
+    pastDueOpportunities: [],
+    newExternalLeads: [],
+    mentions: [{ title: "Sam mentioned you", detail: null, link: null }],
+  };
+
+  it("renders only non-empty digest sections with escaped values and absolute links", () => {
+    const email = renderEmailTemplate("digest", { ...content, appUrl: "https://crm.example.com" });
+    expect(email.subject).toBe("Your daily Health Trixss CRM summary");
+    expect(email.html).toContain("Overdue activities (1)");
+    expect(email.html).not.toContain("Upcoming activities");
+    expect(email.html).toContain("Call &lt;CFO&gt;");
+    expect(email.html).toContain('href="https://crm.example.com/activities/ACT-1"');
+    expect(email.html).not.toContain("<Ops>");
+    expect(email.text).toContain("- Call <CFO> — Due 2026-03-01\n  https://crm.example.com/activities/ACT-1");
+  });
+
+  it("detects empty digests", () => {
+    expect(isDigestEmpty(content)).toBe(false);
+    expect(isDigestEmpty({ ...content, overdueActivities: [], mentions: [] })).toBe(true);
+  });
+
+  it("renders the password reset email", () => {
+    const email = renderEmailTemplate("password_reset", { resetUrl: "https://crm.example.com/reset-password?token=a&b" });
+    expect(email.html).toContain('href="https://crm.example.com/reset-password?token=a&amp;b"');
+    expect(email.text).toContain("https://crm.example.com/reset-password?token=a&b");
+  });
+
+  it("escapes HTML special characters", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;");
+  });
+});
+
+describe("MIME helpers", () => {
+  it("builds a multipart message with base64 parts", () => {
+    const raw = buildMimeMessage(
+      { to: "dana@example.com", subject: "Résumé", html: "<p>Hi</p>", text: "Hi" },
+      "CRM <no-reply@example.com>",
+      { date: new Date("2026-03-04T13:00:00Z"), boundary: "b1", messageId: "<id@example.com>" },
+    );
+    expect(raw).toContain("Subject: =?UTF-8?B?UsOpc3Vtw6k=?=\r\n");
+    expect(raw).toContain('Content-Type: multipart/alternative; boundary="b1"');
+    expect(raw).toContain(`--b1\r\nContent-Type: text/plain; charset=UTF-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${Buffer.from("Hi").toString("base64")}`);
+    expect(raw.endsWith("--b1--\r\n")).toBe(true);
+  });
+
+  it("leaves ASCII headers alone", () => {
+    expect(encodeHeaderValue("Your daily summary")).toBe("Your daily summary");
+  });
+
+  it("dot-stuffs lines that start with a period", () => {
+    expect(dotStuff(".start\r\nmiddle\r\n.\r\nend")).toBe("..start\r\nmiddle\r\n..\r\nend");
+  });
+
+  it("extracts envelope addresses", () => {
+    expect(envelopeAddress("CRM <no-reply@example.com>")).toBe("no-reply@example.com");
+    expect(envelopeAddress(" dana@example.com ")).toBe("dana@example.com");
+  });
+});
@@ -59,11 +59,11 @@ beforeAll(async () => {
   noPermKey = k4.publicKey;
   sysKey = k5.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-act-key-a-${suffix}`, isActive: true, organizationId: orgAId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: `vitest-act-key-b-${suffix}`, isActive: true, organizationId: orgBId, createdBy: userId },
-    { hashedKey: k3.hashedKey, name: `vitest-act-key-ro-${suffix}`, isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["activities.read"] },
-    { hashedKey: k4.hashedKey, name: `vitest-act-key-np-${suffix}`, isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["crm.read"] },
-    { hashedKey: k5.hashedKey, name: `vitest-act-key-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-act-key-a-${suffix}`, isActive: true, organizationId: orgAId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-act-key-b-${suffix}`, isActive: true, organizationId: orgBId, createdBy: userId },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: `vitest-act-key-ro-${suffix}`, isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["activities.read"] },
+    { hashedKey: k4.hashedKey, keyId: k4.keyId, name: `vitest-act-key-np-${suffix}`, isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["crm.read"] },
+    { hashedKey: k5.hashedKey, keyId: k5.keyId, name: `vitest-act-key-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
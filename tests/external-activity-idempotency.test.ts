@@ -42,9 +42,9 @@ beforeAll(async () => {
   roKey = k2.publicKey;
   limitedKey = k3.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-idem-key-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: `vitest-idem-key-ro-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["activities.read"] },
-    { hashedKey: k3.hashedKey, name: `vitest-idem-key-rl-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, rateLimitPerMin: 2 },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-idem-key-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-idem-key-ro-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["activities.read"] },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: `vitest-idem-key-rl-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, rateLimitPerMin: 2 },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
@@ -163,7 +163,7 @@ describe("POST /activities — externalId idempotency", () => {
       .values({ name: `vitest-idem-org2-${suffix}`, slug: `vitest-idem-org2-${suffix}` }).returning();
     const k = generateApiKey();
     const [row] = await db.insert(schema.apiKeys).values({
-      hashedKey: k.hashedKey, name: `vitest-idem-key2-${suffix}`, isActive: true,
+      hashedKey: k.hashedKey, keyId: k.keyId, name: `vitest-idem-key2-${suffix}`, isActive: true,
       organizationId: otherOrg.id, createdBy: userId,
     }).returning({ id: schema.apiKeys.id });
     try {
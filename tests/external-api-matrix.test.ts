@@ -75,9 +75,9 @@ beforeAll(async () => {
   keyB = k2.publicKey;
   rlKey = k3.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-mx-key-a-${suffix}`, isActive: true, organizationId: orgAId, createdBy: seedUserId },
-    { hashedKey: k2.hashedKey, name: `vitest-mx-key-b-${suffix}`, isActive: true, organizationId: orgBId, createdBy: seedUserId },
-    { hashedKey: k3.hashedKey, name: `vitest-mx-key-rl-${suffix}`, isActive: true, organizationId: orgAId, createdBy: seedUserId, rateLimitPerMin: 3 },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-mx-key-a-${suffix}`, isActive: true, organizationId: orgAId, createdBy: seedUserId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-mx-key-b-${suffix}`, isActive: true, organizationId: orgBId, createdBy: seedUserId },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: `vitest-mx-key-rl-${suffix}`, isActive: true, organizationId: orgAId, createdBy: seedUserId, rateLimitPerMin: 3 },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
   keyAId = inserted[0].id;
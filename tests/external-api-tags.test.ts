@@ -66,11 +66,11 @@ beforeAll(async () => {
   systemKey = keys[3].publicKey;
   otherOrgKey = keys[4].publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: keys[0].hashedKey, name: `vitag-full-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: keys[1].hashedKey, name: `vitag-ro-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read", "activities.read"] },
-    { hashedKey: keys[2].hashedKey, name: `vitag-noact-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read", "crm.write"] },
-    { hashedKey: keys[3].hashedKey, name: `vitag-system-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
-    { hashedKey: keys[4].hashedKey, name: `vitag-other-${suffix}`, isActive: true, organizationId: otherOrgId, createdBy: userId },
+    { hashedKey: keys[0].hashedKey, keyId: keys[0].keyId, name: `vitag-full-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: keys[1].hashedKey, keyId: keys[1].keyId, name: `vitag-ro-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read", "activities.read"] },
+    { hashedKey: keys[2].hashedKey, keyId: keys[2].keyId, name: `vitag-noact-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read", "crm.write"] },
+    { hashedKey: keys[3].hashedKey, keyId: keys[3].keyId, name: `vitag-system-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: keys[4].hashedKey, keyId: keys[4].keyId, name: `vitag-other-${suffix}`, isActive: true, organizationId: otherOrgId, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
@@ -63,9 +63,9 @@ beforeAll(async () => {
   sysKey = k2.publicKey;
   actKey = k3.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-cmt-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: `vitest-cmt-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
-    { hashedKey: k3.hashedKey, name: `vitest-cmt-act-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["activities.read", "activities.write"] },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-cmt-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-cmt-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: `vitest-cmt-act-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["activities.read", "activities.write"] },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 });
@@ -38,8 +38,8 @@ beforeAll(async () => {
   orgKey = k1.publicKey;
   sysKey = k2.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-convert-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: `vitest-convert-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-convert-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-convert-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 });
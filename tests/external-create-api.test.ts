@@ -40,9 +40,9 @@ beforeAll(async () => {
   sysKey = k2.publicKey;
   readKey = k3.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-create-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: `vitest-create-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
-    { hashedKey: k3.hashedKey, name: `vitest-create-ro-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read"] },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-create-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-create-sys-${suffix}`, isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: `vitest-create-ro-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read"] },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 });
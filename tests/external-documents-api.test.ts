@@ -61,11 +61,11 @@ beforeAll(async () => {
   readOnlyDocsKey = k5.publicKey;
 
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: "vitest-docs-orgA-key", isActive: true, organizationId: orgAId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: "vitest-docs-orgB-key", isActive: true, organizationId: orgBId, createdBy: userId },
-    { hashedKey: k3.hashedKey, name: "vitest-docs-system-key", isActive: true, organizationId: null, createdBy: userId },
-    { hashedKey: k4.hashedKey, name: "vitest-docs-noscope-key", isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["crm.read", "crm.write"] },
-    { hashedKey: k5.hashedKey, name: "vitest-docs-readonly-key", isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["documents.read"] },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: "vitest-docs-orgA-key", isActive: true, organizationId: orgAId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: "vitest-docs-orgB-key", isActive: true, organizationId: orgBId, createdBy: userId },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: "vitest-docs-system-key", isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: k4.hashedKey, keyId: k4.keyId, name: "vitest-docs-noscope-key", isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["crm.read", "crm.write"] },
+    { hashedKey: k5.hashedKey, keyId: k5.keyId, name: "vitest-docs-readonly-key", isActive: true, organizationId: orgAId, createdBy: userId, permissions: ["documents.read"] },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
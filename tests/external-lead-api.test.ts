@@ -40,9 +40,9 @@ beforeAll(async () => {
   readOnlyKey = k3.publicKey;
 
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: "vitest-org-key", isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: "vitest-system-key", isActive: true, organizationId: null, createdBy: userId },
-    { hashedKey: k3.hashedKey, name: "vitest-read-only-key", isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read"] },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: "vitest-org-key", isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: "vitest-system-key", isActive: true, organizationId: null, createdBy: userId },
+    { hashedKey: k3.hashedKey, keyId: k3.keyId, name: "vitest-read-only-key", isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read"] },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 });
@@ -55,7 +55,7 @@ beforeAll(async () => {
   const k1 = generateApiKey();
   orgKey = k1.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-legacy-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-legacy-org-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 });
@@ -43,7 +43,7 @@ beforeAll(async () => {
   const k = generateApiKey();
   orgKey = k.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k.hashedKey, name: "vitest-filter-key", isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k.hashedKey, keyId: k.keyId, name: "vitest-filter-key", isActive: true, organizationId: orgId, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
@@ -88,8 +88,8 @@ beforeAll(async () => {
   orgKey = k1.publicKey;
   readOnlyKey = k2.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: "vitest-patch-key", isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: "vitest-patch-key-readonly", isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read", "activities.read", "documents.read"] },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: "vitest-patch-key", isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: "vitest-patch-key-readonly", isActive: true, organizationId: orgId, createdBy: userId, permissions: ["crm.read", "activities.read", "documents.read"] },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
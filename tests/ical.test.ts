@@ -0,0 +1,142 @@
+// Unit tests for the iCalendar writer and parser used by activity feeds and imports.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  IcsParseError,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  parseIcsEvents,
+  resolveTimeZone,
+} from "../server/lib/ical";
+
+describe("buildIcsCalendar", () => {
+  const now = new Date("2026-03-04T12:00:00Z");
+
+  it("writes escaped events with UTC times and CRLF line endings", () => {
+    const ics = buildIcsCalendar("Dana's CRM activities", [{
+      uid: "ACT-1@crm",
+      start: new Date("2026-03-05T15:00:00Z"),
+      end: new Date("2026-03-05T15:30:00Z"),
+      summary: "Call; Acme, Inc.",
+      description: "Line one\nAccount: Acme",
+      url: "https://crm.example.com/activities/ACT-1",
+    }], now);
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics).toContain("\r\nDTSTART:20260305T150000Z\r\nDTEND:20260305T153000Z\r\n");
+    expect(ics).toContain("\r\nDTSTAMP:20260304T120000Z\r\n");
+    expect(ics).toContain("\r\nSUMMARY:Call\\; Acme\\, Inc.\r\n");
+    expect(ics).toContain("\r\nDESCRIPTION:Line one\\nAccount: Acme\r\n");
+    expect(ics.endsWith("END:VEVENT\r\nEND:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const folded = foldIcsLine(line).split("\r\n");
+    expect(folded.length).toBeGreaterThan(1);
+    for (const part of folded) expect(Buffer.byteLength(part, "utf8")).toBeLessThanOrEqual(75);
+    expect(folded.map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe(line);
+  });
+
+  it("escapes backslashes before other characters", () => {
+    expect(escapeIcsText("a\\b,c")).toBe("a\\\\b\\,c");
+  });
+});
+
+describe("parseIcsEvents", () => {
+  const invite = [
+    "BEGIN:VCALENDAR",
+    "METHOD:REQUEST",
+    "BEGIN:VTIMEZONE",
+    "TZID:Pacific Standard Time",
+    "END:VTIMEZONE",
+    "BEGIN:VEVENT",
+    "UID:abc-123",
+    "SUMMARY:Quarterly review\\, Acme",
+    "DESCRIPTION:Agenda:\\n- pricing",
+    "DTSTART;TZID=Pacific Standard Time:20260305T090000",
+    "DTEND;TZID=Pacific Standard Time:20260305T100000",
+    'ORGANIZER;CN="Rep, Dana":mailto:dana@crm.example.com',
+    "ATTENDEE;CN=Pat Buyer;ROLE=REQ-PARTICIPANT:mailto:Pat@Acme.com",
+    "ATTENDEE;CN=Sam",
+    " Other:MAILTO:sam@acme.com",
+    "BEGIN:VALARM",
+    "DESCRIPTION:Reminder",
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  it("reads summary, description, attendees and unfolded lines", () => {
+    const [event] = parseIcsEvents(invite);
+    expect(event.uid).toBe("abc-123");
+    expect(event.summary).toBe("Quarterly review, Acme");
+    expect(event.description).toBe("Agenda:\n- pricing");
+    expect(event.organizer).toEqual({ email: "dana@crm.example.com", name: "Rep, Dana" });
+    expect(event.attendees).toEqual([
+      { email: "pat@acme.com", name: "Pat Buyer" },
+      { email: "sam@acme.com", name: "SamOther" },
+    ]);
+  });
+
+  it("converts Windows and IANA time zones to UTC", () => {
+    const [event] = parseIcsEvents(invite);
+    // 2026-03-05 is before the US daylight saving switch, so Pacific is UTC-8
+    expect(event.start?.toISOString()).toBe("2026-03-05T17:00:00.000Z");
+    expect(event.end?.toISOString()).toBe("2026-03-05T18:00:00.000Z");
+
+    const [summer] = parseIcsEvents([
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=Europe/Berlin:20260701T090000",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\n"));
+    expect(summer.start?.toISOString()).toBe("2026-07-01T07:00:00.000Z");
+  });
+
+  it("handles UTC, all-day and unknown-zone times", () => {
+    const events = parseIcsEvents([
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART:20260305T150000Z",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20260306",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=Mars Standard Time:20260305T150000",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n"));
+    expect(events[0].start?.toISOString()).toBe("2026-03-05T15:00:00.000Z");
+    expect(events[1]).toMatchObject({ allDay: true });
+    expect(events[1].start?.toISOString()).toBe("2026-03-06T00:00:00.000Z");
+    expect(events[2].unknownTimeZones).toEqual(["Mars Standard Time"]);
+    expect(events[2].start?.toISOString()).toBe("2026-03-05T15:00:00.000Z");
+  });
+
+  it("rejects files that aren't calendars", () => {
+    expect(() => parseIcsEvents("subject,dueAt\nCall,2026-03-05")).toThrow(IcsParseError);
+  });
+
+  it("round-trips the feed it writes", () => {
+    const ics = buildIcsCalendar("Feed", [{
+      uid: "ACT-2@crm",
+      start: new Date("2026-03-05T15:00:00Z"),
+      end: new Date("2026-03-05T15:30:00Z"),
+      summary: `Meeting: ${"long subject ".repeat(10)}`,
+    }]);
+    const [event] = parseIcsEvents(ics);
+    expect(event.summary).toBe(`Meeting: ${"long subject ".repeat(10)}`.trim());
+    expect(event.start?.toISOString()).toBe("2026-03-05T15:00:00.000Z");
+  });
+});
+
+describe("resolveTimeZone", () => {
+  it("maps Windows names and validates IANA names", () => {
+    expect(resolveTimeZone("Eastern Standard Time")).toBe("America/New_York");
+    expect(resolveTimeZone("America/Chicago")).toBe("America/Chicago");
+    expect(resolveTimeZone("Nowhere/Special")).toBeNull();
+  });
+});
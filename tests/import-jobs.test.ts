@@ -0,0 +1,80 @@
+// Unit tests for import job status transitions and the failed-rows file.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import { parse } from "csv-parse/sync";
+import {
+  IMPORT_ERROR_REASON_COLUMN,
+  IMPORT_ERROR_ROW_COLUMN,
+  buildImportErrorCsv,
+  canApplyImportJobAction,
+} from "../server/lib/import-jobs";
+import { applyColumnMapping } from "../server/lib/csv-import";
+
+describe("canApplyImportJobAction", () => {
+  it("pauses only queued or running jobs", () => {
+    expect(canApplyImportJobAction("queued", "pause")).toBe(true);
+    expect(canApplyImportJobAction("running", "pause")).toBe(true);
+    expect(canApplyImportJobAction("paused", "pause")).toBe(false);
+    expect(canApplyImportJobAction("completed", "pause")).toBe(false);
+  });
+
+  it("resumes only paused jobs", () => {
+    expect(canApplyImportJobAction("paused", "resume")).toBe(true);
+    expect(canApplyImportJobAction("cancelled", "resume")).toBe(false);
+  });
+
+  it("cancels jobs that have not finished", () => {
+    expect(canApplyImportJobAction("paused", "cancel")).toBe(true);
+    expect(canApplyImportJobAction("running", "cancel")).toBe(true);
+    expect(canApplyImportJobAction("completed", "cancel")).toBe(false);
+  });
+
+  it("rolls back only jobs that have stopped writing, and only once", () => {
+    expect(canApplyImportJobAction("completed", "rollback")).toBe(true);
+    expect(canApplyImportJobAction("failed", "rollback")).toBe(true);
+    expect(canApplyImportJobAction("cancelled", "rollback")).toBe(true);
+    expect(canApplyImportJobAction("running", "rollback")).toBe(false);
+    expect(canApplyImportJobAction("paused", "rollback")).toBe(false);
+    expect(canApplyImportJobAction("rolled_back", "rollback")).toBe(false);
+  });
+});
+
+describe("buildImportErrorCsv", () => {
+  it("writes the original columns followed by row number and reason", () => {
+    const csv = buildImportErrorCsv([
+      { rowNumber: 3, error: "name: Required", data: { name: "", website: "acme.test" } },
+    ]);
+    expect(csv).toBe(`name,website,${IMPORT_ERROR_ROW_COLUMN},${IMPORT_ERROR_REASON_COLUMN}\n,acme.test,3,name: Required\n`);
+  });
+
+  it("unions headers across rows in first-seen order", () => {
+    const csv = buildImportErrorCsv([
+      { rowNumber: 2, error: "a", data: { name: "One" } },
+      { rowNumber: 5, error: "b", data: { name: "Two", "cf:tier": "Gold" } },
+    ]);
+    const [header, first] = csv.split("\n");
+    expect(header).toBe(`name,cf:tier,${IMPORT_ERROR_ROW_COLUMN},${IMPORT_ERROR_REASON_COLUMN}`);
+    expect(first).toBe("One,,2,a");
+  });
+
+  it("quotes cells with commas, quotes and newlines so the file round-trips", () => {
+    const data = { name: 'Acme, "Inc"', notes: "line one\nline two" };
+    const csv = buildImportErrorCsv([{ rowNumber: 2, error: "Invalid stage: \"won\", expected closed_won", data }]);
+    const [record] = parse(csv, { columns: true });
+    expect(record).toEqual({
+      ...data,
+      [IMPORT_ERROR_ROW_COLUMN]: "2",
+      [IMPORT_ERROR_REASON_COLUMN]: "Invalid stage: \"won\", expected closed_won",
+    });
+  });
+
+  it("returns just the header for a job without failures", () => {
+    expect(buildImportErrorCsv([])).toBe(`${IMPORT_ERROR_ROW_COLUMN},${IMPORT_ERROR_REASON_COLUMN}\n`);
+  });
+
+  it("keeps the original headers so a saved column mapping still applies on re-import", () => {
+    const csv = buildImportErrorCsv([{ rowNumber: 4, error: "x", data: { "Account Name": "Acme" } }]);
+    const [record] = parse(csv, { columns: true });
+    expect(applyColumnMapping(record, { "Account Name": "name" })).toMatchObject({ name: "Acme" });
+  });
+});
@@ -0,0 +1,106 @@
+// Unit tests for lead assignment: condition matching, rule order and pool picks.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  conditionMatches,
+  describeCondition,
+  describeRouting,
+  findRoutingRule,
+  noRuleMatchedReason,
+  pickLeastLoaded,
+  pickRoundRobin,
+  type RoutingRule,
+} from "../server/lib/lead-assignment";
+import { leadAssignmentRuleInputSchema } from "@shared/schema";
+
+const everyone = new Set(["u1", "u2", "u3"]);
+
+const westCoast: RoutingRule = {
+  id: "r1",
+  name: "West coast",
+  isActive: true,
+  conditions: [{ field: "state", match: "one_of", value: "CA, OR, WA" }],
+  strategy: "round_robin",
+  userIds: ["u1", "u2"],
+};
+const referrals: RoutingRule = {
+  id: "r2",
+  name: "Referrals",
+  isActive: true,
+  conditions: [{ field: "source", match: "equals", value: "referral" }],
+  strategy: "user",
+  userIds: ["u3"],
+};
+const catchAll: RoutingRule = { id: "r3", name: "Everyone else", isActive: true, conditions: [], strategy: "least_loaded", userIds: ["u1", "u2", "u3"] };
+
+describe("conditionMatches", () => {
+  it("matches case-insensitively and ignores surrounding whitespace", () => {
+    expect(conditionMatches({ field: "company", match: "equals", value: "Acme" }, { company: " ACME " }, [])).toBe(true);
+    expect(conditionMatches({ field: "title", match: "contains", value: "director" }, { title: "Sales Director" }, [])).toBe(true);
+    expect(conditionMatches({ field: "country", match: "one_of", value: "us, ca" }, { country: "CA" }, [])).toBe(true);
+    expect(conditionMatches({ field: "country", match: "one_of", value: "us, ca" }, { country: "Mexico" }, [])).toBe(false);
+  });
+
+  it("never matches a missing field", () => {
+    expect(conditionMatches({ field: "state", match: "contains", value: "a" }, { state: null }, [])).toBe(false);
+  });
+
+  it("matches any of the lead's tags", () => {
+    expect(conditionMatches({ field: "tag", match: "equals", value: "vip" }, {}, ["Partner", "VIP"])).toBe(true);
+    expect(conditionMatches({ field: "tag", match: "equals", value: "vip" }, {}, [])).toBe(false);
+  });
+});
+
+describe("findRoutingRule", () => {
+  it("takes the first active rule whose conditions all match", () => {
+    const rules = [westCoast, referrals, catchAll];
+    expect(findRoutingRule(rules, { state: "OR", source: "referral" }, [], everyone)?.rule.id).toBe("r1");
+    expect(findRoutingRule(rules, { state: "NY", source: "referral" }, [], everyone)?.rule.id).toBe("r2");
+    expect(findRoutingRule(rules, { state: "NY" }, [], everyone)?.rule.id).toBe("r3");
+    expect(findRoutingRule([westCoast, referrals], { state: "NY" }, [], everyone)).toBeNull();
+  });
+
+  it("skips inactive rules and rules with no eligible users", () => {
+    const rules = [{ ...westCoast, isActive: false }, referrals, catchAll];
+    expect(findRoutingRule(rules, { state: "CA" }, [], everyone)?.rule.id).toBe("r3");
+    const match = findRoutingRule([referrals, catchAll], { source: "referral" }, [], new Set(["u1", "u2"]));
+    expect(match).toEqual({ rule: catchAll, pool: ["u1", "u2"] });
+  });
+});
+
+describe("pool picks", () => {
+  it("rotates round robin through the pool", () => {
+    const pool = ["u1", "u2", "u3"];
+    expect([1, 2, 3, 4].map(n => pickRoundRobin(pool, n))).toEqual(["u1", "u2", "u3", "u1"]);
+  });
+
+  it("picks the user with the fewest open leads, earlier users on ties", () => {
+    expect(pickLeastLoaded(["u1", "u2", "u3"], new Map([["u1", 4], ["u2", 1], ["u3", 1]]))).toBe("u2");
+    expect(pickLeastLoaded(["u1", "u2"], new Map([["u1", 2]]))).toBe("u2");
+    expect(pickLeastLoaded(["u1", "u2"], new Map())).toBe("u1");
+  });
+});
+
+describe("routing reasons", () => {
+  it("explain which rule matched and how the owner was chosen", () => {
+    expect(describeCondition(westCoast.conditions[0])).toBe('State is one of "CA, OR, WA"');
+    expect(describeRouting(westCoast, ["u1", "u2"], "Dana")).toBe(
+      'Rule "West coast" matched (State is one of "CA, OR, WA"); assigned to Dana by round robin across 2 users',
+    );
+    expect(describeRouting(catchAll, ["u1", "u2", "u3"], "Sam", 1)).toBe(
+      'Rule "Everyone else" matched (no conditions); assigned to Sam as the least loaded of 3 users (1 open lead)',
+    );
+    expect(describeRouting(referrals, ["u3"], "Lee")).toBe('Rule "Referrals" matched (Source is "referral"); assigned to Lee');
+    expect(noRuleMatchedReason()).toBe("No active assignment rule matched; left unassigned");
+    expect(noRuleMatchedReason("Pat")).toBe("No active assignment rule matched; kept Pat as owner");
+  });
+});
+
+describe("leadAssignmentRuleInputSchema", () => {
+  it("requires exactly one user for single-user rules", () => {
+    const rule = { name: "Referrals", conditions: [], strategy: "user", userIds: ["u1", "u2"] };
+    expect(leadAssignmentRuleInputSchema.safeParse(rule).success).toBe(false);
+    expect(leadAssignmentRuleInputSchema.safeParse({ ...rule, userIds: ["u1"] }).success).toBe(true);
+    expect(leadAssignmentRuleInputSchema.safeParse({ ...rule, strategy: "round_robin" }).success).toBe(true);
+  });
+});
@@ -54,8 +54,8 @@ beforeAll(async () => {
   org2Key = k2.publicKey;
 
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: `vitest-norm-key1-${ts}`, isActive: true, organizationId: orgId, createdBy: userId },
-    { hashedKey: k2.hashedKey, name: `vitest-norm-key2-${ts}`, isActive: true, organizationId: org2Id, createdBy: userId },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: `vitest-norm-key1-${ts}`, isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k2.hashedKey, keyId: k2.keyId, name: `vitest-norm-key2-${ts}`, isActive: true, organizationId: org2Id, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 });
@@ -0,0 +1,46 @@
+// Unit tests for lead generation jobs: resume points and the concurrency limit.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MAX_CONCURRENT_LEAD_GEN_RUNS,
+  isLeadGenPhase,
+  maxConcurrentLeadGenRuns,
+  remainingLeadGenPhases,
+} from "../server/lib/lead-gen-jobs";
+import { LEAD_GEN_PHASES } from "@shared/schema";
+
+describe("remainingLeadGenPhases", () => {
+  it("runs every phase for a fresh job", () => {
+    expect(remainingLeadGenPhases(null, null)).toEqual([...LEAD_GEN_PHASES]);
+    expect(remainingLeadGenPhases(undefined, undefined)).toEqual([...LEAD_GEN_PHASES]);
+  });
+
+  it("starts a retry at its phase", () => {
+    expect(remainingLeadGenPhases("strategy", null)).toEqual(["strategy", "communication_drafting"]);
+  });
+
+  it("resumes after the last phase an interrupted attempt completed", () => {
+    expect(remainingLeadGenPhases(null, "company_discovery")).toEqual(["contact_discovery", "strategy", "communication_drafting"]);
+    expect(remainingLeadGenPhases("contact_discovery", "strategy")).toEqual(["communication_drafting"]);
+    expect(remainingLeadGenPhases(null, "communication_drafting")).toEqual([]);
+  });
+
+  it("ignores a checkpoint from before the retry's start phase", () => {
+    expect(remainingLeadGenPhases("strategy", "market_research")).toEqual(["strategy", "communication_drafting"]);
+  });
+
+  it("treats unknown phases as unset", () => {
+    expect(remainingLeadGenPhases("lead_discovery", "complete")).toEqual([...LEAD_GEN_PHASES]);
+    expect(isLeadGenPhase("lead_discovery")).toBe(false);
+    expect(isLeadGenPhase("strategy")).toBe(true);
+  });
+});
+
+describe("maxConcurrentLeadGenRuns", () => {
+  it("reads a positive limit and falls back to the default otherwise", () => {
+    expect(maxConcurrentLeadGenRuns("5")).toBe(5);
+    expect(maxConcurrentLeadGenRuns(undefined)).toBe(DEFAULT_MAX_CONCURRENT_LEAD_GEN_RUNS);
+    expect(maxConcurrentLeadGenRuns("0")).toBe(DEFAULT_MAX_CONCURRENT_LEAD_GEN_RUNS);
+    expect(maxConcurrentLeadGenRuns("lots")).toBe(DEFAULT_MAX_CONCURRENT_LEAD_GEN_RUNS);
+  });
+});
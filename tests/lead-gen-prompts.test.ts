@@ -0,0 +1,81 @@
+// Unit tests for lead-gen prompt templates: rendering, variable checks and the built-in templates.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  renderPromptTemplate,
+  templateVariableNames,
+  unknownPromptVariables,
+} from "../server/lib/lead-gen-prompts";
+import { LEAD_GEN_PHASES, LEAD_GEN_PROMPT_KEYS, leadGenPromptTemplateInputSchema } from "@shared/schema";
+
+describe("renderPromptTemplate", () => {
+  it("substitutes every placeholder, including repeats and whitespace inside the braces", () => {
+    expect(renderPromptTemplate("Hi {{name}}, {{ name }} at {{company}}", { name: "Ada", company: "Acme" }))
+      .toBe("Hi Ada, Ada at Acme");
+  });
+
+  it("renders empty values as empty and keeps placeholders without a value", () => {
+    expect(renderPromptTemplate("A{{empty}}B {{missing}}", { empty: "" })).toBe("AB {{missing}}");
+  });
+
+  it("does not expand placeholders inside substituted values", () => {
+    expect(renderPromptTemplate("{{a}}", { a: "{{b}}", b: "nope" })).toBe("{{b}}");
+  });
+
+  it("ignores inherited object properties", () => {
+    expect(renderPromptTemplate("{{constructor}}", {})).toBe("{{constructor}}");
+  });
+
+  it("leaves single braces and JSON examples alone", () => {
+    const template = `Return JSON: { "name": "{{companyName}}" }`;
+    expect(renderPromptTemplate(template, { companyName: "Acme" })).toBe(`Return JSON: { "name": "Acme" }`);
+  });
+});
+
+describe("templateVariableNames", () => {
+  it("lists each placeholder once, in order of first use", () => {
+    expect(templateVariableNames("{{b}} {{a}} {{ b }} {{c_1}}")).toEqual(["b", "a", "c_1"]);
+  });
+
+  it("skips malformed placeholders", () => {
+    expect(templateVariableNames("{{1abc}} {{with space}} {single}")).toEqual([]);
+  });
+});
+
+describe("unknownPromptVariables", () => {
+  it("flags placeholders the prompt does not provide, across both templates", () => {
+    expect(unknownPromptVariables("strategy", "{{companyName}} {{nope}}", "{{offers}} {{nope}} {{other}}"))
+      .toEqual(["nope", "other"]);
+  });
+
+  it("checks against the prompt's own variables", () => {
+    expect(unknownPromptVariables("communication_drafting_playbook", "{{playbookSteps}}")).toEqual([]);
+    expect(unknownPromptVariables("communication_drafting", "{{playbookSteps}}")).toEqual(["playbookSteps"]);
+  });
+});
+
+describe("BUILT_IN_PROMPT_TEMPLATES", () => {
+  it("defines every prompt key under its own key", () => {
+    for (const key of LEAD_GEN_PROMPT_KEYS) {
+      expect(BUILT_IN_PROMPT_TEMPLATES[key].key).toBe(key);
+      expect(LEAD_GEN_PHASES).toContain(BUILT_IN_PROMPT_TEMPLATES[key].phase);
+    }
+  });
+
+  it("only uses declared variables, each declared once", () => {
+    for (const key of LEAD_GEN_PROMPT_KEYS) {
+      const template = BUILT_IN_PROMPT_TEMPLATES[key];
+      const declared = template.variables.map(variable => variable.name);
+      expect(unknownPromptVariables(key, template.systemPrompt, template.userPrompt)).toEqual([]);
+      expect(new Set(declared).size).toBe(declared.length);
+    }
+  });
+
+  it("passes the save validation as-is", () => {
+    for (const key of LEAD_GEN_PROMPT_KEYS) {
+      const { systemPrompt, userPrompt } = BUILT_IN_PROMPT_TEMPLATES[key];
+      expect(leadGenPromptTemplateInputSchema.safeParse({ systemPrompt, userPrompt }).success).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,100 @@
+// Unit tests for lead scoring: fit rules, engagement points and the nightly rescore cutoff.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_LEAD_SCORING_MODEL,
+  describeFitRule,
+  lastNightlyRescoreAt,
+  scoreLead,
+  type LeadScoreSignals,
+} from "../server/lib/lead-scoring";
+import { leadScoringModelSchema, type LeadScoringModelInput } from "@shared/schema";
+
+const now = new Date("2026-03-10T12:00:00Z");
+const noSignals: LeadScoreSignals = { tags: [], completedActivities: 0, comments: 0, lastEngagementAt: null };
+
+const model: LeadScoringModelInput = {
+  fitRules: [
+    { field: "title", match: "contains", value: "Director", points: 20 },
+    { field: "company", match: "present", value: "", points: 10 },
+    { field: "source", match: "equals", value: "referral", points: 15 },
+    { field: "tag", match: "equals", value: "vip", points: 25 },
+    { field: "title", match: "contains", value: "student", points: -30 },
+  ],
+  engagement: {
+    pointsPerActivity: 10,
+    maxActivityPoints: 20,
+    pointsPerComment: 5,
+    maxCommentPoints: 10,
+    recencyPoints: 20,
+    recencyDays: 10,
+  },
+};
+
+describe("scoreLead", () => {
+  it("adds up matching fit rules, case-insensitively", () => {
+    const result = scoreLead(model, { title: "Sales DIRECTOR", company: "Acme", source: "referral" }, { ...noSignals, tags: ["VIP"] }, now);
+    expect(result.score).toBe(70);
+    expect(result.breakdown.fit).toEqual([
+      { label: 'Title contains "Director"', points: 20 },
+      { label: "Company is set", points: 10 },
+      { label: 'Source is "referral"', points: 15 },
+      { label: 'Tag is "vip"', points: 25 },
+    ]);
+    expect(result.breakdown.engagement).toEqual([]);
+  });
+
+  it("caps activity and comment points and decays recency", () => {
+    const result = scoreLead(model, {}, {
+      tags: [],
+      completedActivities: 3,
+      comments: 1,
+      lastEngagementAt: new Date("2026-03-06T09:00:00Z"),
+    }, now);
+    expect(result.breakdown.engagement).toEqual([
+      { label: "3 completed activities", points: 20 },
+      { label: "1 comment", points: 5 },
+      { label: "Last engaged 4 days ago", points: 12 },
+    ]);
+    expect(result.score).toBe(37);
+  });
+
+  it("gives no recency points once the window has passed", () => {
+    const result = scoreLead(model, {}, { ...noSignals, lastEngagementAt: new Date("2026-02-01T00:00:00Z") }, now);
+    expect(result).toEqual({ score: 0, breakdown: { fit: [], engagement: [] } });
+  });
+
+  it("clamps the score to 0-100", () => {
+    expect(scoreLead(model, { title: "Student" }, noSignals, now).score).toBe(0);
+    const generous = { ...model, fitRules: model.fitRules.map(rule => ({ ...rule, points: 50 })) };
+    expect(scoreLead(generous, { title: "Director", company: "Acme", source: "referral" }, { ...noSignals, tags: ["vip"] }, now).score).toBe(100);
+  });
+
+  it("scores a bare lead zero and a strong one 100 under the default model", () => {
+    expect(scoreLead(DEFAULT_LEAD_SCORING_MODEL, {}, noSignals, now).score).toBe(0);
+    const engaged = { tags: [], completedActivities: 5, comments: 4, lastEngagementAt: now };
+    expect(scoreLead(DEFAULT_LEAD_SCORING_MODEL, { title: "CFO", company: "Acme", source: "referral" }, engaged, now).score).toBe(100);
+  });
+});
+
+describe("describeFitRule", () => {
+  it("reads like a sentence", () => {
+    expect(describeFitRule({ field: "tag", match: "present", value: "", points: 5 })).toBe("Has any tag");
+    expect(describeFitRule({ field: "company", match: "contains", value: "health", points: 5 })).toBe('Company contains "health"');
+  });
+});
+
+describe("leadScoringModelSchema", () => {
+  it("accepts the default model and requires values for matching rules", () => {
+    expect(leadScoringModelSchema.safeParse(DEFAULT_LEAD_SCORING_MODEL).success).toBe(true);
+    const missingValue = { ...model, fitRules: [{ field: "title", match: "contains", value: " ", points: 5 }] };
+    expect(leadScoringModelSchema.safeParse(missingValue).success).toBe(false);
+  });
+});
+
+describe("lastNightlyRescoreAt", () => {
+  it("is today's run once the hour has passed, yesterday's before", () => {
+    expect(lastNightlyRescoreAt(new Date("2026-03-10T02:30:00Z"), 2).toISOString()).toBe("2026-03-10T02:00:00.000Z");
+    expect(lastNightlyRescoreAt(new Date("2026-03-10T01:59:00Z"), 2).toISOString()).toBe("2026-03-09T02:00:00.000Z");
+  });
+});
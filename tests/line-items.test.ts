@@ -0,0 +1,56 @@
+// Unit tests for opportunity line item pricing.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import { computeLineItemTotal, summarizeLineItems } from "../server/lib/line-items";
+import { insertOpportunityLineItemSchema } from "@shared/schema";
+
+describe("computeLineItemTotal", () => {
+  it("applies quantity and discount to one-time items", () => {
+    expect(computeLineItemTotal({ quantity: 3, unitPrice: 1000, discountPercent: 10, billingType: "one_time" })).toBe(2700);
+    expect(computeLineItemTotal({ quantity: 1, unitPrice: 499.99, billingType: "one_time", termMonths: 24 })).toBe(499.99);
+  });
+
+  it("multiplies recurring items by their term", () => {
+    expect(computeLineItemTotal({ quantity: 10, unitPrice: 50, billingType: "recurring", termMonths: 36 })).toBe(18000);
+    // No term: one year
+    expect(computeLineItemTotal({ quantity: 10, unitPrice: 50, discountPercent: 20, billingType: "recurring" })).toBe(4800);
+  });
+
+  it("rounds to cents and clamps discounts", () => {
+    expect(computeLineItemTotal({ quantity: 3, unitPrice: 0.333, billingType: "one_time" })).toBe(1);
+    expect(computeLineItemTotal({ quantity: 2, unitPrice: 100, discountPercent: 150, billingType: "one_time" })).toBe(0);
+  });
+});
+
+describe("summarizeLineItems", () => {
+  it("splits one-time and recurring revenue", () => {
+    const summary = summarizeLineItems([
+      { quantity: 1, unitPrice: 5000, billingType: "one_time" },
+      { quantity: 20, unitPrice: 40, discountPercent: 25, billingType: "recurring", termMonths: 24 },
+    ]);
+    expect(summary).toEqual({
+      itemCount: 2,
+      oneTimeTotal: 5000,
+      recurringMonthly: 600,
+      annualRecurring: 7200,
+      recurringTotal: 14400,
+      total: 19400,
+    });
+  });
+
+  it("returns zeros for no items", () => {
+    expect(summarizeLineItems([]).total).toBe(0);
+  });
+});
+
+describe("insertOpportunityLineItemSchema", () => {
+  it("requires a product or a name", () => {
+    expect(insertOpportunityLineItemSchema.safeParse({ quantity: 1 }).success).toBe(false);
+    expect(insertOpportunityLineItemSchema.safeParse({ productId: "prod-1" }).success).toBe(true);
+    expect(insertOpportunityLineItemSchema.safeParse({ name: "Onsite training", unitPrice: "1200" }).success).toBe(true);
+  });
+
+  it("rejects non-positive quantities", () => {
+    expect(insertOpportunityLineItemSchema.safeParse({ name: "Seats", quantity: 0 }).success).toBe(false);
+  });
+});
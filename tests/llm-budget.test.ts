@@ -0,0 +1,113 @@
+// Unit tests for LLM usage accounting and monthly budgets.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  budgetMonth,
+  estimateLlmCostUsd,
+  evaluateLlmBudget,
+  extractLlmTokenUsage,
+  llmBudgetExceededReason,
+  mergeLlmPrices,
+  priceForModel,
+  toLlmUsageTotals,
+} from "../server/lib/llm-budget";
+
+describe("extractLlmTokenUsage", () => {
+  it("reads OpenAI-style usage for OpenAI, Azure and compatible providers", () => {
+    const body = { choices: [], usage: { prompt_tokens: 1200, completion_tokens: 300, total_tokens: 1500 } };
+    expect(extractLlmTokenUsage("openai", body)).toEqual({ promptTokens: 1200, completionTokens: 300, reasoningTokens: 0 });
+    expect(extractLlmTokenUsage("azure", body)).toEqual({ promptTokens: 1200, completionTokens: 300, reasoningTokens: 0 });
+  });
+
+  it("counts reasoning tokens as part of the completion", () => {
+    const openai = { usage: { prompt_tokens: 100, completion_tokens: 900, completion_tokens_details: { reasoning_tokens: 800 } } };
+    expect(extractLlmTokenUsage("azure", openai)).toEqual({ promptTokens: 100, completionTokens: 900, reasoningTokens: 800 });
+    const google = { usageMetadata: { promptTokenCount: 70, candidatesTokenCount: 9, thoughtsTokenCount: 40 } };
+    expect(extractLlmTokenUsage("google", google)).toEqual({ promptTokens: 70, completionTokens: 49, reasoningTokens: 40 });
+  });
+
+  it("reads Anthropic and Google usage", () => {
+    expect(extractLlmTokenUsage("anthropic", { usage: { input_tokens: 50, output_tokens: 20 } }))
+      .toEqual({ promptTokens: 50, completionTokens: 20, reasoningTokens: 0 });
+    expect(extractLlmTokenUsage("google", { usageMetadata: { promptTokenCount: 70, candidatesTokenCount: 9 } }))
+      .toEqual({ promptTokens: 70, completionTokens: 9, reasoningTokens: 0 });
+  });
+
+  it("returns null without usage and ignores junk counts", () => {
+    expect(extractLlmTokenUsage("openai", { choices: [] })).toBeNull();
+    expect(extractLlmTokenUsage("anthropic", null)).toBeNull();
+    expect(extractLlmTokenUsage("openai", { usage: { prompt_tokens: "12", completion_tokens: -4 } }))
+      .toEqual({ promptTokens: 0, completionTokens: 0, reasoningTokens: 0 });
+  });
+});
+
+describe("priceForModel / estimateLlmCostUsd", () => {
+  it("matches the longest listed prefix", () => {
+    expect(priceForModel("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(priceForModel("gpt-4o-2024-08-06")).toEqual({ input: 2.5, output: 10 });
+    expect(priceForModel("my-custom-deployment")).toBeNull();
+  });
+
+  it("prices per million tokens and charges nothing for unknown models", () => {
+    expect(estimateLlmCostUsd("gpt-4o", { promptTokens: 1_000_000, completionTokens: 100_000, reasoningTokens: 0 })).toBeCloseTo(3.5);
+    expect(estimateLlmCostUsd("my-custom-deployment", { promptTokens: 5000, completionTokens: 5000, reasoningTokens: 0 })).toBe(0);
+  });
+});
+
+describe("mergeLlmPrices", () => {
+  it("lets admin prices replace list prices and price new models", () => {
+    const prices = mergeLlmPrices([
+      { model: "gpt-4o", input: 2, output: 8 },
+      { model: " My-Custom-Deployment ", input: 1, output: 3 },
+    ]);
+    expect(priceForModel("gpt-4o-2024-08-06", prices)).toEqual({ input: 2, output: 8 });
+    expect(priceForModel("gpt-4o-mini", prices)).toEqual({ input: 0.15, output: 0.6 });
+    expect(estimateLlmCostUsd("my-custom-deployment", { promptTokens: 1_000_000, completionTokens: 1_000_000, reasoningTokens: 0 }, prices))
+      .toBeCloseTo(4);
+  });
+});
+
+describe("toLlmUsageTotals", () => {
+  it("parses aggregate sums and defaults missing rows to zero", () => {
+    expect(toLlmUsageTotals({ calls: 3, promptTokens: "1200", completionTokens: "300", reasoningTokens: "0", totalTokens: "1500", costUsd: "0.006000" }))
+      .toEqual({ calls: 3, promptTokens: 1200, completionTokens: 300, reasoningTokens: 0, totalTokens: 1500, costUsd: 0.006 });
+    expect(toLlmUsageTotals(undefined).totalTokens).toBe(0);
+  });
+});
+
+describe("evaluateLlmBudget", () => {
+  const limits = { monthlyTokenLimit: 1_000_000, monthlyCostLimitUsd: 40, warnAtPercent: 80 };
+
+  it("is unlimited without a budget or without limits", () => {
+    expect(evaluateLlmBudget(null, { tokens: 5, costUsd: 1 })).toEqual({ state: "unlimited", percentUsed: null });
+    expect(evaluateLlmBudget({ monthlyTokenLimit: null, monthlyCostLimitUsd: null, warnAtPercent: 80 }, { tokens: 5, costUsd: 1 }).state)
+      .toBe("unlimited");
+  });
+
+  it("lets the fuller limit decide", () => {
+    expect(evaluateLlmBudget(limits, { tokens: 100_000, costUsd: 4 })).toEqual({ state: "ok", percentUsed: 10 });
+    expect(evaluateLlmBudget(limits, { tokens: 100_000, costUsd: 34 }).state).toBe("warning");
+    expect(evaluateLlmBudget(limits, { tokens: 1_000_000, costUsd: 4 }).state).toBe("exceeded");
+  });
+});
+
+describe("budgetMonth", () => {
+  it("is the UTC calendar month", () => {
+    const month = budgetMonth(new Date("2026-03-31T23:30:00-05:00"));
+    expect(month.start.toISOString()).toBe("2026-04-01T00:00:00.000Z");
+    expect(month.end.toISOString()).toBe("2026-05-01T00:00:00.000Z");
+    expect(month.label).toBe("April 2026");
+  });
+});
+
+describe("llmBudgetExceededReason", () => {
+  it("names the month and only the limits that are set", () => {
+    const reason = llmBudgetExceededReason(
+      { monthlyTokenLimit: null, monthlyCostLimitUsd: 40, warnAtPercent: 80 },
+      { tokens: 2_000_000, costUsd: 41.2 },
+      "April 2026",
+    );
+    expect(reason).toContain("AI budget for April 2026 ($41.20 of $40.00)");
+    expect(reason).not.toContain("tokens");
+  });
+});
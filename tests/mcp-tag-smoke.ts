@@ -15,7 +15,7 @@ async function main() {
   const [user] = await db.select().from(schema.users).limit(1);
   const key = generateApiKey();
   const [inserted] = await db.insert(schema.apiKeys).values({
-    hashedKey: key.hashedKey, name: `mcpsmoke-${suffix}`, isActive: true,
+    hashedKey: key.hashedKey, keyId: key.keyId, name: `mcpsmoke-${suffix}`, isActive: true,
     organizationId: org.id, createdBy: user.id,
   }).returning({ id: schema.apiKeys.id });
   const accountId = `ACCT-MCPSMOKE-${suffix}`;
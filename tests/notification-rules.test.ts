@@ -0,0 +1,72 @@
+// Unit tests for notification recipient rules and links.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  commentRecipients,
+  isNotificationEnabled,
+  mentionedUserIds,
+  notificationLink,
+  overdueDedupeKey,
+  reassignedOwnerId,
+} from "../server/lib/notification-rules";
+
+describe("notificationLink", () => {
+  it("links to the record's detail page", () => {
+    expect(notificationLink("Opportunity", "OPP-1")).toBe("/opportunities/OPP-1");
+    expect(notificationLink("LeadGenerationRun", "run-1")).toBe("/lead-gen/runs/run-1");
+  });
+
+  it("returns null for entities without a page", () => {
+    expect(notificationLink("Comment", "c-1")).toBeNull();
+  });
+});
+
+describe("mentionedUserIds", () => {
+  it("extracts unique user IDs and ignores malformed entries", () => {
+    expect(mentionedUserIds([{ userId: "u1" }, { userId: "u2", display: "B" }, { userId: "u1" }, null, { display: "x" }, "u3"]))
+      .toEqual(["u1", "u2"]);
+    expect(mentionedUserIds(null)).toEqual([]);
+  });
+});
+
+describe("commentRecipients", () => {
+  it("never notifies the author", () => {
+    expect(commentRecipients("author", [{ userId: "author" }], ["author"]))
+      .toEqual({ mention: [], comment_reply: [] });
+  });
+
+  it("sends mentioned subscribers a mention only", () => {
+    expect(commentRecipients("author", [{ userId: "u1" }], ["u1", "u2", "u2"]))
+      .toEqual({ mention: ["u1"], comment_reply: ["u2"] });
+  });
+});
+
+describe("reassignedOwnerId", () => {
+  it("returns the new owner when ownership moves to someone else", () => {
+    expect(reassignedOwnerId({ ownerId: "u1" }, { ownerId: "u2" }, "u1")).toBe("u2");
+    expect(reassignedOwnerId({ ownerId: null }, { ownerId: "u2" }, null)).toBe("u2");
+  });
+
+  it("ignores unchanged, cleared and self-assigned owners", () => {
+    expect(reassignedOwnerId({ ownerId: "u1" }, { ownerId: "u1" }, "u2")).toBeNull();
+    expect(reassignedOwnerId({ ownerId: "u1" }, { ownerId: null }, "u2")).toBeNull();
+    expect(reassignedOwnerId({ ownerId: "u1" }, { ownerId: "u2" }, "u2")).toBeNull();
+    expect(reassignedOwnerId(null, { ownerId: "u2" }, "u1")).toBeNull();
+  });
+});
+
+describe("overdueDedupeKey", () => {
+  it("changes when the activity is rescheduled", () => {
+    const a = overdueDedupeKey("act-1", new Date("2026-03-01T09:00:00Z"));
+    expect(a).toBe("activity_overdue:act-1:2026-03-01T09:00:00.000Z");
+    expect(overdueDedupeKey("act-1", new Date("2026-03-02T09:00:00Z"))).not.toBe(a);
+  });
+});
+
+describe("isNotificationEnabled", () => {
+  it("treats missing preferences as everything enabled", () => {
+    expect(isNotificationEnabled("mention", undefined)).toBe(true);
+    expect(isNotificationEnabled("mention", ["activity_overdue"])).toBe(true);
+    expect(isNotificationEnabled("activity_overdue", ["activity_overdue"])).toBe(false);
+  });
+});
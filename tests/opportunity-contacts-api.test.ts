@@ -31,7 +31,7 @@ beforeAll(async () => {
   const k1 = generateApiKey();
   orgKey = k1.publicKey;
   const inserted = await db.insert(schema.apiKeys).values([
-    { hashedKey: k1.hashedKey, name: "vitest-oc-org-key", isActive: true, organizationId: orgId, createdBy: userId },
+    { hashedKey: k1.hashedKey, keyId: k1.keyId, name: "vitest-oc-org-key", isActive: true, organizationId: orgId, createdBy: userId },
   ]).returning({ id: schema.apiKeys.id });
   keyIds = inserted.map(r => r.id);
 
@@ -0,0 +1,123 @@
+// Unit tests for opportunity stage history diffing. Pure helpers only —
+// no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  buildOpportunityStageHistoryRow,
+  diffOpportunityTrackedFields,
+  latestOpportunityCloses,
+  opportunityChangeSourceForAudit,
+} from "../server/lib/opportunity-stage-diff";
+
+const base = {
+  id: "OPP-1",
+  organizationId: "org-1",
+  stage: "prospecting",
+  amount: "1000.00",
+  probability: 10,
+  closeDate: new Date("2026-03-01T00:00:00Z"),
+};
+
+describe("diffOpportunityTrackedFields", () => {
+  it("returns no changes when tracked values are equal across representations", () => {
+    const after = { ...base, amount: 1000, probability: "10", closeDate: "2026-03-01T00:00:00.000Z" };
+    expect(diffOpportunityTrackedFields(base, after)).toEqual([]);
+  });
+
+  it("detects each changed field", () => {
+    const after = { ...base, stage: "qualification", amount: "2500", closeDate: "2026-04-01" };
+    expect(diffOpportunityTrackedFields(base, after)).toEqual(["stage", "amount", "closeDate"]);
+  });
+
+  it("ignores fields missing from a partial update", () => {
+    expect(diffOpportunityTrackedFields(base, { probability: 40 })).toEqual(["probability"]);
+  });
+
+  it("counts non-null fields on creation", () => {
+    expect(diffOpportunityTrackedFields(null, { stage: "prospecting", amount: null, probability: 10 }))
+      .toEqual(["stage", "probability"]);
+  });
+});
+
+describe("buildOpportunityStageHistoryRow", () => {
+  it("returns null when nothing tracked changed", () => {
+    const row = buildOpportunityStageHistoryRow({
+      opportunityId: "OPP-1",
+      organizationId: "org-1",
+      before: base,
+      after: { ...base, name: "Renamed" } as typeof base,
+      source: "ui",
+    });
+    expect(row).toBeNull();
+  });
+
+  it("records from/to values and carries unchanged fields forward", () => {
+    const row = buildOpportunityStageHistoryRow({
+      opportunityId: "OPP-1",
+      organizationId: "org-1",
+      before: base,
+      after: { stage: "Proposal" },
+      source: "external_api",
+      apiKeyId: "key-1",
+      auditLogId: "audit-1",
+    });
+    expect(row).toMatchObject({
+      fromStage: "prospecting",
+      toStage: "proposal",
+      fromAmount: "1000.00",
+      toAmount: "1000.00",
+      toProbability: 10,
+      changedFields: ["stage"],
+      source: "external_api",
+      apiKeyId: "key-1",
+      actorId: null,
+      auditLogId: "audit-1",
+    });
+    expect(row!.toCloseDate!.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+
+  it("leaves from values empty for a created opportunity", () => {
+    const row = buildOpportunityStageHistoryRow({
+      opportunityId: "OPP-2",
+      organizationId: null,
+      before: null,
+      after: { stage: "prospecting", amount: "500" },
+      source: "import",
+    });
+    expect(row).toMatchObject({ fromStage: null, toStage: "prospecting", fromAmount: null, toAmount: "500.00" });
+  });
+});
+
+describe("opportunityChangeSourceForAudit", () => {
+  it("maps write actions to change sources", () => {
+    expect(opportunityChangeSourceForAudit("update")).toBe("ui");
+    expect(opportunityChangeSourceForAudit("bulk_update")).toBe("bulk");
+    expect(opportunityChangeSourceForAudit("import")).toBe("import");
+    expect(opportunityChangeSourceForAudit("delete")).toBeNull();
+  });
+});
+
+describe("latestOpportunityCloses", () => {
+  const at = (day: number) => new Date(Date.UTC(2026, 2, day));
+
+  it("counts opportunities created or imported directly into a closed stage", () => {
+    const closes = latestOpportunityCloses([
+      { opportunityId: "OPP-1", toStage: "closed_won", toAmount: "500.00", changedAt: at(1) },
+      { opportunityId: "OPP-2", toStage: "closed_lost", toAmount: null, changedAt: at(2) },
+    ]);
+    expect(Array.from(closes.entries())).toEqual([
+      ["OPP-1", { amount: 500, changedAt: at(1) }],
+      ["OPP-2", { amount: 0, changedAt: at(2) }],
+    ]);
+  });
+
+  it("keeps only the latest close of a reopened deal and ignores open stages", () => {
+    const closes = latestOpportunityCloses([
+      { opportunityId: "OPP-1", toStage: "closed_lost", toAmount: "100.00", changedAt: at(1) },
+      { opportunityId: "OPP-1", toStage: "negotiation", toAmount: "100.00", changedAt: at(2) },
+      { opportunityId: "OPP-1", toStage: "closed_won", toAmount: "250.00", changedAt: at(3) },
+      { opportunityId: "OPP-2", toStage: "proposal", toAmount: "900.00", changedAt: at(3) },
+    ]);
+    expect(closes.size).toBe(1);
+    expect(closes.get("OPP-1")).toEqual({ amount: 250, changedAt: at(3) });
+  });
+});
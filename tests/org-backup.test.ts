@@ -0,0 +1,174 @@
+// Unit tests for the per-organization backup table list and ID remapping.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import {
+  ORG_BACKUP_TABLES,
+  collectReferencedUserIds,
+  polymorphicTable,
+  remapOrgBackup,
+  type RemapOptions,
+} from "../server/lib/org-backup";
+
+const TARGET_ORG = "org-target";
+const ACTOR = "user-admin";
+
+function columnsOf(key: string): Record<string, unknown> {
+  return getTableColumns((schema as any)[key]);
+}
+
+function options(overrides: Partial<RemapOptions> = {}): RemapOptions {
+  const issued = new Map<string, number>();
+  return {
+    organizationId: TARGET_ORG,
+    actorUserId: ACTOR,
+    userIds: new Map([["u-alice", "u-alice-new"]]),
+    allocateId: async spec => {
+      const prefix = spec.idEntity ?? spec.key;
+      issued.set(prefix, (issued.get(prefix) ?? 0) + 1);
+      return `${prefix}-${issued.get(prefix)}`;
+    },
+    ...overrides,
+  };
+}
+
+describe("ORG_BACKUP_TABLES", () => {
+  it("names real tables and columns", () => {
+    const keys = ORG_BACKUP_TABLES.map(spec => spec.key);
+    expect(new Set(keys).size).toBe(keys.length);
+
+    for (const spec of ORG_BACKUP_TABLES) {
+      const columns = columnsOf(spec.key);
+      expect(columns, spec.key).toHaveProperty("id");
+      if (spec.orgScoped) expect(columns, spec.key).toHaveProperty("organizationId");
+      const named = [
+        ...Object.keys(spec.refs ?? {}),
+        ...Object.keys(spec.deferred ?? {}),
+        ...(spec.clear ?? []),
+        ...(spec.polymorphic ? [spec.polymorphic.typeColumn, spec.polymorphic.idColumn] : []),
+      ];
+      for (const column of named) expect(columns, `${spec.key}.${column}`).toHaveProperty(column);
+    }
+  });
+
+  it("lists parents before the tables that reference them", () => {
+    const position = new Map(ORG_BACKUP_TABLES.map((spec, i) => [spec.key, i]));
+    for (const spec of ORG_BACKUP_TABLES) {
+      for (const [column, ref] of Object.entries(spec.refs ?? {})) {
+        if (ref.table === "users") continue;
+        expect(position.get(ref.table), `${spec.key}.${column}`).toBeLessThanOrEqual(position.get(spec.key)!);
+      }
+    }
+  });
+
+  it("normalizes the polymorphic entity type spellings", () => {
+    expect(polymorphicTable("Account")).toBe("accounts");
+    expect(polymorphicTable("opportunity")).toBe("opportunities");
+    expect(polymorphicTable("candidate_lead")).toBe("candidateLeads");
+    expect(polymorphicTable("LeadGenerationRun")).toBe("leadGenerationRuns");
+    expect(polymorphicTable("Widget")).toBeUndefined();
+  });
+});
+
+describe("remapOrgBackup", () => {
+  const backup = () => ({
+    accounts: [{ id: "ACCT-1", organizationId: "org-source", name: "Acme", ownerId: "u-alice", importJobId: "job-1", customFields: {} }],
+    contacts: [
+      { id: "CONT-1", organizationId: "org-source", accountId: "ACCT-1", ownerId: "u-bob", customFields: { manager: "u-alice", referrer: "CONT-9" } },
+    ],
+    opportunities: [
+      { id: "OPP-1", organizationId: "org-source", accountId: "ACCT-1", ownerId: null },
+      { id: "OPP-2", organizationId: "org-source", accountId: "ACCT-gone", ownerId: null },
+    ],
+    opportunityContacts: [
+      { id: "oc-1", opportunityId: "OPP-1", contactId: "CONT-1" },
+      { id: "oc-2", opportunityId: "OPP-2", contactId: "CONT-1" },
+    ],
+    customFieldDefinitions: [
+      { id: "cf-1", organizationId: "org-source", entityType: "contact", key: "manager", fieldType: "lookup", lookupEntity: "user" },
+      { id: "cf-2", organizationId: "org-source", entityType: "contact", key: "referrer", fieldType: "lookup", lookupEntity: "contact" },
+    ],
+    comments: [
+      { id: "c-2", entity: "Account", entityId: "ACCT-1", parentId: "c-1", depth: 1, createdBy: "u-bob", mentions: [] },
+      {
+        id: "c-1", entity: "Account", entityId: "ACCT-1", parentId: null, depth: 0, createdBy: "u-alice",
+        mentions: [{ userId: "u-alice", username: "alice" }, { userId: "u-bob", username: "bob" }],
+      },
+      { id: "c-3", entity: "Opportunity", entityId: "OPP-2", parentId: null, depth: 0, createdBy: "u-alice", mentions: [] },
+      { id: "c-4", entity: "Opportunity", entityId: "OPP-2-reply", parentId: "c-3", depth: 1, createdBy: "u-alice", mentions: [] },
+    ],
+    activitySeries: [{
+      id: "s-1", organizationId: "org-source", templateActivityId: "ACT-1", createdBy: "u-alice",
+      template: { subject: "Check-in", ownerId: "u-bob", relatedType: "Account", relatedId: "ACCT-1" },
+      associations: [{ entityType: "Contact", entityId: "CONT-1" }, { entityType: "Lead", entityId: "LEAD-x" }],
+    }],
+    activities: [{ id: "ACT-1", organizationId: "org-source", seriesId: "s-1", relatedType: "Lead", relatedId: "LEAD-x", ownerId: "u-alice" }],
+  });
+
+  it("gives every row a new id, sets the organization and rewrites references", async () => {
+    const result = await remapOrgBackup(backup(), options());
+    const account = result.tables.accounts[0];
+    const contact = result.tables.contacts[0];
+
+    expect(account).toMatchObject({ id: "Account-1", organizationId: TARGET_ORG, ownerId: "u-alice-new", importJobId: null });
+    expect(contact).toMatchObject({ accountId: "Account-1", ownerId: null, organizationId: TARGET_ORG });
+    expect(result.tables.opportunities.map(o => o.accountId)).toEqual(["Account-1"]);
+    expect(result.idMaps.contacts.get("CONT-1")).toBe(contact.id);
+  });
+
+  it("drops rows with a missing required reference, and the rows that depend on them", async () => {
+    const result = await remapOrgBackup(backup(), options());
+
+    expect(result.dropped).toMatchObject({ opportunities: 1, opportunityContacts: 1, comments: 2 });
+    expect(result.tables.opportunityContacts).toHaveLength(1);
+    expect(result.idMaps.opportunities.has("OPP-2")).toBe(false);
+    // The reply to a dropped comment goes with it, whatever the input order
+    expect(result.tables.comments.map(c => c.parentId)).toEqual([null, result.idMaps.comments.get("c-1")]);
+  });
+
+  it("maps users by the given table and falls back per column", async () => {
+    const result = await remapOrgBackup(backup(), options());
+    const [parent, reply] = result.tables.comments;
+
+    expect(parent.createdBy).toBe("u-alice-new");
+    expect(reply.createdBy).toBe(ACTOR);
+    expect(parent.mentions).toEqual([{ userId: "u-alice-new", username: "alice" }]);
+  });
+
+  it("rewrites custom field lookups and removes ones that cannot be resolved", async () => {
+    const result = await remapOrgBackup(backup(), options());
+    expect(result.tables.contacts[0].customFields).toEqual({ manager: "u-alice-new" });
+  });
+
+  it("rewrites the recurring series template and defers its template activity", async () => {
+    const result = await remapOrgBackup(backup(), options());
+    const series = result.tables.activitySeries[0];
+    const activity = result.tables.activities[0];
+
+    expect(series.template).toMatchObject({ ownerId: null, relatedType: "Account", relatedId: "Account-1" });
+    expect(series.associations).toEqual([{ entityType: "Contact", entityId: result.tables.contacts[0].id }]);
+    expect(series.templateActivityId).toBeNull();
+    expect(result.deferred).toEqual([{ key: "activitySeries", id: series.id, column: "templateActivityId", value: activity.id }]);
+
+    expect(activity).toMatchObject({ seriesId: series.id, relatedType: null, relatedId: null });
+  });
+
+  it("uses random UUIDs when no allocator is given", async () => {
+    const result = await remapOrgBackup(backup(), options({ allocateId: undefined }));
+    expect(result.tables.accounts[0].id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe("collectReferencedUserIds", () => {
+  it("finds users in reference columns, mentions, series templates and user lookups", () => {
+    const ids = collectReferencedUserIds({
+      accounts: [{ id: "a", ownerId: "u-1" }],
+      comments: [{ id: "c", createdBy: "u-2", mentions: [{ userId: "u-3" }] }],
+      activitySeries: [{ id: "s", createdBy: null, template: { ownerId: "u-4" } }],
+      customFieldDefinitions: [{ entityType: "lead", key: "sdr", fieldType: "lookup", lookupEntity: "user" }],
+      leads: [{ id: "l", ownerId: null, customFields: { sdr: "u-5" } }],
+    });
+    expect([...ids].sort()).toEqual(["u-1", "u-2", "u-3", "u-4", "u-5"]);
+  });
+});
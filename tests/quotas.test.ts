@@ -0,0 +1,85 @@
+// Unit tests for quota periods and attainment metrics.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import { computeQuotaMetrics, formatQuotaPeriod, quotaPeriodFor, quotaPeriodRange } from "../server/lib/quotas";
+import { insertSalesQuotaSchema } from "@shared/schema";
+
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+describe("quota periods", () => {
+  it("computes half-open calendar ranges", () => {
+    const month = quotaPeriodRange({ periodType: "month", year: 2026, period: 12 });
+    expect([iso(month.start), iso(month.end)]).toEqual(["2026-12-01", "2027-01-01"]);
+    const quarter = quotaPeriodRange({ periodType: "quarter", year: 2026, period: 2 });
+    expect([iso(quarter.start), iso(quarter.end)]).toEqual(["2026-04-01", "2026-07-01"]);
+    const year = quotaPeriodRange({ periodType: "year", year: 2026, period: 1 });
+    expect([iso(year.start), iso(year.end)]).toEqual(["2026-01-01", "2027-01-01"]);
+  });
+
+  it("finds the period containing a date", () => {
+    const date = new Date("2026-08-15T12:00:00Z");
+    expect(quotaPeriodFor("month", date)).toEqual({ periodType: "month", year: 2026, period: 8 });
+    expect(quotaPeriodFor("quarter", date)).toEqual({ periodType: "quarter", year: 2026, period: 3 });
+    expect(quotaPeriodFor("year", date)).toEqual({ periodType: "year", year: 2026, period: 1 });
+  });
+
+  it("labels periods", () => {
+    expect(formatQuotaPeriod({ periodType: "month", year: 2026, period: 3 })).toBe("Mar 2026");
+    expect(formatQuotaPeriod({ periodType: "quarter", year: 2026, period: 4 })).toBe("Q4 2026");
+    expect(formatQuotaPeriod({ periodType: "year", year: 2026, period: 1 })).toBe("2026");
+  });
+});
+
+describe("computeQuotaMetrics", () => {
+  const { start, end } = quotaPeriodRange({ periodType: "quarter", year: 2026, period: 1 });
+  // Q1 2026 has 90 days; 45 days in is exactly halfway
+  const halfway = new Date(start.getTime() + 45 * 24 * 60 * 60 * 1000);
+
+  it("reports attainment, coverage and pacing mid-period", () => {
+    const metrics = computeQuotaMetrics({ quota: 100_000, closedWon: 40_000, weightedPipeline: 90_000, start, end, now: halfway });
+    expect(metrics.attainment).toBeCloseTo(0.4);
+    expect(metrics.remaining).toBe(60_000);
+    expect(metrics.coverage).toBeCloseTo(1.5);
+    expect(metrics.elapsed).toBeCloseTo(0.5);
+    expect(metrics.expectedToDate).toBeCloseTo(50_000);
+    expect(metrics.pacing).toBeCloseTo(0.8);
+    expect(metrics.projected).toBeCloseTo(80_000);
+    expect(metrics.status).toBe("behind");
+  });
+
+  it("distinguishes ahead, on track and achieved", () => {
+    const base = { quota: 100_000, weightedPipeline: 0, start, end, now: halfway };
+    expect(computeQuotaMetrics({ ...base, closedWon: 55_000 }).status).toBe("ahead");
+    expect(computeQuotaMetrics({ ...base, closedWon: 46_000 }).status).toBe("on_track");
+    const achieved = computeQuotaMetrics({ ...base, closedWon: 120_000 });
+    expect(achieved.status).toBe("achieved");
+    expect(achieved.remaining).toBe(0);
+    expect(achieved.coverage).toBeNull();
+  });
+
+  it("clamps elapsed time outside the period", () => {
+    const before = computeQuotaMetrics({ quota: 1000, closedWon: 0, weightedPipeline: 500, start, end, now: new Date("2025-12-01T00:00:00Z") });
+    expect(before.elapsed).toBe(0);
+    expect(before.pacing).toBeNull();
+    expect(before.projected).toBeNull();
+    expect(before.status).toBe("not_started");
+    const after = computeQuotaMetrics({ quota: 1000, closedWon: 800, weightedPipeline: 0, start, end, now: new Date("2026-05-01T00:00:00Z") });
+    expect(after.elapsed).toBe(1);
+    expect(after.pacing).toBeCloseTo(0.8);
+    expect(after.projected).toBe(800);
+  });
+});
+
+describe("insertSalesQuotaSchema", () => {
+  it("validates the period against the period type", () => {
+    expect(insertSalesQuotaSchema.safeParse({ periodType: "quarter", year: 2026, period: 5, amount: 1000 }).success).toBe(false);
+    expect(insertSalesQuotaSchema.safeParse({ periodType: "month", year: 2026, period: 12, amount: "2500.50" }).success).toBe(true);
+    expect(insertSalesQuotaSchema.safeParse({ periodType: "year", year: 2026, amount: 0 }).success).toBe(false);
+  });
+
+  it("treats a blank category as no filter", () => {
+    const parsed = insertSalesQuotaSchema.parse({ periodType: "year", year: 2026, amount: 5000, category: "  " });
+    expect(parsed.category).toBeNull();
+    expect(parsed.period).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+// Unit tests for activity recurrence rules (RRULE subset).
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  RecurrenceRuleError,
+  countOccurrencesBefore,
+  describeRecurrenceRule,
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  shiftRecurrenceRule,
+  truncateRecurrenceRule,
+} from "../server/lib/recurrence";
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString().slice(0, 10));
+const until = new Date("2027-12-31T00:00:00Z");
+
+describe("parseRecurrenceRule", () => {
+  it("parses and canonicalizes supported rules", () => {
+    const rule = parseRecurrenceRule("RRULE:freq=weekly;byday=we,mo,MO;interval=2;count=10");
+    expect(rule).toEqual({ freq: "WEEKLY", interval: 2, byDay: [{ weekday: "MO" }, { weekday: "WE" }], count: 10 });
+    expect(formatRecurrenceRule(rule)).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10");
+    expect(formatRecurrenceRule(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231")))
+      .toBe("FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231T235959Z");
+  });
+
+  it("rejects unsupported or inconsistent rules", () => {
+    const bad = [
+      "",
+      "FREQ=YEARLY",
+      "FREQ=WEEKLY;BYHOUR=9",
+      "FREQ=DAILY;BYDAY=MO",
+      "FREQ=WEEKLY;BYDAY=2TU",
+      "FREQ=MONTHLY;BYMONTHDAY=0",
+      "FREQ=MONTHLY;BYDAY=MO;BYMONTHDAY=1",
+      "FREQ=DAILY;COUNT=5;UNTIL=20260101",
+      "FREQ=DAILY;UNTIL=20260230",
+      "FREQ=DAILY;INTERVAL=0",
+      "FREQ=DAILY;FREQ=WEEKLY",
+    ];
+    for (const input of bad) {
+      expect(() => parseRecurrenceRule(input), input).toThrow(RecurrenceRuleError);
+    }
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("always starts with the series start and honours COUNT", () => {
+    // 2026-03-04 is a Wednesday
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,FR;COUNT=4");
+    expect(iso(expandRecurrence(rule, new Date("2026-03-04T15:00:00Z"), { until })))
+      .toEqual(["2026-03-04", "2026-03-06", "2026-03-09", "2026-03-13"]);
+  });
+
+  it("keeps the time of day and skips by interval", () => {
+    const dates = expandRecurrence(parseRecurrenceRule("FREQ=DAILY;INTERVAL=3;COUNT=3"), new Date("2026-03-30T09:30:00Z"), { until });
+    expect(dates.map(d => d.toISOString())).toEqual(["2026-03-30T09:30:00.000Z", "2026-04-02T09:30:00.000Z", "2026-04-05T09:30:00.000Z"]);
+  });
+
+  it("supports monthly days, last days and nth weekdays", () => {
+    const start = new Date("2026-01-31T10:00:00Z");
+    expect(iso(expandRecurrence(parseRecurrenceRule("FREQ=MONTHLY;COUNT=3"), start, { until })))
+      .toEqual(["2026-01-31", "2026-03-31", "2026-05-31"]);
+    expect(iso(expandRecurrence(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3"), start, { until })))
+      .toEqual(["2026-01-31", "2026-02-28", "2026-03-31"]);
+    expect(iso(expandRecurrence(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=2TU;COUNT=3"), new Date("2026-01-13T10:00:00Z"), { until })))
+      .toEqual(["2026-01-13", "2026-02-10", "2026-03-10"]);
+  });
+
+  it("returns only the requested window and stops at UNTIL", () => {
+    const rule = parseRecurrenceRule("FREQ=DAILY;UNTIL=20260310");
+    const start = new Date("2026-03-01T09:00:00Z");
+    expect(iso(expandRecurrence(rule, start, { after: new Date("2026-03-07T09:00:00Z"), until })))
+      .toEqual(["2026-03-08", "2026-03-09", "2026-03-10"]);
+    expect(expandRecurrence(rule, start, { until: new Date("2026-03-02T00:00:00Z") })).toHaveLength(1);
+  });
+});
+
+describe("series edit helpers", () => {
+  it("counts occurrences before a split point", () => {
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;COUNT=10");
+    expect(countOccurrencesBefore(rule, new Date("2026-03-02T09:00:00Z"), new Date("2026-03-23T09:00:00Z"))).toBe(3);
+  });
+
+  it("truncates a rule just before a date", () => {
+    const truncated = truncateRecurrenceRule(parseRecurrenceRule("FREQ=WEEKLY;COUNT=10"), new Date("2026-03-23T09:00:00Z"));
+    expect(formatRecurrenceRule(truncated)).toBe("FREQ=WEEKLY;UNTIL=20260323T085959Z");
+  });
+
+  it("shifts weekdays and month days with the series", () => {
+    expect(shiftRecurrenceRule(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,SU"), 1)?.byDay)
+      .toEqual([{ weekday: "TU" }, { weekday: "MO" }]);
+    expect(shiftRecurrenceRule(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=15"), -2)?.byMonthDay).toEqual([13]);
+    expect(shiftRecurrenceRule(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1"), 1)).toBeNull();
+  });
+});
+
+describe("describeRecurrenceRule", () => {
+  it("summarizes rules for display", () => {
+    expect(describeRecurrenceRule(parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10")))
+      .toBe("Every 2 weeks on Mon, Wed, 10 times");
+    expect(describeRecurrenceRule(parseRecurrenceRule("FREQ=MONTHLY;BYDAY=1MO;UNTIL=20261231")))
+      .toBe("Monthly on the 1st Mon, until 2026-12-31");
+    expect(describeRecurrenceRule(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1"))).toBe("Monthly on the last day");
+  });
+});
@@ -0,0 +1,130 @@
+// Unit tests for the Brave, Serper and fixture web search providers.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { BraveSearchProvider, parseBraveResults } from "../server/lib/research/providers/BraveSearchProvider";
+import { SerperSearchProvider, parseSerperResults } from "../server/lib/research/providers/SerperSearchProvider";
+import {
+  DEFAULT_FIXTURE_FILE,
+  FixtureSearchProvider,
+  RecordingResearchProvider,
+  fixtureFileName,
+} from "../server/lib/research/providers/FixtureSearchProvider";
+import type { ResearchProvider } from "../server/lib/research/types";
+
+describe("parseBraveResults", () => {
+  it("maps web results and drops entries without a title or URL", () => {
+    const data = {
+      web: {
+        results: [
+          { title: "Acme Health", url: "https://acme.example", description: "Care coordination" },
+          { title: "No link" },
+          { url: "https://untitled.example" },
+        ],
+      },
+    };
+    expect(parseBraveResults(data)).toEqual([
+      { title: "Acme Health", url: "https://acme.example", snippet: "Care coordination", citations: [{ title: "Acme Health", url: "https://acme.example" }] },
+    ]);
+  });
+
+  it("returns no results for an empty or malformed response", () => {
+    expect(parseBraveResults(null)).toEqual([]);
+    expect(parseBraveResults({ web: {} })).toEqual([]);
+  });
+});
+
+describe("parseSerperResults", () => {
+  it("maps organic results", () => {
+    const data = { organic: [{ title: "Beta Clinics", link: "https://beta.example", snippet: "Urgent care" }, { title: "Missing link" }] };
+    expect(parseSerperResults(data)).toEqual([
+      { title: "Beta Clinics", url: "https://beta.example", snippet: "Urgent care", citations: [{ title: "Beta Clinics", url: "https://beta.example" }] },
+    ]);
+    expect(parseSerperResults({})).toEqual([]);
+  });
+});
+
+describe("provider config validation", () => {
+  it("requires an API key for Brave and Serper", () => {
+    expect(new BraveSearchProvider({ apiKey: "" }).validateConfig()).toMatch(/key/i);
+    expect(new SerperSearchProvider({ apiKey: "" }).validateConfig()).toMatch(/key/i);
+    expect(new BraveSearchProvider({ apiKey: "k" }).validateConfig()).toBeNull();
+    expect(new SerperSearchProvider({ apiKey: "k" }).validateConfig()).toBeNull();
+  });
+});
+
+describe("fixtureFileName", () => {
+  it("replays the same file regardless of case and spacing", () => {
+    expect(fixtureFileName("  Healthcare   Technology Companies ")).toBe(fixtureFileName("healthcare technology companies"));
+  });
+
+  it("uses a readable slug plus a hash", () => {
+    expect(fixtureFileName("Clinics in Ohio?")).toMatch(/^clinics-in-ohio-[0-9a-f]{10}\.json$/);
+    expect(fixtureFileName("!!!")).toMatch(/^query-[0-9a-f]{10}\.json$/);
+  });
+
+  it("gives different queries different files", () => {
+    expect(fixtureFileName("clinics in ohio")).not.toBe(fixtureFileName("clinics in iowa"));
+  });
+});
+
+describe("FixtureSearchProvider", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "research-fixtures-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replays a recorded fixture for the query", async () => {
+    writeFileSync(path.join(dir, fixtureFileName("clinics in ohio")), JSON.stringify({
+      query: "clinics in ohio",
+      results: [{ title: "Ohio Clinic", url: "https://ohio.example", snippet: "Primary care" }],
+    }));
+    const provider = new FixtureSearchProvider(dir);
+    expect(provider.validateConfig()).toBeNull();
+    expect(await provider.search("Clinics in Ohio")).toEqual([
+      { title: "Ohio Clinic", url: "https://ohio.example", snippet: "Primary care", citations: [{ title: "Ohio Clinic", url: "https://ohio.example" }] },
+    ]);
+  });
+
+  it("falls back to the default fixture, then to no results", async () => {
+    const provider = new FixtureSearchProvider(dir);
+    expect(await provider.search("anything")).toEqual([]);
+
+    writeFileSync(path.join(dir, DEFAULT_FIXTURE_FILE), JSON.stringify([{ title: "Default", url: "https://default.example" }]));
+    const results = await provider.search("anything");
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ title: "Default", url: "https://default.example", snippet: "" });
+  });
+
+  it("rejects a fixture without a results array", async () => {
+    writeFileSync(path.join(dir, fixtureFileName("broken")), JSON.stringify({ query: "broken" }));
+    await expect(new FixtureSearchProvider(dir).search("broken")).rejects.toThrow(/no results array/);
+  });
+
+  it("reports a missing fixture directory", () => {
+    expect(new FixtureSearchProvider(path.join(dir, "missing")).validateConfig()).toMatch(/not found/);
+  });
+
+  it("replays what RecordingResearchProvider recorded", async () => {
+    const live: ResearchProvider = {
+      mode: "brave",
+      validateConfig: () => null,
+      search: async (query) => [{ title: `Result for ${query}`, url: "https://live.example", snippet: "live" }],
+    };
+    const recordDir = path.join(dir, "recorded");
+    const recorder = new RecordingResearchProvider(live, recordDir);
+    expect(recorder.mode).toBe("brave");
+    const recorded = await recorder.search("Rural hospitals");
+
+    expect(readdirSync(recordDir)).toEqual([fixtureFileName("rural hospitals")]);
+    const replayed = await new FixtureSearchProvider(recordDir).search("rural   hospitals");
+    expect(replayed.map(r => ({ title: r.title, url: r.url, snippet: r.snippet }))).toEqual(recorded);
+  });
+});
@@ -0,0 +1,105 @@
+// Unit tests for sales process validation, stage exit criteria and stage phases.
+// Pure helpers only — no database or dev server required.
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SALES_PROCESS,
+  checkStageChange,
+  lateOpenStages,
+  stagePhases,
+  validateSalesProcess,
+  type ProcessStage,
+} from "../server/lib/sales-process";
+
+const stage = (key: string, label: string, probability: number, exitCriteria: Partial<ProcessStage["exitCriteria"]> = {}): ProcessStage => ({
+  key,
+  label,
+  probability,
+  exitCriteria: { requiredFields: [], requiredContactRoles: [], ...exitCriteria },
+});
+
+const process: ProcessStage[] = [
+  stage("discovery", "Discovery", 10),
+  stage("qualification", "Qualification", 30, { requiredFields: ["amount", "closeDate"] }),
+  stage("proposal", "Proposal", 60, { requiredContactRoles: ["economic_buyer"], requiredFields: ["customFields.budget_code"] }),
+  stage("negotiation", "Negotiation", 80),
+  stage("closed_won", "Closed Won", 100),
+  stage("closed_lost", "Closed Lost", 0),
+];
+
+describe("validateSalesProcess", () => {
+  it("accepts the default process and a custom one", () => {
+    expect(validateSalesProcess(DEFAULT_SALES_PROCESS, new Set())).toEqual([]);
+    expect(validateSalesProcess(process, new Set(["budget_code"]))).toEqual([]);
+  });
+
+  it("keeps the closed stages last and stage keys unique", () => {
+    const errors = validateSalesProcess([
+      stage("closed_won", "Won", 100),
+      stage("discovery", "Discovery", 10),
+      stage("discovery", "Discovery again", 20),
+      stage("closed_lost", "Lost", 0),
+    ], new Set());
+    expect(errors).toEqual([
+      'Stage key "discovery" is used more than once',
+      "The process must end with the closed_won and closed_lost stages",
+    ]);
+  });
+
+  it("rejects unknown custom fields and criteria on closed stages", () => {
+    const errors = validateSalesProcess([
+      stage("discovery", "Discovery", 10, { requiredFields: ["customFields.missing"] }),
+      stage("closed_won", "Closed Won", 100, { requiredFields: ["amount"] }),
+      stage("closed_lost", "Closed Lost", 0),
+    ], new Set(["budget_code"]));
+    expect(errors).toEqual([
+      'Discovery requires unknown custom field "missing"',
+      "Closed Won is a closed stage and cannot have exit criteria",
+    ]);
+  });
+});
+
+describe("checkStageChange", () => {
+  const complete = { amount: "5000", closeDate: new Date("2026-09-01"), customFields: { budget_code: "B-7" } };
+
+  it("applies the exit criteria of every stage passed on the way forward", () => {
+    const issues = checkStageChange(process, "discovery", "negotiation", { amount: "", closeDate: null, customFields: {} }, [], { budget_code: "Budget code" });
+    expect(issues).toEqual([
+      { stage: "qualification", field: "amount", message: "Amount is required to leave Qualification" },
+      { stage: "qualification", field: "closeDate", message: "Close date is required to leave Qualification" },
+      { stage: "proposal", field: "customFields.budget_code", message: "Budget code is required to leave Proposal" },
+      { stage: "proposal", field: "contacts.economic_buyer", message: "A contact with the Economic Buyer role is required to leave Proposal" },
+    ]);
+  });
+
+  it("passes once the criteria are met", () => {
+    expect(checkStageChange(process, "qualification", "closed_won", complete, ["economic_buyer", "champion"])).toEqual([]);
+  });
+
+  it("only checks the stages being left", () => {
+    expect(checkStageChange(process, "discovery", "qualification", {}, [])).toEqual([]);
+    expect(checkStageChange(process, "qualification", "proposal", { ...complete, amount: null }, []).map(i => i.field)).toEqual(["amount"]);
+  });
+
+  it("never blocks moving backward or closing as lost", () => {
+    expect(checkStageChange(process, "negotiation", "discovery", {}, [])).toEqual([]);
+    expect(checkStageChange(process, "discovery", "closed_lost", {}, [])).toEqual([]);
+  });
+
+  it("checks new, reopened and orphaned opportunities from the first stage", () => {
+    for (const from of [null, "closed_lost", "retired_stage"]) {
+      expect(checkStageChange(process, from, "proposal", {}, []).map(i => i.field), String(from)).toEqual(["amount", "closeDate"]);
+    }
+  });
+});
+
+describe("stagePhases", () => {
+  it("splits the default open stages into early, mid and late", () => {
+    expect(stagePhases(DEFAULT_SALES_PROCESS)).toEqual({
+      prospecting: "early",
+      qualification: "early",
+      proposal: "mid",
+      negotiation: "late",
+    });
+    expect(lateOpenStages(DEFAULT_SALES_PROCESS)).toEqual(["proposal", "negotiation"]);
+  });
+});
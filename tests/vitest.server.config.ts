@@ -15,7 +15,7 @@ export default defineConfig({
     testTimeout: 60000,
     hookTimeout: 60000,
     // Integration tests share one dev server and database; running files in
-    // parallel causes API-key bcrypt scans and auth rate limits to compound,
+    // parallel causes API-key bcrypt verifies and auth rate limits to compound,
     // producing flaky timeouts. Run test files sequentially.
     fileParallelism: false,
   },
@@ -0,0 +1,107 @@
+// Unit tests for webhook signing and retry scheduling. Deliveries are signed
+// and POSTed to a local HTTP stand-in, which verifies them the way a receiver
+// would. No database or dev server required.
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  computeWebhookBackoffMs,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookEventMatches,
+} from "../server/lib/webhook-signing";
+
+const secret = generateWebhookSecret();
+let server: http.Server;
+let url: string;
+const received: { verified: boolean; body: string }[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      const verified = verifyWebhookSignature(secret, body, req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string);
+      received.push({ verified, body });
+      res.writeHead(verified ? 204 : 401).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+function post(body: string, signature: string) {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [WEBHOOK_SIGNATURE_HEADER]: signature },
+    body,
+  });
+}
+
+describe("webhook signatures", () => {
+  it("the stand-in accepts a correctly signed payload", async () => {
+    const body = JSON.stringify({ event: "lead.created", data: { entityId: "LEAD-1" } });
+    const res = await post(body, signWebhookPayload(secret, body, Math.floor(Date.now() / 1000)));
+    expect(res.status).toBe(204);
+    expect(received.at(-1)).toEqual({ verified: true, body });
+  });
+
+  it("rejects a payload signed with a different secret", async () => {
+    const body = JSON.stringify({ event: "lead.created" });
+    const res = await post(body, signWebhookPayload(generateWebhookSecret(), body, Math.floor(Date.now() / 1000)));
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects a tampered body", async () => {
+    const body = JSON.stringify({ event: "account.updated", amount: 1 });
+    const signature = signWebhookPayload(secret, body, Math.floor(Date.now() / 1000));
+    const res = await post(body.replace("1", "2"), signature);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects a replayed signature outside the tolerance window", () => {
+    const body = "{}";
+    const old = Math.floor(Date.now() / 1000) - 3600;
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body, old))).toBe(false);
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body, old), 7200)).toBe(true);
+  });
+
+  it("rejects malformed or missing headers", () => {
+    expect(verifyWebhookSignature(secret, "{}", undefined)).toBe(false);
+    expect(verifyWebhookSignature(secret, "{}", "garbage")).toBe(false);
+    expect(verifyWebhookSignature(secret, "{}", "t=abc,v1=00")).toBe(false);
+  });
+});
+
+describe("computeWebhookBackoffMs", () => {
+  it("doubles from 30 seconds", () => {
+    expect(computeWebhookBackoffMs(1)).toBe(30_000);
+    expect(computeWebhookBackoffMs(2)).toBe(60_000);
+    expect(computeWebhookBackoffMs(3)).toBe(120_000);
+  });
+
+  it("is capped at six hours", () => {
+    expect(computeWebhookBackoffMs(50)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it("gives up within a day of the first attempt", () => {
+    let total = 0;
+    for (let attempt = 1; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) total += computeWebhookBackoffMs(attempt);
+    expect(total).toBeLessThan(24 * 60 * 60 * 1000);
+  });
+});
+
+describe("webhookEventMatches", () => {
+  it("matches explicit events and the wildcard", () => {
+    expect(webhookEventMatches(["lead.created"], "lead.created")).toBe(true);
+    expect(webhookEventMatches(["lead.created"], "lead.updated")).toBe(false);
+    expect(webhookEventMatches(["*"], "opportunity.deleted")).toBe(true);
+  });
+});
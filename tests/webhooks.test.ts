@@ -0,0 +1,175 @@
+// Integration tests for outbound webhooks: subscription management through the
+// external API, signed delivery to a local HTTP stand-in, retry bookkeeping,
+// dead-lettering and manual redelivery.
+// Requires the dev server to be running on localhost:5000
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { db } from "../server/db";
+import { generateApiKey } from "../server/api-key-utils";
+import { attemptDelivery } from "../server/webhook-service";
+import { WEBHOOK_MAX_ATTEMPTS, verifyWebhookSignature } from "../server/lib/webhook-signing";
+import * as schema from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+
+const BASE = "http://localhost:5000/api/v1/external";
+const suffix = Date.now();
+
+let orgId: string;
+let userId: string;
+let orgKey: string;
+let keyIds: string[] = [];
+let leadIds: string[] = [];
+
+// Local stand-in receiver; respondWith controls the next status codes returned
+let standIn: http.Server;
+let standInUrl: string;
+let respondWith: number[] = [];
+const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+function req(path: string, key: string, init?: { method?: string; body?: any }) {
+  return fetch(`${BASE}${path}`, {
+    method: init?.method ?? "GET",
+    headers: { "x-api-key": key, "Content-Type": "application/json" },
+    body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+}
+
+async function waitFor<T>(fn: () => Promise<T | undefined>, timeoutMs = 5000): Promise<T> {
+  const started = Date.now();
+  while (Date.now() - started < timeoutMs) {
+    const value = await fn();
+    if (value) return value;
+    await new Promise(r => setTimeout(r, 100));
+  }
+  throw new Error("Timed out waiting for condition");
+}
+
+async function deliveriesFor(subscriptionId: string) {
+  return db.select().from(schema.webhookDeliveries).where(eq(schema.webhookDeliveries.subscriptionId, subscriptionId));
+}
+
+beforeAll(async () => {
+  standIn = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", chunk => { body += chunk; });
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      response.writeHead(respondWith.shift() ?? 200).end("ok");
+    });
+  });
+  await new Promise<void>(resolve => standIn.listen(0, "127.0.0.1", resolve));
+  standInUrl = `http://127.0.0.1:${(standIn.address() as AddressInfo).port}/hook`;
+
+  const users = await db.select().from(schema.users).limit(1);
+  userId = users[0].id;
+  const [org] = await db.insert(schema.organizations)
+    .values({ name: `vitest-webhooks-org-${suffix}`, slug: `vitest-webhooks-org-${suffix}` }).returning();
+  orgId = org.id;
+  const k = generateApiKey();
+  orgKey = k.publicKey;
+  const inserted = await db.insert(schema.apiKeys).values([
+    { hashedKey: k.hashedKey, keyId: k.keyId, name: `vitest-webhooks-${suffix}`, isActive: true, organizationId: orgId, createdBy: userId },
+  ]).returning({ id: schema.apiKeys.id });
+  keyIds = inserted.map(r => r.id);
+});
+
+afterAll(async () => {
+  if (leadIds.length) await db.delete(schema.leads).where(inArray(schema.leads.id, leadIds));
+  if (keyIds.length) await db.delete(schema.apiKeys).where(inArray(schema.apiKeys.id, keyIds));
+  await db.delete(schema.organizations).where(eq(schema.organizations.id, orgId));
+  await new Promise<void>(resolve => standIn.close(() => resolve()));
+});
+
+describe("Outbound webhooks", () => {
+  let subscriptionId: string;
+  let secret: string;
+
+  it("creates a subscription and returns the signing secret once", async () => {
+    const res = await req("/webhooks", orgKey, {
+      method: "POST",
+      body: { name: "vitest", url: standInUrl, events: ["lead.created", "lead.updated"] },
+    });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.data.secret).toMatch(/^whsec_/);
+    expect(body.data.encryptedSecret).toBeUndefined();
+    subscriptionId = body.data.id;
+    secret = body.data.secret;
+
+    const list = await (await req("/webhooks", orgKey)).json();
+    expect(list.data.map((s: any) => s.id)).toContain(subscriptionId);
+    expect(list.data[0].secret).toBeUndefined();
+  });
+
+  it("rejects unknown event names", async () => {
+    const res = await req("/webhooks", orgKey, {
+      method: "POST",
+      body: { name: "bad", url: standInUrl, events: ["lead.exploded"] },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("delivers a signed lead.created event when a lead is created", async () => {
+    const res = await req("/leads", orgKey, {
+      method: "POST",
+      body: { firstName: "Hook", lastName: "Test", company: "Webhook Co", email: `hook-${suffix}@example.com` },
+    });
+    expect(res.status).toBe(201);
+    const lead = (await res.json()).data;
+    leadIds.push(lead.id);
+
+    const delivery = await waitFor(async () =>
+      (await deliveriesFor(subscriptionId)).find(d => d.entityId === lead.id && d.status === "succeeded"));
+    expect(delivery.event).toBe("lead.created");
+    expect(delivery.attempts).toBe(1);
+
+    const hit = received.find(r => r.headers["x-htcrm-delivery"] === delivery.id)!;
+    expect(hit.headers["x-htcrm-event"]).toBe("lead.created");
+    expect(verifyWebhookSignature(secret, hit.body, hit.headers["x-htcrm-signature"] as string)).toBe(true);
+    expect(JSON.parse(hit.body).data.object.id).toBe(lead.id);
+  });
+
+  it("schedules a retry with backoff when the receiver fails", async () => {
+    respondWith = [500];
+    const res = await req(`/leads/${leadIds[0]}`, orgKey, { method: "PATCH", body: { title: "Retry me" } });
+    expect(res.status).toBe(200);
+
+    const delivery = await waitFor(async () =>
+      (await deliveriesFor(subscriptionId)).find(d => d.event === "lead.updated" && d.status === "failed"));
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastStatusCode).toBe(500);
+    expect(delivery.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("moves a delivery to dead_letter after the final attempt and redelivers it manually", async () => {
+    const failed = (await deliveriesFor(subscriptionId)).find(d => d.event === "lead.updated")!;
+    await db.update(schema.webhookDeliveries)
+      .set({ attempts: WEBHOOK_MAX_ATTEMPTS - 1, nextAttemptAt: new Date(Date.now() - 1000) })
+      .where(eq(schema.webhookDeliveries.id, failed.id));
+    respondWith = [503];
+    const dead = await attemptDelivery(failed.id);
+    expect(dead?.status).toBe("dead_letter");
+    expect(dead?.nextAttemptAt).toBeNull();
+
+    const res = await req(`/webhook-deliveries/${failed.id}/redeliver`, orgKey, { method: "POST" });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.status).toBe("succeeded");
+    expect(body.data.attempts).toBe(1);
+  });
+
+  it("does not fire for events the subscription did not select", async () => {
+    const before = (await deliveriesFor(subscriptionId)).length;
+    const res = await req(`/leads/${leadIds[0]}/archive`, orgKey, { method: "POST" });
+    expect(res.status).toBe(200);
+    await new Promise(r => setTimeout(r, 500));
+    expect((await deliveriesFor(subscriptionId)).length).toBe(before);
+  });
+
+  it("deletes the subscription", async () => {
+    const res = await req(`/webhooks/${subscriptionId}`, orgKey, { method: "DELETE" });
+    expect(res.status).toBe(200);
+    expect((await deliveriesFor(subscriptionId)).length).toBe(0);
+  });
+});